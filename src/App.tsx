@@ -14,6 +14,7 @@ import ArrivedDeliveriesScreen from './components/ArrivedDeliveriesScreen';
 import IssuesScreen from './components/IssuesScreen';
 import ToolsScreen from './components/ToolsScreen';
 import DeliveryShareGallery from './components/DeliveryShareGallery';
+import FactoryPortalPage from './components/FactoryPortalPage';
 import QRActivationPage from './components/QRActivationPage';
 import DeliverySpreadsheetEditor from './components/DeliverySpreadsheetEditor';
 import PositionerPopupPage from './components/PositionerPopupPage';
@@ -40,7 +41,7 @@ import './App.css';
 // Initialize offline queue on app load
 initOfflineQueue();
 
-export const APP_VERSION = '3.4.22';
+export const APP_VERSION = '3.4.47';
 
 // Trimble Connect kasutaja info
 interface TrimbleConnectUser {
@@ -85,9 +86,16 @@ const qrPathMatch = window.location.pathname.match(qrPathRegex);
 let isQrMode = !!qrPathMatch;
 let qrCodeId = qrPathMatch ? qrPathMatch[1] : '';
 
+// Check if this is a factory (supplier) portal page
+// Path can be: /factory/token OR /assembly-inspector/factory/token
+const factoryPathRegex = /\/factory\/([a-f0-9]+)$/i;
+const factoryPathMatch = window.location.pathname.match(factoryPathRegex);
+let isFactoryPortalMode = !!factoryPathMatch;
+let factoryToken = factoryPathMatch ? factoryPathMatch[1] : '';
+
 // GitHub Pages 404.html redirects to /?p=/assembly-inspector/share/token or /?p=/assembly-inspector/qr/uuid
-// Extract share token or QR id from query parameter if not found in path
-if (!isShareMode && !isQrMode) {
+// Extract share token, QR id or factory token from query parameter if not found in path
+if (!isShareMode && !isQrMode && !isFactoryPortalMode) {
   const redirectPath = new URLSearchParams(window.location.search).get('p');
   if (redirectPath) {
     const redirectMatch = redirectPath.match(sharePathRegex);
@@ -105,6 +113,13 @@ if (!isShareMode && !isQrMode) {
       const cleanBase = basePath.endsWith('/') ? basePath.slice(0, -1) : basePath;
       window.history.replaceState(null, '', `${cleanBase}/qr/${qrCodeId}`);
     }
+    const factoryRedirectMatch = redirectPath.match(factoryPathRegex);
+    if (factoryRedirectMatch) {
+      isFactoryPortalMode = true;
+      factoryToken = factoryRedirectMatch[1];
+      const cleanBase = basePath.endsWith('/') ? basePath.slice(0, -1) : basePath;
+      window.history.replaceState(null, '', `${cleanBase}/factory/${factoryToken}`);
+    }
   }
 }
 
@@ -2591,6 +2606,11 @@ export default function App() {
     return <DeliveryShareGallery token={shareToken} />;
   }
 
+  // Factory portal mode - public page for suppliers confirming loading and dispatch
+  if (isFactoryPortalMode && factoryToken) {
+    return <FactoryPortalPage token={factoryToken} />;
+  }
+
   // QR activation mode - public page for confirming element found on site
   if (isQrMode && qrCodeId) {
     return <QRActivationPage qrCodeId={qrCodeId} />;
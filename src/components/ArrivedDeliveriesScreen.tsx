@@ -4,7 +4,7 @@ import i18n from '../i18n';
 import {
   supabase, DeliveryVehicle, DeliveryItem, DeliveryFactory,
   ArrivedVehicle, ArrivalItemConfirmation, ArrivalPhoto,
-  ArrivalItemStatus, ArrivalPhotoType
+  ArrivalItemStatus, ArrivalPhotoType, ArrivalDiscrepancy, DiscrepancyType
 } from '../supabase';
 import { selectObjectsByGuid, findObjectsInLoadedModels } from '../utils/navigationHelper';
 import { useProjectPropertyMappings } from '../contexts/PropertyMappingsContext';
@@ -16,11 +16,12 @@ import {
   FiUpload, FiImage, FiMessageCircle,
   FiFileText, FiDownload, FiSearch, FiDroplet, FiTrash2,
   FiExternalLink, FiLoader, FiCopy, FiEdit2, FiMoreVertical, FiShare2,
-  FiList, FiSave, FiTarget
+  FiList, FiSave, FiTarget, FiAlertCircle
 } from 'react-icons/fi';
 import * as XLSX from 'xlsx-js-style';
 import { downloadDeliveryReportPDF } from '../utils/pdfGenerator';
 import { createOrGetShareLink, getShareUrl } from '../utils/shareUtils';
+import { useDiscrepancyIssues, DiscrepancyIssuesModal } from '../features/delivery';
 
 import PageHeader from './PageHeader';
 import { InspectionMode } from './MainMenu';
@@ -153,6 +154,8 @@ interface ItemRowProps {
   itemCommentValue: string;
   itemPhotos: ArrivalPhoto[];
   vehicleCode: string;
+  openDiscrepancy?: ArrivalDiscrepancy; // Unresolved discrepancy of this item on this arrival
+  linkedIssueNumber?: string;
   t: (key: string, options?: Record<string, unknown>) => string;
   onToggleSelect: (itemId: string, shiftKey: boolean) => void;
   onToggleExpand: (itemId: string) => void;
@@ -162,8 +165,12 @@ interface ItemRowProps {
   onDeletePhoto: (photoId: string, fileUrl: string) => void;
   onOpenLightbox: (photo: ArrivalPhoto, vehicleCode: string) => void;
   onSelectInModel: (guid: string) => void;
+  onReportDiscrepancy: (itemId: string, type: DiscrepancyType, description: string) => void;
 }
 
+// Discrepancy types reported by hand from the item row (missing is reported with the status buttons)
+const REPORTABLE_DISCREPANCY_TYPES: DiscrepancyType[] = ['damaged', 'wrong_quantity', 'other'];
+
 // Memoized ItemRow component - only re-renders when its specific props change
 const ItemRow = memo(({
   item,
@@ -178,6 +185,8 @@ const ItemRow = memo(({
   itemCommentValue,
   itemPhotos,
   vehicleCode,
+  openDiscrepancy,
+  linkedIssueNumber,
   t,
   onToggleSelect,
   onToggleExpand,
@@ -186,9 +195,11 @@ const ItemRow = memo(({
   onUploadPhoto,
   onDeletePhoto,
   onOpenLightbox,
-  onSelectInModel
+  onSelectInModel,
+  onReportDiscrepancy
 }: ItemRowProps) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [discrepancyType, setDiscrepancyType] = useState<DiscrepancyType>('damaged');
 
   return (
     <div className={`item-container ${isExpanded ? 'expanded' : ''}`}>
@@ -235,6 +246,16 @@ const ItemRow = memo(({
           )}
         </div>
         <div className="item-actions">
+          {/* Open discrepancy (and its issue) */}
+          {openDiscrepancy && (
+            <span
+              className="item-discrepancy-badge"
+              title={t(`delivery:discrepancyIssues.types.${openDiscrepancy.discrepancy_type}`)}
+            >
+              <FiAlertCircle size={11} />
+              {linkedIssueNumber && <span>{linkedIssueNumber}</span>}
+            </span>
+          )}
           {/* Comment indicator */}
           <button
             className={`action-btn comment ${itemCommentValue ? 'has-content' : ''}`}
@@ -334,6 +355,24 @@ const ItemRow = memo(({
               }}
             />
           </div>
+          <div className="item-discrepancy-row">
+            <select
+              value={discrepancyType}
+              onChange={(e) => setDiscrepancyType(e.target.value as DiscrepancyType)}
+            >
+              {REPORTABLE_DISCREPANCY_TYPES.map(type => (
+                <option key={type} value={type}>{t(`delivery:discrepancyIssues.types.${type}`)}</option>
+              ))}
+            </select>
+            <button
+              className="item-photo-btn"
+              onClick={() => onReportDiscrepancy(item.id, discrepancyType, itemCommentValue)}
+              disabled={!isEditing}
+              title={isEditing ? t('delivery:discrepancyIssues.reportHint') : t('common:actions.activateEditMode')}
+            >
+              <FiAlertCircle size={12} /> {t('delivery:discrepancyIssues.report')}
+            </button>
+          </div>
           {itemPhotos.length > 0 && (
             <div className="item-photos-row">
               {itemPhotos.map(photo => (
@@ -532,6 +571,36 @@ export default function ArrivedDeliveriesScreen({
     notes: ''
   });
 
+  // Arrival discrepancies and their linked issues
+  const [showDiscrepancyModal, setShowDiscrepancyModal] = useState(false);
+
+  const getArrivalVehicleCode = useCallback((arrivedVehicleId: string) => {
+    const arrivedVehicle = arrivedVehicles.find(av => av.id === arrivedVehicleId);
+    return vehicles.find(v => v.id === arrivedVehicle?.vehicle_id)?.vehicle_code || '-';
+  }, [arrivedVehicles, vehicles]);
+
+  const formatDiscrepancyIssue = useCallback((discrepancy: ArrivalDiscrepancy, item: DeliveryItem | undefined, vehicleCode: string) => {
+    const arrivedVehicle = arrivedVehicles.find(av => av.id === discrepancy.arrived_vehicle_id);
+    const typeLabel = t(`delivery:discrepancyIssues.types.${discrepancy.discrepancy_type}`);
+    return {
+      title: t('delivery:discrepancyIssues.issueTitle', { type: typeLabel, mark: item?.assembly_mark || '-', vehicle: vehicleCode }),
+      description: [
+        discrepancy.description,
+        t('delivery:discrepancyIssues.issueVehicle', { vehicle: vehicleCode, date: arrivedVehicle?.arrival_date || '-' })
+      ].filter(Boolean).join('\n')
+    };
+  }, [arrivedVehicles, t]);
+
+  const discrepancyIssues = useDiscrepancyIssues({
+    projectId,
+    userEmail: tcUserEmail,
+    userName: user?.name,
+    items,
+    photos,
+    getVehicleCode: getArrivalVehicleCode,
+    formatIssue: formatDiscrepancyIssue
+  });
+
   // ============================================
   // DATA LOADING
   // ============================================
@@ -686,12 +755,13 @@ export default function ArrivedDeliveriesScreen({
         loadArrivedVehicles(),
         loadConfirmations(),
         loadPhotos(),
-        loadUnassignedArrivals()
+        loadUnassignedArrivals(),
+        discrepancyIssues.refetch()
       ]);
     } finally {
       setLoading(false);
     }
-  }, [loadProjectName, loadVehicles, loadItems, loadFactories, loadArrivedVehicles, loadConfirmations, loadPhotos, loadUnassignedArrivals]);
+  }, [loadProjectName, loadVehicles, loadItems, loadFactories, loadArrivedVehicles, loadConfirmations, loadPhotos, loadUnassignedArrivals, discrepancyIssues.refetch]);
 
   // Initial load
   useEffect(() => {
@@ -1385,6 +1455,22 @@ export default function ArrivedDeliveriesScreen({
     }
   };
 
+  // Record a missing item discrepancy, or resolve it (and its issue) when the item was found after all
+  const syncMissingDiscrepancy = async (arrivedVehicleId: string, itemId: string, status: ArrivalItemStatus) => {
+    if (status === 'missing') {
+      await discrepancyIssues.recordDiscrepancy({
+        arrivedVehicleId,
+        itemId,
+        type: 'missing_item',
+        description: t('arrivals.markedMissing')
+      });
+    } else if (status === 'confirmed') {
+      await discrepancyIssues.resolveOpenDiscrepancy(
+        arrivedVehicleId, itemId, 'missing_item', t('delivery:discrepancyIssues.foundOnArrival')
+      );
+    }
+  };
+
   // Confirm item was delivered
   const confirmItem = async (arrivedVehicleId: string, itemId: string, status: ArrivalItemStatus) => {
     setSaving(true);
@@ -1482,6 +1568,7 @@ export default function ArrivedDeliveriesScreen({
           });
         }
       }
+      await syncMissingDiscrepancy(arrivedVehicleId, itemId, status);
     } catch (e: any) {
       console.error('Error confirming item:', e);
       setMessage(t('delivery:messages.genericError') + ': ' + e.message);
@@ -1546,6 +1633,14 @@ export default function ArrivedDeliveriesScreen({
         if (insertError) throw insertError;
       }
 
+      // One item at a time - resolving reloads the discrepancy list
+      for (const c of pendingConfirmations) {
+        await syncMissingDiscrepancy(arrivedVehicleId, c.item_id, 'confirmed');
+      }
+      for (const item of newItems) {
+        await syncMissingDiscrepancy(arrivedVehicleId, item.id, 'confirmed');
+      }
+
       await loadConfirmations();
       setSelectedItemsForConfirm(new Set());
       setMessage(t('common:arrivals.itemsConfirmed', { count: itemsToConfirm.length }));
@@ -1612,6 +1707,10 @@ export default function ArrivedDeliveriesScreen({
         if (insertError) throw insertError;
       }
 
+      for (const itemId of selectedItemIds) {
+        await syncMissingDiscrepancy(arrivedVehicleId, itemId, status);
+      }
+
       await loadConfirmations();
       console.log('[confirmSelectedItems] Confirmations reloaded');
       setSelectedItemsForConfirm(new Set());
@@ -3072,6 +3171,29 @@ export default function ArrivedDeliveriesScreen({
     };
   }, [handleItemPhotoUpload]);
 
+  // Handler for report discrepancy
+  const handleReportDiscrepancy = useCallback((arrivedVehicleId: string) => {
+    return async (itemId: string, type: DiscrepancyType, description: string) => {
+      const discrepancy = await discrepancyIssues.recordDiscrepancy({ arrivedVehicleId, itemId, type, description });
+      if (!discrepancy) {
+        setMessage(t('delivery:messages.genericError'));
+      } else if (discrepancy.issue_id) {
+        setMessage(t('delivery:discrepancyIssues.reportedWithIssue'));
+      } else {
+        setMessage(t('delivery:discrepancyIssues.reported'));
+      }
+    };
+  }, [discrepancyIssues.recordDiscrepancy, t]);
+
+  // Open discrepancy per `${arrivedVehicleId}_${itemId}`
+  const openDiscrepancyMap = useMemo(() => {
+    const map = new Map<string, ArrivalDiscrepancy>();
+    discrepancyIssues.discrepancies.forEach(d => {
+      if (!d.is_resolved && d.item_id) map.set(`${d.arrived_vehicle_id}_${d.item_id}`, d);
+    });
+    return map;
+  }, [discrepancyIssues.discrepancies]);
+
   // Handler for open lightbox
   const handleOpenLightbox = useCallback((photo: ArrivalPhoto, vehicleCode: string) => {
     setLightboxPhoto({ photo, vehicleCode });
@@ -3614,6 +3736,18 @@ export default function ArrivedDeliveriesScreen({
         >
           <FiDroplet className={coloringInProgress ? 'spinning' : ''} />
         </button>
+        {/* Discrepancies and linked issues */}
+        <button
+          className="view-toggle-btn"
+          onClick={() => setShowDiscrepancyModal(true)}
+          title={t('delivery:discrepancyIssues.title')}
+          style={{ position: 'relative', color: discrepancyIssues.openCount > 0 ? '#dc2626' : undefined }}
+        >
+          <FiAlertCircle />
+          {discrepancyIssues.openCount > 0 && (
+            <span className="discrepancy-count">{discrepancyIssues.openCount}</span>
+          )}
+        </button>
         {/* Project summary button */}
         <button
           className="view-toggle-btn"
@@ -4801,6 +4935,7 @@ export default function ArrivedDeliveriesScreen({
                               const itemCommentValue = getCommentFast(arrivedVehicle.id, item.id);
                               const itemPhotos = getPhotosFast(arrivedVehicle.id, item.id);
                               const isExpanded = expandedItemId === item.id;
+                              const openDiscrepancy = openDiscrepancyMap.get(`${arrivedVehicle.id}_${item.id}`);
                               const { count: duplicateCount, index: duplicateIndex } = getDuplicateInfo(vehicle.id, item.id, item.assembly_mark || '');
 
                               return (
@@ -4818,6 +4953,8 @@ export default function ArrivedDeliveriesScreen({
                                   itemCommentValue={itemCommentValue}
                                   itemPhotos={itemPhotos}
                                   vehicleCode={vehicle.vehicle_code || 'veok'}
+                                  openDiscrepancy={openDiscrepancy}
+                                  linkedIssueNumber={openDiscrepancy?.issue_id ? discrepancyIssues.issues.get(openDiscrepancy.issue_id)?.issue_number : undefined}
                                   t={t}
                                   onToggleSelect={handleToggleSelect(arrivedVehicle.id, filteredItems)}
                                   onToggleExpand={handleToggleExpand}
@@ -4827,6 +4964,7 @@ export default function ArrivedDeliveriesScreen({
                                   onDeletePhoto={deletePhoto}
                                   onOpenLightbox={handleOpenLightbox}
                                   onSelectInModel={handleSelectInModel}
+                                  onReportDiscrepancy={handleReportDiscrepancy(arrivedVehicle.id)}
                                 />
                               );
                             })}
@@ -5457,6 +5595,7 @@ export default function ArrivedDeliveriesScreen({
                       confirmed_by: tcUserEmail
                     });
                 }
+                await syncMissingDiscrepancy(arrivedVehicle.id, itemId, status);
                 updated++;
               }
             }
@@ -7360,6 +7499,24 @@ export default function ArrivedDeliveriesScreen({
         </div>
       )}
 
+      {/* Discrepancies and linked issues */}
+      {showDiscrepancyModal && (
+        <DiscrepancyIssuesModal
+          discrepancies={discrepancyIssues.discrepancies}
+          issues={discrepancyIssues.issues}
+          items={items}
+          autoIssueTypes={discrepancyIssues.autoIssueTypes}
+          loading={discrepancyIssues.loading}
+          error={discrepancyIssues.error}
+          getVehicleCode={getArrivalVehicleCode}
+          onRefresh={discrepancyIssues.refetch}
+          onSaveAutoIssueTypes={discrepancyIssues.saveAutoIssueTypes}
+          onCreateIssue={discrepancyIssues.createIssue}
+          onSetResolved={discrepancyIssues.setResolved}
+          onClose={() => setShowDiscrepancyModal(false)}
+        />
+      )}
+
       {/* Photo lightbox modal */}
       {lightboxPhoto && (() => {
         const { photo, vehicleCode } = lightboxPhoto;
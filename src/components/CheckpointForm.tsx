@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { FiCheck, FiX, FiCamera, FiMessageSquare, FiInfo, FiFileText, FiVideo, FiLink, FiPaperclip, FiEdit2, FiImage, FiChevronLeft, FiChevronRight, FiPlus } from 'react-icons/fi';
+import { FiCheck, FiX, FiCamera, FiMessageSquare, FiInfo, FiFileText, FiVideo, FiLink, FiPaperclip, FiEdit2, FiImage, FiChevronLeft, FiChevronRight, FiPlus, FiCloudOff } from 'react-icons/fi';
 import { supabase, InspectionCheckpoint, ResponseOption, InspectionResult, CheckpointAttachment, InspectionResultPhoto } from '../supabase';
-import { addToQueue } from '../utils/offlineQueue';
+import { addToQueue, isOnline } from '../utils/offlineQueue';
+import { saveCachedResults, CachedResult } from '../utils/offlineInspectionCache';
 import * as WorkspaceAPI from 'trimble-connect-workspace-api';
 import { PhotoUploader, ProcessedFile } from './PhotoUploader';
 
@@ -63,6 +64,8 @@ export default function CheckpointForm({
 
   // View mode vs edit mode - start in view mode if existing results
   const hasExistingResults = existingResults && existingResults.length > 0;
+  // Results saved offline that the upload queue has not inserted yet
+  const hasPendingSync = !!existingResults?.some(r => (r as CachedResult).pending_sync);
   const [isEditMode, setIsEditMode] = useState(!hasExistingResults);
 
   // Gallery navigation functions
@@ -599,6 +602,75 @@ export default function CheckpointForm({
     }
   };
 
+  // Read photo file as data URL for the offline queue
+  const readAsDataURL = (file: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+  };
+
+  // Save without network - results get client-side ids so queued photos can
+  // reference them, and are cached as pending sync until the queue inserts them
+  const saveResultsOffline = async (): Promise<InspectionResult[]> => {
+    const now = new Date().toISOString();
+    const savedResults: InspectionResult[] = [];
+
+    for (const checkpoint of checkpoints) {
+      const response = responses[checkpoint.id];
+      if (!response || !response.responseValue) continue;
+
+      const resultData = {
+        id: crypto.randomUUID(),
+        plan_item_id: planItemId || null,
+        checkpoint_id: checkpoint.id,
+        project_id: projectId,
+        assembly_guid: assemblyGuid,
+        assembly_name: assemblyName,
+        response_value: response.responseValue,
+        response_label: response.responseLabel,
+        comment: response.comment || null,
+        inspector_name: inspectorName,
+        user_email: userEmail?.toLowerCase() || null,
+        inspected_at: now
+      };
+
+      // Server version the inspector saw - sync reports a conflict if it changed meanwhile
+      const baseUpdatedAt = (existingResults || [])
+        .filter(r => r.checkpoint_id === checkpoint.id && !(r as CachedResult).pending_sync)
+        .map(r => r.updated_at || r.created_at)
+        .sort()
+        .pop() || null;
+
+      // Results before photos - photo records reference the result
+      await addToQueue({ type: 'result', data: resultData, priority: 10, baseUpdatedAt });
+
+      for (const [idx, photo] of (response.photos || []).entries()) {
+        await addToQueue({
+          type: 'photo',
+          data: { resultId: resultData.id, sortOrder: idx, photoType: 'user' },
+          blobData: await readAsDataURL(photo.file),
+          fileName: `checkpoint_${checkpoint.id}_${assemblyGuid}_${idx}_${Date.now()}.jpg`,
+          contentType: photo.file.type,
+          priority: 5
+        });
+      }
+
+      savedResults.push({
+        ...resultData,
+        synced_to_trimble: false,
+        created_at: now,
+        updated_at: now
+      } as InspectionResult);
+    }
+
+    await saveCachedResults(savedResults, true);
+    console.log(`📦 Saved ${savedResults.length} checkpoint results offline`);
+    return savedResults;
+  };
+
   // Submit form - now with background uploads
   const handleSubmit = async () => {
     const validationError = validateForm();
@@ -611,6 +683,17 @@ export default function CheckpointForm({
     setError(null);
 
     try {
+      // No network - queue everything (snapshots need storage, skip them)
+      if (!isOnline()) {
+        const offlineResults = await saveResultsOffline();
+        Object.values(responses).forEach(r => {
+          r.photos?.forEach(p => URL.revokeObjectURL(p.preview));
+        });
+        onComplete(offlineResults);
+        setShowContinueButton(true);
+        return;
+      }
+
       const savedResults: InspectionResult[] = [];
       const backgroundUploads: Promise<void>[] = [];
 
@@ -704,6 +787,10 @@ export default function CheckpointForm({
         r.photos?.forEach(p => URL.revokeObjectURL(p.preview));
       });
 
+      // Keep offline cache current for this assembly
+      saveCachedResults(savedResults, false)
+        .catch(e => console.error('Error caching saved results:', e));
+
       // Complete immediately - don't wait for photo uploads
       onComplete(savedResults);
 
@@ -812,6 +899,15 @@ export default function CheckpointForm({
                 <FiCheck className="completed-icon" />
                 <span>{t('checkpoint.inspected')}</span>
               </div>
+              {hasPendingSync && (
+                <span
+                  title={t('checkpoint.pendingSyncHint')}
+                  style={{ display: 'inline-flex', alignItems: 'center', gap: '4px', padding: '2px 8px', borderRadius: '10px', background: '#fef3c7', color: '#92400e', fontSize: '11px', fontWeight: 500 }}
+                >
+                  <FiCloudOff size={12} />
+                  {t('checkpoint.pendingSync')}
+                </span>
+              )}
               <button
                 className="edit-btn"
                 onClick={() => setIsEditMode(true)}
@@ -852,6 +948,12 @@ export default function CheckpointForm({
         </div>
       )}
 
+      {isEditMode && !isOnline() && (
+        <div className="checkpoint-warning">
+          <FiCloudOff size={12} /> {t('checkpoint.offlineSaveNotice')}
+        </div>
+      )}
+
       {validationWarning && (
         <div className="checkpoint-warning">
           ⚠️ {validationWarning}
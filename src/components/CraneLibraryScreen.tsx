@@ -6,6 +6,17 @@ import { InspectionMode } from './MainMenu';
 import { useCranes } from '../features/crane-planning/crane-library/hooks/useCranes';
 import { useCounterweights } from '../features/crane-planning/crane-library/hooks/useCounterweights';
 import { useLoadCharts } from '../features/crane-planning/crane-library/hooks/useLoadCharts';
+import LoadChartImportPreview, { LoadChartImportSelection } from '../features/crane-planning/crane-library/components/LoadChartImportPreview';
+import {
+  LoadChartImportSheet,
+  exportLoadChartWorkbook,
+  getCounterweightSheetName,
+  loadChartsToMatrix,
+  matrixToChartData,
+  parseLoadChartMatrix,
+  readLoadChartFile,
+  validateLoadChartMatrix
+} from '../features/crane-planning/crane-library/utils/loadChartMatrix';
 import * as XLSX from 'xlsx';
 import {
   supabase,
@@ -102,6 +113,7 @@ export default function CraneLibraryScreen({ onBackToMenu, onNavigate, userEmail
       min_radius_m: crane.min_radius_m,
       base_width_m: crane.base_width_m,
       base_length_m: crane.base_length_m,
+      max_wind_speed_ms: crane.max_wind_speed_ms ?? null,
       default_boom_length_m: crane.default_boom_length_m,
       cab_position: crane.cab_position,
       default_crane_color: crane.default_crane_color,
@@ -275,7 +287,13 @@ export default function CraneLibraryScreen({ onBackToMenu, onNavigate, userEmail
               )}
 
               {activeTab === 'charts' && editingCraneId && (
-                <LoadChartsManager craneId={editingCraneId} />
+                <LoadChartsManager
+                  craneId={editingCraneId}
+                  craneName={(() => {
+                    const crane = cranes.find(c => c.id === editingCraneId);
+                    return crane ? `${crane.manufacturer} ${crane.model}` : undefined;
+                  })()}
+                />
               )}
             </div>
           </div>
@@ -488,6 +506,7 @@ export default function CraneLibraryScreen({ onBackToMenu, onNavigate, userEmail
                                         <span><span style={{ color: '#9ca3af' }}>{t('crane.minRadius')}:</span> {crane.min_radius_m}m</span>
                                         <span><span style={{ color: '#9ca3af' }}>{t('crane.baseWidth')}:</span> {crane.base_width_m}×{crane.base_length_m}m</span>
                                         <span><span style={{ color: '#9ca3af' }}>{t('crane.cabPosition')}:</span> {CAB_POSITION_LABELS[crane.cab_position]}</span>
+                                        {crane.max_wind_speed_ms != null && <span><span style={{ color: '#9ca3af' }}>{t('crane.windLimit')}:</span> {crane.max_wind_speed_ms} m/s</span>}
                                         {crane.notes && <span style={{ gridColumn: 'span 2' }}><span style={{ color: '#9ca3af' }}>{t('crane.notes')}:</span> {crane.notes}</span>}
                                       </div>
                                     </div>
@@ -721,6 +740,18 @@ function BasicInfoForm({
           />
         </div>
 
+        <div>
+          <label style={labelStyle}>{t('crane.maxWindSpeed')}</label>
+          <input
+            type="number"
+            style={inputStyle}
+            value={formData.max_wind_speed_ms ?? ''}
+            onChange={(e) => onChange({ ...formData, max_wind_speed_ms: e.target.value ? parseFloat(e.target.value) : null })}
+            step="0.1"
+            min="0"
+          />
+        </div>
+
         {/* Crane shape visualization settings with info - Compact */}
         <div style={{ gridColumn: 'span 2', padding: '8px', backgroundColor: '#f0f9ff', borderRadius: '4px', marginTop: '4px', marginBottom: '4px' }}>
           <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '8px' }}>
@@ -854,7 +885,7 @@ function BasicInfoForm({
 }
 
 // Load Charts Manager Component - 2D Table View (like manufacturer capacity charts)
-function LoadChartsManager({ craneId }: { craneId: string }) {
+function LoadChartsManager({ craneId, craneName }: { craneId: string; craneName?: string }) {
   const { t } = useTranslation('common');
   const { counterweights, createCounterweight, refetch: refetchCounterweights, deleteCounterweight } = useCounterweights(craneId);
   const { loadCharts, loading, createLoadChart, updateLoadChart, deleteLoadChart, refetch: refetchLoadCharts } = useLoadCharts(craneId);
@@ -862,6 +893,7 @@ function LoadChartsManager({ craneId }: { craneId: string }) {
   const [viewingCounterweightId, setViewingCounterweightId] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [importing, setImporting] = useState(false);
+  const [importSheets, setImportSheets] = useState<LoadChartImportSheet[] | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Form state for new counterweight capacity table
@@ -1005,93 +1037,18 @@ function LoadChartsManager({ craneId }: { craneId: string }) {
     XLSX.writeFile(wb, 'tostevoimete_mitu_vastukaalu_mall.xlsx');
   };
 
-  // Parse counterweight value from sheet name (e.g., "72t" -> 72, "14.4t" -> 14.4)
-  const parseCounterweightFromSheetName = (name: string): number | null => {
-    const match = name.match(/^(\d+(?:[.,]\d+)?)\s*t?$/i);
-    if (match) {
-      return parseFloat(match[1].replace(',', '.'));
-    }
-    return null;
-  };
-
-  // Parse a single sheet into table data
-  const parseSheetToTable = (rows: any[][]): {
-    boomLengths: number[];
-    radii: number[];
-    capacities: Record<string, number>;
-  } | null => {
-    if (rows.length < 2) return null;
-
-    // First row = boom lengths
-    const headerRow = rows[0];
-    const boomLengths: number[] = [];
-    for (let i = 1; i < headerRow.length; i++) {
-      const val = headerRow[i];
-      if (val !== undefined && val !== null && val !== '') {
-        const boom = parseFloat(String(val).replace(',', '.'));
-        if (!isNaN(boom) && boom > 0) {
-          boomLengths.push(boom);
-        }
-      }
-    }
-
-    if (boomLengths.length === 0) return null;
-
-    const radii: number[] = [];
-    const capacities: Record<string, number> = {};
-
-    // Data rows
-    for (let i = 1; i < rows.length; i++) {
-      const row = rows[i];
-      if (!row || row.length === 0) continue;
-
-      const radiusVal = row[0];
-      if (radiusVal === undefined || radiusVal === null || radiusVal === '') continue;
-
-      const radius = parseFloat(String(radiusVal).replace(',', '.'));
-      if (isNaN(radius) || radius <= 0) continue;
-
-      radii.push(radius);
-
-      for (let j = 0; j < boomLengths.length; j++) {
-        const capVal = row[j + 1];
-        if (capVal !== undefined && capVal !== null && capVal !== '') {
-          const capacity = parseFloat(String(capVal).replace(',', '.'));
-          if (!isNaN(capacity) && capacity > 0) {
-            capacities[`${radius}_${boomLengths[j]}`] = capacity * 1000; // to kg
-          }
-        }
-      }
-    }
-
-    if (radii.length === 0) return null;
-    return { boomLengths, radii, capacities };
-  };
-
-  // Import Excel file with MULTIPLE counterweights (each sheet = one counterweight)
+  // Read CSV/XLSX file (each sheet = one counterweight) and show preview before import
   const handleExcelImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     setImporting(true);
     try {
-      const data = await file.arrayBuffer();
-      const workbook = XLSX.read(data);
-
-      // Find all sheets that look like counterweight configs (e.g., "72t", "48t")
-      const counterweightSheets: { name: string; weight_kg: number; rows: any[][] }[] = [];
+      const sheets = await readLoadChartFile(file);
 
-      for (const sheetName of workbook.SheetNames) {
-        const weight = parseCounterweightFromSheetName(sheetName);
-        if (weight !== null) {
-          const sheet = workbook.Sheets[sheetName];
-          const rows = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1 }) as any[][];
-          counterweightSheets.push({ name: sheetName, weight_kg: weight * 1000, rows });
-        }
-      }
-
-      if (counterweightSheets.length === 0) {
+      if (sheets.length === 0) {
         // Fallback: try to use old format (single "Andmed" sheet)
+        const workbook = XLSX.read(await file.arrayBuffer());
         const dataSheet = workbook.Sheets['Andmed'] || workbook.Sheets[workbook.SheetNames[workbook.SheetNames.length > 1 ? 1 : 0]];
         if (dataSheet) {
           const rows = XLSX.utils.sheet_to_json<any[]>(dataSheet, { header: 1 }) as any[][];
@@ -1107,65 +1064,72 @@ function LoadChartsManager({ craneId }: { craneId: string }) {
         return;
       }
 
-      // Import all counterweight sheets
+      console.log(`📦 Load chart file parsed: ${sheets.length} sheets`);
+      setImportSheets(sheets);
+    } catch (err) {
+      console.error('Excel import error:', err);
+      alert(t('crane.excelImportFailed'));
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  // Create counterweights and load charts for the confirmed sheets
+  const handleConfirmImport = async (selections: LoadChartImportSelection[]) => {
+    setImporting(true);
+    try {
       let imported = 0;
       let skipped = 0;
       const errors: string[] = [];
+      const usedNames = new Set(counterweights.map(cw => cw.name));
 
-      for (const { name, weight_kg, rows } of counterweightSheets) {
-        const tableData = parseSheetToTable(rows);
+      for (const { sheet, counterweightKg, counterweightId: targetId } of selections) {
+        const tableData = sheet.matrix;
         if (!tableData || tableData.boomLengths.length === 0) {
           skipped++;
-          errors.push(`"${name}": tühi või vigane tabel`);
+          errors.push(`"${sheet.sheetName}": tühi või vigane tabel`);
           continue;
         }
 
-        // Find or create counterweight
-        const cwName = `${weight_kg / 1000}t`;
-        let counterweightId = counterweights.find(cw => cw.weight_kg === weight_kg)?.id;
+        // Counterweight chosen in the preview, or a new one ("72t", "72t (2)" for the same weight)
+        let counterweightId = targetId;
 
         if (!counterweightId) {
+          const cwName = getCounterweightSheetName(counterweightKg, usedNames);
+          usedNames.add(cwName);
           const newCw = await createCounterweight({
             name: cwName,
-            weight_kg: weight_kg,
-            description: `Imporditud Excelist`,
+            weight_kg: counterweightKg,
+            description: `Imporditud failist`,
             sort_order: counterweights.length + imported + 1
           });
           if (newCw) {
             counterweightId = newCw.id;
           } else {
-            errors.push(`"${name}": vastukaalu loomine ebaõnnestus`);
+            skipped++;
+            errors.push(`"${sheet.sheetName}": vastukaalu loomine ebaõnnestus`);
             continue;
           }
         }
 
         // Create load charts for each boom length
         for (const boomLength of tableData.boomLengths) {
-          const chartData: LoadChartDataPoint[] = [];
-
-          for (const radius of tableData.radii) {
-            const capacity = tableData.capacities[`${radius}_${boomLength}`];
-            if (capacity && capacity > 0) {
-              chartData.push({ radius_m: radius, capacity_kg: capacity });
-            }
-          }
+          const chartData = matrixToChartData(tableData, boomLength);
+          if (chartData.length === 0) continue;
 
-          if (chartData.length > 0) {
-            // Refresh to get latest load charts
-            const currentCharts = loadCharts;
-            const existingChart = currentCharts.find(
-              lc => lc.counterweight_config_id === counterweightId && lc.boom_length_m === boomLength
-            );
+          const existingChart = loadCharts.find(
+            lc => lc.counterweight_config_id === counterweightId && lc.boom_length_m === boomLength
+          );
 
-            if (existingChart) {
-              await updateLoadChart(existingChart.id, { chart_data: chartData });
-            } else {
-              await createLoadChart({
-                counterweight_config_id: counterweightId,
-                boom_length_m: boomLength,
-                chart_data: chartData
-              });
-            }
+          if (existingChart) {
+            await updateLoadChart(existingChart.id, { chart_data: chartData });
+          } else {
+            await createLoadChart({
+              counterweight_config_id: counterweightId,
+              boom_length_m: boomLength,
+              chart_data: chartData
+            });
           }
         }
 
@@ -1174,6 +1138,8 @@ function LoadChartsManager({ craneId }: { craneId: string }) {
 
       await refetchCounterweights();
       await refetchLoadCharts();
+      setImportSheets(null);
+      console.log(`✅ Imported ${imported} counterweight load charts`);
 
       // Show result
       let message = t('crane.importedCounterweights', { count: imported });
@@ -1182,16 +1148,20 @@ function LoadChartsManager({ craneId }: { craneId: string }) {
         errors.forEach(err => { message += `\n- ${err}`; });
       }
       alert(message);
-
     } catch (err) {
-      console.error('Excel import error:', err);
+      console.error('Load chart import error:', err);
       alert(t('crane.excelImportFailed'));
     } finally {
       setImporting(false);
-      if (fileInputRef.current) fileInputRef.current.value = '';
     }
   };
 
+  // Export all counterweights in the same matrix format as import
+  const handleExport = () => {
+    const baseName = craneName ? craneName.replace(/[^\w.-]+/g, '_') : 'kraana';
+    exportLoadChartWorkbook(`${baseName}_tostevoimed.xlsx`, chartsByCounterweight);
+  };
+
   // Save the 2D table as multiple load charts
   const handleSave = async () => {
     if (formData.counterweight_kg <= 0) {
@@ -1230,14 +1200,7 @@ function LoadChartsManager({ craneId }: { craneId: string }) {
 
       // Create a load chart for each boom length
       for (const boomLength of parsedTable.boomLengths) {
-        const chartData: LoadChartDataPoint[] = [];
-
-        for (const radius of parsedTable.radii) {
-          const capacity = parsedTable.capacities[`${radius}_${boomLength}`];
-          if (capacity && capacity > 0) {
-            chartData.push({ radius_m: radius, capacity_kg: capacity });
-          }
-        }
+        const chartData = matrixToChartData(parsedTable, boomLength);
 
         if (chartData.length > 0) {
           // Check if chart for this counterweight + boom already exists
@@ -1295,19 +1258,23 @@ function LoadChartsManager({ craneId }: { craneId: string }) {
   }
 
   const inputStyle: React.CSSProperties = { width: '100%', padding: '5px 8px', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '12px' };
+  const pastedIssues = parsedTable ? validateLoadChartMatrix(parsedTable) : [];
 
   return (
     <div>
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
         <h3 style={{ margin: 0, fontSize: '12px', fontWeight: 600 }}>{t('crane.liftingCharts')}</h3>
-        {!isAdding && (
+        {!isAdding && !importSheets && (
           <div style={{ display: 'flex', gap: '4px' }}>
             <button onClick={downloadTemplate} style={{ display: 'flex', alignItems: 'center', gap: '4px', padding: '4px 8px', border: '1px solid #d1d5db', borderRadius: '4px', backgroundColor: 'white', cursor: 'pointer', fontSize: '11px' }} title={t('crane.downloadTemplate')}><FiDownload size={12} /> {t('crane.template')}</button>
             <label style={{ display: 'flex', alignItems: 'center', gap: '4px', padding: '4px 8px', border: '1px solid #d1d5db', borderRadius: '4px', backgroundColor: 'white', cursor: importing ? 'not-allowed' : 'pointer', fontSize: '11px', opacity: importing ? 0.7 : 1 }} title={t('crane.importFromExcel')}>
               {importing ? <FiLoader className="animate-spin" size={12} /> : <FiFileText size={12} />}
               {importing ? t('crane.loading') : t('crane.import')}
-              <input ref={fileInputRef} type="file" accept=".xlsx,.xls" style={{ display: 'none' }} onChange={handleExcelImport} disabled={importing} />
+              <input ref={fileInputRef} type="file" accept=".xlsx,.xls,.csv" style={{ display: 'none' }} onChange={handleExcelImport} disabled={importing} />
             </label>
+            {chartsByCounterweight.length > 0 && (
+              <button onClick={handleExport} style={{ display: 'flex', alignItems: 'center', gap: '4px', padding: '4px 8px', border: '1px solid #d1d5db', borderRadius: '4px', backgroundColor: 'white', cursor: 'pointer', fontSize: '11px' }} title={t('loadChartImport.exportTitle')}><FiDownload size={12} /> {t('loadChartImport.export')}</button>
+            )}
             <button onClick={() => setIsAdding(true)} style={{ display: 'flex', alignItems: 'center', gap: '4px', padding: '4px 8px', border: '1px solid #d1d5db', borderRadius: '4px', backgroundColor: 'white', cursor: 'pointer', fontSize: '11px' }}><FiPlus size={12} /> {t('buttons.add')}</button>
           </div>
         )}
@@ -1317,6 +1284,17 @@ function LoadChartsManager({ craneId }: { craneId: string }) {
         <strong>{t('crane.hint')}:</strong> {t('crane.excelImportHint')}
       </div>
 
+      {/* Import preview */}
+      {importSheets && (
+        <LoadChartImportPreview
+          sheets={importSheets}
+          existingCounterweights={counterweights}
+          importing={importing}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setImportSheets(null)}
+        />
+      )}
+
       {/* Add new capacity table */}
       {isAdding && (
         <div style={{ backgroundColor: '#f9fafb', padding: '10px', borderRadius: '4px', marginBottom: '8px', border: '1px solid #e5e7eb' }}>
@@ -1359,6 +1337,11 @@ function LoadChartsManager({ craneId }: { craneId: string }) {
               <div style={{ color: '#166534', fontWeight: 500, marginBottom: '4px' }}>
                 {t('crane.preview', { booms: parsedTable.boomLengths.length, radii: parsedTable.radii.length })}
               </div>
+              {pastedIssues.length > 0 && (
+                <div style={{ color: '#b45309', marginBottom: '4px' }}>
+                  {t('loadChartImport.notMonotonic', { count: pastedIssues.length })}
+                </div>
+              )}
               <div style={{ overflowX: 'auto', maxHeight: '200px' }}>
                 <table style={{ borderCollapse: 'collapse', fontSize: '9px', width: '100%' }}>
                   <thead>
@@ -1427,17 +1410,7 @@ function LoadChartsManager({ craneId }: { craneId: string }) {
             const isExpanded = viewingCounterweightId === cw.id;
 
             // Build 2D view data
-            const boomLengths = [...new Set(charts.map(c => c.boom_length_m))].sort((a, b) => a - b);
-            const allRadii = new Set<number>();
-            const capacityMap: Record<string, number> = {};
-
-            for (const chart of charts) {
-              for (const point of chart.chart_data) {
-                allRadii.add(point.radius_m);
-                capacityMap[`${point.radius_m}_${chart.boom_length_m}`] = point.capacity_kg;
-              }
-            }
-            const radii = [...allRadii].sort((a, b) => a - b);
+            const { boomLengths, radii, capacities: capacityMap } = loadChartsToMatrix(charts);
 
             return (
               <div key={cw.id} style={{ backgroundColor: '#f9fafb', borderRadius: '4px', border: '1px solid #e5e7eb' }}>
@@ -1713,58 +1686,6 @@ function CraneImportTab({ userEmail }: { userEmail: string }) {
     return null;
   };
 
-  // Parse a sheet into capacity table data
-  const parseSheetToTable = (rows: any[][]): {
-    boomLengths: number[];
-    radii: number[];
-    capacities: Record<string, number>;
-  } | null => {
-    if (rows.length < 2) return null;
-
-    const headerRow = rows[0];
-    const boomLengths: number[] = [];
-    for (let i = 1; i < headerRow.length; i++) {
-      const val = headerRow[i];
-      if (val !== undefined && val !== null && val !== '') {
-        const boom = parseFloat(String(val).replace(',', '.'));
-        if (!isNaN(boom) && boom > 0) {
-          boomLengths.push(boom);
-        }
-      }
-    }
-
-    if (boomLengths.length === 0) return null;
-
-    const radii: number[] = [];
-    const capacities: Record<string, number> = {};
-
-    for (let i = 1; i < rows.length; i++) {
-      const row = rows[i];
-      if (!row || row.length === 0) continue;
-
-      const radiusVal = row[0];
-      if (radiusVal === undefined || radiusVal === null || radiusVal === '') continue;
-
-      const radius = parseFloat(String(radiusVal).replace(',', '.'));
-      if (isNaN(radius) || radius <= 0) continue;
-
-      radii.push(radius);
-
-      for (let j = 0; j < boomLengths.length; j++) {
-        const capVal = row[j + 1];
-        if (capVal !== undefined && capVal !== null && capVal !== '') {
-          const capacity = parseFloat(String(capVal).replace(',', '.'));
-          if (!isNaN(capacity) && capacity > 0) {
-            capacities[`${radius}_${boomLengths[j]}`] = capacity * 1000;
-          }
-        }
-      }
-    }
-
-    if (radii.length === 0) return null;
-    return { boomLengths, radii, capacities };
-  };
-
   // Import MULTIPLE cranes with load charts
   const handleFullCraneImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -1862,7 +1783,7 @@ function CraneImportTab({ userEmail }: { userEmail: string }) {
 
           const sheet = workbook.Sheets[sheetName];
           const rows = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1 }) as any[][];
-          const tableData = parseSheetToTable(rows);
+          const tableData = parseLoadChartMatrix(rows);
 
           if (!tableData || tableData.boomLengths.length === 0) continue;
 
@@ -1973,7 +1894,7 @@ function CraneImportTab({ userEmail }: { userEmail: string }) {
 
           const sheet = workbook.Sheets[sheetName];
           const rows = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1 }) as any[][];
-          const tableData = parseSheetToTable(rows);
+          const tableData = parseLoadChartMatrix(rows);
 
           if (!tableData || tableData.boomLengths.length === 0) continue;
 
@@ -4,7 +4,8 @@ import * as WorkspaceAPI from 'trimble-connect-workspace-api';
 import {
   FiPlus, FiEdit2, FiTrash2, FiEye, FiEyeOff, FiMapPin, FiRotateCw,
   FiArrowUp, FiArrowDown, FiArrowLeft, FiArrowRight, FiLoader, FiAlertCircle,
-  FiX, FiTarget, FiSave, FiCheck, FiMoreVertical
+  FiX, FiTarget, FiSave, FiCheck, FiMoreVertical, FiClipboard, FiAlertTriangle, FiLayers, FiLink, FiFileText,
+  FiShare2, FiCalendar
 } from 'react-icons/fi';
 import PageHeader from './PageHeader';
 import { useCranes } from '../features/crane-planning/crane-library/hooks/useCranes';
@@ -12,9 +13,25 @@ import { useCounterweights } from '../features/crane-planning/crane-library/hook
 import { useLoadCharts } from '../features/crane-planning/crane-library/hooks/useLoadCharts';
 import { useProjectCranes } from '../features/crane-planning/crane-placement/hooks/useProjectCranes';
 import { drawCraneToModel, drawCraneToModelGrouped, removeCraneMarkups, updatePositionLabel, CraneMarkupGroups } from '../features/crane-planning/crane-visualization/utils/trimbleMarkups';
-import { calculateLoadCapacities, formatWeight } from '../features/crane-planning/load-calculator/utils/liftingCalculations';
+import { calculateLoadCapacities, formatWeight, getCapacityAtRadius, getChartDataForBoomLength } from '../features/crane-planning/load-calculator/utils/liftingCalculations';
+import LiftPlanCheckModal from '../features/crane-planning/lift-plan/components/LiftPlanCheckModal';
+import CraneConflictsModal from '../features/crane-planning/crane-placement/components/CraneConflictsModal';
+import CraneOptimizerModal, { OptimizedCranePlacement } from '../features/crane-planning/crane-placement/components/CraneOptimizerModal';
+import { BOOM_PIVOT_HEIGHT_M } from '../features/crane-planning/crane-placement/utils/craneConflicts';
+import { useBoomClearance } from '../features/crane-planning/lift-plan/hooks/useBoomClearance';
+import GroundBearingModal, { GroundBearingPick } from '../features/crane-planning/load-calculator/components/GroundBearingModal';
+import { getSlewAngle } from '../features/crane-planning/load-calculator/utils/groundBearing';
+import RiggingModal from '../features/crane-planning/load-calculator/components/RiggingModal';
+import { fetchRiggingWeights, getElementRiggingWeight } from '../features/crane-planning/load-calculator/hooks/useRigging';
+import { useLiftPlanPdf } from '../features/crane-planning/lift-plan/hooks/useLiftPlanPdf';
+import { LiftPlanDocumentPick } from '../features/crane-planning/lift-plan/utils/liftPlanDocument';
+import TandemLiftModal, { TandemLiftElement } from '../features/crane-planning/lift-plan/components/TandemLiftModal';
+import { TandemLiftResult } from '../features/crane-planning/lift-plan/utils/tandemLift';
+import CraneBookingModal from '../features/crane-planning/crane-booking/components/CraneBookingModal';
+import { analyzeBoomClearance, getBoomPickGeometry, ClashSegment, ClearanceBox, CLEARANCE_WARNING_M } from '../features/crane-planning/lift-plan/utils/boomClearance';
 import {
   ProjectCrane,
+  CraneGroundBearingSettings,
   TrimbleExUser,
   CRANE_TYPE_LABELS,
   DEFAULT_CRANE_COLOR,
@@ -27,42 +44,53 @@ import {
 import { InspectionMode } from './MainMenu';
 
 /**
- * Calculate max capacity chart data across all boom lengths for the selected counterweight.
- * Applies deductions (hook weight, lifting block) and safety factor by division.
- * Formula: net_capacity = (max_gross_capacity - hook_weight_kg - lifting_block_kg) / safety_factor
+ * Calculate net capacity chart data for the crane's boom length (one counterweight).
+ * Boom lengths between two charts are interpolated; outside the envelope returns [].
+ * Formula: net_capacity = (gross_capacity - hook_weight_kg - lifting_block_kg) / safety_factor
  */
-function calculateMaxCapacityChartData(
-  loadCharts: LoadChart[],
+function calculateNetChartData(
+  counterweightCharts: LoadChart[],
+  boomLength: number,
   hookWeightKg: number,
   liftingBlockKg: number,
   safetyFactor: number
 ): LoadChartDataPoint[] {
-  // Collect all unique radii and find max capacity for each
-  const radiusMaxCapacity = new Map<number, number>();
-
-  for (const chart of loadCharts) {
-    if (!chart.chart_data) continue;
-    for (const point of chart.chart_data) {
-      const currentMax = radiusMaxCapacity.get(point.radius_m) || 0;
-      if (point.capacity_kg > currentMax) {
-        radiusMaxCapacity.set(point.radius_m, point.capacity_kg);
-      }
-    }
-  }
-
-  // Convert to array and apply deductions
-  const result: LoadChartDataPoint[] = [];
   const totalDeduction = hookWeightKg + liftingBlockKg;
 
-  for (const [radius, grossCapacity] of radiusMaxCapacity) {
-    // Apply safety factor by division: net = (gross - deductions) / safety_factor
-    const netCapacity = Math.max(0, (grossCapacity - totalDeduction) / safetyFactor);
-    result.push({ radius_m: radius, capacity_kg: netCapacity });
-  }
+  // Apply safety factor by division: net = (gross - deductions) / safety_factor
+  return getChartDataForBoomLength(counterweightCharts, boomLength).map(point => ({
+    radius_m: point.radius_m,
+    capacity_kg: Math.max(0, (point.capacity_kg - totalDeduction) / safetyFactor)
+  }));
+}
 
-  // Sort by radius ascending
-  result.sort((a, b) => a.radius_m - b.radius_m);
-  return result;
+/**
+ * Find object name and weight (kg) from viewer object properties
+ */
+function getObjectNameAndWeight(objProps: any, fallbackName: string): { name: string; weight: number } {
+  let name = fallbackName;
+  let weight = 0;
+  if (!objProps?.properties) return { name, weight };
+
+  const allProps: any[] = [];
+  for (const propSet of objProps.properties) {
+    if (propSet.properties && Array.isArray(propSet.properties)) {
+      allProps.push(...propSet.properties);
+    } else if (propSet.name) {
+      allProps.push(propSet);
+    }
+  }
+  for (const prop of allProps) {
+    const nameLower = (prop.name || '').toLowerCase();
+    const propValue = prop.value || '';
+    if (nameLower.includes('name') || nameLower.includes('nimi') || nameLower === 'assembly_pos') {
+      name = propValue || name;
+    }
+    if (nameLower.includes('weight') || nameLower.includes('kaal') || nameLower.includes('mass')) {
+      weight = parseFloat(propValue) || 0;
+    }
+  }
+  return { name, weight };
 }
 
 interface CranePlannerScreenProps {
@@ -86,6 +114,8 @@ export default function CranePlannerScreen({
   // Hooks
   const { cranes: craneModels, loading: cranesLoading } = useCranes();
   const { projectCranes, loading: projectCranesLoading, createProjectCrane, updateProjectCrane, deleteProjectCrane, updateMarkupIds, refetch } = useProjectCranes(projectId);
+  const { loading: clearanceLoading, loadObstacles } = useBoomClearance(api, projectId);
+  const { exporting: liftPlanExporting, exportLiftPlanPdf } = useLiftPlanPdf(api, projectId, userEmail);
 
   // State
   const [isPlacing, setIsPlacing] = useState(false);
@@ -154,12 +184,45 @@ export default function CranePlannerScreen({
       objCenterX: number;
       objCenterY: number;
       objTopZ: number;
+      guid: string | null;
+      // Bounding box in meters (rigging geometry)
+      bboxMin: { x: number; y: number; z: number };
+      bboxMax: { x: number; y: number; z: number };
+      // Saved rigging weight, deducted from the capacity like the hook
+      riggingWeightKg: number;
+      // Boom/hook clearance against structure standing on clearanceDate
+      clearanceM: number | null;
+      clashes: ClashSegment[];
     }[];
     markupIds: number[];
     selectedBoomLength: number;
     availableBoomLengths: number[];
+    clearanceDate: string | null; // null = structure could not be loaded
+    obstacles: ClearanceBox[];
   } | null>(null);
 
+  // Rigging calculator for an object in the lifting modal (index into liftingModal.objects)
+  const [riggingObjectIndex, setRiggingObjectIndex] = useState<number | null>(null);
+
+  // Ground bearing calculator (optionally prefilled with a pick from the lifting modal)
+  const [groundBearingModal, setGroundBearingModal] = useState<{ craneId: string; pick?: GroundBearingPick } | null>(null);
+
+  // Lift plan check modal
+  const [showLiftPlanCheck, setShowLiftPlanCheck] = useState(false);
+
+  // Tandem lift of the selected element, with both boom lines drawn in the model
+  const [tandemElement, setTandemElement] = useState<TandemLiftElement | null>(null);
+  const tandemMarkupIdsRef = useRef<number[]>([]);
+
+  // Crane overlap/collision modal
+  const [showConflicts, setShowConflicts] = useState(false);
+
+  // Crane position optimizer modal
+  const [showOptimizer, setShowOptimizer] = useState(false);
+
+  // Crane booking calendar modal
+  const [showBookings, setShowBookings] = useState(false);
+
   // Selected crane model data
   const selectedCraneModel = craneModels.find(c => c.id === selectedCraneModelId);
   const { counterweights } = useCounterweights(selectedCraneModelId);
@@ -283,9 +346,10 @@ export default function CranePlannerScreen({
         // Clear IDs only AFTER successful removal to prevent race condition
         previewMarkupIdsRef.current = [];
 
-        // Calculate max capacity across all boom lengths with deductions and safety factor
-        const chartData = calculateMaxCapacityChartData(
-          loadCharts,
+        // Net capacity for the configured boom length with deductions and safety factor
+        const chartData = calculateNetChartData(
+          loadCharts.filter(lc => lc.counterweight_config_id === selectedCounterweightId),
+          config.boom_length_m,
           config.hook_weight_kg,
           config.lifting_block_kg,
           config.safety_factor
@@ -494,6 +558,29 @@ export default function CranePlannerScreen({
     setIsPlacing(false);
   }, [api]);
 
+  // Start placing a new crane at a position found by the optimizer
+  const startPlacingOptimized = useCallback((placement: OptimizedCranePlacement) => {
+    resetForm(true);
+    skipModelDefaultsRef.current = true;
+    skipBoomLengthAutoSelectRef.current = true;
+    setSelectedCraneModelId(placement.craneModelId);
+    setSelectedCounterweightId(placement.counterweightId);
+    setPickedPosition(placement.position);
+    setConfig(prev => ({
+      ...prev,
+      position_x: placement.position.x,
+      position_y: placement.position.y,
+      position_z: placement.position.z,
+      boom_length_m: placement.boomLengthM,
+      hook_weight_kg: placement.hookWeightKg,
+      lifting_block_kg: placement.liftingBlockKg,
+      safety_factor: placement.safetyFactor
+    }));
+    setEditingCraneId(null);
+    setIsPlacing(true);
+    setShowOptimizer(false);
+  }, [resetForm]);
+
   // Cancel placing/editing
   const cancelPlacing = useCallback(async () => {
     // Clear preview markups using ref
@@ -509,10 +596,11 @@ export default function CranePlannerScreen({
       const originalCrane = projectCranes.find(c => c.id === originalCraneMarkupsRef.current?.craneId);
       if (originalCrane && originalCrane.crane_model) {
         console.log('[CranePlanner] Restoring original crane markups after cancel');
-        // Calculate max capacity across all boom lengths with the crane's deductions and safety factor
+        // Net capacity for the crane's boom length with its deductions and safety factor
         const craneLoadCharts = loadCharts.filter(lc => lc.counterweight_config_id === originalCrane.counterweight_config_id);
-        const chartData = calculateMaxCapacityChartData(
+        const chartData = calculateNetChartData(
           craneLoadCharts,
+          originalCrane.boom_length_m,
           originalCrane.hook_weight_kg,
           originalCrane.lifting_block_kg,
           originalCrane.safety_factor
@@ -754,9 +842,10 @@ export default function CranePlannerScreen({
     if (savedCrane && selectedCraneModel) {
       // Draw crane to model
       try {
-        // Calculate max capacity across all boom lengths with deductions and safety factor
-        const chartData = calculateMaxCapacityChartData(
-          loadCharts,
+        // Net capacity for the configured boom length with deductions and safety factor
+        const chartData = calculateNetChartData(
+          loadCharts.filter(lc => lc.counterweight_config_id === selectedCounterweightId),
+          config.boom_length_m,
           config.hook_weight_kg,
           config.lifting_block_kg,
           config.safety_factor
@@ -802,8 +891,9 @@ export default function CranePlannerScreen({
     if (visible) {
       // Draw crane - filter load charts for this crane's counterweight
       const craneLoadCharts = loadCharts.filter(lc => lc.counterweight_config_id === crane.counterweight_config_id);
-      const chartData = calculateMaxCapacityChartData(
+      const chartData = calculateNetChartData(
         craneLoadCharts,
+        crane.boom_length_m,
         crane.hook_weight_kg,
         crane.lifting_block_kg,
         crane.safety_factor
@@ -828,13 +918,14 @@ export default function CranePlannerScreen({
     objCenterY: number,
     objTopZ: number,
     objWeight: number,
-    chartData: { radius_m: number; capacity_kg: number }[]
+    chartData: { radius_m: number; capacity_kg: number }[],
+    riggingWeightKg: number = 0
   ) => {
     // Crane position in mm
     const craneX = crane.position_x * 1000;
     const craneY = crane.position_y * 1000;
     const craneZ = crane.position_z * 1000;
-    const boomBaseHeight = 3500; // 3.5m boom pivot point above crane base
+    const boomBaseHeight = BOOM_PIVOT_HEIGHT_M * 1000; // boom pivot point above crane base
     const boomPivotZ = craneZ + boomBaseHeight;
 
     // Horizontal distance from crane to object (in mm) - this is the horizontal reach needed
@@ -872,26 +963,13 @@ export default function CranePlannerScreen({
       canReach = false;
     }
 
-    // Calculate capacity at this horizontal distance
-    let capacityKg = 0;
-    if (chartData.length > 0) {
-      const sortedChart = [...chartData].sort((a, b) => a.radius_m - b.radius_m);
-      for (const point of sortedChart) {
-        if (point.radius_m >= horizontalDistM) {
-          capacityKg = point.capacity_kg;
-          break;
-        }
-      }
-      if (capacityKg === 0 && sortedChart.length > 0) {
-        const maxRadius = sortedChart[sortedChart.length - 1].radius_m;
-        if (horizontalDistM <= maxRadius) {
-          capacityKg = sortedChart[sortedChart.length - 1].capacity_kg;
-        }
-      }
-    }
+    // Calculate capacity at this horizontal distance (0 = outside chart envelope, not allowed)
+    const capacityKg = getCapacityAtRadius(chartData, horizontalDistM) ?? 0;
 
-    // Apply safety factor and deduct hook weight
-    const safeCapacity = canReach ? (capacityKg / crane.safety_factor) - crane.hook_weight_kg - crane.lifting_block_kg : 0;
+    // Apply safety factor and deduct hook and rigging weight
+    const safeCapacity = canReach
+      ? (capacityKg / crane.safety_factor) - crane.hook_weight_kg - crane.lifting_block_kg - riggingWeightKg
+      : 0;
     const isSafe = objWeight > 0 ? objWeight <= safeCapacity && canReach : canReach;
 
     // Calculate boom tip height from crane base and absolute Z coordinate
@@ -913,6 +991,24 @@ export default function CranePlannerScreen({
     };
   };
 
+  // Check boom and hook lines of a pick against surrounding structure (positions in mm)
+  const calculatePickClearance = (
+    crane: ProjectCrane,
+    boomLengthM: number,
+    obj: { objCenterX: number; objCenterY: number; objTopZ: number },
+    obstacles: ClearanceBox[]
+  ): { clearanceM: number | null; clashes: ClashSegment[] } => {
+    const geometry = getBoomPickGeometry(crane, boomLengthM, {
+      x: obj.objCenterX / 1000,
+      y: obj.objCenterY / 1000,
+      topZ: obj.objTopZ / 1000
+    });
+    if (!geometry) return { clearanceM: null, clashes: [] };
+
+    const result = analyzeBoomClearance(geometry, obstacles);
+    return { clearanceM: result.minClearanceM, clashes: result.clashes };
+  };
+
   // Calculate lifting capacity for selected objects
   const calculateLiftingCapacity = async (crane: ProjectCrane) => {
     try {
@@ -933,9 +1029,11 @@ export default function CranePlannerScreen({
         return;
       }
 
-      // Get bounding boxes and properties
+      // Get bounding boxes, properties and IFC GUIDs
       const bboxes = await api.viewer.getObjectBoundingBoxes(modelId, runtimeIds);
       const props = await api.viewer.getObjectProperties(modelId, runtimeIds);
+      const guids = await api.viewer.convertToObjectIds(modelId, runtimeIds).catch(() => [] as string[]);
+      const guidByRuntimeId = new Map(runtimeIds.map((id, i) => [id, guids[i] || null]));
 
       // Get available boom lengths for this crane from load charts
       const craneLc = loadCharts.filter(lc => lc.counterweight_config_id === crane.counterweight_config_id);
@@ -944,8 +1042,8 @@ export default function CranePlannerScreen({
       // Use current crane boom length
       const currentBoomLength = crane.boom_length_m;
 
-      // Get chart data for current boom length
-      const chartData = craneLc.find(lc => lc.boom_length_m === currentBoomLength)?.chart_data || [];
+      // Get chart data for current boom length (interpolated between charts if needed)
+      const chartData = getChartDataForBoomLength(craneLc, currentBoomLength);
 
       const objectResults: {
         name: string;
@@ -961,8 +1059,20 @@ export default function CranePlannerScreen({
         objCenterX: number;
         objCenterY: number;
         objTopZ: number;
+        guid: string | null;
+        bboxMin: { x: number; y: number; z: number };
+        bboxMax: { x: number; y: number; z: number };
+        riggingWeightKg: number;
+        clearanceM: number | null;
+        clashes: ClashSegment[];
       }[] = [];
 
+      // Saved rigging weights of the selected elements
+      const riggingWeights = await fetchRiggingWeights(projectId, guids.filter(Boolean)).catch(err => {
+        console.error('Error loading rigging weights:', err);
+        return new Map<string, number>();
+      });
+
       // Process each selected object
       for (let i = 0; i < bboxes.length; i++) {
         const bbox = bboxes[i];
@@ -975,32 +1085,12 @@ export default function CranePlannerScreen({
         const objTopZ = b.max.z * 1000;
 
         // Find object name and weight from properties
-        let objName = `Objekt ${i + 1}`;
-        let objWeight = 0;
-        const objProps = props[i] as any;
-        if (objProps?.properties) {
-          const allProps: any[] = [];
-          for (const propSet of objProps.properties) {
-            if (propSet.properties && Array.isArray(propSet.properties)) {
-              allProps.push(...propSet.properties);
-            } else if (propSet.name) {
-              allProps.push(propSet);
-            }
-          }
-          for (const prop of allProps) {
-            const nameLower = (prop.name || '').toLowerCase();
-            const propValue = prop.value || '';
-            if (nameLower.includes('name') || nameLower.includes('nimi') || nameLower === 'assembly_pos') {
-              objName = propValue || objName;
-            }
-            if (nameLower.includes('weight') || nameLower.includes('kaal') || nameLower.includes('mass')) {
-              objWeight = parseFloat(propValue) || 0;
-            }
-          }
-        }
+        const { name: objName, weight: objWeight } = getObjectNameAndWeight(props[i], `Objekt ${i + 1}`);
 
         // Calculate geometry for current boom length
-        const geom = calculateBoomGeometry(crane, currentBoomLength, objCenterX, objCenterY, objTopZ, objWeight, chartData);
+        const guid = guidByRuntimeId.get(bbox.id) || null;
+        const riggingWeightKg = getElementRiggingWeight(riggingWeights, guid);
+        const geom = calculateBoomGeometry(crane, currentBoomLength, objCenterX, objCenterY, objTopZ, objWeight, chartData, riggingWeightKg);
 
         objectResults.push({
           name: objName,
@@ -1008,10 +1098,24 @@ export default function CranePlannerScreen({
           objCenterX,
           objCenterY,
           objTopZ,
+          guid,
+          bboxMin: { x: b.min.x, y: b.min.y, z: b.min.z },
+          bboxMax: { x: b.max.x, y: b.max.y, z: b.max.z },
+          riggingWeightKg,
+          clearanceM: null,
+          clashes: [],
           ...geom
         });
       }
 
+      // Structure standing on the pick date (the picked elements themselves are excluded)
+      const pickGuids = objectResults.map(o => o.guid).filter((g): g is string => !!g);
+      const structure = await loadObstacles(pickGuids);
+      const obstacles = structure?.obstacles || [];
+      for (const obj of objectResults) {
+        Object.assign(obj, calculatePickClearance(crane, currentBoomLength, obj, obstacles));
+      }
+
       // Draw visualization
       const markupIds = await drawLiftingVisualization(crane, currentBoomLength, objectResults);
 
@@ -1021,7 +1125,9 @@ export default function CranePlannerScreen({
         objects: objectResults,
         markupIds,
         selectedBoomLength: currentBoomLength,
-        availableBoomLengths: availableBoomLengths.length > 0 ? availableBoomLengths : [currentBoomLength]
+        availableBoomLengths: availableBoomLengths.length > 0 ? availableBoomLengths : [currentBoomLength],
+        clearanceDate: structure?.date || null,
+        obstacles
       });
     } catch (error: any) {
       console.error('Error calculating lifting capacity:', error);
@@ -1033,7 +1139,7 @@ export default function CranePlannerScreen({
   const drawLiftingVisualization = async (
     crane: ProjectCrane,
     boomLengthM: number,
-    objects: { objCenterX: number; objCenterY: number; objTopZ: number; boomAngle: number; chainLength: number }[]
+    objects: { objCenterX: number; objCenterY: number; objTopZ: number; boomAngle: number; chainLength: number; clashes?: ClashSegment[] }[]
   ): Promise<number[]> => {
     const markupApi = api.markup as any;
     const allMarkupEntries: { color: { r: number; g: number; b: number; a: number }; lines: any[] }[] = [];
@@ -1041,7 +1147,7 @@ export default function CranePlannerScreen({
     const craneX = crane.position_x * 1000;
     const craneY = crane.position_y * 1000;
     const craneZ = crane.position_z * 1000;
-    const boomBaseHeight = 3500; // 3.5m boom pivot height
+    const boomBaseHeight = BOOM_PIVOT_HEIGHT_M * 1000; // boom pivot height
     const boomPivotZ = craneZ + boomBaseHeight;
 
     for (const obj of objects) {
@@ -1108,6 +1214,17 @@ export default function CranePlannerScreen({
           }
         ]
       });
+
+      // 5. Boom/hook segments passing through structure - red, drawn over the boom and chain
+      if (obj.clashes && obj.clashes.length > 0) {
+        allMarkupEntries.push({
+          color: { r: 220, g: 38, b: 38, a: 255 },
+          lines: obj.clashes.map(clash => ({
+            start: { positionX: clash.start.x * 1000, positionY: clash.start.y * 1000, positionZ: clash.start.z * 1000 },
+            end: { positionX: clash.end.x * 1000, positionY: clash.end.y * 1000, positionZ: clash.end.z * 1000 }
+          }))
+        });
+      }
     }
 
     // Add freeline markups (crane, boom, chain, markers)
@@ -1152,7 +1269,7 @@ export default function CranePlannerScreen({
 
     // Get chart data for new boom length
     const craneLc = loadCharts.filter(lc => lc.counterweight_config_id === liftingModal.crane.counterweight_config_id);
-    const chartData = craneLc.find(lc => lc.boom_length_m === newBoomLength)?.chart_data || [];
+    const chartData = getChartDataForBoomLength(craneLc, newBoomLength);
 
     // Recalculate for all objects
     const updatedObjects = liftingModal.objects.map(obj => {
@@ -1163,9 +1280,11 @@ export default function CranePlannerScreen({
         obj.objCenterY,
         obj.objTopZ,
         obj.weight,
-        chartData
+        chartData,
+        obj.riggingWeightKg
       );
-      return { ...obj, ...geom };
+      const clearance = calculatePickClearance(liftingModal.crane, newBoomLength, obj, liftingModal.obstacles);
+      return { ...obj, ...geom, ...clearance };
     });
 
     // Draw new visualization
@@ -1180,11 +1299,173 @@ export default function CranePlannerScreen({
     });
   };
 
+  // Re-check clearance against the structure standing on another day
+  const updateClearanceDate = async (date: string) => {
+    if (!liftingModal || !date) return;
+
+    const pickGuids = liftingModal.objects.map(o => o.guid).filter((g): g is string => !!g);
+    const structure = await loadObstacles(pickGuids, date);
+    if (!structure) return;
+
+    if (liftingModal.markupIds.length > 0) {
+      await removeCraneMarkups(api, liftingModal.markupIds);
+    }
+
+    const updatedObjects = liftingModal.objects.map(obj => ({
+      ...obj,
+      ...calculatePickClearance(liftingModal.crane, liftingModal.selectedBoomLength, obj, structure.obstacles)
+    }));
+    const newMarkupIds = await drawLiftingVisualization(liftingModal.crane, liftingModal.selectedBoomLength, updatedObjects);
+
+    setLiftingModal({
+      ...liftingModal,
+      objects: updatedObjects,
+      markupIds: newMarkupIds,
+      clearanceDate: structure.date,
+      obstacles: structure.obstacles
+    });
+  };
+
+  // Open tandem lift planning for one element selected in the model
+  const openTandemLift = async () => {
+    try {
+      const selection = await api.viewer.getSelection();
+      const runtimeIds = (selection || []).flatMap(s => s.objectRuntimeIds || []);
+      if (!selection || selection.length === 0 || runtimeIds.length !== 1) {
+        alert(t('tandemLift.selectOne'));
+        return;
+      }
+
+      const modelId = selection[0].modelId;
+      const [bbox] = await api.viewer.getObjectBoundingBoxes(modelId, runtimeIds);
+      const [objProps] = await api.viewer.getObjectProperties(modelId, runtimeIds);
+      const [guid] = await api.viewer.convertToObjectIds(modelId, runtimeIds).catch(() => [] as string[]);
+      if (!bbox?.boundingBox || !guid) {
+        alert(t('crane.selectedObjectsMissingInfo'));
+        return;
+      }
+
+      const { name, weight } = getObjectNameAndWeight(objProps, guid);
+      if (weight <= 0) {
+        alert(t('tandemLift.noWeight'));
+        return;
+      }
+
+      const riggingWeights = await fetchRiggingWeights(projectId, [guid]).catch(err => {
+        console.error('Error loading rigging weights:', err);
+        return new Map<string, number>();
+      });
+
+      const b = bbox.boundingBox;
+      setTandemElement({
+        guid,
+        name,
+        weightKg: weight,
+        riggingWeightKg: getElementRiggingWeight(riggingWeights, guid),
+        min: { x: b.min.x, y: b.min.y, z: b.min.z },
+        max: { x: b.max.x, y: b.max.y, z: b.max.z }
+      });
+    } catch (error: any) {
+      console.error('Error opening tandem lift:', error);
+      alert(t('crane.calculationError', { message: error.message }));
+    }
+  };
+
+  // Draw both cranes' boom and hook lines to their hook points
+  const showTandemInModel = async (result: TandemLiftResult) => {
+    if (tandemMarkupIdsRef.current.length > 0) {
+      await removeCraneMarkups(api, tandemMarkupIdsRef.current);
+      tandemMarkupIdsRef.current = [];
+    }
+
+    const markupIds: number[] = [];
+    for (const share of result.shares) {
+      const crane = projectCranes.find(c => c.id === share.craneId);
+      if (!crane || share.boomAngleDeg === null) continue;
+      const ids = await drawLiftingVisualization(crane, crane.boom_length_m, [{
+        objCenterX: share.hookPoint.x * 1000,
+        objCenterY: share.hookPoint.y * 1000,
+        objTopZ: share.hookPoint.z * 1000,
+        boomAngle: share.boomAngleDeg,
+        chainLength: 0
+      }]);
+      markupIds.push(...ids);
+    }
+    tandemMarkupIdsRef.current = markupIds;
+  };
+
+  const closeTandemLift = async () => {
+    setTandemElement(null);
+    if (tandemMarkupIdsRef.current.length > 0) {
+      await removeCraneMarkups(api, tandemMarkupIdsRef.current);
+      tandemMarkupIdsRef.current = [];
+    }
+  };
+
+  // Rigging saved for an object: recalculate its capacity with the new rigging weight
+  const applyRiggingWeight = (objIndex: number, riggingWeightKg: number) => {
+    setLiftingModal(prev => {
+      if (!prev) return prev;
+      const craneLc = loadCharts.filter(lc => lc.counterweight_config_id === prev.crane.counterweight_config_id);
+      const chartData = getChartDataForBoomLength(craneLc, prev.selectedBoomLength);
+      const objects = prev.objects.map((obj, idx) => idx !== objIndex ? obj : {
+        ...obj,
+        ...calculateBoomGeometry(prev.crane, prev.selectedBoomLength, obj.objCenterX, obj.objCenterY, obj.objTopZ, obj.weight, chartData, riggingWeightKg),
+        riggingWeightKg
+      });
+      return { ...prev, objects };
+    });
+  };
+
+  // Lift plan PDF for the whole crane or one pick of the lifting modal
+  const exportLiftPlan = async (
+    crane: ProjectCrane,
+    objects: NonNullable<typeof liftingModal>['objects'],
+    kind: 'crane' | 'pick'
+  ) => {
+    setOpenMenuCraneId(null);
+    const picks: LiftPlanDocumentPick[] = objects.map(obj => ({
+      name: obj.name,
+      guid: obj.guid,
+      weightKg: obj.weight,
+      riggingWeightKg: obj.riggingWeightKg,
+      position: {
+        x: obj.objCenterX / 1000,
+        y: obj.objCenterY / 1000,
+        z: (obj.bboxMin.z + obj.bboxMax.z) / 2
+      },
+      topZ: obj.objTopZ / 1000
+    }));
+    const ok = await exportLiftPlanPdf(crane, picks, kind);
+    if (!ok) alert(t('liftPlanPdf.failed'));
+  };
+
+  const openGroundBearing = (crane: ProjectCrane, pick?: GroundBearingPick) => {
+    setOpenMenuCraneId(null);
+    setGroundBearingModal({ craneId: crane.id, pick });
+  };
+
+  const saveGroundBearingSettings = async (craneId: string, settings: CraneGroundBearingSettings) => {
+    const ok = await updateProjectCrane(craneId, { ground_bearing: settings });
+    if (ok) console.log('✅ Ground bearing settings saved');
+    return ok;
+  };
+
+  const saveCraneBooking = async (
+    craneId: string,
+    booking: Pick<ProjectCrane, 'mobilization_date' | 'demobilization_date' | 'booked_hours_per_day'>
+  ) => {
+    const ok = await updateProjectCrane(craneId, booking);
+    if (ok) console.log('✅ Crane booking saved');
+    return ok;
+  };
+
   // Close lifting modal and remove visualization markups
   const closeLiftingModal = async () => {
     if (liftingModal && liftingModal.markupIds.length > 0) {
       await removeCraneMarkups(api, liftingModal.markupIds);
     }
+    setRiggingObjectIndex(null);
     setLiftingModal(null);
   };
 
@@ -1284,10 +1565,10 @@ export default function CranePlannerScreen({
   // Get load calculations
   const loadCalculations = loadCharts.length > 0 && selectedCounterweightId
     ? calculateLoadCapacities(
-      loadCharts.find(lc =>
-        lc.counterweight_config_id === selectedCounterweightId &&
-        lc.boom_length_m === config.boom_length_m
-      )?.chart_data || [],
+      getChartDataForBoomLength(
+        loadCharts.filter(lc => lc.counterweight_config_id === selectedCounterweightId),
+        config.boom_length_m
+      ),
       config.hook_weight_kg,
       config.lifting_block_kg,
       config.safety_factor
@@ -1979,7 +2260,7 @@ export default function CranePlannerScreen({
             </div>
             {/* Button */}
             {projectCranes.length > 0 && (
-              <div style={{ marginBottom: '12px' }}>
+              <div style={{ marginBottom: '12px', display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
                 <button
                   onClick={startPlacing}
                   disabled={craneModels.filter(c => c.is_active).length === 0}
@@ -1997,6 +2278,92 @@ export default function CranePlannerScreen({
                 >
                   <FiPlus size={16} /> {t('crane.placeNewCraneBtn')}
                 </button>
+                <button
+                  onClick={() => setShowLiftPlanCheck(true)}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    padding: '8px 16px',
+                    borderRadius: '6px',
+                    backgroundColor: 'white',
+                    color: '#374151',
+                    border: '1px solid #e5e7eb',
+                    cursor: 'pointer'
+                  }}
+                >
+                  <FiClipboard size={16} /> {t('liftPlan.openCheck')}
+                </button>
+                <button
+                  onClick={openTandemLift}
+                  disabled={projectCranes.length < 2}
+                  title={projectCranes.length < 2 ? t('tandemLift.needTwoCranes') : t('tandemLift.openHint')}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    padding: '8px 16px',
+                    borderRadius: '6px',
+                    backgroundColor: 'white',
+                    color: projectCranes.length < 2 ? '#9ca3af' : '#374151',
+                    border: '1px solid #e5e7eb',
+                    cursor: projectCranes.length < 2 ? 'not-allowed' : 'pointer'
+                  }}
+                >
+                  <FiShare2 size={16} /> {t('tandemLift.open')}
+                </button>
+                <button
+                  onClick={() => setShowBookings(true)}
+                  disabled={projectCranes.length === 0}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    padding: '8px 16px',
+                    borderRadius: '6px',
+                    backgroundColor: 'white',
+                    color: projectCranes.length === 0 ? '#9ca3af' : '#374151',
+                    border: '1px solid #e5e7eb',
+                    cursor: projectCranes.length === 0 ? 'not-allowed' : 'pointer'
+                  }}
+                >
+                  <FiCalendar size={16} /> {t('craneBooking.open')}
+                </button>
+                <button
+                  onClick={() => setShowOptimizer(true)}
+                  disabled={craneModels.filter(c => c.is_active).length === 0}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    padding: '8px 16px',
+                    borderRadius: '6px',
+                    backgroundColor: 'white',
+                    color: '#374151',
+                    border: '1px solid #e5e7eb',
+                    cursor: 'pointer'
+                  }}
+                >
+                  <FiTarget size={16} /> {t('craneOptimizer.open')}
+                </button>
+                {projectCranes.length > 1 && (
+                  <button
+                    onClick={() => setShowConflicts(true)}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '6px',
+                      padding: '8px 16px',
+                      borderRadius: '6px',
+                      backgroundColor: 'white',
+                      color: '#374151',
+                      border: '1px solid #e5e7eb',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    <FiAlertTriangle size={16} /> {t('craneConflicts.openCheck')}
+                  </button>
+                )}
               </div>
             )}
 
@@ -2034,6 +2401,24 @@ export default function CranePlannerScreen({
                 >
                   <FiPlus size={20} /> {t('crane.placeCraneBtn')}
                 </button>
+                <button
+                  onClick={() => setShowOptimizer(true)}
+                  disabled={craneModels.filter(c => c.is_active).length === 0}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    marginTop: '12px',
+                    padding: '8px 16px',
+                    borderRadius: '6px',
+                    backgroundColor: 'white',
+                    color: '#374151',
+                    border: '1px solid #e5e7eb',
+                    cursor: 'pointer'
+                  }}
+                >
+                  <FiTarget size={16} /> {t('craneOptimizer.open')}
+                </button>
               </div>
             ) : (
               <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
@@ -2210,6 +2595,47 @@ export default function CranePlannerScreen({
                                 <FiTarget size={14} />
                                 {t('crane.calculateCapacity')}
                               </button>
+                              <button
+                                onClick={() => openGroundBearing(crane)}
+                                style={{
+                                  width: '100%',
+                                  padding: '10px 12px',
+                                  border: 'none',
+                                  backgroundColor: 'white',
+                                  cursor: 'pointer',
+                                  textAlign: 'left',
+                                  fontSize: '12px',
+                                  display: 'flex',
+                                  alignItems: 'center',
+                                  gap: '8px'
+                                }}
+                                onMouseEnter={e => (e.target as HTMLElement).style.backgroundColor = '#f3f4f6'}
+                                onMouseLeave={e => (e.target as HTMLElement).style.backgroundColor = 'white'}
+                              >
+                                <FiLayers size={14} />
+                                {t('groundBearing.menuItem')}
+                              </button>
+                              <button
+                                onClick={() => exportLiftPlan(crane, [], 'crane')}
+                                disabled={liftPlanExporting}
+                                style={{
+                                  width: '100%',
+                                  padding: '10px 12px',
+                                  border: 'none',
+                                  backgroundColor: 'white',
+                                  cursor: 'pointer',
+                                  textAlign: 'left',
+                                  fontSize: '12px',
+                                  display: 'flex',
+                                  alignItems: 'center',
+                                  gap: '8px'
+                                }}
+                                onMouseEnter={e => (e.target as HTMLElement).style.backgroundColor = '#f3f4f6'}
+                                onMouseLeave={e => (e.target as HTMLElement).style.backgroundColor = 'white'}
+                              >
+                                <FiFileText size={14} />
+                                {t('liftPlanPdf.menuItem')}
+                              </button>
                             </div>
                           )}
                         </div>
@@ -2266,6 +2692,59 @@ export default function CranePlannerScreen({
           </div>
         )}
 
+        {/* Lift Plan Check Modal */}
+        {showLiftPlanCheck && (
+          <LiftPlanCheckModal
+            api={api}
+            projectId={projectId}
+            projectCranes={projectCranes}
+            userEmail={userEmail}
+            onClose={() => setShowLiftPlanCheck(false)}
+          />
+        )}
+
+        {/* Tandem Lift Modal */}
+        {tandemElement && (
+          <TandemLiftModal
+            element={tandemElement}
+            projectId={projectId}
+            projectCranes={projectCranes}
+            userEmail={userEmail}
+            onShowInModel={showTandemInModel}
+            onClose={closeTandemLift}
+          />
+        )}
+
+        {/* Crane Conflicts Modal */}
+        {showConflicts && (
+          <CraneConflictsModal
+            api={api}
+            projectCranes={projectCranes}
+            onClose={() => setShowConflicts(false)}
+          />
+        )}
+
+        {/* Crane Position Optimizer Modal */}
+        {showOptimizer && (
+          <CraneOptimizerModal
+            api={api}
+            projectId={projectId}
+            craneModels={craneModels}
+            onUsePlacement={startPlacingOptimized}
+            onClose={() => setShowOptimizer(false)}
+          />
+        )}
+
+        {/* Crane Booking Calendar Modal */}
+        {showBookings && (
+          <CraneBookingModal
+            projectId={projectId}
+            projectCranes={projectCranes}
+            onSaveBooking={saveCraneBooking}
+            onClose={() => setShowBookings(false)}
+          />
+        )}
+
         {/* Lifting Capacity Modal */}
         {liftingModal && (
           <div style={{
@@ -2364,7 +2843,34 @@ export default function CranePlannerScreen({
                     <div><strong>{t('crane.safetyFactorLabel')}</strong> {liftingModal.crane.safety_factor}x</div>
                     <div><strong>{t('crane.hookWeightLabel')}</strong> {formatWeight(liftingModal.crane.hook_weight_kg)}</div>
                     <div><strong>{t('crane.liftingBlock')}</strong> {formatWeight(liftingModal.crane.lifting_block_kg)}</div>
-                    <div><strong>{t('crane.mastHeight')}</strong> 3.5m</div>
+                    <div><strong>{t('crane.mastHeight')}</strong> {BOOM_PIVOT_HEIGHT_M}m</div>
+                  </div>
+                </div>
+
+                {/* Boom clearance structure date */}
+                <div style={{
+                  padding: '12px',
+                  backgroundColor: '#f9fafb',
+                  borderRadius: '8px',
+                  marginBottom: '16px',
+                  fontSize: '12px',
+                  border: '1px solid #e5e7eb'
+                }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+                    <strong>{t('crane.clearanceDate')}</strong>
+                    <input
+                      type="date"
+                      value={liftingModal.clearanceDate || ''}
+                      onChange={(e) => updateClearanceDate(e.target.value)}
+                      disabled={clearanceLoading}
+                      style={{ padding: '4px 8px', fontSize: '12px', borderRadius: '6px', border: '1px solid #d1d5db' }}
+                    />
+                    {clearanceLoading && <FiLoader size={14} className="spin" />}
+                  </div>
+                  <div style={{ marginTop: '6px', color: liftingModal.clearanceDate ? '#6b7280' : '#dc2626' }}>
+                    {liftingModal.clearanceDate
+                      ? t('crane.clearanceObstacles', { count: liftingModal.obstacles.length })
+                      : t('crane.clearanceUnavailable')}
                   </div>
                 </div>
 
@@ -2407,6 +2913,9 @@ export default function CranePlannerScreen({
                       <div>📍 {t('crane.boomTipFromBase')} <strong>{obj.boomTipHeight.toFixed(1)}m</strong></div>
                       <div>🗺️ {t('crane.boomTipZ')} <strong>{obj.boomTipAbsZ.toFixed(1)}m</strong></div>
                       <div>⚖️ {t('crane.weight')} <strong>{obj.weight > 0 ? formatWeight(obj.weight) : t('crane.unknown')}</strong></div>
+                      {obj.riggingWeightKg > 0 && (
+                        <div>🔗 {t('rigging.riggingWeight')} <strong>{formatWeight(obj.riggingWeightKg)}</strong></div>
+                      )}
                       <div>💪 {t('crane.capacity')} <strong style={{ color: obj.capacity > 0 ? '#16a34a' : '#dc2626' }}>
                         {obj.capacity > 0 ? formatWeight(obj.capacity) : t('crane.outOfReach')}
                       </strong></div>
@@ -2416,6 +2925,89 @@ export default function CranePlannerScreen({
                         {t('crane.reserve')} {formatWeight(obj.capacity - obj.weight)} ({((obj.capacity - obj.weight) / obj.capacity * 100).toFixed(0)}%)
                       </div>
                     )}
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                    {obj.guid && obj.weight > 0 && (
+                      <button
+                        onClick={() => setRiggingObjectIndex(idx)}
+                        style={{
+                          marginTop: '8px',
+                          padding: '4px 8px',
+                          fontSize: '11px',
+                          border: '1px solid #e5e7eb',
+                          borderRadius: '4px',
+                          backgroundColor: 'white',
+                          cursor: 'pointer',
+                          display: 'flex',
+                          alignItems: 'center',
+                          gap: '4px'
+                        }}
+                      >
+                        <FiLink size={12} /> {t('rigging.open')}
+                      </button>
+                    )}
+                    {obj.chainLength > 0 && (
+                      <button
+                        onClick={() => openGroundBearing(liftingModal.crane, {
+                          name: obj.name,
+                          weightKg: obj.weight + obj.riggingWeightKg,
+                          radiusM: obj.distance,
+                          slewDeg: getSlewAngle(liftingModal.crane, { x: obj.objCenterX / 1000, y: obj.objCenterY / 1000 })
+                        })}
+                        style={{
+                          marginTop: '8px',
+                          padding: '4px 8px',
+                          fontSize: '11px',
+                          border: '1px solid #e5e7eb',
+                          borderRadius: '4px',
+                          backgroundColor: 'white',
+                          cursor: 'pointer',
+                          display: 'flex',
+                          alignItems: 'center',
+                          gap: '4px'
+                        }}
+                      >
+                        <FiLayers size={12} /> {t('groundBearing.forPick')}
+                      </button>
+                    )}
+                    {obj.weight > 0 && (
+                      <button
+                        onClick={() => exportLiftPlan(liftingModal.crane, [obj], 'pick')}
+                        disabled={liftPlanExporting}
+                        style={{
+                          marginTop: '8px',
+                          padding: '4px 8px',
+                          fontSize: '11px',
+                          border: '1px solid #e5e7eb',
+                          borderRadius: '4px',
+                          backgroundColor: 'white',
+                          cursor: 'pointer',
+                          display: 'flex',
+                          alignItems: 'center',
+                          gap: '4px'
+                        }}
+                      >
+                        <FiFileText size={12} /> {t('liftPlanPdf.forPick')}
+                      </button>
+                    )}
+                    </div>
+                    {liftingModal.clearanceDate && obj.chainLength > 0 && (
+                      obj.clashes.length > 0 ? (
+                        <div style={{ marginTop: '8px', fontSize: '12px', fontWeight: 600, color: '#dc2626' }}>
+                          {obj.clashes.some(c => c.part === 'boom') && (
+                            <div>⚠️ {t('crane.boomClash', { count: new Set(obj.clashes.filter(c => c.part === 'boom').flatMap(c => c.guids)).size })}</div>
+                          )}
+                          {obj.clashes.some(c => c.part === 'hook') && (
+                            <div>⚠️ {t('crane.hookClash', { count: new Set(obj.clashes.filter(c => c.part === 'hook').flatMap(c => c.guids)).size })}</div>
+                          )}
+                        </div>
+                      ) : (
+                        <div style={{ marginTop: '8px', fontSize: '12px', color: '#374151' }}>
+                          🧱 {t('crane.minClearance')} <strong style={{ color: obj.clearanceM !== null && obj.clearanceM < CLEARANCE_WARNING_M ? '#d97706' : '#16a34a' }}>
+                            {obj.clearanceM !== null ? `${obj.clearanceM.toFixed(2)}m` : t('crane.noStructureNearby')}
+                          </strong>
+                        </div>
+                      )
+                    )}
                   </div>
                 ))}
 
@@ -2434,6 +3026,7 @@ export default function CranePlannerScreen({
                     <span>🟠 {t('crane.boomLine')}</span>
                     <span>🟢 {t('crane.chainRope')}</span>
                     <span>🟡 {t('crane.horizontalDistance')}</span>
+                    <span>🔴 {t('crane.clashSegment')}</span>
                   </div>
                 </div>
               </div>
@@ -2443,8 +3036,27 @@ export default function CranePlannerScreen({
                 padding: '12px 20px',
                 borderTop: '1px solid #e5e7eb',
                 display: 'flex',
-                justifyContent: 'flex-end'
+                justifyContent: 'flex-end',
+                gap: '8px'
               }}>
+                <button
+                  onClick={() => exportLiftPlan(liftingModal.crane, liftingModal.objects, 'crane')}
+                  disabled={liftPlanExporting}
+                  style={{
+                    padding: '8px 16px',
+                    backgroundColor: 'white',
+                    color: '#374151',
+                    border: '1px solid #e5e7eb',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    fontSize: '13px',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px'
+                  }}
+                >
+                  {liftPlanExporting ? <FiLoader size={14} className="spin" /> : <FiFileText size={14} />} {t('liftPlanPdf.allPicks')}
+                </button>
                 <button
                   onClick={closeLiftingModal}
                   style={{
@@ -2464,6 +3076,33 @@ export default function CranePlannerScreen({
           </div>
         )}
 
+        {/* Rigging Modal */}
+        {liftingModal && riggingObjectIndex !== null && liftingModal.objects[riggingObjectIndex]?.guid && (
+          <RiggingModal
+            element={{
+              guid: liftingModal.objects[riggingObjectIndex].guid!,
+              name: liftingModal.objects[riggingObjectIndex].name,
+              weightKg: liftingModal.objects[riggingObjectIndex].weight,
+              min: liftingModal.objects[riggingObjectIndex].bboxMin,
+              max: liftingModal.objects[riggingObjectIndex].bboxMax
+            }}
+            projectId={projectId}
+            userEmail={userEmail}
+            onSaved={(weightKg) => applyRiggingWeight(riggingObjectIndex, weightKg)}
+            onClose={() => setRiggingObjectIndex(null)}
+          />
+        )}
+
+        {/* Ground Bearing Modal */}
+        {groundBearingModal && projectCranes.some(c => c.id === groundBearingModal.craneId) && (
+          <GroundBearingModal
+            crane={projectCranes.find(c => c.id === groundBearingModal.craneId)!}
+            initialPick={groundBearingModal.pick}
+            onSaveSettings={(settings) => saveGroundBearingSettings(groundBearingModal.craneId, settings)}
+            onClose={() => setGroundBearingModal(null)}
+          />
+        )}
+
         {/* Centered loading overlay */}
         {previewLoading && (
           <div style={{
@@ -16,7 +16,11 @@ import {
 import { compressImage, isImageFile } from '../utils/imageUtils';
 import { useProjectPropertyMappings } from '../contexts/PropertyMappingsContext';
 import * as XLSX from 'xlsx-js-style';
-import { DeliveryToolbar, FactoryModal } from '../features/delivery';
+import {
+  DeliverySequenceModal, DeliveryToolbar, FactoryModal, TruckLoadModal, UnloadTimelineModal,
+  useTruckLoads, useUnloadTimeline
+} from '../features/delivery';
+import type { AutoPackPlan } from '../features/delivery/utils/truckLoad';
 import {
   FiChevronLeft, FiChevronRight, FiPlus,
   FiTrash2, FiCalendar, FiMove, FiX, FiDownload, FiChevronDown,
@@ -695,6 +699,18 @@ export default function DeliveryScheduleScreen({ api, projectId, user: _user, tc
   const [editFactoryName, setEditFactoryName] = useState('');
   const [editFactoryCode, setEditFactoryCode] = useState('');
 
+  // Truck load modal (capacity profiles + auto-pack of a date)
+  const [showTruckLoadModal, setShowTruckLoadModal] = useState(false);
+  const [truckLoadDate, setTruckLoadDate] = useState<string | null>(null);
+  const truckLoads = useTruckLoads({ api, projectId, items, vehicles, userEmail: tcUserEmail });
+
+  // Delivery-before-installation check
+  const [showSequenceCheck, setShowSequenceCheck] = useState(false);
+
+  // Unload-slot timeline of a date (lanes per crane / machine / crew)
+  const [timelineDate, setTimelineDate] = useState<string | null>(null);
+  const unloadTimeline = useUnloadTimeline({ projectId, vehicles });
+
   // Project name for export
   const [projectName, setProjectName] = useState<string>('');
 
@@ -2826,6 +2842,79 @@ export default function DeliveryScheduleScreen({ api, projectId, user: _user, tc
     }
   };
 
+  // Apply an auto-pack plan: reuse the date's vehicles in order, create new ones when needed
+  const applyAutoPackPlan = async (date: string, plan: AutoPackPlan) => {
+    const planItemIds = plan.loads.flatMap(l => l.itemIds);
+    const confirmedItems = items.filter(i => planItemIds.includes(i.id) && confirmedReceivedItemIds.has(i.id));
+    if (confirmedItems.length > 0) {
+      setMessage(t('truckLoad.confirmedItems', { count: confirmedItems.length }));
+      return;
+    }
+    if (!confirm(t('truckLoad.applyConfirm', { count: plan.loads.length, date }))) return;
+
+    setSaving(true);
+    try {
+      // Precompute codes for new vehicles (createVehicle only sees the vehicles of the last render)
+      const usedNumbers = new Map<string, Set<number>>();
+      for (const v of vehicles) {
+        if (!usedNumbers.has(v.factory_id)) usedNumbers.set(v.factory_id, new Set());
+        usedNumbers.get(v.factory_id)!.add(v.vehicle_number || 0);
+      }
+
+      let created = 0;
+      for (const [index, load] of plan.loads.entries()) {
+        let vehicleId = load.vehicleId;
+        if (!vehicleId) {
+          const factory = getFactory(load.factoryId);
+          if (!factory) throw new Error(t('importModal.factoryNotFound'));
+          const used = usedNumbers.get(load.factoryId) || new Set<number>();
+          let vehicleNumber = 1;
+          while (used.has(vehicleNumber)) vehicleNumber++;
+          used.add(vehicleNumber);
+          usedNumbers.set(load.factoryId, used);
+
+          const newVehicle = await createVehicle(load.factoryId, date, `${factory.factory_code}${factory.vehicle_separator || ''}${vehicleNumber}`);
+          if (!newVehicle) throw new Error(t('importModal.vehicleCreateError'));
+          vehicleId = newVehicle.id;
+          created++;
+
+          const { error: typeError } = await supabase
+            .from('trimble_delivery_vehicles')
+            .update({ vehicle_type: load.vehicleType, sort_order: index })
+            .eq('id', vehicleId);
+          if (typeError) throw typeError;
+        }
+
+        const results = await Promise.all(load.itemIds.map((itemId, sortOrder) =>
+          supabase
+            .from('trimble_delivery_items')
+            .update({
+              vehicle_id: vehicleId,
+              scheduled_date: date,
+              sort_order: sortOrder,
+              updated_by: tcUserEmail,
+              updated_at: new Date().toISOString()
+            })
+            .eq('id', itemId)
+        ));
+        const failed = results.find(r => r.error);
+        if (failed?.error) throw failed.error;
+      }
+
+      console.log(`✅ Auto-pack ${date}: ${plan.loads.length} loads, ${created} new vehicles`);
+      await Promise.all([loadItems(), loadVehicles()]);
+      broadcastReload();
+      setShowTruckLoadModal(false);
+      setMessage(t('truckLoad.applied', { count: plan.loads.length, empty: plan.unusedVehicleIds.length }));
+    } catch (e: any) {
+      console.error('Error applying auto-pack:', e);
+      setMessage(t('messages.genericError') + ': ' + e.message);
+      await Promise.all([loadItems(), loadVehicles()]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   // ============================================
   // DRAG AND DROP HANDLERS
   // ============================================
@@ -7608,6 +7697,19 @@ export default function DeliveryScheduleScreen({ api, projectId, user: _user, tc
                   <span className="stats-secondary">{timeRange || t('common:model.timeUnassigned')}</span>
                 </div>
 
+                {unloadTimeline.conflictsByDate.has(date) && (
+                  <span
+                    className="unload-conflict-badge"
+                    title={t('unloadTimeline.dateConflicts', { count: unloadTimeline.conflictsByDate.get(date)!.length })}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setTimelineDate(date);
+                    }}
+                  >
+                    <FiAlertTriangle size={14} />
+                  </span>
+                )}
+
                 <button
                   className="date-menu-btn"
                   onClick={(e) => {
@@ -7654,6 +7756,23 @@ export default function DeliveryScheduleScreen({ api, projectId, user: _user, tc
                     }}>
                       <FiCopy /> Kopeeri märgid
                     </button>
+                    {!isUnassignedDate && (
+                      <button onClick={() => {
+                        setTruckLoadDate(date);
+                        setShowTruckLoadModal(true);
+                        setDateMenuId(null);
+                      }}>
+                        <FiTruck /> {t('dateMenu.autoPack')}
+                      </button>
+                    )}
+                    {!isUnassignedDate && (
+                      <button onClick={() => {
+                        setTimelineDate(date);
+                        setDateMenuId(null);
+                      }}>
+                        <FiClock /> {t('dateMenu.unloadTimeline')}
+                      </button>
+                    )}
                     <div className="context-menu-separator" />
                     <button onClick={() => {
                       setAutoRecalcDates(prev => {
@@ -7922,6 +8041,22 @@ export default function DeliveryScheduleScreen({ api, projectId, user: _user, tc
                             <div className="vehicle-stats-section">
                               <span className="stats-primary">{vehicleItems.length} det.</span>
                               <span className="stats-secondary">{formatWeight(vehicleWeight)?.kg || '0 kg'}</span>
+                              {(() => {
+                                const loadIssues = truckLoads.checksByVehicle.get(vehicleId)?.issues || [];
+                                if (loadIssues.length === 0) return null;
+                                return (
+                                  <span
+                                    className="load-warning"
+                                    title={loadIssues.map(issue => t(`truckLoad.issues.${issue.type}`, {
+                                      value: issue.type === 'overweight' ? Math.round(issue.value) : issue.value.toFixed(2),
+                                      limit: issue.limit,
+                                      count: issue.itemIds.length
+                                    })).join('\n')}
+                                  >
+                                    <FiAlertTriangle size={10} /> {t('truckLoad.warning')}
+                                  </span>
+                                );
+                              })()}
                             </div>
 
                             {/* Actions row - resources and buttons */}
@@ -8623,6 +8758,16 @@ export default function DeliveryScheduleScreen({ api, projectId, user: _user, tc
                                       {item.cast_unit_position_code && <span className="item-position">{item.cast_unit_position_code}</span>}
                                     </div>
 
+                                    {/* Flagged missing by the factory in the supplier portal */}
+                                    {item.dispatch_missing_at && (
+                                      <span
+                                        className="dispatch-missing"
+                                        title={t('factoryModal.dispatchMissingHint', { note: item.dispatch_missing_note || '-' })}
+                                      >
+                                        <FiAlertTriangle size={10} /> {t('factoryModal.dispatchMissing')}
+                                      </span>
+                                    )}
+
                                     {/* Sequence number for duplicates */}
                                     {(() => {
                                       const seqInfo = itemSequences.get(item.id);
@@ -8955,6 +9100,16 @@ export default function DeliveryScheduleScreen({ api, projectId, user: _user, tc
                                       {item.product_name && <span className="item-product">{item.product_name}</span>}
                                       {item.cast_unit_position_code && <span className="item-position">{item.cast_unit_position_code}</span>}
                                     </div>
+
+                                    {/* Flagged missing by the factory in the supplier portal */}
+                                    {item.dispatch_missing_at && (
+                                      <span
+                                        className="dispatch-missing"
+                                        title={t('factoryModal.dispatchMissingHint', { note: item.dispatch_missing_note || '-' })}
+                                      >
+                                        <FiAlertTriangle size={10} /> {t('factoryModal.dispatchMissing')}
+                                      </span>
+                                    )}
                                     {/* Sequence number for duplicates */}
                                     {(() => {
                                       const seqInfo = itemSequences.get(item.id);
@@ -9082,6 +9237,11 @@ export default function DeliveryScheduleScreen({ api, projectId, user: _user, tc
         onPausePlayback={pausePlayback}
         onStopPlayback={stopPlayback}
         onShowFactoryModal={() => setShowFactoryModal(true)}
+        onShowTruckLoadModal={() => {
+          setTruckLoadDate(null);
+          setShowTruckLoadModal(true);
+        }}
+        onShowSequenceCheck={() => setShowSequenceCheck(true)}
         onShowImportModal={() => setShowImportModal(true)}
         onShowExportModal={() => setShowExportModal(true)}
         onShowSettingsModal={() => setShowSettingsModal(true)}
@@ -11576,6 +11736,9 @@ ${importText.split('\n').slice(0, 5).join('\n')}
       {/* Factory management modal */}
       <FactoryModal
         show={showFactoryModal}
+        projectId={projectId}
+        projectName={projectName}
+        userEmail={tcUserEmail}
         factories={factories}
         vehicles={vehicles}
         supabase={supabase}
@@ -11603,6 +11766,48 @@ ${importText.split('\n').slice(0, 5).join('\n')}
         setMessage={setMessage}
       />
 
+      {/* Truck load modal */}
+      <TruckLoadModal
+        show={showTruckLoadModal}
+        date={truckLoadDate}
+        projectId={projectId}
+        vehicles={vehicles}
+        items={items}
+        profiles={truckLoads.profiles}
+        dimensions={truckLoads.dimensions}
+        dimensionsLoading={truckLoads.dimensionsLoading}
+        getFactory={getFactory}
+        saveProfile={truckLoads.saveProfile}
+        onApply={applyAutoPackPlan}
+        onClose={() => setShowTruckLoadModal(false)}
+        setMessage={setMessage}
+      />
+
+      {/* Unload-slot timeline */}
+      <UnloadTimelineModal
+        show={!!timelineDate}
+        date={timelineDate || ''}
+        dates={sortedDates.filter(d => d !== UNASSIGNED_DATE)}
+        vehicles={vehicles}
+        capacity={unloadTimeline.capacity}
+        formatDate={formatDateWithWeekday}
+        onDateChange={setTimelineDate}
+        onReschedule={(vehicleId, time) => updateVehicleInline(vehicleId, 'time', time)}
+        onClose={() => setTimelineDate(null)}
+      />
+
+      {/* Delivery-before-installation check */}
+      {showSequenceCheck && (
+        <DeliverySequenceModal
+          projectId={projectId}
+          userEmail={tcUserEmail}
+          onChanged={() => {
+            Promise.all([loadItems(), loadVehicles()]).then(broadcastReload);
+          }}
+          onClose={() => setShowSequenceCheck(false)}
+        />
+      )}
+
       {/* Settings modal */}
       {showSettingsModal && (
         <div className="modal-overlay" onClick={() => setShowSettingsModal(false)}>
@@ -0,0 +1,379 @@
+/**
+ * Public Factory Portal
+ *
+ * English-language page for suppliers, opened via a factory portal link.
+ * The factory confirms loading and dispatch of its upcoming vehicles, uploads
+ * delivery notes and load photos and flags items that are not on the vehicle.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  DeliveryItem,
+  DeliveryVehicle,
+  DeliveryVehicleStatus,
+  DispatchFileType,
+  FactoryPortalLink,
+  VehicleDispatchFile
+} from '../supabase';
+import { formatDateEnglish, formatTime } from '../utils/shareUtils';
+import {
+  getFactoryPortalByToken,
+  getNextPortalStatuses,
+  setDispatchMissing,
+  setPortalVehicleStatus,
+  uploadDispatchFile
+} from '../utils/factoryPortalUtils';
+import {
+  FiAlertTriangle,
+  FiCalendar,
+  FiCamera,
+  FiCheck,
+  FiClock,
+  FiFileText,
+  FiLoader,
+  FiPackage,
+  FiTruck,
+  FiX
+} from 'react-icons/fi';
+
+interface FactoryPortalPageProps {
+  token: string;
+}
+
+const STATUS_LABELS: Partial<Record<DeliveryVehicleStatus, string>> = {
+  planned: 'Planned',
+  loading: 'Loading',
+  transit: 'In Transit'
+};
+
+const ACTION_LABELS: Partial<Record<DeliveryVehicleStatus, string>> = {
+  loading: 'Start Loading',
+  transit: 'Confirm Dispatch'
+};
+
+export default function FactoryPortalPage({ token }: FactoryPortalPageProps) {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [portalLink, setPortalLink] = useState<FactoryPortalLink | null>(null);
+  const [vehicles, setVehicles] = useState<DeliveryVehicle[]>([]);
+  const [items, setItems] = useState<DeliveryItem[]>([]);
+  const [files, setFiles] = useState<VehicleDispatchFile[]>([]);
+
+  // Busy vehicle and per-vehicle selection of items to flag
+  const [busyVehicleId, setBusyVehicleId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [selectedItems, setSelectedItems] = useState<Record<string, Set<string>>>({});
+  const [missingNotes, setMissingNotes] = useState<Record<string, string>>({});
+
+  // Load data
+  useEffect(() => {
+    async function loadData() {
+      setLoading(true);
+      const result = await getFactoryPortalByToken(token);
+
+      if (result.error) {
+        setError(result.error);
+      } else {
+        setPortalLink(result.portalLink);
+        setVehicles(result.vehicles);
+        setItems(result.items);
+        setFiles(result.files);
+      }
+      setLoading(false);
+    }
+
+    loadData();
+  }, [token]);
+
+  const itemsByVehicle = useMemo(() => {
+    const map = new Map<string, DeliveryItem[]>();
+    for (const item of items) {
+      if (!item.vehicle_id) continue;
+      if (!map.has(item.vehicle_id)) map.set(item.vehicle_id, []);
+      map.get(item.vehicle_id)!.push(item);
+    }
+    return map;
+  }, [items]);
+
+  const runAction = async (vehicleId: string, action: () => Promise<string | null>) => {
+    setBusyVehicleId(vehicleId);
+    setActionError(null);
+    const actionErr = await action();
+    if (actionErr) setActionError(actionErr);
+    setBusyVehicleId(null);
+  };
+
+  const changeStatus = (vehicle: DeliveryVehicle, status: DeliveryVehicleStatus) => runAction(vehicle.id, async () => {
+    const { error: statusError } = await setPortalVehicleStatus(portalLink!, vehicle, status, items);
+    if (statusError) return statusError;
+    // Update local state
+    setVehicles(prev => prev.map(v => v.id === vehicle.id ? { ...v, status } : v));
+    return null;
+  });
+
+  const uploadFiles = (vehicle: DeliveryVehicle, fileList: FileList | null, fileType: DispatchFileType) => {
+    if (!fileList || fileList.length === 0) return;
+    const selected = Array.from(fileList);
+    return runAction(vehicle.id, async () => {
+      for (const file of selected) {
+        const { file: record, error: uploadError } = await uploadDispatchFile(portalLink!, vehicle, file, fileType);
+        if (uploadError) return `${file.name}: ${uploadError}`;
+        if (record) setFiles(prev => [...prev, record]);
+      }
+      return null;
+    });
+  };
+
+  const toggleItem = (vehicleId: string, itemId: string) => {
+    setSelectedItems(prev => {
+      const next = new Set(prev[vehicleId] || []);
+      if (next.has(itemId)) next.delete(itemId);
+      else next.add(itemId);
+      return { ...prev, [vehicleId]: next };
+    });
+  };
+
+  const updateMissing = (vehicle: DeliveryVehicle, targetItems: DeliveryItem[], note: string | null) => runAction(vehicle.id, async () => {
+    const { error: missingError } = await setDispatchMissing(portalLink!, vehicle, targetItems, note);
+    if (missingError) return missingError;
+    // Update local state
+    const ids = new Set(targetItems.map(i => i.id));
+    const missingAt = note !== null ? new Date().toISOString() : null;
+    setItems(prev => prev.map(i => ids.has(i.id) ? { ...i, dispatch_missing_at: missingAt, dispatch_missing_note: note } : i));
+    setSelectedItems(prev => ({ ...prev, [vehicle.id]: new Set() }));
+    setMissingNotes(prev => ({ ...prev, [vehicle.id]: '' }));
+    return null;
+  });
+
+  // Loading state
+  if (loading) {
+    return (
+      <div className="share-gallery-loading">
+        <FiLoader className="spinner" />
+        <p>Loading factory portal...</p>
+      </div>
+    );
+  }
+
+  // Error state
+  if (error || !portalLink) {
+    return (
+      <div className="share-gallery-error">
+        <FiAlertTriangle size={48} />
+        <h1>Portal Not Available</h1>
+        <p>{error || 'This portal link is invalid or has expired.'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="share-gallery factory-portal">
+      {/* Header */}
+      <header className="share-gallery-header">
+        <div className="header-content">
+          <div className="project-badge">
+            <FiPackage />
+            <span>{portalLink.project_name}</span>
+          </div>
+          <h1>Supplier Portal</h1>
+          <p className="subtitle">
+            <FiTruck /> {portalLink.factory_name}
+            <span className="separator">|</span>
+            {vehicles.length} upcoming vehicle{vehicles.length !== 1 ? 's' : ''}
+          </p>
+        </div>
+      </header>
+
+      <main className="share-gallery-main">
+        {actionError && (
+          <div className="factory-portal-error">
+            <FiAlertTriangle /> {actionError}
+            <button onClick={() => setActionError(null)}><FiX /></button>
+          </div>
+        )}
+
+        {vehicles.length === 0 && (
+          <section className="items-section factory-portal-empty">
+            No upcoming vehicles are scheduled for {portalLink.factory_name}.
+          </section>
+        )}
+
+        {vehicles.map(vehicle => {
+          const vehicleItems = itemsByVehicle.get(vehicle.id) || [];
+          const vehicleFiles = files.filter(f => f.vehicle_id === vehicle.id);
+          const deliveryNotes = vehicleFiles.filter(f => f.file_type === 'delivery_note');
+          const loadPhotos = vehicleFiles.filter(f => f.file_type === 'loading_photo');
+          const missingItems = vehicleItems.filter(i => i.dispatch_missing_at);
+          const selected = selectedItems[vehicle.id] || new Set<string>();
+          const totalWeight = vehicleItems.reduce((sum, i) => sum + (Number(i.cast_unit_weight) || 0), 0);
+          const busy = busyVehicleId === vehicle.id;
+
+          return (
+            <section key={vehicle.id} className="items-section factory-portal-vehicle">
+              <div className="factory-portal-vehicle-header">
+                <div>
+                  <h2>
+                    <FiTruck /> {vehicle.vehicle_code}
+                    <span className={`factory-portal-status ${vehicle.status}`}>{STATUS_LABELS[vehicle.status] || vehicle.status}</span>
+                  </h2>
+                  <p className="factory-portal-meta">
+                    <FiCalendar /> {vehicle.scheduled_date ? formatDateEnglish(vehicle.scheduled_date) : '-'}
+                    <FiClock /> {formatTime(vehicle.unload_start_time)}
+                    <FiPackage /> {vehicleItems.length} items, {Math.round(totalWeight).toLocaleString()} kg
+                  </p>
+                </div>
+                <div className="factory-portal-actions">
+                  {busy && <FiLoader className="spin" />}
+                  {getNextPortalStatuses(vehicle.status).map(status => (
+                    <button
+                      key={status}
+                      className={`factory-portal-btn ${status === 'transit' ? 'primary' : ''}`}
+                      disabled={busy}
+                      onClick={() => changeStatus(vehicle, status)}
+                    >
+                      {status === 'transit' ? <FiTruck /> : <FiCheck />} {ACTION_LABELS[status]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Delivery notes and load photos */}
+              <div className="factory-portal-files">
+                <label className={`factory-portal-btn ${busy ? 'disabled' : ''}`}>
+                  <FiFileText /> Upload Delivery Note
+                  <input
+                    type="file"
+                    accept="application/pdf,image/*"
+                    hidden
+                    disabled={busy}
+                    onChange={e => { uploadFiles(vehicle, e.target.files, 'delivery_note'); e.target.value = ''; }}
+                  />
+                </label>
+                <label className={`factory-portal-btn ${busy ? 'disabled' : ''}`}>
+                  <FiCamera /> Upload Load Photos
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    hidden
+                    disabled={busy}
+                    onChange={e => { uploadFiles(vehicle, e.target.files, 'loading_photo'); e.target.value = ''; }}
+                  />
+                </label>
+                {deliveryNotes.map(f => (
+                  <a key={f.id} className="factory-portal-file" href={f.file_url} target="_blank" rel="noopener noreferrer">
+                    <FiFileText /> {f.file_name}
+                  </a>
+                ))}
+              </div>
+              {loadPhotos.length > 0 && (
+                <div className="factory-portal-photos">
+                  {loadPhotos.map(f => (
+                    <a key={f.id} href={f.file_url} target="_blank" rel="noopener noreferrer">
+                      <img src={f.file_url} alt={f.file_name} />
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              {/* Items */}
+              <div className="items-table-wrapper">
+                <table className="items-table compact">
+                  <thead>
+                    <tr>
+                      <th></th>
+                      <th>Mark</th>
+                      <th>Product</th>
+                      <th>Weight</th>
+                      <th>Loaded</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {vehicleItems.map(item => (
+                      <tr key={item.id} className={item.dispatch_missing_at ? 'missing' : ''}>
+                        <td className="num">
+                          {!item.dispatch_missing_at && vehicle.status !== 'transit' && (
+                            <input
+                              type="checkbox"
+                              checked={selected.has(item.id)}
+                              onChange={() => toggleItem(vehicle.id, item.id)}
+                            />
+                          )}
+                        </td>
+                        <td className="mark">{item.assembly_mark || '-'}</td>
+                        <td>{item.product_name || '-'}</td>
+                        <td className="weight">
+                          {item.cast_unit_weight ? `${Math.round(Number(item.cast_unit_weight))} kg` : '-'}
+                        </td>
+                        <td>
+                          {item.dispatch_missing_at ? (
+                            <div className="status-cell missing">
+                              <FiX className="status-icon missing" />
+                              <span>Missing{item.dispatch_missing_note ? `: ${item.dispatch_missing_note}` : ''}</span>
+                              {vehicle.status !== 'transit' && (
+                                <button
+                                  className="factory-portal-link-btn"
+                                  disabled={busy}
+                                  onClick={() => updateMissing(vehicle, [item], null)}
+                                >
+                                  Undo
+                                </button>
+                              )}
+                            </div>
+                          ) : (
+                            <div className="status-cell confirmed">
+                              <FiCheck className="status-icon confirmed" />
+                              <span>Yes</span>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {selected.size > 0 && (
+                <div className="factory-portal-missing">
+                  <input
+                    type="text"
+                    placeholder="Reason (optional), e.g. not produced yet"
+                    value={missingNotes[vehicle.id] || ''}
+                    onChange={e => setMissingNotes(prev => ({ ...prev, [vehicle.id]: e.target.value }))}
+                  />
+                  <button
+                    className="factory-portal-btn danger"
+                    disabled={busy}
+                    onClick={() => updateMissing(
+                      vehicle,
+                      vehicleItems.filter(i => selected.has(i.id)),
+                      (missingNotes[vehicle.id] || '').trim()
+                    )}
+                  >
+                    <FiAlertTriangle /> Flag {selected.size} as Missing
+                  </button>
+                </div>
+              )}
+              {missingItems.length > 0 && (
+                <p className="factory-portal-missing-summary">
+                  <FiAlertTriangle /> {missingItems.length} item{missingItems.length !== 1 ? 's' : ''} will not be on this vehicle.
+                </p>
+              )}
+            </section>
+          );
+        })}
+      </main>
+
+      {/* Footer */}
+      <footer className="share-gallery-footer">
+        <div className="footer-content">
+          <p>
+            This portal was shared with {portalLink.factory_name} for {portalLink.project_name}.
+            <br />
+            All changes are recorded in the project delivery history.
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
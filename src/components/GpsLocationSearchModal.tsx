@@ -12,12 +12,13 @@ import {
   FiX, FiMapPin, FiSearch, FiCheck, FiRefreshCw, FiNavigation,
   FiMap, FiTarget, FiCrosshair, FiExternalLink, FiAlertCircle
 } from 'react-icons/fi';
-import { supabase, DeliveryItem } from '../supabase';
+import { supabase, DeliveryItem, YardZone } from '../supabase';
 import { useGpsTracking, GpsSignalQuality } from '../hooks/useGpsTracking';
-import {
-  wgs84ToBelgianLambert72,
-  googleMapsUrl
-} from '../utils/coordinateUtils';
+import { useCoordinateSettings } from '../hooks/useCoordinateSettings';
+import { googleMapsUrl } from '../utils/coordinateUtils';
+import { gpsToModelMeters } from '../utils/coordinateTransform';
+import { fetchYardZones } from '../features/yard/hooks/useYardZones';
+import { locateInYard, resolveYardZones, YardLocation } from '../features/yard/utils/yardZones';
 
 interface GpsLocationSearchModalProps {
   api: WorkspaceAPI | null;
@@ -71,6 +72,9 @@ export default function GpsLocationSearchModal({
     requestPermission
   } = useGpsTracking({ enableHighAccuracy: true });
 
+  // Project coordinate system + calibration for GPS -> model conversion
+  const { settings: coordinateSettings } = useCoordinateSettings(projectId);
+
   // State
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState<string | null>(null);
@@ -78,6 +82,7 @@ export default function GpsLocationSearchModal({
   const [searchQuery, setSearchQuery] = useState('');
   const [items, setItems] = useState<DetailWithGps[]>([]);
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
+  const [yardZones, setYardZones] = useState<YardZone[]>([]);
 
   // Load delivery items that are not yet installed
   const loadItems = useCallback(async () => {
@@ -119,6 +124,13 @@ export default function GpsLocationSearchModal({
       });
 
       setItems(itemsWithGps);
+
+      // Laydown yard zones (optional - search still works without them)
+      try {
+        setYardZones(await fetchYardZones(projectId));
+      } catch (e) {
+        console.warn('Could not load yard zones:', e);
+      }
     } catch (e) {
       console.error('Error loading items:', e);
       setMessage(t('gpsSearch.loadError'));
@@ -137,7 +149,24 @@ export default function GpsLocationSearchModal({
     };
   }, [loadItems, startTracking, stopTracking]);
 
-  // Filter items by search query
+  // Yard zone and row of each positioned item
+  const yardLocations = useMemo(() => {
+    const zones = resolveYardZones(yardZones, coordinateSettings);
+    const locations = new Map<string, YardLocation>();
+    if (zones.length === 0) return locations;
+    for (const item of items) {
+      if (!item.gps_latitude || !item.gps_longitude) continue;
+      const location = locateInYard({ lat: item.gps_latitude, lng: item.gps_longitude }, zones);
+      if (location) locations.set(item.id, location);
+    }
+    return locations;
+  }, [items, yardZones, coordinateSettings]);
+
+  const formatYardLocation = (location: YardLocation) => location.row
+    ? t('gpsSearch.yardZoneRow', { zone: location.zoneName, row: location.row })
+    : t('gpsSearch.yardZone', { zone: location.zoneName });
+
+  // Filter items by search query (zone names match too)
   const filteredItems = useMemo(() => {
     if (!searchQuery.trim()) return items;
 
@@ -145,9 +174,10 @@ export default function GpsLocationSearchModal({
     return items.filter(item =>
       item.assembly_mark?.toLowerCase().includes(query) ||
       item.product_name?.toLowerCase().includes(query) ||
-      item.cast_unit_position_code?.toLowerCase().includes(query)
+      item.cast_unit_position_code?.toLowerCase().includes(query) ||
+      yardLocations.get(item.id)?.zoneName.toLowerCase() === query
     );
-  }, [items, searchQuery]);
+  }, [items, searchQuery, yardLocations]);
 
   // Save GPS position for an item
   const savePosition = useCallback(async (item: DetailWithGps) => {
@@ -217,14 +247,20 @@ export default function GpsLocationSearchModal({
       return;
     }
 
+    if (!coordinateSettings) {
+      setMessage(t('gpsSearch.coordinateSettingsMissing'));
+      return;
+    }
+
     setMessage(t('gpsSearch.addingMarkers', { count: itemsToMark.length }));
 
     try {
       const markups: any[] = [];
 
       for (const item of itemsToMark) {
-        // Convert GPS to model coordinates
-        const modelCoords = wgs84ToBelgianLambert72(item.gps_latitude!, item.gps_longitude!);
+        // Convert GPS to model coordinates (meters -> markup mm)
+        const modelMeters = gpsToModelMeters(item.gps_latitude!, item.gps_longitude!, coordinateSettings);
+        const modelCoords = { x: modelMeters.x * 1000, y: modelMeters.y * 1000 };
 
         // Create markup text
         const text = [
@@ -262,7 +298,7 @@ export default function GpsLocationSearchModal({
       console.error('Error creating markups:', e);
       setMessage(t('gpsSearch.markerError') + ': ' + e.message);
     }
-  }, [api, items, selectedItems]);
+  }, [api, items, selectedItems, coordinateSettings]);
 
   // Toggle item selection
   const toggleSelection = (itemId: string) => {
@@ -681,6 +717,11 @@ export default function GpsLocationSearchModal({
                               <FiCheck size={12} />
                               ±{item.gps_accuracy?.toFixed(0)}m
                             </span>
+                            {yardLocations.has(item.id) && (
+                              <span style={{ fontSize: 11, fontWeight: 600, color: '#1e40af', whiteSpace: 'nowrap' }}>
+                                {formatYardLocation(yardLocations.get(item.id)!)}
+                              </span>
+                            )}
                             <a
                               href={googleMapsUrl({ latitude: item.gps_latitude, longitude: item.gps_longitude! })}
                               target="_blank"
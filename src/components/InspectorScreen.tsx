@@ -3,10 +3,16 @@ import { useTranslation } from 'react-i18next';
 import * as WorkspaceAPI from 'trimble-connect-workspace-api';
 import { supabase, TrimbleExUser, Inspection, InspectionPlanItem, InspectionTypeRef, InspectionCategory, InspectionCheckpoint, InspectionResult, INSPECTION_STATUS_COLORS } from '../supabase';
 import { InspectionMode } from './MainMenu';
-import { FiArrowLeft, FiClipboard, FiAlertCircle, FiChevronLeft, FiChevronRight } from 'react-icons/fi';
+import { FiArrowLeft, FiClipboard, FiAlertCircle, FiChevronLeft, FiChevronRight, FiCloudOff, FiDownload, FiRefreshCw } from 'react-icons/fi';
 import { useEos2Navigation } from '../hooks/useEos2Navigation';
+import { useOfflineInspection } from '../hooks/useOfflineInspection';
+import { useOfflineSync } from '../hooks/useOfflineSync';
+import { isOnline } from '../utils/offlineQueue';
+import { findCachedPlanItem, getCachedCheckpoints, getCachedResults, mergePendingResults } from '../utils/offlineInspectionCache';
 import InspectionList, { InspectionItem } from './InspectionList';
 import CheckpointForm from './CheckpointForm';
+import SyncConflictDialog from './SyncConflictDialog';
+import OfflineQueueDiagnostics from './OfflineQueueDiagnostics';
 import PageHeader from './PageHeader';
 import { findObjectsInLoadedModels } from '../utils/navigationHelper';
 
@@ -188,6 +194,14 @@ export default function InspectorScreen({
   const [lockedAssemblyMode, setLockedAssemblyMode] = useState<boolean | null>(null);
   const inspectionListRef = useRef<HTMLDivElement>(null);
 
+  // Offline inspection - downloaded project data and results waiting for sync
+  const offline = useOfflineInspection(projectId);
+  // Offline answers that clashed with another inspector's answer - resolved by moderators
+  const { conflicts: syncConflicts, resolveConflict, error: syncError } = useOfflineSync(projectId);
+  const canResolveConflicts = user.role === 'admin' || user.role === 'moderator';
+  const [showConflictDialog, setShowConflictDialog] = useState(false);
+  const [showQueueDiagnostics, setShowQueueDiagnostics] = useState(false);
+
   // EOS2 Navigation hook - polls for commands from EOS2 and auto-navigates
   useEos2Navigation({
     api,
@@ -509,11 +523,22 @@ export default function InspectorScreen({
     setCheckpointResults([]);
 
     try {
+      // No network - use data downloaded for offline inspection
+      if (!isOnline()) {
+        const cachedCheckpoints = await getCachedCheckpoints(categoryId);
+        setCheckpoints(cachedCheckpoints);
+        if (cachedCheckpoints.length > 0) {
+          setCheckpointResults(await getCachedResults(projectId, assemblyGuid));
+        }
+        console.log('📦 Checkpoints loaded from offline cache:', cachedCheckpoints.length);
+        return;
+      }
+
       // Fetch active checkpoints for this category
       console.log('🔍 Fetching checkpoints for category:', categoryId);
       const { data: checkpointsData, error: checkpointsError } = await supabase
         .from('inspection_checkpoints')
-        .select('*')
+        .select('*, attachments:inspection_checkpoint_attachments(*)')
         .eq('category_id', categoryId)
         .eq('is_active', true)
         .order('sort_order', { ascending: true });
@@ -531,10 +556,9 @@ export default function InspectorScreen({
       }
 
       if (checkpointsData && checkpointsData.length > 0) {
-        // Add empty attachments array for now
         const checkpointsWithAttachments = checkpointsData.map(cp => ({
           ...cp,
-          attachments: []
+          attachments: [...(cp.attachments || [])].sort((a, b) => a.sort_order - b.sort_order)
         }));
         setCheckpoints(checkpointsWithAttachments);
         console.log('✅ Checkpoints loaded:', checkpointsWithAttachments.length);
@@ -547,8 +571,11 @@ export default function InspectorScreen({
             .eq('project_id', projectId)
             .eq('assembly_guid', assemblyGuid);
 
-          if (!resultsError && resultsData && resultsData.length > 0) {
-            setCheckpointResults(resultsData);
+          // Include results saved offline that are still waiting in the upload queue
+          const localResults = await getCachedResults(projectId, assemblyGuid).catch(() => []);
+          const mergedResults = mergePendingResults(!resultsError && resultsData ? resultsData : [], localResults);
+          if (mergedResults.length > 0) {
+            setCheckpointResults(mergedResults);
           }
         } catch (resultsErr: any) {
           // Results table might not exist yet - that's OK
@@ -638,43 +665,53 @@ export default function InspectorScreen({
         // Try to find plan item matching any of the GUIDs
         let foundPlan = null;
 
-        for (const guidToCheck of guidsToCheck) {
-          if (!guidToCheck) continue;
-
-          // Build query - filter by inspection_type_id if in inspection_type mode
-          let query = supabase
-            .from('inspection_plan_items')
-            .select(`
-              *,
-              inspection_types!inspection_plan_items_inspection_type_id_fkey (
-                id,
-                code,
-                name,
-                description,
-                icon,
-                color
-              ),
-              inspection_categories!inspection_plan_items_category_id_fkey (
-                id,
-                code,
-                name,
-                description
-              )
-            `)
-            .eq('project_id', projectId)
-            .or(`guid.eq.${guidToCheck},guid_ifc.eq.${guidToCheck}`);
-
-          // Filter by inspection type if in inspection_type mode
-          if (inspectionMode === 'inspection_type' && inspectionTypeId) {
-            query = query.eq('inspection_type_id', inspectionTypeId);
-          }
+        // No network - look up the plan downloaded for offline inspection
+        if (!isOnline()) {
+          foundPlan = await findCachedPlanItem(
+            projectId,
+            guidsToCheck,
+            inspectionMode === 'inspection_type' ? inspectionTypeId : undefined
+          );
+          console.log('📦 Offline plan lookup:', foundPlan);
+        } else {
+          for (const guidToCheck of guidsToCheck) {
+            if (!guidToCheck) continue;
+
+            // Build query - filter by inspection_type_id if in inspection_type mode
+            let query = supabase
+              .from('inspection_plan_items')
+              .select(`
+                *,
+                inspection_types!inspection_plan_items_inspection_type_id_fkey (
+                  id,
+                  code,
+                  name,
+                  description,
+                  icon,
+                  color
+                ),
+                inspection_categories!inspection_plan_items_category_id_fkey (
+                  id,
+                  code,
+                  name,
+                  description
+                )
+              `)
+              .eq('project_id', projectId)
+              .or(`guid.eq.${guidToCheck},guid_ifc.eq.${guidToCheck}`);
+
+            // Filter by inspection type if in inspection_type mode
+            if (inspectionMode === 'inspection_type' && inspectionTypeId) {
+              query = query.eq('inspection_type_id', inspectionTypeId);
+            }
 
-          const { data: planData, error: planError } = await query.single();
+            const { data: planData, error: planError } = await query.single();
 
-          if (planData && !planError) {
-            foundPlan = planData;
-            console.log('✅ Found inspection plan:', planData);
-            break;
+            if (planData && !planError) {
+              foundPlan = planData;
+              console.log('✅ Found inspection plan:', planData);
+              break;
+            }
           }
         }
 
@@ -2569,6 +2606,100 @@ export default function InspectorScreen({
         </div>
       )}
 
+      {/* Offline inspection - download state and pending sync */}
+      {(inspectionMode === 'inspection_type' || !offline.isOnline || offline.pendingGuids.size > 0 || offline.queuedCount > 0 || offline.deadCount > 0) && (
+        <div
+          className={`warning-banner ${offline.isOnline ? 'info-banner' : ''}`}
+          style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}
+        >
+          {!offline.isOnline && <FiCloudOff size={14} />}
+          <span style={{ flex: 1 }}>
+            {!offline.isOnline
+              ? (offline.cacheInfo
+                ? t('inspector.offlineUsingCache', { date: new Date(offline.cacheInfo.cached_at).toLocaleString('et-EE') })
+                : t('inspector.offlineNoCache'))
+              : (offline.cacheInfo
+                ? t('inspector.offlineCachedAt', { date: new Date(offline.cacheInfo.cached_at).toLocaleString('et-EE'), count: offline.cacheInfo.plan_item_count })
+                : t('inspector.offlineNotDownloaded'))}
+            {offline.pendingGuids.size > 0 && ` • ${t('inspector.pendingSyncCount', { count: offline.pendingGuids.size })}`}
+          </span>
+          {(offline.queuedCount > 0 || offline.deadCount > 0) && (
+            <button
+              className="btn-secondary"
+              onClick={() => setShowQueueDiagnostics(true)}
+              style={offline.deadCount > 0 ? { color: '#dc2626', borderColor: '#dc2626' } : undefined}
+            >
+              {offline.deadCount > 0
+                ? t('inspector.uploadQueueFailed', { count: offline.deadCount })
+                : t('inspector.uploadQueue', { count: offline.queuedCount })}
+            </button>
+          )}
+          {offline.isOnline && offline.pendingGuids.size > 0 && (
+            <button className="btn-secondary" onClick={() => offline.syncNow()} title={t('inspector.syncNow')}>
+              <FiRefreshCw size={12} /> {t('inspector.syncNow')}
+            </button>
+          )}
+          {offline.isOnline && (
+            <button className="btn-secondary" onClick={() => offline.preload()} disabled={offline.preloading}>
+              <FiDownload size={12} />{' '}
+              {offline.preloading
+                ? t('inspector.offlineDownloading', { step: t(`inspector.offlineSteps.${offline.preloadStep || 'plan_items'}`) })
+                : t('inspector.offlineDownload')}
+            </button>
+          )}
+          {offline.error && <span style={{ width: '100%', color: '#dc2626' }}>{offline.error}</span>}
+        </div>
+      )}
+
+      {showQueueDiagnostics && (
+        <OfflineQueueDiagnostics
+          onChanged={() => {
+            offline.refreshQueueStats();
+            offline.refreshPending();
+          }}
+          onClose={() => setShowQueueDiagnostics(false)}
+        />
+      )}
+
+      {/* Sync conflicts waiting for moderator */}
+      {canResolveConflicts && syncConflicts.length > 0 && (
+        <div className="warning-banner" style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <span style={{ flex: 1 }}>⚠️ {t('syncConflicts.banner', { count: syncConflicts.length })}</span>
+          <button className="btn-secondary" onClick={() => setShowConflictDialog(true)}>
+            {t('syncConflicts.resolve')}
+          </button>
+        </div>
+      )}
+
+      {showConflictDialog && (
+        <SyncConflictDialog
+          conflicts={syncConflicts}
+          onResolve={async (conflict, resolution, merged) => {
+            const ok = await resolveConflict(
+              conflict,
+              resolution,
+              { email: tcUserEmail || user.email, name: user.name },
+              merged
+            );
+            // Reload answers if the resolved assembly is open
+            const selectedGuid = selectedObjects[0]?.guidIfc || selectedObjects[0]?.guid || selectedObjects[0]?.guidMs;
+            if (ok && selectedGuid === conflict.assembly_guid && assignedPlan?.category_id) {
+              fetchCheckpoints(assignedPlan.category_id, selectedGuid);
+            }
+            return ok;
+          }}
+          error={syncError}
+          onClose={() => setShowConflictDialog(false)}
+        />
+      )}
+
+      {/* Selected item has results saved offline */}
+      {selectedObjects.length === 1 && [selectedObjects[0].guidIfc, selectedObjects[0].guid, selectedObjects[0].guidMs].some(g => g && offline.pendingGuids.has(g)) && (
+        <div className="warning-banner">
+          <FiCloudOff size={14} /> {t('inspector.selectedPendingSync')}
+        </div>
+      )}
+
       {/* EOS2 Navigation Status */}
       {eos2NavStatus !== 'idle' && (
         <div className={`eos2-nav-status ${eos2NavStatus}`}>
@@ -2805,7 +2936,12 @@ export default function InspectorScreen({
           api={api}
           onComplete={async (results) => {
             setCheckpointResults(results);
-            setMessage(`✅ Kontrollpunktid salvestatud (${results.length})`);
+            if (isOnline()) {
+              setMessage(`✅ Kontrollpunktid salvestatud (${results.length})`);
+            } else {
+              setMessage(`📦 ${t('inspector.savedOffline', { count: results.length })}`);
+              offline.refreshPending();
+            }
             setTimeout(() => setMessage(''), 3000);
 
             // Color the inspected item green (completed) in real-time
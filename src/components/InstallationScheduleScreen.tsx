@@ -20,11 +20,22 @@ import {
   FiArrowUp, FiArrowDown, FiDroplet, FiRefreshCw, FiPause, FiCamera, FiSearch,
   FiSettings, FiMoreVertical, FiCopy, FiUpload, FiAlertCircle, FiCheckCircle, FiCheck,
   FiMessageSquare, FiAlertTriangle, FiFilter, FiEdit3, FiTruck, FiLayers, FiSave, FiEdit,
-  FiPackage, FiTag, FiBarChart2, FiLock, FiUnlock
+  FiPackage, FiTag, FiBarChart2, FiLock, FiUnlock, FiShare2, FiWind
 } from 'react-icons/fi';
 import './InstallationScheduleScreen.css';
 import PageHeader from './PageHeader';
 import { InspectionMode } from './MainMenu';
+import ScheduleVarianceModal from '../features/installation/components/ScheduleVarianceModal';
+import { fetchTandemLifts } from '../features/crane-planning/lift-plan/hooks/useTandemLifts';
+import WindForecastModal from '../features/installation/components/WindForecastModal';
+import { useWindForecast } from '../features/installation/hooks/useWindForecast';
+import { evaluateWindRisk, getDailyWorkingHoursMax, getWindLimitForItem, toForecastPoint, WindRisk } from '../features/installation/utils/windForecast';
+import { buildScheduleLockSets, isScheduleDateLocked } from '../features/installation/utils/scheduleLocks';
+import { useProjectCranes } from '../features/crane-planning/crane-placement/hooks/useProjectCranes';
+import { getElementBoundsByGuid } from '../features/crane-planning/lift-plan/utils/elementPositions';
+import { parseCastUnitWeight } from '../features/crane-planning/lift-plan/utils/liftPlanAnalysis';
+import { getAllowedWindSpeed, getSailArea } from '../features/crane-planning/load-calculator/utils/windLoad';
+import { DeliverySequenceModal } from '../features/delivery/components/DeliverySequenceModal';
 
 interface Props {
   api: WorkspaceAPI;
@@ -314,6 +325,19 @@ export default function InstallationScheduleScreen({ api, projectId, user, tcUse
   // Delivery info by guid (for warning about late/missing delivery and showing truck info)
   const [deliveryInfoByGuid, setDeliveryInfoByGuid] = useState<Record<string, { date: string; truckCode: string }>>({});
 
+  // Tandem (dual-crane) lifts by IFC GUID -> crane labels ("K1 + K2")
+  const [tandemCranesByGuid, setTandemCranesByGuid] = useState<Record<string, string>>({});
+
+  // Wind forecast, crane wind limits and sail areas (m²) of elements on forecast days
+  const windForecast = useWindForecast(projectId);
+  const { projectCranes } = useProjectCranes(projectId);
+  const [showWindForecast, setShowWindForecast] = useState(false);
+  const [sailAreaByGuid, setSailAreaByGuid] = useState<Record<string, number>>({});
+  const windDays = useMemo(
+    () => getDailyWorkingHoursMax(windForecast.forecasts.map(toForecastPoint)),
+    [windForecast.forecasts]
+  );
+
   // Installation methods for new items (multiple methods with counts)
   const [selectedInstallMethods, setSelectedInstallMethods] = useState<InstallMethods>({});
   const [methodDefaults, setMethodDefaults] = useState<Record<InstallMethodType, number>>(loadDefaultCounts);
@@ -353,6 +377,8 @@ export default function InstallationScheduleScreen({ api, projectId, user, tcUse
   const [showHamburgerMenu, setShowHamburgerMenu] = useState(false);
   const [showMarkupSubmenu, setShowMarkupSubmenu] = useState(false);
   const [showResourcesStats, setShowResourcesStats] = useState(false);
+  const [showVarianceReport, setShowVarianceReport] = useState(false);
+  const [showDeliverySequence, setShowDeliverySequence] = useState(false);
   const [showScheduledDropdown, setShowScheduledDropdown] = useState(false);
   // Bulk edit modal for scheduled items from selection
   const [showScheduledEditModal, setShowScheduledEditModal] = useState(false);
@@ -921,6 +947,68 @@ export default function InstallationScheduleScreen({ api, projectId, user, tcUse
     loadDeliveryInfo();
   }, [loadDeliveryInfo]);
 
+  // Load tandem lifts planned in the crane planner
+  const loadTandemLifts = useCallback(async () => {
+    try {
+      const tandemLifts = await fetchTandemLifts(projectId);
+      if (tandemLifts.length === 0) {
+        setTandemCranesByGuid({});
+        return;
+      }
+
+      const { data: cranes, error } = await supabase
+        .from('project_cranes')
+        .select('id, position_label')
+        .eq('trimble_project_id', projectId);
+
+      if (error) throw error;
+
+      const labelById: Record<string, string> = {};
+      for (const c of (cranes || [])) {
+        labelById[c.id] = c.position_label || '?';
+      }
+
+      const byGuid: Record<string, string> = {};
+      for (const tl of tandemLifts) {
+        byGuid[tl.guid_ifc] = `${labelById[tl.crane_a_id] || '?'} + ${labelById[tl.crane_b_id] || '?'}`;
+      }
+      setTandemCranesByGuid(byGuid);
+    } catch (e) {
+      console.error('Error loading tandem lifts:', e);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadTandemLifts();
+  }, [loadTandemLifts]);
+
+  // Sail areas from model bounding boxes for items planned on forecast days
+  useEffect(() => {
+    const guids = [...new Set(scheduleItems
+      .filter(item => windDays.has(item.scheduled_date))
+      .map(item => item.guid_ifc || item.guid)
+      .filter(guid => guid && sailAreaByGuid[guid] === undefined))];
+    if (guids.length === 0) return;
+
+    let cancelled = false;
+    getElementBoundsByGuid(api, guids)
+      .then(bounds => {
+        if (cancelled) return;
+        setSailAreaByGuid(prev => {
+          const next = { ...prev };
+          for (const guid of guids) {
+            const b = bounds.get(guid);
+            // Not in loaded models: check against the crane limit only
+            next[guid] = b ? getSailArea(b.min, b.max) : 0;
+          }
+          return next;
+        });
+      })
+      .catch(e => console.error('Error loading sail areas:', e));
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [api, scheduleItems, windDays]);
+
   // Load comments
   const loadComments = useCallback(async () => {
     try {
@@ -2128,21 +2216,9 @@ export default function InstallationScheduleScreen({ api, projectId, user, tcUse
       setScheduleLocks(data || []);
 
       // Build Sets for fast lookup
-      const daySet = new Set<string>();
-      const monthSet = new Set<string>();
-
-      for (const lock of data || []) {
-        if (lock.lock_type === 'day') {
-          daySet.add(lock.lock_date);
-        } else if (lock.lock_type === 'month') {
-          // Extract YYYY-MM from lock_date
-          const yearMonth = lock.lock_date.substring(0, 7);
-          monthSet.add(yearMonth);
-        }
-      }
-
-      setLockedDays(daySet);
-      setLockedMonths(monthSet);
+      const { days, months } = buildScheduleLockSets(data || []);
+      setLockedDays(days);
+      setLockedMonths(months);
     } catch (e) {
       console.error('Error loading schedule locks:', e);
     }
@@ -2150,14 +2226,7 @@ export default function InstallationScheduleScreen({ api, projectId, user, tcUse
 
   // Check if a date is locked (day or month)
   const isDateLocked = useCallback((dateStr: string): boolean => {
-    // Check if day is locked
-    if (lockedDays.has(dateStr)) return true;
-
-    // Check if month is locked
-    const yearMonth = dateStr.substring(0, 7); // YYYY-MM
-    if (lockedMonths.has(yearMonth)) return true;
-
-    return false;
+    return isScheduleDateLocked({ days: lockedDays, months: lockedMonths }, dateStr);
   }, [lockedDays, lockedMonths]);
 
   // Toggle day lock
@@ -5172,6 +5241,20 @@ export default function InstallationScheduleScreen({ api, projectId, user, tcUse
     return methods[methodKey] || 0;
   };
 
+  // Get wind risk for item - returns risk when the forecast exceeds the permissible wind speed
+  const getWindRisk = (item: ScheduleItem): WindRisk | null => {
+    const day = windDays.get(item.scheduled_date);
+    if (!day) return null;
+
+    const limit = getWindLimitForItem(item, projectCranes);
+    const sailArea = sailAreaByGuid[item.guid_ifc || item.guid];
+    if (limit === null || sailArea === undefined) return null;
+
+    const weight = parseCastUnitWeight(item.cast_unit_weight) || 0;
+    const risk = evaluateWindRisk(day, getAllowedWindSpeed(limit, weight, sailArea), sailArea);
+    return risk.exceeded ? risk : null;
+  };
+
   // Get delivery warning for item - returns warning message if delivery is late or missing
   const getDeliveryWarning = (item: ScheduleItem): string | null => {
     const itemGuid = (item.guid_ms || item.guid || '').toLowerCase();
@@ -6330,6 +6413,42 @@ export default function InstallationScheduleScreen({ api, projectId, user, tcUse
                 <span>{t('menu.resourceStats')}</span>
               </div>
 
+              {/* Plaan vs tegelik */}
+              <div
+                className="dropdown-item"
+                onClick={() => {
+                  setShowHamburgerMenu(false);
+                  setShowVarianceReport(true);
+                }}
+              >
+                <FiAlertTriangle size={14} />
+                <span>{t('menu.scheduleVariance')}</span>
+              </div>
+
+              {/* Tarne vs paigaldus */}
+              <div
+                className="dropdown-item"
+                onClick={() => {
+                  setShowHamburgerMenu(false);
+                  setShowDeliverySequence(true);
+                }}
+              >
+                <FiTruck size={14} />
+                <span>{t('menu.deliverySequence')}</span>
+              </div>
+
+              {/* Tuuleprognoos */}
+              <div
+                className="dropdown-item"
+                onClick={() => {
+                  setShowHamburgerMenu(false);
+                  setShowWindForecast(true);
+                }}
+              >
+                <FiWind size={14} />
+                <span>{t('menu.windForecast')}</span>
+              </div>
+
               {/* Uuenda assembly markid */}
               {scheduleItems.some(i => i.assembly_mark?.startsWith('Object_')) && (
                 <div
@@ -7275,6 +7394,38 @@ export default function InstallationScheduleScreen({ api, projectId, user, tcUse
         </div>
       )}
 
+      {/* Plan vs actual variance report */}
+      {showVarianceReport && (
+        <ScheduleVarianceModal
+          api={api}
+          projectId={projectId}
+          versions={versions}
+          activeVersionId={activeVersionId}
+          onClose={() => setShowVarianceReport(false)}
+        />
+      )}
+
+      {/* Delivery-before-installation check */}
+      {showDeliverySequence && (
+        <DeliverySequenceModal
+          projectId={projectId}
+          userEmail={tcUserEmail}
+          onChanged={() => loadSchedule(activeVersionId)}
+          onClose={() => setShowDeliverySequence(false)}
+        />
+      )}
+
+      {/* Wind forecast entry and CSV import */}
+      {showWindForecast && (
+        <WindForecastModal
+          forecasts={windForecast.forecasts}
+          loading={windForecast.loading}
+          onSavePoints={(points, source) => windForecast.saveForecastPoints(points, source, tcUserEmail)}
+          onDeleteDay={windForecast.deleteForecastDay}
+          onClose={() => setShowWindForecast(false)}
+        />
+      )}
+
       {/* Resources Statistics Overlay */}
       {showResourcesStats && (
         <div className="resources-stats-overlay">
@@ -8257,6 +8408,7 @@ export default function InstallationScheduleScreen({ api, projectId, user, tcUse
                         const isCurrentlyPlaying = isPlaying && allSorted[currentPlayIndex]?.id === item.id;
                         const showDropBefore = dragOverDate === date && dragOverIndex === idx;
                         const showDropAfter = dragOverDate === date && dragOverIndex === idx + 1 && idx === items.length - 1;
+                        const windRisk = getWindRisk(item);
 
                         return (
                           <div key={item.id} className="schedule-item-wrapper">
@@ -8264,7 +8416,7 @@ export default function InstallationScheduleScreen({ api, projectId, user, tcUse
                             <div
                               ref={isCurrentlyPlaying ? playingItemRef : null}
                               data-item-id={item.id}
-                              className={`schedule-item ${isCurrentlyPlaying ? 'playing' : ''} ${!isPlaying && activeItemId === item.id ? 'active' : ''} ${!isPlaying && isItemSelected ? 'multi-selected' : ''} ${!isPlaying && isModelSelected ? 'model-selected' : ''} ${isDragging && draggedItems.some(d => d.id === item.id) ? 'dragging' : ''} ${itemMenuId === item.id ? 'menu-open' : ''}`}
+                              className={`schedule-item ${isCurrentlyPlaying ? 'playing' : ''} ${!isPlaying && activeItemId === item.id ? 'active' : ''} ${!isPlaying && isItemSelected ? 'multi-selected' : ''} ${!isPlaying && isModelSelected ? 'model-selected' : ''} ${isDragging && draggedItems.some(d => d.id === item.id) ? 'dragging' : ''} ${itemMenuId === item.id ? 'menu-open' : ''} ${windRisk ? 'wind-risk' : ''}`}
                               draggable
                               onDragStart={(e) => handleDragStart(e, item)}
                               onDragEnd={handleDragEnd}
@@ -8281,6 +8433,14 @@ export default function InstallationScheduleScreen({ api, projectId, user, tcUse
                             <div className="item-content">
                               <div className="item-main-row">
                                 <span className="item-mark">{item.assembly_mark}</span>
+                                {tandemCranesByGuid[item.guid_ifc || item.guid] && (
+                                  <span
+                                    className="item-tandem-badge"
+                                    title={t('ui.tandemLift', { cranes: tandemCranesByGuid[item.guid_ifc || item.guid] })}
+                                  >
+                                    <FiShare2 size={9} />
+                                  </span>
+                                )}
                                 {(() => {
                                   const weight = formatWeight(item.cast_unit_weight);
                                   if (!weight) return null;
@@ -8307,6 +8467,15 @@ export default function InstallationScheduleScreen({ api, projectId, user, tcUse
                                 </div>
                               );
                             })()}
+                            {/* Wind limit warning icon */}
+                            {windRisk && (
+                              <div
+                                className="wind-warning-icon"
+                                title={t('wind.itemWarning', { forecast: windRisk.forecastMs, allowed: windRisk.allowedMs, area: windRisk.sailAreaM2 })}
+                              >
+                                <FiWind size={14} />
+                              </div>
+                            )}
                             {/* Display all install methods with badges */}
                             {(() => {
                               // Get methods - support both legacy and new format
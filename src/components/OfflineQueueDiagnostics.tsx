@@ -0,0 +1,245 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FiDownload, FiRefreshCw, FiTrash2 } from 'react-icons/fi';
+import {
+  getQueueDiagnostics,
+  getQueueItemBlob,
+  retryQueueItem,
+  discardQueueItem,
+  QueueDiagnosticsItem,
+  MAX_UPLOAD_ATTEMPTS,
+} from '../utils/offlineQueue';
+import { formatBytes } from '../utils/imageUtils';
+
+export interface OfflineQueueDiagnosticsProps {
+  onChanged?: () => void;
+  onClose: () => void;
+}
+
+const formatDate = (time?: number) => {
+  if (!time) return '';
+  return new Date(time).toLocaleString('et-EE', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+/**
+ * Upload queue diagnostics - queued and dead-letter items with size, type
+ * and last error; lets the user retry, download the content or discard
+ */
+export const OfflineQueueDiagnostics: React.FC<OfflineQueueDiagnosticsProps> = ({
+  onChanged,
+  onClose
+}) => {
+  const { t } = useTranslation('common');
+  const [items, setItems] = useState<QueueDiagnosticsItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setItems(await getQueueDiagnostics());
+    } catch (err) {
+      console.error('Error loading upload queue:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Run an item action, then reload the list
+  const runAction = async (item: QueueDiagnosticsItem, action: () => Promise<void>) => {
+    setBusyId(item.id);
+    setError(null);
+    try {
+      await action();
+      await load();
+      onChanged?.();
+    } catch (err) {
+      console.error('Upload queue action failed:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDownload = (item: QueueDiagnosticsItem) => runAction(item, async () => {
+    const content = await getQueueItemBlob(item.id, item.status);
+    if (!content) return;
+    const url = URL.createObjectURL(content.blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = content.fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  });
+
+  const handleDiscard = (item: QueueDiagnosticsItem) => {
+    if (!confirm(t('offlineQueue.discardConfirm'))) return;
+    runAction(item, () => discardQueueItem(item.id, item.status));
+  };
+
+  const deadCount = items.filter(i => i.status === 'dead').length;
+  const iconButton: React.CSSProperties = {
+    padding: '4px 6px',
+    border: '1px solid #D1D5DB',
+    borderRadius: '4px',
+    backgroundColor: 'white',
+    cursor: 'pointer',
+    display: 'inline-flex',
+    alignItems: 'center'
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          maxWidth: '640px',
+          width: '95%',
+          maxHeight: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          overflow: 'hidden'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: '16px',
+            borderBottom: '1px solid #E5E7EB',
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center'
+          }}
+        >
+          <div>
+            <h3 style={{ margin: 0, color: '#111827' }}>{t('offlineQueue.title')}</h3>
+            <div style={{ fontSize: '12px', color: '#6B7280', marginTop: '2px' }}>
+              {t('offlineQueue.summary', { queued: items.length - deadCount, dead: deadCount })}
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button onClick={load} style={iconButton} title={t('offlineQueue.refresh')}>
+              <FiRefreshCw size={14} />
+            </button>
+            <button
+              onClick={onClose}
+              style={{ padding: '4px 8px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', fontSize: '18px', color: '#6B7280' }}
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div style={{ padding: '16px', overflowY: 'auto' }}>
+          {error && (
+            <div style={{ padding: '8px', backgroundColor: '#FEE2E2', color: '#991B1B', borderRadius: '4px', fontSize: '12px', marginBottom: '8px' }}>
+              {error}
+            </div>
+          )}
+
+          {loading && items.length === 0 && (
+            <div style={{ textAlign: 'center', color: '#6B7280', fontSize: '13px' }}>{t('offlineQueue.loading')}</div>
+          )}
+
+          {!loading && items.length === 0 && (
+            <div style={{ textAlign: 'center', color: '#6B7280', fontSize: '13px' }}>{t('offlineQueue.empty')}</div>
+          )}
+
+          {items.map(item => {
+            const isDead = item.status === 'dead';
+            const busy = busyId === item.id;
+
+            return (
+              <div
+                key={item.id}
+                style={{
+                  padding: '8px',
+                  marginBottom: '8px',
+                  borderRadius: '6px',
+                  border: `1px solid ${isDead ? '#FCA5A5' : '#E5E7EB'}`,
+                  backgroundColor: isDead ? '#FEF2F2' : '#F9FAFB'
+                }}
+              >
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                  <span
+                    style={{
+                      fontSize: '10px',
+                      fontWeight: 600,
+                      padding: '2px 6px',
+                      borderRadius: '10px',
+                      color: 'white',
+                      backgroundColor: isDead ? '#DC2626' : '#2563EB'
+                    }}
+                  >
+                    {isDead ? t('offlineQueue.statusDead') : t('offlineQueue.statusQueued')}
+                  </span>
+                  <span style={{ fontSize: '13px', fontWeight: 500 }}>
+                    {t(`offlineQueue.types.${item.type}`, { defaultValue: item.type })}
+                  </span>
+                  <span style={{ fontSize: '12px', color: '#6B7280' }}>{formatBytes(item.sizeBytes)}</span>
+                  <span style={{ flex: 1 }} />
+                  <button style={iconButton} disabled={busy} onClick={() => runAction(item, () => retryQueueItem(item.id, item.status))} title={t('offlineQueue.retry')}>
+                    <FiRefreshCw size={12} />
+                  </button>
+                  <button style={iconButton} disabled={busy} onClick={() => handleDownload(item)} title={t('offlineQueue.download')}>
+                    <FiDownload size={12} />
+                  </button>
+                  <button style={{ ...iconButton, color: '#DC2626' }} disabled={busy} onClick={() => handleDiscard(item)} title={t('offlineQueue.discard')}>
+                    <FiTrash2 size={12} />
+                  </button>
+                </div>
+
+                {item.fileName && (
+                  <div style={{ fontSize: '11px', color: '#6B7280', marginTop: '4px', wordBreak: 'break-all' }}>{item.fileName}</div>
+                )}
+
+                <div style={{ fontSize: '11px', color: '#6B7280', marginTop: '4px' }}>
+                  {t('offlineQueue.created', { date: formatDate(item.createdAt) })}
+                  {' • '}{t('offlineQueue.attempts', { count: item.retryCount, max: MAX_UPLOAD_ATTEMPTS })}
+                  {item.nextAttemptAt && <> • {t('offlineQueue.nextAttempt', { date: formatDate(item.nextAttemptAt) })}</>}
+                  {item.deadAt && <> • {t('offlineQueue.deadAt', { date: formatDate(item.deadAt) })}</>}
+                </div>
+
+                {item.lastError && (
+                  <div style={{ fontSize: '12px', color: '#991B1B', marginTop: '4px', wordBreak: 'break-word' }}>
+                    {item.lastError}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OfflineQueueDiagnostics;
@@ -0,0 +1,268 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FiAlertTriangle, FiCloud, FiCloudOff, FiGitMerge } from 'react-icons/fi';
+import { supabase, InspectionResult, InspectionResultConflict, ResultConflictResolution } from '../supabase';
+import { mergeConflictComments, ResultConflictValues } from '../utils/resultConflicts';
+
+export interface SyncConflictDialogProps {
+  conflicts: InspectionResultConflict[];
+  onResolve: (
+    conflict: InspectionResultConflict,
+    resolution: ResultConflictResolution,
+    merged?: Partial<ResultConflictValues>
+  ) => Promise<boolean>;
+  error?: string | null;
+  onClose: () => void;
+}
+
+// Merge editor state for one conflict
+interface MergeDraft {
+  source: 'server' | 'local';
+  comment: string;
+}
+
+const formatDate = (dateStr?: string) => {
+  if (!dateStr) return '';
+  return new Date(dateStr).toLocaleString('et-EE', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+/**
+ * Moderator dialog for offline results that conflicted with a newer server answer
+ */
+export const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({
+  conflicts,
+  onResolve,
+  error,
+  onClose
+}) => {
+  const { t } = useTranslation('inspection');
+  const [checkpointNames, setCheckpointNames] = useState<Record<string, string>>({});
+  const [mergeDrafts, setMergeDrafts] = useState<Record<string, MergeDraft>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  // Checkpoint names for display
+  useEffect(() => {
+    const ids = [...new Set(conflicts.map(c => c.checkpoint_id))].filter(id => !checkpointNames[id]);
+    if (ids.length === 0) return;
+
+    supabase
+      .from('inspection_checkpoints')
+      .select('id, name')
+      .in('id', ids)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading checkpoint names:', error);
+          return;
+        }
+        setCheckpointNames(prev => ({
+          ...prev,
+          ...Object.fromEntries((data || []).map(cp => [cp.id, cp.name]))
+        }));
+      });
+  }, [conflicts]);
+
+  const startMerge = (conflict: InspectionResultConflict) => {
+    setMergeDrafts(prev => ({
+      ...prev,
+      [conflict.id]: {
+        source: 'server',
+        comment: mergeConflictComments(conflict.server_result, conflict.local_result)
+      }
+    }));
+  };
+
+  const handleResolve = async (
+    conflict: InspectionResultConflict,
+    resolution: ResultConflictResolution
+  ) => {
+    setResolvingId(conflict.id);
+    let merged: Partial<ResultConflictValues> | undefined;
+
+    if (resolution === 'merged') {
+      const draft = mergeDrafts[conflict.id];
+      const answer = draft.source === 'server' ? conflict.server_result : conflict.local_result;
+      merged = {
+        response_value: answer.response_value,
+        response_label: answer.response_label,
+        comment: draft.comment.trim() || undefined
+      };
+    }
+
+    await onResolve(conflict, resolution, merged);
+    setResolvingId(null);
+  };
+
+  const renderVersion = (result: InspectionResult, title: string, icon: React.ReactNode) => (
+    <div style={{ flex: 1, minWidth: 0, padding: '8px', border: '1px solid #E5E7EB', borderRadius: '6px', backgroundColor: '#F9FAFB' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '11px', color: '#6B7280', marginBottom: '4px' }}>
+        {icon} {title}
+      </div>
+      <div style={{ fontWeight: 600, fontSize: '13px', color: '#111827' }}>
+        {result.response_label || result.response_value}
+      </div>
+      {result.comment && (
+        <div style={{ fontSize: '12px', color: '#374151', marginTop: '4px', whiteSpace: 'pre-wrap' }}>
+          {result.comment}
+        </div>
+      )}
+      <div style={{ fontSize: '11px', color: '#6B7280', marginTop: '6px' }}>
+        {result.inspector_name || result.user_email} • {formatDate(result.inspected_at)}
+      </div>
+    </div>
+  );
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '6px 10px',
+    border: '1px solid #D1D5DB',
+    borderRadius: '4px',
+    backgroundColor: 'white',
+    cursor: 'pointer',
+    fontSize: '12px'
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          maxWidth: '640px',
+          width: '95%',
+          maxHeight: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          overflow: 'hidden'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: '16px',
+            borderBottom: '1px solid #E5E7EB',
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center'
+          }}
+        >
+          <h3 style={{ margin: 0, color: '#111827', display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <FiAlertTriangle color="#D97706" /> {t('syncConflicts.title', { count: conflicts.length })}
+          </h3>
+          <button
+            onClick={onClose}
+            style={{ padding: '4px 8px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', fontSize: '18px', color: '#6B7280' }}
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Content */}
+        <div style={{ padding: '16px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          {error && (
+            <div style={{ padding: '8px', backgroundColor: '#FEE2E2', color: '#991B1B', borderRadius: '4px', fontSize: '12px' }}>
+              {error}
+            </div>
+          )}
+
+          {conflicts.length === 0 && (
+            <div style={{ textAlign: 'center', color: '#6B7280', fontSize: '13px' }}>
+              {t('syncConflicts.none')}
+            </div>
+          )}
+
+          {conflicts.map(conflict => {
+            const draft = mergeDrafts[conflict.id];
+            const resolving = resolvingId === conflict.id;
+
+            return (
+              <div key={conflict.id} style={{ borderBottom: '1px solid #F3F4F6', paddingBottom: '16px' }}>
+                <div style={{ fontWeight: 600, fontSize: '13px', marginBottom: '2px' }}>
+                  {conflict.assembly_name || conflict.assembly_guid}
+                </div>
+                <div style={{ fontSize: '12px', color: '#6B7280', marginBottom: '8px' }}>
+                  {checkpointNames[conflict.checkpoint_id] || conflict.checkpoint_id}
+                  {' • '}{t('syncConflicts.detectedAt', { date: formatDate(conflict.detected_at) })}
+                </div>
+
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  {renderVersion(conflict.server_result, t('syncConflicts.serverVersion'), <FiCloud size={12} />)}
+                  {renderVersion(conflict.local_result, t('syncConflicts.offlineVersion'), <FiCloudOff size={12} />)}
+                </div>
+
+                {draft && (
+                  <div style={{ marginTop: '8px', padding: '8px', border: '1px dashed #93C5FD', borderRadius: '6px' }}>
+                    <div style={{ fontSize: '12px', fontWeight: 500, marginBottom: '4px' }}>{t('syncConflicts.mergeResponse')}</div>
+                    {(['server', 'local'] as const).map(source => {
+                      const result = source === 'server' ? conflict.server_result : conflict.local_result;
+                      return (
+                        <label key={source} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px' }}>
+                          <input
+                            type="radio"
+                            checked={draft.source === source}
+                            onChange={() => setMergeDrafts(prev => ({ ...prev, [conflict.id]: { ...draft, source } }))}
+                          />
+                          {result.response_label || result.response_value} ({result.inspector_name})
+                        </label>
+                      );
+                    })}
+                    <div style={{ fontSize: '12px', fontWeight: 500, margin: '8px 0 4px' }}>{t('syncConflicts.mergeComment')}</div>
+                    <textarea
+                      value={draft.comment}
+                      onChange={(e) => setMergeDrafts(prev => ({ ...prev, [conflict.id]: { ...draft, comment: e.target.value } }))}
+                      rows={3}
+                      style={{ width: '100%', boxSizing: 'border-box', fontSize: '12px', padding: '6px', border: '1px solid #D1D5DB', borderRadius: '4px' }}
+                    />
+                  </div>
+                )}
+
+                <div style={{ display: 'flex', gap: '8px', marginTop: '8px', flexWrap: 'wrap' }}>
+                  <button style={buttonStyle} disabled={resolving} onClick={() => handleResolve(conflict, 'keep_server')}>
+                    {t('syncConflicts.keepServer')}
+                  </button>
+                  <button style={buttonStyle} disabled={resolving} onClick={() => handleResolve(conflict, 'keep_local')}>
+                    {t('syncConflicts.keepOffline')}
+                  </button>
+                  {draft ? (
+                    <button
+                      style={{ ...buttonStyle, backgroundColor: '#2563EB', borderColor: '#2563EB', color: 'white' }}
+                      disabled={resolving}
+                      onClick={() => handleResolve(conflict, 'merged')}
+                    >
+                      <FiGitMerge size={12} /> {t('syncConflicts.saveMerge')}
+                    </button>
+                  ) : (
+                    <button style={buttonStyle} disabled={resolving} onClick={() => startMerge(conflict)}>
+                      <FiGitMerge size={12} /> {t('syncConflicts.merge')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictDialog;
@@ -2,6 +2,8 @@ import { useState, useCallback, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { FiX, FiTarget, FiMapPin, FiCheck, FiAlertCircle } from 'react-icons/fi';
 import { NewCalibrationPoint } from '../../hooks/useCalibrationPoints';
+import { useCoordinateSettings } from '../../hooks/useCoordinateSettings';
+import { modelToGps, gpsDistanceMeters } from '../../utils/coordinateTransform';
 import GpsFixerPopup from './GpsFixerPopup';
 
 interface ModelPoint {
@@ -21,15 +23,19 @@ interface AddCalibrationPointModalProps {
   onAdd: (point: NewCalibrationPoint, userName?: string) => Promise<boolean>;
   onClose: () => void;
   userName?: string;
+  projectId: string;
 }
 
 export function AddCalibrationPointModal({
   api,
   onAdd,
   onClose,
-  userName
+  userName,
+  projectId
 }: AddCalibrationPointModalProps) {
   const { t } = useTranslation('admin');
+  // Current calibration, to check the fixed GPS point against it
+  const { settings } = useCoordinateSettings(projectId);
 
   // State
   const [step, setStep] = useState<1 | 2 | 3>(1);
@@ -44,6 +50,17 @@ export function AddCalibrationPointModal({
 
   const pickingUnsubscribeRef = useRef<(() => void) | null>(null);
 
+  // Distance between fixed GPS and where the current calibration puts the model point
+  const calibrationDeviation = (() => {
+    if (!settings || !modelPoint || !gpsPoint) return null;
+    try {
+      return gpsDistanceMeters(modelToGps(modelPoint.x, modelPoint.y, modelPoint.z, settings), gpsPoint);
+    } catch {
+      // Not calibrated yet
+      return null;
+    }
+  })();
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -523,6 +540,14 @@ export function AddCalibrationPointModal({
                     {gpsPoint?.lat.toFixed(6)}, {gpsPoint?.lng.toFixed(6)}
                   </span>
                 </div>
+                {calibrationDeviation !== null && (
+                  <div style={{
+                    marginTop: '8px',
+                    color: calibrationDeviation < 1 ? '#166534' : calibrationDeviation < 3 ? '#92400e' : '#dc2626'
+                  }}>
+                    {t('coordinateSettings.addPoint.step3.deviation', { distance: calibrationDeviation.toFixed(2) })}
+                  </div>
+                )}
               </div>
 
               {/* Name input */}
@@ -1,17 +1,28 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { FiGlobe, FiMapPin, FiPlus, FiTrash2, FiRefreshCw, FiCheck, FiX, FiTarget } from 'react-icons/fi';
+import { FiGlobe, FiMapPin, FiPlus, FiTrash2, FiRefreshCw, FiCheck, FiX, FiTarget, FiAlertTriangle, FiDownload } from 'react-icons/fi';
 import {
   TrimbleExUser,
   COORDINATE_SYSTEMS,
   COUNTRY_FLAGS,
   CALIBRATION_QUALITY_BADGES,
   ModelUnits,
+  TransformType,
 } from '../../supabase';
 import { useCoordinateSettings } from '../../hooks/useCoordinateSettings';
 import { useCalibrationPoints } from '../../hooks/useCalibrationPoints';
+import { useGeoExport } from '../../hooks/useGeoExport';
+import { GeoExportFormat, GeoExportOptions } from '../../utils/geoExport';
+import {
+  performCalibration,
+  getModelUnitsToMeters,
+  MIN_CALIBRATION_POINTS,
+  CalibrationResult,
+} from '../../utils/coordinateTransform';
 import AddCalibrationPointModal from './AddCalibrationPointModal';
 
+const TRANSFORM_TYPES: TransformType[] = ['helmert_2d', 'affine_2d', 'affine_3d'];
+
 // Get unique countries from coordinate systems
 const COUNTRIES = Array.from(
   new Map(
@@ -30,10 +41,36 @@ interface CoordinateSettingsPanelProps {
 export function CoordinateSettingsPanel({ api, projectId, user }: CoordinateSettingsPanelProps) {
   const { t } = useTranslation('admin');
   const { settings, loading: settingsLoading, updateSettings, saveCalibration } = useCoordinateSettings(projectId);
-  const { points, loading: pointsLoading, addPoint, removePoint, recalibrate } = useCalibrationPoints(projectId);
+  const { points, loading: pointsLoading, addPoint, removePoint, updatePoint, togglePointActive, recalibrate } = useCalibrationPoints(projectId);
 
   const [showAddModal, setShowAddModal] = useState(false);
   const [recalibrating, setRecalibrating] = useState(false);
+  const [selectedTransformType, setSelectedTransformType] = useState<TransformType | null>(null);
+  const { exporting, error: exportError, exportGeo } = useGeoExport(api, projectId, settings);
+  const [exportLayers, setExportLayers] = useState({ elements: true, cranes: true, calibrationPoints: true });
+  const [elementGeometry, setElementGeometry] = useState<GeoExportOptions['elementGeometry']>('footprint');
+  const [includeRadiusRings, setIncludeRadiusRings] = useState(true);
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+
+  const transformType = selectedTransformType ?? settings?.transform_type ?? 'helmert_2d';
+  const minPoints = MIN_CALIBRATION_POINTS[transformType];
+
+  // Live residuals for the current point selection (not saved until recalculated)
+  const preview = useMemo((): { result: CalibrationResult | null; error: string | null } => {
+    const cs = settings ? COORDINATE_SYSTEMS.find(c => c.id === settings.coordinate_system_id) : undefined;
+    if (!settings || !cs?.epsg_code || points.filter(p => p.is_active).length < minPoints) {
+      return { result: null, error: null };
+    }
+    try {
+      const result = performCalibration(points, cs.epsg_code, getModelUnitsToMeters(settings.model_units), transformType);
+      return { result, error: null };
+    } catch (err) {
+      return { result: null, error: err instanceof Error ? err.message : 'Unknown error' };
+    }
+  }, [points, settings, transformType, minPoints]);
+
+  const residualsById = new Map((preview.result?.residuals || []).map(r => [r.pointId, r]));
+  const outlierIds = (preview.result?.residuals || []).filter(r => r.isActive && r.isOutlier).map(r => r.pointId);
 
   // Check permissions
   const canManageCoordinateSystem = user.can_manage_coordinate_system || user.role === 'admin';
@@ -90,7 +127,7 @@ export function CoordinateSettingsPanel({ api, projectId, user }: CoordinateSett
 
     setRecalibrating(true);
     try {
-      const result = await recalibrate(settings.coordinate_system_id, settings.model_units);
+      const result = await recalibrate(settings.coordinate_system_id, settings.model_units, transformType);
       if (result) {
         await saveCalibration(
           result.params,
@@ -115,12 +152,41 @@ export function CoordinateSettingsPanel({ api, projectId, user }: CoordinateSett
       setShowAddModal(false);
       // Auto-recalibrate if we have enough points
       const activeCount = points.filter(p => p.is_active).length + 1;
-      if (activeCount >= 2 && settings) {
+      if (activeCount >= minPoints && settings) {
         setTimeout(() => handleRecalibrate(), 500);
       }
     }
     return success;
-  }, [addPoint, points, settings]);
+  }, [addPoint, points, settings, minPoints]);
+
+  // Disable all flagged outliers - user recalculates after reviewing the new residuals
+  const handleDisableOutliers = async () => {
+    for (const id of outlierIds) {
+      await updatePoint(id, { is_active: false });
+    }
+  };
+
+  // GIS export (QGIS / Google Earth)
+  const handleGeoExport = async (format: GeoExportFormat) => {
+    setExportMessage(null);
+    const count = await exportGeo({
+      format,
+      includeElements: exportLayers.elements,
+      includeCranes: exportLayers.cranes,
+      includeCalibrationPoints: exportLayers.calibrationPoints,
+      elementGeometry,
+      includeRadiusRings,
+      folderNames: {
+        element: t('coordinateSettings.export.layers.elements'),
+        crane: t('coordinateSettings.export.layers.cranes'),
+        crane_radius: t('coordinateSettings.export.layers.radiusRings'),
+        calibration_point: t('coordinateSettings.export.layers.calibrationPoints')
+      }
+    }, points);
+    if (count !== null) {
+      setExportMessage(t('coordinateSettings.export.exported', { count }));
+    }
+  };
 
   // Handle point removal
   const handleRemovePoint = async (id: string) => {
@@ -331,7 +397,7 @@ export function CoordinateSettingsPanel({ api, projectId, user }: CoordinateSett
           </div>
           <div>
             <span style={{ color: '#64748b' }}>{t('coordinateSettings.calibration.minRequired', 'Vajalik miinimum')}:</span>
-            <span style={{ marginLeft: '6px', fontWeight: 500 }}>2</span>
+            <span style={{ marginLeft: '6px', fontWeight: 500 }}>{minPoints}</span>
           </div>
         </div>
 
@@ -368,7 +434,7 @@ export function CoordinateSettingsPanel({ api, projectId, user }: CoordinateSett
                 <span style={{ color: '#64748b' }}>{t('coordinateSettings.calibration.maxError', 'Max viga')}:</span>
                 <span style={{ marginLeft: '4px', fontWeight: 500 }}>{settings.calibration_max_error_m?.toFixed(2)} m</span>
               </div>
-              {settings.transform_matrix && (
+              {settings.transform_matrix?.type === 'helmert_2d' && (
                 <>
                   <div>
                     <span style={{ color: '#64748b' }}>{t('coordinateSettings.calibration.rotation', 'Pööre')}:</span>
@@ -425,6 +491,75 @@ export function CoordinateSettingsPanel({ api, projectId, user }: CoordinateSett
             </button>
           </div>
 
+          {/* Transformation type */}
+          <div style={{ marginBottom: '10px' }}>
+            <label style={{ display: 'block', fontSize: '11px', color: '#64748b', marginBottom: '4px' }}>
+              {t('coordinateSettings.transform.label', 'Transformatsioon')}
+            </label>
+            <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
+              {TRANSFORM_TYPES.map(type => (
+                <button
+                  key={type}
+                  onClick={() => setSelectedTransformType(type)}
+                  title={t(`coordinateSettings.transform.${type}Hint`)}
+                  style={{
+                    padding: '6px 10px',
+                    borderRadius: '6px',
+                    border: transformType === type ? '2px solid #2563eb' : '1px solid #e2e8f0',
+                    background: transformType === type ? '#eff6ff' : 'white',
+                    cursor: 'pointer',
+                    fontSize: '12px'
+                  }}
+                >
+                  {t(`coordinateSettings.transform.${type}`)} ({MIN_CALIBRATION_POINTS[type]}+)
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Outlier warning */}
+          {outlierIds.length > 0 && (
+            <div style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              gap: '8px',
+              marginBottom: '10px',
+              padding: '8px',
+              background: '#fef2f2',
+              border: '1px solid #fecaca',
+              borderRadius: '6px',
+              fontSize: '11px',
+              color: '#991b1b'
+            }}>
+              <span style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <FiAlertTriangle size={14} />
+                {t('coordinateSettings.residuals.outliersFound', { count: outlierIds.length })}
+              </span>
+              <button
+                onClick={handleDisableOutliers}
+                style={{
+                  padding: '4px 8px',
+                  borderRadius: '4px',
+                  background: '#dc2626',
+                  color: 'white',
+                  border: 'none',
+                  fontSize: '11px',
+                  cursor: 'pointer',
+                  whiteSpace: 'nowrap'
+                }}
+              >
+                {t('coordinateSettings.residuals.disableOutliers')}
+              </button>
+            </div>
+          )}
+
+          {preview.error && (
+            <div style={{ marginBottom: '10px', padding: '8px', background: '#fffbeb', borderRadius: '6px', fontSize: '11px', color: '#92400e' }}>
+              {preview.error}
+            </div>
+          )}
+
           {/* Points Table */}
           {points.length === 0 ? (
             <div style={{
@@ -443,24 +578,40 @@ export function CoordinateSettingsPanel({ api, projectId, user }: CoordinateSett
               <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '11px' }}>
                 <thead>
                   <tr style={{ background: '#f8fafc' }}>
+                    <th style={{ padding: '8px 6px', textAlign: 'center', fontWeight: 600, borderBottom: '1px solid #e2e8f0' }} title={t('coordinateSettings.residuals.activeHint')}>
+                      {t('coordinateSettings.residuals.active')}
+                    </th>
                     <th style={{ padding: '8px 6px', textAlign: 'left', fontWeight: 600, borderBottom: '1px solid #e2e8f0' }}>#</th>
                     <th style={{ padding: '8px 6px', textAlign: 'left', fontWeight: 600, borderBottom: '1px solid #e2e8f0' }}>{t('coordinateSettings.points.name', 'Nimi')}</th>
                     <th style={{ padding: '8px 6px', textAlign: 'left', fontWeight: 600, borderBottom: '1px solid #e2e8f0' }}>{t('coordinateSettings.points.modelCoords', 'Mudel (X, Y)')}</th>
                     <th style={{ padding: '8px 6px', textAlign: 'left', fontWeight: 600, borderBottom: '1px solid #e2e8f0' }}>{t('coordinateSettings.points.gpsCoords', 'GPS')}</th>
                     <th style={{ padding: '8px 6px', textAlign: 'center', fontWeight: 600, borderBottom: '1px solid #e2e8f0' }}>{t('coordinateSettings.points.error', 'Viga')}</th>
+                    <th style={{ padding: '8px 6px', textAlign: 'center', fontWeight: 600, borderBottom: '1px solid #e2e8f0' }} title={t('coordinateSettings.residuals.looHint')}>
+                      {t('coordinateSettings.residuals.loo')}
+                    </th>
                     <th style={{ padding: '8px 6px', textAlign: 'center', fontWeight: 600, borderBottom: '1px solid #e2e8f0' }}></th>
                   </tr>
                 </thead>
                 <tbody>
-                  {points.map((point, index) => (
+                  {points.map((point, index) => {
+                    const residual = residualsById.get(point.id);
+                    const error = residual?.error ?? point.calculated_error_m;
+                    return (
                     <tr
                       key={point.id}
                       style={{
                         borderBottom: '1px solid #f1f5f9',
                         opacity: point.is_active ? 1 : 0.5,
-                        background: point.is_active ? 'white' : '#f8fafc'
+                        background: residual?.isActive && residual.isOutlier ? '#fef2f2' : point.is_active ? 'white' : '#f8fafc'
                       }}
                     >
+                      <td style={{ padding: '8px 6px', textAlign: 'center' }}>
+                        <input
+                          type="checkbox"
+                          checked={point.is_active}
+                          onChange={() => togglePointActive(point.id)}
+                        />
+                      </td>
                       <td style={{ padding: '8px 6px' }}>{index + 1}</td>
                       <td style={{ padding: '8px 6px', maxWidth: '100px', overflow: 'hidden', textOverflow: 'ellipsis' }}>
                         {point.name || point.reference_assembly_mark || '-'}
@@ -472,14 +623,35 @@ export function CoordinateSettingsPanel({ api, projectId, user }: CoordinateSett
                         {point.gps_latitude.toFixed(5)}, {point.gps_longitude.toFixed(5)}
                       </td>
                       <td style={{ padding: '8px 6px', textAlign: 'center' }}>
-                        {point.calculated_error_m !== undefined ? (
+                        {error !== undefined && error !== null ? (
                           <span style={{
                             padding: '2px 6px',
                             borderRadius: '8px',
-                            background: point.calculated_error_m < 1 ? '#dcfce7' : point.calculated_error_m < 3 ? '#fef3c7' : '#fee2e2',
+                            background: error < 1 ? '#dcfce7' : error < 3 ? '#fef3c7' : '#fee2e2',
                             fontSize: '10px'
                           }}>
-                            {point.calculated_error_m.toFixed(2)}m
+                            {error.toFixed(2)}m
+                          </span>
+                        ) : '-'}
+                      </td>
+                      <td style={{ padding: '8px 6px', textAlign: 'center' }}>
+                        {residual?.looError !== undefined && residual.looError !== null ? (
+                          <span
+                            title={residual.isOutlier ? t('coordinateSettings.residuals.outlier') : undefined}
+                            style={{
+                              display: 'inline-flex',
+                              alignItems: 'center',
+                              gap: '3px',
+                              padding: '2px 6px',
+                              borderRadius: '8px',
+                              background: CALIBRATION_QUALITY_BADGES[residual.quality].bgColor,
+                              color: CALIBRATION_QUALITY_BADGES[residual.quality].color,
+                              fontWeight: residual.isOutlier ? 600 : 400,
+                              fontSize: '10px'
+                            }}
+                          >
+                            {residual.isOutlier && <FiAlertTriangle size={10} />}
+                            {residual.looError.toFixed(2)}m
                           </span>
                         ) : '-'}
                       </td>
@@ -499,14 +671,24 @@ export function CoordinateSettingsPanel({ api, projectId, user }: CoordinateSett
                         </button>
                       </td>
                     </tr>
-                  ))}
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
           )}
 
           {/* Recalibrate button */}
-          {activePointsCount >= 2 && (
+          {preview.result && (
+            <div style={{ marginTop: '8px', fontSize: '11px', color: '#475569' }}>
+              {t('coordinateSettings.residuals.previewSummary', {
+                rmse: preview.result.quality.rmse.toFixed(2),
+                maxError: preview.result.quality.maxError.toFixed(2)
+              })}
+            </div>
+          )}
+
+          {activePointsCount >= minPoints && (
             <button
               onClick={handleRecalibrate}
               disabled={recalibrating}
@@ -552,6 +734,106 @@ export function CoordinateSettingsPanel({ api, projectId, user }: CoordinateSett
         </div>
       )}
 
+      {/* GIS Export Section */}
+      {(settings.calibration_status === 'calibrated' || settings.model_has_real_coordinates) && (
+        <div style={{
+          background: '#f8fafc',
+          border: '1px solid #e2e8f0',
+          borderRadius: '8px',
+          padding: '12px',
+          marginTop: '12px'
+        }}>
+          <div style={{ fontSize: '12px', fontWeight: 600, color: '#475569', marginBottom: '4px' }}>
+            <FiDownload style={{ marginRight: '6px' }} />
+            {t('coordinateSettings.export.title')}
+          </div>
+          <div style={{ fontSize: '11px', color: '#64748b', marginBottom: '10px' }}>
+            {t('coordinateSettings.export.hint')}
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', fontSize: '12px', marginBottom: '10px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={exportLayers.elements}
+                onChange={e => setExportLayers(prev => ({ ...prev, elements: e.target.checked }))}
+              />
+              {t('coordinateSettings.export.layers.elements')}
+              <select
+                value={elementGeometry}
+                onChange={e => setElementGeometry(e.target.value as GeoExportOptions['elementGeometry'])}
+                disabled={!exportLayers.elements}
+                style={{ marginLeft: 'auto', padding: '2px 6px', fontSize: '11px', borderRadius: '4px', border: '1px solid #e2e8f0' }}
+              >
+                <option value="footprint">{t('coordinateSettings.export.footprint')}</option>
+                <option value="centroid">{t('coordinateSettings.export.centroid')}</option>
+              </select>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={exportLayers.cranes}
+                onChange={e => setExportLayers(prev => ({ ...prev, cranes: e.target.checked }))}
+              />
+              {t('coordinateSettings.export.layers.cranes')}
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer', paddingLeft: '20px' }}>
+              <input
+                type="checkbox"
+                checked={includeRadiusRings}
+                onChange={e => setIncludeRadiusRings(e.target.checked)}
+                disabled={!exportLayers.cranes}
+              />
+              {t('coordinateSettings.export.layers.radiusRings')}
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={exportLayers.calibrationPoints}
+                onChange={e => setExportLayers(prev => ({ ...prev, calibrationPoints: e.target.checked }))}
+              />
+              {t('coordinateSettings.export.layers.calibrationPoints')}
+            </label>
+          </div>
+
+          <div style={{ display: 'flex', gap: '8px' }}>
+            {(['geojson', 'kml'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => handleGeoExport(format)}
+                disabled={exporting || (!exportLayers.elements && !exportLayers.cranes && !exportLayers.calibrationPoints)}
+                style={{
+                  flex: 1,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  gap: '6px',
+                  padding: '8px',
+                  borderRadius: '6px',
+                  background: exporting ? '#94a3b8' : '#2563eb',
+                  color: 'white',
+                  border: 'none',
+                  fontSize: '12px',
+                  cursor: exporting ? 'not-allowed' : 'pointer'
+                }}
+              >
+                {exporting ? <FiRefreshCw size={12} className="spin" /> : <FiDownload size={12} />}
+                {t(format === 'geojson' ? 'coordinateSettings.export.geojson' : 'coordinateSettings.export.kml')}
+              </button>
+            ))}
+          </div>
+
+          {exportMessage && !exportError && (
+            <div style={{ marginTop: '8px', fontSize: '11px', color: '#166534' }}>{exportMessage}</div>
+          )}
+          {exportError && (
+            <div style={{ marginTop: '8px', fontSize: '11px', color: '#991b1b' }}>
+              {t('coordinateSettings.export.failed')}: {exportError}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Add Calibration Point Modal */}
       {showAddModal && (
         <AddCalibrationPointModal
@@ -559,6 +841,7 @@ export function CoordinateSettingsPanel({ api, projectId, user }: CoordinateSett
           onAdd={handlePointAdded}
           onClose={() => setShowAddModal(false)}
           userName={user.name}
+          projectId={projectId}
         />
       )}
     </div>
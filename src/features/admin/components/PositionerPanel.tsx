@@ -11,6 +11,7 @@ import {
   FiTrash2,
 } from 'react-icons/fi';
 import { usePositioner } from '../hooks/usePositioner';
+import { YardPlanPanel } from '../../yard/components/YardPlanPanel';
 import { gpsDistance } from '../../../utils/coordinateUtils';
 import type { TrimbleExUser } from '../../../supabase';
 
@@ -25,6 +26,7 @@ export function PositionerPanel({ api, projectId, user }: PositionerPanelProps)
   const [, setMessage] = useState('');
 
   const {
+    coordinateSettings,
     positions,
     positionsLoading,
     positionCapturing,
@@ -273,6 +275,15 @@ export function PositionerPanel({ api, projectId, user }: PositionerPanelProps)
         </button>
       </div>
 
+      {/* Laydown yard zones and plan */}
+      <YardPlanPanel
+        projectId={projectId}
+        positions={positions}
+        settings={coordinateSettings}
+        userEmail={user?.email}
+        onSelectPosition={selectPositionedDetail}
+      />
+
       {/* Positions list */}
       {positions.length > 0 ? (
         <div style={{
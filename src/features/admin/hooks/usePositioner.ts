@@ -1,7 +1,8 @@
 import { useState, useCallback, useRef } from 'react';
 import { supabase } from '../../../supabase';
 import { findObjectsInLoadedModels } from '../../../utils/navigationHelper';
-import { belgianLambert72ToWGS84, wgs84ToBelgianLambert72 } from '../../../utils/coordinateUtils';
+import { modelMetersToGps, gpsToModelMeters } from '../../../utils/coordinateTransform';
+import { useCoordinateSettings } from '../../../hooks/useCoordinateSettings';
 import type { DetailPosition } from '../types';
 import type { TrimbleExUser } from '../../../supabase';
 
@@ -14,6 +15,8 @@ interface UsePositionerParams {
 }
 
 export function usePositioner({ api, projectId, user, setMessage, t }: UsePositionerParams) {
+  // GPS <-> model conversion follows the project's coordinate system and calibration
+  const { settings: coordinateSettings } = useCoordinateSettings(projectId);
   const [positions, setPositions] = useState<DetailPosition[]>([]);
   const [positionsLoading, setPositionsLoading] = useState(false);
   const [positionCapturing, setPositionCapturing] = useState(false);
@@ -54,9 +57,11 @@ export function usePositioner({ api, projectId, user, setMessage, t }: UsePositi
               enriched.model_x = (bbox.min.x + bbox.max.x) / 2;
               enriched.model_y = (bbox.min.y + bbox.max.y) / 2;
               enriched.model_z = (bbox.min.z + bbox.max.z) / 2;
-              const gps = belgianLambert72ToWGS84(enriched.model_x, enriched.model_y);
-              enriched.calculated_lat = gps.latitude;
-              enriched.calculated_lng = gps.longitude;
+              if (coordinateSettings) {
+                const gps = modelMetersToGps(enriched.model_x, enriched.model_y, enriched.model_z, coordinateSettings);
+                enriched.calculated_lat = gps.lat;
+                enriched.calculated_lng = gps.lng;
+              }
             }
           }
         } catch (e: any) {
@@ -71,7 +76,7 @@ export function usePositioner({ api, projectId, user, setMessage, t }: UsePositi
     } finally {
       setPositionsLoading(false);
     }
-  }, [projectId, api, setMessage]);
+  }, [projectId, api, coordinateSettings, setMessage]);
 
   const stopScanner = useCallback(() => {
     scannerActiveRef.current = false;
@@ -187,8 +192,9 @@ export function usePositioner({ api, projectId, user, setMessage, t }: UsePositi
 
   const drawPositionCircle = useCallback(async (position: DetailPosition) => {
     if (!position.latitude || !position.longitude) { setMessage(t('positioner.missingCoordinates')); return; }
+    if (!coordinateSettings) { setMessage(t('positioner.coordinateSettingsMissing')); return; }
     try {
-      const modelCoords = wgs84ToBelgianLambert72(position.latitude, position.longitude);
+      const modelCoords = gpsToModelMeters(position.latitude, position.longitude, coordinateSettings);
       let zCoord = 0; let foundItem: any;
       const { data: modelObj } = await supabase.from('trimble_model_objects').select('guid_ifc')
         .eq('trimble_project_id', projectId).ilike('guid_ifc', position.guid).limit(1).maybeSingle();
@@ -217,7 +223,7 @@ export function usePositioner({ api, projectId, user, setMessage, t }: UsePositi
       }
       setMessage(`10m ring joonistatud! GPS: ${position.latitude!.toFixed(6)}, ${position.longitude!.toFixed(6)}`);
     } catch (e: any) { setMessage(t('positioner.drawError', { error: e.message })); }
-  }, [api, projectId, setMessage, t]);
+  }, [api, projectId, coordinateSettings, setMessage, t]);
 
   const removePositionMarkup = useCallback(async (position: DetailPosition) => {
     if (!position.markup_id) { setMessage(t('positioner.markupMissing')); return; }
@@ -258,6 +264,7 @@ export function usePositioner({ api, projectId, user, setMessage, t }: UsePositi
   }, [setMessage, t]);
 
   return {
+    coordinateSettings,
     positions, positionsLoading, positionCapturing,
     scannerActive, pendingQrCode, manualLat, setManualLat, manualLng, setManualLng,
     debugLog, videoRef, canvasRef,
@@ -265,8 +272,9 @@ export function usePositioner({ api, projectId, user, setMessage, t }: UsePositi
     drawPositionCircle, removePositionMarkup, selectPositionedDetail, deletePosition,
     addGpsMarker: useCallback(async (position: DetailPosition) => {
       if (!position.latitude || !position.longitude) { setMessage(t('positioner.gpsCoordsMissing')); return; }
+      if (!coordinateSettings) { setMessage(t('positioner.coordinateSettingsMissing')); return; }
       try {
-        const modelCoords = wgs84ToBelgianLambert72(position.latitude, position.longitude);
+        const modelCoords = gpsToModelMeters(position.latitude, position.longitude, coordinateSettings);
         let zCoord = 0;
         const { data: modelObj } = await supabase.from('trimble_model_objects').select('guid_ifc')
           .eq('trimble_project_id', projectId).ilike('guid_ifc', position.guid).limit(1).maybeSingle();
@@ -286,6 +294,6 @@ export function usePositioner({ api, projectId, user, setMessage, t }: UsePositi
         }]);
         setMessage(`Marker lisatud: ${position.assembly_mark || position.guid.slice(0, 8)}`);
       } catch (e: any) { setMessage(t('positioner.markerAddError', { error: e.message })); }
-    }, [api, projectId, setMessage, t]),
+    }, [api, projectId, coordinateSettings, setMessage, t]),
   };
 }
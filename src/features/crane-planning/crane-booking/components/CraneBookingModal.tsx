@@ -0,0 +1,329 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FiX, FiLoader, FiRefreshCw, FiAlertCircle, FiSave } from 'react-icons/fi';
+import { ProjectCrane } from '../../../../supabase';
+import { useCraneBookingCalendar } from '../hooks/useCraneBookingCalendar';
+import { DEFAULT_BOOKED_HOURS_PER_DAY, DEFAULT_PICK_MINUTES, getCraneLabel } from '../utils/craneBooking';
+
+type CraneBooking = Pick<ProjectCrane, 'mobilization_date' | 'demobilization_date' | 'booked_hours_per_day'>;
+
+interface CraneBookingModalProps {
+  projectId: string;
+  projectCranes: ProjectCrane[];
+  onSaveBooking: (craneId: string, booking: CraneBooking) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const toBooking = (crane: ProjectCrane): CraneBooking => ({
+  mobilization_date: crane.mobilization_date || null,
+  demobilization_date: crane.demobilization_date || null,
+  booked_hours_per_day: crane.booked_hours_per_day != null ? Number(crane.booked_hours_per_day) : DEFAULT_BOOKED_HOURS_PER_DAY
+});
+
+export default function CraneBookingModal({
+  projectId,
+  projectCranes,
+  onSaveBooking,
+  onClose
+}: CraneBookingModalProps) {
+  const { t } = useTranslation('common');
+  const [pickMinutes, setPickMinutes] = useState(DEFAULT_PICK_MINUTES);
+  const [showAll, setShowAll] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, CraneBooking>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { days, loading, error, versionName, refetch } = useCraneBookingCalendar(projectId, projectCranes, pickMinutes);
+
+  // Drafts for new cranes; unsaved edits of other cranes are kept
+  useEffect(() => {
+    setDrafts(prev => Object.fromEntries(projectCranes.map(c => [c.id, prev[c.id] || toBooking(c)])));
+  }, [projectCranes]);
+
+  const isDirty = (crane: ProjectCrane) => {
+    const draft = drafts[crane.id];
+    const saved = toBooking(crane);
+    return !!draft && (
+      draft.mobilization_date !== saved.mobilization_date ||
+      draft.demobilization_date !== saved.demobilization_date ||
+      draft.booked_hours_per_day !== saved.booked_hours_per_day
+    );
+  };
+
+  const updateDraft = (craneId: string, data: Partial<CraneBooking>) => {
+    setDrafts(prev => ({ ...prev, [craneId]: { ...prev[craneId], ...data } }));
+  };
+
+  const handleSave = async (crane: ProjectCrane) => {
+    const draft = drafts[crane.id];
+    if (!draft) return;
+    if (draft.mobilization_date && draft.demobilization_date && draft.demobilization_date < draft.mobilization_date) {
+      alert(t('craneBooking.invalidRange'));
+      return;
+    }
+    setSavingId(crane.id);
+    const ok = await onSaveBooking(crane.id, draft);
+    setSavingId(null);
+    if (!ok) alert(t('craneBooking.saveFailed'));
+  };
+
+  const problemCount = useMemo(() => days.filter(d => d.issues.length > 0).length, [days]);
+  const visibleDays = useMemo(
+    () => showAll ? days : days.filter(d => d.issues.length > 0),
+    [days, showAll]
+  );
+
+  const formatDate = (date: string) => {
+    const [y, m, d] = date.split('-');
+    return `${d}.${m}.${y}`;
+  };
+
+  const inputStyle: React.CSSProperties = { padding: '4px 6px', fontSize: '12px', borderRadius: '4px', border: '1px solid #d1d5db' };
+  const cellStyle: React.CSSProperties = { padding: '6px 8px' };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 10000
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        boxShadow: '0 8px 32px rgba(0,0,0,0.2)',
+        maxWidth: '820px',
+        width: '95%',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column'
+      }}>
+        {/* Modal header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: '16px', fontWeight: 600 }}>{t('craneBooking.title')}</h3>
+            <p style={{ margin: '4px 0 0 0', fontSize: '12px', color: '#6b7280' }}>
+              {versionName ? t('liftPlan.scheduleVersion', { name: versionName }) : t('liftPlan.legacySchedule')}
+              {' • '}{t('liftPlan.craneCount', { count: projectCranes.length })}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: '8px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', borderRadius: '4px' }}
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        {/* Modal content */}
+        <div style={{ padding: '16px 20px', overflow: 'auto', flex: 1, display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          {/* Bookings per crane */}
+          <div>
+            <div style={{ fontSize: '13px', fontWeight: 600, marginBottom: '6px' }}>{t('craneBooking.bookings')}</div>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+                  <th style={cellStyle}>{t('liftPlan.crane')}</th>
+                  <th style={cellStyle}>{t('craneBooking.mobilization')}</th>
+                  <th style={cellStyle}>{t('craneBooking.demobilization')}</th>
+                  <th style={cellStyle}>{t('craneBooking.hoursPerDay')}</th>
+                  <th style={cellStyle} />
+                </tr>
+              </thead>
+              <tbody>
+                {projectCranes.map(crane => {
+                  const draft = drafts[crane.id] || toBooking(crane);
+                  return (
+                    <tr key={crane.id} style={{ borderBottom: '1px solid #f3f4f6' }}>
+                      <td style={cellStyle}>
+                        <strong>{getCraneLabel(crane)}</strong>
+                        {crane.crane_model && <span style={{ color: '#6b7280' }}> • {crane.crane_model.manufacturer} {crane.crane_model.model}</span>}
+                      </td>
+                      <td style={cellStyle}>
+                        <input
+                          type="date"
+                          value={draft.mobilization_date || ''}
+                          onChange={e => updateDraft(crane.id, { mobilization_date: e.target.value || null })}
+                          style={inputStyle}
+                        />
+                      </td>
+                      <td style={cellStyle}>
+                        <input
+                          type="date"
+                          value={draft.demobilization_date || ''}
+                          onChange={e => updateDraft(crane.id, { demobilization_date: e.target.value || null })}
+                          style={inputStyle}
+                        />
+                      </td>
+                      <td style={cellStyle}>
+                        <input
+                          type="number"
+                          min="0"
+                          max="24"
+                          step="0.5"
+                          value={draft.booked_hours_per_day ?? ''}
+                          onChange={e => updateDraft(crane.id, { booked_hours_per_day: Number(e.target.value) || 0 })}
+                          style={{ ...inputStyle, width: '60px' }}
+                        />
+                      </td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>
+                        <button
+                          onClick={() => handleSave(crane)}
+                          disabled={!isDirty(crane) || savingId === crane.id}
+                          title={t('craneBooking.save')}
+                          style={{
+                            padding: '4px 8px',
+                            borderRadius: '4px',
+                            border: 'none',
+                            backgroundColor: isDirty(crane) ? 'var(--modus-primary)' : '#e5e7eb',
+                            color: isDirty(crane) ? 'white' : '#9ca3af',
+                            cursor: isDirty(crane) ? 'pointer' : 'default'
+                          }}
+                        >
+                          {savingId === crane.id ? <FiLoader size={12} className="spin" /> : <FiSave size={12} />}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <div style={{ fontSize: '11px', color: '#6b7280', marginTop: '6px' }}>{t('craneBooking.bookingNote')}</div>
+          </div>
+
+          {/* Calendar */}
+          {loading ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#6b7280', padding: '24px 0', justifyContent: 'center' }}>
+              <FiLoader className="spin" /> {t('craneBooking.loading')}
+            </div>
+          ) : error ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#dc2626', padding: '12px', backgroundColor: '#fef2f2', borderRadius: '8px' }}>
+              <FiAlertCircle /> {t('crane.error', { message: error })}
+            </div>
+          ) : (
+            <div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap', marginBottom: '8px', fontSize: '12px' }}>
+                <span style={{ fontSize: '13px', fontWeight: 600 }}>{t('craneBooking.calendar')}</span>
+                <span style={{ color: problemCount > 0 ? '#dc2626' : '#16a34a', fontWeight: 500 }}>
+                  {t('craneBooking.problemDays', { count: problemCount })}
+                </span>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '4px', marginLeft: 'auto' }}>
+                  {t('craneBooking.pickMinutes')}
+                  <input
+                    type="number"
+                    min="5"
+                    step="5"
+                    value={pickMinutes}
+                    onChange={e => setPickMinutes(Number(e.target.value) || DEFAULT_PICK_MINUTES)}
+                    style={{ ...inputStyle, width: '60px' }}
+                  />
+                </label>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}>
+                  <input type="checkbox" checked={showAll} onChange={e => setShowAll(e.target.checked)} />
+                  {t('craneBooking.showAllDays')}
+                </label>
+              </div>
+
+              {visibleDays.length === 0 ? (
+                <div style={{ textAlign: 'center', padding: '24px', color: '#16a34a', fontSize: '13px' }}>
+                  {days.length === 0 ? t('liftPlan.noScheduleItems') : t('craneBooking.noProblems')}
+                </div>
+              ) : (
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                  <thead>
+                    <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+                      <th style={cellStyle}>{t('craneBooking.date')}</th>
+                      <th style={cellStyle}>{t('craneBooking.cranePicks')}</th>
+                      <th style={cellStyle}>{t('craneBooking.hours')}</th>
+                      {projectCranes.map(crane => (
+                        <th key={crane.id} style={{ ...cellStyle, textAlign: 'center' }}>{getCraneLabel(crane)}</th>
+                      ))}
+                      <th style={cellStyle}>{t('craneBooking.warnings')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleDays.map(day => (
+                      <tr key={day.date} style={{ borderBottom: '1px solid #f3f4f6', backgroundColor: day.issues.length > 0 ? '#fef2f2' : undefined }}>
+                        <td style={cellStyle}>{formatDate(day.date)}</td>
+                        <td style={cellStyle}>
+                          {day.cranePicks} / {day.itemCount}
+                        </td>
+                        <td style={{ ...cellStyle, color: day.issues.includes('over_hours') ? '#dc2626' : undefined }}>
+                          {day.neededHours} / {day.bookedHours} h
+                        </td>
+                        {projectCranes.map(crane => {
+                          const booked = day.booked.some(b => b.craneId === crane.id);
+                          return (
+                            <td key={crane.id} style={{ ...cellStyle, textAlign: 'center' }}>
+                              <span
+                                title={booked ? t('craneBooking.onSite') : t('craneBooking.notOnSite')}
+                                style={{
+                                  display: 'inline-block',
+                                  width: '14px',
+                                  height: '14px',
+                                  borderRadius: '3px',
+                                  backgroundColor: booked ? '#22c55e' : '#f3f4f6',
+                                  border: booked ? 'none' : '1px solid #e5e7eb'
+                                }}
+                              />
+                            </td>
+                          );
+                        })}
+                        <td style={{ ...cellStyle, color: '#dc2626' }}>
+                          {day.issues.map(issue => t(`craneBooking.issues.${issue}`, { count: day.cranesNeeded })).join(', ')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Modal footer */}
+        <div style={{
+          padding: '12px 20px',
+          borderTop: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '8px'
+        }}>
+          <button
+            onClick={refetch}
+            disabled={loading}
+            style={{ ...footerBtnStyle, backgroundColor: 'white', color: '#374151', border: '1px solid #e5e7eb' }}
+          >
+            <FiRefreshCw size={14} /> {t('craneBooking.reload')}
+          </button>
+          <button
+            onClick={onClose}
+            style={{ ...footerBtnStyle, backgroundColor: 'var(--modus-primary)', color: 'white', border: 'none' }}
+          >
+            {t('buttons.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const footerBtnStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  padding: '8px 16px',
+  borderRadius: '6px',
+  fontSize: '13px',
+  cursor: 'pointer'
+};
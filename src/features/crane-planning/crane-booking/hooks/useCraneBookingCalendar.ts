@@ -0,0 +1,67 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { ProjectCrane, ScheduleItem } from '../../../../supabase';
+import { fetchActiveScheduleItems } from '../../lift-plan/hooks/useLiftPlanAnalysis';
+import { fetchTandemLifts } from '../../lift-plan/hooks/useTandemLifts';
+import { buildCraneBookingCalendar, CraneBookingDay } from '../utils/craneBooking';
+
+interface UseCraneBookingCalendarResult {
+  days: CraneBookingDay[];
+  loading: boolean;
+  error: string | null;
+  versionName: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Crane coverage of the active installation schedule (tandem lifts count as two cranes).
+ * Recalculated from loaded items when bookings or pick time change.
+ */
+export function useCraneBookingCalendar(
+  projectId: string,
+  projectCranes: ProjectCrane[],
+  pickMinutes: number
+): UseCraneBookingCalendarResult {
+  const [items, setItems] = useState<ScheduleItem[]>([]);
+  const [tandemGuids, setTandemGuids] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [versionName, setVersionName] = useState<string | null>(null);
+
+  const fetchItems = useCallback(async () => {
+    if (!projectId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { items: scheduleItems, versionName: activeName } = await fetchActiveScheduleItems(projectId);
+      const tandemLifts = await fetchTandemLifts(projectId);
+      setItems(scheduleItems);
+      setTandemGuids(new Set(tandemLifts.map(t => t.guid_ifc.toLowerCase())));
+      setVersionName(activeName);
+      console.log(`🔍 Crane booking: ${scheduleItems.length} schedule items`);
+    } catch (err) {
+      console.error('Error loading schedule for crane booking:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const days = useMemo(
+    () => buildCraneBookingCalendar(items, projectCranes, pickMinutes, tandemGuids),
+    [items, projectCranes, pickMinutes, tandemGuids]
+  );
+
+  return {
+    days,
+    loading,
+    error,
+    versionName,
+    refetch: fetchItems
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { buildCraneBookingCalendar, getItemCraneCount, isCraneBooked } from './craneBooking';
+import { ProjectCrane, ScheduleItem } from '../../../../supabase';
+
+const crane = (overrides: Partial<ProjectCrane> = {}): ProjectCrane => ({
+  id: 'crane-1',
+  position_label: 'K1',
+  mobilization_date: '2026-03-02',
+  demobilization_date: '2026-03-06',
+  booked_hours_per_day: 8,
+  ...overrides
+} as ProjectCrane);
+
+const item = (overrides: Partial<ScheduleItem> = {}): ScheduleItem => ({
+  id: 'i',
+  scheduled_date: '2026-03-03',
+  install_methods: { crane: 1 },
+  ...overrides
+} as ScheduleItem);
+
+describe('craneBooking', () => {
+  it('should treat booking dates as inclusive and open ended', () => {
+    expect(isCraneBooked(crane(), '2026-03-02')).toBe(true);
+    expect(isCraneBooked(crane(), '2026-03-06')).toBe(true);
+    expect(isCraneBooked(crane(), '2026-03-07')).toBe(false);
+    expect(isCraneBooked(crane({ demobilization_date: null }), '2027-01-01')).toBe(true);
+    expect(isCraneBooked(crane({ mobilization_date: null, demobilization_date: null }), '2026-03-03')).toBe(false);
+  });
+
+  it('should count crane picks from install methods, legacy method and resource', () => {
+    expect(getItemCraneCount(item({ install_methods: { crane: 2 } }))).toBe(2);
+    expect(getItemCraneCount(item({ install_methods: { forklift: 1 } }))).toBe(0);
+    expect(getItemCraneCount(item({ install_methods: null, install_method: 'crane' }))).toBe(1);
+    expect(getItemCraneCount(item({ install_methods: null, resource: ' k1 ' }), [crane()])).toBe(1);
+  });
+
+  it('should warn about unbooked days, missing cranes and crane hours', () => {
+    const days = buildCraneBookingCalendar([
+      item({ scheduled_date: '2026-03-01' }),
+      item({ scheduled_date: '2026-03-03', install_methods: { crane: 2 } }),
+      ...Array.from({ length: 17 }, () => item({ scheduled_date: '2026-03-04' })),
+      item({ scheduled_date: '2026-03-05', install_methods: { manual: 1 } })
+    ], [crane()], 30);
+
+    expect(days.map(d => d.date)).toEqual(['2026-03-01', '2026-03-03', '2026-03-04', '2026-03-05']);
+    expect(days[0].issues).toEqual(['no_crane']);
+    expect(days[1].issues).toEqual(['not_enough_cranes']);
+    expect(days[2].neededHours).toBe(8.5);
+    expect(days[2].issues).toEqual(['over_hours']);
+    expect(days[3].cranePicks).toBe(0);
+    expect(days[3].issues).toEqual([]);
+  });
+
+  it('should need two cranes for tandem lifts', () => {
+    const tandemGuids = new Set(['ifc-tandem']);
+    const tandem = item({ guid_ifc: 'IFC-TANDEM', install_methods: { crane: 1 } });
+    expect(getItemCraneCount(tandem, [], tandemGuids)).toBe(2);
+    expect(getItemCraneCount(item({ install_methods: { crane: 3 }, guid: 'ifc-tandem' }), [], tandemGuids)).toBe(3);
+
+    const [day] = buildCraneBookingCalendar([tandem, item()], [crane()], 30, tandemGuids);
+    expect(day.cranesNeeded).toBe(2);
+    expect(day.neededHours).toBe(1.5);
+    expect(day.issues).toEqual(['not_enough_cranes']);
+    expect(buildCraneBookingCalendar([tandem], [crane()], 30)[0].issues).toEqual([]);
+  });
+
+  it('should flag items assigned to a crane that is not on site', () => {
+    const k2 = crane({ id: 'crane-2', position_label: 'K2', mobilization_date: '2026-03-10', demobilization_date: null });
+    const [day] = buildCraneBookingCalendar([item({ resource: 'K2' })], [crane(), k2]);
+    expect(day.booked.map(b => b.craneLabel)).toEqual(['K1']);
+    expect(day.issues).toEqual(['assigned_crane_not_booked']);
+  });
+});
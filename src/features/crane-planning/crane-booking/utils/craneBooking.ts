@@ -0,0 +1,145 @@
+import { ProjectCrane, ScheduleItem } from '../../../../supabase';
+
+// Crane hours booked per day when the crane has no own setting
+export const DEFAULT_BOOKED_HOURS_PER_DAY = 8;
+
+// Default crane time per pick (hook on, lift, set down, hook back)
+export const DEFAULT_PICK_MINUTES = 30;
+
+export type CraneBookingIssue =
+  | 'no_crane'                  // crane picks planned, no crane booked
+  | 'not_enough_cranes'         // a pick needs more cranes than are booked
+  | 'over_hours'                // crane picks need more hours than booked
+  | 'assigned_crane_not_booked'; // item resource names a crane that is not on site
+
+export type BookedCrane = {
+  craneId: string;
+  craneLabel: string;
+  hours: number;
+};
+
+export type CraneBookingDay = {
+  date: string;
+  itemCount: number;
+  cranePicks: number;
+  cranesNeeded: number;  // most cranes used by one pick (2 = tandem)
+  neededHours: number;   // crane-hours: pick count x cranes per pick x pick time
+  booked: BookedCrane[];
+  bookedHours: number;
+  issues: CraneBookingIssue[];
+};
+
+export const getCraneLabel = (crane: ProjectCrane) =>
+  crane.position_label || crane.crane_model?.model || crane.id;
+
+/**
+ * Whether the item is lifted in tandem (tandemGuids = lowercase GUIDs of the project's tandem lifts)
+ */
+export function isTandemItem(item: ScheduleItem, tandemGuids: Set<string>): boolean {
+  return [item.guid_ifc, item.guid].some(guid => !!guid && tandemGuids.has(guid.toLowerCase()));
+}
+
+/**
+ * Cranes used by one schedule item (install_methods.crane, legacy install_method
+ * or a resource naming a placed crane). 0 = not a crane pick. A tandem lift needs 2 cranes.
+ */
+export function getItemCraneCount(
+  item: ScheduleItem,
+  cranes: ProjectCrane[] = [],
+  tandemGuids: Set<string> = new Set()
+): number {
+  let count = 0;
+  if (item.install_methods?.crane && item.install_methods.crane > 0) count = item.install_methods.crane;
+  else if (!item.install_methods && item.install_method === 'crane') count = item.install_method_count || 1;
+  else if (findAssignedCrane(item, cranes)) count = 1;
+  return isTandemItem(item, tandemGuids) ? Math.max(count, 2) : count;
+}
+
+/**
+ * Placed crane named by the item's resource (matched by position label, case-insensitive)
+ */
+export function findAssignedCrane(item: ScheduleItem, cranes: ProjectCrane[]): ProjectCrane | null {
+  const resource = item.resource?.trim().toLowerCase();
+  if (!resource) return null;
+  return cranes.find(c => c.position_label && c.position_label.trim().toLowerCase() === resource) || null;
+}
+
+/**
+ * Whether the crane is on site on the date. A crane with no booking dates is not booked;
+ * a missing mobilization or demobilization date leaves that side open.
+ */
+export function isCraneBooked(crane: ProjectCrane, date: string): boolean {
+  if (!crane.mobilization_date && !crane.demobilization_date) return false;
+  if (crane.mobilization_date && date < crane.mobilization_date) return false;
+  if (crane.demobilization_date && date > crane.demobilization_date) return false;
+  return true;
+}
+
+/**
+ * Crane coverage per schedule day (ascending) with booking warnings
+ */
+export function buildCraneBookingCalendar(
+  items: ScheduleItem[],
+  cranes: ProjectCrane[],
+  pickMinutes: number = DEFAULT_PICK_MINUTES,
+  tandemGuids: Set<string> = new Set()
+): CraneBookingDay[] {
+  const byDate = new Map<string, ScheduleItem[]>();
+  for (const item of items) {
+    if (!item.scheduled_date) continue;
+    const list = byDate.get(item.scheduled_date) || [];
+    list.push(item);
+    byDate.set(item.scheduled_date, list);
+  }
+
+  return Array.from(byDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayItems]) => {
+      const booked = cranes
+        .filter(crane => isCraneBooked(crane, date))
+        .map(crane => ({
+          craneId: crane.id,
+          craneLabel: getCraneLabel(crane),
+          hours: crane.booked_hours_per_day != null ? Number(crane.booked_hours_per_day) : DEFAULT_BOOKED_HOURS_PER_DAY
+        }));
+      const bookedHours = booked.reduce((sum, b) => sum + b.hours, 0);
+
+      let cranePicks = 0;
+      let cranesNeeded = 0;
+      let craneCountTotal = 0;
+      let assignedNotBooked = false;
+      for (const item of dayItems) {
+        const count = getItemCraneCount(item, cranes, tandemGuids);
+        if (count === 0) continue;
+        cranePicks++;
+        craneCountTotal += count;
+        cranesNeeded = Math.max(cranesNeeded, count);
+
+        const assigned = findAssignedCrane(item, cranes);
+        if (assigned && !booked.some(b => b.craneId === assigned.id)) assignedNotBooked = true;
+      }
+      const neededHours = Math.round((craneCountTotal * pickMinutes / 60) * 10) / 10;
+
+      const issues: CraneBookingIssue[] = [];
+      if (cranePicks > 0) {
+        if (booked.length === 0) {
+          issues.push('no_crane');
+        } else {
+          if (cranesNeeded > booked.length) issues.push('not_enough_cranes');
+          if (neededHours > bookedHours) issues.push('over_hours');
+        }
+        if (assignedNotBooked && booked.length > 0) issues.push('assigned_crane_not_booked');
+      }
+
+      return {
+        date,
+        itemCount: dayItems.length,
+        cranePicks,
+        cranesNeeded,
+        neededHours,
+        booked,
+        bookedHours,
+        issues
+      };
+    });
+}
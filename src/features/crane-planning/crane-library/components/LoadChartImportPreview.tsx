@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FiAlertTriangle, FiCheck, FiLoader } from 'react-icons/fi';
+import { CounterweightConfig } from '../../../../supabase';
+import { LoadChartImportSheet, matchImportCounterweights } from '../utils/loadChartMatrix';
+
+export interface LoadChartImportSelection {
+  sheet: LoadChartImportSheet;
+  counterweightKg: number;
+  counterweightId: string | null; // Existing counterweight to update, null = create new
+}
+
+interface LoadChartImportPreviewProps {
+  sheets: LoadChartImportSheet[];
+  existingCounterweights: CounterweightConfig[];
+  importing: boolean;
+  onConfirm: (selections: LoadChartImportSelection[]) => void;
+  onCancel: () => void;
+}
+
+export default function LoadChartImportPreview({
+  sheets,
+  existingCounterweights,
+  importing,
+  onConfirm,
+  onCancel
+}: LoadChartImportPreviewProps) {
+  const { t } = useTranslation('common');
+
+  // Sheets with monotonicity issues are unchecked by default - user must opt in
+  const [included, setIncluded] = useState<Record<string, boolean>>(() =>
+    Object.fromEntries(sheets.map(s => [s.sheetName, !!s.matrix && s.issues.length === 0]))
+  );
+  // Counterweight in tonnes (editable when it could not be read from the name)
+  const [weights, setWeights] = useState<Record<string, string>>(() =>
+    Object.fromEntries(sheets.map(s => [s.sheetName, s.counterweightKg !== null ? String(s.counterweightKg / 1000) : '']))
+  );
+
+  // Target counterweight per sheet - several configurations can share one weight
+  const [targets, setTargets] = useState<Record<string, string | null>>(() =>
+    matchImportCounterweights(sheets, existingCounterweights)
+  );
+
+  const getTarget = (sheetName: string) =>
+    existingCounterweights.find(cw => cw.id === targets[sheetName]) || null;
+  const getWeightKg = (sheetName: string) =>
+    getTarget(sheetName)?.weight_kg ?? (parseFloat((weights[sheetName] || '').replace(',', '.')) || 0) * 1000;
+
+  const selections: LoadChartImportSelection[] = sheets
+    .filter(s => included[s.sheetName] && s.matrix)
+    .map(s => ({ sheet: s, counterweightKg: getWeightKg(s.sheetName), counterweightId: getTarget(s.sheetName)?.id || null }));
+  const targetIds = selections.map(s => s.counterweightId).filter(Boolean);
+  const duplicateTarget = new Set(targetIds).size < targetIds.length;
+  const canImport = selections.length > 0 && selections.every(s => s.counterweightKg > 0) && !duplicateTarget;
+
+  const cellStyle: React.CSSProperties = { border: '1px solid #e5e7eb', padding: '4px 6px', fontSize: '11px' };
+
+  return (
+    <div style={{ backgroundColor: '#f9fafb', padding: '10px', borderRadius: '4px', marginBottom: '8px', border: '1px solid #e5e7eb' }}>
+      <div style={{ fontSize: '12px', fontWeight: 600, marginBottom: '8px' }}>{t('loadChartImport.previewTitle')}</div>
+
+      <table style={{ borderCollapse: 'collapse', width: '100%', marginBottom: '8px' }}>
+        <thead>
+          <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+            <th style={cellStyle}></th>
+            <th style={cellStyle}>{t('loadChartImport.sheet')}</th>
+            <th style={cellStyle}>{t('loadChartImport.counterweight')}</th>
+            <th style={cellStyle}>{t('loadChartImport.size')}</th>
+            <th style={cellStyle}>{t('loadChartImport.validation')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sheets.map(sheet => {
+            const target = getTarget(sheet.sheetName);
+            return (
+              <tr key={sheet.sheetName} style={{ backgroundColor: 'white' }}>
+                <td style={cellStyle}>
+                  <input
+                    type="checkbox"
+                    checked={!!included[sheet.sheetName]}
+                    disabled={!sheet.matrix}
+                    onChange={e => setIncluded(prev => ({ ...prev, [sheet.sheetName]: e.target.checked }))}
+                  />
+                </td>
+                <td style={{ ...cellStyle, fontWeight: 500 }}>{sheet.sheetName}</td>
+                <td style={cellStyle}>
+                  <select
+                    value={target?.id || ''}
+                    onChange={e => setTargets(prev => ({ ...prev, [sheet.sheetName]: e.target.value || null }))}
+                    style={{ padding: '2px 4px', border: '1px solid #d1d5db', borderRadius: '3px', fontSize: '11px', marginRight: '4px' }}
+                  >
+                    <option value="">{t('loadChartImport.newCounterweight')}</option>
+                    {existingCounterweights.map(cw => (
+                      <option key={cw.id} value={cw.id}>{cw.name} ({cw.weight_kg / 1000}t)</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={target ? String(target.weight_kg / 1000) : weights[sheet.sheetName]}
+                    disabled={!!target}
+                    onChange={e => setWeights(prev => ({ ...prev, [sheet.sheetName]: e.target.value }))}
+                    style={{ width: '50px', padding: '2px 4px', border: '1px solid #d1d5db', borderRadius: '3px', fontSize: '11px' }}
+                  /> t
+                  <div style={{ fontSize: '10px', color: target ? '#b45309' : '#6b7280' }}>
+                    {target ? t('loadChartImport.willUpdate') : t('loadChartImport.willCreate')}
+                  </div>
+                </td>
+                <td style={cellStyle}>
+                  {sheet.matrix
+                    ? t('crane.preview', { booms: sheet.matrix.boomLengths.length, radii: sheet.matrix.radii.length })
+                    : t('loadChartImport.emptySheet')}
+                </td>
+                <td style={cellStyle}>
+                  {!sheet.matrix ? null : sheet.issues.length === 0 ? (
+                    <span style={{ display: 'flex', alignItems: 'center', gap: '4px', color: '#16a34a' }}>
+                      <FiCheck size={12} /> {t('loadChartImport.monotonicOk')}
+                    </span>
+                  ) : (
+                    <div style={{ color: '#b45309' }}>
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '4px', fontWeight: 500 }}>
+                        <FiAlertTriangle size={12} /> {t('loadChartImport.notMonotonic', { count: sheet.issues.length })}
+                      </div>
+                      {sheet.issues.slice(0, 3).map(issue => (
+                        <div key={`${issue.boomLength}_${issue.radius}`} style={{ fontSize: '10px' }}>
+                          {t('loadChartImport.issueDetail', {
+                            boom: issue.boomLength,
+                            radius: issue.radius,
+                            capacity: (issue.capacityKg / 1000).toFixed(1),
+                            previousRadius: issue.previousRadius,
+                            previousCapacity: (issue.previousCapacityKg / 1000).toFixed(1)
+                          })}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {duplicateTarget && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px', color: '#dc2626', fontSize: '11px', marginBottom: '8px' }}>
+          <FiAlertTriangle size={12} /> {t('loadChartImport.duplicateTarget')}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '4px' }}>
+        <button
+          onClick={onCancel}
+          disabled={importing}
+          style={{ padding: '4px 10px', border: '1px solid #d1d5db', borderRadius: '4px', backgroundColor: 'white', cursor: 'pointer', fontSize: '11px' }}
+        >
+          {t('buttons.cancel')}
+        </button>
+        <button
+          onClick={() => onConfirm(selections)}
+          disabled={importing || !canImport}
+          style={{ display: 'flex', alignItems: 'center', gap: '4px', padding: '4px 10px', border: 'none', borderRadius: '4px', backgroundColor: 'var(--modus-primary)', color: 'white', cursor: importing || !canImport ? 'not-allowed' : 'pointer', opacity: importing || !canImport ? 0.7 : 1, fontSize: '11px' }}
+        >
+          {importing && <FiLoader className="animate-spin" size={12} />}
+          {t('loadChartImport.importSelected', { count: selections.length })}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
-import { supabase, LoadChart, LoadChartDataPoint } from '../../../../supabase';
+import { supabase, LoadChart } from '../../../../supabase';
+import { getCapacityAtBoomAndRadius } from '../../load-calculator/utils/liftingCalculations';
 
 interface UseLoadChartsResult {
   loadCharts: LoadChart[];
@@ -140,58 +141,14 @@ export function useLoadCharts(craneId: string | null | undefined, counterweightI
     }
   }, []);
 
-  // Calculate capacity at a specific radius using linear interpolation
+  // Calculate capacity using bilinear interpolation (boom length and radius)
   const getCapacityAtRadius = useCallback((
     cweightId: string,
     boomLength: number,
     radius: number
   ): number | null => {
-    // Find the matching load chart
-    const chart = loadCharts.find(lc =>
-      lc.counterweight_config_id === cweightId &&
-      lc.boom_length_m === boomLength
-    );
-
-    if (!chart || !chart.chart_data || chart.chart_data.length === 0) {
-      return null;
-    }
-
-    const data = chart.chart_data as LoadChartDataPoint[];
-
-    // Sort by radius
-    const sortedData = [...data].sort((a, b) => a.radius_m - b.radius_m);
-
-    // Find exact match
-    const exactMatch = sortedData.find(d => d.radius_m === radius);
-    if (exactMatch) {
-      return exactMatch.capacity_kg;
-    }
-
-    // Find surrounding points for interpolation
-    let prevPoint: LoadChartDataPoint | null = null;
-    let nextPoint: LoadChartDataPoint | null = null;
-
-    for (const point of sortedData) {
-      if (point.radius_m < radius) {
-        prevPoint = point;
-      } else if (point.radius_m > radius && !nextPoint) {
-        nextPoint = point;
-        break;
-      }
-    }
-
-    // Interpolate
-    if (prevPoint && nextPoint) {
-      const ratio = (radius - prevPoint.radius_m) / (nextPoint.radius_m - prevPoint.radius_m);
-      const capacity = prevPoint.capacity_kg + ratio * (nextPoint.capacity_kg - prevPoint.capacity_kg);
-      return Math.round(capacity);
-    }
-
-    // Return closest point if no interpolation possible
-    if (prevPoint) return prevPoint.capacity_kg;
-    if (nextPoint) return nextPoint.capacity_kg;
-
-    return null;
+    const charts = loadCharts.filter(lc => lc.counterweight_config_id === cweightId);
+    return getCapacityAtBoomAndRadius(charts, boomLength, radius);
   }, [loadCharts]);
 
   return {
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseLoadChartMatrix,
+  validateLoadChartMatrix,
+  matrixToChartData,
+  matrixToRows,
+  parseCounterweightFromName,
+  getCounterweightSheetName,
+  matchImportCounterweights
+} from './loadChartMatrix';
+import { CounterweightConfig } from '../../../../supabase';
+
+const rows = [
+  ['m', 13.2, '17,7', 22.2],
+  [3, 200, 143, ''],
+  [4, 133, 150, 122],
+  [5, 117, 107, 108]
+];
+
+describe('loadChartMatrix', () => {
+  it('should parse boom columns, radii and capacities in kg', () => {
+    const matrix = parseLoadChartMatrix(rows);
+    expect(matrix?.boomLengths).toEqual([13.2, 17.7, 22.2]);
+    expect(matrix?.radii).toEqual([3, 4, 5]);
+    expect(matrix?.capacities['4_17.7']).toBe(150000);
+    expect(matrix?.capacities['3_22.2']).toBeUndefined();
+  });
+
+  it('should report capacity that increases with radius', () => {
+    const issues = validateLoadChartMatrix(parseLoadChartMatrix(rows)!);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ boomLength: 17.7, radius: 4, previousRadius: 3 });
+  });
+
+  it('should round-trip through export rows', () => {
+    const matrix = parseLoadChartMatrix(rows)!;
+    const again = parseLoadChartMatrix(matrixToRows(matrix))!;
+    expect(matrixToChartData(again, 22.2)).toEqual(matrixToChartData(matrix, 22.2));
+  });
+
+  it('should read counterweight from sheet name', () => {
+    expect(parseCounterweightFromName('72t')).toBe(72);
+    expect(parseCounterweightFromName('14,4t')).toBe(14.4);
+    expect(parseCounterweightFromName('72t (2)')).toBe(72);
+    expect(parseCounterweightFromName('Juhised')).toBeNull();
+  });
+
+  it('should reject numbers with more than one separator', () => {
+    const matrix = parseLoadChartMatrix([
+      ['m', '1,234,5', '10,5'],
+      [3, '2,5', '1.2.3']
+    ])!;
+    expect(matrix.boomLengths).toEqual([10.5]);
+    expect(matrix.capacities['3_10.5']).toBeUndefined();
+    expect(parseLoadChartMatrix([['m', 10], ['3,5', '1 200,5']])?.capacities['3.5_10']).toBe(1200500);
+  });
+
+  it('should give counterweights with the same weight unique sheet names', () => {
+    const used = new Set<string>();
+    const names = [72000, 72000, 14400, 72000].map(kg => {
+      const name = getCounterweightSheetName(kg, used);
+      used.add(name);
+      return name;
+    });
+    expect(names).toEqual(['72t', '72t (2)', '14.4t', '72t (3)']);
+  });
+
+  it('should import sheets with the same weight into separate counterweights', () => {
+    const cw = (id: string, name: string, weight_kg: number) => ({ id, name, weight_kg }) as CounterweightConfig;
+    const counterweights = [cw('a', '72t', 72000), cw('b', '72t superlift', 72000), cw('c', '14.4t', 14400)];
+
+    expect(matchImportCounterweights([
+      { sheetName: '72t (2)', counterweightKg: 72000 },
+      { sheetName: '72t', counterweightKg: 72000 },
+      { sheetName: '72t (3)', counterweightKg: 72000 },
+      { sheetName: '14.4t', counterweightKg: 14400 }
+    ], counterweights)).toEqual({ '72t': 'a', '72t (2)': 'b', '72t (3)': null, '14.4t': 'c' });
+
+    // Matching configuration name wins over weight order
+    expect(matchImportCounterweights([
+      { sheetName: 'Superlift', counterweightKg: null },
+      { sheetName: '72T SUPERLIFT', counterweightKg: 72000 }
+    ], counterweights)).toEqual({ Superlift: null, '72T SUPERLIFT': 'b' });
+  });
+});
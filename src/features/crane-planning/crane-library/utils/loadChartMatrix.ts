@@ -0,0 +1,267 @@
+import * as XLSX from 'xlsx-js-style';
+import { CounterweightConfig, LoadChart, LoadChartDataPoint } from '../../../../supabase';
+
+/**
+ * 2D load chart: boom lengths as columns, radii as rows
+ * capacities key: `${radius}_${boomLength}`, value: capacity in kg
+ */
+export type LoadChartMatrix = {
+  boomLengths: number[];
+  radii: number[];
+  capacities: Record<string, number>;
+};
+
+// Capacity that increases with radius for the same boom length
+export type LoadChartMatrixIssue = {
+  boomLength: number;
+  radius: number;
+  capacityKg: number;
+  previousRadius: number;
+  previousCapacityKg: number;
+};
+
+// One counterweight sheet parsed from an import file
+export type LoadChartImportSheet = {
+  sheetName: string;
+  counterweightKg: number | null; // null = could not be read from sheet/file name
+  matrix: LoadChartMatrix | null;
+  issues: LoadChartMatrixIssue[];
+};
+
+// Decimal comma or point; more than one separator (e.g. "1,234,5") is not a valid number
+const parseCell = (val: unknown): number => {
+  if (val === undefined || val === null || val === '') return NaN;
+  if (typeof val === 'number') return val;
+  const normalized = String(val).trim().replace(/[^\d.,-]/g, '').replace(/,/g, '.');
+  if (!/^-?(\d+(\.\d*)?|\.\d+)$/.test(normalized)) return NaN;
+  return parseFloat(normalized);
+};
+
+/**
+ * Parse counterweight (tonnes) from sheet or file name, e.g. "72t" -> 72, "14.4t" -> 14.4,
+ * "72t (2)" -> 72 (second configuration with the same weight)
+ */
+export function parseCounterweightFromName(name: string): number | null {
+  const match = name.trim().match(/^(\d+(?:[.,]\d+)?)\s*t?(?:\s*\(\d+\))?$/i);
+  if (match) {
+    return parseFloat(match[1].replace(',', '.'));
+  }
+  return null;
+}
+
+/**
+ * Parse sheet rows (first row = boom lengths, first column = radii, cells in tonnes)
+ */
+export function parseLoadChartMatrix(rows: unknown[][]): LoadChartMatrix | null {
+  if (rows.length < 2) return null;
+
+  // First row = boom lengths (keep column index, empty header cells are skipped)
+  const headerRow = rows[0] || [];
+  const boomColumns: { col: number; boom: number }[] = [];
+  for (let i = 1; i < headerRow.length; i++) {
+    const boom = parseCell(headerRow[i]);
+    if (!isNaN(boom) && boom > 0) {
+      boomColumns.push({ col: i, boom });
+    }
+  }
+
+  if (boomColumns.length === 0) return null;
+
+  const radii: number[] = [];
+  const capacities: Record<string, number> = {};
+
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (!row || row.length === 0) continue;
+
+    const radius = parseCell(row[0]);
+    if (isNaN(radius) || radius <= 0) continue;
+
+    radii.push(radius);
+
+    for (const { col, boom } of boomColumns) {
+      const capacity = parseCell(row[col]);
+      if (!isNaN(capacity) && capacity > 0) {
+        capacities[`${radius}_${boom}`] = capacity * 1000; // to kg
+      }
+    }
+  }
+
+  if (radii.length === 0) return null;
+  return { boomLengths: boomColumns.map(c => c.boom), radii, capacities };
+}
+
+/**
+ * Check that capacity decreases (or stays equal) as radius grows, per boom length
+ */
+export function validateLoadChartMatrix(matrix: LoadChartMatrix): LoadChartMatrixIssue[] {
+  const issues: LoadChartMatrixIssue[] = [];
+  const sortedRadii = [...matrix.radii].sort((a, b) => a - b);
+
+  for (const boomLength of matrix.boomLengths) {
+    let previous: { radius: number; capacityKg: number } | null = null;
+    for (const radius of sortedRadii) {
+      const capacityKg = matrix.capacities[`${radius}_${boomLength}`];
+      if (!capacityKg) continue;
+      if (previous && capacityKg > previous.capacityKg) {
+        issues.push({
+          boomLength,
+          radius,
+          capacityKg,
+          previousRadius: previous.radius,
+          previousCapacityKg: previous.capacityKg
+        });
+      }
+      previous = { radius, capacityKg };
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Chart data points for one boom length column
+ */
+export function matrixToChartData(matrix: LoadChartMatrix, boomLength: number): LoadChartDataPoint[] {
+  const chartData: LoadChartDataPoint[] = [];
+  for (const radius of [...matrix.radii].sort((a, b) => a - b)) {
+    const capacity = matrix.capacities[`${radius}_${boomLength}`];
+    if (capacity && capacity > 0) {
+      chartData.push({ radius_m: radius, capacity_kg: capacity });
+    }
+  }
+  return chartData;
+}
+
+/**
+ * Build matrix from stored load charts of one counterweight
+ */
+export function loadChartsToMatrix(charts: LoadChart[]): LoadChartMatrix {
+  const boomLengths = [...new Set(charts.map(c => c.boom_length_m))].sort((a, b) => a - b);
+  const allRadii = new Set<number>();
+  const capacities: Record<string, number> = {};
+
+  for (const chart of charts) {
+    for (const point of chart.chart_data || []) {
+      allRadii.add(point.radius_m);
+      capacities[`${point.radius_m}_${chart.boom_length_m}`] = point.capacity_kg;
+    }
+  }
+
+  return { boomLengths, radii: [...allRadii].sort((a, b) => a - b), capacities };
+}
+
+/**
+ * Matrix as sheet rows (capacities in tonnes, empty cell where no value)
+ */
+export function matrixToRows(matrix: LoadChartMatrix): (string | number)[][] {
+  const rows: (string | number)[][] = [['m', ...matrix.boomLengths]];
+  for (const radius of matrix.radii) {
+    rows.push([
+      radius,
+      ...matrix.boomLengths.map(boom => {
+        const cap = matrix.capacities[`${radius}_${boom}`];
+        return cap ? cap / 1000 : '';
+      })
+    ]);
+  }
+  return rows;
+}
+
+/**
+ * Read CSV or XLSX load chart file. XLSX: every sheet named like "72t" is one counterweight.
+ * CSV: single matrix, counterweight is taken from the file name (e.g. "72t.csv").
+ */
+export async function readLoadChartFile(file: File): Promise<LoadChartImportSheet[]> {
+  const isCsv = /\.csv$/i.test(file.name);
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: 'string', raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: 'array' });
+
+  const sheets: LoadChartImportSheet[] = [];
+  for (const sheetName of workbook.SheetNames) {
+    const nameForWeight = isCsv ? file.name.replace(/\.csv$/i, '') : sheetName;
+    const counterweightT = parseCounterweightFromName(nameForWeight);
+    // XLSX sheets without a counterweight name (instructions etc.) are skipped
+    if (!isCsv && counterweightT === null) continue;
+
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1 }) as unknown[][];
+    const matrix = parseLoadChartMatrix(rows);
+    sheets.push({
+      sheetName: isCsv ? file.name : sheetName,
+      counterweightKg: counterweightT !== null ? counterweightT * 1000 : null,
+      matrix,
+      issues: matrix ? validateLoadChartMatrix(matrix) : []
+    });
+  }
+
+  return sheets;
+}
+
+/**
+ * Sheet name of a counterweight, parseable on re-import: "72t", then "72t (2)", "72t (3)"
+ * for further configurations with the same weight (sheet names must be unique)
+ */
+export function getCounterweightSheetName(weightKg: number, usedNames: Set<string>): string {
+  const base = `${weightKg / 1000}t`;
+  let name = base;
+  for (let index = 2; usedNames.has(name); index++) {
+    name = `${base} (${index})`;
+  }
+  return name;
+}
+
+/**
+ * Default target counterweight of each import sheet, keyed by sheet name (null = create new).
+ * A counterweight named like the sheet wins; otherwise the n-th sheet of a weight goes to the
+ * n-th counterweight of that weight, the order export writes "72t", "72t (2)". Each
+ * counterweight is the target of at most one sheet.
+ */
+export function matchImportCounterweights(
+  sheets: Pick<LoadChartImportSheet, 'sheetName' | 'counterweightKg'>[],
+  counterweights: CounterweightConfig[]
+): Record<string, string | null> {
+  const normalize = (name: string) => name.trim().toLowerCase();
+  const claimed = new Set<string>();
+  const targets: Record<string, string | null> = {};
+
+  for (const sheet of sheets) {
+    const byName = counterweights.find(cw => !claimed.has(cw.id) && normalize(cw.name) === normalize(sheet.sheetName));
+    targets[sheet.sheetName] = byName?.id || null;
+    if (byName) claimed.add(byName.id);
+  }
+
+  for (const sheet of sheets) {
+    if (targets[sheet.sheetName] || sheet.counterweightKg === null) continue;
+    const byWeight = counterweights.find(cw => !claimed.has(cw.id) && cw.weight_kg === sheet.counterweightKg);
+    if (byWeight) {
+      targets[sheet.sheetName] = byWeight.id;
+      claimed.add(byWeight.id);
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Export load charts in the import format (one sheet per counterweight)
+ */
+export function exportLoadChartWorkbook(
+  fileName: string,
+  groups: { counterweight: CounterweightConfig; charts: LoadChart[] }[]
+): void {
+  const wb = XLSX.utils.book_new();
+  const usedNames = new Set<string>();
+
+  for (const { counterweight, charts } of groups) {
+    if (charts.length === 0) continue;
+    const matrix = loadChartsToMatrix(charts);
+    const ws = XLSX.utils.aoa_to_sheet(matrixToRows(matrix));
+    ws['!cols'] = Array(matrix.boomLengths.length + 1).fill({ wch: 8 });
+    const sheetName = getCounterweightSheetName(counterweight.weight_kg, usedNames);
+    usedNames.add(sheetName);
+    XLSX.utils.book_append_sheet(wb, ws, sheetName);
+  }
+
+  XLSX.writeFile(wb, fileName);
+}
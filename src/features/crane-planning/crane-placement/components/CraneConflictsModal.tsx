@@ -0,0 +1,198 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import * as WorkspaceAPI from 'trimble-connect-workspace-api';
+import { FiX, FiLoader, FiEye, FiEyeOff, FiAlertTriangle } from 'react-icons/fi';
+import { ProjectCrane, CRANE_CONFLICT_COLOR } from '../../../../supabase';
+import { drawOverlapZone, removeCraneMarkups } from '../../crane-visualization/utils/trimbleMarkups';
+import { findCraneConflicts } from '../utils/craneConflicts';
+
+interface CraneConflictsModalProps {
+  api: WorkspaceAPI.WorkspaceAPI;
+  projectCranes: ProjectCrane[];
+  onClose: () => void;
+}
+
+export default function CraneConflictsModal({
+  api,
+  projectCranes,
+  onClose
+}: CraneConflictsModalProps) {
+  const { t } = useTranslation('common');
+  const conflicts = useMemo(() => findCraneConflicts(projectCranes), [projectCranes]);
+  const [markupIds, setMarkupIds] = useState<number[]>([]);
+  const [drawing, setDrawing] = useState(false);
+  const markupIdsRef = useRef<number[]>([]);
+
+  // Remove overlap markups when the modal closes
+  useEffect(() => {
+    return () => {
+      if (markupIdsRef.current.length > 0) {
+        removeCraneMarkups(api, markupIdsRef.current);
+      }
+    };
+  }, [api]);
+
+  const craneName = (crane: ProjectCrane) =>
+    crane.position_label || `${crane.crane_model?.manufacturer || ''} ${crane.crane_model?.model || ''}`.trim() || t('crane.unnamed');
+
+  const toggleInModel = async () => {
+    setDrawing(true);
+    try {
+      if (markupIds.length > 0) {
+        await removeCraneMarkups(api, markupIds);
+        markupIdsRef.current = [];
+        setMarkupIds([]);
+        return;
+      }
+
+      const ids: number[] = [];
+      for (const conflict of conflicts) {
+        if (conflict.overlapAreaM2 <= 0) continue;
+        const zoneIds = await drawOverlapZone(
+          api,
+          { x: conflict.craneA.position_x, y: conflict.craneA.position_y, z: conflict.craneA.position_z, radiusM: conflict.radiusA },
+          { x: conflict.craneB.position_x, y: conflict.craneB.position_y, z: conflict.craneB.position_z, radiusM: conflict.radiusB },
+          CRANE_CONFLICT_COLOR
+        );
+        ids.push(...zoneIds);
+      }
+      console.log(`✅ Drew ${ids.length} crane overlap markups`);
+      markupIdsRef.current = ids;
+      setMarkupIds(ids);
+    } catch (err) {
+      console.error('Error drawing crane conflicts:', err);
+    } finally {
+      setDrawing(false);
+    }
+  };
+
+  const cellStyle: React.CSSProperties = { padding: '6px 8px', borderBottom: '1px solid #f3f4f6' };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 10000
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        boxShadow: '0 8px 32px rgba(0,0,0,0.2)',
+        maxWidth: '720px',
+        width: '95%',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column'
+      }}>
+        {/* Modal header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: '16px', fontWeight: 600 }}>{t('craneConflicts.title')}</h3>
+            <p style={{ margin: '4px 0 0 0', fontSize: '12px', color: '#6b7280' }}>
+              {t('craneConflicts.subtitle', { cranes: projectCranes.length, conflicts: conflicts.length })}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: '8px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', borderRadius: '4px' }}
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        {/* Modal content */}
+        <div style={{ padding: '16px 20px', overflow: 'auto', flex: 1 }}>
+          {conflicts.length === 0 ? (
+            <div style={{ textAlign: 'center', padding: '24px', color: '#16a34a', fontSize: '13px' }}>
+              {projectCranes.length < 2 ? t('craneConflicts.needTwoCranes') : t('craneConflicts.noConflicts')}
+            </div>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+                  <th style={cellStyle}>{t('craneConflicts.pair')}</th>
+                  <th style={cellStyle}>{t('craneConflicts.conflict')}</th>
+                  <th style={cellStyle}>{t('craneConflicts.distance')}</th>
+                  <th style={cellStyle}>{t('craneConflicts.radii')}</th>
+                  <th style={cellStyle}>{t('craneConflicts.overlapArea')}</th>
+                  <th style={cellStyle}>{t('craneConflicts.boomTipHeights')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {conflicts.map(conflict => (
+                  <tr key={`${conflict.craneA.id}_${conflict.craneB.id}`}>
+                    <td style={{ ...cellStyle, fontWeight: 600 }}>
+                      {craneName(conflict.craneA)} ↔ {craneName(conflict.craneB)}
+                    </td>
+                    <td style={cellStyle}>
+                      {conflict.types.map(type => (
+                        <div key={type} style={{
+                          display: 'flex',
+                          alignItems: 'center',
+                          gap: '4px',
+                          color: type === 'mast_strike' ? '#dc2626' : '#c026d3'
+                        }}>
+                          <FiAlertTriangle size={12} /> {t(`craneConflicts.type.${type}`)}
+                        </div>
+                      ))}
+                    </td>
+                    <td style={cellStyle}>{conflict.distanceM.toFixed(1)}m</td>
+                    <td style={cellStyle}>{conflict.radiusA.toFixed(1)}m / {conflict.radiusB.toFixed(1)}m</td>
+                    <td style={cellStyle}>{conflict.overlapAreaM2.toFixed(1)} m²</td>
+                    <td style={cellStyle}>
+                      {conflict.boomTipHeightA.toFixed(1)}m / {conflict.boomTipHeightB.toFixed(1)}m
+                      <div style={{ color: '#6b7280', fontSize: '11px' }}>
+                        {t('craneConflicts.verticalClearance', { value: conflict.verticalClearanceM.toFixed(1) })}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Modal footer */}
+        <div style={{
+          padding: '12px 20px',
+          borderTop: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'flex-end'
+        }}>
+          <button
+            onClick={toggleInModel}
+            disabled={drawing || conflicts.every(c => c.overlapAreaM2 <= 0)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              padding: '8px 16px',
+              borderRadius: '6px',
+              fontSize: '13px',
+              border: 'none',
+              backgroundColor: 'var(--modus-primary)',
+              color: 'white',
+              cursor: 'pointer'
+            }}
+          >
+            {drawing ? <FiLoader size={14} className="spin" /> : markupIds.length > 0 ? <FiEyeOff size={14} /> : <FiEye size={14} />}
+            {markupIds.length > 0 ? t('craneConflicts.hideInModel') : t('craneConflicts.showInModel')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
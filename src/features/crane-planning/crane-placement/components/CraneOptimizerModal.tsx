@@ -0,0 +1,440 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import * as WorkspaceAPI from 'trimble-connect-workspace-api';
+import { FiX, FiLoader, FiAlertCircle, FiTarget, FiPlus, FiTrash2, FiCrosshair, FiMaximize, FiCheck, FiEyeOff } from 'react-icons/fi';
+import {
+  CraneModel,
+  ProjectCrane,
+  DEFAULT_CRANE_COLOR,
+  DEFAULT_RADIUS_COLOR,
+  DEFAULT_LABEL_COLOR
+} from '../../../../supabase';
+import { useCounterweights } from '../../crane-library/hooks/useCounterweights';
+import { useLoadCharts } from '../../crane-library/hooks/useLoadCharts';
+import { getChartDataForBoomLength } from '../../load-calculator/utils/liftingCalculations';
+import { useCraneOptimizer } from '../hooks/useCraneOptimizer';
+import { OptimizerObjective, PlacementPoint } from '../utils/craneOptimizer';
+
+export type OptimizedCranePlacement = {
+  craneModelId: string;
+  counterweightId: string;
+  boomLengthM: number;
+  hookWeightKg: number;
+  liftingBlockKg: number;
+  safetyFactor: number;
+  position: { x: number; y: number; z: number };
+};
+
+interface CraneOptimizerModalProps {
+  api: WorkspaceAPI.WorkspaceAPI;
+  projectId: string;
+  craneModels: CraneModel[];
+  onUsePlacement: (placement: OptimizedCranePlacement) => void;
+  onClose: () => void;
+}
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+export default function CraneOptimizerModal({
+  api,
+  projectId,
+  craneModels,
+  onUsePlacement,
+  onClose
+}: CraneOptimizerModalProps) {
+  const { t } = useTranslation('common');
+  const {
+    elements, missingWeight, baseZ, candidates, loading, running, error,
+    loadSelection, runOptimizer, drawGhosts, clearGhosts
+  } = useCraneOptimizer(api, projectId);
+
+  const activeModels = craneModels.filter(c => c.is_active);
+  const [craneModelId, setCraneModelId] = useState(activeModels[0]?.id || '');
+  const [counterweightId, setCounterweightId] = useState('');
+  const [boomLength, setBoomLength] = useState(0);
+  const [hookWeightKg, setHookWeightKg] = useState(500);
+  const [liftingBlockKg, setLiftingBlockKg] = useState(200);
+  const [safetyFactor, setSafetyFactor] = useState(1.25);
+  const [polygon, setPolygon] = useState<PlacementPoint[]>([]);
+  const [marginM, setMarginM] = useState(10);
+  const [objective, setObjective] = useState<OptimizerObjective>('max_liftable');
+  const [gridStepM, setGridStepM] = useState(2);
+  const [topN, setTopN] = useState(3);
+  const [selectionMessage, setSelectionMessage] = useState<string | null>(null);
+
+  const craneModel = craneModels.find(c => c.id === craneModelId);
+  const { counterweights } = useCounterweights(craneModelId);
+  const { loadCharts } = useLoadCharts(craneModelId, counterweightId);
+
+  const boomLengths = useMemo(
+    () => [...new Set(loadCharts.map(lc => lc.boom_length_m))].sort((a, b) => a - b),
+    [loadCharts]
+  );
+
+  // Default to first counterweight and longest boom
+  useEffect(() => {
+    if (counterweights.length > 0 && !counterweights.some(cw => cw.id === counterweightId)) {
+      setCounterweightId(counterweights[0].id);
+    }
+  }, [counterweights, counterweightId]);
+
+  useEffect(() => {
+    if (boomLengths.length > 0 && !boomLengths.includes(boomLength)) {
+      setBoomLength(boomLengths[boomLengths.length - 1]);
+    }
+  }, [boomLengths, boomLength]);
+
+  // Remove ghost cranes when the modal closes
+  useEffect(() => {
+    return () => { clearGhosts(); };
+  }, [clearGhosts]);
+
+  const grossChartData = useMemo(
+    () => getChartDataForBoomLength(loadCharts.filter(lc => lc.counterweight_config_id === counterweightId), boomLength),
+    [loadCharts, counterweightId, boomLength]
+  );
+
+  const baseCrane = useMemo((): ProjectCrane => ({
+    id: 'optimizer',
+    trimble_project_id: projectId,
+    crane_model_id: craneModelId,
+    counterweight_config_id: counterweightId || undefined,
+    position_x: 0,
+    position_y: 0,
+    position_z: baseZ,
+    rotation_deg: 0,
+    boom_length_m: boomLength,
+    boom_angle_deg: 45,
+    hook_weight_kg: hookWeightKg,
+    lifting_block_kg: liftingBlockKg,
+    safety_factor: safetyFactor,
+    crane_color: DEFAULT_CRANE_COLOR,
+    radius_color: DEFAULT_RADIUS_COLOR,
+    label_color: DEFAULT_LABEL_COLOR,
+    show_radius_rings: true,
+    radius_step_m: 5,
+    show_capacity_labels: true,
+    markup_ids: [],
+    created_by_email: '',
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    crane_model: craneModel
+  } as ProjectCrane), [projectId, craneModelId, counterweightId, baseZ, boomLength, hookWeightKg, liftingBlockKg, safetyFactor, craneModel]);
+
+  const handleLoadSelection = async () => {
+    const result = await loadSelection();
+    if (!result) return;
+    if (result.elements.length === 0) {
+      setSelectionMessage(t('craneOptimizer.noElementsSelected'));
+    } else {
+      setSelectionMessage(null);
+      // Default placement area: element extents + margin
+      if (polygon.length === 0) setPolygonAroundElements(result.elements.map(e => e.position));
+    }
+  };
+
+  const setPolygonAroundElements = (positions: PlacementPoint[] = elements.map(e => e.position)) => {
+    if (positions.length === 0) return;
+    const minX = Math.min(...positions.map(p => p.x)) - marginM;
+    const maxX = Math.max(...positions.map(p => p.x)) + marginM;
+    const minY = Math.min(...positions.map(p => p.y)) - marginM;
+    const maxY = Math.max(...positions.map(p => p.y)) + marginM;
+    setPolygon([
+      { x: round1(minX), y: round1(minY) },
+      { x: round1(maxX), y: round1(minY) },
+      { x: round1(maxX), y: round1(maxY) },
+      { x: round1(minX), y: round1(maxY) }
+    ]);
+  };
+
+  // Add the center of the first selected object as a polygon vertex
+  const addVertexFromSelection = async () => {
+    try {
+      const sel = await api.viewer.getSelection();
+      const runtimeId = sel?.[0]?.objectRuntimeIds?.[0];
+      if (!sel || runtimeId === undefined) {
+        alert(t('crane.selectObjectsFromModel'));
+        return;
+      }
+      const bboxes = await api.viewer.getObjectBoundingBoxes(sel[0].modelId, [runtimeId]);
+      const b = bboxes?.[0]?.boundingBox;
+      if (!b) return;
+      setPolygon(prev => [...prev, { x: round1((b.min.x + b.max.x) / 2), y: round1((b.min.y + b.max.y) / 2) }]);
+    } catch (err) {
+      console.error('Error adding polygon vertex:', err);
+    }
+  };
+
+  const updateVertex = (index: number, axis: 'x' | 'y', value: number) => {
+    setPolygon(prev => prev.map((p, i) => (i === index ? { ...p, [axis]: value } : p)));
+  };
+
+  const handleRun = async () => {
+    if (!craneModel) return;
+    const result = await runOptimizer(baseCrane, grossChartData, polygon, { objective, gridStepM, topN });
+    // Capacity labels show net capacity, same as placed cranes
+    const netChartData = grossChartData.map(point => ({
+      radius_m: point.radius_m,
+      capacity_kg: Math.max(0, (point.capacity_kg - hookWeightKg - liftingBlockKg) / safetyFactor)
+    }));
+    await drawGhosts(result, baseCrane, craneModel, netChartData);
+  };
+
+  const handleUse = async (index: number) => {
+    const candidate = candidates[index];
+    await clearGhosts();
+    onUsePlacement({
+      craneModelId,
+      counterweightId,
+      boomLengthM: boomLength,
+      hookWeightKg,
+      liftingBlockKg,
+      safetyFactor,
+      position: { x: round1(candidate.x), y: round1(candidate.y), z: baseZ }
+    });
+  };
+
+  const canRun = elements.length > 0 && polygon.length >= 3 && !!craneModel && grossChartData.length > 0 && !running;
+
+  const sectionTitle: React.CSSProperties = { fontSize: '13px', fontWeight: 600, margin: '0 0 6px 0' };
+  const inputStyle: React.CSSProperties = { padding: '4px 6px', fontSize: '12px', borderRadius: '4px', border: '1px solid #d1d5db', width: '80px' };
+  const smallBtn: React.CSSProperties = {
+    display: 'flex', alignItems: 'center', gap: '4px', padding: '4px 8px', fontSize: '12px',
+    borderRadius: '4px', border: '1px solid #e5e7eb', backgroundColor: 'white', cursor: 'pointer'
+  };
+  const formatUtil = (value: number | null) =>
+    value === null ? '-' : value === Infinity ? t('craneOptimizer.outOfReach') : `${value}%`;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 10000
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        boxShadow: '0 8px 32px rgba(0,0,0,0.2)',
+        maxWidth: '720px',
+        width: '95%',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column'
+      }}>
+        {/* Modal header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: '16px', fontWeight: 600 }}>{t('craneOptimizer.title')}</h3>
+            <p style={{ margin: '4px 0 0 0', fontSize: '12px', color: '#6b7280' }}>{t('craneOptimizer.subtitle')}</p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: '8px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', borderRadius: '4px' }}
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        {/* Modal content */}
+        <div style={{ padding: '16px 20px', overflow: 'auto', flex: 1, display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          {error && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#dc2626', padding: '12px', backgroundColor: '#fef2f2', borderRadius: '8px', fontSize: '12px' }}>
+              <FiAlertCircle /> {t('crane.error', { message: error })}
+            </div>
+          )}
+
+          {/* Elements */}
+          <div>
+            <p style={sectionTitle}>{t('craneOptimizer.elements')}</p>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px' }}>
+              <button onClick={handleLoadSelection} disabled={loading} style={smallBtn}>
+                {loading ? <FiLoader size={12} className="spin" /> : <FiCrosshair size={12} />} {t('craneOptimizer.loadSelection')}
+              </button>
+              <span>{t('craneOptimizer.elementCount', { count: elements.length })}</span>
+              {missingWeight > 0 && (
+                <span style={{ color: '#d97706' }}>{t('craneOptimizer.missingWeight', { count: missingWeight })}</span>
+              )}
+            </div>
+            {selectionMessage && <div style={{ fontSize: '12px', color: '#d97706', marginTop: '4px' }}>{selectionMessage}</div>}
+          </div>
+
+          {/* Crane */}
+          <div>
+            <p style={sectionTitle}>{t('craneOptimizer.crane')}</p>
+            <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', fontSize: '12px', alignItems: 'center' }}>
+              <select value={craneModelId} onChange={e => setCraneModelId(e.target.value)} style={{ ...inputStyle, width: 'auto' }}>
+                {activeModels.map(c => (
+                  <option key={c.id} value={c.id}>{c.manufacturer} {c.model}</option>
+                ))}
+              </select>
+              <select value={counterweightId} onChange={e => setCounterweightId(e.target.value)} style={{ ...inputStyle, width: 'auto' }}>
+                {counterweights.map(cw => (
+                  <option key={cw.id} value={cw.id}>{cw.name}</option>
+                ))}
+              </select>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                {t('craneOptimizer.boomLength')}
+                <select value={boomLength} onChange={e => setBoomLength(Number(e.target.value))} style={{ ...inputStyle, width: 'auto' }}>
+                  {boomLengths.map(l => <option key={l} value={l}>{l} m</option>)}
+                </select>
+              </label>
+            </div>
+            <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', fontSize: '12px', alignItems: 'center', marginTop: '6px' }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                {t('craneOptimizer.hookWeight')}
+                <input type="number" value={hookWeightKg} onChange={e => setHookWeightKg(Number(e.target.value) || 0)} style={inputStyle} />
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                {t('craneOptimizer.liftingBlock')}
+                <input type="number" value={liftingBlockKg} onChange={e => setLiftingBlockKg(Number(e.target.value) || 0)} style={inputStyle} />
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                {t('craneOptimizer.safetyFactor')}
+                <input type="number" step="0.05" min="1" value={safetyFactor} onChange={e => setSafetyFactor(Number(e.target.value) || 1)} style={inputStyle} />
+              </label>
+            </div>
+            {craneModel && grossChartData.length === 0 && (
+              <div style={{ fontSize: '12px', color: '#d97706', marginTop: '4px' }}>{t('craneOptimizer.noLoadChart')}</div>
+            )}
+          </div>
+
+          {/* Placement polygon */}
+          <div>
+            <p style={sectionTitle}>{t('craneOptimizer.placementArea')}</p>
+            <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', fontSize: '12px', alignItems: 'center', marginBottom: '6px' }}>
+              <button onClick={() => setPolygonAroundElements()} disabled={elements.length === 0} style={smallBtn}>
+                <FiMaximize size={12} /> {t('craneOptimizer.aroundElements')}
+              </button>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                {t('craneOptimizer.margin')}
+                <input type="number" value={marginM} onChange={e => setMarginM(Number(e.target.value) || 0)} style={{ ...inputStyle, width: '60px' }} />
+              </label>
+              <button onClick={addVertexFromSelection} style={smallBtn}>
+                <FiPlus size={12} /> {t('craneOptimizer.addVertex')}
+              </button>
+            </div>
+            {polygon.length === 0 ? (
+              <div style={{ fontSize: '12px', color: '#6b7280' }}>{t('craneOptimizer.noPolygon')}</div>
+            ) : (
+              polygon.map((p, i) => (
+                <div key={i} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', marginBottom: '4px' }}>
+                  <span style={{ width: '20px', color: '#6b7280' }}>{i + 1}.</span>
+                  X <input type="number" value={p.x} onChange={e => updateVertex(i, 'x', Number(e.target.value))} style={inputStyle} />
+                  Y <input type="number" value={p.y} onChange={e => updateVertex(i, 'y', Number(e.target.value))} style={inputStyle} />
+                  <button onClick={() => setPolygon(prev => prev.filter((_, j) => j !== i))} style={{ ...smallBtn, color: '#dc2626' }}>
+                    <FiTrash2 size={12} />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Search settings */}
+          <div>
+            <p style={sectionTitle}>{t('craneOptimizer.objective')}</p>
+            <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap', fontSize: '12px', alignItems: 'center' }}>
+              {(['max_liftable', 'min_worst_utilization'] as OptimizerObjective[]).map(o => (
+                <label key={o} style={{ display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}>
+                  <input type="radio" checked={objective === o} onChange={() => setObjective(o)} />
+                  {t(`craneOptimizer.objectives.${o}`)}
+                </label>
+              ))}
+              <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                {t('craneOptimizer.gridStep')}
+                <input type="number" min="0.5" step="0.5" value={gridStepM} onChange={e => setGridStepM(Math.max(0.5, Number(e.target.value) || 0.5))} style={{ ...inputStyle, width: '60px' }} />
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                {t('craneOptimizer.topN')}
+                <input type="number" min="1" max="10" value={topN} onChange={e => setTopN(Math.min(10, Math.max(1, Number(e.target.value) || 1)))} style={{ ...inputStyle, width: '50px' }} />
+              </label>
+            </div>
+          </div>
+
+          {/* Results */}
+          {candidates.length > 0 && (
+            <div>
+              <p style={sectionTitle}>{t('craneOptimizer.results')}</p>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                <thead>
+                  <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+                    <th style={{ padding: '6px 8px' }}>#</th>
+                    <th style={{ padding: '6px 8px' }}>{t('craneOptimizer.position')}</th>
+                    <th style={{ padding: '6px 8px' }}>{t('craneOptimizer.liftable')}</th>
+                    <th style={{ padding: '6px 8px' }}>{t('craneOptimizer.maxUtilization')}</th>
+                    <th style={{ padding: '6px 8px' }}>{t('craneOptimizer.worstUtilization')}</th>
+                    <th style={{ padding: '6px 8px' }} />
+                  </tr>
+                </thead>
+                <tbody>
+                  {candidates.map((c, i) => (
+                    <tr key={`${c.x}-${c.y}`} style={{ borderBottom: '1px solid #f3f4f6' }}>
+                      <td style={{ padding: '6px 8px', fontWeight: 600 }}>{i + 1}</td>
+                      <td style={{ padding: '6px 8px' }}>{round1(c.x)}, {round1(c.y)}</td>
+                      <td style={{ padding: '6px 8px', color: c.liftableCount === elements.length ? '#16a34a' : '#dc2626' }}>
+                        {c.liftableCount}/{elements.length}
+                      </td>
+                      <td style={{ padding: '6px 8px' }}>{formatUtil(c.maxUtilizationPct)}</td>
+                      <td style={{ padding: '6px 8px' }}>{formatUtil(c.worstUtilizationPct)}</td>
+                      <td style={{ padding: '6px 8px', textAlign: 'right' }}>
+                        <button onClick={() => handleUse(i)} style={{ ...smallBtn, marginLeft: 'auto' }}>
+                          <FiCheck size={12} /> {t('craneOptimizer.use')}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Modal footer */}
+        <div style={{
+          padding: '12px 20px',
+          borderTop: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '8px'
+        }}>
+          <button
+            onClick={clearGhosts}
+            disabled={candidates.length === 0}
+            style={{ ...footerBtnStyle, backgroundColor: 'white', color: '#374151', border: '1px solid #e5e7eb' }}
+          >
+            <FiEyeOff size={14} /> {t('craneOptimizer.clearGhosts')}
+          </button>
+          <button
+            onClick={handleRun}
+            disabled={!canRun}
+            style={{ ...footerBtnStyle, backgroundColor: canRun ? 'var(--modus-primary)' : '#d1d5db', color: 'white', border: 'none' }}
+          >
+            {running ? <FiLoader size={14} className="spin" /> : <FiTarget size={14} />} {t('craneOptimizer.run')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const footerBtnStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  padding: '8px 16px',
+  borderRadius: '6px',
+  fontSize: '13px',
+  cursor: 'pointer'
+};
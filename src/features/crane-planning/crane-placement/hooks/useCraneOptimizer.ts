@@ -0,0 +1,218 @@
+import { useState, useCallback, useRef } from 'react';
+import * as WorkspaceAPI from 'trimble-connect-workspace-api';
+import { CraneModel, LoadChartDataPoint, ProjectCrane } from '../../../../supabase';
+import { useProjectPropertyMappings } from '../../../../contexts/PropertyMappingsContext';
+import { drawCraneToModelGrouped, removeCraneMarkups } from '../../crane-visualization/utils/trimbleMarkups';
+import { parseCastUnitWeight } from '../../lift-plan/utils/liftPlanAnalysis';
+import {
+  optimizeCranePlacement,
+  OptimizerElement,
+  OptimizerOptions,
+  PlacementCandidate,
+  PlacementPoint
+} from '../utils/craneOptimizer';
+
+// Ghost cranes are drawn semi-transparent so they are not mistaken for placed cranes
+const GHOST_CRANE_COLOR = { r: 59, g: 130, b: 246, a: 140 };
+const GHOST_RADIUS_COLOR = { r: 59, g: 130, b: 246, a: 90 };
+
+interface SelectedElementsResult {
+  elements: OptimizerElement[];
+  missingWeight: number;
+  baseZ: number;
+}
+
+interface UseCraneOptimizerResult {
+  elements: OptimizerElement[];
+  missingWeight: number;
+  baseZ: number;
+  candidates: PlacementCandidate[];
+  loading: boolean;
+  running: boolean;
+  error: string | null;
+  loadSelection: () => Promise<SelectedElementsResult | null>;
+  runOptimizer: (
+    baseCrane: ProjectCrane,
+    chartData: LoadChartDataPoint[],
+    polygon: PlacementPoint[],
+    options: OptimizerOptions
+  ) => Promise<PlacementCandidate[]>;
+  drawGhosts: (
+    ghosts: PlacementCandidate[],
+    baseCrane: ProjectCrane,
+    craneModel: CraneModel,
+    chartData: LoadChartDataPoint[]
+  ) => Promise<void>;
+  clearGhosts: () => Promise<void>;
+}
+
+const normalize = (s: string) => s.replace(/\s+/g, '').toLowerCase();
+
+export function useCraneOptimizer(api: WorkspaceAPI.WorkspaceAPI, projectId: string): UseCraneOptimizerResult {
+  const { mappings } = useProjectPropertyMappings(projectId);
+  const [elements, setElements] = useState<OptimizerElement[]>([]);
+  const [missingWeight, setMissingWeight] = useState(0);
+  const [baseZ, setBaseZ] = useState(0);
+  const [candidates, setCandidates] = useState<PlacementCandidate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const ghostMarkupIdsRef = useRef<number[]>([]);
+
+  // Read positions (bbox center) and cast unit weights of the current model selection
+  const loadSelection = useCallback(async (): Promise<SelectedElementsResult | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const selection = await api.viewer.getSelection();
+      const result: OptimizerElement[] = [];
+      let missing = 0;
+      let minZ = Infinity;
+
+      for (const modelSel of selection || []) {
+        const runtimeIds = modelSel.objectRuntimeIds || [];
+        if (runtimeIds.length === 0) continue;
+
+        const [bboxes, props, guids] = await Promise.all([
+          api.viewer.getObjectBoundingBoxes(modelSel.modelId, runtimeIds),
+          api.viewer.getObjectProperties(modelSel.modelId, runtimeIds),
+          api.viewer.convertToObjectIds(modelSel.modelId, runtimeIds)
+        ]);
+        const bboxById = new Map(bboxes.map(b => [b.id, b.boundingBox]));
+
+        for (let i = 0; i < runtimeIds.length; i++) {
+          const b = bboxById.get(runtimeIds[i]);
+          if (!b) continue;
+
+          let assemblyMark = `Object_${runtimeIds[i]}`;
+          let weight: string | undefined;
+          for (const pset of ((props[i] as any)?.properties || [])) {
+            const setNorm = normalize(pset.name || '');
+            for (const prop of (pset.properties || [])) {
+              const nameNorm = normalize(prop.name || '');
+              const value = prop.displayValue ?? prop.value;
+              if (value === undefined || value === null || value === '') continue;
+
+              if (setNorm === normalize(mappings.assembly_mark_set) && nameNorm === normalize(mappings.assembly_mark_prop)) {
+                assemblyMark = String(value);
+              }
+              if (!weight && setNorm === normalize(mappings.weight_set) && nameNorm === normalize(mappings.weight_prop)) {
+                weight = String(value);
+              }
+            }
+          }
+
+          const weightKg = parseCastUnitWeight(weight);
+          if (weightKg === null) {
+            missing++;
+            continue;
+          }
+
+          minZ = Math.min(minZ, b.min.z);
+          result.push({
+            guid: guids?.[i] || `${modelSel.modelId}:${runtimeIds[i]}`,
+            assemblyMark,
+            weightKg,
+            position: {
+              x: (b.min.x + b.max.x) / 2,
+              y: (b.min.y + b.max.y) / 2,
+              z: (b.min.z + b.max.z) / 2
+            }
+          });
+        }
+      }
+
+      const z = minZ === Infinity ? 0 : minZ;
+      setElements(result);
+      setMissingWeight(missing);
+      setBaseZ(z);
+      console.log(`🔍 Optimizer: ${result.length} elements loaded, ${missing} without weight`);
+      return { elements: result, missingWeight: missing, baseZ: z };
+    } catch (err) {
+      console.error('Error loading selected elements:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [api, mappings]);
+
+  const runOptimizer = useCallback(async (
+    baseCrane: ProjectCrane,
+    chartData: LoadChartDataPoint[],
+    polygon: PlacementPoint[],
+    options: OptimizerOptions
+  ): Promise<PlacementCandidate[]> => {
+    setRunning(true);
+    setError(null);
+
+    try {
+      // Let the UI render the running state before the synchronous search
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const result = optimizeCranePlacement(baseCrane, chartData, elements, polygon, options);
+      setCandidates(result);
+      console.log(`✅ Optimizer: ${result.length} candidates, best lifts ${result[0]?.liftableCount ?? 0}/${elements.length}`);
+      return result;
+    } catch (err) {
+      console.error('Error optimizing crane placement:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return [];
+    } finally {
+      setRunning(false);
+    }
+  }, [elements]);
+
+  const clearGhosts = useCallback(async () => {
+    if (ghostMarkupIdsRef.current.length === 0) return;
+    const ids = ghostMarkupIdsRef.current;
+    ghostMarkupIdsRef.current = [];
+    await removeCraneMarkups(api, ids);
+  }, [api]);
+
+  // Draw candidates as ghost cranes labelled #1..#N
+  const drawGhosts = useCallback(async (
+    ghosts: PlacementCandidate[],
+    baseCrane: ProjectCrane,
+    craneModel: CraneModel,
+    chartData: LoadChartDataPoint[]
+  ) => {
+    await clearGhosts();
+    const ids: number[] = [];
+    try {
+      for (let i = 0; i < ghosts.length; i++) {
+        const candidate = ghosts[i];
+        const ghost: ProjectCrane = {
+          ...baseCrane,
+          id: `ghost-${i + 1}`,
+          position_x: candidate.x,
+          position_y: candidate.y,
+          position_label: `#${i + 1} (${candidate.liftableCount}/${elements.length})`,
+          crane_color: GHOST_CRANE_COLOR,
+          radius_color: GHOST_RADIUS_COLOR,
+          show_capacity_labels: i === 0
+        };
+        const groups = await drawCraneToModelGrouped(api, ghost, craneModel, chartData.length > 0 ? chartData : undefined);
+        ids.push(...groups.all);
+      }
+    } catch (err) {
+      console.error('Error drawing ghost cranes:', err);
+    } finally {
+      ghostMarkupIdsRef.current = ids;
+    }
+  }, [api, elements.length, clearGhosts]);
+
+  return {
+    elements,
+    missingWeight,
+    baseZ,
+    candidates,
+    loading,
+    running,
+    error,
+    loadSelection,
+    runOptimizer,
+    drawGhosts,
+    clearGhosts
+  };
+}
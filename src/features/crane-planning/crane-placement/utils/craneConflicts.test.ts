@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MIN_VERTICAL_CLEARANCE_M,
+  circleIntersectionArea,
+  findCraneConflicts,
+  getBoomClearanceOver,
+  getBoomTipHeight
+} from './craneConflicts';
+import { ProjectCrane } from '../../../../supabase';
+
+const makeCrane = (id: string, x: number, overrides: Partial<ProjectCrane> = {}) => ({
+  id,
+  crane_model_id: 'model-1',
+  position_x: x,
+  position_y: 0,
+  position_z: 0,
+  boom_length_m: 30,
+  boom_angle_deg: 30,
+  crane_model: { base_width_m: 4, base_length_m: 4 },
+  ...overrides
+}) as ProjectCrane;
+
+describe('circleIntersectionArea', () => {
+  it('returns 0 for disjoint circles', () => {
+    expect(circleIntersectionArea(10, 10, 25)).toBe(0);
+    expect(circleIntersectionArea(10, 10, 20)).toBe(0);
+  });
+
+  it('returns the smaller circle area when one contains the other', () => {
+    expect(circleIntersectionArea(20, 5, 3)).toBeCloseTo(Math.PI * 25);
+    expect(circleIntersectionArea(5, 5, 0)).toBeCloseTo(Math.PI * 25);
+  });
+
+  it('computes the lens area of partially overlapping circles', () => {
+    // Two unit circles one radius apart: 2π/3 - √3/2
+    expect(circleIntersectionArea(1, 1, 1)).toBeCloseTo((2 * Math.PI) / 3 - Math.sqrt(3) / 2);
+    const area = circleIntersectionArea(10, 10, 15);
+    expect(area).toBeGreaterThan(0);
+    expect(area).toBeLessThan(Math.PI * 100);
+  });
+});
+
+describe('findCraneConflicts', () => {
+  it('reports nothing for cranes out of reach of each other', () => {
+    expect(findCraneConflicts([makeCrane('a', 0), makeCrane('b', 100)])).toEqual([]);
+  });
+
+  it('reports an overlap only when neither boom reaches the other crane', () => {
+    const conflicts = findCraneConflicts([makeCrane('a', 0), makeCrane('b', 50)]);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].types).toEqual(['overlap']);
+    expect(conflicts[0].overlapAreaM2).toBeGreaterThan(0);
+  });
+
+  it('reports a mast strike when a boom reaches the other crane at a similar height', () => {
+    const conflicts = findCraneConflicts([makeCrane('a', 0), makeCrane('b', 20)]);
+    expect(conflicts[0].types).toEqual(['overlap', 'mast_strike']);
+    expect(conflicts[0].verticalClearanceM).toBeLessThan(MIN_VERTICAL_CLEARANCE_M);
+  });
+
+  it('reports a mast strike when the boom is low over the other crane although its tip is higher', () => {
+    // 40m boom at 30°: tip at 23.5m, but only ~7.6m high over the near edge of B 10m away
+    const long = makeCrane('long', 0, { boom_length_m: 40 });
+    const tower = makeCrane('tower', 10, { boom_length_m: 16.75, boom_angle_deg: 80, max_radius_limit_m: 3 });
+    expect(getBoomTipHeight(tower)).toBeCloseTo(20, 0);
+    expect(getBoomTipHeight(long) - getBoomTipHeight(tower)).toBeGreaterThan(MIN_VERTICAL_CLEARANCE_M);
+
+    const clearance = getBoomClearanceOver(long, tower, 10);
+    expect(clearance).toBeCloseTo(3.5 + (10 - Math.hypot(4, 4) / 2) * Math.tan(Math.PI / 6) - getBoomTipHeight(tower));
+    expect(getBoomClearanceOver(tower, long, 10)).toBeNull();
+
+    const conflicts = findCraneConflicts([long, tower]);
+    expect(conflicts[0].types).toContain('mast_strike');
+    expect(conflicts[0].verticalClearanceM).toBeCloseTo(clearance!);
+  });
+
+  it('only checks the boom within its horizontal reach', () => {
+    // 30m boom at 60° reaches 15m horizontally - crane B's near edge is ~17m away
+    const steep = makeCrane('steep', 0, { boom_angle_deg: 60 });
+    const other = makeCrane('other', 20, { boom_length_m: 5, boom_angle_deg: 10 });
+    expect(getBoomClearanceOver(steep, other, 20)).toBeNull();
+    expect(findCraneConflicts([steep, other])[0].types).toEqual(['overlap']);
+  });
+
+  it('reports a mast strike when the lower boom reaches the taller crane', () => {
+    // Long low boom reaches a short steep crane whose boom tip is higher
+    const low = makeCrane('low', 0, { boom_length_m: 40, boom_angle_deg: 10 });
+    const tall = makeCrane('tall', 35, { boom_length_m: 20, boom_angle_deg: 80 });
+    expect(getBoomTipHeight(tall)).toBeGreaterThan(getBoomTipHeight(low));
+
+    const conflicts = findCraneConflicts([low, tall]);
+    expect(conflicts[0].types).toContain('mast_strike');
+  });
+
+  it('does not report a mast strike when the boom clears the other crane', () => {
+    const high = makeCrane('high', 0, { boom_length_m: 40, boom_angle_deg: 45 });
+    const low = makeCrane('low', 20, { boom_length_m: 5, boom_angle_deg: 10 });
+
+    const conflicts = findCraneConflicts([high, low]);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].types).toEqual(['overlap']);
+    expect(conflicts[0].verticalClearanceM).toBeGreaterThan(MIN_VERTICAL_CLEARANCE_M);
+  });
+
+  it('sorts mast strikes before overlaps', () => {
+    const conflicts = findCraneConflicts([makeCrane('a', 0), makeCrane('b', 50), makeCrane('c', 70)]);
+    expect(conflicts.map(c => c.types.includes('mast_strike'))).toEqual([true, false]);
+    expect(conflicts[0].craneA.id).toBe('b');
+    expect(conflicts[0].craneB.id).toBe('c');
+  });
+});
@@ -0,0 +1,145 @@
+import { ProjectCrane } from '../../../../supabase';
+
+// Boom pivot height above crane base (same as lifting calculation in planner)
+export const BOOM_PIVOT_HEIGHT_M = 3.5;
+
+// A boom passing over another crane needs at least this much height above its top (boom tip)
+export const MIN_VERTICAL_CLEARANCE_M = 2;
+
+export type CraneConflictType = 'overlap' | 'mast_strike';
+
+export type CraneConflict = {
+  craneA: ProjectCrane;
+  craneB: ProjectCrane;
+  distanceM: number;       // Horizontal distance between crane centers
+  radiusA: number;         // Working radius of crane A (m)
+  radiusB: number;         // Working radius of crane B (m)
+  overlapAreaM2: number;   // Area of intersecting working zones
+  types: CraneConflictType[];
+  boomTipHeightA: number;  // Absolute boom tip height (m)
+  boomTipHeightB: number;
+  verticalClearanceM: number; // Smallest boom clearance over the other crane (tip height difference when neither boom reaches)
+};
+
+/**
+ * Effective working radius: boom length, limited by model max radius and user limit
+ */
+export function getWorkingRadius(crane: ProjectCrane): number {
+  let radius = crane.boom_length_m;
+  if (crane.crane_model?.max_radius_m && crane.crane_model.max_radius_m > 0) {
+    radius = Math.min(radius, crane.crane_model.max_radius_m);
+  }
+  if (crane.max_radius_limit_m && crane.max_radius_limit_m > 0) {
+    radius = Math.min(radius, crane.max_radius_limit_m);
+  }
+  return radius;
+}
+
+/**
+ * Absolute boom tip height at the crane's configured boom angle
+ */
+export function getBoomTipHeight(crane: ProjectCrane): number {
+  const angleRad = (crane.boom_angle_deg * Math.PI) / 180;
+  return crane.position_z + BOOM_PIVOT_HEIGHT_M + crane.boom_length_m * Math.sin(angleRad);
+}
+
+/**
+ * Horizontal reach of the boom at its configured angle, limited by the working radius
+ */
+export function getHorizontalReach(crane: ProjectCrane): number {
+  const angleRad = (crane.boom_angle_deg * Math.PI) / 180;
+  return Math.min(getWorkingRadius(crane), crane.boom_length_m * Math.cos(angleRad));
+}
+
+/**
+ * Half diagonal of the crane base footprint - anything inside this is the crane body/mast
+ */
+export function getBaseHalfDiagonal(crane: ProjectCrane): number {
+  const width = crane.crane_model?.base_width_m || 0;
+  const length = crane.crane_model?.base_length_m || 0;
+  return Math.hypot(width, length) / 2;
+}
+
+/**
+ * Clearance of crane A's boom above crane B's top where the boom passes over B's base,
+ * or null when the boom does not reach B. The boom rises from the pivot, so it is
+ * lowest over the near edge of B's footprint.
+ */
+export function getBoomClearanceOver(craneA: ProjectCrane, craneB: ProjectCrane, distanceM: number): number | null {
+  const edgeDistance = Math.max(0, distanceM - getBaseHalfDiagonal(craneB));
+  if (edgeDistance >= getHorizontalReach(craneA)) return null;
+
+  const angleRad = (craneA.boom_angle_deg * Math.PI) / 180;
+  const boomHeight = craneA.position_z + BOOM_PIVOT_HEIGHT_M + edgeDistance * Math.tan(angleRad);
+  return boomHeight - getBoomTipHeight(craneB);
+}
+
+/**
+ * Area of intersection of two circles (m²)
+ */
+export function circleIntersectionArea(r1: number, r2: number, d: number): number {
+  if (d >= r1 + r2) return 0;
+  if (d <= Math.abs(r1 - r2)) {
+    const r = Math.min(r1, r2);
+    return Math.PI * r * r;
+  }
+
+  const a1 = Math.acos((d * d + r1 * r1 - r2 * r2) / (2 * d * r1));
+  const a2 = Math.acos((d * d + r2 * r2 - r1 * r1) / (2 * d * r2));
+  const k = Math.sqrt((-d + r1 + r2) * (d + r1 - r2) * (d - r1 + r2) * (d + r1 + r2));
+  return r1 * r1 * a1 + r2 * r2 * a2 - 0.5 * k;
+}
+
+/**
+ * Find conflicting crane pairs: overlapping working zones and
+ * booms that can reach another crane's body/mast
+ */
+export function findCraneConflicts(cranes: ProjectCrane[]): CraneConflict[] {
+  const conflicts: CraneConflict[] = [];
+
+  for (let i = 0; i < cranes.length; i++) {
+    for (let j = i + 1; j < cranes.length; j++) {
+      const craneA = cranes[i];
+      const craneB = cranes[j];
+      const distanceM = Math.hypot(craneB.position_x - craneA.position_x, craneB.position_y - craneA.position_y);
+      const radiusA = getWorkingRadius(craneA);
+      const radiusB = getWorkingRadius(craneB);
+
+      const types: CraneConflictType[] = [];
+      const overlapAreaM2 = circleIntersectionArea(radiusA, radiusB, distanceM);
+      if (overlapAreaM2 > 0) types.push('overlap');
+
+      // Boom of one crane sweeps over the other crane's base without clearing its top
+      const boomTipHeightA = getBoomTipHeight(craneA);
+      const boomTipHeightB = getBoomTipHeight(craneB);
+      const clearances = [
+        getBoomClearanceOver(craneA, craneB, distanceM),
+        getBoomClearanceOver(craneB, craneA, distanceM)
+      ].filter((c): c is number => c !== null);
+      if (clearances.some(c => c < MIN_VERTICAL_CLEARANCE_M)) types.push('mast_strike');
+
+      if (types.length === 0) continue;
+
+      conflicts.push({
+        craneA,
+        craneB,
+        distanceM,
+        radiusA,
+        radiusB,
+        overlapAreaM2,
+        types,
+        boomTipHeightA,
+        boomTipHeightB,
+        verticalClearanceM: clearances.length > 0
+          ? Math.min(...clearances)
+          : Math.abs(boomTipHeightA - boomTipHeightB)
+      });
+    }
+  }
+
+  // Most severe first: mast strikes, then by overlap area
+  return conflicts.sort((a, b) => {
+    const strikeDiff = Number(b.types.includes('mast_strike')) - Number(a.types.includes('mast_strike'));
+    return strikeDiff !== 0 ? strikeDiff : b.overlapAreaM2 - a.overlapAreaM2;
+  });
+}
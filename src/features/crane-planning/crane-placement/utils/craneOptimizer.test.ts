@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareCandidates,
+  evaluatePlacement,
+  generateCandidateGrid,
+  isPointInPolygon,
+  optimizeCranePlacement,
+  OptimizerElement,
+  PlacementCandidate
+} from './craneOptimizer';
+import { ProjectCrane } from '../../../../supabase';
+
+const crane = {
+  id: 'opt',
+  crane_model_id: 'model-1',
+  position_x: 0,
+  position_y: 0,
+  position_z: 0,
+  boom_length_m: 30,
+  hook_weight_kg: 500,
+  lifting_block_kg: 500,
+  safety_factor: 1
+} as ProjectCrane;
+
+// Net capacity: 20t at 5m, 10t at 10m, 5t at 20m
+const chartData = [
+  { radius_m: 5, capacity_kg: 21000 },
+  { radius_m: 10, capacity_kg: 11000 },
+  { radius_m: 20, capacity_kg: 6000 }
+];
+
+const element = (guid: string, x: number, y: number, weightKg: number): OptimizerElement => ({
+  guid,
+  assemblyMark: guid,
+  weightKg,
+  position: { x, y, z: 0 }
+});
+
+const square = [{ x: 0, y: 0 }, { x: 40, y: 0 }, { x: 40, y: 40 }, { x: 0, y: 40 }];
+
+describe('craneOptimizer', () => {
+  it('should test points against the placement polygon', () => {
+    const triangle = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 10 }];
+    expect(isPointInPolygon({ x: 2, y: 2 }, triangle)).toBe(true);
+    expect(isPointInPolygon({ x: 8, y: 8 }, triangle)).toBe(false);
+  });
+
+  it('should widen the grid step for large areas', () => {
+    expect(generateCandidateGrid(square, 10).points).toHaveLength(16);
+    const coarse = generateCandidateGrid([{ x: 0, y: 0 }, { x: 1000, y: 0 }, { x: 1000, y: 1000 }, { x: 0, y: 1000 }], 1);
+    expect(coarse.stepM).toBeGreaterThan(1);
+    expect(coarse.points.length).toBeLessThanOrEqual(2500);
+  });
+
+  it('should count liftable and out of reach picks for a position', () => {
+    const candidate = evaluatePlacement(crane, chartData, [
+      element('near', 5, 0, 8000),
+      element('far', 30, 0, 1000)
+    ], { x: 0, y: 0 });
+    expect(candidate.liftableCount).toBe(1);
+    expect(candidate.unliftableGuids).toEqual(['far']);
+    expect(candidate.maxUtilizationPct).toBe(40);
+    expect(candidate.worstUtilizationPct).toBe(Infinity);
+  });
+
+  it('should rank candidates by objective', () => {
+    const a = { x: 0, y: 0, liftableCount: 3, unliftableGuids: ['x'], maxUtilizationPct: 95, worstUtilizationPct: Infinity } as PlacementCandidate;
+    const b = { x: 1, y: 1, liftableCount: 2, unliftableGuids: ['x', 'y'], maxUtilizationPct: 50, worstUtilizationPct: 120 } as PlacementCandidate;
+    expect([b, a].sort(compareCandidates('max_liftable'))[0]).toBe(a);
+    expect([a, b].sort(compareCandidates('min_worst_utilization'))[0]).toBe(b);
+  });
+
+  it('should find a position that reaches a heavy element and distant light ones', () => {
+    const elements = [
+      element('heavy', 20, 20, 15000),
+      element('light-1', 30, 20, 2000),
+      element('light-2', 20, 35, 2000)
+    ];
+    const [best, ...rest] = optimizeCranePlacement(crane, chartData, elements, square, {
+      objective: 'max_liftable',
+      gridStepM: 4,
+      topN: 3
+    });
+    expect(best.liftableCount).toBe(3);
+    // Heavy pick needs radius under ~7.5m
+    expect(Math.hypot(best.x - 20, best.y - 20)).toBeLessThan(7.5);
+    // Alternatives are distinct positions
+    for (const candidate of rest) {
+      expect(Math.hypot(candidate.x - best.x, candidate.y - best.y)).toBeGreaterThanOrEqual(4);
+    }
+  });
+});
@@ -0,0 +1,189 @@
+import { LoadChartDataPoint, ProjectCrane } from '../../../../supabase';
+import { evaluateCraneForElement, LiftPlanPosition } from '../../lift-plan/utils/liftPlanAnalysis';
+
+export type OptimizerObjective = 'max_liftable' | 'min_worst_utilization';
+
+export type PlacementPoint = {
+  x: number; // meters
+  y: number; // meters
+};
+
+export type OptimizerElement = {
+  guid: string;
+  assemblyMark: string;
+  weightKg: number;
+  position: LiftPlanPosition;
+};
+
+export type PlacementCandidate = {
+  x: number;
+  y: number;
+  liftableCount: number;
+  unliftableGuids: string[];
+  // Highest utilization among liftable picks (null = nothing liftable)
+  maxUtilizationPct: number | null;
+  // Highest utilization over all picks; overloaded picks are > 100, out of reach = Infinity
+  worstUtilizationPct: number;
+};
+
+export type OptimizerOptions = {
+  objective: OptimizerObjective;
+  gridStepM: number;
+  topN: number;
+  // Candidates closer than this are treated as the same position (defaults to gridStepM)
+  minSeparationM?: number;
+  // Refinement passes around the best grid cells (step halves each pass)
+  refinePasses?: number;
+};
+
+// Upper bound for coarse grid size - step is widened automatically above this
+export const MAX_GRID_POINTS = 2500;
+
+/**
+ * Ray casting point-in-polygon test (polygon vertices in order, not closed)
+ */
+export function isPointInPolygon(point: PlacementPoint, polygon: PlacementPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Grid of candidate positions inside the placement polygon.
+ * The step is widened when the grid would exceed MAX_GRID_POINTS.
+ */
+export function generateCandidateGrid(polygon: PlacementPoint[], stepM: number): { points: PlacementPoint[]; stepM: number } {
+  if (polygon.length < 3 || stepM <= 0) return { points: [], stepM };
+
+  const minX = Math.min(...polygon.map(p => p.x));
+  const maxX = Math.max(...polygon.map(p => p.x));
+  const minY = Math.min(...polygon.map(p => p.y));
+  const maxY = Math.max(...polygon.map(p => p.y));
+
+  let step = stepM;
+  while (((maxX - minX) / step + 1) * ((maxY - minY) / step + 1) > MAX_GRID_POINTS) {
+    step *= 1.5;
+  }
+
+  const points: PlacementPoint[] = [];
+  for (let x = minX + step / 2; x <= maxX; x += step) {
+    for (let y = minY + step / 2; y <= maxY; y += step) {
+      if (isPointInPolygon({ x, y }, polygon)) points.push({ x, y });
+    }
+  }
+  return { points, stepM: step };
+}
+
+/**
+ * Evaluate all elements for a crane standing at the given point
+ */
+export function evaluatePlacement(
+  baseCrane: ProjectCrane,
+  chartData: LoadChartDataPoint[],
+  elements: OptimizerElement[],
+  point: PlacementPoint
+): PlacementCandidate {
+  const crane = { ...baseCrane, position_x: point.x, position_y: point.y };
+  const candidate: PlacementCandidate = {
+    x: point.x,
+    y: point.y,
+    liftableCount: 0,
+    unliftableGuids: [],
+    maxUtilizationPct: null,
+    worstUtilizationPct: 0
+  };
+
+  for (const element of elements) {
+    const option = evaluateCraneForElement(crane, chartData, element.position, element.weightKg);
+    const utilization = option.availableCapacityKg === null
+      ? Infinity
+      : option.utilizationPct ?? Infinity;
+
+    if (option.canLift) {
+      candidate.liftableCount++;
+      candidate.maxUtilizationPct = Math.max(candidate.maxUtilizationPct ?? 0, utilization);
+    } else {
+      candidate.unliftableGuids.push(element.guid);
+    }
+    candidate.worstUtilizationPct = Math.max(candidate.worstUtilizationPct, utilization);
+  }
+
+  return candidate;
+}
+
+/**
+ * Sort comparator for an objective (best first)
+ */
+export function compareCandidates(objective: OptimizerObjective) {
+  return (a: PlacementCandidate, b: PlacementCandidate): number => {
+    const byLiftable = b.liftableCount - a.liftableCount;
+    const byMaxUtil = (a.maxUtilizationPct ?? Infinity) - (b.maxUtilizationPct ?? Infinity);
+
+    if (objective === 'max_liftable') {
+      return byLiftable || byMaxUtil || 0;
+    }
+
+    // Compare worst case over all picks; when equal (e.g. both out of reach) prefer more liftable
+    if (a.worstUtilizationPct !== b.worstUtilizationPct) {
+      return a.worstUtilizationPct < b.worstUtilizationPct ? -1 : 1;
+    }
+    return byLiftable || byMaxUtil || 0;
+  };
+}
+
+/**
+ * Search crane positions inside the polygon: coarse grid, then local
+ * refinement around the best cells. Returns the top N distinct candidates.
+ */
+export function optimizeCranePlacement(
+  baseCrane: ProjectCrane,
+  chartData: LoadChartDataPoint[],
+  elements: OptimizerElement[],
+  polygon: PlacementPoint[],
+  options: OptimizerOptions
+): PlacementCandidate[] {
+  if (elements.length === 0 || chartData.length === 0) return [];
+
+  const compare = compareCandidates(options.objective);
+  const grid = generateCandidateGrid(polygon, options.gridStepM);
+  const minSeparation = options.minSeparationM ?? grid.stepM;
+
+  let candidates = grid.points.map(p => evaluatePlacement(baseCrane, chartData, elements, p));
+  candidates.sort(compare);
+
+  // Refine around the best grid cells with a shrinking step
+  const seedCount = Math.max(options.topN * 3, 10);
+  let step = grid.stepM / 2;
+  for (let pass = 0; pass < (options.refinePasses ?? 3); pass++) {
+    const seeds = candidates.slice(0, seedCount);
+    const refined: PlacementCandidate[] = [];
+    for (const seed of seeds) {
+      for (const dx of [-step, 0, step]) {
+        for (const dy of [-step, 0, step]) {
+          if (dx === 0 && dy === 0) continue;
+          const point = { x: seed.x + dx, y: seed.y + dy };
+          if (!isPointInPolygon(point, polygon)) continue;
+          refined.push(evaluatePlacement(baseCrane, chartData, elements, point));
+        }
+      }
+    }
+    candidates = [...candidates, ...refined].sort(compare);
+    step /= 2;
+  }
+
+  // Keep best candidates that are far enough apart to be real alternatives
+  const result: PlacementCandidate[] = [];
+  for (const candidate of candidates) {
+    if (result.length >= options.topN) break;
+    if (result.some(r => Math.hypot(r.x - candidate.x, r.y - candidate.y) < minSeparation)) continue;
+    result.push(candidate);
+  }
+  return result;
+}
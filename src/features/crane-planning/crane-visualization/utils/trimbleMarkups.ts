@@ -1,5 +1,7 @@
 import * as WorkspaceAPI from 'trimble-connect-workspace-api';
 import { ProjectCrane, CraneModel, CraneRGBAColor, LoadChartDataPoint } from '../../../../supabase';
+import { getCapacityAtRadius } from '../../load-calculator/utils/liftingCalculations';
+import { OUTRIGGER_SPAN_FACTOR } from '../../load-calculator/utils/groundBearing';
 
 // Line segment type for FreelineMarkup
 interface LineSegment {
@@ -64,7 +66,7 @@ export async function drawCraneToModelGrouped(
   const baseLengthMm = craneModel.base_length_m * 1000;
 
   // Calculate outrigger span (typically 1.8x base width for mobile cranes)
-  const outriggerSpanMm = baseWidthMm * 1.8;
+  const outriggerSpanMm = baseWidthMm * OUTRIGGER_SPAN_FACTOR;
   const outriggerPadSizeMm = 600; // 600mm square pad
 
   console.log('[CraneViz] Drawing detailed crane:', {
@@ -537,9 +539,11 @@ async function drawRadiusRingsGrouped(
 
         // Capacity label if available - each character separate, smaller than radius
         if (loadChartData && loadChartData.length > 0) {
-          const capacityPoint = loadChartData.find(lc => lc.radius_m === r);
-          if (capacityPoint) {
-            const capText = `${(capacityPoint.capacity_kg / 1000).toFixed(0)}t`;
+          // Interpolated capacity - no label outside the chart envelope
+          const capacityKg = getCapacityAtRadius(loadChartData, r);
+          if (capacityKg !== null) {
+            const capacityT = capacityKg / 1000;
+            const capText = `${capacityT.toFixed(capacityT < 10 ? 1 : 0)}t`;
             const capColor = { r: 0, g: 100, b: 180, a: 255 };
             let capX = centerX + radiusMm + 300;
             const capHeight = textHeight * 0.65; // Smaller than radius label
@@ -764,3 +768,113 @@ export async function drawCircle(
     return markupIds;
   }
 }
+
+/**
+ * Generate arc line segments between two angles (radians)
+ */
+function generateArcSegments(
+  centerX: number,
+  centerY: number,
+  centerZ: number,
+  radiusMm: number,
+  startAngle: number,
+  endAngle: number,
+  segments: number
+): LineSegment[] {
+  const lineSegments: LineSegment[] = [];
+  const step = (endAngle - startAngle) / segments;
+
+  for (let i = 0; i < segments; i++) {
+    const angle1 = startAngle + i * step;
+    const angle2 = startAngle + (i + 1) * step;
+
+    lineSegments.push({
+      start: {
+        positionX: centerX + radiusMm * Math.cos(angle1),
+        positionY: centerY + radiusMm * Math.sin(angle1),
+        positionZ: centerZ
+      },
+      end: {
+        positionX: centerX + radiusMm * Math.cos(angle2),
+        positionY: centerY + radiusMm * Math.sin(angle2),
+        positionZ: centerZ
+      }
+    });
+  }
+
+  return lineSegments;
+}
+
+/**
+ * Draw the overlap zone of two crane working circles (lens outline)
+ * Circles are given in METERS (crane position and working radius)
+ */
+export async function drawOverlapZone(
+  api: WorkspaceAPI.WorkspaceAPI,
+  circleA: { x: number; y: number; z: number; radiusM: number },
+  circleB: { x: number; y: number; z: number; radiusM: number },
+  color: CraneRGBAColor
+): Promise<number[]> {
+  const markupIds: number[] = [];
+  const markupApi = api.markup as any;
+
+  const d = Math.hypot(circleB.x - circleA.x, circleB.y - circleA.y);
+  if (d >= circleA.radiusM + circleB.radiusM) return markupIds;
+
+  // Draw slightly above the higher crane so the zone is visible over radius rings
+  const zMm = Math.max(circleA.z, circleB.z) * 1000 + 400;
+  const entries: { color: CraneRGBAColor; lines: LineSegment[] }[] = [];
+
+  if (d <= Math.abs(circleA.radiusM - circleB.radiusM)) {
+    // One zone fully inside the other - the smaller circle is the overlap
+    const inner = circleA.radiusM < circleB.radiusM ? circleA : circleB;
+    entries.push({
+      color,
+      lines: generateCircleSegments(inner.x * 1000, inner.y * 1000, zMm, inner.radiusM * 1000, 72)
+    });
+  } else {
+    // Arc of each circle that lies inside the other circle
+    const angleAB = Math.atan2(circleB.y - circleA.y, circleB.x - circleA.x);
+    const halfA = Math.acos((d * d + circleA.radiusM ** 2 - circleB.radiusM ** 2) / (2 * d * circleA.radiusM));
+    const halfB = Math.acos((d * d + circleB.radiusM ** 2 - circleA.radiusM ** 2) / (2 * d * circleB.radiusM));
+
+    entries.push({
+      color,
+      lines: generateArcSegments(circleA.x * 1000, circleA.y * 1000, zMm, circleA.radiusM * 1000, angleAB - halfA, angleAB + halfA, 36)
+    });
+    entries.push({
+      color,
+      lines: generateArcSegments(circleB.x * 1000, circleB.y * 1000, zMm, circleB.radiusM * 1000, angleAB + Math.PI - halfB, angleAB + Math.PI + halfB, 36)
+    });
+
+    // Chord between intersection points
+    const p1 = {
+      x: circleA.x + circleA.radiusM * Math.cos(angleAB - halfA),
+      y: circleA.y + circleA.radiusM * Math.sin(angleAB - halfA)
+    };
+    const p2 = {
+      x: circleA.x + circleA.radiusM * Math.cos(angleAB + halfA),
+      y: circleA.y + circleA.radiusM * Math.sin(angleAB + halfA)
+    };
+    entries.push({
+      color,
+      lines: [{
+        start: { positionX: p1.x * 1000, positionY: p1.y * 1000, positionZ: zMm },
+        end: { positionX: p2.x * 1000, positionY: p2.y * 1000, positionZ: zMm }
+      }]
+    });
+  }
+
+  try {
+    const markups = await markupApi.addFreelineMarkups?.(entries);
+    if (markups) {
+      markups.forEach((m: any) => {
+        if (m?.id) markupIds.push(m.id);
+      });
+    }
+  } catch (error) {
+    console.error('[CraneViz] Error drawing overlap zone:', error);
+  }
+
+  return markupIds;
+}
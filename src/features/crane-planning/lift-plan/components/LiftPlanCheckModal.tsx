@@ -0,0 +1,350 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import * as WorkspaceAPI from 'trimble-connect-workspace-api';
+import { FiX, FiLoader, FiRefreshCw, FiDroplet, FiAlertCircle, FiFileText } from 'react-icons/fi';
+import { ProjectCrane } from '../../../../supabase';
+import { colorObjectsByGuid } from '../../../../utils/navigationHelper';
+import { formatWeight } from '../../load-calculator/utils/liftingCalculations';
+import { useLiftPlanAnalysis } from '../hooks/useLiftPlanAnalysis';
+import { useLiftPlanPdf } from '../hooks/useLiftPlanPdf';
+import { LiftPickResult, LiftPickStatus, HIGH_UTILIZATION_THRESHOLD, summarizeGroundBearing } from '../utils/liftPlanAnalysis';
+
+interface LiftPlanCheckModalProps {
+  api: WorkspaceAPI.WorkspaceAPI;
+  projectId: string;
+  projectCranes: ProjectCrane[];
+  userEmail?: string;
+  onClose: () => void;
+}
+
+const STATUS_COLORS: Record<LiftPickStatus, { r: number; g: number; b: number; a: number }> = {
+  ok: { r: 34, g: 197, b: 94, a: 255 },
+  high_utilization: { r: 249, g: 115, b: 22, a: 255 },
+  unliftable: { r: 239, g: 68, b: 68, a: 255 },
+  no_position: { r: 156, g: 163, b: 175, a: 255 },
+  no_weight: { r: 156, g: 163, b: 175, a: 255 }
+};
+
+const toCss = (c: { r: number; g: number; b: number }) => `rgb(${c.r}, ${c.g}, ${c.b})`;
+
+export default function LiftPlanCheckModal({
+  api,
+  projectId,
+  projectCranes,
+  userEmail,
+  onClose
+}: LiftPlanCheckModalProps) {
+  const { t } = useTranslation('common');
+  const { days, loading, error, versionName, runAnalysis } = useLiftPlanAnalysis(api, projectId, projectCranes);
+  const { exporting, exportLiftPlanPdf } = useLiftPlanPdf(api, projectId, userEmail);
+  const [showAll, setShowAll] = useState(false);
+  const [coloring, setColoring] = useState(false);
+
+  useEffect(() => {
+    runAnalysis();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const totals = useMemo(() => {
+    const counts: Record<LiftPickStatus, number> = { ok: 0, high_utilization: 0, unliftable: 0, no_position: 0, no_weight: 0 };
+    for (const day of days) {
+      for (const pick of day.picks) counts[pick.status]++;
+    }
+    return counts;
+  }, [days]);
+
+  const groundBearing = useMemo(() => summarizeGroundBearing(days, projectCranes), [days, projectCranes]);
+
+  const visibleDays = useMemo(() => {
+    if (showAll) return days;
+    return days
+      .map(day => ({ ...day, picks: day.picks.filter(p => p.status !== 'ok') }))
+      .filter(day => day.picks.length > 0);
+  }, [days, showAll]);
+
+  // Critical pick document for the crane chosen by the analysis
+  // (tandem: governing crane with its share at its hook point)
+  const exportPickPdf = async (pick: LiftPickResult) => {
+    const crane = projectCranes.find(c => c.id === pick.bestCrane?.craneId);
+    if (!crane || !pick.element.position || pick.element.weightKg === null) return;
+    const share = pick.tandem?.governing;
+    const ok = await exportLiftPlanPdf(crane, [{
+      name: share ? `${pick.element.assemblyMark} (${t('tandemLift.tandem')})` : pick.element.assemblyMark,
+      guid: pick.element.guid,
+      scheduledDate: pick.element.scheduledDate,
+      weightKg: share ? share.shareKg : pick.element.weightKg,
+      riggingWeightKg: share ? (pick.element.riggingWeightKg || 0) / 2 : pick.element.riggingWeightKg || 0,
+      position: share ? share.hookPoint : pick.element.position
+    }], 'pick');
+    if (!ok) alert(t('liftPlanPdf.failed'));
+  };
+
+  const colorInModel = async () => {
+    setColoring(true);
+    try {
+      await api.viewer.setObjectState(undefined, { color: 'reset' });
+      const guidsByStatus = new Map<LiftPickStatus, string[]>();
+      for (const day of days) {
+        for (const pick of day.picks) {
+          const list = guidsByStatus.get(pick.status) || [];
+          list.push(pick.element.guid);
+          guidsByStatus.set(pick.status, list);
+        }
+      }
+      for (const [status, guids] of guidsByStatus) {
+        await colorObjectsByGuid(api, guids, STATUS_COLORS[status]);
+      }
+      console.log('✅ Lift plan colored in model');
+    } catch (err) {
+      console.error('Error coloring lift plan:', err);
+    } finally {
+      setColoring(false);
+    }
+  };
+
+  const formatDate = (date: string) => {
+    const [y, m, d] = date.split('-');
+    return `${d}.${m}.${y}`;
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 10000
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        boxShadow: '0 8px 32px rgba(0,0,0,0.2)',
+        maxWidth: '720px',
+        width: '95%',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column'
+      }}>
+        {/* Modal header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: '16px', fontWeight: 600 }}>{t('liftPlan.title')}</h3>
+            <p style={{ margin: '4px 0 0 0', fontSize: '12px', color: '#6b7280' }}>
+              {versionName ? t('liftPlan.scheduleVersion', { name: versionName }) : t('liftPlan.legacySchedule')}
+              {' • '}{t('liftPlan.craneCount', { count: projectCranes.length })}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: '8px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', borderRadius: '4px' }}
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        {/* Modal content */}
+        <div style={{ padding: '16px 20px', overflow: 'auto', flex: 1 }}>
+          {loading ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#6b7280', padding: '24px 0', justifyContent: 'center' }}>
+              <FiLoader className="spin" /> {t('liftPlan.analyzing')}
+            </div>
+          ) : error ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#dc2626', padding: '12px', backgroundColor: '#fef2f2', borderRadius: '8px' }}>
+              <FiAlertCircle /> {t('crane.error', { message: error })}
+            </div>
+          ) : (
+            <>
+              {/* Summary */}
+              <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '12px' }}>
+                {(Object.keys(totals) as LiftPickStatus[]).map(status => (
+                  <div key={status} style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    padding: '6px 10px',
+                    borderRadius: '6px',
+                    backgroundColor: '#f9fafb',
+                    border: '1px solid #e5e7eb',
+                    fontSize: '12px'
+                  }}>
+                    <span style={{ width: '10px', height: '10px', borderRadius: '50%', backgroundColor: toCss(STATUS_COLORS[status]) }} />
+                    {t(`liftPlan.status.${status}`, { threshold: HIGH_UTILIZATION_THRESHOLD })}: <strong>{totals[status]}</strong>
+                  </div>
+                ))}
+              </div>
+
+              {/* Ground bearing per crane (worst pick) */}
+              {days.length > 0 && groundBearing.length > 0 && (
+                <div style={{ marginBottom: '12px' }}>
+                  <div style={{ fontSize: '13px', fontWeight: 600, marginBottom: '6px' }}>{t('groundBearing.liftPlanTitle')}</div>
+                  <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                    <thead>
+                      <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+                        <th style={{ padding: '6px 8px' }}>{t('liftPlan.crane')}</th>
+                        <th style={{ padding: '6px 8px' }}>{t('groundBearing.worstPick')}</th>
+                        <th style={{ padding: '6px 8px' }}>{t('groundBearing.reaction')}</th>
+                        <th style={{ padding: '6px 8px' }}>{t('groundBearing.maxPressure')}</th>
+                        <th style={{ padding: '6px 8px' }}>{t('groundBearing.requiredMat')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {groundBearing.map(summary => (
+                        <tr key={summary.craneId} style={{ borderBottom: '1px solid #f3f4f6' }}>
+                          <td style={{ padding: '6px 8px' }}>{summary.craneLabel}</td>
+                          {!summary.configured ? (
+                            <td colSpan={4} style={{ padding: '6px 8px', color: '#9ca3af' }}>{t('groundBearing.notConfigured')}</td>
+                          ) : !summary.worst ? (
+                            <td colSpan={4} style={{ padding: '6px 8px', color: '#9ca3af' }}>{t('groundBearing.noPicks')}</td>
+                          ) : (
+                            <>
+                              <td style={{ padding: '6px 8px' }}>
+                                {summary.worstAssemblyMark} ({summary.worstDate ? formatDate(summary.worstDate) : '-'})
+                              </td>
+                              <td style={{ padding: '6px 8px' }}>{Math.round(summary.worst.maxReactionKn)} kN</td>
+                              <td style={{ padding: '6px 8px', fontWeight: 600, color: summary.overAllowableCount > 0 ? '#dc2626' : '#16a34a' }}>
+                                {isFinite(summary.worst.maxPressureKpa) ? `${Math.round(summary.worst.maxPressureKpa)} kPa` : '∞'}
+                                {summary.overAllowableCount > 0 && (
+                                  <span style={{ fontWeight: 500 }}> • {t('groundBearing.overAllowable', { count: summary.overAllowableCount })}</span>
+                                )}
+                              </td>
+                              <td style={{ padding: '6px 8px' }}>
+                                {summary.worst.requiredMat.lengthM} × {summary.worst.requiredMat.widthM} m
+                              </td>
+                            </>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', marginBottom: '12px', cursor: 'pointer' }}>
+                <input type="checkbox" checked={showAll} onChange={e => setShowAll(e.target.checked)} />
+                {t('liftPlan.showAllPicks')}
+              </label>
+
+              {visibleDays.length === 0 ? (
+                <div style={{ textAlign: 'center', padding: '24px', color: '#16a34a', fontSize: '13px' }}>
+                  {days.length === 0 ? t('liftPlan.noScheduleItems') : t('liftPlan.noProblems')}
+                </div>
+              ) : (
+                visibleDays.map(day => (
+                  <div key={day.date} style={{ marginBottom: '16px' }}>
+                    <div style={{ fontSize: '13px', fontWeight: 600, marginBottom: '6px', display: 'flex', justifyContent: 'space-between' }}>
+                      <span>{formatDate(day.date)}</span>
+                      <span style={{ color: day.problemCount > 0 ? '#dc2626' : '#6b7280', fontWeight: 500, fontSize: '12px' }}>
+                        {t('liftPlan.problemCount', { count: day.problemCount })}
+                      </span>
+                    </div>
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                      <thead>
+                        <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+                          <th style={{ padding: '6px 8px' }}>{t('liftPlan.element')}</th>
+                          <th style={{ padding: '6px 8px' }}>{t('liftPlan.weight')}</th>
+                          <th style={{ padding: '6px 8px' }}>{t('liftPlan.crane')}</th>
+                          <th style={{ padding: '6px 8px' }}>{t('liftPlan.radius')}</th>
+                          <th style={{ padding: '6px 8px' }}>{t('liftPlan.available')}</th>
+                          <th style={{ padding: '6px 8px' }}>{t('liftPlan.utilization')}</th>
+                          <th style={{ padding: '6px 8px' }} />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {day.picks.map(pick => (
+                          <tr key={pick.element.guid} style={{ borderBottom: '1px solid #f3f4f6' }}>
+                            <td style={{ padding: '6px 8px', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                              <span style={{ width: '8px', height: '8px', borderRadius: '50%', flexShrink: 0, backgroundColor: toCss(STATUS_COLORS[pick.status]) }} />
+                              <span title={t(`liftPlan.status.${pick.status}`, { threshold: HIGH_UTILIZATION_THRESHOLD })}>
+                                {pick.element.assemblyMark}
+                              </span>
+                            </td>
+                            <td style={{ padding: '6px 8px' }}>
+                              {pick.element.weightKg !== null ? formatWeight(pick.element.weightKg) : '-'}
+                            </td>
+                            <td style={{ padding: '6px 8px' }}>
+                              {pick.tandem
+                                ? t('tandemLift.pickCranes', { cranes: pick.tandem.shares.map(s => s.craneLabel).join(' + ') })
+                                : pick.bestCrane?.craneLabel || '-'}
+                            </td>
+                            <td style={{ padding: '6px 8px' }}>
+                              {pick.bestCrane ? `${pick.bestCrane.radiusM.toFixed(1)}m` : '-'}
+                            </td>
+                            <td style={{ padding: '6px 8px' }}>
+                              {pick.bestCrane?.availableCapacityKg != null
+                                ? formatWeight(pick.bestCrane.availableCapacityKg)
+                                : pick.bestCrane ? t('crane.outOfReach') : '-'}
+                            </td>
+                            <td style={{ padding: '6px 8px', fontWeight: 600, color: toCss(STATUS_COLORS[pick.status]) }}>
+                              {pick.bestCrane?.utilizationPct != null ? `${pick.bestCrane.utilizationPct}%` : '-'}
+                            </td>
+                            <td style={{ padding: '6px 8px', textAlign: 'right' }}>
+                              {(pick.status === 'high_utilization' || pick.status === 'unliftable') && pick.bestCrane && (
+                                <button
+                                  onClick={() => exportPickPdf(pick)}
+                                  disabled={exporting}
+                                  title={t('liftPlanPdf.forPick')}
+                                  style={{ padding: '2px 4px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', color: 'var(--modus-primary)' }}
+                                >
+                                  <FiFileText size={14} />
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Modal footer */}
+        <div style={{
+          padding: '12px 20px',
+          borderTop: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '8px'
+        }}>
+          <button
+            onClick={runAnalysis}
+            disabled={loading}
+            style={{ ...footerBtnStyle, backgroundColor: 'white', color: '#374151', border: '1px solid #e5e7eb' }}
+          >
+            <FiRefreshCw size={14} /> {t('liftPlan.rerun')}
+          </button>
+          <button
+            onClick={colorInModel}
+            disabled={loading || coloring || days.length === 0}
+            style={{ ...footerBtnStyle, backgroundColor: 'var(--modus-primary)', color: 'white', border: 'none' }}
+          >
+            {coloring ? <FiLoader size={14} className="spin" /> : <FiDroplet size={14} />} {t('liftPlan.colorInModel')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const footerBtnStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  padding: '8px 16px',
+  borderRadius: '6px',
+  fontSize: '13px',
+  cursor: 'pointer'
+};
@@ -0,0 +1,347 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FiX, FiLoader, FiSave, FiAlertCircle, FiTrash2, FiEye } from 'react-icons/fi';
+import { LoadChart, ProjectCrane } from '../../../../supabase';
+import { formatWeight } from '../../load-calculator/utils/liftingCalculations';
+import { fetchLoadChartsForCranes } from '../hooks/useLiftPlanAnalysis';
+import { useTandemLifts } from '../hooks/useTandemLifts';
+import { getCraneChartData, HIGH_UTILIZATION_THRESHOLD, LiftPlanPosition } from '../utils/liftPlanAnalysis';
+import {
+  calculateTandemLift,
+  getTandemHookPoints,
+  DEFAULT_TANDEM_DERATING,
+  DEFAULT_TANDEM_INSET_M,
+  TandemLiftResult
+} from '../utils/tandemLift';
+
+export interface TandemLiftElement {
+  guid: string;
+  name: string;
+  weightKg: number;
+  riggingWeightKg: number;
+  min: LiftPlanPosition;
+  max: LiftPlanPosition;
+}
+
+interface TandemLiftModalProps {
+  element: TandemLiftElement;
+  projectId: string;
+  projectCranes: ProjectCrane[];
+  userEmail?: string;
+  onShowInModel: (result: TandemLiftResult) => void;
+  onClose: () => void;
+}
+
+const craneLabel = (crane: ProjectCrane) => crane.position_label || crane.crane_model?.model || crane.id;
+
+export default function TandemLiftModal({
+  element,
+  projectId,
+  projectCranes,
+  userEmail,
+  onShowInModel,
+  onClose
+}: TandemLiftModalProps) {
+  const { t } = useTranslation('common');
+  const { tandemLifts, loading, saveTandemLift, deleteTandemLift } = useTandemLifts(projectId);
+
+  const [loadCharts, setLoadCharts] = useState<LoadChart[]>([]);
+  const [chartsLoading, setChartsLoading] = useState(true);
+  const [craneAId, setCraneAId] = useState(projectCranes[0]?.id || '');
+  const [craneBId, setCraneBId] = useState(projectCranes[1]?.id || '');
+  const [deratingFactor, setDeratingFactor] = useState(DEFAULT_TANDEM_DERATING);
+  const [insetAM, setInsetAM] = useState(DEFAULT_TANDEM_INSET_M);
+  const [insetBM, setInsetBM] = useState(DEFAULT_TANDEM_INSET_M);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState(false);
+
+  const saved = tandemLifts.find(tl => tl.guid_ifc === element.guid) || null;
+
+  // Load charts of all placed cranes
+  useEffect(() => {
+    let cancelled = false;
+    fetchLoadChartsForCranes(projectCranes)
+      .then(charts => { if (!cancelled) setLoadCharts(charts); })
+      .catch(err => console.error('Error loading load charts:', err))
+      .finally(() => { if (!cancelled) setChartsLoading(false); });
+    return () => { cancelled = true; };
+  }, [projectCranes]);
+
+  // Prefill from the saved tandem lift of this element
+  useEffect(() => {
+    if (!saved) return;
+    setCraneAId(saved.crane_a_id);
+    setCraneBId(saved.crane_b_id);
+    setDeratingFactor(saved.derating_factor);
+    setInsetAM(saved.inset_a_m);
+    setInsetBM(saved.inset_b_m);
+  }, [saved]);
+
+  const craneA = projectCranes.find(c => c.id === craneAId);
+  const craneB = projectCranes.find(c => c.id === craneBId);
+  const sameCrane = !!craneA && craneA.id === craneB?.id;
+
+  const result = useMemo(() => {
+    if (!craneA || !craneB || sameCrane || chartsLoading) return null;
+    const hookPoints = getTandemHookPoints(element, craneA, craneB, insetAM, insetBM);
+    const center = {
+      x: (element.min.x + element.max.x) / 2,
+      y: (element.min.y + element.max.y) / 2,
+      z: (element.min.z + element.max.z) / 2
+    };
+    return calculateTandemLift(
+      craneA,
+      getCraneChartData(craneA, loadCharts),
+      craneB,
+      getCraneChartData(craneB, loadCharts),
+      hookPoints,
+      center,
+      element.weightKg,
+      element.riggingWeightKg,
+      deratingFactor
+    );
+  }, [craneA, craneB, sameCrane, chartsLoading, element, insetAM, insetBM, loadCharts, deratingFactor]);
+
+  const handleSave = async () => {
+    if (!craneA || !craneB || sameCrane) return;
+    setSaving(true);
+    setSaveError(false);
+    const ok = await saveTandemLift({
+      guid_ifc: element.guid,
+      assembly_mark: element.name,
+      crane_a_id: craneA.id,
+      crane_b_id: craneB.id,
+      derating_factor: deratingFactor,
+      inset_a_m: insetAM,
+      inset_b_m: insetBM
+    }, userEmail);
+    setSaving(false);
+    setSaveError(!ok);
+  };
+
+  const handleRemove = async () => {
+    if (!confirm(t('tandemLift.removeConfirm'))) return;
+    await deleteTandemLift(element.guid);
+  };
+
+  const sectionTitle: React.CSSProperties = { fontSize: '13px', fontWeight: 600, margin: '0 0 6px 0' };
+  const inputStyle: React.CSSProperties = { padding: '4px 6px', fontSize: '12px', borderRadius: '4px', border: '1px solid #d1d5db', width: '70px' };
+  const labelStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '4px' };
+
+  const craneSelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <label style={labelStyle}>
+      {label}
+      <select value={value} onChange={e => onChange(e.target.value)} style={{ ...inputStyle, width: '150px' }}>
+        <option value="">-</option>
+        {projectCranes.map(c => (
+          <option key={c.id} value={c.id}>{craneLabel(c)}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const utilizationColor = (pct: number | null, canLift: boolean) =>
+    !canLift ? '#dc2626' : (pct ?? 0) > HIGH_UTILIZATION_THRESHOLD ? '#ea580c' : '#16a34a';
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 10001
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        boxShadow: '0 8px 32px rgba(0,0,0,0.2)',
+        maxWidth: '620px',
+        width: '95%',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column'
+      }}>
+        {/* Modal header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: '16px', fontWeight: 600 }}>{t('tandemLift.title')}</h3>
+            <p style={{ margin: '4px 0 0 0', fontSize: '12px', color: '#6b7280' }}>
+              {element.name} • {formatWeight(element.weightKg)}
+              {element.riggingWeightKg > 0 && ` • ${t('tandemLift.rigging')} ${formatWeight(element.riggingWeightKg)}`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: '8px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', borderRadius: '4px' }}
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        {/* Modal content */}
+        <div style={{ padding: '16px 20px', overflow: 'auto', flex: 1, display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          {loading || chartsLoading ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#6b7280', fontSize: '12px' }}>
+              <FiLoader className="spin" /> {t('tandemLift.loading')}
+            </div>
+          ) : (
+            <>
+              {/* Setup */}
+              <div>
+                <p style={sectionTitle}>{t('tandemLift.setup')}</p>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px 16px', fontSize: '12px' }}>
+                  {craneSelect(craneAId, setCraneAId, t('tandemLift.craneA'))}
+                  {craneSelect(craneBId, setCraneBId, t('tandemLift.craneB'))}
+                  <label style={labelStyle}>
+                    {t('tandemLift.insetA')}
+                    <input type="number" min="0" step="0.1" value={insetAM} onChange={e => setInsetAM(Number(e.target.value) || 0)} style={inputStyle} />
+                  </label>
+                  <label style={labelStyle}>
+                    {t('tandemLift.insetB')}
+                    <input type="number" min="0" step="0.1" value={insetBM} onChange={e => setInsetBM(Number(e.target.value) || 0)} style={inputStyle} />
+                  </label>
+                  <label style={labelStyle}>
+                    {t('tandemLift.derating')}
+                    <input
+                      type="number"
+                      min="0.5"
+                      max="1"
+                      step="0.05"
+                      value={deratingFactor}
+                      onChange={e => setDeratingFactor(Number(e.target.value) || DEFAULT_TANDEM_DERATING)}
+                      style={inputStyle}
+                    />
+                  </label>
+                </div>
+                <div style={{ fontSize: '11px', color: '#6b7280', marginTop: '6px' }}>{t('tandemLift.cogNote')}</div>
+              </div>
+
+              {sameCrane && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', color: '#dc2626', padding: '8px 12px', backgroundColor: '#fef2f2', borderRadius: '8px', fontSize: '12px' }}>
+                  <FiAlertCircle /> {t('tandemLift.sameCrane')}
+                </div>
+              )}
+
+              {/* Per crane check */}
+              {result && (
+                <div>
+                  <p style={sectionTitle}>{t('tandemLift.shares')}</p>
+                  <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                    <thead>
+                      <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+                        <th style={{ padding: '6px 8px' }}>{t('liftPlan.crane')}</th>
+                        <th style={{ padding: '6px 8px' }}>{t('liftPlan.radius')}</th>
+                        <th style={{ padding: '6px 8px' }}>{t('tandemLift.share')}</th>
+                        <th style={{ padding: '6px 8px' }}>{t('tandemLift.netCapacity')}</th>
+                        <th style={{ padding: '6px 8px' }}>{t('tandemLift.deratedCapacity')}</th>
+                        <th style={{ padding: '6px 8px' }}>{t('liftPlan.utilization')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.shares.map(share => (
+                        <tr key={share.craneId} style={{ borderBottom: '1px solid #f3f4f6' }}>
+                          <td style={{ padding: '6px 8px' }}>{share.craneLabel}</td>
+                          <td style={{ padding: '6px 8px' }}>
+                            {share.radiusM.toFixed(1)}m{share.boomAngleDeg !== null && ` • ${share.boomAngleDeg}°`}
+                          </td>
+                          <td style={{ padding: '6px 8px' }}>{formatWeight(share.shareKg)}</td>
+                          <td style={{ padding: '6px 8px' }}>
+                            {share.availableCapacityKg !== null ? formatWeight(share.availableCapacityKg) : t('crane.outOfReach')}
+                          </td>
+                          <td style={{ padding: '6px 8px' }}>
+                            {share.deratedCapacityKg !== null ? formatWeight(share.deratedCapacityKg) : '-'}
+                          </td>
+                          <td style={{ padding: '6px 8px', fontWeight: 600, color: utilizationColor(share.utilizationPct, share.canLift) }}>
+                            {share.utilizationPct !== null ? `${share.utilizationPct}%` : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {result && (
+                <div style={{
+                  padding: '12px',
+                  borderRadius: '8px',
+                  fontSize: '12px',
+                  backgroundColor: result.canLift ? '#f0fdf4' : '#fef2f2',
+                  border: `1px solid ${result.canLift ? '#bbf7d0' : '#fecaca'}`,
+                  color: result.canLift ? '#166534' : '#dc2626',
+                  fontWeight: 600
+                }}>
+                  {result.canLift
+                    ? t('tandemLift.ok', { crane: result.governing.craneLabel, pct: result.governing.utilizationPct })
+                    : t('tandemLift.notOk')}
+                </div>
+              )}
+            </>
+          )}
+          <div style={{ fontSize: '11px', color: '#9ca3af' }}>{t('tandemLift.disclaimer')}</div>
+        </div>
+
+        {/* Modal footer */}
+        <div style={{
+          padding: '12px 20px',
+          borderTop: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          alignItems: 'center',
+          gap: '8px'
+        }}>
+          {saveError && <span style={{ fontSize: '12px', color: '#dc2626', marginRight: 'auto' }}>{t('tandemLift.saveFailed')}</span>}
+          {saved && (
+            <button
+              onClick={handleRemove}
+              style={{ ...footerBtnStyle, backgroundColor: 'white', color: '#dc2626', border: '1px solid #fecaca', marginRight: saveError ? 0 : 'auto' }}
+            >
+              <FiTrash2 size={14} /> {t('tandemLift.remove')}
+            </button>
+          )}
+          <button
+            onClick={() => result && onShowInModel(result)}
+            disabled={!result}
+            style={{ ...footerBtnStyle, backgroundColor: 'white', color: '#374151', border: '1px solid #e5e7eb' }}
+          >
+            <FiEye size={14} /> {t('tandemLift.showInModel')}
+          </button>
+          <button
+            onClick={onClose}
+            style={{ ...footerBtnStyle, backgroundColor: 'white', color: '#374151', border: '1px solid #e5e7eb' }}
+          >
+            {t('buttons.close')}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !result}
+            style={{ ...footerBtnStyle, backgroundColor: 'var(--modus-primary)', color: 'white', border: 'none' }}
+          >
+            {saving ? <FiLoader size={14} className="spin" /> : <FiSave size={14} />} {t('tandemLift.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const footerBtnStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  padding: '8px 16px',
+  borderRadius: '6px',
+  fontSize: '13px',
+  cursor: 'pointer'
+};
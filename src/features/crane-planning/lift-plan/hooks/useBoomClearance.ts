@@ -0,0 +1,91 @@
+import { useState, useCallback } from 'react';
+import * as WorkspaceAPI from 'trimble-connect-workspace-api';
+import { supabase } from '../../../../supabase';
+import { fetchAllRows } from '../../../../utils/supabasePaging';
+import { getElementBoundsByGuid } from '../utils/elementPositions';
+import { ClearanceBox } from '../utils/boomClearance';
+import { fetchActiveScheduleItems } from './useLiftPlanAnalysis';
+
+export interface ClearanceObstacles {
+  date: string; // YYYY-MM-DD the structure state is taken from
+  obstacles: ClearanceBox[];
+}
+
+interface UseBoomClearanceResult {
+  loading: boolean;
+  error: string | null;
+  loadObstacles: (pickGuids: string[], date?: string) => Promise<ClearanceObstacles | null>;
+}
+
+const todayKey = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Loads the structure standing at a pick date: elements installed by then
+ * plus elements scheduled in the active installation schedule up to that day.
+ */
+export function useBoomClearance(api: WorkspaceAPI.WorkspaceAPI, projectId: string): UseBoomClearanceResult {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadObstacles = useCallback(async (pickGuids: string[], date?: string): Promise<ClearanceObstacles | null> => {
+    if (!projectId) return null;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const pickKeys = new Set(pickGuids.map(g => g.toLowerCase()));
+      const { items } = await fetchActiveScheduleItems(projectId);
+
+      // Default pick date: earliest scheduled day of the picked elements, otherwise today
+      let pickDate = date;
+      if (!pickDate) {
+        const scheduled = items
+          .filter(item => pickKeys.has((item.guid_ifc || item.guid || '').toLowerCase()))
+          .map(item => item.scheduled_date)
+          .sort();
+        pickDate = scheduled[0] || todayKey();
+      }
+
+      const guids = new Map<string, string>();
+      const addGuid = (guid: string | null | undefined) => {
+        if (!guid) return;
+        const key = guid.toLowerCase();
+        if (!pickKeys.has(key) && !guids.has(key)) guids.set(key, guid);
+      };
+
+      // Scheduled before the pick day; same-day elements may go up after this pick
+      for (const item of items) {
+        if (item.scheduled_date < pickDate) addGuid(item.guid_ifc || item.guid);
+      }
+
+      const installed = await fetchAllRows<{ guid: string; guid_ifc: string | null }>(() => supabase
+        .from('installations')
+        .select('guid, guid_ifc')
+        .eq('project_id', projectId)
+        .lte('installed_at', `${pickDate}T23:59:59`));
+      for (const row of installed) addGuid(row.guid_ifc || row.guid);
+
+      const bounds = await getElementBoundsByGuid(api, [...guids.values()]);
+      const obstacles: ClearanceBox[] = [];
+      for (const [guid, b] of bounds) {
+        obstacles.push({ guid, min: b.min, max: b.max });
+      }
+
+      console.log(`🔍 Boom clearance: ${obstacles.length}/${guids.size} obstacles found in model for ${pickDate}`);
+      return { date: pickDate, obstacles };
+    } catch (err) {
+      console.error('Error loading clearance obstacles:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [api, projectId]);
+
+  return {
+    loading,
+    error,
+    loadObstacles
+  };
+}
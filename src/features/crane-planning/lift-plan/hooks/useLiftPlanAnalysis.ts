@@ -0,0 +1,142 @@
+import { useState, useCallback } from 'react';
+import * as WorkspaceAPI from 'trimble-connect-workspace-api';
+import { supabase, ScheduleItem, LoadChart, ProjectCrane } from '../../../../supabase';
+import { getElementBoundsByGuid } from '../utils/elementPositions';
+import { fetchRiggingWeights, getElementRiggingWeight } from '../../load-calculator/hooks/useRigging';
+import { fetchAllRows } from '../../../../utils/supabasePaging';
+import { fetchTandemLifts } from './useTandemLifts';
+import { getTandemHookPoints } from '../utils/tandemLift';
+import { analyzeLiftPlan, parseCastUnitWeight, LiftPlanDay, LiftPlanElement } from '../utils/liftPlanAnalysis';
+
+interface UseLiftPlanAnalysisResult {
+  days: LiftPlanDay[];
+  loading: boolean;
+  error: string | null;
+  versionName: string | null;
+  runAnalysis: () => Promise<void>;
+}
+
+/**
+ * Load active installation schedule items for the project.
+ * Falls back to legacy items (version_id = null) when no version is active.
+ */
+export async function fetchActiveScheduleItems(projectId: string): Promise<{
+  items: ScheduleItem[];
+  versionId: string | null;
+  versionName: string | null;
+}> {
+  const { data: versions, error: versionError } = await supabase
+    .from('installation_schedule_versions')
+    .select('id, name')
+    .eq('project_id', projectId)
+    .eq('is_active', true)
+    .limit(1);
+
+  if (versionError) throw versionError;
+  const activeVersion = versions?.[0] || null;
+
+  const items = await fetchAllRows<ScheduleItem>(() => {
+    let query = supabase
+      .from('installation_schedule')
+      .select('*')
+      .eq('project_id', projectId);
+    query = activeVersion ? query.eq('version_id', activeVersion.id) : query.is('version_id', null);
+    return query
+      .order('scheduled_date', { ascending: true })
+      .order('sort_order', { ascending: true });
+  });
+
+  return { items, versionId: activeVersion?.id || null, versionName: activeVersion?.name || null };
+}
+
+/**
+ * Load charts for all crane models placed in the project
+ */
+export async function fetchLoadChartsForCranes(cranes: ProjectCrane[]): Promise<LoadChart[]> {
+  const modelIds = [...new Set(cranes.map(c => c.crane_model_id))];
+  if (modelIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('load_charts')
+    .select('*')
+    .in('crane_model_id', modelIds);
+  if (error) throw error;
+  return data || [];
+}
+
+export function useLiftPlanAnalysis(
+  api: WorkspaceAPI.WorkspaceAPI,
+  projectId: string,
+  projectCranes: ProjectCrane[]
+): UseLiftPlanAnalysisResult {
+  const [days, setDays] = useState<LiftPlanDay[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [versionName, setVersionName] = useState<string | null>(null);
+
+  const runAnalysis = useCallback(async () => {
+    if (!projectId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { items, versionName: activeName } = await fetchActiveScheduleItems(projectId);
+      setVersionName(activeName);
+      console.log(`🔍 Lift plan: ${items.length} schedule items, ${projectCranes.length} cranes`);
+
+      const loadCharts = await fetchLoadChartsForCranes(projectCranes);
+
+      // Resolve element positions from the model
+      const guids = items.map(item => item.guid_ifc || item.guid).filter(Boolean);
+      const bounds = await getElementBoundsByGuid(api, guids);
+
+      // Rigging weights of elements with a saved rigging configuration
+      const riggingWeights = await fetchRiggingWeights(projectId);
+
+      // Tandem lifts: hook points follow the element's current geometry
+      const tandemLifts = new Map((await fetchTandemLifts(projectId)).map(t => [t.guid_ifc, t]));
+
+      const elements: LiftPlanElement[] = items.map(item => {
+        const guid = item.guid_ifc || item.guid;
+        const elementBounds = bounds.get(guid);
+        const tandemLift = tandemLifts.get(guid);
+        const craneA = tandemLift && projectCranes.find(c => c.id === tandemLift.crane_a_id);
+        const craneB = tandemLift && projectCranes.find(c => c.id === tandemLift.crane_b_id);
+        return {
+          guid,
+          assemblyMark: item.assembly_mark,
+          scheduledDate: item.scheduled_date,
+          weightKg: parseCastUnitWeight(item.cast_unit_weight),
+          position: elementBounds?.center || null,
+          riggingWeightKg: getElementRiggingWeight(riggingWeights, item.guid_ifc, item.guid),
+          tandem: tandemLift && elementBounds && craneA && craneB
+            ? {
+              craneAId: craneA.id,
+              craneBId: craneB.id,
+              deratingFactor: tandemLift.derating_factor,
+              hookPoints: getTandemHookPoints(elementBounds, craneA, craneB, tandemLift.inset_a_m, tandemLift.inset_b_m)
+            }
+            : undefined
+        };
+      });
+
+      const result = analyzeLiftPlan(elements, projectCranes, loadCharts);
+      setDays(result);
+      console.log(`✅ Lift plan analyzed: ${result.length} days, ${result.reduce((s, d) => s + d.problemCount, 0)} problems`);
+    } catch (err) {
+      console.error('Error analyzing lift plan:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [api, projectId, projectCranes]);
+
+  return {
+    days,
+    loading,
+    error,
+    versionName,
+    runAnalysis
+  };
+}
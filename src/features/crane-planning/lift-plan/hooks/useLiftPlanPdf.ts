@@ -0,0 +1,76 @@
+import { useState, useCallback } from 'react';
+import * as WorkspaceAPI from 'trimble-connect-workspace-api';
+import { supabase, ProjectCrane } from '../../../../supabase';
+import { downloadLiftPlanPDF } from '../../../../utils/liftPlanPdfGenerator';
+import { LiftPlanDocumentPick } from '../utils/liftPlanDocument';
+
+interface UseLiftPlanPdfResult {
+  exporting: boolean;
+  error: string | null;
+  exportLiftPlanPdf: (crane: ProjectCrane, picks: LiftPlanDocumentPick[], kind: 'crane' | 'pick') => Promise<boolean>;
+}
+
+/**
+ * Lift plan PDF export for a placed crane or a single pick.
+ * Load charts are fetched for the crane's own model and counterweight.
+ */
+export function useLiftPlanPdf(
+  api: WorkspaceAPI.WorkspaceAPI,
+  projectId: string,
+  userEmail?: string
+): UseLiftPlanPdfResult {
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportLiftPlanPdf = useCallback(async (
+    crane: ProjectCrane,
+    picks: LiftPlanDocumentPick[],
+    kind: 'crane' | 'pick'
+  ): Promise<boolean> => {
+    setExporting(true);
+    setError(null);
+
+    try {
+      let projectName = projectId;
+      try {
+        const project = await api.project.getProject();
+        if (project?.name) projectName = project.name;
+      } catch (e) {
+        console.warn('Could not get project name from API:', e);
+      }
+
+      let query = supabase
+        .from('load_charts')
+        .select('*')
+        .eq('crane_model_id', crane.crane_model_id);
+      if (crane.counterweight_config_id) {
+        query = query.eq('counterweight_config_id', crane.counterweight_config_id);
+      }
+      const { data: loadCharts, error: chartError } = await query;
+      if (chartError) throw chartError;
+
+      downloadLiftPlanPDF({
+        projectName,
+        crane,
+        loadCharts: loadCharts || [],
+        picks,
+        kind,
+        preparedBy: userEmail
+      });
+      console.log(`✅ Lift plan PDF generated: ${crane.position_label || crane.id}, ${picks.length} picks`);
+      return true;
+    } catch (err) {
+      console.error('Error generating lift plan PDF:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    } finally {
+      setExporting(false);
+    }
+  }, [api, projectId, userEmail]);
+
+  return {
+    exporting,
+    error,
+    exportLiftPlanPdf
+  };
+}
@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, TandemLift } from '../../../../supabase';
+
+type TandemLiftInput = Pick<TandemLift, 'guid_ifc' | 'crane_a_id' | 'crane_b_id' | 'derating_factor' | 'inset_a_m' | 'inset_b_m'> &
+  Partial<Pick<TandemLift, 'assembly_mark' | 'notes'>>;
+
+interface UseTandemLiftsResult {
+  tandemLifts: TandemLift[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  saveTandemLift: (data: TandemLiftInput, userEmail?: string) => Promise<TandemLift | null>;
+  deleteTandemLift: (guid: string) => Promise<boolean>;
+}
+
+/**
+ * All tandem lifts of the project
+ */
+export async function fetchTandemLifts(projectId: string): Promise<TandemLift[]> {
+  const { data, error } = await supabase
+    .from('project_tandem_lifts')
+    .select('*')
+    .eq('trimble_project_id', projectId);
+
+  if (error) throw error;
+  return (data || []).map(row => ({
+    ...row,
+    derating_factor: Number(row.derating_factor),
+    inset_a_m: Number(row.inset_a_m) || 0,
+    inset_b_m: Number(row.inset_b_m) || 0
+  }));
+}
+
+/**
+ * Tandem (dual-crane) lifts of project elements, one per element GUID
+ */
+export function useTandemLifts(projectId: string | null | undefined): UseTandemLiftsResult {
+  const [tandemLifts, setTandemLifts] = useState<TandemLift[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLifts = useCallback(async () => {
+    if (!projectId) {
+      setTandemLifts([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setTandemLifts(await fetchTandemLifts(projectId));
+    } catch (err) {
+      console.error('Error fetching tandem lifts:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchLifts();
+  }, [fetchLifts]);
+
+  const saveTandemLift = useCallback(async (data: TandemLiftInput, userEmail?: string): Promise<TandemLift | null> => {
+    if (!projectId) return null;
+
+    try {
+      const { data: saved, error: upsertError } = await supabase
+        .from('project_tandem_lifts')
+        .upsert({
+          ...data,
+          trimble_project_id: projectId,
+          created_by_email: userEmail,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'trimble_project_id,guid_ifc' })
+        .select()
+        .single();
+
+      if (upsertError) {
+        console.error('Error saving tandem lift:', upsertError);
+        setError(upsertError.message);
+        return null;
+      }
+
+      // Update local state
+      setTandemLifts(prev => [...prev.filter(t => t.guid_ifc !== data.guid_ifc), saved]);
+
+      console.log(`✅ Tandem lift saved for ${data.assembly_mark || data.guid_ifc}`);
+      return saved;
+    } catch (err) {
+      console.error('Error saving tandem lift:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return null;
+    }
+  }, [projectId]);
+
+  const deleteTandemLift = useCallback(async (guid: string): Promise<boolean> => {
+    if (!projectId) return false;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('project_tandem_lifts')
+        .delete()
+        .eq('trimble_project_id', projectId)
+        .eq('guid_ifc', guid);
+
+      if (deleteError) {
+        console.error('Error deleting tandem lift:', deleteError);
+        setError(deleteError.message);
+        return false;
+      }
+
+      // Update local state
+      setTandemLifts(prev => prev.filter(t => t.guid_ifc !== guid));
+
+      return true;
+    } catch (err) {
+      console.error('Error deleting tandem lift:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, [projectId]);
+
+  return {
+    tandemLifts,
+    loading,
+    error,
+    refetch: fetchLifts,
+    saveTandemLift,
+    deleteTandemLift
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeBoomClearance,
+  checkSegmentClearance,
+  ClearanceBox,
+  getBoomPickGeometry,
+  pointToBoxDistance
+} from './boomClearance';
+import { ProjectCrane } from '../../../../supabase';
+
+const crane = {
+  id: 'c1',
+  position_x: 0,
+  position_y: 0,
+  position_z: 0
+} as ProjectCrane;
+
+const box = (guid: string, min: [number, number, number], max: [number, number, number]): ClearanceBox => ({
+  guid,
+  min: { x: min[0], y: min[1], z: min[2] },
+  max: { x: max[0], y: max[1], z: max[2] }
+});
+
+describe('boomClearance', () => {
+  it('should measure point to box distance', () => {
+    const b = box('a', [0, 0, 0], [1, 1, 1]);
+    expect(pointToBoxDistance({ x: 0.5, y: 0.5, z: 0.5 }, b)).toBe(0);
+    expect(pointToBoxDistance({ x: 4, y: 0.5, z: 5 }, b)).toBe(5);
+  });
+
+  it('should build boom and hook lines for a pick', () => {
+    // 30m boom, element 18m away → tip 24m above pivot
+    const geometry = getBoomPickGeometry(crane, 30, { x: 18, y: 0, topZ: 6 }, 3.5);
+    expect(geometry?.pivot.z).toBe(3.5);
+    expect(geometry?.tip.z).toBeCloseTo(27.5);
+    expect(geometry?.hookEnd.z).toBeCloseTo(6.5);
+    expect(getBoomPickGeometry(crane, 30, { x: 31, y: 0, topZ: 0 })).toBeNull();
+  });
+
+  it('should report clearance to nearby structure without clash', () => {
+    const result = checkSegmentClearance('boom', { x: 0, y: 0, z: 10 }, { x: 10, y: 0, z: 10 }, [
+      box('below', [2, -1, 0], [4, 1, 8])
+    ]);
+    expect(result.clashes).toHaveLength(0);
+    expect(result.minClearanceM).toBeCloseTo(2);
+    expect(result.nearestGuid).toBe('below');
+  });
+
+  it('should flag the clashing part of the boom', () => {
+    const geometry = getBoomPickGeometry(crane, 30, { x: 18, y: 0, topZ: 6 }, 3.5)!;
+    // Tall column halfway out crosses the boom at ~15.5m height
+    const result = analyzeBoomClearance(geometry, [
+      box('column', [8.5, -0.5, 0], [9.5, 0.5, 20]),
+      box('far', [100, 100, 0], [101, 101, 1])
+    ]);
+    expect(result.hasClash).toBe(true);
+    expect(result.minClearanceM).toBe(0);
+    expect(result.clashes).toHaveLength(1);
+    expect(result.clashes[0].part).toBe('boom');
+    expect(result.clashes[0].guids).toEqual(['column']);
+    // Padded by half a sample step on both sides
+    expect(result.clashes[0].start.x).toBeGreaterThan(8.3);
+    expect(result.clashes[0].start.x).toBeLessThan(8.5);
+    expect(result.clashes[0].end.x).toBeGreaterThan(9.5);
+    expect(result.clashes[0].end.x).toBeLessThan(9.7);
+    expect(result.hook.clashes).toHaveLength(0);
+  });
+
+  it('should detect structure in the hook path above the pick', () => {
+    const geometry = getBoomPickGeometry(crane, 30, { x: 18, y: 0, topZ: 6 }, 3.5)!;
+    const result = analyzeBoomClearance(geometry, [box('slab', [15, -3, 10], [21, 3, 10.3])]);
+    expect(result.boom.clashes).toHaveLength(0);
+    expect(result.hook.clashes).toHaveLength(1);
+    expect(result.hook.clashes[0].guids).toEqual(['slab']);
+  });
+});
@@ -0,0 +1,168 @@
+import { ProjectCrane } from '../../../../supabase';
+import { BOOM_PIVOT_HEIGHT_M } from '../../crane-placement/utils/craneConflicts';
+import { LiftPlanPosition } from './liftPlanAnalysis';
+
+// Sampling distance along boom and hook lines (m)
+export const CLEARANCE_SAMPLE_STEP_M = 0.25;
+// Hook path stops this far above the lifted element so its neighbours don't count as clashes
+export const HOOK_STOP_ABOVE_TARGET_M = 0.5;
+// Clearance below this is shown as a warning
+export const CLEARANCE_WARNING_M = 1;
+// Obstacles farther than this from a line are ignored when reporting clearance
+const MAX_REPORTED_CLEARANCE_M = 20;
+
+export type ClearanceBox = {
+  guid: string;
+  min: LiftPlanPosition;
+  max: LiftPlanPosition;
+};
+
+export type BoomPickGeometry = {
+  pivot: LiftPlanPosition;
+  tip: LiftPlanPosition;
+  hookEnd: LiftPlanPosition;
+};
+
+export type ClearancePart = 'boom' | 'hook';
+
+export type ClashSegment = {
+  part: ClearancePart;
+  start: LiftPlanPosition;
+  end: LiftPlanPosition;
+  guids: string[];
+};
+
+export type SegmentClearance = {
+  minClearanceM: number | null; // null = no obstacle within reporting distance
+  nearestGuid: string | null;
+  clashes: ClashSegment[];
+};
+
+export type BoomClearanceResult = {
+  boom: SegmentClearance;
+  hook: SegmentClearance;
+  minClearanceM: number | null;
+  hasClash: boolean;
+  clashes: ClashSegment[];
+};
+
+/**
+ * Boom and hook line for a pick: the boom is a straight line from the pivot
+ * to a tip directly above the element, the hook hangs vertically from the tip.
+ * Returns null when the element is beyond the boom length or above the tip.
+ */
+export function getBoomPickGeometry(
+  crane: ProjectCrane,
+  boomLengthM: number,
+  target: { x: number; y: number; topZ: number },
+  pivotHeightM: number = BOOM_PIVOT_HEIGHT_M
+): BoomPickGeometry | null {
+  const horizontal = Math.hypot(target.x - crane.position_x, target.y - crane.position_y);
+  if (horizontal > boomLengthM) return null;
+
+  const pivotZ = crane.position_z + pivotHeightM;
+  const tipZ = pivotZ + Math.sqrt(boomLengthM * boomLengthM - horizontal * horizontal);
+  if (tipZ <= target.topZ) return null;
+
+  return {
+    pivot: { x: crane.position_x, y: crane.position_y, z: pivotZ },
+    tip: { x: target.x, y: target.y, z: tipZ },
+    hookEnd: { x: target.x, y: target.y, z: Math.min(tipZ, target.topZ + HOOK_STOP_ABOVE_TARGET_M) }
+  };
+}
+
+/**
+ * Euclidean distance from a point to an axis-aligned box (0 inside)
+ */
+export function pointToBoxDistance(p: LiftPlanPosition, box: ClearanceBox): number {
+  const dx = Math.max(box.min.x - p.x, 0, p.x - box.max.x);
+  const dy = Math.max(box.min.y - p.y, 0, p.y - box.max.y);
+  const dz = Math.max(box.min.z - p.z, 0, p.z - box.max.z);
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
+
+const lerp = (a: LiftPlanPosition, b: LiftPlanPosition, t: number): LiftPlanPosition => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+  z: a.z + (b.z - a.z) * t
+});
+
+/**
+ * Sample a line against obstacle boxes. Consecutive samples inside
+ * any box are reported as one clashing segment, padded by half a step
+ * since the real box boundary lies between samples.
+ */
+export function checkSegmentClearance(
+  part: ClearancePart,
+  start: LiftPlanPosition,
+  end: LiftPlanPosition,
+  boxes: ClearanceBox[],
+  stepM: number = CLEARANCE_SAMPLE_STEP_M
+): SegmentClearance {
+  const result: SegmentClearance = { minClearanceM: null, nearestGuid: null, clashes: [] };
+
+  // Only boxes near the line's bounding box can matter
+  const margin = MAX_REPORTED_CLEARANCE_M;
+  const nearby = boxes.filter(b =>
+    b.max.x >= Math.min(start.x, end.x) - margin && b.min.x <= Math.max(start.x, end.x) + margin &&
+    b.max.y >= Math.min(start.y, end.y) - margin && b.min.y <= Math.max(start.y, end.y) + margin &&
+    b.max.z >= Math.min(start.z, end.z) - margin && b.min.z <= Math.max(start.z, end.z) + margin
+  );
+  if (nearby.length === 0) return result;
+
+  const length = Math.hypot(end.x - start.x, end.y - start.y, end.z - start.z);
+  const steps = Math.max(1, Math.ceil(length / stepM));
+  let current: ClashSegment | null = null;
+
+  for (let i = 0; i <= steps; i++) {
+    const point = lerp(start, end, i / steps);
+    const inside: string[] = [];
+
+    for (const box of nearby) {
+      const distance = pointToBoxDistance(point, box);
+      if (distance === 0) inside.push(box.guid);
+      if (distance <= margin && (result.minClearanceM === null || distance < result.minClearanceM)) {
+        result.minClearanceM = distance;
+        result.nearestGuid = box.guid;
+      }
+    }
+
+    if (inside.length > 0) {
+      if (!current) {
+        current = { part, start: lerp(start, end, Math.max(0, (i - 0.5) / steps)), end: point, guids: [] };
+        result.clashes.push(current);
+      }
+      current.end = lerp(start, end, Math.min(1, (i + 0.5) / steps));
+      for (const guid of inside) {
+        if (!current.guids.includes(guid)) current.guids.push(guid);
+      }
+    } else {
+      current = null;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check boom and hook lines of a pick against surrounding structure
+ */
+export function analyzeBoomClearance(
+  geometry: BoomPickGeometry,
+  obstacles: ClearanceBox[],
+  stepM: number = CLEARANCE_SAMPLE_STEP_M
+): BoomClearanceResult {
+  const boom = checkSegmentClearance('boom', geometry.pivot, geometry.tip, obstacles, stepM);
+  const hook = checkSegmentClearance('hook', geometry.tip, geometry.hookEnd, obstacles, stepM);
+
+  const measured = [boom.minClearanceM, hook.minClearanceM].filter((v): v is number => v !== null);
+  const clashes = [...boom.clashes, ...hook.clashes];
+
+  return {
+    boom,
+    hook,
+    minClearanceM: measured.length > 0 ? Math.min(...measured) : null,
+    hasClash: clashes.length > 0,
+    clashes
+  };
+}
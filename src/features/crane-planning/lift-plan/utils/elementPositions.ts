@@ -0,0 +1,55 @@
+import * as WorkspaceAPI from 'trimble-connect-workspace-api';
+import { findObjectsInLoadedModels } from '../../../../utils/navigationHelper';
+import { LiftPlanPosition } from './liftPlanAnalysis';
+
+export type ElementBounds = {
+  center: LiftPlanPosition; // bounding box center (meters)
+  min: LiftPlanPosition;
+  max: LiftPlanPosition;
+};
+
+/**
+ * Resolve bounding boxes (meters) for IFC GUIDs in all loaded models.
+ * GUIDs not found in any loaded model are missing from the result.
+ */
+export async function getElementBoundsByGuid(
+  api: WorkspaceAPI.WorkspaceAPI,
+  guidsIfc: string[]
+): Promise<Map<string, ElementBounds>> {
+  const result = new Map<string, ElementBounds>();
+  const found = await findObjectsInLoadedModels(api, guidsIfc);
+  if (found.size === 0) return result;
+
+  // Group runtime IDs by model for batched bbox queries
+  const byModel = new Map<string, { guid: string; runtimeId: number }[]>();
+  for (const [guid, obj] of found) {
+    const list = byModel.get(obj.modelId) || [];
+    list.push({ guid, runtimeId: obj.runtimeId });
+    byModel.set(obj.modelId, list);
+  }
+
+  for (const [modelId, objects] of byModel) {
+    try {
+      const bboxes = await api.viewer.getObjectBoundingBoxes(modelId, objects.map(o => o.runtimeId));
+      const bboxById = new Map(bboxes.map(b => [b.id, b.boundingBox]));
+
+      for (const obj of objects) {
+        const b = bboxById.get(obj.runtimeId);
+        if (!b) continue;
+        result.set(obj.guid, {
+          center: {
+            x: (b.min.x + b.max.x) / 2,
+            y: (b.min.y + b.max.y) / 2,
+            z: (b.min.z + b.max.z) / 2
+          },
+          min: { x: b.min.x, y: b.min.y, z: b.min.z },
+          max: { x: b.max.x, y: b.max.y, z: b.max.z }
+        });
+      }
+    } catch (e) {
+      console.error('Error getting bounding boxes for model', modelId, e);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeLiftPlan, analyzeLiftPick, parseCastUnitWeight, summarizeGroundBearing, LiftPlanElement } from './liftPlanAnalysis';
+import { LoadChart, ProjectCrane } from '../../../../supabase';
+
+const crane = {
+  id: 'crane-1',
+  crane_model_id: 'model-1',
+  counterweight_config_id: 'cw-1',
+  position_x: 0,
+  position_y: 0,
+  position_z: 0,
+  boom_length_m: 30,
+  hook_weight_kg: 500,
+  lifting_block_kg: 500,
+  safety_factor: 1,
+  position_label: 'K1'
+} as ProjectCrane;
+
+const charts = [{
+  id: 'lc-1',
+  crane_model_id: 'model-1',
+  counterweight_config_id: 'cw-1',
+  boom_length_m: 30,
+  chart_data: [
+    { radius_m: 5, capacity_kg: 21000 },
+    { radius_m: 10, capacity_kg: 11000 },
+    { radius_m: 20, capacity_kg: 6000 }
+  ],
+  created_at: ''
+}] as LoadChart[];
+
+const element = (overrides: Partial<LiftPlanElement>): LiftPlanElement => ({
+  guid: 'g1',
+  assemblyMark: 'C-1',
+  scheduledDate: '2026-03-02',
+  weightKg: 5000,
+  position: { x: 10, y: 0, z: 3 },
+  ...overrides
+});
+
+describe('liftPlanAnalysis', () => {
+  it('should parse comma decimal weights', () => {
+    expect(parseCastUnitWeight('1234,5')).toBe(1234.5);
+    expect(parseCastUnitWeight('')).toBeNull();
+    expect(parseCastUnitWeight(undefined)).toBeNull();
+  });
+
+  it('should pass a light pick and flag a heavy one', () => {
+    expect(analyzeLiftPick(element({}), [crane], charts).status).toBe('ok');
+    expect(analyzeLiftPick(element({ weightKg: 9500 }), [crane], charts).status).toBe('high_utilization');
+    expect(analyzeLiftPick(element({ weightKg: 12000 }), [crane], charts).status).toBe('unliftable');
+  });
+
+  it('should deduct rigging weight from the available capacity', () => {
+    expect(analyzeLiftPick(element({ weightKg: 9800 }), [crane], charts).status).toBe('high_utilization');
+    const pick = analyzeLiftPick(element({ weightKg: 9800, riggingWeightKg: 300 }), [crane], charts);
+    expect(pick.status).toBe('unliftable');
+    expect(pick.bestCrane?.availableCapacityKg).toBe(9700);
+  });
+
+  it('should treat radius outside the chart as unliftable', () => {
+    const pick = analyzeLiftPick(element({ weightKg: 100, position: { x: 25, y: 0, z: 0 } }), [crane], charts);
+    expect(pick.status).toBe('unliftable');
+    expect(pick.bestCrane?.availableCapacityKg).toBeNull();
+  });
+
+  it('should group picks per day', () => {
+    const days = analyzeLiftPlan([
+      element({ guid: 'a', scheduledDate: '2026-03-03' }),
+      element({ guid: 'b', scheduledDate: '2026-03-02', position: null }),
+      element({ guid: 'c', scheduledDate: '2026-03-02', weightKg: null })
+    ], [crane], charts);
+    expect(days.map(d => d.date)).toEqual(['2026-03-02', '2026-03-03']);
+    expect(days[0].problemCount).toBe(2);
+    expect(days[1].problemCount).toBe(0);
+  });
+
+  it('should include the ground reaction of the best crane', () => {
+    const configured = {
+      ...crane,
+      rotation_deg: 0,
+      crane_model: { crane_type: 'mobile', base_width_m: 2.5, base_length_m: 10, model: 'LTM' },
+      ground_bearing: { crane_self_weight_kg: 30000, counterweight_radius_m: 4, allowable_pressure_kpa: 200, support_size_m: 0.6 }
+    } as ProjectCrane;
+
+    const days = analyzeLiftPlan([
+      element({ guid: 'a', assemblyMark: 'C-1', weightKg: 2000 }),
+      element({ guid: 'b', assemblyMark: 'C-2', weightKg: 6000, scheduledDate: '2026-03-03' })
+    ], [configured], charts);
+    expect(days[0].picks[0].groundBearing?.supportType).toBe('outriggers');
+
+    const [summary] = summarizeGroundBearing(days, [configured]);
+    expect(summary.configured).toBe(true);
+    expect(summary.pickCount).toBe(2);
+    expect(summary.worstAssemblyMark).toBe('C-2');
+    expect(summary.worstDate).toBe('2026-03-03');
+
+    expect(analyzeLiftPick(element({}), [crane], charts).groundBearing).toBeNull();
+  });
+
+  it('should check saved tandem lifts with both cranes', () => {
+    const second = { ...crane, id: 'crane-2', position_x: 20, position_label: 'K2' } as ProjectCrane;
+    const heavy = element({ weightKg: 12000 });
+    expect(analyzeLiftPick(heavy, [crane, second], charts).status).toBe('unliftable');
+
+    const tandem = {
+      craneAId: 'crane-1',
+      craneBId: 'crane-2',
+      deratingFactor: 0.75,
+      hookPoints: { a: { x: 9, y: 0, z: 3 }, b: { x: 11, y: 0, z: 3 } }
+    };
+    const pick = analyzeLiftPick({ ...heavy, tandem }, [crane, second], charts);
+    expect(pick.status).toBe('ok');
+    expect(pick.tandem?.shares.map(s => s.shareKg)).toEqual([6000, 6000]);
+    expect(pick.options).toHaveLength(2);
+    expect(pick.bestCrane?.availableCapacityKg).toBe(9000);
+
+    // Crane removed from the project: plain single-crane check
+    expect(analyzeLiftPick({ ...heavy, tandem }, [crane], charts).tandem).toBeUndefined();
+  });
+});
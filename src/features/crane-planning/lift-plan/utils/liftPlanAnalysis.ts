@@ -0,0 +1,311 @@
+import { LoadChart, LoadChartDataPoint, ProjectCrane } from '../../../../supabase';
+import { calculateAvailableCapacity, getChartDataForBoomLength } from '../../load-calculator/utils/liftingCalculations';
+import { buildGroundBearingInput, calculateGroundBearing, getSlewAngle, GroundBearingResult } from '../../load-calculator/utils/groundBearing';
+import { calculateTandemLift, TandemCraneShare, TandemHookPoints, TandemLiftResult } from './tandemLift';
+
+// Picks above this utilization (% of net available capacity) are reported as critical
+export const HIGH_UTILIZATION_THRESHOLD = 90;
+
+export type LiftPickStatus = 'ok' | 'high_utilization' | 'unliftable' | 'no_position' | 'no_weight';
+
+export type LiftPlanPosition = {
+  x: number; // meters
+  y: number; // meters
+  z: number; // meters
+};
+
+export type LiftPlanElement = {
+  guid: string;
+  assemblyMark: string;
+  scheduledDate: string;
+  weightKg: number | null;
+  position: LiftPlanPosition | null;
+  // Slings, shackles etc. from the element's rigging configuration
+  riggingWeightKg?: number;
+  // Saved tandem lift: the element is lifted by these two cranes together
+  tandem?: {
+    craneAId: string;
+    craneBId: string;
+    deratingFactor: number;
+    hookPoints: TandemHookPoints;
+  };
+};
+
+export type CraneLiftOption = {
+  craneId: string;
+  craneLabel: string;
+  radiusM: number;
+  availableCapacityKg: number | null; // null = out of reach or no load chart
+  utilizationPct: number | null;
+  canLift: boolean;
+};
+
+export type LiftPickResult = {
+  element: LiftPlanElement;
+  status: LiftPickStatus;
+  bestCrane: CraneLiftOption | null;
+  options: CraneLiftOption[];
+  // Ground reaction of the best crane (null = not liftable or ground bearing not configured)
+  groundBearing: GroundBearingResult | null;
+  // Tandem lift check (bestCrane is then the governing crane)
+  tandem?: TandemLiftResult;
+};
+
+export type LiftPlanDay = {
+  date: string;
+  picks: LiftPickResult[];
+  problemCount: number;
+};
+
+export type CraneGroundBearingSummary = {
+  craneId: string;
+  craneLabel: string;
+  configured: boolean;
+  pickCount: number;
+  // Pick with the highest ground pressure
+  worst: GroundBearingResult | null;
+  worstAssemblyMark: string | null;
+  worstDate: string | null;
+  overAllowableCount: number;
+};
+
+/**
+ * Parse cast_unit_weight string ("1234,5") to kg
+ */
+export function parseCastUnitWeight(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const weight = parseFloat(value.replace(',', '.'));
+  return isNaN(weight) || weight <= 0 ? null : weight;
+}
+
+/**
+ * Get load chart data for the crane's counterweight and boom length
+ * (interpolated between neighbouring boom lengths)
+ */
+export function getCraneChartData(crane: ProjectCrane, loadCharts: LoadChart[]): LoadChartDataPoint[] {
+  const counterweightCharts = loadCharts.filter(lc =>
+    lc.crane_model_id === crane.crane_model_id &&
+    lc.counterweight_config_id === crane.counterweight_config_id
+  );
+  return getChartDataForBoomLength(counterweightCharts, crane.boom_length_m);
+}
+
+/**
+ * Horizontal distance (m) from crane center to element position
+ */
+export function getHorizontalRadius(crane: ProjectCrane, position: LiftPlanPosition): number {
+  return Math.hypot(position.x - crane.position_x, position.y - crane.position_y);
+}
+
+/**
+ * Evaluate one element against one crane. Radii outside the load chart
+ * (or beyond the crane's max_radius_limit_m) are out of reach.
+ * Rigging weight is deducted from the capacity like the hook.
+ */
+export function evaluateCraneForElement(
+  crane: ProjectCrane,
+  chartData: LoadChartDataPoint[],
+  position: LiftPlanPosition,
+  weightKg: number,
+  riggingWeightKg: number = 0
+): CraneLiftOption {
+  const radiusM = getHorizontalRadius(crane, position);
+  const option: CraneLiftOption = {
+    craneId: crane.id,
+    craneLabel: crane.position_label || crane.crane_model?.model || crane.id,
+    radiusM,
+    availableCapacityKg: null,
+    utilizationPct: null,
+    canLift: false
+  };
+
+  if (crane.max_radius_limit_m && crane.max_radius_limit_m > 0 && radiusM > crane.max_radius_limit_m) {
+    return option;
+  }
+
+  // null = outside the load chart envelope
+  const result = calculateAvailableCapacity(
+    chartData,
+    radiusM,
+    crane.hook_weight_kg,
+    crane.lifting_block_kg,
+    crane.safety_factor,
+    riggingWeightKg
+  );
+  if (!result) return option;
+
+  option.availableCapacityKg = result.available_capacity_kg;
+  option.utilizationPct = result.available_capacity_kg > 0
+    ? Math.round((weightKg / result.available_capacity_kg) * 100)
+    : null;
+  option.canLift = result.is_safe && result.available_capacity_kg >= weightKg;
+  return option;
+}
+
+function tandemShareToOption(share: TandemCraneShare): CraneLiftOption {
+  return {
+    craneId: share.craneId,
+    craneLabel: share.craneLabel,
+    radiusM: share.radiusM,
+    availableCapacityKg: share.deratedCapacityKg,
+    utilizationPct: share.utilizationPct,
+    canLift: share.canLift
+  };
+}
+
+/**
+ * Evaluate a tandem pick: both cranes carry their share, the governing crane is reported
+ */
+function analyzeTandemPick(
+  element: LiftPlanElement,
+  craneA: ProjectCrane,
+  craneB: ProjectCrane,
+  loadCharts: LoadChart[]
+): LiftPickResult {
+  const tandemSetup = element.tandem!;
+  const tandem = calculateTandemLift(
+    craneA,
+    getCraneChartData(craneA, loadCharts),
+    craneB,
+    getCraneChartData(craneB, loadCharts),
+    tandemSetup.hookPoints,
+    element.position!,
+    element.weightKg!,
+    element.riggingWeightKg || 0,
+    tandemSetup.deratingFactor
+  );
+
+  const options = tandem.shares.map(tandemShareToOption);
+  const bestCrane = tandemShareToOption(tandem.governing);
+  const status: LiftPickStatus = !tandem.canLift
+    ? 'unliftable'
+    : (bestCrane.utilizationPct ?? 0) > HIGH_UTILIZATION_THRESHOLD ? 'high_utilization' : 'ok';
+
+  // Ground reaction of the governing crane with its own share
+  const crane = tandem.governing.craneId === craneA.id ? craneA : craneB;
+  const groundInput = tandem.canLift
+    ? buildGroundBearingInput(
+      crane,
+      tandem.governing.shareKg + tandem.riggingWeightKg / 2,
+      tandem.governing.radiusM,
+      getSlewAngle(crane, tandem.governing.hookPoint)
+    )
+    : null;
+  const groundBearing = groundInput ? calculateGroundBearing(groundInput) : null;
+
+  return { element, status, bestCrane, options, groundBearing, tandem };
+}
+
+/**
+ * Evaluate one element against all placed cranes and pick the best one
+ * (lowest utilization among cranes that can lift it).
+ * Saved tandem lifts are checked with their two cranes only.
+ */
+export function analyzeLiftPick(
+  element: LiftPlanElement,
+  cranes: ProjectCrane[],
+  loadCharts: LoadChart[]
+): LiftPickResult {
+  if (element.weightKg === null) {
+    return { element, status: 'no_weight', bestCrane: null, options: [], groundBearing: null };
+  }
+  if (!element.position) {
+    return { element, status: 'no_position', bestCrane: null, options: [], groundBearing: null };
+  }
+
+  if (element.tandem) {
+    const craneA = cranes.find(c => c.id === element.tandem!.craneAId);
+    const craneB = cranes.find(c => c.id === element.tandem!.craneBId);
+    if (craneA && craneB) return analyzeTandemPick(element, craneA, craneB, loadCharts);
+  }
+
+  const weightKg = element.weightKg;
+  const riggingWeightKg = element.riggingWeightKg || 0;
+  const position = element.position;
+  const options = cranes.map(crane =>
+    evaluateCraneForElement(crane, getCraneChartData(crane, loadCharts), position, weightKg, riggingWeightKg)
+  );
+
+  const liftable = options
+    .filter(o => o.canLift)
+    .sort((a, b) => (a.utilizationPct ?? 0) - (b.utilizationPct ?? 0));
+
+  if (liftable.length === 0) {
+    // Report the closest crane so the user sees how far off the pick is
+    const closest = [...options].sort((a, b) => a.radiusM - b.radiusM)[0] || null;
+    return { element, status: 'unliftable', bestCrane: closest, options, groundBearing: null };
+  }
+
+  const bestCrane = liftable[0];
+  const status: LiftPickStatus = (bestCrane.utilizationPct ?? 0) > HIGH_UTILIZATION_THRESHOLD
+    ? 'high_utilization'
+    : 'ok';
+
+  // Ground reaction with the boom slewed towards the element
+  const crane = cranes.find(c => c.id === bestCrane.craneId);
+  const groundInput = crane
+    ? buildGroundBearingInput(crane, weightKg + riggingWeightKg, bestCrane.radiusM, getSlewAngle(crane, position))
+    : null;
+  const groundBearing = groundInput ? calculateGroundBearing(groundInput) : null;
+
+  return { element, status, bestCrane, options, groundBearing };
+}
+
+/**
+ * Analyze all elements and group results per scheduled day (ascending)
+ */
+export function analyzeLiftPlan(
+  elements: LiftPlanElement[],
+  cranes: ProjectCrane[],
+  loadCharts: LoadChart[]
+): LiftPlanDay[] {
+  const byDate = new Map<string, LiftPickResult[]>();
+
+  for (const element of elements) {
+    const pick = analyzeLiftPick(element, cranes, loadCharts);
+    const list = byDate.get(element.scheduledDate) || [];
+    list.push(pick);
+    byDate.set(element.scheduledDate, list);
+  }
+
+  return Array.from(byDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, picks]) => ({
+      date,
+      picks,
+      problemCount: picks.filter(p => p.status !== 'ok').length
+    }));
+}
+
+/**
+ * Worst ground reaction per crane over the picks assigned to it
+ */
+export function summarizeGroundBearing(days: LiftPlanDay[], cranes: ProjectCrane[]): CraneGroundBearingSummary[] {
+  const summaries = new Map<string, CraneGroundBearingSummary>(cranes.map(crane => [crane.id, {
+    craneId: crane.id,
+    craneLabel: crane.position_label || crane.crane_model?.model || crane.id,
+    configured: !!crane.ground_bearing && crane.ground_bearing.crane_self_weight_kg > 0,
+    pickCount: 0,
+    worst: null,
+    worstAssemblyMark: null,
+    worstDate: null,
+    overAllowableCount: 0
+  }]));
+
+  for (const day of days) {
+    for (const pick of day.picks) {
+      const summary = pick.bestCrane && pick.groundBearing ? summaries.get(pick.bestCrane.craneId) : undefined;
+      if (!summary || !pick.groundBearing) continue;
+
+      summary.pickCount++;
+      if (!pick.groundBearing.withinAllowable) summary.overAllowableCount++;
+      if (!summary.worst || pick.groundBearing.maxPressureKpa > summary.worst.maxPressureKpa) {
+        summary.worst = pick.groundBearing;
+        summary.worstAssemblyMark = pick.element.assemblyMark;
+        summary.worstDate = day.date;
+      }
+    }
+  }
+
+  return Array.from(summaries.values());
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { buildLiftPlanPickRow, getLoadChartExcerpt, LiftPlanDocumentPick } from './liftPlanDocument';
+import { ProjectCrane } from '../../../../supabase';
+
+const crane = {
+  id: 'crane-1',
+  position_x: 0,
+  position_y: 0,
+  position_z: 0,
+  boom_length_m: 20,
+  hook_weight_kg: 500,
+  lifting_block_kg: 500,
+  safety_factor: 1
+} as ProjectCrane;
+
+const chartData = [
+  { radius_m: 4, capacity_kg: 30000 },
+  { radius_m: 8, capacity_kg: 15000 },
+  { radius_m: 12, capacity_kg: 9000 },
+  { radius_m: 16, capacity_kg: 6000 },
+  { radius_m: 20, capacity_kg: 4000 }
+];
+
+const pick = (overrides: Partial<LiftPlanDocumentPick> = {}): LiftPlanDocumentPick => ({
+  name: 'B-1',
+  guid: 'g1',
+  weightKg: 5000,
+  riggingWeightKg: 0,
+  position: { x: 12, y: 0, z: 3 },
+  ...overrides
+});
+
+describe('liftPlanDocument', () => {
+  it('should compute boom angle and capacity for a pick', () => {
+    const row = buildLiftPlanPickRow(crane, chartData, pick({ topZ: 4 }));
+    expect(row.radiusM).toBeCloseTo(12);
+    expect(row.boomAngleDeg).toBeCloseTo(53.1, 1);
+    expect(row.availableCapacityKg).toBe(8000);
+    expect(row.utilizationPct).toBe(63);
+    expect(row.hookHeightM).toBeCloseTo(3.5 + 16 - 4);
+    expect(row.critical).toBe(false);
+  });
+
+  it('should flag heavy and unreachable picks as critical', () => {
+    const heavy = buildLiftPlanPickRow(crane, chartData, pick({ weightKg: 7500, riggingWeightKg: 300 }));
+    expect(heavy.availableCapacityKg).toBe(7700);
+    expect(heavy.critical).toBe(true);
+
+    const far = buildLiftPlanPickRow(crane, chartData, pick({ position: { x: 25, y: 0, z: 0 } }));
+    expect(far.boomAngleDeg).toBeNull();
+    expect(far.canLift).toBe(false);
+    expect(far.critical).toBe(true);
+  });
+
+  it('should excerpt chart rows around pick radii', () => {
+    expect(getLoadChartExcerpt(chartData, [10]).map(p => p.radius_m)).toEqual([4, 8, 12, 16]);
+    expect(getLoadChartExcerpt(chartData, [12], 0).map(p => p.radius_m)).toEqual([12]);
+    expect(getLoadChartExcerpt(chartData, [])).toHaveLength(5);
+  });
+});
@@ -0,0 +1,103 @@
+import { LoadChartDataPoint, ProjectCrane } from '../../../../supabase';
+import { BOOM_PIVOT_HEIGHT_M } from '../../crane-placement/utils/craneConflicts';
+import { calculateAvailableCapacity, getCapacityAtRadius } from '../../load-calculator/utils/liftingCalculations';
+import { getHorizontalRadius, HIGH_UTILIZATION_THRESHOLD, LiftPlanPosition } from './liftPlanAnalysis';
+
+// Chart rows shown on both sides of each pick radius in the document excerpt
+export const CHART_EXCERPT_NEIGHBOURS = 1;
+
+export type LiftPlanDocumentPick = {
+  name: string;
+  guid: string | null;
+  scheduledDate?: string | null;
+  weightKg: number;
+  riggingWeightKg: number;
+  position: LiftPlanPosition; // element center (m)
+  topZ?: number;              // element top (m), for hook height
+};
+
+export type LiftPlanPickRow = {
+  pick: LiftPlanDocumentPick;
+  radiusM: number;
+  boomAngleDeg: number | null;  // null = beyond the boom length
+  boomTipHeightM: number | null; // above crane base
+  hookHeightM: number | null;    // boom tip above element top
+  grossCapacityKg: number | null; // null = outside the load chart
+  availableCapacityKg: number | null;
+  utilizationPct: number | null;
+  canLift: boolean;
+  critical: boolean;
+};
+
+/**
+ * Lift data of one pick for the crane's current boom length.
+ * Capacity follows the lift plan check (hook, block and rigging as dead weight).
+ */
+export function buildLiftPlanPickRow(
+  crane: ProjectCrane,
+  chartData: LoadChartDataPoint[],
+  pick: LiftPlanDocumentPick
+): LiftPlanPickRow {
+  const radiusM = getHorizontalRadius(crane, pick.position);
+  const boom = crane.boom_length_m;
+
+  let boomAngleDeg: number | null = null;
+  let boomTipHeightM: number | null = null;
+  let hookHeightM: number | null = null;
+  if (radiusM <= boom) {
+    const angle = Math.acos(radiusM / boom);
+    boomAngleDeg = Math.round((angle * 180 / Math.PI) * 10) / 10;
+    boomTipHeightM = BOOM_PIVOT_HEIGHT_M + boom * Math.sin(angle);
+    if (pick.topZ !== undefined) hookHeightM = crane.position_z + boomTipHeightM - pick.topZ;
+  }
+
+  const withinLimit = !crane.max_radius_limit_m || crane.max_radius_limit_m <= 0 || radiusM <= crane.max_radius_limit_m;
+  const result = withinLimit
+    ? calculateAvailableCapacity(chartData, radiusM, crane.hook_weight_kg, crane.lifting_block_kg, crane.safety_factor, pick.riggingWeightKg)
+    : null;
+
+  const availableCapacityKg = result ? result.available_capacity_kg : null;
+  const utilizationPct = availableCapacityKg ? Math.round((pick.weightKg / availableCapacityKg) * 100) : null;
+  const canLift = !!result && result.is_safe && availableCapacityKg !== null &&
+    availableCapacityKg >= pick.weightKg && boomAngleDeg !== null;
+
+  return {
+    pick,
+    radiusM,
+    boomAngleDeg,
+    boomTipHeightM,
+    hookHeightM,
+    grossCapacityKg: withinLimit ? getCapacityAtRadius(chartData, radiusM) : null,
+    availableCapacityKg,
+    utilizationPct,
+    canLift,
+    critical: !canLift || (utilizationPct ?? 0) > HIGH_UTILIZATION_THRESHOLD
+  };
+}
+
+/**
+ * Load chart rows around the given radii (bracketing points plus neighbours).
+ * Returns the whole chart when no radius is given.
+ */
+export function getLoadChartExcerpt(
+  chartData: LoadChartDataPoint[],
+  radii: number[],
+  neighbours: number = CHART_EXCERPT_NEIGHBOURS
+): LoadChartDataPoint[] {
+  const sorted = [...chartData].sort((a, b) => a.radius_m - b.radius_m);
+  if (radii.length === 0) return sorted;
+
+  const indices = new Set<number>();
+  for (const radius of radii) {
+    // First chart point at or beyond the radius (last point when beyond the chart)
+    let upper = sorted.findIndex(p => p.radius_m >= radius);
+    if (upper === -1) upper = sorted.length - 1;
+    const lower = sorted[upper]?.radius_m === radius ? upper : Math.max(0, upper - 1);
+
+    for (let i = lower - neighbours; i <= upper + neighbours; i++) {
+      if (i >= 0 && i < sorted.length) indices.add(i);
+    }
+  }
+
+  return [...indices].sort((a, b) => a - b).map(i => sorted[i]);
+}
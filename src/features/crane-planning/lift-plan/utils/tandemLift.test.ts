@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { calculateTandemLift, getTandemHookPoints, getTandemShareA } from './tandemLift';
+import { ProjectCrane } from '../../../../supabase';
+
+const crane = (id: string, x: number): ProjectCrane => ({
+  id,
+  position_label: id,
+  position_x: x,
+  position_y: 0,
+  position_z: 0,
+  boom_length_m: 30,
+  hook_weight_kg: 500,
+  lifting_block_kg: 500,
+  safety_factor: 1
+} as ProjectCrane);
+
+const chartData = [
+  { radius_m: 5, capacity_kg: 12000 },
+  { radius_m: 10, capacity_kg: 8000 },
+  { radius_m: 20, capacity_kg: 4000 }
+];
+
+// 10 m beam along X from 0 to 10, top at 3 m
+const bounds = { min: { x: 0, y: -0.2, z: 2.5 }, max: { x: 10, y: 0.2, z: 3 } };
+
+describe('tandemLift', () => {
+  it('should put hook points on the element ends nearest to each crane', () => {
+    const left = crane('K1', -8);
+    const right = crane('K2', 18);
+
+    const points = getTandemHookPoints(bounds, left, right, 1, 1);
+    expect(points.a).toEqual({ x: 1, y: 0, z: 3 });
+    expect(points.b).toEqual({ x: 9, y: 0, z: 3 });
+
+    const swapped = getTandemHookPoints(bounds, right, left, 1, 2);
+    expect(swapped.a.x).toBe(9);
+    expect(swapped.b.x).toBe(2);
+  });
+
+  it('should split the load by the centre of gravity', () => {
+    const points = { a: { x: 1, y: 0, z: 3 }, b: { x: 9, y: 0, z: 3 } };
+    expect(getTandemShareA(points, { x: 5, y: 0, z: 2 })).toBeCloseTo(0.5);
+    expect(getTandemShareA(points, { x: 3, y: 1, z: 2 })).toBeCloseTo(0.75);
+    expect(getTandemShareA(points, { x: 12, y: 0, z: 2 })).toBe(0);
+  });
+
+  it('should check each share against the derated chart', () => {
+    const left = crane('K1', -8);
+    const right = crane('K2', 18);
+    const points = getTandemHookPoints(bounds, left, right, 1, 1);
+    const center = { x: 5, y: 0, z: 2.75 };
+
+    // Radius 9 m: 8800 kg gross, 7800 kg net, 5850 kg derated
+    const ok = calculateTandemLift(left, chartData, right, chartData, points, center, 10000, 0, 0.75);
+    expect(ok.shares[0].radiusM).toBeCloseTo(9);
+    expect(ok.shares[0].shareKg).toBe(5000);
+    expect(ok.shares[0].deratedCapacityKg).toBe(5850);
+    expect(ok.shares[0].utilizationPct).toBe(85);
+    expect(ok.canLift).toBe(true);
+
+    // Liftable by net capacity but not after derating
+    const heavy = calculateTandemLift(left, chartData, right, chartData, points, center, 12000, 0, 0.75);
+    expect(heavy.shares[0].shareKg).toBeLessThan(7800);
+    expect(heavy.canLift).toBe(false);
+
+    // Off-centre load governs on the heavier side
+    const offset = calculateTandemLift(left, chartData, right, chartData, points, { x: 7, y: 0, z: 2.75 }, 8000);
+    expect(offset.shares[1].shareKg).toBe(6000);
+    expect(offset.governing.craneId).toBe('K2');
+    expect(offset.canLift).toBe(false);
+  });
+});
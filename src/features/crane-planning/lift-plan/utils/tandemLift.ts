@@ -0,0 +1,187 @@
+import { LoadChartDataPoint, ProjectCrane } from '../../../../supabase';
+import { calculateAvailableCapacity, canLiftLoad } from '../../load-calculator/utils/liftingCalculations';
+import { LiftPlanPosition } from './liftPlanAnalysis';
+
+// Share of each crane's net capacity usable in a tandem lift (typical 75-80%)
+export const DEFAULT_TANDEM_DERATING = 0.75;
+
+// Default hook point distance from the element ends (m)
+export const DEFAULT_TANDEM_INSET_M = 0.5;
+
+export type TandemHookPoints = {
+  a: LiftPlanPosition; // hook point of crane A (meters)
+  b: LiftPlanPosition; // hook point of crane B (meters)
+};
+
+export type TandemCraneShare = {
+  craneId: string;
+  craneLabel: string;
+  hookPoint: LiftPlanPosition;
+  radiusM: number;
+  boomAngleDeg: number | null;       // null = beyond the boom length
+  shareKg: number;                   // element weight carried by this crane
+  availableCapacityKg: number | null; // net capacity before derating (null = out of reach)
+  deratedCapacityKg: number | null;
+  utilizationPct: number | null;     // share of the derated capacity
+  canLift: boolean;
+};
+
+export type TandemLiftResult = {
+  weightKg: number;
+  riggingWeightKg: number;
+  deratingFactor: number;
+  shares: [TandemCraneShare, TandemCraneShare];
+  // Crane with the highest utilization
+  governing: TandemCraneShare;
+  canLift: boolean;
+};
+
+/**
+ * Hook points on the element's long axis (top of the bounding box), inset from both ends.
+ * Each crane gets the end that keeps the total radius smallest.
+ */
+export function getTandemHookPoints(
+  bounds: { min: LiftPlanPosition; max: LiftPlanPosition },
+  craneA: ProjectCrane,
+  craneB: ProjectCrane,
+  insetAM: number = DEFAULT_TANDEM_INSET_M,
+  insetBM: number = DEFAULT_TANDEM_INSET_M
+): TandemHookPoints {
+  const { min, max } = bounds;
+  const alongX = (max.x - min.x) >= (max.y - min.y);
+  const length = alongX ? max.x - min.x : max.y - min.y;
+  const centerX = (min.x + max.x) / 2;
+  const centerY = (min.y + max.y) / 2;
+
+  // Inset can not pass the element middle
+  const half = length / 2;
+  const clampInset = (inset: number) => Math.min(Math.max(0, inset), half);
+
+  const endPoint = (fromStart: boolean, inset: number): LiftPlanPosition => {
+    const offset = fromStart ? -half + clampInset(inset) : half - clampInset(inset);
+    return alongX
+      ? { x: centerX + offset, y: centerY, z: max.z }
+      : { x: centerX, y: centerY + offset, z: max.z };
+  };
+
+  const dist = (crane: ProjectCrane, p: LiftPlanPosition) =>
+    Math.hypot(p.x - crane.position_x, p.y - crane.position_y);
+  const start = endPoint(true, 0);
+  const end = endPoint(false, 0);
+  const aAtStart = dist(craneA, start) + dist(craneB, end) <= dist(craneA, end) + dist(craneB, start);
+
+  return {
+    a: endPoint(aAtStart, insetAM),
+    b: endPoint(!aAtStart, insetBM)
+  };
+}
+
+/**
+ * Split the element weight between two hooks by lever rule: the centre of gravity
+ * is projected onto the line between the hook points. Returns the share of hook A (0..1).
+ */
+export function getTandemShareA(hookPoints: TandemHookPoints, centerOfGravity: LiftPlanPosition): number {
+  const dx = hookPoints.b.x - hookPoints.a.x;
+  const dy = hookPoints.b.y - hookPoints.a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return 0.5;
+
+  const t = ((centerOfGravity.x - hookPoints.a.x) * dx + (centerOfGravity.y - hookPoints.a.y) * dy) / lengthSq;
+  // Centre of gravity outside the hooks puts the whole load on the nearer crane
+  return 1 - Math.min(1, Math.max(0, t));
+}
+
+function evaluateTandemShare(
+  crane: ProjectCrane,
+  chartData: LoadChartDataPoint[],
+  hookPoint: LiftPlanPosition,
+  shareKg: number,
+  riggingWeightKg: number,
+  deratingFactor: number
+): TandemCraneShare {
+  const radiusM = Math.hypot(hookPoint.x - crane.position_x, hookPoint.y - crane.position_y);
+  const boomAngleDeg = radiusM <= crane.boom_length_m
+    ? Math.round((Math.acos(radiusM / crane.boom_length_m) * 180 / Math.PI) * 10) / 10
+    : null;
+
+  const share: TandemCraneShare = {
+    craneId: crane.id,
+    craneLabel: crane.position_label || crane.crane_model?.model || crane.id,
+    hookPoint,
+    radiusM,
+    boomAngleDeg,
+    shareKg: Math.round(shareKg),
+    availableCapacityKg: null,
+    deratedCapacityKg: null,
+    utilizationPct: null,
+    canLift: false
+  };
+
+  if (crane.max_radius_limit_m && crane.max_radius_limit_m > 0 && radiusM > crane.max_radius_limit_m) {
+    return share;
+  }
+
+  const result = calculateAvailableCapacity(
+    chartData,
+    radiusM,
+    crane.hook_weight_kg,
+    crane.lifting_block_kg,
+    crane.safety_factor,
+    riggingWeightKg
+  );
+  if (!result) return share;
+
+  share.availableCapacityKg = result.available_capacity_kg;
+  share.deratedCapacityKg = Math.round(result.available_capacity_kg * deratingFactor);
+  share.utilizationPct = share.deratedCapacityKg > 0
+    ? Math.round((shareKg / share.deratedCapacityKg) * 100)
+    : null;
+  // Derating applied by checking the share grossed up against the crane's own chart
+  share.canLift = boomAngleDeg !== null && canLiftLoad(
+    chartData,
+    radiusM,
+    shareKg / deratingFactor,
+    crane.hook_weight_kg,
+    crane.lifting_block_kg,
+    crane.safety_factor,
+    riggingWeightKg
+  );
+  return share;
+}
+
+/**
+ * Check a tandem lift: each crane's share (lever rule) against its own derated chart.
+ * Rigging weight is split evenly between the hooks.
+ */
+export function calculateTandemLift(
+  craneA: ProjectCrane,
+  chartDataA: LoadChartDataPoint[],
+  craneB: ProjectCrane,
+  chartDataB: LoadChartDataPoint[],
+  hookPoints: TandemHookPoints,
+  centerOfGravity: LiftPlanPosition,
+  weightKg: number,
+  riggingWeightKg: number = 0,
+  deratingFactor: number = DEFAULT_TANDEM_DERATING
+): TandemLiftResult {
+  const factor = deratingFactor > 0 && deratingFactor <= 1 ? deratingFactor : DEFAULT_TANDEM_DERATING;
+  const shareA = getTandemShareA(hookPoints, centerOfGravity);
+
+  const shares: [TandemCraneShare, TandemCraneShare] = [
+    evaluateTandemShare(craneA, chartDataA, hookPoints.a, weightKg * shareA, riggingWeightKg / 2, factor),
+    evaluateTandemShare(craneB, chartDataB, hookPoints.b, weightKg * (1 - shareA), riggingWeightKg / 2, factor)
+  ];
+
+  // Out of reach counts as the worst utilization
+  const utilization = (s: TandemCraneShare) => s.canLift ? (s.utilizationPct ?? 0) : Infinity;
+  const governing = utilization(shares[1]) > utilization(shares[0]) ? shares[1] : shares[0];
+
+  return {
+    weightKg,
+    riggingWeightKg,
+    deratingFactor: factor,
+    shares,
+    governing,
+    canLift: shares[0].canLift && shares[1].canLift
+  };
+}
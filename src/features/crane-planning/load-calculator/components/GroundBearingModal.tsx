@@ -0,0 +1,268 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FiX, FiLoader, FiSave, FiAlertCircle } from 'react-icons/fi';
+import { CraneGroundBearingSettings, ProjectCrane } from '../../../../supabase';
+import { formatWeight } from '../utils/liftingCalculations';
+import {
+  buildGroundBearingInput,
+  calculateGroundBearing,
+  findWorstSlew,
+  getDefaultGroundBearingSettings,
+  getSupportType
+} from '../utils/groundBearing';
+
+export interface GroundBearingPick {
+  name?: string;
+  weightKg: number;
+  radiusM: number;
+  slewDeg: number;
+}
+
+interface GroundBearingModalProps {
+  crane: ProjectCrane;
+  initialPick?: GroundBearingPick;
+  onSaveSettings: (settings: CraneGroundBearingSettings) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+export default function GroundBearingModal({
+  crane,
+  initialPick,
+  onSaveSettings,
+  onClose
+}: GroundBearingModalProps) {
+  const { t } = useTranslation('common');
+  const [settings, setSettings] = useState<CraneGroundBearingSettings>(
+    crane.ground_bearing || getDefaultGroundBearingSettings(crane)
+  );
+  const [weightKg, setWeightKg] = useState(initialPick?.weightKg ?? 0);
+  const [radiusM, setRadiusM] = useState(round1(initialPick?.radiusM ?? crane.boom_length_m / 2));
+  const [slewDeg, setSlewDeg] = useState(initialPick?.slewDeg ?? 0);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState(false);
+
+  const supportType = crane.crane_model ? getSupportType(crane.crane_model.crane_type) : 'outriggers';
+  const input = useMemo(
+    () => buildGroundBearingInput(crane, weightKg, radiusM, slewDeg, settings),
+    [crane, weightKg, radiusM, slewDeg, settings]
+  );
+  const result = useMemo(() => (input ? calculateGroundBearing(input) : null), [input]);
+  const worst = useMemo(() => (input ? findWorstSlew(input) : null), [input]);
+
+  const updateSetting = (key: keyof CraneGroundBearingSettings, value: number) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(false);
+    const ok = await onSaveSettings(settings);
+    setSaving(false);
+    setSaveError(!ok);
+  };
+
+  const formatPressure = (kpa: number) => (isFinite(kpa) ? `${Math.round(kpa)} kPa` : '∞');
+
+  const sectionTitle: React.CSSProperties = { fontSize: '13px', fontWeight: 600, margin: '0 0 6px 0' };
+  const inputStyle: React.CSSProperties = { padding: '4px 6px', fontSize: '12px', borderRadius: '4px', border: '1px solid #d1d5db', width: '80px' };
+  const labelStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '4px' };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 10001
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        boxShadow: '0 8px 32px rgba(0,0,0,0.2)',
+        maxWidth: '560px',
+        width: '95%',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column'
+      }}>
+        {/* Modal header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: '16px', fontWeight: 600 }}>{t('groundBearing.title')}</h3>
+            <p style={{ margin: '4px 0 0 0', fontSize: '12px', color: '#6b7280' }}>
+              {crane.position_label || t('equipment.crane')} • {crane.crane_model?.manufacturer} {crane.crane_model?.model}
+              {initialPick?.name && <> • {initialPick.name}</>}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: '8px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', borderRadius: '4px' }}
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        {/* Modal content */}
+        <div style={{ padding: '16px 20px', overflow: 'auto', flex: 1, display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          {/* Crane setup */}
+          <div>
+            <p style={sectionTitle}>{t('groundBearing.setup')}</p>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px', fontSize: '12px' }}>
+              <label style={labelStyle}>
+                {t('groundBearing.selfWeight')}
+                <input type="number" min="0" step="100" value={settings.crane_self_weight_kg} onChange={e => updateSetting('crane_self_weight_kg', Number(e.target.value) || 0)} style={inputStyle} />
+              </label>
+              <label style={labelStyle}>
+                {t('groundBearing.counterweightRadius')}
+                <input type="number" min="0" step="0.1" value={settings.counterweight_radius_m} onChange={e => updateSetting('counterweight_radius_m', Number(e.target.value) || 0)} style={inputStyle} />
+              </label>
+              <label style={labelStyle}>
+                {t(supportType === 'tracks' ? 'groundBearing.trackWidth' : 'groundBearing.padSize')}
+                <input type="number" min="0.1" step="0.1" value={settings.support_size_m} onChange={e => updateSetting('support_size_m', Number(e.target.value) || 0)} style={inputStyle} />
+              </label>
+              <label style={labelStyle}>
+                {t('groundBearing.allowablePressure')}
+                <input type="number" min="1" step="10" value={settings.allowable_pressure_kpa} onChange={e => updateSetting('allowable_pressure_kpa', Number(e.target.value) || 0)} style={inputStyle} />
+              </label>
+            </div>
+            <div style={{ fontSize: '11px', color: '#6b7280', marginTop: '6px' }}>
+              {t('groundBearing.counterweight', {
+                name: crane.counterweight_config?.name || '-',
+                weight: formatWeight(crane.counterweight_config?.weight_kg || 0)
+              })}
+              {' • '}
+              {t('groundBearing.base', { width: crane.crane_model?.base_width_m ?? '-', length: crane.crane_model?.base_length_m ?? '-' })}
+            </div>
+          </div>
+
+          {/* Pick */}
+          <div>
+            <p style={sectionTitle}>{t('groundBearing.pick')}</p>
+            <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap', fontSize: '12px' }}>
+              <label style={labelStyle}>
+                {t('groundBearing.load')}
+                <input type="number" min="0" step="100" value={weightKg} onChange={e => setWeightKg(Number(e.target.value) || 0)} style={inputStyle} />
+              </label>
+              <label style={labelStyle}>
+                {t('groundBearing.radius')}
+                <input type="number" min="0" step="0.5" value={radiusM} onChange={e => setRadiusM(Number(e.target.value) || 0)} style={{ ...inputStyle, width: '60px' }} />
+              </label>
+              <label style={labelStyle}>
+                {t('groundBearing.slew')}
+                <input type="number" min="0" max="359" step="5" value={slewDeg} onChange={e => setSlewDeg(((Number(e.target.value) || 0) % 360 + 360) % 360)} style={{ ...inputStyle, width: '60px' }} />
+              </label>
+            </div>
+            <div style={{ fontSize: '11px', color: '#6b7280', marginTop: '6px' }}>
+              {t('groundBearing.loadIncludes', { hook: formatWeight(crane.hook_weight_kg), block: formatWeight(crane.lifting_block_kg) })}
+            </div>
+          </div>
+
+          {/* Results */}
+          {!input || !result || !worst ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#d97706', padding: '12px', backgroundColor: '#fffbeb', borderRadius: '8px', fontSize: '12px' }}>
+              <FiAlertCircle /> {t('groundBearing.enterSelfWeight')}
+            </div>
+          ) : (
+            <div>
+              <p style={sectionTitle}>{t('groundBearing.results', { total: Math.round(result.totalLoadKn) })}</p>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                <thead>
+                  <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+                    <th style={{ padding: '6px 8px' }}>{t('groundBearing.support')}</th>
+                    <th style={{ padding: '6px 8px' }}>{t('groundBearing.reaction')}</th>
+                    <th style={{ padding: '6px 8px' }}>{t(result.supportType === 'tracks' ? 'groundBearing.peakPressure' : 'groundBearing.padPressure')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.reactions.map(r => (
+                    <tr key={r.support} style={{ borderBottom: '1px solid #f3f4f6' }}>
+                      <td style={{ padding: '6px 8px' }}>{t(`groundBearing.supports.${r.support}`)}</td>
+                      <td style={{ padding: '6px 8px' }}>{Math.round(r.reactionKn)} kN</td>
+                      <td style={{ padding: '6px 8px', fontWeight: 600, color: r.pressureKpa > settings.allowable_pressure_kpa ? '#dc2626' : '#16a34a' }}>
+                        {formatPressure(r.pressureKpa)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {!result.stable && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#dc2626', padding: '8px 12px', backgroundColor: '#fef2f2', borderRadius: '8px', fontSize: '12px', marginTop: '8px' }}>
+                  <FiAlertCircle /> {t('groundBearing.unstable')}
+                </div>
+              )}
+
+              <div style={{
+                marginTop: '12px',
+                padding: '12px',
+                borderRadius: '8px',
+                fontSize: '12px',
+                backgroundColor: result.withinAllowable ? '#f0fdf4' : '#fef2f2',
+                border: `1px solid ${result.withinAllowable ? '#bbf7d0' : '#fecaca'}`,
+                display: 'grid',
+                gridTemplateColumns: '1fr 1fr',
+                gap: '6px'
+              }}>
+                <div>{t('groundBearing.maxPressure')}: <strong>{formatPressure(result.maxPressureKpa)}</strong></div>
+                <div>{t('groundBearing.requiredMat')}: <strong>{result.requiredMat.lengthM} × {result.requiredMat.widthM} m</strong></div>
+                <div>
+                  {t('groundBearing.worstSlew', { slew: worst.slewDeg })}: <strong>{formatPressure(worst.maxPressureKpa)}</strong>
+                </div>
+                <div>{t('groundBearing.worstMat')}: <strong>{worst.requiredMat.lengthM} × {worst.requiredMat.widthM} m</strong></div>
+              </div>
+            </div>
+          )}
+          <div style={{ fontSize: '11px', color: '#9ca3af' }}>{t('groundBearing.disclaimer')}</div>
+        </div>
+
+        {/* Modal footer */}
+        <div style={{
+          padding: '12px 20px',
+          borderTop: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          alignItems: 'center',
+          gap: '8px'
+        }}>
+          {saveError && <span style={{ fontSize: '12px', color: '#dc2626', marginRight: 'auto' }}>{t('groundBearing.saveFailed')}</span>}
+          <button
+            onClick={onClose}
+            style={{ ...footerBtnStyle, backgroundColor: 'white', color: '#374151', border: '1px solid #e5e7eb' }}
+          >
+            {t('buttons.close')}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            style={{ ...footerBtnStyle, backgroundColor: 'var(--modus-primary)', color: 'white', border: 'none' }}
+          >
+            {saving ? <FiLoader size={14} className="spin" /> : <FiSave size={14} />} {t('groundBearing.saveSettings')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const footerBtnStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  padding: '8px 16px',
+  borderRadius: '6px',
+  fontSize: '13px',
+  cursor: 'pointer'
+};
@@ -0,0 +1,415 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FiX, FiLoader, FiSave, FiAlertCircle, FiPlus, FiTrash2 } from 'react-icons/fi';
+import { RiggingConfiguration, RiggingConfigType, RiggingItem, RiggingItemType } from '../../../../supabase';
+import { formatWeight } from '../utils/liftingCalculations';
+import { calculateRigging, getDefaultRiggingConfiguration, getElementGeometry } from '../utils/rigging';
+import { useRigging } from '../hooks/useRigging';
+
+export interface RiggingElement {
+  guid: string;
+  name: string;
+  weightKg: number;
+  min: { x: number; y: number; z: number };
+  max: { x: number; y: number; z: number };
+}
+
+interface RiggingModalProps {
+  element: RiggingElement;
+  projectId: string;
+  userEmail?: string;
+  onSaved: (riggingWeightKg: number) => void;
+  onClose: () => void;
+}
+
+const CONFIG_TYPES: RiggingConfigType[] = ['two_leg', 'four_leg', 'spreader_beam'];
+const ITEM_TYPES: RiggingItemType[] = ['sling', 'shackle', 'spreader', 'chain_block'];
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+export default function RiggingModal({
+  element,
+  projectId,
+  userEmail,
+  onSaved,
+  onClose
+}: RiggingModalProps) {
+  const { t } = useTranslation('common');
+  const {
+    items,
+    loading,
+    createItem,
+    deleteItem,
+    fetchElementRigging,
+    saveElementRigging,
+    removeElementRigging
+  } = useRigging(projectId);
+
+  const [configuration, setConfiguration] = useState<RiggingConfiguration>(getDefaultRiggingConfiguration());
+  const [hasSaved, setHasSaved] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [newItem, setNewItem] = useState<{ item_type: RiggingItemType; name: string; wll_kg: number; weight_kg: number; length_m: number }>({
+    item_type: 'sling', name: '', wll_kg: 0, weight_kg: 0, length_m: 0
+  });
+
+  const geometry = useMemo(() => getElementGeometry(element.min, element.max), [element]);
+
+  // Load the saved configuration of this element
+  useEffect(() => {
+    let cancelled = false;
+    fetchElementRigging(element.guid).then(saved => {
+      if (cancelled || !saved) return;
+      setConfiguration({ ...getDefaultRiggingConfiguration(saved.configuration.type), ...saved.configuration });
+      setHasSaved(true);
+    });
+    return () => { cancelled = true; };
+  }, [element.guid, fetchElementRigging]);
+
+  const result = useMemo(
+    () => calculateRigging(element.weightKg, geometry, configuration, items),
+    [element.weightKg, geometry, configuration, items]
+  );
+
+  const itemsOfType = (type: RiggingItemType) => items.filter(i => i.item_type === type);
+
+  const updateConfig = <K extends keyof RiggingConfiguration>(key: K, value: RiggingConfiguration[K]) => {
+    setConfiguration(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(false);
+    const ok = await saveElementRigging(element.guid, element.name, configuration, result.riggingWeightKg, userEmail);
+    setSaving(false);
+    setSaveError(!ok);
+    if (ok) {
+      setHasSaved(true);
+      onSaved(result.riggingWeightKg);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm(t('rigging.removeConfirm'))) return;
+    const ok = await removeElementRigging(element.guid);
+    if (ok) {
+      setHasSaved(false);
+      setConfiguration(getDefaultRiggingConfiguration());
+      onSaved(0);
+    }
+  };
+
+  const handleAddItem = async () => {
+    if (!newItem.name.trim() || newItem.wll_kg <= 0) return;
+    const created = await createItem({
+      item_type: newItem.item_type,
+      name: newItem.name.trim(),
+      wll_kg: newItem.wll_kg,
+      weight_kg: newItem.weight_kg,
+      length_m: newItem.length_m > 0 ? newItem.length_m : null
+    }, userEmail);
+    if (created) setNewItem(prev => ({ ...prev, name: '', wll_kg: 0, weight_kg: 0, length_m: 0 }));
+  };
+
+  const handleDeleteItem = async (item: RiggingItem) => {
+    if (!confirm(t('rigging.deleteItemConfirm', { name: item.name }))) return;
+    await deleteItem(item.id);
+    // Drop references to the deleted item
+    setConfiguration(prev => ({
+      ...prev,
+      sling_id: prev.sling_id === item.id ? null : prev.sling_id,
+      shackle_id: prev.shackle_id === item.id ? null : prev.shackle_id,
+      spreader_id: prev.spreader_id === item.id ? null : prev.spreader_id,
+      chain_block_id: prev.chain_block_id === item.id ? null : prev.chain_block_id
+    }));
+  };
+
+  const itemSelect = (type: RiggingItemType, key: 'sling_id' | 'shackle_id' | 'spreader_id' | 'chain_block_id') => (
+    <label style={labelStyle}>
+      {t(`rigging.itemTypes.${type}`)}
+      <select
+        value={configuration[key] || ''}
+        onChange={e => updateConfig(key, e.target.value || null)}
+        style={{ ...inputStyle, width: '150px' }}
+      >
+        <option value="">{t('rigging.none')}</option>
+        {itemsOfType(type).map(i => (
+          <option key={i.id} value={i.id}>
+            {i.name} ({formatWeight(i.wll_kg)}{i.length_m ? `, ${i.length_m} m` : ''})
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const sectionTitle: React.CSSProperties = { fontSize: '13px', fontWeight: 600, margin: '0 0 6px 0' };
+  const inputStyle: React.CSSProperties = { padding: '4px 6px', fontSize: '12px', borderRadius: '4px', border: '1px solid #d1d5db', width: '70px' };
+  const labelStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '4px' };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 10001
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        boxShadow: '0 8px 32px rgba(0,0,0,0.2)',
+        maxWidth: '620px',
+        width: '95%',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column'
+      }}>
+        {/* Modal header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: '16px', fontWeight: 600 }}>{t('rigging.title')}</h3>
+            <p style={{ margin: '4px 0 0 0', fontSize: '12px', color: '#6b7280' }}>
+              {element.name} • {formatWeight(element.weightKg)} • {round2(geometry.lengthM)} × {round2(geometry.widthM)} m
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: '8px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', borderRadius: '4px' }}
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        {/* Modal content */}
+        <div style={{ padding: '16px 20px', overflow: 'auto', flex: 1, display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          {loading ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#6b7280', fontSize: '12px' }}>
+              <FiLoader className="spin" /> {t('rigging.loading')}
+            </div>
+          ) : (
+            <>
+              {/* Configuration */}
+              <div>
+                <p style={sectionTitle}>{t('rigging.configuration')}</p>
+                <div style={{ display: 'flex', gap: '6px', marginBottom: '8px' }}>
+                  {CONFIG_TYPES.map(type => (
+                    <button
+                      key={type}
+                      onClick={() => updateConfig('type', type)}
+                      style={{
+                        padding: '6px 10px',
+                        fontSize: '12px',
+                        borderRadius: '6px',
+                        cursor: 'pointer',
+                        border: configuration.type === type ? '1px solid var(--modus-primary)' : '1px solid #e5e7eb',
+                        backgroundColor: configuration.type === type ? '#eff6ff' : 'white',
+                        fontWeight: configuration.type === type ? 600 : 400
+                      }}
+                    >
+                      {t(`rigging.configTypes.${type}`)}
+                    </button>
+                  ))}
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px 16px', fontSize: '12px' }}>
+                  {itemSelect('sling', 'sling_id')}
+                  {itemSelect('shackle', 'shackle_id')}
+                  {configuration.type === 'spreader_beam' && itemSelect('spreader', 'spreader_id')}
+                  {itemSelect('chain_block', 'chain_block_id')}
+                  <label style={labelStyle}>
+                    {t(configuration.type === 'spreader_beam' ? 'rigging.topLegLength' : 'rigging.slingLength')}
+                    <input type="number" min="0.5" step="0.5" value={configuration.sling_length_m} onChange={e => updateConfig('sling_length_m', Number(e.target.value) || 0)} style={inputStyle} />
+                  </label>
+                  <label style={labelStyle}>
+                    {t('rigging.insetStart')}
+                    <input type="number" min="0" step="0.1" value={configuration.inset_start_m} onChange={e => updateConfig('inset_start_m', Number(e.target.value) || 0)} style={inputStyle} />
+                  </label>
+                  <label style={labelStyle}>
+                    {t('rigging.insetEnd')}
+                    <input type="number" min="0" step="0.1" value={configuration.inset_end_m} onChange={e => updateConfig('inset_end_m', Number(e.target.value) || 0)} style={inputStyle} />
+                  </label>
+                </div>
+                <div style={{ fontSize: '11px', color: '#6b7280', marginTop: '6px' }}>{t('rigging.cogNote')}</div>
+              </div>
+
+              {/* Legs */}
+              {result.legs.length > 0 && (
+                <div>
+                  <p style={sectionTitle}>{t('rigging.legs')}</p>
+                  <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                    <thead>
+                      <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+                        <th style={{ padding: '6px 8px' }}>{t('rigging.leg')}</th>
+                        <th style={{ padding: '6px 8px' }}>{t('rigging.reach')}</th>
+                        <th style={{ padding: '6px 8px' }}>{t('rigging.angle')}</th>
+                        <th style={{ padding: '6px 8px' }}>{t('rigging.tension')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.legs.map(leg => (
+                        <tr key={leg.label} style={{ borderBottom: '1px solid #f3f4f6' }}>
+                          <td style={{ padding: '6px 8px' }}>{leg.label}</td>
+                          <td style={{ padding: '6px 8px' }}>{round2(leg.horizontalM)} m</td>
+                          <td style={{ padding: '6px 8px' }}>{Math.round(leg.angleDeg)}°</td>
+                          <td style={{ padding: '6px 8px', fontWeight: 600 }}>{formatWeight(leg.tensionKg)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* WLL checks */}
+              {result.checks.length > 0 && (
+                <div>
+                  <p style={sectionTitle}>{t('rigging.wllChecks')}</p>
+                  <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                    <tbody>
+                      {result.checks.map(check => (
+                        <tr key={check.itemType} style={{ borderBottom: '1px solid #f3f4f6' }}>
+                          <td style={{ padding: '6px 8px' }}>{t(`rigging.itemTypes.${check.itemType}`)} ({check.count}×)</td>
+                          <td style={{ padding: '6px 8px' }}>{check.name}</td>
+                          <td style={{ padding: '6px 8px' }}>{formatWeight(check.loadKg)} / {formatWeight(check.wllKg)}</td>
+                          <td style={{ padding: '6px 8px', fontWeight: 600, color: check.ok ? '#16a34a' : '#dc2626' }}>
+                            {isFinite(check.utilizationPct) ? `${check.utilizationPct}%` : '∞'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {result.issues.length > 0 && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', color: '#dc2626', padding: '8px 12px', backgroundColor: '#fef2f2', borderRadius: '8px', fontSize: '12px' }}>
+                  {result.issues.map(issue => (
+                    <div key={issue} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                      <FiAlertCircle /> {t(`rigging.issues.${issue}`)}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div style={{
+                padding: '12px',
+                borderRadius: '8px',
+                fontSize: '12px',
+                backgroundColor: result.ok ? '#f0fdf4' : '#fffbeb',
+                border: `1px solid ${result.ok ? '#bbf7d0' : '#fde68a'}`,
+                display: 'grid',
+                gridTemplateColumns: '1fr 1fr',
+                gap: '6px'
+              }}>
+                <div>{t('rigging.riggingWeight')}: <strong>{formatWeight(result.riggingWeightKg)}</strong></div>
+                <div>{t('rigging.hookLoad')}: <strong>{formatWeight(result.totalHookLoadKg)}</strong></div>
+                <div>{t('rigging.maxTension')}: <strong>{formatWeight(result.maxLegTensionKg)}</strong></div>
+                <div>{t('rigging.maxAngle')}: <strong>{result.maxAngleDeg !== null ? `${Math.round(result.maxAngleDeg)}°` : '-'}</strong></div>
+              </div>
+
+              {/* Project rigging library */}
+              <div>
+                <button
+                  onClick={() => setShowLibrary(!showLibrary)}
+                  style={{ padding: 0, border: 'none', backgroundColor: 'transparent', cursor: 'pointer', ...sectionTitle }}
+                >
+                  {showLibrary ? '▾' : '▸'} {t('rigging.library', { count: items.length })}
+                </button>
+                {showLibrary && (
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', fontSize: '12px' }}>
+                    {ITEM_TYPES.flatMap(type => itemsOfType(type)).map(item => (
+                      <div key={item.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '4px 8px', backgroundColor: '#f9fafb', borderRadius: '4px' }}>
+                        <span style={{ width: '90px', color: '#6b7280' }}>{t(`rigging.itemTypes.${item.item_type}`)}</span>
+                        <span style={{ flex: 1 }}>{item.name}</span>
+                        <span>{t('rigging.wll')} {formatWeight(item.wll_kg)}</span>
+                        <span style={{ color: '#6b7280' }}>{formatWeight(item.weight_kg)}{item.length_m ? ` • ${item.length_m} m` : ''}</span>
+                        <button
+                          onClick={() => handleDeleteItem(item)}
+                          style={{ padding: '2px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', color: '#dc2626' }}
+                        >
+                          <FiTrash2 size={12} />
+                        </button>
+                      </div>
+                    ))}
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap', marginTop: '4px' }}>
+                      <select value={newItem.item_type} onChange={e => setNewItem(prev => ({ ...prev, item_type: e.target.value as RiggingItemType }))} style={{ ...inputStyle, width: '100px' }}>
+                        {ITEM_TYPES.map(type => <option key={type} value={type}>{t(`rigging.itemTypes.${type}`)}</option>)}
+                      </select>
+                      <input placeholder={t('rigging.itemName')} value={newItem.name} onChange={e => setNewItem(prev => ({ ...prev, name: e.target.value }))} style={{ ...inputStyle, width: '120px' }} />
+                      <input type="number" min="0" step="100" placeholder={t('rigging.wllKg')} title={t('rigging.wllKg')} value={newItem.wll_kg || ''} onChange={e => setNewItem(prev => ({ ...prev, wll_kg: Number(e.target.value) || 0 }))} style={inputStyle} />
+                      <input type="number" min="0" step="1" placeholder={t('rigging.weightKg')} title={t('rigging.weightKg')} value={newItem.weight_kg || ''} onChange={e => setNewItem(prev => ({ ...prev, weight_kg: Number(e.target.value) || 0 }))} style={inputStyle} />
+                      {(newItem.item_type === 'sling' || newItem.item_type === 'spreader') && (
+                        <input type="number" min="0" step="0.5" placeholder={t('rigging.lengthM')} title={t('rigging.lengthM')} value={newItem.length_m || ''} onChange={e => setNewItem(prev => ({ ...prev, length_m: Number(e.target.value) || 0 }))} style={inputStyle} />
+                      )}
+                      <button
+                        onClick={handleAddItem}
+                        disabled={!newItem.name.trim() || newItem.wll_kg <= 0}
+                        style={{ ...footerBtnStyle, padding: '4px 10px', fontSize: '12px', backgroundColor: 'var(--modus-primary)', color: 'white', border: 'none' }}
+                      >
+                        <FiPlus size={12} /> {t('rigging.addItem')}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+          <div style={{ fontSize: '11px', color: '#9ca3af' }}>{t('rigging.disclaimer')}</div>
+        </div>
+
+        {/* Modal footer */}
+        <div style={{
+          padding: '12px 20px',
+          borderTop: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          alignItems: 'center',
+          gap: '8px'
+        }}>
+          {saveError && <span style={{ fontSize: '12px', color: '#dc2626', marginRight: 'auto' }}>{t('rigging.saveFailed')}</span>}
+          {hasSaved && (
+            <button
+              onClick={handleRemove}
+              style={{ ...footerBtnStyle, backgroundColor: 'white', color: '#dc2626', border: '1px solid #fecaca', marginRight: saveError ? 0 : 'auto' }}
+            >
+              <FiTrash2 size={14} /> {t('rigging.remove')}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            style={{ ...footerBtnStyle, backgroundColor: 'white', color: '#374151', border: '1px solid #e5e7eb' }}
+          >
+            {t('buttons.close')}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            style={{ ...footerBtnStyle, backgroundColor: 'var(--modus-primary)', color: 'white', border: 'none' }}
+          >
+            {saving ? <FiLoader size={14} className="spin" /> : <FiSave size={14} />} {t('rigging.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const footerBtnStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  padding: '8px 16px',
+  borderRadius: '6px',
+  fontSize: '13px',
+  cursor: 'pointer'
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fetchRiggingWeights, getElementRiggingWeight } from './useRigging';
+
+// Saved rigging rows; or() filters of guid_ifc.ilike.<guid> match them like PostgREST
+const mockDb = vi.hoisted(() => ({
+  rows: [] as { id: string; guid_ifc: string; configuration: null; rigging_weight_kg: number }[],
+  filters: [] as string[]
+}));
+
+const ilike = (value: string, pattern: string) =>
+  new RegExp(`^${pattern.replace(/\$/g, '\\$').replace(/_/g, '.')}$`, 'i').test(value);
+
+vi.mock('../../../../supabase', () => ({
+  supabase: {
+    from: (table: string) => {
+      let patterns: string[] | null = null;
+      const builder = {
+        select: () => builder,
+        eq: () => builder,
+        order: () => builder,
+        or: (filter: string) => {
+          mockDb.filters.push(filter);
+          patterns = filter.split(',').map(f => f.replace('guid_ifc.ilike.', ''));
+          return builder;
+        },
+        range: (from: number, to: number) => Promise.resolve({
+          data: mockDb.rows.filter(r => !patterns || patterns.some(p => ilike(r.guid_ifc, p))).slice(from, to + 1),
+          error: null
+        }),
+        then: (resolve: (r: unknown) => unknown) =>
+          Promise.resolve({ data: table === 'project_rigging_items' ? [] : null, error: null }).then(resolve)
+      };
+      return builder;
+    }
+  }
+}));
+
+describe('fetchRiggingWeights', () => {
+  beforeEach(() => {
+    mockDb.rows = [];
+    mockDb.filters = [];
+  });
+
+  it('should find saved rigging regardless of GUID case', async () => {
+    mockDb.rows = [
+      { id: '1', guid_ifc: '2ABCdef', configuration: null, rigging_weight_kg: 40 },
+      { id: '2', guid_ifc: '3xyz', configuration: null, rigging_weight_kg: 25 },
+      // Matched by the '_' wildcard of 3x_z but another element
+      { id: '3', guid_ifc: '3xaz', configuration: null, rigging_weight_kg: 99 }
+    ];
+
+    const weights = await fetchRiggingWeights('project-1', ['2abcdef', '3XYZ', '3x_z']);
+
+    expect(getElementRiggingWeight(weights, '2ABCDEF')).toBe(40);
+    expect(getElementRiggingWeight(weights, '3xyz')).toBe(25);
+    expect(getElementRiggingWeight(weights, '3xaz')).toBe(0);
+  });
+
+  it('should query large selections in batches', async () => {
+    const guids = Array.from({ length: 120 }, (_, i) => `guid${i}`);
+    mockDb.rows = [{ id: '1', guid_ifc: 'guid110', configuration: null, rigging_weight_kg: 12 }];
+
+    const weights = await fetchRiggingWeights('project-1', guids);
+
+    expect(mockDb.filters).toHaveLength(3);
+    expect(mockDb.filters.every(filter => filter.split(',').length <= 50)).toBe(true);
+    expect(getElementRiggingWeight(weights, 'GUID110')).toBe(12);
+  });
+});
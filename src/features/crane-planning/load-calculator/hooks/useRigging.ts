@@ -0,0 +1,306 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, ElementRigging, RiggingConfiguration, RiggingItem } from '../../../../supabase';
+import { fetchAllRows } from '../../../../utils/supabasePaging';
+import { getSavedRiggingWeightKg } from '../utils/rigging';
+
+interface UseRiggingResult {
+  items: RiggingItem[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  createItem: (data: Partial<RiggingItem>, userEmail?: string) => Promise<RiggingItem | null>;
+  updateItem: (id: string, data: Partial<RiggingItem>) => Promise<boolean>;
+  deleteItem: (id: string) => Promise<boolean>;
+  fetchElementRigging: (guid: string) => Promise<ElementRigging | null>;
+  saveElementRigging: (
+    guid: string,
+    assemblyMark: string | undefined,
+    configuration: RiggingConfiguration,
+    riggingWeightKg: number,
+    userEmail?: string
+  ) => Promise<boolean>;
+  removeElementRigging: (guid: string) => Promise<boolean>;
+}
+
+// GUIDs per request (keeps the filter within the URL length limit)
+const GUID_BATCH_SIZE = 50;
+
+type RiggingWeightRow = Pick<ElementRigging, 'id' | 'guid_ifc' | 'configuration' | 'rigging_weight_kg'>;
+
+// Case-insensitive GUID match. ilike treats '_' in IFC GUIDs as a wildcard, so compare the rows again
+const fetchRiggingRows = (projectId: string, guids?: string[]): Promise<RiggingWeightRow[]> =>
+  fetchAllRows<RiggingWeightRow>(() => {
+    let query = supabase
+      .from('project_element_rigging')
+      .select('id, guid_ifc, configuration, rigging_weight_kg')
+      .eq('trimble_project_id', projectId);
+    if (guids) query = query.or(guids.map(guid => `guid_ifc.ilike.${guid}`).join(','));
+    return query;
+  });
+
+/**
+ * Rigging weights (kg) of elements with a saved configuration, keyed by lowercase GUID
+ * (read with getElementRiggingWeight). Weights come from the current library items, so
+ * editing a sling or shackle updates every element using it. All project elements when
+ * guids is omitted; GUIDs match regardless of case.
+ */
+export async function fetchRiggingWeights(projectId: string, guids?: string[]): Promise<Map<string, number>> {
+  let rows: RiggingWeightRow[];
+  if (guids) {
+    const wanted = new Set(guids.map(guid => guid.toLowerCase()));
+    if (wanted.size === 0) return new Map();
+
+    const keys = [...wanted];
+    rows = [];
+    for (let i = 0; i < keys.length; i += GUID_BATCH_SIZE) {
+      const batch = await fetchRiggingRows(projectId, keys.slice(i, i + GUID_BATCH_SIZE));
+      rows.push(...batch.filter(r => wanted.has(r.guid_ifc.toLowerCase())));
+    }
+  } else {
+    rows = await fetchRiggingRows(projectId);
+  }
+  if (rows.length === 0) return new Map();
+
+  const { data: items, error } = await supabase
+    .from('project_rigging_items')
+    .select('*')
+    .eq('trimble_project_id', projectId);
+  if (error) throw error;
+
+  return new Map(rows.map(r => [
+    r.guid_ifc.toLowerCase(),
+    getSavedRiggingWeightKg(r.configuration, Number(r.rigging_weight_kg) || 0, items || [])
+  ]));
+}
+
+/**
+ * Rigging weight of an element by any of its GUIDs (IFC GUID first), 0 without saved rigging
+ */
+export function getElementRiggingWeight(weights: Map<string, number>, ...guids: (string | null | undefined)[]): number {
+  for (const guid of guids) {
+    const weight = guid ? weights.get(guid.toLowerCase()) : undefined;
+    if (weight !== undefined) return weight;
+  }
+  return 0;
+}
+
+/**
+ * Project rigging library (WLL tables) and rigging configurations of lifted elements
+ */
+export function useRigging(projectId: string | null | undefined): UseRiggingResult {
+  const [items, setItems] = useState<RiggingItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchItems = useCallback(async () => {
+    if (!projectId) {
+      setItems([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('project_rigging_items')
+        .select('*')
+        .eq('trimble_project_id', projectId)
+        .order('item_type', { ascending: true })
+        .order('wll_kg', { ascending: true });
+
+      if (fetchError) {
+        console.error('Error fetching rigging items:', fetchError);
+        setError(fetchError.message);
+        return;
+      }
+
+      setItems(data || []);
+    } catch (err) {
+      console.error('Error fetching rigging items:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const createItem = useCallback(async (data: Partial<RiggingItem>, userEmail?: string): Promise<RiggingItem | null> => {
+    if (!projectId) return null;
+
+    try {
+      const { data: newItem, error: insertError } = await supabase
+        .from('project_rigging_items')
+        .insert({ ...data, trimble_project_id: projectId, created_by_email: userEmail })
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error('Error creating rigging item:', insertError);
+        setError(insertError.message);
+        return null;
+      }
+
+      // Update local state
+      setItems(prev => [...prev, newItem]);
+
+      return newItem;
+    } catch (err) {
+      console.error('Error creating rigging item:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return null;
+    }
+  }, [projectId]);
+
+  const updateItem = useCallback(async (id: string, data: Partial<RiggingItem>): Promise<boolean> => {
+    try {
+      const { error: updateError } = await supabase
+        .from('project_rigging_items')
+        .update(data)
+        .eq('id', id);
+
+      if (updateError) {
+        console.error('Error updating rigging item:', updateError);
+        setError(updateError.message);
+        return false;
+      }
+
+      // Update local state
+      setItems(prev => prev.map(item =>
+        item.id === id ? { ...item, ...data } : item
+      ));
+
+      return true;
+    } catch (err) {
+      console.error('Error updating rigging item:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, []);
+
+  const deleteItem = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await supabase
+        .from('project_rigging_items')
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) {
+        console.error('Error deleting rigging item:', deleteError);
+        setError(deleteError.message);
+        return false;
+      }
+
+      // Update local state
+      setItems(prev => prev.filter(item => item.id !== id));
+
+      return true;
+    } catch (err) {
+      console.error('Error deleting rigging item:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, []);
+
+  const fetchElementRigging = useCallback(async (guid: string): Promise<ElementRigging | null> => {
+    if (!projectId) return null;
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('project_element_rigging')
+        .select('*')
+        .eq('trimble_project_id', projectId)
+        .eq('guid_ifc', guid)
+        .maybeSingle();
+
+      if (fetchError) {
+        console.error('Error fetching element rigging:', fetchError);
+        setError(fetchError.message);
+        return null;
+      }
+
+      return data;
+    } catch (err) {
+      console.error('Error fetching element rigging:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return null;
+    }
+  }, [projectId]);
+
+  const saveElementRigging = useCallback(async (
+    guid: string,
+    assemblyMark: string | undefined,
+    configuration: RiggingConfiguration,
+    riggingWeightKg: number,
+    userEmail?: string
+  ): Promise<boolean> => {
+    if (!projectId) return false;
+
+    try {
+      const { error: upsertError } = await supabase
+        .from('project_element_rigging')
+        .upsert({
+          trimble_project_id: projectId,
+          guid_ifc: guid,
+          assembly_mark: assemblyMark,
+          configuration,
+          rigging_weight_kg: riggingWeightKg,
+          updated_by_email: userEmail,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'trimble_project_id,guid_ifc' });
+
+      if (upsertError) {
+        console.error('Error saving element rigging:', upsertError);
+        setError(upsertError.message);
+        return false;
+      }
+
+      console.log(`✅ Rigging saved for ${assemblyMark || guid}: ${riggingWeightKg} kg`);
+      return true;
+    } catch (err) {
+      console.error('Error saving element rigging:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, [projectId]);
+
+  const removeElementRigging = useCallback(async (guid: string): Promise<boolean> => {
+    if (!projectId) return false;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('project_element_rigging')
+        .delete()
+        .eq('trimble_project_id', projectId)
+        .eq('guid_ifc', guid);
+
+      if (deleteError) {
+        console.error('Error removing element rigging:', deleteError);
+        setError(deleteError.message);
+        return false;
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Error removing element rigging:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, [projectId]);
+
+  return {
+    items,
+    loading,
+    error,
+    refetch: fetchItems,
+    createItem,
+    updateItem,
+    deleteItem,
+    fetchElementRigging,
+    saveElementRigging,
+    removeElementRigging
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildGroundBearingInput,
+  calculateGroundBearing,
+  findWorstSlew,
+  getSlewAngle,
+  GroundBearingInput
+} from './groundBearing';
+import { ProjectCrane } from '../../../../supabase';
+
+// 30t carrier, 10t counterweight at 4m, 5t hook load at 10m
+const mobile: GroundBearingInput = {
+  craneType: 'mobile',
+  baseWidthM: 2.5,
+  baseLengthM: 10,
+  craneSelfWeightKg: 30000,
+  counterweightKg: 10000,
+  counterweightRadiusM: 4,
+  loadKg: 5000,
+  radiusM: 10,
+  slewDeg: 0,
+  supportSizeM: 0.6,
+  allowablePressureKpa: 200
+};
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+describe('groundBearing', () => {
+  it('should split the load equally without eccentricity', () => {
+    const result = calculateGroundBearing({ ...mobile, counterweightKg: 0, loadKg: 0 });
+    for (const r of result.reactions) expect(r.reactionKn).toBeCloseTo(294.3 / 4);
+    expect(result.stable).toBe(true);
+  });
+
+  it('should load the outriggers on the slew side', () => {
+    const result = calculateGroundBearing(mobile);
+    expect(sum(result.reactions.map(r => r.reactionKn))).toBeCloseTo(441.45);
+    const front = result.reactions.find(r => r.support === 'front_left')!;
+    const rear = result.reactions.find(r => r.support === 'rear_left')!;
+    expect(front.reactionKn).toBeCloseTo(121.26, 1);
+    expect(rear.reactionKn).toBeCloseTo(99.46, 1);
+    // 121.26 kN on a 0.6m pad = 337 kPa → needs a 0.8m mat at 200 kPa
+    expect(result.maxPressureKpa).toBeCloseTo(336.8, 0);
+    expect(result.withinAllowable).toBe(false);
+    expect(result.requiredMat).toEqual({ lengthM: 0.8, widthM: 0.8 });
+  });
+
+  it('should carry a lifted-off outrigger load on three supports and detect tipping', () => {
+    const heavy = calculateGroundBearing({ ...mobile, loadKg: 12000, radiusM: 12, slewDeg: 45 });
+    expect(heavy.reactions.find(r => r.support === 'rear_left')!.reactionKn).toBe(0);
+    expect(sum(heavy.reactions.map(r => r.reactionKn))).toBeCloseTo(heavy.totalLoadKn);
+    expect(heavy.stable).toBe(true);
+
+    const tipping = calculateGroundBearing({ ...mobile, loadKg: 40000, radiusM: 20, slewDeg: 45 });
+    expect(tipping.stable).toBe(false);
+    expect(tipping.withinAllowable).toBe(false);
+  });
+
+  it('should split crawler tracks laterally and size track mats', () => {
+    const crawler = { ...mobile, craneType: 'crawler' as const, baseWidthM: 5, supportSizeM: 0.8 };
+    const over = calculateGroundBearing({ ...crawler, slewDeg: 90 });
+    const left = over.reactions.find(r => r.support === 'left_track')!;
+    const right = over.reactions.find(r => r.support === 'right_track')!;
+    expect(right.reactionKn).toBeGreaterThan(left.reactionKn);
+    expect(left.reactionKn + right.reactionKn).toBeCloseTo(over.totalLoadKn);
+
+    // Within the kern: trapezoidal pressure 441.45/2 / (0.8 × 10) × (1 + 6 × 0.222 / 10)
+    const front = calculateGroundBearing({ ...crawler, slewDeg: 0 });
+    expect(front.maxPressureKpa).toBeCloseTo(31.27, 1);
+    expect(front.requiredMat).toEqual({ lengthM: 10, widthM: 0.8 });
+  });
+
+  it('should find the worst slew over a corner outrigger', () => {
+    const worst = findWorstSlew({ ...mobile, counterweightKg: 0 });
+    expect([45, 135, 225, 315]).toContain(worst.slewDeg);
+  });
+
+  it('should get the slew angle relative to the carrier', () => {
+    const crane = { position_x: 0, position_y: 0, rotation_deg: 90 } as ProjectCrane;
+    // After 90° rotation the carrier front points to world -X and its right side to +Y
+    expect(getSlewAngle(crane, { x: -10, y: 0 })).toBe(0);
+    expect(getSlewAngle(crane, { x: 0, y: 10 })).toBe(90);
+    expect(getSlewAngle(crane, { x: 10, y: 0 })).toBe(180);
+  });
+
+  it('should need a configured self weight to build input', () => {
+    const crane = {
+      hook_weight_kg: 500,
+      lifting_block_kg: 200,
+      crane_model: { crane_type: 'mobile', base_width_m: 2.5, base_length_m: 10 },
+      counterweight_config: { weight_kg: 10000 },
+      ground_bearing: null
+    } as unknown as ProjectCrane;
+    expect(buildGroundBearingInput(crane, 4000, 10, 0)).toBeNull();
+
+    const input = buildGroundBearingInput(crane, 4000, 10, 0, {
+      crane_self_weight_kg: 30000,
+      counterweight_radius_m: 4,
+      allowable_pressure_kpa: 250,
+      support_size_m: 0.6
+    });
+    expect(input?.loadKg).toBe(4700);
+    expect(input?.counterweightKg).toBe(10000);
+  });
+});
@@ -0,0 +1,272 @@
+import { CraneGroundBearingSettings, CraneType, ProjectCrane } from '../../../../supabase';
+
+const GRAVITY = 9.81; // m/s²
+
+// Outrigger pads sit at ±(span / 2) in both directions, span = base width × factor (same as the model drawing)
+export const OUTRIGGER_SPAN_FACTOR = 1.8;
+
+export const DEFAULT_ALLOWABLE_PRESSURE_KPA = 200;
+export const DEFAULT_SUPPORT_SIZE_M = 0.6;
+
+export type GroundSupportType = 'outriggers' | 'tracks';
+
+export type SupportPosition = 'front_left' | 'front_right' | 'rear_left' | 'rear_right' | 'left_track' | 'right_track';
+
+export type GroundBearingInput = {
+  craneType: CraneType;
+  baseWidthM: number;
+  baseLengthM: number;
+  craneSelfWeightKg: number;
+  counterweightKg: number;
+  counterweightRadiusM: number;
+  loadKg: number; // hook load incl. hook and lifting block
+  radiusM: number;
+  slewDeg: number; // 0 = boom over the front, 90 = over the right side
+  supportSizeM: number; // outrigger pad side / track shoe width
+  allowablePressureKpa: number;
+};
+
+export type SupportReaction = {
+  support: SupportPosition;
+  reactionKn: number;
+  pressureKpa: number; // tracks: peak pressure under the track
+};
+
+export type GroundBearingResult = {
+  supportType: GroundSupportType;
+  slewDeg: number;
+  totalLoadKn: number;
+  reactions: SupportReaction[];
+  maxReactionKn: number;
+  maxPressureKpa: number;
+  // false = resultant outside the support area (crane would tip)
+  stable: boolean;
+  withinAllowable: boolean;
+  // Mat needed under the worst support to stay within allowable pressure
+  requiredMat: { lengthM: number; widthM: number };
+};
+
+const kgToKn = (kg: number) => (kg * GRAVITY) / 1000;
+const ceilTo = (value: number, step: number) => Math.ceil(value / step - 1e-9) * step;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function getSupportType(craneType: CraneType): GroundSupportType {
+  return craneType === 'crawler' ? 'tracks' : 'outriggers';
+}
+
+/**
+ * Reactions of three supports carrying a vertical load with moments
+ * (statically determinate, Cramer's rule)
+ */
+function solveThreeSupports(
+  supports: { x: number; y: number }[],
+  total: number,
+  momentX: number,
+  momentY: number
+): number[] | null {
+  const [a, b, c] = supports;
+  const det = (b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y);
+  if (Math.abs(det) < 1e-9) return null;
+
+  // Barycentric coordinates of the load resultant
+  const px = momentX / total;
+  const py = momentY / total;
+  const wb = ((px - a.x) * (c.y - a.y) - (c.x - a.x) * (py - a.y)) / det;
+  const wc = ((b.x - a.x) * (py - a.y) - (px - a.x) * (b.y - a.y)) / det;
+  return [(1 - wb - wc) * total, wb * total, wc * total];
+}
+
+function calculateOutriggers(
+  input: GroundBearingInput,
+  total: number,
+  ex: number,
+  ey: number
+): { reactions: SupportReaction[]; stable: boolean } {
+  const half = (input.baseWidthM * OUTRIGGER_SPAN_FACTOR) / 2;
+  const supports: { support: SupportPosition; x: number; y: number }[] = [
+    { support: 'front_left', x: -half, y: half },
+    { support: 'front_right', x: half, y: half },
+    { support: 'rear_left', x: -half, y: -half },
+    { support: 'rear_right', x: half, y: -half }
+  ];
+
+  // Rigid carrier on four symmetric supports
+  let forces = supports.map(s => (total / 4) * (1 + (ex * s.x) / (half * half) + (ey * s.y) / (half * half)));
+  let stable = true;
+
+  // Lifted-off support: the load goes through the remaining three
+  const lowest = forces.indexOf(Math.min(...forces));
+  if (forces[lowest] < 0) {
+    const remaining = supports.filter((_, i) => i !== lowest);
+    const solved = solveThreeSupports(remaining, total, total * ex, total * ey);
+    forces = supports.map(() => 0);
+    if (solved) {
+      remaining.forEach((s, i) => { forces[supports.indexOf(s)] = solved[i]; });
+    }
+    stable = !!solved && solved.every(f => f >= -1e-6);
+  }
+
+  const padArea = input.supportSizeM * input.supportSizeM;
+  return {
+    reactions: supports.map((s, i) => {
+      const reactionKn = Math.max(0, forces[i]);
+      return { support: s.support, reactionKn, pressureKpa: reactionKn / padArea };
+    }),
+    stable
+  };
+}
+
+function calculateTracks(
+  input: GroundBearingInput,
+  total: number,
+  ex: number,
+  ey: number
+): { reactions: SupportReaction[]; stable: boolean } {
+  const length = input.baseLengthM;
+  const shoe = input.supportSizeM;
+  const gauge = Math.max(input.baseWidthM - shoe, shoe);
+
+  // Lateral eccentricity splits the load between tracks
+  const right = total / 2 + (total * ex) / gauge;
+  const left = total - right;
+  const e = Math.abs(ey);
+  const stable = left >= 0 && right >= 0 && e < length / 2;
+
+  // Longitudinal eccentricity: trapezoidal pressure inside the kern, triangular outside
+  const peakPressure = (force: number) => {
+    if (force <= 0) return 0;
+    if (e <= length / 6) return (force / (shoe * length)) * (1 + (6 * e) / length);
+    if (e >= length / 2) return Infinity;
+    return (2 * force) / (3 * shoe * (length / 2 - e));
+  };
+
+  return {
+    reactions: [
+      { support: 'left_track', reactionKn: Math.max(0, left), pressureKpa: peakPressure(left) },
+      { support: 'right_track', reactionKn: Math.max(0, right), pressureKpa: peakPressure(right) }
+    ],
+    stable
+  };
+}
+
+/**
+ * Estimate outrigger or track reactions for one slew angle.
+ * The crane's own weight acts at the slew center, the load at the radius
+ * in the slew direction and the counterweight opposite to it.
+ */
+export function calculateGroundBearing(input: GroundBearingInput): GroundBearingResult {
+  const slewRad = (input.slewDeg * Math.PI) / 180;
+  const dirX = Math.sin(slewRad);
+  const dirY = Math.cos(slewRad);
+
+  const selfKn = kgToKn(input.craneSelfWeightKg);
+  const counterweightKn = kgToKn(input.counterweightKg);
+  const loadKn = kgToKn(input.loadKg);
+  const total = selfKn + counterweightKn + loadKn;
+
+  // Resultant eccentricity from the slew center (carrier coordinates, y = front)
+  const moment = loadKn * input.radiusM - counterweightKn * input.counterweightRadiusM;
+  const ex = total > 0 ? (moment * dirX) / total : 0;
+  const ey = total > 0 ? (moment * dirY) / total : 0;
+
+  const supportType = getSupportType(input.craneType);
+  const { reactions, stable } = supportType === 'tracks'
+    ? calculateTracks(input, total, ex, ey)
+    : calculateOutriggers(input, total, ex, ey);
+
+  const maxReactionKn = Math.max(...reactions.map(r => r.reactionKn));
+  const maxPressureKpa = Math.max(...reactions.map(r => r.pressureKpa));
+  const allowable = input.allowablePressureKpa;
+
+  let requiredMat: GroundBearingResult['requiredMat'];
+  if (supportType === 'tracks') {
+    // Mats across the full track length, widened until peak pressure is allowable
+    const width = isFinite(maxPressureKpa) ? (input.supportSizeM * maxPressureKpa) / allowable : Infinity;
+    requiredMat = { lengthM: input.baseLengthM, widthM: Math.max(input.supportSizeM, round1(ceilTo(width, 0.1))) };
+  } else {
+    const side = round1(ceilTo(Math.sqrt(maxReactionKn / allowable), 0.1));
+    const matSide = Math.max(input.supportSizeM, side);
+    requiredMat = { lengthM: matSide, widthM: matSide };
+  }
+
+  return {
+    supportType,
+    slewDeg: input.slewDeg,
+    totalLoadKn: total,
+    reactions,
+    maxReactionKn,
+    maxPressureKpa,
+    stable,
+    withinAllowable: stable && maxPressureKpa <= allowable,
+    requiredMat
+  };
+}
+
+/**
+ * Worst-case result over a full slew (highest ground pressure)
+ */
+export function findWorstSlew(input: Omit<GroundBearingInput, 'slewDeg'>, stepDeg: number = 5): GroundBearingResult {
+  let worst: GroundBearingResult | null = null;
+  for (let slew = 0; slew < 360; slew += stepDeg) {
+    const result = calculateGroundBearing({ ...input, slewDeg: slew });
+    if (!worst || (!result.stable && worst.stable) ||
+      (result.stable === worst.stable && result.maxPressureKpa > worst.maxPressureKpa)) {
+      worst = result;
+    }
+  }
+  return worst!;
+}
+
+/**
+ * Slew angle (0 = front, 90 = right) from the carrier to a world position
+ */
+export function getSlewAngle(crane: ProjectCrane, position: { x: number; y: number }): number {
+  const rotation = (crane.rotation_deg * Math.PI) / 180;
+  const dx = position.x - crane.position_x;
+  const dy = position.y - crane.position_y;
+  // World to carrier coordinates (inverse of the drawing rotation)
+  const localX = dx * Math.cos(rotation) + dy * Math.sin(rotation);
+  const localY = -dx * Math.sin(rotation) + dy * Math.cos(rotation);
+  const deg = (Math.atan2(localX, localY) * 180) / Math.PI;
+  return Math.round(((deg % 360) + 360) % 360);
+}
+
+/**
+ * Default settings for a crane without saved ground bearing data
+ */
+export function getDefaultGroundBearingSettings(crane: ProjectCrane): CraneGroundBearingSettings {
+  return {
+    crane_self_weight_kg: 0,
+    counterweight_radius_m: crane.crane_model ? round1(crane.crane_model.base_length_m / 2) : 3,
+    allowable_pressure_kpa: DEFAULT_ALLOWABLE_PRESSURE_KPA,
+    support_size_m: DEFAULT_SUPPORT_SIZE_M
+  };
+}
+
+/**
+ * Build calculator input for a pick. Returns null when the crane has no
+ * model or no configured self weight. Hook and lifting block are added to the load.
+ */
+export function buildGroundBearingInput(
+  crane: ProjectCrane,
+  pickWeightKg: number,
+  radiusM: number,
+  slewDeg: number,
+  settings: CraneGroundBearingSettings | null | undefined = crane.ground_bearing
+): GroundBearingInput | null {
+  if (!crane.crane_model || !settings || settings.crane_self_weight_kg <= 0) return null;
+
+  return {
+    craneType: crane.crane_model.crane_type,
+    baseWidthM: crane.crane_model.base_width_m,
+    baseLengthM: crane.crane_model.base_length_m,
+    craneSelfWeightKg: settings.crane_self_weight_kg,
+    counterweightKg: crane.counterweight_config?.weight_kg || 0,
+    counterweightRadiusM: settings.counterweight_radius_m,
+    loadKg: pickWeightKg + crane.hook_weight_kg + crane.lifting_block_kg,
+    radiusM,
+    slewDeg,
+    supportSizeM: settings.support_size_m > 0 ? settings.support_size_m : DEFAULT_SUPPORT_SIZE_M,
+    allowablePressureKpa: settings.allowable_pressure_kpa > 0 ? settings.allowable_pressure_kpa : DEFAULT_ALLOWABLE_PRESSURE_KPA
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateAvailableCapacity,
+  canLiftLoad,
+  getCapacityAtRadius,
+  getCapacityAtBoomAndRadius,
+  getChartDataForBoomLength
+} from './liftingCalculations';
+import { LoadChart } from '../../../../supabase';
+
+const chart = (boom: number, points: [number, number][]): LoadChart => ({
+  id: `lc-${boom}`,
+  crane_model_id: 'model-1',
+  counterweight_config_id: 'cw-1',
+  boom_length_m: boom,
+  chart_data: points.map(([radius_m, capacity_kg]) => ({ radius_m, capacity_kg })),
+  created_at: ''
+});
+
+const charts = [
+  chart(20, [[4, 40000], [10, 20000], [16, 10000]]),
+  chart(30, [[6, 30000], [10, 16000], [24, 6000]])
+];
+
+describe('liftingCalculations', () => {
+  it('should not clamp outside the radius envelope', () => {
+    expect(getCapacityAtRadius(charts[0].chart_data, 7)).toBe(30000);
+    expect(getCapacityAtRadius(charts[0].chart_data, 17)).toBeNull();
+    expect(getCapacityAtRadius(charts[0].chart_data, 3)).toBeNull();
+  });
+
+  it('should interpolate between boom lengths', () => {
+    expect(getCapacityAtBoomAndRadius(charts, 20, 10)).toBe(20000);
+    expect(getCapacityAtBoomAndRadius(charts, 25, 10)).toBe(18000);
+  });
+
+  it('should return null outside the boom or shared radius envelope', () => {
+    expect(getCapacityAtBoomAndRadius(charts, 35, 10)).toBeNull();
+    expect(getCapacityAtBoomAndRadius(charts, 25, 5)).toBeNull();
+    expect(getCapacityAtBoomAndRadius(charts, 25, 20)).toBeNull();
+  });
+
+  it('should build interpolated chart data for intermediate boom', () => {
+    const data = getChartDataForBoomLength(charts, 25);
+    expect(data.map(p => p.radius_m)).toEqual([6, 10, 16]);
+    expect(data[1].capacity_kg).toBe(18000);
+  });
+
+  it('should deduct rigging weight like hook dead weight', () => {
+    // 20000 gross at 10m, 500 hook + 300 rigging, factor 1.25
+    const result = calculateAvailableCapacity(charts[0].chart_data, 10, 400, 100, 1.25, 300);
+    expect(result?.available_capacity_kg).toBe(15360);
+    expect(canLiftLoad(charts[0].chart_data, 10, 15500, 400, 100, 1.25)).toBe(true);
+    expect(canLiftLoad(charts[0].chart_data, 10, 15500, 400, 100, 1.25, 300)).toBe(false);
+  });
+});
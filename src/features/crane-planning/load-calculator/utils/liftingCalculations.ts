@@ -1,17 +1,19 @@
-import { LoadChartDataPoint, LoadCalculationResult } from '../../../../supabase';
+import { LoadChart, LoadChartDataPoint, LoadCalculationResult } from '../../../../supabase';
 
 /**
- * Calculate available lifting capacity at various radii
+ * Calculate available lifting capacity at various radii.
+ * Rigging (slings, shackles, spreader) counts as dead weight like the hook.
  */
 export function calculateLoadCapacities(
   chartData: LoadChartDataPoint[],
   hookWeightKg: number,
   liftingBlockKg: number,
-  safetyFactor: number
+  safetyFactor: number,
+  riggingWeightKg: number = 0
 ): LoadCalculationResult[] {
   if (!chartData || chartData.length === 0) return [];
 
-  const deadWeight = hookWeightKg + liftingBlockKg;
+  const deadWeight = hookWeightKg + liftingBlockKg + riggingWeightKg;
 
   return chartData.map(point => {
     const grossCapacity = point.capacity_kg;
@@ -27,7 +29,8 @@ export function calculateLoadCapacities(
 }
 
 /**
- * Get capacity at a specific radius using linear interpolation
+ * Get capacity at a specific radius using linear interpolation.
+ * Returns null outside the chart radius range (not allowed - no clamping).
  */
 export function getCapacityAtRadius(
   chartData: LoadChartDataPoint[],
@@ -38,6 +41,11 @@ export function getCapacityAtRadius(
   // Sort by radius
   const sortedData = [...chartData].sort((a, b) => a.radius_m - b.radius_m);
 
+  // Outside the envelope - the LMI would not allow this lift
+  if (radius < sortedData[0].radius_m || radius > sortedData[sortedData.length - 1].radius_m) {
+    return null;
+  }
+
   // Find exact match
   const exactMatch = sortedData.find(d => d.radius_m === radius);
   if (exactMatch) {
@@ -64,13 +72,91 @@ export function getCapacityAtRadius(
     return Math.round(capacity);
   }
 
-  // Return closest point if no interpolation possible
-  if (prevPoint) return prevPoint.capacity_kg;
-  if (nextPoint) return nextPoint.capacity_kg;
+  return null;
+}
+
+// Boom lengths closer than this are treated as the same chart
+const BOOM_LENGTH_TOLERANCE_M = 0.001;
+
+/**
+ * Find the charts enclosing a boom length (same chart twice on exact match).
+ * Charts must belong to one counterweight config. Returns null outside boom range.
+ */
+function findEnclosingCharts(
+  charts: LoadChart[],
+  boomLength: number
+): { lower: LoadChart; upper: LoadChart } | null {
+  const sorted = charts
+    .filter(c => c.chart_data && c.chart_data.length > 0)
+    .sort((a, b) => a.boom_length_m - b.boom_length_m);
+  if (sorted.length === 0) return null;
+
+  const exact = sorted.find(c => Math.abs(c.boom_length_m - boomLength) < BOOM_LENGTH_TOLERANCE_M);
+  if (exact) return { lower: exact, upper: exact };
+
+  for (let i = 0; i < sorted.length - 1; i++) {
+    if (sorted[i].boom_length_m < boomLength && boomLength < sorted[i + 1].boom_length_m) {
+      return { lower: sorted[i], upper: sorted[i + 1] };
+    }
+  }
 
   return null;
 }
 
+/**
+ * Get capacity for boom length and radius using bilinear interpolation
+ * (radius within each chart, then between the two nearest boom lengths).
+ * Charts must belong to one counterweight config.
+ * Returns null outside the chart envelope (not allowed - no clamping).
+ */
+export function getCapacityAtBoomAndRadius(
+  charts: LoadChart[],
+  boomLength: number,
+  radius: number
+): number | null {
+  const enclosing = findEnclosingCharts(charts, boomLength);
+  if (!enclosing) return null;
+
+  const { lower, upper } = enclosing;
+  const lowerCapacity = getCapacityAtRadius(lower.chart_data, radius);
+  if (lower === upper) return lowerCapacity;
+
+  const upperCapacity = getCapacityAtRadius(upper.chart_data, radius);
+  // Radius must be allowed on both neighbouring booms
+  if (lowerCapacity === null || upperCapacity === null) return null;
+
+  const ratio = (boomLength - lower.boom_length_m) / (upper.boom_length_m - lower.boom_length_m);
+  return Math.round(lowerCapacity + ratio * (upperCapacity - lowerCapacity));
+}
+
+/**
+ * Build chart data for any boom length - exact chart or interpolated between
+ * neighbouring boom lengths over the radii both charts allow.
+ * Returns empty array outside the boom length range.
+ */
+export function getChartDataForBoomLength(
+  charts: LoadChart[],
+  boomLength: number
+): LoadChartDataPoint[] {
+  const enclosing = findEnclosingCharts(charts, boomLength);
+  if (!enclosing) return [];
+
+  const { lower, upper } = enclosing;
+  if (lower === upper) {
+    return [...lower.chart_data].sort((a, b) => a.radius_m - b.radius_m);
+  }
+
+  const radii = [...new Set([...lower.chart_data, ...upper.chart_data].map(p => p.radius_m))].sort((a, b) => a - b);
+  const result: LoadChartDataPoint[] = [];
+  for (const radius of radii) {
+    const capacity = getCapacityAtBoomAndRadius([lower, upper], boomLength, radius);
+    if (capacity !== null) {
+      result.push({ radius_m: radius, capacity_kg: capacity });
+    }
+  }
+  return result;
+}
+
 /**
  * Calculate available capacity at a specific radius
  */
@@ -79,12 +165,13 @@ export function calculateAvailableCapacity(
   radius: number,
   hookWeightKg: number,
   liftingBlockKg: number,
-  safetyFactor: number
+  safetyFactor: number,
+  riggingWeightKg: number = 0
 ): LoadCalculationResult | null {
   const grossCapacity = getCapacityAtRadius(chartData, radius);
   if (grossCapacity === null) return null;
 
-  const deadWeight = hookWeightKg + liftingBlockKg;
+  const deadWeight = hookWeightKg + liftingBlockKg + riggingWeightKg;
   const availableCapacity = (grossCapacity - deadWeight) / safetyFactor;
 
   return {
@@ -103,11 +190,12 @@ export function findMaxRadiusForLoad(
   loadKg: number,
   hookWeightKg: number,
   liftingBlockKg: number,
-  safetyFactor: number
+  safetyFactor: number,
+  riggingWeightKg: number = 0
 ): number | null {
   if (!chartData || chartData.length === 0) return null;
 
-  const deadWeight = hookWeightKg + liftingBlockKg;
+  const deadWeight = hookWeightKg + liftingBlockKg + riggingWeightKg;
   const requiredCapacity = (loadKg + deadWeight) * safetyFactor;
 
   // Sort by radius descending
@@ -132,14 +220,16 @@ export function canLiftLoad(
   loadKg: number,
   hookWeightKg: number,
   liftingBlockKg: number,
-  safetyFactor: number
+  safetyFactor: number,
+  riggingWeightKg: number = 0
 ): boolean {
   const result = calculateAvailableCapacity(
     chartData,
     radius,
     hookWeightKg,
     liftingBlockKg,
-    safetyFactor
+    safetyFactor,
+    riggingWeightKg
   );
 
   return result !== null && result.available_capacity_kg >= loadKg;
@@ -153,12 +243,13 @@ export function calculateUtilization(
   radius: number,
   loadKg: number,
   hookWeightKg: number,
-  liftingBlockKg: number
+  liftingBlockKg: number,
+  riggingWeightKg: number = 0
 ): number | null {
   const grossCapacity = getCapacityAtRadius(chartData, radius);
   if (grossCapacity === null || grossCapacity === 0) return null;
 
-  const deadWeight = hookWeightKg + liftingBlockKg;
+  const deadWeight = hookWeightKg + liftingBlockKg + riggingWeightKg;
   const totalLoad = loadKg + deadWeight;
 
   return Math.round((totalLoad / grossCapacity) * 100);
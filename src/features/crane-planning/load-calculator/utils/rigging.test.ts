@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateRigging,
+  getDefaultRiggingConfiguration,
+  getElementGeometry,
+  getSavedRiggingWeightKg
+} from './rigging';
+import { RiggingConfiguration, RiggingItem } from '../../../../supabase';
+
+const item = (id: string, item_type: RiggingItem['item_type'], wll_kg: number, weight_kg: number, length_m?: number): RiggingItem => ({
+  id,
+  trimble_project_id: 'p1',
+  item_type,
+  name: id,
+  wll_kg,
+  weight_kg,
+  length_m,
+  created_at: ''
+});
+
+const items = [
+  item('sling', 'sling', 2000, 10),
+  item('shackle', 'shackle', 3250, 2),
+  item('beam', 'spreader', 5000, 150, 6),
+  item('chain', 'chain_block', 1000, 20)
+];
+
+// 6m x 0.4m beam, lift points 1m from both ends, 4m slings
+const config = (overrides: Partial<RiggingConfiguration> = {}): RiggingConfiguration => ({
+  ...getDefaultRiggingConfiguration('two_leg'),
+  sling_id: 'sling',
+  shackle_id: 'shackle',
+  sling_length_m: 4,
+  inset_start_m: 1,
+  inset_end_m: 1,
+  ...overrides
+});
+
+const geometry = getElementGeometry({ x: 10, y: 5 }, { x: 10.4, y: 11 });
+
+describe('rigging', () => {
+  it('should take the long side as element length', () => {
+    expect(geometry.lengthM).toBeCloseTo(6);
+    expect(geometry.widthM).toBeCloseTo(0.4);
+  });
+
+  it('should split a centred two-leg lift by sling angle', () => {
+    const result = calculateRigging(2000, geometry, config(), items);
+    expect(result.maxAngleDeg).toBeCloseTo(30);
+    for (const leg of result.legs) expect(leg.tensionKg).toBeCloseTo(2000 / (2 * Math.cos(Math.PI / 6)));
+    expect(result.riggingWeightKg).toBe(24);
+    expect(result.totalHookLoadKg).toBe(2024);
+    expect(result.ok).toBe(true);
+  });
+
+  it('should load the leg closer to the CoG more', () => {
+    const result = calculateRigging(2000, geometry, config({ inset_start_m: 0, inset_end_m: 2 }), items);
+    const [a, b] = result.legs;
+    expect(b.tensionKg).toBeGreaterThan(a.tensionKg);
+    // Vertical components carry the load, horizontal components cancel
+    const rad = (deg: number) => (deg * Math.PI) / 180;
+    expect(a.tensionKg * Math.cos(rad(a.angleDeg)) + b.tensionKg * Math.cos(rad(b.angleDeg))).toBeCloseTo(2000);
+    expect(a.tensionKg * Math.sin(rad(a.angleDeg))).toBeCloseTo(b.tensionKg * Math.sin(rad(b.angleDeg)));
+  });
+
+  it('should assume three carrying legs on four-leg slings', () => {
+    const result = calculateRigging(3000, geometry, config({ type: 'four_leg' }), items);
+    expect(result.legs).toHaveLength(4);
+    const angle = (result.legs[0].angleDeg * Math.PI) / 180;
+    expect(result.legs[0].tensionKg).toBeCloseTo((3000 / 4 / Math.cos(angle)) * (4 / 3));
+    expect(result.riggingWeightKg).toBe(48);
+  });
+
+  it('should flag short slings and flat angles', () => {
+    expect(calculateRigging(2000, geometry, config({ sling_length_m: 1.5 }), items).issues).toContain('sling_too_short');
+    expect(calculateRigging(2000, geometry, config({ sling_length_m: 2.2 }), items).issues).toContain('angle_too_large');
+  });
+
+  it('should check spreader length and top legs with the beam weight', () => {
+    const result = calculateRigging(4000, geometry, config({ type: 'spreader_beam', spreader_id: 'beam' }), items);
+    expect(result.legs.find(l => l.label === 'D1')!.tensionKg).toBeCloseTo(2000);
+    const top = result.legs.find(l => l.label === 'T1')!;
+    expect(top.tensionKg).toBeCloseTo((4000 + 150 + 24) / 2 / Math.cos((top.angleDeg * Math.PI) / 180));
+    expect(result.issues).toContain('overloaded'); // 2000 kg slings under the top legs
+
+    // 8m element, lift points 0.5m from the ends need a 7m beam
+    const long = getElementGeometry({ x: 0, y: 0 }, { x: 8, y: 0.4 });
+    const short = calculateRigging(4000, long, config({ type: 'spreader_beam', spreader_id: 'beam', inset_start_m: 0.5, inset_end_m: 0.5 }), items);
+    expect(short.issues).toContain('spreader_too_short');
+  });
+
+  it('should check the chain block against the highest leg', () => {
+    const result = calculateRigging(2000, geometry, config({ chain_block_id: 'chain' }), items);
+    const chain = result.checks.find(c => c.itemType === 'chain_block')!;
+    expect(chain.ok).toBe(false);
+    expect(result.issues).toContain('overloaded');
+  });
+
+  it('should take saved rigging weights from the current library items', () => {
+    // 2 x 10kg slings + 2 x 2kg shackles
+    expect(getSavedRiggingWeightKg(config(), 999, items)).toBe(24);
+
+    const heavierSling = items.map(i => i.id === 'sling' ? { ...i, weight_kg: 15 } : i);
+    expect(getSavedRiggingWeightKg(config(), 24, heavierSling)).toBe(34);
+
+    // Deleted library item: keep the weight stored at save time
+    expect(getSavedRiggingWeightKg(config(), 24, items.filter(i => i.id !== 'shackle'))).toBe(24);
+    expect(getSavedRiggingWeightKg(null, 24, items)).toBe(24);
+  });
+});
@@ -0,0 +1,268 @@
+import { RiggingConfiguration, RiggingConfigType, RiggingItem, RiggingItemType } from '../../../../supabase';
+
+// Sling angle from vertical above which the rigging is not allowed
+export const MAX_SLING_ANGLE_DEG = 60;
+// Four-leg slings: only three legs are assumed to carry the load (uneven leg lengths)
+export const FOUR_LEG_SHARE_FACTOR = 4 / 3;
+
+export const DEFAULT_SLING_LENGTH_M = 4;
+
+export type RiggingIssue =
+  | 'no_sling'
+  | 'sling_too_short'
+  | 'angle_too_large'
+  | 'spreader_too_short'
+  | 'cog_outside_lift_points'
+  | 'overloaded';
+
+export type ElementGeometry = {
+  lengthM: number; // long horizontal side
+  widthM: number;  // short horizontal side
+};
+
+export type RiggingLeg = {
+  label: string;
+  horizontalM: number; // from hook (or spreader lug) to the lift point
+  angleDeg: number;    // from vertical
+  tensionKg: number;
+};
+
+export type RiggingCheck = {
+  itemType: RiggingItemType;
+  name: string;
+  count: number;
+  loadKg: number;
+  wllKg: number;
+  utilizationPct: number;
+  ok: boolean;
+};
+
+export type RiggingResult = {
+  geometry: ElementGeometry;
+  legs: RiggingLeg[];
+  maxLegTensionKg: number;
+  maxAngleDeg: number | null;
+  riggingWeightKg: number;
+  totalHookLoadKg: number; // element + rigging
+  checks: RiggingCheck[];
+  issues: RiggingIssue[];
+  ok: boolean;
+};
+
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Horizontal size of an element from its bounding box (m)
+ */
+export function getElementGeometry(
+  min: { x: number; y: number },
+  max: { x: number; y: number }
+): ElementGeometry {
+  const dx = Math.abs(max.x - min.x);
+  const dy = Math.abs(max.y - min.y);
+  return { lengthM: Math.max(dx, dy), widthM: Math.min(dx, dy) };
+}
+
+export function getDefaultRiggingConfiguration(type: RiggingConfigType = 'two_leg'): RiggingConfiguration {
+  return {
+    type,
+    sling_id: null,
+    shackle_id: null,
+    spreader_id: null,
+    chain_block_id: null,
+    sling_length_m: DEFAULT_SLING_LENGTH_M,
+    inset_start_m: 0,
+    inset_end_m: 0
+  };
+}
+
+/**
+ * Number of sling legs and shackles used by a configuration
+ * (spreader beam: two top legs and two drop legs)
+ */
+export function getLegCount(type: RiggingConfigType): number {
+  return type === 'two_leg' ? 2 : 4;
+}
+
+/**
+ * Tensions of two legs meeting at the hook above the load resultant.
+ * Horizontal components cancel, vertical components carry the load.
+ */
+function solveTwoLegs(loadKg: number, angle1: number, angle2: number): [number, number] {
+  const sum = Math.sin(angle1 + angle2);
+  if (sum < 1e-9) return [loadKg / 2, loadKg / 2];
+  return [(loadKg * Math.sin(angle2)) / sum, (loadKg * Math.sin(angle1)) / sum];
+}
+
+/**
+ * Weight of the rigging gear in a configuration (slings and shackles per leg, spreader, chain block)
+ */
+export function getRiggingWeightKg(configuration: RiggingConfiguration, items: RiggingItem[]): number {
+  const findItem = (id: string | null) => (id ? items.find(i => i.id === id) || null : null);
+  const legCount = getLegCount(configuration.type);
+  const spreader = configuration.type === 'spreader_beam' ? findItem(configuration.spreader_id) : null;
+  return (findItem(configuration.sling_id)?.weight_kg || 0) * legCount +
+    (findItem(configuration.shackle_id)?.weight_kg || 0) * legCount +
+    (spreader?.weight_kg || 0) +
+    (findItem(configuration.chain_block_id)?.weight_kg || 0);
+}
+
+/**
+ * Rigging weight of a saved element configuration from the current library items.
+ * The weight stored at save time is only used when a referenced item has been deleted.
+ */
+export function getSavedRiggingWeightKg(
+  configuration: RiggingConfiguration | null | undefined,
+  storedWeightKg: number,
+  items: RiggingItem[]
+): number {
+  if (!configuration) return storedWeightKg;
+  const ids = [configuration.sling_id, configuration.shackle_id, configuration.chain_block_id];
+  if (configuration.type === 'spreader_beam') ids.push(configuration.spreader_id);
+  const allFound = ids.every(id => !id || items.some(i => i.id === id));
+  return allFound ? getRiggingWeightKg(configuration, items) : storedWeightKg;
+}
+
+/**
+ * Leg tensions, rigging weight and WLL checks for lifting an element.
+ * The hook settles above the element CoG (bounding box center). Lift points
+ * are on the long axis, inset from both ends; four-leg slings also take
+ * the element width across. A chain block is assumed in one leg for levelling.
+ */
+export function calculateRigging(
+  elementWeightKg: number,
+  geometry: ElementGeometry,
+  configuration: RiggingConfiguration,
+  items: RiggingItem[]
+): RiggingResult {
+  const findItem = (id: string | null) => (id ? items.find(i => i.id === id) || null : null);
+  const sling = findItem(configuration.sling_id);
+  const shackle = findItem(configuration.shackle_id);
+  const spreader = configuration.type === 'spreader_beam' ? findItem(configuration.spreader_id) : null;
+  const chainBlock = findItem(configuration.chain_block_id);
+
+  const legCount = getLegCount(configuration.type);
+  const issues: RiggingIssue[] = [];
+  const legs: RiggingLeg[] = [];
+
+  const riggingWeightKg = getRiggingWeightKg(configuration, items);
+
+  // Lift point distances from the CoG along the long axis
+  const half = geometry.lengthM / 2;
+  const d1 = half - configuration.inset_start_m;
+  const d2 = half - configuration.inset_end_m;
+  if (d1 < 0 || d2 < 0) issues.push('cog_outside_lift_points');
+  const span = Math.max(0, d1) + Math.max(0, d2);
+  // Lever rule: the lift point closer to the CoG takes more load
+  const share1 = span > 0 ? Math.max(0, d2) / span : 0.5;
+  const share2 = 1 - share1;
+
+  const slingLength = configuration.sling_length_m;
+  if (!sling) issues.push('no_sling');
+
+  // Hook height above the lift points (or spreader lugs), set by the longest horizontal reach
+  const hookHeight = (reach: number): number | null => {
+    if (slingLength <= reach) return null;
+    return Math.sqrt(slingLength * slingLength - reach * reach);
+  };
+
+  if (configuration.type === 'two_leg') {
+    const reach = Math.max(Math.abs(d1), Math.abs(d2));
+    const height = hookHeight(reach);
+    if (height === null) {
+      issues.push('sling_too_short');
+    } else {
+      const a1 = Math.atan2(Math.abs(d1), height);
+      const a2 = Math.atan2(Math.abs(d2), height);
+      const [t1, t2] = solveTwoLegs(elementWeightKg, a1, a2);
+      legs.push(
+        { label: 'A', horizontalM: Math.abs(d1), angleDeg: toDeg(a1), tensionKg: t1 },
+        { label: 'B', horizontalM: Math.abs(d2), angleDeg: toDeg(a2), tensionKg: t2 }
+      );
+    }
+  } else if (configuration.type === 'four_leg') {
+    const across = geometry.widthM / 2;
+    const r1 = Math.hypot(d1, across);
+    const r2 = Math.hypot(d2, across);
+    const height = hookHeight(Math.max(r1, r2));
+    if (height === null) {
+      issues.push('sling_too_short');
+    } else {
+      const leg = (label: string, reach: number, share: number): RiggingLeg => {
+        const angle = Math.atan2(reach, height);
+        const vertical = (elementWeightKg * share) / 2;
+        return {
+          label,
+          horizontalM: reach,
+          angleDeg: toDeg(angle),
+          tensionKg: (vertical / Math.cos(angle)) * FOUR_LEG_SHARE_FACTOR
+        };
+      };
+      legs.push(leg('A1', r1, share1), leg('A2', r1, share1), leg('B1', r2, share2), leg('B2', r2, share2));
+    }
+  } else {
+    // Spreader beam: vertical drop legs to the lift points, top legs from the beam ends to the hook
+    const beamLength = spreader?.length_m || 0;
+    if (!spreader || beamLength < span) issues.push('spreader_too_short');
+
+    legs.push(
+      { label: 'D1', horizontalM: 0, angleDeg: 0, tensionKg: elementWeightKg * share1 },
+      { label: 'D2', horizontalM: 0, angleDeg: 0, tensionKg: elementWeightKg * share2 }
+    );
+
+    const lug = Math.max(beamLength, span) / 2;
+    const height = hookHeight(lug);
+    if (height === null) {
+      issues.push('sling_too_short');
+    } else {
+      // Beam is centred over the CoG, so the top legs share the load equally
+      const belowBeamKg = elementWeightKg + (spreader?.weight_kg || 0) +
+        ((sling?.weight_kg || 0) + (shackle?.weight_kg || 0)) * 2;
+      const angle = Math.atan2(lug, height);
+      const tension = belowBeamKg / 2 / Math.cos(angle);
+      legs.push(
+        { label: 'T1', horizontalM: lug, angleDeg: toDeg(angle), tensionKg: tension },
+        { label: 'T2', horizontalM: lug, angleDeg: toDeg(angle), tensionKg: tension }
+      );
+    }
+  }
+
+  const maxLegTensionKg = legs.length > 0 ? Math.max(...legs.map(l => l.tensionKg)) : 0;
+  const angled = legs.filter(l => l.angleDeg > 0);
+  const maxAngleDeg = angled.length > 0 ? round1(Math.max(...angled.map(l => l.angleDeg))) : null;
+  if (maxAngleDeg !== null && maxAngleDeg > MAX_SLING_ANGLE_DEG) issues.push('angle_too_large');
+
+  const checks: RiggingCheck[] = [];
+  const addCheck = (item: RiggingItem | null, count: number, loadKg: number) => {
+    if (!item) return;
+    checks.push({
+      itemType: item.item_type,
+      name: item.name,
+      count,
+      loadKg: Math.round(loadKg),
+      wllKg: item.wll_kg,
+      utilizationPct: item.wll_kg > 0 ? Math.round((loadKg / item.wll_kg) * 100) : Infinity,
+      ok: loadKg <= item.wll_kg
+    });
+  };
+  if (legs.length > 0) {
+    addCheck(sling, legCount, maxLegTensionKg);
+    addCheck(shackle, legCount, maxLegTensionKg);
+    addCheck(chainBlock, 1, maxLegTensionKg);
+  }
+  addCheck(spreader, 1, elementWeightKg);
+  if (checks.some(c => !c.ok)) issues.push('overloaded');
+
+  return {
+    geometry,
+    legs,
+    maxLegTensionKg: Math.round(maxLegTensionKg),
+    maxAngleDeg,
+    riggingWeightKg: Math.round(riggingWeightKg),
+    totalHookLoadKg: Math.round(elementWeightKg + riggingWeightKg),
+    checks,
+    issues,
+    ok: issues.length === 0
+  };
+}
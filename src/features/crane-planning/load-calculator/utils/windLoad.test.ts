@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { getAllowedWindSpeed, getSailArea } from './windLoad';
+
+describe('windLoad', () => {
+  it('should use the largest vertical face as sail area', () => {
+    // 6 m x 0.2 m wall panel, 3 m high
+    expect(getSailArea({ x: 0, y: 0, z: 0 }, { x: 6, y: 0.2, z: 3 })).toBeCloseTo(18);
+    // Same panel turned 90 degrees
+    expect(getSailArea({ x: 0, y: 0, z: 0 }, { x: 0.2, y: 6, z: 3 })).toBeCloseTo(18);
+  });
+
+  it('should reduce the wind limit for light loads with a large sail area', () => {
+    // 18 m² panel of 7.5 t: 1.2 * 7.5 / (18 * 1.2) = 0.417 -> 14 * 0.645
+    expect(getAllowedWindSpeed(14, 7500, 18)).toBe(9);
+    // Compact heavy load keeps the crane limit
+    expect(getAllowedWindSpeed(14, 20000, 2)).toBe(14);
+    expect(getAllowedWindSpeed(14, 0, 18)).toBe(14);
+  });
+});
@@ -0,0 +1,30 @@
+// Reference sail area per tonne of hook load the chart wind limit is valid for (EN 13000)
+export const REFERENCE_SAIL_AREA_M2_PER_T = 1.2;
+
+// Drag coefficient of a flat element (panel, slab, beam web)
+export const DRAG_COEFFICIENT = 1.2;
+
+type Point3 = { x: number; y: number; z: number };
+
+/**
+ * Projected sail area (m²) of an element from its bounding box (meters):
+ * the largest vertical face, as the element can turn into the wind while hanging.
+ */
+export function getSailArea(min: Point3, max: Point3): number {
+  const dx = Math.abs(max.x - min.x);
+  const dy = Math.abs(max.y - min.y);
+  const dz = Math.abs(max.z - min.z);
+  return Math.max(dx, dy) * dz;
+}
+
+/**
+ * Permissible wind speed (m/s) for a load with a large sail area:
+ * v = v_max * sqrt(1.2 m²/t * m_H / (A_P * c_W)), never above the crane's limit.
+ */
+export function getAllowedWindSpeed(craneLimitMs: number, loadKg: number, sailAreaM2: number): number {
+  const windArea = sailAreaM2 * DRAG_COEFFICIENT;
+  if (windArea <= 0 || loadKg <= 0) return craneLimitMs;
+
+  const allowed = craneLimitMs * Math.sqrt((REFERENCE_SAIL_AREA_M2_PER_T * loadKg / 1000) / windArea);
+  return Math.round(Math.min(craneLimitMs, allowed) * 10) / 10;
+}
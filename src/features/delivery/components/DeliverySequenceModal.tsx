@@ -0,0 +1,306 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FiX, FiLoader, FiRefreshCw, FiAlertCircle, FiTruck, FiCalendar, FiLock, FiRotateCcw } from 'react-icons/fi';
+import type { DeliveryVehicle } from '../../../supabase';
+import { useDeliverySequence } from '../hooks/useDeliverySequence';
+import {
+  DEFAULT_MAX_LAYDOWN_DAYS,
+  findTargetVehicle,
+  SequenceIssue,
+  SequenceIssueType
+} from '../utils/deliverySequence';
+
+interface DeliverySequenceModalProps {
+  projectId: string;
+  userEmail?: string;
+  onChanged: () => void; // Reload the calling screen after a fix
+  onClose: () => void;
+}
+
+type IssueFilter = 'all' | SequenceIssueType;
+
+const FILTERS: IssueFilter[] = ['all', 'late_delivery', 'early_delivery'];
+
+// Max rows rendered in the modal
+const MAX_ROWS = 300;
+
+const formatDate = (date: string | null) => {
+  if (!date) return '';
+  const [y, m, d] = date.split('-');
+  return `${d}.${m}.${y}`;
+};
+
+export function DeliverySequenceModal({
+  projectId,
+  userEmail,
+  onChanged,
+  onClose
+}: DeliverySequenceModalProps) {
+  const { t } = useTranslation('delivery');
+  const [maxLaydownDays, setMaxLaydownDays] = useState(DEFAULT_MAX_LAYDOWN_DAYS);
+  const [filter, setFilter] = useState<IssueFilter>('all');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const {
+    issues, vehicles, scheduleVersionName, loading, error, refetch, isReceiptConfirmed, moveToVehicle,
+    isInstallDateLocked, pushInstallDate, undoStack, undoLastChange
+  } = useDeliverySequence(projectId, maxLaydownDays);
+
+  const counts = useMemo(() => ({
+    all: issues.length,
+    late_delivery: issues.filter(i => i.type === 'late_delivery').length,
+    early_delivery: issues.filter(i => i.type === 'early_delivery').length
+  }), [issues]);
+
+  const rows = useMemo(
+    () => issues.filter(i => filter === 'all' || i.type === filter).slice(0, MAX_ROWS),
+    [issues, filter]
+  );
+
+  const vehicleById = useMemo(() => new Map(vehicles.map(v => [v.id, v])), [vehicles]);
+
+  const runFix = async (issue: SequenceIssue, fix: () => Promise<boolean>) => {
+    setNotice(null);
+    setBusyId(issue.deliveryItem.id);
+    const ok = await fix();
+    setBusyId(null);
+    if (ok) onChanged();
+  };
+
+  // Locked installation days (current or new) cannot be changed from here
+  const handlePushInstall = (issue: SequenceIssue) => {
+    const lockedDate = [issue.deliveryDate, issue.installDate].find(date => date && isInstallDateLocked(date));
+    if (lockedDate) {
+      setNotice(t('sequenceCheck.installDayLocked', { date: formatDate(lockedDate) }));
+      return;
+    }
+    runFix(issue, () => pushInstallDate(issue, issue.deliveryDate, userEmail));
+  };
+
+  // Items confirmed as received cannot be re-planned
+  const handleMoveToVehicle = (issue: SequenceIssue, vehicle: DeliveryVehicle) => {
+    if (isReceiptConfirmed(issue)) {
+      setNotice(t('sequenceCheck.itemReceived', { mark: issue.assemblyMark }));
+      return;
+    }
+    runFix(issue, () => moveToVehicle(issue, vehicle, userEmail));
+  };
+
+  const handleUndo = async () => {
+    setNotice(null);
+    if (await undoLastChange()) onChanged();
+  };
+
+  const lastChange = undoStack[undoStack.length - 1];
+
+  const cellStyle: React.CSSProperties = { padding: '6px 8px', verticalAlign: 'top' };
+  const actionStyle: React.CSSProperties = {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '3px 8px',
+    fontSize: '11px',
+    borderRadius: '4px',
+    border: '1px solid #d1d5db',
+    backgroundColor: 'white',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap'
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 10000
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        boxShadow: '0 8px 32px rgba(0,0,0,0.2)',
+        maxWidth: '900px',
+        width: '95%',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column'
+      }}>
+        {/* Modal header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: '16px', fontWeight: 600 }}>{t('sequenceCheck.title')}</h3>
+            <p style={{ margin: '4px 0 0 0', fontSize: '12px', color: '#6b7280' }}>
+              {t('sequenceCheck.schedule', { name: scheduleVersionName || t('sequenceCheck.mainSchedule') })}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: '8px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', borderRadius: '4px' }}
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        {/* Modal content */}
+        <div style={{ padding: '16px 20px', overflow: 'auto', flex: 1 }}>
+          {/* Laydown limit and filter */}
+          <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap', alignItems: 'center', marginBottom: '12px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px' }}>
+              {t('sequenceCheck.maxLaydownDays')}
+              <input
+                type="number"
+                min={0}
+                value={maxLaydownDays}
+                onChange={e => setMaxLaydownDays(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                style={{ width: '60px', padding: '4px 6px', fontSize: '12px', borderRadius: '4px', border: '1px solid #d1d5db' }}
+              />
+            </label>
+            <div style={{ display: 'flex', gap: '4px' }}>
+              {FILTERS.map(f => (
+                <button
+                  key={f}
+                  onClick={() => setFilter(f)}
+                  style={{
+                    padding: '4px 10px',
+                    fontSize: '12px',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    border: '1px solid #d1d5db',
+                    backgroundColor: filter === f ? 'var(--modus-primary)' : 'white',
+                    color: filter === f ? 'white' : '#374151'
+                  }}
+                >
+                  {t(`sequenceCheck.filters.${f}`)} ({counts[f]})
+                </button>
+              ))}
+            </div>
+            {lastChange && (
+              <button
+                onClick={handleUndo}
+                disabled={busyId !== null}
+                title={t('sequenceCheck.undoHint')}
+                style={{ ...actionStyle, marginLeft: 'auto', padding: '5px 8px' }}
+              >
+                <FiRotateCcw size={12} /> {t('sequenceCheck.undo', { mark: lastChange.description })}
+              </button>
+            )}
+            <button
+              onClick={refetch}
+              disabled={loading}
+              title={t('actions.refresh')}
+              style={{ ...actionStyle, marginLeft: lastChange ? 0 : 'auto', padding: '5px 8px' }}
+            >
+              <FiRefreshCw size={12} />
+            </button>
+          </div>
+
+          {notice && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#92400e', padding: '8px 12px', backgroundColor: '#fffbeb', borderRadius: '8px', marginBottom: '12px', fontSize: '12px' }}>
+              <FiLock /> {notice}
+            </div>
+          )}
+
+          {loading ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#6b7280', padding: '24px 0', justifyContent: 'center' }}>
+              <FiLoader className="spin" /> {t('sequenceCheck.loading')}
+            </div>
+          ) : error ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#dc2626', padding: '12px', backgroundColor: '#fef2f2', borderRadius: '8px' }}>
+              <FiAlertCircle /> {t('sequenceCheck.error', { message: error })}
+            </div>
+          ) : rows.length === 0 ? (
+            <div style={{ textAlign: 'center', padding: '24px', color: '#16a34a', fontSize: '13px' }}>
+              {t('sequenceCheck.noIssues')}
+            </div>
+          ) : (
+            <>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                <thead>
+                  <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+                    <th style={cellStyle}>{t('sequenceCheck.mark')}</th>
+                    <th style={cellStyle}>{t('sequenceCheck.delivery')}</th>
+                    <th style={cellStyle}>{t('sequenceCheck.installation')}</th>
+                    <th style={cellStyle}>{t('sequenceCheck.laydown')}</th>
+                    <th style={cellStyle}>{t('sequenceCheck.fix')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(issue => {
+                    const late = issue.type === 'late_delivery';
+                    const currentVehicle = issue.deliveryItem.vehicle_id ? vehicleById.get(issue.deliveryItem.vehicle_id) : null;
+                    const target = findTargetVehicle(issue, vehicles, maxLaydownDays);
+                    const busy = busyId === issue.deliveryItem.id;
+                    return (
+                      <tr key={issue.deliveryItem.id} style={{ borderBottom: '1px solid #f3f4f6' }}>
+                        <td style={{ ...cellStyle, fontWeight: 500 }}>{issue.assemblyMark}</td>
+                        <td style={cellStyle}>
+                          {formatDate(issue.deliveryDate)}
+                          {currentVehicle && <span style={{ color: '#6b7280' }}> · {currentVehicle.vehicle_code}</span>}
+                        </td>
+                        <td style={cellStyle}>
+                          {formatDate(issue.installDate)}
+                          {issue.scheduleItem.resource && <span style={{ color: '#6b7280' }}> · {issue.scheduleItem.resource}</span>}
+                        </td>
+                        <td style={{ ...cellStyle, color: late ? '#dc2626' : '#d97706', fontWeight: 500 }}>
+                          {late
+                            ? t('sequenceCheck.daysLate', { count: -issue.laydownDays })
+                            : t('sequenceCheck.daysEarly', { count: issue.laydownDays })}
+                        </td>
+                        <td style={{ ...cellStyle, display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+                          {busy ? (
+                            <FiLoader className="spin" />
+                          ) : (
+                            <>
+                              {target && (
+                                <button
+                                  style={actionStyle}
+                                  onClick={() => handleMoveToVehicle(issue, target)}
+                                  title={t('sequenceCheck.moveToVehicleHint')}
+                                >
+                                  <FiTruck size={11} /> {t('sequenceCheck.moveToVehicle', {
+                                    code: target.vehicle_code,
+                                    date: formatDate(target.scheduled_date)
+                                  })}
+                                </button>
+                              )}
+                              {late && (
+                                <button
+                                  style={actionStyle}
+                                  onClick={() => handlePushInstall(issue)}
+                                  title={t('sequenceCheck.pushInstallHint')}
+                                >
+                                  <FiCalendar size={11} /> {t('sequenceCheck.pushInstall', { date: formatDate(issue.deliveryDate) })}
+                                </button>
+                              )}
+                              {!target && !late && <span style={{ color: '#9ca3af' }}>{t('sequenceCheck.noVehicle')}</span>}
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {counts[filter] > rows.length && (
+                <p style={{ fontSize: '11px', color: '#6b7280', marginTop: '8px' }}>
+                  {t('sequenceCheck.truncated', { shown: rows.length, total: counts[filter] })}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { useTranslation } from 'react-i18next';
 import {
   FiDownload, FiRefreshCw, FiDroplet, FiPlay, FiPause, FiSquare,
   FiSettings, FiExternalLink, FiLayers, FiUpload, FiEdit2,
-  FiTruck, FiCalendar, FiCheckCircle, FiCheck
+  FiTruck, FiCalendar, FiCheckCircle, FiCheck, FiAlertTriangle
 } from 'react-icons/fi';
 import { formatWeight } from '../../../shared/utils/deliveryHelpers';
 import { DeliveryVehicle, DeliveryItem } from '../../../supabase';
@@ -34,6 +34,8 @@ interface DeliveryToolbarProps {
 
   // Modals
   onShowFactoryModal: () => void;
+  onShowTruckLoadModal: () => void;
+  onShowSequenceCheck: () => void;
   onShowImportModal: () => void;
   onShowExportModal: () => void;
   onShowSettingsModal: () => void;
@@ -65,6 +67,8 @@ export function DeliveryToolbar({
   onPausePlayback,
   onStopPlayback,
   onShowFactoryModal,
+  onShowTruckLoadModal,
+  onShowSequenceCheck,
   onShowImportModal,
   onShowExportModal,
   onShowSettingsModal,
@@ -109,6 +113,28 @@ export function DeliveryToolbar({
           </button>
         </div>
 
+        {/* VEOKITE KANDEVÕIME */}
+        <div className="icon-menu-wrapper">
+          <button
+            className="icon-btn"
+            onClick={onShowTruckLoadModal}
+            title={t('toolbar.vehicleProfiles')}
+          >
+            <FiTruck size={18} />
+          </button>
+        </div>
+
+        {/* TARNE VS PAIGALDUS */}
+        <div className="icon-menu-wrapper">
+          <button
+            className="icon-btn"
+            onClick={onShowSequenceCheck}
+            title={t('toolbar.sequenceCheck')}
+          >
+            <FiAlertTriangle size={18} />
+          </button>
+        </div>
+
         {/* IMPORT-EKSPORT */}
         <div
           className="icon-menu-wrapper"
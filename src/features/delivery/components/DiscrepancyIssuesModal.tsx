@@ -0,0 +1,268 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FiX, FiLoader, FiRefreshCw, FiAlertCircle, FiPlus, FiCheck, FiRotateCcw } from 'react-icons/fi';
+import { ArrivalDiscrepancy, DeliveryItem, DiscrepancyType, ISSUE_STATUS_CONFIG } from '../../../supabase';
+import { LinkedIssue } from '../hooks/useDiscrepancyIssues';
+import { DISCREPANCY_TYPES } from '../utils/discrepancyIssues';
+
+interface DiscrepancyIssuesModalProps {
+  discrepancies: ArrivalDiscrepancy[];
+  issues: Map<string, LinkedIssue>;
+  items: DeliveryItem[];
+  autoIssueTypes: DiscrepancyType[];
+  loading: boolean;
+  error: string | null;
+  getVehicleCode: (arrivedVehicleId: string) => string;
+  onRefresh: () => void;
+  onSaveAutoIssueTypes: (types: DiscrepancyType[]) => Promise<boolean>;
+  onCreateIssue: (discrepancy: ArrivalDiscrepancy) => Promise<LinkedIssue | null>;
+  onSetResolved: (discrepancy: ArrivalDiscrepancy, resolved: boolean, notes?: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export function DiscrepancyIssuesModal({
+  discrepancies,
+  issues,
+  items,
+  autoIssueTypes,
+  loading,
+  error,
+  getVehicleCode,
+  onRefresh,
+  onSaveAutoIssueTypes,
+  onCreateIssue,
+  onSetResolved,
+  onClose
+}: DiscrepancyIssuesModalProps) {
+  const { t } = useTranslation('delivery');
+  const [showResolved, setShowResolved] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [resolutionNotes, setResolutionNotes] = useState('');
+
+  const itemById = useMemo(() => new Map(items.map(i => [i.id, i])), [items]);
+  const rows = useMemo(
+    () => discrepancies.filter(d => showResolved || !d.is_resolved),
+    [discrepancies, showResolved]
+  );
+  const openCount = discrepancies.filter(d => !d.is_resolved).length;
+
+  const run = async (discrepancy: ArrivalDiscrepancy, action: () => Promise<unknown>) => {
+    setBusyId(discrepancy.id);
+    await action();
+    setBusyId(null);
+  };
+
+  const toggleAutoType = (type: DiscrepancyType) => {
+    const next = autoIssueTypes.includes(type)
+      ? autoIssueTypes.filter(ty => ty !== type)
+      : [...autoIssueTypes, type];
+    onSaveAutoIssueTypes(next);
+  };
+
+  const cellStyle: React.CSSProperties = { padding: '6px 8px', verticalAlign: 'top' };
+  const actionStyle: React.CSSProperties = {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '3px 8px',
+    fontSize: '11px',
+    borderRadius: '4px',
+    border: '1px solid #d1d5db',
+    backgroundColor: 'white',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap'
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 10000
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        boxShadow: '0 8px 32px rgba(0,0,0,0.2)',
+        maxWidth: '960px',
+        width: '95%',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column'
+      }}>
+        {/* Modal header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: '16px', fontWeight: 600 }}>{t('discrepancyIssues.title')}</h3>
+            <p style={{ margin: '4px 0 0 0', fontSize: '12px', color: '#6b7280' }}>
+              {t('discrepancyIssues.openCount', { count: openCount })}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: '8px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', borderRadius: '4px' }}
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        {/* Modal content */}
+        <div style={{ padding: '16px 20px', overflow: 'auto', flex: 1 }}>
+          {/* Auto-create settings */}
+          <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap', alignItems: 'center', marginBottom: '12px', fontSize: '12px' }}>
+            <span style={{ color: '#374151', fontWeight: 500 }}>{t('discrepancyIssues.autoCreate')}</span>
+            {DISCREPANCY_TYPES.map(type => (
+              <label key={type} style={{ display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={autoIssueTypes.includes(type)}
+                  onChange={() => toggleAutoType(type)}
+                />
+                {t(`discrepancyIssues.types.${type}`)}
+              </label>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: '12px', alignItems: 'center', marginBottom: '12px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', cursor: 'pointer' }}>
+              <input type="checkbox" checked={showResolved} onChange={e => setShowResolved(e.target.checked)} />
+              {t('discrepancyIssues.showResolved')}
+            </label>
+            <button
+              onClick={onRefresh}
+              disabled={loading}
+              title={t('actions.refresh')}
+              style={{ ...actionStyle, marginLeft: 'auto', padding: '5px 8px' }}
+            >
+              <FiRefreshCw size={12} />
+            </button>
+          </div>
+
+          {error && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#dc2626', padding: '12px', backgroundColor: '#fef2f2', borderRadius: '8px', marginBottom: '12px' }}>
+              <FiAlertCircle /> {error}
+            </div>
+          )}
+
+          {loading && rows.length === 0 ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#6b7280', padding: '24px 0', justifyContent: 'center' }}>
+              <FiLoader className="spin" /> {t('discrepancyIssues.loading')}
+            </div>
+          ) : rows.length === 0 ? (
+            <div style={{ textAlign: 'center', padding: '24px', color: '#16a34a', fontSize: '13px' }}>
+              {t('discrepancyIssues.noDiscrepancies')}
+            </div>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+                  <th style={cellStyle}>{t('discrepancyIssues.type')}</th>
+                  <th style={cellStyle}>{t('discrepancyIssues.item')}</th>
+                  <th style={cellStyle}>{t('discrepancyIssues.vehicle')}</th>
+                  <th style={cellStyle}>{t('discrepancyIssues.description')}</th>
+                  <th style={cellStyle}>{t('discrepancyIssues.issue')}</th>
+                  <th style={cellStyle}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(d => {
+                  const issue = d.issue_id ? issues.get(d.issue_id) : undefined;
+                  const statusConfig = issue ? ISSUE_STATUS_CONFIG[issue.status] : null;
+                  const busy = busyId === d.id;
+                  return (
+                    <tr key={d.id} style={{ borderBottom: '1px solid #f3f4f6', opacity: d.is_resolved ? 0.6 : 1 }}>
+                      <td style={{ ...cellStyle, fontWeight: 500 }}>{t(`discrepancyIssues.types.${d.discrepancy_type}`)}</td>
+                      <td style={cellStyle}>{(d.item_id && itemById.get(d.item_id)?.assembly_mark) || '-'}</td>
+                      <td style={cellStyle}>
+                        {getVehicleCode(d.arrived_vehicle_id)}
+                        <div style={{ color: '#9ca3af' }}>{new Date(d.created_at).toLocaleDateString('et-EE')}</div>
+                      </td>
+                      <td style={cellStyle}>
+                        {d.description || '-'}
+                        {d.is_resolved && d.resolution_notes && (
+                          <div style={{ color: '#16a34a' }}>{t('discrepancyIssues.resolution', { notes: d.resolution_notes })}</div>
+                        )}
+                      </td>
+                      <td style={cellStyle}>
+                        {issue && statusConfig ? (
+                          <span style={{
+                            padding: '2px 6px',
+                            borderRadius: '4px',
+                            backgroundColor: statusConfig.bgColor,
+                            color: statusConfig.color,
+                            whiteSpace: 'nowrap'
+                          }}>
+                            {issue.issue_number} · {statusConfig.label}
+                          </span>
+                        ) : '-'}
+                      </td>
+                      <td style={{ ...cellStyle, display: 'flex', gap: '4px', flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+                        {busy ? (
+                          <FiLoader className="spin" />
+                        ) : resolvingId === d.id ? (
+                          <>
+                            <input
+                              type="text"
+                              autoFocus
+                              value={resolutionNotes}
+                              onChange={e => setResolutionNotes(e.target.value)}
+                              placeholder={t('discrepancyIssues.resolutionPlaceholder')}
+                              style={{ padding: '3px 6px', fontSize: '11px', borderRadius: '4px', border: '1px solid #d1d5db', width: '160px' }}
+                            />
+                            <button
+                              style={actionStyle}
+                              onClick={() => run(d, async () => {
+                                await onSetResolved(d, true, resolutionNotes.trim());
+                                setResolvingId(null);
+                                setResolutionNotes('');
+                              })}
+                            >
+                              <FiCheck size={11} /> {t('common:buttons.save')}
+                            </button>
+                            <button style={actionStyle} onClick={() => setResolvingId(null)}>
+                              <FiX size={11} />
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            {!d.issue_id && (
+                              <button style={actionStyle} onClick={() => run(d, () => onCreateIssue(d))}>
+                                <FiPlus size={11} /> {t('discrepancyIssues.createIssue')}
+                              </button>
+                            )}
+                            {d.is_resolved ? (
+                              <button style={actionStyle} onClick={() => run(d, () => onSetResolved(d, false))}>
+                                <FiRotateCcw size={11} /> {t('discrepancyIssues.reopen')}
+                              </button>
+                            ) : (
+                              <button style={actionStyle} onClick={() => { setResolvingId(d.id); setResolutionNotes(''); }}>
+                                <FiCheck size={11} /> {t('discrepancyIssues.resolve')}
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,20 @@
+import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { FiX, FiEdit2, FiTrash2, FiCheck, FiPlus } from 'react-icons/fi';
-import { DeliveryFactory, DeliveryVehicle } from '../../../supabase';
+import { FiX, FiEdit2, FiTrash2, FiCheck, FiPlus, FiLink, FiSlash } from 'react-icons/fi';
+import { DeliveryFactory, DeliveryVehicle, FactoryPortalLink } from '../../../supabase';
 import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createOrGetFactoryPortalLink,
+  deactivateFactoryPortalLink,
+  getFactoryPortalLinks,
+  getFactoryPortalUrl
+} from '../../../utils/factoryPortalUtils';
 
 interface FactoryModalProps {
   show: boolean;
+  projectId: string;
+  projectName: string;
+  userEmail?: string;
   factories: DeliveryFactory[];
   vehicles: DeliveryVehicle[];
   supabase: SupabaseClient;
@@ -34,6 +44,9 @@ interface FactoryModalProps {
 
 export function FactoryModal({
   show,
+  projectId,
+  projectName,
+  userEmail,
   factories,
   vehicles,
   supabase,
@@ -61,9 +74,57 @@ export function FactoryModal({
   setMessage
 }: FactoryModalProps) {
   const { t } = useTranslation('delivery');
+  // Active supplier portal links by factory ID
+  const [portalLinks, setPortalLinks] = useState<Record<string, FactoryPortalLink>>({});
+
+  useEffect(() => {
+    if (!show || !projectId) return;
+    getFactoryPortalLinks(projectId).then(links => {
+      setPortalLinks(Object.fromEntries(links.map(l => [l.factory_id, l])));
+    });
+  }, [show, projectId]);
 
   if (!show) return null;
 
+  const copyPortalLink = async (factory: DeliveryFactory) => {
+    const result = await createOrGetFactoryPortalLink(projectId, projectName, factory, userEmail);
+    if (!result.portalLink) {
+      setMessage(t('messages.genericError') + ': ' + result.error);
+      return;
+    }
+    // Update local state
+    setPortalLinks(prev => ({ ...prev, [factory.id]: result.portalLink! }));
+
+    const url = getFactoryPortalUrl(result.portalLink.share_token);
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      // Fallback for older browsers
+      const textArea = document.createElement('textarea');
+      textArea.value = url;
+      document.body.appendChild(textArea);
+      textArea.select();
+      document.execCommand('copy');
+      document.body.removeChild(textArea);
+    }
+    setMessage(t('factoryModal.portalLinkCopied', { name: factory.factory_name }));
+  };
+
+  const revokePortalLink = async (factory: DeliveryFactory) => {
+    const link = portalLinks[factory.id];
+    if (!link || !confirm(t('factoryModal.portalRevokeConfirm', { name: factory.factory_name }))) return;
+    if (await deactivateFactoryPortalLink(link.id)) {
+      setPortalLinks(prev => {
+        const next = { ...prev };
+        delete next[factory.id];
+        return next;
+      });
+      setMessage(t('factoryModal.portalLinkRevoked', { name: factory.factory_name }));
+    } else {
+      setMessage(t('messages.genericError'));
+    }
+  };
+
   const handleSeparatorChange = async (sep: string) => {
     setSaving(true);
     try {
@@ -158,6 +219,20 @@ export function FactoryModal({
                     <span className="factory-name">{f.factory_name}</span>
                     <span className="factory-code">({f.factory_code})</span>
                     <div className="factory-actions">
+                      <button
+                        className={`icon-btn ${portalLinks[f.id] ? 'portal-active' : ''}`}
+                        onClick={() => copyPortalLink(f)}
+                        title={portalLinks[f.id]
+                          ? t('factoryModal.portalLinkActive', { count: portalLinks[f.id].view_count })
+                          : t('factoryModal.portalLink')}
+                      >
+                        <FiLink />
+                      </button>
+                      {portalLinks[f.id] && (
+                        <button className="icon-btn delete-btn" onClick={() => revokePortalLink(f)} title={t('factoryModal.portalRevoke')}>
+                          <FiSlash />
+                        </button>
+                      )}
                       <button className="icon-btn" onClick={() => startEditFactory(f)} title={t('common:buttons.edit')}>
                         <FiEdit2 />
                       </button>
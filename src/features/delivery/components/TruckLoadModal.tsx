@@ -0,0 +1,263 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FiX, FiCheck, FiAlertTriangle, FiLoader } from 'react-icons/fi';
+import { DeliveryFactory, DeliveryItem, DeliveryVehicle, DeliveryVehicleProfile, DeliveryVehicleType } from '../../../supabase';
+import { fetchInstallationSequence } from '../hooks/useTruckLoads';
+import {
+  AutoPackPlan,
+  buildAutoPackPlan,
+  DEFAULT_VEHICLE_CAPACITY,
+  getVehicleCapacity,
+  TransportDimensions,
+  VehicleCapacity,
+} from '../utils/truckLoad';
+
+const VEHICLE_TYPE_KEYS = Object.keys(DEFAULT_VEHICLE_CAPACITY) as DeliveryVehicleType[];
+
+const CAPACITY_FIELDS: (keyof VehicleCapacity)[] = ['maxPayloadKg', 'deckLengthM', 'deckWidthM', 'maxHeightM'];
+
+type ProfileDraft = Record<keyof VehicleCapacity, string>;
+
+interface TruckLoadModalProps {
+  show: boolean;
+  date: string | null; // Auto-pack preview for this date (null = capacity profiles only)
+  projectId: string;
+  vehicles: DeliveryVehicle[];
+  items: DeliveryItem[];
+  profiles: DeliveryVehicleProfile[];
+  dimensions: Map<string, TransportDimensions>;
+  dimensionsLoading: boolean;
+  getFactory: (factoryId: string) => DeliveryFactory | undefined;
+  saveProfile: (vehicleType: DeliveryVehicleType, capacity: VehicleCapacity) => Promise<boolean>;
+  onApply: (date: string, plan: AutoPackPlan) => Promise<void>;
+  onClose: () => void;
+  setMessage: (message: string) => void;
+}
+
+const toDraft = (capacity: VehicleCapacity): ProfileDraft => ({
+  maxPayloadKg: String(capacity.maxPayloadKg),
+  deckLengthM: String(capacity.deckLengthM),
+  deckWidthM: String(capacity.deckWidthM),
+  maxHeightM: String(capacity.maxHeightM)
+});
+
+export function TruckLoadModal({
+  show,
+  date,
+  projectId,
+  vehicles,
+  items,
+  profiles,
+  dimensions,
+  dimensionsLoading,
+  getFactory,
+  saveProfile,
+  onApply,
+  onClose,
+  setMessage
+}: TruckLoadModalProps) {
+  const { t } = useTranslation('delivery');
+  const [drafts, setDrafts] = useState<Partial<Record<DeliveryVehicleType, ProfileDraft>>>({});
+  const [sequence, setSequence] = useState<Map<string, number> | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Installation sequence is loaded each time the preview opens
+  useEffect(() => {
+    if (!show || !date) return;
+    let cancelled = false;
+    setSequence(null);
+    fetchInstallationSequence(projectId)
+      .then(seq => !cancelled && setSequence(seq))
+      .catch(e => {
+        console.error('Error loading installation sequence:', e);
+        if (!cancelled) setSequence(new Map());
+      });
+    return () => { cancelled = true; };
+  }, [show, date, projectId]);
+
+  useEffect(() => {
+    if (show) setDrafts({});
+  }, [show]);
+
+  // Only planned vehicles are re-packed (loading or delivered ones stay as they are)
+  const dateVehicles = useMemo(
+    () => date ? vehicles.filter(v => v.scheduled_date === date && v.status === 'planned') : [],
+    [vehicles, date]
+  );
+
+  const plan = useMemo(() => {
+    if (!sequence || dateVehicles.length === 0) return null;
+    const vehicleIds = new Set(dateVehicles.map(v => v.id));
+    return buildAutoPackPlan(
+      dateVehicles,
+      items.filter(i => i.vehicle_id && vehicleIds.has(i.vehicle_id)),
+      sequence,
+      dimensions,
+      profiles
+    );
+  }, [sequence, dateVehicles, items, dimensions, profiles]);
+
+  if (!show) return null;
+
+  const itemById = new Map(items.map(i => [i.id, i]));
+  const vehicleById = new Map(vehicles.map(v => [v.id, v]));
+
+  const draftFor = (type: DeliveryVehicleType) => drafts[type] || toDraft(getVehicleCapacity(type, profiles));
+
+  const updateDraft = (type: DeliveryVehicleType, field: keyof VehicleCapacity, value: string) => {
+    setDrafts(prev => ({ ...prev, [type]: { ...draftFor(type), [field]: value } }));
+  };
+
+  const handleSaveProfile = async (type: DeliveryVehicleType) => {
+    const draft = drafts[type];
+    if (!draft) return;
+    const capacity = Object.fromEntries(
+      CAPACITY_FIELDS.map(field => [field, parseFloat(draft[field].replace(',', '.'))])
+    ) as unknown as VehicleCapacity;
+    if (CAPACITY_FIELDS.some(field => !(capacity[field] > 0))) {
+      setMessage(t('truckLoad.invalidProfile'));
+      return;
+    }
+
+    setSaving(true);
+    const ok = await saveProfile(type, capacity);
+    setSaving(false);
+    if (ok) {
+      setDrafts(prev => ({ ...prev, [type]: undefined }));
+      setMessage(t('truckLoad.profileSaved', { type: t(`vehicleTypes.${type}`) }));
+    } else {
+      setMessage(t('messages.genericError'));
+    }
+  };
+
+  const handleApply = async () => {
+    if (!date || !plan) return;
+    setSaving(true);
+    try {
+      await onApply(date, plan);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const newVehicleCount = plan ? plan.loads.filter(l => !l.vehicleId).length : 0;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal truck-load-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{date ? t('truckLoad.titleForDate', { date }) : t('truckLoad.title')}</h2>
+          <button className="close-btn" onClick={onClose}>
+            <FiX />
+          </button>
+        </div>
+        <div className="modal-body">
+          {/* Capacity profiles per vehicle type */}
+          <div className="truck-load-section-title">{t('truckLoad.profiles')}</div>
+          <table className="truck-profile-table">
+            <thead>
+              <tr>
+                <th>{t('truckLoad.vehicleType')}</th>
+                <th>{t('truckLoad.maxPayloadKg')}</th>
+                <th>{t('truckLoad.deckLengthM')}</th>
+                <th>{t('truckLoad.deckWidthM')}</th>
+                <th>{t('truckLoad.maxHeightM')}</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {VEHICLE_TYPE_KEYS.map(type => {
+                const draft = draftFor(type);
+                return (
+                  <tr key={type}>
+                    <td>{t(`vehicleTypes.${type}`)}</td>
+                    {CAPACITY_FIELDS.map(field => (
+                      <td key={field}>
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={draft[field]}
+                          onChange={(e) => updateDraft(type, field, e.target.value)}
+                        />
+                      </td>
+                    ))}
+                    <td>
+                      <button
+                        className="icon-btn save-btn"
+                        onClick={() => handleSaveProfile(type)}
+                        disabled={saving || !drafts[type]}
+                        title={t('common:buttons.save')}
+                      >
+                        <FiCheck />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {/* Auto-pack preview */}
+          {date && (
+            <div className="truck-load-preview">
+              <div className="truck-load-section-title">{t('truckLoad.autoPack')}</div>
+              {dateVehicles.length === 0 ? (
+                <div className="truck-load-empty">{t('truckLoad.noPlannedVehicles')}</div>
+              ) : !plan ? (
+                <div className="truck-load-empty"><FiLoader className="spin" /> {t('truckLoad.loadingSequence')}</div>
+              ) : (
+                <>
+                  <div className="truck-load-summary">
+                    {t('truckLoad.vehicleCount', { before: dateVehicles.length, after: plan.loads.length })}
+                    {newVehicleCount > 0 && <> · {t('truckLoad.newVehicles', { count: newVehicleCount })}</>}
+                    {plan.unusedVehicleIds.length > 0 && <> · {t('truckLoad.emptiedVehicles', { count: plan.unusedVehicleIds.length })}</>}
+                  </div>
+                  {dimensionsLoading && <div className="truck-load-hint">{t('truckLoad.dimensionsLoading')}</div>}
+
+                  {plan.loads.map((load, index) => {
+                    const capacity = getVehicleCapacity(load.vehicleType, profiles);
+                    const vehicle = load.vehicleId ? vehicleById.get(load.vehicleId) : null;
+                    return (
+                      <div key={index} className={`truck-load-row ${load.oversizeItemIds.length > 0 ? 'has-issue' : ''}`}>
+                        <div className="truck-load-row-header">
+                          <span className="truck-load-vehicle">
+                            {vehicle?.vehicle_code || `${getFactory(load.factoryId)?.factory_code || ''} ${t('truckLoad.newVehicle')}`}
+                          </span>
+                          <span className="truck-load-type">{t(`vehicleTypes.${load.vehicleType}`)}</span>
+                          <span className="truck-load-weight">
+                            {Math.round(load.weightKg).toLocaleString('et-EE')} / {capacity.maxPayloadKg.toLocaleString('et-EE')} kg
+                          </span>
+                          <span className="truck-load-count">{t('truckLoad.itemCount', { count: load.itemIds.length })}</span>
+                        </div>
+                        <div className="truck-load-marks">
+                          {load.itemIds.map(id => itemById.get(id)?.assembly_mark).join(', ')}
+                        </div>
+                        {load.oversizeItemIds.length > 0 && (
+                          <div className="truck-load-warning">
+                            <FiAlertTriangle /> {t('truckLoad.unpackable', {
+                              marks: load.oversizeItemIds.map(id => itemById.get(id)?.assembly_mark).join(', ')
+                            })}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button className="cancel-btn" onClick={onClose}>
+            {t('common:buttons.close')}
+          </button>
+          {date && (
+            <button className="submit-btn" onClick={handleApply} disabled={saving || !plan || plan.loads.length === 0}>
+              {t('truckLoad.apply')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
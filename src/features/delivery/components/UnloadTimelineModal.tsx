@@ -0,0 +1,235 @@
+import { useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FiX, FiChevronLeft, FiChevronRight, FiAlertTriangle } from 'react-icons/fi';
+import { DeliveryVehicle } from '../../../supabase';
+import {
+  buildTimelineLanes,
+  CapacityConflict,
+  findCapacityConflicts,
+  findUnregisteredResources,
+  formatMinutes,
+  getUnloadSlots,
+  snapMinutes,
+  UnloadResourceKey
+} from '../utils/unloadTimeline';
+
+interface UnloadTimelineModalProps {
+  show: boolean;
+  date: string;
+  dates: string[]; // Dates with vehicles, for day navigation
+  vehicles: DeliveryVehicle[];
+  capacity: Partial<Record<UnloadResourceKey, number>>;
+  formatDate: (date: string) => string;
+  onDateChange: (date: string) => void;
+  onReschedule: (vehicleId: string, time: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Visible day range (extended when slots fall outside)
+const DAY_START = 6 * 60;
+const DAY_END = 20 * 60;
+
+const ROW_HEIGHT = 26;
+
+interface DragState {
+  vehicleId: string;
+  startX: number;
+  trackWidth: number;
+  delta: number; // Minutes
+}
+
+export function UnloadTimelineModal({
+  show,
+  date,
+  dates,
+  vehicles,
+  capacity,
+  formatDate,
+  onDateChange,
+  onReschedule,
+  onClose
+}: UnloadTimelineModalProps) {
+  const { t } = useTranslation('delivery');
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  const dateVehicles = useMemo(() => vehicles.filter(v => v.scheduled_date === date), [vehicles, date]);
+  const slots = useMemo(() => getUnloadSlots(dateVehicles), [dateVehicles]);
+  const lanes = useMemo(() => buildTimelineLanes(slots, capacity), [slots, capacity]);
+  const conflicts = useMemo(() => findCapacityConflicts(slots, capacity), [slots, capacity]);
+  const unregistered = useMemo(() => findUnregisteredResources(slots, capacity), [slots, capacity]);
+  const unscheduled = useMemo(() => dateVehicles.filter(v => !slots.some(s => s.vehicle.id === v.id)), [dateVehicles, slots]);
+  const withoutResources = useMemo(() => slots.filter(s => Object.keys(s.demand).length === 0), [slots]);
+
+  if (!show) return null;
+
+  const rangeStart = Math.min(DAY_START, ...slots.map(s => Math.floor(s.start / 60) * 60));
+  const rangeEnd = Math.max(DAY_END, ...slots.map(s => Math.ceil(s.end / 60) * 60));
+  const span = rangeEnd - rangeStart;
+  const toPercent = (minutes: number) => ((minutes - rangeStart) / span) * 100;
+  const hours = Array.from({ length: span / 60 + 1 }, (_, i) => rangeStart + i * 60);
+
+  const vehicleCode = (id: string) => dateVehicles.find(v => v.id === id)?.vehicle_code || '';
+  const dateIndex = dates.indexOf(date);
+
+  const handlePointerDown = (e: React.PointerEvent, vehicleId: string) => {
+    if (!trackRef.current) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ vehicleId, startX: e.clientX, trackWidth: trackRef.current.getBoundingClientRect().width, delta: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const delta = snapMinutes(((e.clientX - drag.startX) / drag.trackWidth) * span);
+    if (delta !== drag.delta) setDrag({ ...drag, delta });
+  };
+
+  const handlePointerUp = async () => {
+    if (!drag) return;
+    const { vehicleId, delta } = drag;
+    setDrag(null);
+    const slot = slots.find(s => s.vehicle.id === vehicleId);
+    if (!slot || delta === 0) return;
+    const newStart = Math.min(Math.max(slot.start + delta, 0), 24 * 60 - 15);
+    await onReschedule(vehicleId, formatMinutes(newStart));
+  };
+
+  const conflictLabel = (c: CapacityConflict) => t('unloadTimeline.conflict', {
+    resource: t(`unloadTimeline.lanes.${c.key}`),
+    start: formatMinutes(c.start),
+    end: formatMinutes(c.end),
+    demand: c.demand,
+    capacity: c.capacity,
+    vehicles: c.vehicleIds.map(vehicleCode).join(', ')
+  });
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal unload-timeline-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <div className="unload-timeline-nav">
+            <button
+              className="close-btn"
+              onClick={() => onDateChange(dates[dateIndex - 1])}
+              disabled={dateIndex <= 0}
+            >
+              <FiChevronLeft />
+            </button>
+            <h2>{t('unloadTimeline.title', { date: formatDate(date) })}</h2>
+            <button
+              className="close-btn"
+              onClick={() => onDateChange(dates[dateIndex + 1])}
+              disabled={dateIndex === -1 || dateIndex >= dates.length - 1}
+            >
+              <FiChevronRight />
+            </button>
+          </div>
+          <button className="close-btn" onClick={onClose}>
+            <FiX />
+          </button>
+        </div>
+        <div className="modal-body">
+          {lanes.length === 0 ? (
+            <div className="unload-timeline-empty">{t('unloadTimeline.noSlots')}</div>
+          ) : (
+            <div className="unload-timeline">
+              {/* Hour scale */}
+              <div className="unload-timeline-row">
+                <div className="unload-timeline-label" />
+                <div className="unload-timeline-scale" ref={trackRef}>
+                  {hours.map(h => (
+                    <span key={h} style={{ left: `${toPercent(h)}%` }}>{String(h / 60).padStart(2, '0')}</span>
+                  ))}
+                </div>
+              </div>
+
+              {lanes.map(lane => (
+                <div key={lane.key} className="unload-timeline-row">
+                  <div className="unload-timeline-label">
+                    <span>{t(`unloadTimeline.lanes.${lane.key}`)}</span>
+                    <span className="lane-capacity">
+                      {lane.capacity === null ? t('unloadTimeline.noCapacity') : t('unloadTimeline.capacity', { count: lane.capacity })}
+                    </span>
+                  </div>
+                  <div className="unload-timeline-track" style={{ height: lane.rows * ROW_HEIGHT + 4 }}>
+                    {hours.map(h => (
+                      <div key={h} className="hour-line" style={{ left: `${toPercent(h)}%` }} />
+                    ))}
+                    {conflicts.filter(c => c.key === lane.key).map((c, i) => (
+                      <div
+                        key={i}
+                        className="conflict-band"
+                        style={{ left: `${toPercent(c.start)}%`, width: `${toPercent(c.end) - toPercent(c.start)}%` }}
+                        title={conflictLabel(c)}
+                      />
+                    ))}
+                    {lane.blocks.map(block => {
+                      const delta = drag?.vehicleId === block.slot.vehicle.id ? drag.delta : 0;
+                      const start = block.slot.start + delta;
+                      const end = block.slot.end + delta;
+                      const inConflict = conflicts.some(c => c.key === lane.key && c.vehicleIds.includes(block.slot.vehicle.id));
+                      return (
+                        <div
+                          key={block.slot.vehicle.id}
+                          className={`unload-block ${inConflict ? 'conflict' : ''} ${delta !== 0 ? 'dragging' : ''}`}
+                          style={{
+                            left: `${toPercent(start)}%`,
+                            width: `${toPercent(end) - toPercent(start)}%`,
+                            top: block.row * ROW_HEIGHT + 2
+                          }}
+                          title={`${block.slot.vehicle.vehicle_code} ${formatMinutes(start)}–${formatMinutes(end)}`}
+                          onPointerDown={(e) => handlePointerDown(e, block.slot.vehicle.id)}
+                          onPointerMove={handlePointerMove}
+                          onPointerUp={handlePointerUp}
+                        >
+                          {block.slot.vehicle.vehicle_code}
+                          {block.count > 1 && <span className="block-count">×{block.count}</span>}
+                          {delta !== 0 && <span className="block-time">{formatMinutes(start)}</span>}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {conflicts.length > 0 && (
+            <div className="unload-timeline-conflicts">
+              {conflicts.map((c, i) => (
+                <div key={i} className="unload-conflict">
+                  <FiAlertTriangle size={12} /> {conflictLabel(c)}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {unregistered.length > 0 && (
+            <div className="unload-timeline-unscheduled">
+              {unregistered.map(r => (
+                <div key={r.key}>
+                  {t('unloadTimeline.unregistered', {
+                    resource: t(`unloadTimeline.lanes.${r.key}`),
+                    vehicles: r.vehicleIds.map(vehicleCode).join(', ')
+                  })}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {unscheduled.length > 0 && (
+            <div className="unload-timeline-unscheduled">
+              {t('unloadTimeline.unscheduled', { vehicles: unscheduled.map(v => v.vehicle_code).join(', ') })}
+            </div>
+          )}
+          {withoutResources.length > 0 && (
+            <div className="unload-timeline-unscheduled">
+              {t('unloadTimeline.withoutResources', { vehicles: withoutResources.map(s => s.vehicle.vehicle_code).join(', ') })}
+            </div>
+          )}
+          <div className="unload-timeline-hint">{t('unloadTimeline.dragHint')}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../../../supabase';
+import type { DeliveryItem, DeliveryVehicle, ScheduleItem, ScheduleLock } from '../../../supabase';
+import { fetchActiveScheduleItems } from '../../crane-planning/lift-plan/hooks/useLiftPlanAnalysis';
+import { fetchAllRows } from '../../../utils/supabasePaging';
+import { buildScheduleLockSets, isScheduleDateLocked, ScheduleLockSets } from '../../installation/utils/scheduleLocks';
+import { checkDeliverySequence, isVehicleClosed, SequenceIssue } from '../utils/deliverySequence';
+
+// Installation date change that can be undone (previous state of the moved schedule items)
+interface ScheduleUndoEntry {
+  items: ScheduleItem[];
+  description: string; // Assembly mark of the moved item
+}
+
+const MAX_UNDO_HISTORY = 50;
+
+interface UseDeliverySequenceResult {
+  issues: SequenceIssue[];
+  vehicles: DeliveryVehicle[];
+  scheduleVersionName: string | null;
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  isReceiptConfirmed: (issue: SequenceIssue) => boolean;
+  moveToVehicle: (issue: SequenceIssue, vehicle: DeliveryVehicle, userEmail?: string) => Promise<boolean>;
+  isInstallDateLocked: (date: string) => boolean;
+  pushInstallDate: (issue: SequenceIssue, date: string, userEmail?: string) => Promise<boolean>;
+  undoStack: ScheduleUndoEntry[];
+  undoLastChange: () => Promise<boolean>;
+}
+
+/**
+ * Delivery-before-installation check of the delivery schedule against the active installation schedule.
+ * Installation date changes respect the schedule's day/month locks and can be undone like in the schedule screen.
+ * Like the delivery schedule, items confirmed as received are not re-planned and closed vehicles take no items.
+ */
+export function useDeliverySequence(projectId: string, maxLaydownDays: number): UseDeliverySequenceResult {
+  const [deliveryItems, setDeliveryItems] = useState<DeliveryItem[]>([]);
+  const [scheduleItems, setScheduleItems] = useState<ScheduleItem[]>([]);
+  const [vehicles, setVehicles] = useState<DeliveryVehicle[]>([]);
+  const [confirmedReceivedItemIds, setConfirmedReceivedItemIds] = useState<Set<string>>(new Set());
+  const [scheduleVersionName, setScheduleVersionName] = useState<string | null>(null);
+  const [locks, setLocks] = useState<ScheduleLockSets>({ days: new Set(), months: new Set() });
+  const [undoStack, setUndoStack] = useState<ScheduleUndoEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!projectId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const items = await fetchAllRows<DeliveryItem>(() => supabase
+        .from('trimble_delivery_items')
+        .select('*')
+        .eq('trimble_project_id', projectId));
+
+      const { data: vehicleData, error: vehicleError } = await supabase
+        .from('trimble_delivery_vehicles')
+        .select('*')
+        .eq('trimble_project_id', projectId);
+      if (vehicleError) throw vehicleError;
+
+      const { data: confirmationData, error: confirmationError } = await supabase
+        .from('trimble_arrival_confirmations')
+        .select('item_id')
+        .eq('trimble_project_id', projectId)
+        .eq('status', 'confirmed');
+      if (confirmationError) throw confirmationError;
+
+      const schedule = await fetchActiveScheduleItems(projectId);
+
+      let lockQuery = supabase
+        .from('schedule_locks')
+        .select('*')
+        .eq('trimble_project_id', projectId);
+      lockQuery = schedule.versionId ? lockQuery.eq('version_id', schedule.versionId) : lockQuery.is('version_id', null);
+      const { data: lockData, error: lockError } = await lockQuery;
+      if (lockError) throw lockError;
+
+      setDeliveryItems(items);
+      setVehicles((vehicleData || []) as DeliveryVehicle[]);
+      setConfirmedReceivedItemIds(new Set((confirmationData || []).map(c => c.item_id)));
+      setScheduleItems(schedule.items);
+      setScheduleVersionName(schedule.versionName);
+      setLocks(buildScheduleLockSets((lockData || []) as ScheduleLock[]));
+      console.log(`🔍 Delivery sequence: ${items.length} delivery items, ${schedule.items.length} schedule items`);
+    } catch (err) {
+      console.error('Error loading delivery sequence data:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const issues = useMemo(
+    () => checkDeliverySequence(deliveryItems, scheduleItems, maxLaydownDays),
+    [deliveryItems, scheduleItems, maxLaydownDays]
+  );
+
+  const isReceiptConfirmed = useCallback(
+    (issue: SequenceIssue) => confirmedReceivedItemIds.has(issue.deliveryItem.id),
+    [confirmedReceivedItemIds]
+  );
+
+  // Move the delivery item to the end of another vehicle - refused for received items and closed vehicles
+  const moveToVehicle = useCallback(async (
+    issue: SequenceIssue,
+    vehicle: DeliveryVehicle,
+    userEmail?: string
+  ): Promise<boolean> => {
+    if (isReceiptConfirmed(issue)) {
+      console.warn(`📦 ${issue.assemblyMark}: already confirmed as received`);
+      return false;
+    }
+    if (isVehicleClosed(vehicle)) {
+      console.warn(`🚚 ${vehicle.vehicle_code}: vehicle is ${vehicle.status}`);
+      return false;
+    }
+
+    try {
+      const sortOrder = Math.max(-1, ...deliveryItems.filter(i => i.vehicle_id === vehicle.id).map(i => i.sort_order)) + 1;
+      const { error: updateError } = await supabase
+        .from('trimble_delivery_items')
+        .update({
+          vehicle_id: vehicle.id,
+          scheduled_date: vehicle.scheduled_date,
+          sort_order: sortOrder,
+          updated_by: userEmail,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', issue.deliveryItem.id);
+
+      if (updateError) {
+        console.error('Error moving delivery item:', updateError);
+        setError(updateError.message);
+        return false;
+      }
+
+      // Update local state
+      setDeliveryItems(prev => prev.map(i => i.id === issue.deliveryItem.id
+        ? { ...i, vehicle_id: vehicle.id, scheduled_date: vehicle.scheduled_date, sort_order: sortOrder }
+        : i));
+      console.log(`✅ ${issue.assemblyMark} moved to vehicle ${vehicle.vehicle_code}`);
+      return true;
+    } catch (err) {
+      console.error('Error moving delivery item:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, [deliveryItems, isReceiptConfirmed]);
+
+  const isInstallDateLocked = useCallback(
+    (date: string) => isScheduleDateLocked(locks, date),
+    [locks]
+  );
+
+  // Move the installation date - refused when the current or the new day is locked
+  const pushInstallDate = useCallback(async (
+    issue: SequenceIssue,
+    date: string,
+    userEmail?: string
+  ): Promise<boolean> => {
+    const current = scheduleItems.find(i => i.id === issue.scheduleItem.id) || issue.scheduleItem;
+    if (isInstallDateLocked(date) || (current.scheduled_date && isInstallDateLocked(current.scheduled_date))) {
+      console.warn(`🔒 ${issue.assemblyMark}: installation day is locked`);
+      return false;
+    }
+
+    try {
+      const { error: updateError } = await supabase
+        .from('installation_schedule')
+        .update({
+          scheduled_date: date,
+          updated_by: userEmail
+        })
+        .eq('id', issue.scheduleItem.id);
+
+      if (updateError) {
+        console.error('Error moving installation date:', updateError);
+        setError(updateError.message);
+        return false;
+      }
+
+      // Update local state
+      setScheduleItems(prev => prev.map(i => i.id === issue.scheduleItem.id ? { ...i, scheduled_date: date } : i));
+      setUndoStack(prev => [...prev, { items: [current], description: issue.assemblyMark }].slice(-MAX_UNDO_HISTORY));
+      console.log(`✅ ${issue.assemblyMark} installation moved to ${date}`);
+      return true;
+    } catch (err) {
+      console.error('Error moving installation date:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, [scheduleItems, isInstallDateLocked]);
+
+  // Restore the schedule items of the last installation date change
+  const undoLastChange = useCallback(async (): Promise<boolean> => {
+    const lastState = undoStack[undoStack.length - 1];
+    if (!lastState) return false;
+
+    try {
+      const { error: upsertError } = await supabase
+        .from('installation_schedule')
+        .upsert(lastState.items, { onConflict: 'id' });
+
+      if (upsertError) {
+        console.error('Error undoing installation date change:', upsertError);
+        setError(upsertError.message);
+        return false;
+      }
+
+      // Update local state
+      const restored = new Map(lastState.items.map(i => [i.id, i]));
+      setScheduleItems(prev => prev.map(i => restored.get(i.id) || i));
+      setUndoStack(prev => prev.slice(0, -1));
+      console.log(`↩️ Undone: ${lastState.description}`);
+      return true;
+    } catch (err) {
+      console.error('Error undoing installation date change:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, [undoStack]);
+
+  return {
+    issues,
+    vehicles,
+    scheduleVersionName,
+    loading,
+    error,
+    refetch: fetchData,
+    isReceiptConfirmed,
+    moveToVehicle,
+    isInstallDateLocked,
+    pushInstallDate,
+    undoStack,
+    undoLastChange
+  };
+}
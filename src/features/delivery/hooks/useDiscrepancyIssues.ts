@@ -0,0 +1,309 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../../../supabase';
+import type {
+  ArrivalDiscrepancy,
+  ArrivalPhoto,
+  DeliveryItem,
+  DiscrepancyType,
+  Issue
+} from '../../../supabase';
+import {
+  buildIssueAttachmentRows,
+  buildIssueObjectRows,
+  DEFAULT_AUTO_ISSUE_TYPES,
+  DISCREPANCY_ISSUE_PRIORITY,
+  findOpenDiscrepancy,
+  selectDiscrepancyPhotos
+} from '../utils/discrepancyIssues';
+
+export type LinkedIssue = Pick<Issue, 'id' | 'issue_number' | 'status'>;
+
+interface UseDiscrepancyIssuesParams {
+  projectId: string;
+  userEmail: string;
+  userName?: string;
+  items: DeliveryItem[];
+  photos: ArrivalPhoto[];
+  getVehicleCode: (arrivedVehicleId: string) => string;
+  // Localized issue title and description for a discrepancy
+  formatIssue: (discrepancy: ArrivalDiscrepancy, item: DeliveryItem | undefined, vehicleCode: string) => {
+    title: string;
+    description: string;
+  };
+}
+
+interface RecordDiscrepancyInput {
+  arrivedVehicleId: string;
+  itemId?: string;
+  type: DiscrepancyType;
+  description: string;
+}
+
+/**
+ * Arrival discrepancies with their linked production issues.
+ * Resolution status is synchronised both ways by database triggers.
+ */
+export function useDiscrepancyIssues({
+  projectId,
+  userEmail,
+  userName,
+  items,
+  photos,
+  getVehicleCode,
+  formatIssue
+}: UseDiscrepancyIssuesParams) {
+  const [discrepancies, setDiscrepancies] = useState<ArrivalDiscrepancy[]>([]);
+  const [issues, setIssues] = useState<Map<string, LinkedIssue>>(new Map());
+  const [autoIssueTypes, setAutoIssueTypes] = useState<DiscrepancyType[]>(DEFAULT_AUTO_ISSUE_TYPES);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDiscrepancies = useCallback(async () => {
+    if (!projectId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('trimble_arrival_discrepancies')
+        .select('*')
+        .eq('trimble_project_id', projectId)
+        .order('created_at', { ascending: false });
+      if (fetchError) throw fetchError;
+      setDiscrepancies(data || []);
+
+      const issueIds = [...new Set((data || []).map(d => d.issue_id).filter(Boolean))] as string[];
+      if (issueIds.length > 0) {
+        const { data: issueData, error: issueError } = await supabase
+          .from('issues')
+          .select('id, issue_number, status')
+          .in('id', issueIds);
+        if (issueError) throw issueError;
+        setIssues(new Map((issueData || []).map(i => [i.id, i as LinkedIssue])));
+      } else {
+        setIssues(new Map());
+      }
+    } catch (err) {
+      console.error('Error loading arrival discrepancies:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  const loadSettings = useCallback(async () => {
+    if (!projectId) return;
+    const { data, error: fetchError } = await supabase
+      .from('trimble_arrival_issue_settings')
+      .select('auto_issue_types')
+      .eq('trimble_project_id', projectId)
+      .maybeSingle();
+    if (fetchError) {
+      console.error('Error loading arrival issue settings:', fetchError);
+      return;
+    }
+    setAutoIssueTypes(data?.auto_issue_types || DEFAULT_AUTO_ISSUE_TYPES);
+  }, [projectId]);
+
+  useEffect(() => {
+    loadDiscrepancies();
+    loadSettings();
+  }, [loadDiscrepancies, loadSettings]);
+
+  const saveAutoIssueTypes = useCallback(async (types: DiscrepancyType[]): Promise<boolean> => {
+    try {
+      const { error: upsertError } = await supabase
+        .from('trimble_arrival_issue_settings')
+        .upsert({
+          trimble_project_id: projectId,
+          auto_issue_types: types,
+          updated_by: userEmail,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'trimble_project_id' });
+      if (upsertError) throw upsertError;
+
+      // Update local state
+      setAutoIssueTypes(types);
+      return true;
+    } catch (err) {
+      console.error('Error saving arrival issue settings:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, [projectId, userEmail]);
+
+  /**
+   * Create the production issue of a discrepancy with the element GUIDs, arrival photos and vehicle reference
+   */
+  const createIssue = useCallback(async (discrepancy: ArrivalDiscrepancy): Promise<LinkedIssue | null> => {
+    if (discrepancy.issue_id) return issues.get(discrepancy.issue_id) || null;
+
+    try {
+      const item = discrepancy.item_id ? items.find(i => i.id === discrepancy.item_id) : undefined;
+      const vehicleCode = getVehicleCode(discrepancy.arrived_vehicle_id);
+      const { title, description } = formatIssue(discrepancy, item, vehicleCode);
+
+      const { data: newIssue, error: issueError } = await supabase
+        .from('issues')
+        .insert({
+          trimble_project_id: projectId,
+          title,
+          description,
+          status: 'nonconformance',
+          priority: DISCREPANCY_ISSUE_PRIORITY[discrepancy.discrepancy_type],
+          source: 'delivery',
+          fixed_category: 'production',
+          tags: ['arrival', discrepancy.discrepancy_type],
+          custom_fields: {
+            arrival_discrepancy_id: discrepancy.id,
+            arrived_vehicle_id: discrepancy.arrived_vehicle_id,
+            vehicle_code: vehicleCode
+          },
+          reported_by: userEmail,
+          reported_by_name: userName
+        })
+        .select('id, issue_number, status')
+        .single();
+      if (issueError) throw issueError;
+
+      const objectRows = buildIssueObjectRows(newIssue.id, item ? [item] : [], userEmail);
+      if (objectRows.length > 0) {
+        const { error: objectsError } = await supabase.from('issue_objects').insert(objectRows);
+        if (objectsError) console.error('Error linking issue objects:', objectsError);
+      }
+
+      const attachmentRows = buildIssueAttachmentRows(
+        newIssue.id,
+        selectDiscrepancyPhotos(photos, discrepancy.arrived_vehicle_id, discrepancy.item_id),
+        userEmail,
+        userName
+      );
+      if (attachmentRows.length > 0) {
+        const { error: attachmentsError } = await supabase.from('issue_attachments').insert(attachmentRows);
+        if (attachmentsError) console.error('Error attaching arrival photos:', attachmentsError);
+      }
+
+      const { error: linkError } = await supabase
+        .from('trimble_arrival_discrepancies')
+        .update({ issue_id: newIssue.id })
+        .eq('id', discrepancy.id);
+      if (linkError) throw linkError;
+
+      // Update local state
+      setDiscrepancies(prev => prev.map(d => d.id === discrepancy.id ? { ...d, issue_id: newIssue.id } : d));
+      setIssues(prev => new Map(prev).set(newIssue.id, newIssue as LinkedIssue));
+      console.log(`✅ Issue ${newIssue.issue_number} created for discrepancy ${discrepancy.id}`);
+      return newIssue as LinkedIssue;
+    } catch (err) {
+      console.error('Error creating issue for discrepancy:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return null;
+    }
+  }, [issues, items, photos, projectId, userEmail, userName, getVehicleCode, formatIssue]);
+
+  /**
+   * Record a discrepancy (an open one of the same type for the item is reused) and
+   * create its issue when the type is set to do so
+   */
+  const recordDiscrepancy = useCallback(async ({
+    arrivedVehicleId,
+    itemId,
+    type,
+    description
+  }: RecordDiscrepancyInput): Promise<ArrivalDiscrepancy | null> => {
+    try {
+      let discrepancy = itemId ? findOpenDiscrepancy(discrepancies, arrivedVehicleId, itemId, type) : undefined;
+
+      if (!discrepancy) {
+        const { data, error: insertError } = await supabase
+          .from('trimble_arrival_discrepancies')
+          .insert({
+            trimble_project_id: projectId,
+            arrived_vehicle_id: arrivedVehicleId,
+            item_id: itemId || null,
+            discrepancy_type: type,
+            description,
+            is_resolved: false,
+            created_by: userEmail
+          })
+          .select()
+          .single();
+        if (insertError) throw insertError;
+        discrepancy = data as ArrivalDiscrepancy;
+
+        // Update local state
+        setDiscrepancies(prev => [discrepancy!, ...prev]);
+      }
+
+      if (autoIssueTypes.includes(type) && !discrepancy.issue_id) {
+        const issue = await createIssue(discrepancy);
+        if (issue) discrepancy = { ...discrepancy, issue_id: issue.id };
+      }
+      return discrepancy;
+    } catch (err) {
+      console.error('Error recording discrepancy:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return null;
+    }
+  }, [discrepancies, autoIssueTypes, projectId, userEmail, createIssue]);
+
+  /**
+   * Resolve or reopen a discrepancy - the linked issue follows through the database trigger
+   */
+  const setResolved = useCallback(async (
+    discrepancy: ArrivalDiscrepancy,
+    resolved: boolean,
+    notes?: string
+  ): Promise<boolean> => {
+    try {
+      const { error: updateError } = await supabase
+        .from('trimble_arrival_discrepancies')
+        .update({
+          is_resolved: resolved,
+          resolved_at: resolved ? new Date().toISOString() : null,
+          resolved_by: resolved ? userEmail : null,
+          resolution_notes: resolved ? (notes || null) : discrepancy.resolution_notes || null
+        })
+        .eq('id', discrepancy.id);
+      if (updateError) throw updateError;
+
+      // Reload to pick up the issue status changed by the trigger
+      await loadDiscrepancies();
+      return true;
+    } catch (err) {
+      console.error('Error resolving discrepancy:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, [userEmail, loadDiscrepancies]);
+
+  /**
+   * Resolve the open discrepancy of an item (e.g. a missing item that was confirmed after all)
+   */
+  const resolveOpenDiscrepancy = useCallback(async (
+    arrivedVehicleId: string,
+    itemId: string,
+    type: DiscrepancyType,
+    notes: string
+  ): Promise<boolean> => {
+    const open = findOpenDiscrepancy(discrepancies, arrivedVehicleId, itemId, type);
+    if (!open) return true;
+    return setResolved(open, true, notes);
+  }, [discrepancies, setResolved]);
+
+  const openCount = useMemo(() => discrepancies.filter(d => !d.is_resolved).length, [discrepancies]);
+
+  return {
+    discrepancies,
+    issues,
+    autoIssueTypes,
+    openCount,
+    loading,
+    error,
+    refetch: loadDiscrepancies,
+    saveAutoIssueTypes,
+    createIssue,
+    recordDiscrepancy,
+    setResolved,
+    resolveOpenDiscrepancy
+  };
+}
@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { supabase } from '../../../supabase';
+import type { DeliveryItem, DeliveryVehicle, DeliveryVehicleProfile, DeliveryVehicleType } from '../../../supabase';
+import { getElementBoundsByGuid } from '../../crane-planning/lift-plan/utils/elementPositions';
+import { fetchActiveScheduleItems } from '../../crane-planning/lift-plan/hooks/useLiftPlanAnalysis';
+import {
+  checkTruckLoad,
+  getTransportDimensions,
+  getVehicleCapacity,
+  toTruckLoadItem,
+  TransportDimensions,
+  TruckLoadCheck,
+  VehicleCapacity,
+} from '../utils/truckLoad';
+
+interface UseTruckLoadsParams {
+  api: any;
+  projectId: string;
+  items: DeliveryItem[];
+  vehicles: DeliveryVehicle[];
+  userEmail?: string;
+}
+
+/**
+ * Installation sequence position of each element GUID (active installation schedule)
+ */
+export async function fetchInstallationSequence(projectId: string): Promise<Map<string, number>> {
+  const { items } = await fetchActiveScheduleItems(projectId);
+  const sequence = new Map<string, number>();
+  items.forEach((item, index) => {
+    const guid = item.guid_ifc || item.guid;
+    if (guid && !sequence.has(guid)) sequence.set(guid, index);
+  });
+  return sequence;
+}
+
+/**
+ * Truck load checks: capacity profiles per vehicle type and item dimensions from the model
+ */
+export function useTruckLoads({ api, projectId, items, vehicles, userEmail }: UseTruckLoadsParams) {
+  const [profiles, setProfiles] = useState<DeliveryVehicleProfile[]>([]);
+  const [dimensions, setDimensions] = useState<Map<string, TransportDimensions>>(new Map());
+  const [dimensionsLoading, setDimensionsLoading] = useState(false);
+  const resolvedGuidsRef = useRef<Set<string>>(new Set());
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('delivery_vehicle_profiles')
+        .select('*')
+        .eq('trimble_project_id', projectId);
+      if (error) throw error;
+      setProfiles(data || []);
+    } catch (e: any) {
+      console.error('Error loading vehicle profiles:', e);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  // Resolve dimensions of items not looked up yet (only GUIDs found in loaded models get one)
+  const guidKey = useMemo(() => [...new Set(items.map(i => i.guid_ifc || i.guid).filter(Boolean))].sort().join(','), [items]);
+  useEffect(() => {
+    if (!api || !guidKey) return;
+    const guids = guidKey.split(',').filter(g => !resolvedGuidsRef.current.has(g));
+    if (guids.length === 0) return;
+
+    let cancelled = false;
+    setDimensionsLoading(true);
+    getElementBoundsByGuid(api, guids)
+      .then(bounds => {
+        if (cancelled) return;
+        guids.forEach(g => resolvedGuidsRef.current.add(g));
+        setDimensions(prev => {
+          const next = new Map(prev);
+          for (const [guid, b] of bounds) next.set(guid, getTransportDimensions(b));
+          return next;
+        });
+        console.log(`🔍 Truck loads: dimensions for ${bounds.size}/${guids.length} elements`);
+      })
+      .catch(e => console.error('Error resolving element dimensions:', e))
+      .finally(() => !cancelled && setDimensionsLoading(false));
+
+    return () => { cancelled = true; };
+  }, [api, guidKey]);
+
+  const checksByVehicle = useMemo(() => {
+    const itemsByVehicle = new Map<string, DeliveryItem[]>();
+    for (const item of items) {
+      if (!item.vehicle_id) continue;
+      const list = itemsByVehicle.get(item.vehicle_id) || [];
+      list.push(item);
+      itemsByVehicle.set(item.vehicle_id, list);
+    }
+
+    const checks = new Map<string, TruckLoadCheck>();
+    for (const vehicle of vehicles) {
+      const vehicleItems = (itemsByVehicle.get(vehicle.id) || []).map(i => toTruckLoadItem(i, dimensions));
+      checks.set(vehicle.id, checkTruckLoad(vehicleItems, getVehicleCapacity(vehicle.vehicle_type, profiles)));
+    }
+    return checks;
+  }, [items, vehicles, profiles, dimensions]);
+
+  const saveProfile = useCallback(async (vehicleType: DeliveryVehicleType, capacity: VehicleCapacity) => {
+    try {
+      const { data, error } = await supabase
+        .from('delivery_vehicle_profiles')
+        .upsert({
+          trimble_project_id: projectId,
+          vehicle_type: vehicleType,
+          max_payload_kg: capacity.maxPayloadKg,
+          deck_length_m: capacity.deckLengthM,
+          deck_width_m: capacity.deckWidthM,
+          max_height_m: capacity.maxHeightM,
+          updated_by: userEmail || null,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'trimble_project_id,vehicle_type' })
+        .select()
+        .single();
+      if (error) throw error;
+      setProfiles(prev => [...prev.filter(p => p.vehicle_type !== vehicleType), data]);
+      return true;
+    } catch (e: any) {
+      console.error('Error saving vehicle profile:', e);
+      return false;
+    }
+  }, [projectId, userEmail]);
+
+  return {
+    profiles,
+    dimensions, dimensionsLoading,
+    checksByVehicle,
+    loadProfiles, saveProfile,
+  };
+}
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../../../supabase';
+import type { DeliveryVehicle } from '../../../supabase';
+import {
+  CapacityConflict,
+  findCapacityConflicts,
+  getUnloadCapacity,
+  getUnloadSlots,
+  UnloadResourceKey,
+} from '../utils/unloadTimeline';
+
+interface UseUnloadTimelineParams {
+  projectId: string;
+  vehicles: DeliveryVehicle[];
+}
+
+/**
+ * Unload capacity from project resources and capacity conflicts of each delivery date
+ */
+export function useUnloadTimeline({ projectId, vehicles }: UseUnloadTimelineParams) {
+  const [capacity, setCapacity] = useState<Partial<Record<UnloadResourceKey, number>>>({});
+
+  const loadCapacity = useCallback(async () => {
+    if (!projectId) return;
+    try {
+      const { data, error } = await supabase
+        .from('project_resources')
+        .select('resource_type, is_active')
+        .eq('trimble_project_id', projectId);
+      if (error) throw error;
+      setCapacity(getUnloadCapacity(data || []));
+    } catch (e: any) {
+      console.error('Error loading unload capacity:', e);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadCapacity();
+  }, [loadCapacity]);
+
+  const conflictsByDate = useMemo(() => {
+    const result = new Map<string, CapacityConflict[]>();
+    const vehiclesByDate = new Map<string, DeliveryVehicle[]>();
+    for (const vehicle of vehicles) {
+      if (!vehicle.scheduled_date) continue;
+      const list = vehiclesByDate.get(vehicle.scheduled_date) || [];
+      list.push(vehicle);
+      vehiclesByDate.set(vehicle.scheduled_date, list);
+    }
+
+    for (const [date, dateVehicles] of vehiclesByDate) {
+      const conflicts = findCapacityConflicts(getUnloadSlots(dateVehicles), capacity);
+      if (conflicts.length > 0) result.set(date, conflicts);
+    }
+    return result;
+  }, [vehicles, capacity]);
+
+  return {
+    capacity,
+    conflictsByDate,
+    loadCapacity,
+  };
+}
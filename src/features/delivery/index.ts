@@ -7,3 +7,11 @@ export { useDeliveryImportExport } from './hooks/useDeliveryImportExport';
 export { useDeliveryCalendar } from './hooks/useDeliveryCalendar';
 export { DeliveryToolbar } from './components/DeliveryToolbar';
 export { FactoryModal } from './components/FactoryModal';
+export { useTruckLoads } from './hooks/useTruckLoads';
+export { TruckLoadModal } from './components/TruckLoadModal';
+export { useDeliverySequence } from './hooks/useDeliverySequence';
+export { DeliverySequenceModal } from './components/DeliverySequenceModal';
+export { useUnloadTimeline } from './hooks/useUnloadTimeline';
+export { UnloadTimelineModal } from './components/UnloadTimelineModal';
+export { useDiscrepancyIssues } from './hooks/useDiscrepancyIssues';
+export { DiscrepancyIssuesModal } from './components/DiscrepancyIssuesModal';
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { checkDeliverySequence, findTargetVehicle, isVehicleClosed } from './deliverySequence';
+import type { DeliveryItem, DeliveryVehicle, ScheduleItem } from '../../../supabase';
+
+const deliveryItem = (guid: string, date: string | null, vehicleId = 'v1') =>
+  ({ id: `d-${guid}`, guid, assembly_mark: guid.toUpperCase(), scheduled_date: date, vehicle_id: vehicleId }) as DeliveryItem;
+
+const scheduleItem = (guid: string, date: string) =>
+  ({ id: `s-${guid}-${date}`, guid, assembly_mark: guid.toUpperCase(), scheduled_date: date }) as ScheduleItem;
+
+const vehicle = (id: string, date: string, factoryId = 'f1', status = 'planned') =>
+  ({ id, factory_id: factoryId, scheduled_date: date, status }) as DeliveryVehicle;
+
+describe('deliverySequence', () => {
+  it('flags installs before delivery and long laydowns, late deliveries first', () => {
+    const issues = checkDeliverySequence(
+      [
+        deliveryItem('a', '2026-03-10'),
+        deliveryItem('b', '2026-03-01'),
+        deliveryItem('c', '2026-03-05'),
+        deliveryItem('d', null),
+        deliveryItem('e', '2026-03-05')
+      ],
+      [
+        scheduleItem('a', '2026-03-12'),
+        scheduleItem('a', '2026-03-08'), // Earliest installation date counts
+        scheduleItem('b', '2026-03-20'),
+        scheduleItem('c', '2026-03-05'),
+        scheduleItem('d', '2026-03-05')
+      ],
+      14
+    );
+
+    expect(issues.map(i => [i.assemblyMark, i.type, i.laydownDays])).toEqual([
+      ['A', 'late_delivery', -2],
+      ['B', 'early_delivery', 19]
+    ]);
+    expect(issues[0].scheduleItem.scheduled_date).toBe('2026-03-08');
+  });
+
+  it('picks the latest planned vehicle of the same factory before installation', () => {
+    const [issue] = checkDeliverySequence([deliveryItem('a', '2026-03-10')], [scheduleItem('a', '2026-03-08')]);
+    const vehicles = [
+      vehicle('v1', '2026-03-10'),
+      vehicle('v2', '2026-03-04'),
+      vehicle('v3', '2026-03-07', 'f2'),
+      vehicle('v4', '2026-03-08', 'f1', 'loading'),
+      vehicle('v5', '2026-03-09')
+    ];
+
+    expect(findTargetVehicle(issue, vehicles)?.id).toBe('v2');
+    // Never another factory's vehicle
+    expect(findTargetVehicle(issue, vehicles.filter(v => v.id !== 'v2'))).toBeNull();
+    expect(findTargetVehicle(issue, [vehicles[0], vehicle('v6', '2026-02-01')])).toBeNull();
+    // Factory unknown without a current vehicle
+    expect(findTargetVehicle(issue, vehicles.filter(v => v.id !== 'v1'))).toBeNull();
+  });
+
+  it('closes vehicles from arrival on', () => {
+    expect(isVehicleClosed(vehicle('v1', '2026-03-10', 'f1', 'transit'))).toBe(false);
+    expect(isVehicleClosed(vehicle('v1', '2026-03-10', 'f1', 'arrived'))).toBe(true);
+    expect(isVehicleClosed(vehicle('v1', '2026-03-10', 'f1', 'cancelled'))).toBe(true);
+  });
+});
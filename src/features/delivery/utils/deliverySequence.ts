@@ -0,0 +1,107 @@
+import type { DeliveryItem, DeliveryVehicle, DeliveryVehicleStatus, ScheduleItem } from '../../../supabase';
+import { daysBetween } from '../../installation/utils/scheduleVariance';
+
+/**
+ * Delivery-before-installation validator - cross-checks the delivery schedule against
+ * the installation schedule per element GUID.
+ */
+
+export type SequenceIssueType =
+  | 'late_delivery'   // Installed before it is delivered
+  | 'early_delivery'; // Delivered more than the allowed days before installation (laydown pressure)
+
+// Default max days an element may wait on site before installation
+export const DEFAULT_MAX_LAYDOWN_DAYS = 14;
+
+export interface SequenceIssue {
+  type: SequenceIssueType;
+  guid: string;
+  assemblyMark: string;
+  deliveryItem: DeliveryItem;
+  scheduleItem: ScheduleItem;
+  deliveryDate: string;
+  installDate: string;
+  laydownDays: number; // installDate - deliveryDate (negative = installed before delivery)
+}
+
+const guidKey = (row: { guid?: string | null; guid_ifc?: string | null }) =>
+  (row.guid_ifc || row.guid || '').toLowerCase();
+
+/**
+ * Every element with both dates whose delivery is after installation or too far ahead of it.
+ * Late deliveries first, then by installation date.
+ */
+export function checkDeliverySequence(
+  deliveryItems: DeliveryItem[],
+  scheduleItems: ScheduleItem[],
+  maxLaydownDays: number = DEFAULT_MAX_LAYDOWN_DAYS
+): SequenceIssue[] {
+  // Earliest installation date per GUID
+  const installByGuid = new Map<string, ScheduleItem>();
+  for (const item of scheduleItems) {
+    const key = guidKey(item);
+    if (!key || !item.scheduled_date) continue;
+    const existing = installByGuid.get(key);
+    if (!existing || item.scheduled_date < existing.scheduled_date) installByGuid.set(key, item);
+  }
+
+  const issues: SequenceIssue[] = [];
+  for (const deliveryItem of deliveryItems) {
+    const scheduleItem = installByGuid.get(guidKey(deliveryItem));
+    if (!scheduleItem || !deliveryItem.scheduled_date) continue;
+
+    const laydownDays = daysBetween(deliveryItem.scheduled_date, scheduleItem.scheduled_date);
+    const type: SequenceIssueType | null =
+      laydownDays < 0 ? 'late_delivery' : laydownDays > maxLaydownDays ? 'early_delivery' : null;
+    if (!type) continue;
+
+    issues.push({
+      type,
+      guid: deliveryItem.guid_ifc || deliveryItem.guid,
+      assemblyMark: deliveryItem.assembly_mark,
+      deliveryItem,
+      scheduleItem,
+      deliveryDate: deliveryItem.scheduled_date,
+      installDate: scheduleItem.scheduled_date,
+      laydownDays
+    });
+  }
+
+  return issues.sort((a, b) =>
+    (a.type === b.type ? 0 : a.type === 'late_delivery' ? -1 : 1) ||
+    a.installDate.localeCompare(b.installDate) ||
+    a.assemblyMark.localeCompare(b.assemblyMark)
+  );
+}
+
+// Vehicles past arrival (or cancelled) take no more items
+const CLOSED_VEHICLE_STATUSES: DeliveryVehicleStatus[] = ['arrived', 'unloading', 'completed', 'cancelled'];
+
+export function isVehicleClosed(vehicle: DeliveryVehicle): boolean {
+  return CLOSED_VEHICLE_STATUSES.includes(vehicle.status);
+}
+
+/**
+ * Best vehicle to fix an issue: the latest planned vehicle of the same factory arriving on or before
+ * the installation date (and not earlier than the laydown window). Null if none fits or the item
+ * has no vehicle (factory unknown) - elements are never moved to another factory's vehicle.
+ */
+export function findTargetVehicle(
+  issue: SequenceIssue,
+  vehicles: DeliveryVehicle[],
+  maxLaydownDays: number = DEFAULT_MAX_LAYDOWN_DAYS
+): DeliveryVehicle | null {
+  const currentVehicle = vehicles.find(v => v.id === issue.deliveryItem.vehicle_id);
+  if (!currentVehicle) return null;
+
+  const candidates = vehicles.filter(v =>
+    v.id !== currentVehicle.id &&
+    v.factory_id === currentVehicle.factory_id &&
+    v.status === 'planned' &&
+    v.scheduled_date &&
+    v.scheduled_date <= issue.installDate &&
+    daysBetween(v.scheduled_date, issue.installDate) <= maxLaydownDays
+  );
+
+  return candidates.sort((a, b) => b.scheduled_date!.localeCompare(a.scheduled_date!))[0] || null;
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildIssueAttachmentRows,
+  buildIssueObjectRows,
+  findOpenDiscrepancy,
+  selectDiscrepancyPhotos
+} from './discrepancyIssues';
+import type { ArrivalDiscrepancy, ArrivalPhoto, DeliveryItem } from '../../../supabase';
+
+const photo = (id: string, arrivedVehicleId: string, itemId?: string, type: ArrivalPhoto['photo_type'] = 'item') =>
+  ({ id, arrived_vehicle_id: arrivedVehicleId, item_id: itemId, photo_type: type, file_name: `${id}.jpg`, file_url: `https://x/${id}.jpg` }) as ArrivalPhoto;
+
+describe('discrepancyIssues', () => {
+  it('attaches item photos first, then arrival photos, never other items', () => {
+    const photos = [
+      photo('general', 'a1', undefined, 'delivery_note'),
+      photo('other-item', 'a1', 'i2'),
+      photo('own', 'a1', 'i1'),
+      photo('other-arrival', 'a2', 'i1')
+    ];
+    const selected = selectDiscrepancyPhotos(photos, 'a1', 'i1');
+    expect(selected.map(p => p.id)).toEqual(['own', 'general']);
+
+    const rows = buildIssueAttachmentRows('iss', selected, 'user@x.ee');
+    expect(rows.map(r => [r.file_url, r.attachment_type, r.is_primary_photo])).toEqual([
+      ['https://x/own.jpg', 'photo', true],
+      ['https://x/general.jpg', 'document', false]
+    ]);
+  });
+
+  it('links items with GUIDs and finds the open discrepancy of an item', () => {
+    const rows = buildIssueObjectRows('iss', [
+      { guid_ifc: 'g1', model_id: 'm1', assembly_mark: 'A1' },
+      { assembly_mark: 'A2' }
+    ] as DeliveryItem[], 'user@x.ee');
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ issue_id: 'iss', guid_ifc: 'g1', model_id: 'm1', is_primary: true });
+
+    const discrepancies = [
+      { id: 'd1', arrived_vehicle_id: 'a1', item_id: 'i1', discrepancy_type: 'missing_item', is_resolved: true },
+      { id: 'd2', arrived_vehicle_id: 'a1', item_id: 'i1', discrepancy_type: 'damaged', is_resolved: false }
+    ] as ArrivalDiscrepancy[];
+    expect(findOpenDiscrepancy(discrepancies, 'a1', 'i1')?.id).toBe('d2');
+    expect(findOpenDiscrepancy(discrepancies, 'a1', 'i1', 'missing_item')).toBeUndefined();
+  });
+});
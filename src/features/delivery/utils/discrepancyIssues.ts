@@ -0,0 +1,106 @@
+import type {
+  ArrivalDiscrepancy,
+  ArrivalPhoto,
+  DeliveryItem,
+  DiscrepancyType,
+  IssuePriority,
+  IssueStatus
+} from '../../../supabase';
+
+/**
+ * Arrival discrepancy -> issue linking: priorities, linked model objects and photo attachments
+ * of the issue created for a discrepancy.
+ */
+
+export const DISCREPANCY_TYPES: DiscrepancyType[] = ['missing_item', 'damaged', 'wrong_quantity', 'wrong_vehicle', 'other'];
+
+// Used until the project saves its own settings (same as the database default)
+export const DEFAULT_AUTO_ISSUE_TYPES: DiscrepancyType[] = ['missing_item', 'damaged', 'wrong_quantity'];
+
+export const DISCREPANCY_ISSUE_PRIORITY: Record<DiscrepancyType, IssuePriority> = {
+  missing_item: 'high',
+  damaged: 'high',
+  wrong_quantity: 'medium',
+  wrong_vehicle: 'low',
+  other: 'medium'
+};
+
+export const isIssueResolved = (status: IssueStatus): boolean =>
+  status === 'completed' || status === 'closed';
+
+/**
+ * Open discrepancy of the given type for an item on an arrival (one per item and type)
+ */
+export function findOpenDiscrepancy(
+  discrepancies: ArrivalDiscrepancy[],
+  arrivedVehicleId: string,
+  itemId: string,
+  type?: DiscrepancyType
+): ArrivalDiscrepancy | undefined {
+  return discrepancies.find(d =>
+    !d.is_resolved &&
+    d.arrived_vehicle_id === arrivedVehicleId &&
+    d.item_id === itemId &&
+    (!type || d.discrepancy_type === type)
+  );
+}
+
+/**
+ * issue_objects rows for the discrepancy items (items without an IFC GUID cannot be linked)
+ */
+export function buildIssueObjectRows(issueId: string, items: DeliveryItem[], addedBy: string) {
+  return items
+    .filter(item => item.guid_ifc)
+    .map((item, index) => ({
+      issue_id: issueId,
+      model_id: item.model_id || '',
+      guid_ifc: item.guid_ifc!,
+      guid_ms: item.guid_ms || null,
+      assembly_mark: item.assembly_mark,
+      product_name: item.product_name || null,
+      cast_unit_weight: item.cast_unit_weight || null,
+      cast_unit_position_code: item.cast_unit_position_code || null,
+      is_primary: index === 0,
+      sort_order: index,
+      added_by: addedBy
+    }));
+}
+
+/**
+ * Arrival photos to attach: photos of the item first, then photos of the whole arrival.
+ * Photos of other items are left out.
+ */
+export function selectDiscrepancyPhotos(
+  photos: ArrivalPhoto[],
+  arrivedVehicleId: string,
+  itemId?: string
+): ArrivalPhoto[] {
+  const arrivalPhotos = photos.filter(p => p.arrived_vehicle_id === arrivedVehicleId);
+  const itemPhotos = itemId ? arrivalPhotos.filter(p => p.item_id === itemId) : [];
+  const generalPhotos = arrivalPhotos.filter(p => !p.item_id);
+  return [...itemPhotos, ...generalPhotos];
+}
+
+/**
+ * issue_attachments rows pointing to the already uploaded arrival photos
+ */
+export function buildIssueAttachmentRows(
+  issueId: string,
+  photos: ArrivalPhoto[],
+  uploadedBy: string,
+  uploadedByName?: string
+) {
+  return photos.map((photo, index) => ({
+    issue_id: issueId,
+    file_name: photo.file_name,
+    file_url: photo.file_url,
+    file_size: photo.file_size ?? null,
+    mime_type: photo.mime_type ?? null,
+    attachment_type: photo.photo_type === 'delivery_note' ? 'document' : 'photo',
+    description: photo.description ?? null,
+    uploaded_by: uploadedBy,
+    uploaded_by_name: uploadedByName ?? null,
+    is_primary_photo: index === 0,
+    sort_order: index
+  }));
+}
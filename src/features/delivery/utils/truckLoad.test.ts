@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAutoPackPlan,
+  checkTruckLoad,
+  DEFAULT_VEHICLE_CAPACITY,
+  getTransportDimensions,
+  getVehicleCapacity,
+  packTruckLoads,
+  TruckLoadItem,
+} from './truckLoad';
+import type { DeliveryItem, DeliveryVehicle, DeliveryVehicleProfile } from '../../../supabase';
+
+const item = (id: string, weightKg: number, lengthM = 6): TruckLoadItem => ({
+  id,
+  weightKg,
+  dimensions: { lengthM, widthM: 1.2, heightM: 0.4 }
+});
+
+const trailer = DEFAULT_VEHICLE_CAPACITY.haagis;
+
+describe('truckLoad', () => {
+  it('uses project profiles over the defaults and lays elements flat', () => {
+    const profile = { vehicle_type: 'haagis', max_payload_kg: '20000', deck_length_m: 12, deck_width_m: 2.5, max_height_m: 2.5 } as unknown as DeliveryVehicleProfile;
+    expect(getVehicleCapacity('haagis', [profile]).maxPayloadKg).toBe(20000);
+    expect(getVehicleCapacity(undefined, [])).toEqual(trailer);
+
+    // Standing column: 0.4 x 0.4 x 9 m in the model
+    expect(getTransportDimensions({ min: { x: 0, y: 0, z: 0 }, max: { x: 0.4, y: 0.5, z: 9 } }))
+      .toEqual({ lengthM: 9, widthM: 0.5, heightM: 0.4 });
+  });
+
+  it('flags overloaded and over-length vehicles', () => {
+    const check = checkTruckLoad([item('a', 14000), item('b', 14000, 15), { id: 'c', weightKg: 0, dimensions: null }], trailer);
+    expect(check.totalWeightKg).toBe(28000);
+    expect(check.issues.map(i => i.type)).toEqual(['overweight', 'over_length']);
+    expect(check.issues[1]).toMatchObject({ itemIds: ['b'], value: 15, limit: 13.6 });
+    expect(check.missingDimensions).toBe(1);
+
+    expect(checkTruckLoad([item('a', 10000)], trailer).issues).toEqual([]);
+  });
+
+  it('packs in order onto the fewest vehicles, oversized items travel alone', () => {
+    const items = [item('a', 10000), item('b', 10000), item('c', 6000), item('d', 20000), item('e', 30000), item('f', 5000, 20)];
+    const { loads, unpackable } = packTruckLoads(items, () => trailer);
+    expect(loads.map(l => l.map(i => i.id))).toEqual([['a', 'b'], ['c'], ['d'], ['e'], ['f']]);
+    expect(unpackable.map(i => i.id)).toEqual(['e', 'f']);
+
+    // Second vehicle is an extra-long trailer
+    const mixed = packTruckLoads([item('a', 20000), item('b', 5000, 20)], i => i === 0 ? trailer : DEFAULT_VEHICLE_CAPACITY.extralong);
+    expect(mixed.loads.map(l => l.map(i => i.id))).toEqual([['a'], ['b']]);
+  });
+
+  it('builds an auto-pack plan in installation order, reusing vehicles before adding new ones', () => {
+    const vehicles = [
+      { id: 'v1', factory_id: 'f1', vehicle_type: 'lahti', sort_order: 0 },
+      { id: 'v2', factory_id: 'f1', sort_order: 1 }
+    ] as DeliveryVehicle[];
+    const deliveryItem = (id: string, vehicleId: string, weight: number, sortOrder: number) =>
+      ({ id, guid: `g-${id}`, vehicle_id: vehicleId, cast_unit_weight: String(weight), sort_order: sortOrder }) as DeliveryItem;
+    const items = [
+      deliveryItem('a', 'v1', 15000, 0),
+      deliveryItem('b', 'v1', 15000, 1),
+      deliveryItem('c', 'v2', 15000, 0),
+      deliveryItem('d', 'v2', 1000, 1)
+    ];
+    // Installation order c, a, b; d is not in the schedule
+    const sequence = new Map([['g-c', 0], ['g-a', 1], ['g-b', 2]]);
+
+    const plan = buildAutoPackPlan(vehicles, items, sequence, new Map(), []);
+    expect(plan.loads.map(l => [l.vehicleId, l.vehicleType, l.itemIds])).toEqual([
+      ['v1', 'lahti', ['c']],
+      ['v2', 'haagis', ['a']],
+      [null, 'haagis', ['b', 'd']]
+    ]);
+    expect(plan.loads[2].weightKg).toBe(16000);
+    expect(plan.unusedVehicleIds).toEqual([]);
+  });
+});
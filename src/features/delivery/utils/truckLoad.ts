@@ -0,0 +1,243 @@
+import type { DeliveryItem, DeliveryVehicle, DeliveryVehicleProfile, DeliveryVehicleType } from '../../../supabase';
+
+export interface VehicleCapacity {
+  maxPayloadKg: number;
+  deckLengthM: number;
+  deckWidthM: number;
+  maxHeightM: number;
+}
+
+// Built-in capacity per vehicle type (used when the project has no profile of its own)
+export const DEFAULT_VEHICLE_CAPACITY: Record<DeliveryVehicleType, VehicleCapacity> = {
+  haagis: { maxPayloadKg: 24000, deckLengthM: 13.6, deckWidthM: 2.55, maxHeightM: 2.7 },
+  kinni: { maxPayloadKg: 22000, deckLengthM: 13.6, deckWidthM: 2.45, maxHeightM: 2.6 },
+  lahti: { maxPayloadKg: 24000, deckLengthM: 13.6, deckWidthM: 2.55, maxHeightM: 3.0 },
+  extralong: { maxPayloadKg: 28000, deckLengthM: 25.0, deckWidthM: 2.55, maxHeightM: 2.7 }
+};
+
+// Vehicles without a type are regular trailers
+export const DEFAULT_VEHICLE_TYPE: DeliveryVehicleType = 'haagis';
+
+// Element dimensions as transported: lying on its largest face, longest side along the deck
+export interface TransportDimensions {
+  lengthM: number;
+  widthM: number;
+  heightM: number;
+}
+
+export interface TruckLoadItem {
+  id: string;
+  weightKg: number;
+  dimensions: TransportDimensions | null; // null = not found in the model
+}
+
+const itemGuid = (item: DeliveryItem) => item.guid_ifc || item.guid;
+
+export function toTruckLoadItem(item: DeliveryItem, dimensions: Map<string, TransportDimensions>): TruckLoadItem {
+  return {
+    id: item.id,
+    weightKg: parseFloat(item.cast_unit_weight || '0') || 0,
+    dimensions: dimensions.get(itemGuid(item)) || null
+  };
+}
+
+export type TruckLoadIssueType = 'overweight' | 'over_length' | 'over_width' | 'over_height';
+
+export interface TruckLoadIssue {
+  type: TruckLoadIssueType;
+  itemIds: string[]; // Items causing the issue (all items for overweight)
+  value: number;     // Load weight (kg) or the largest item dimension (m)
+  limit: number;
+}
+
+export interface TruckLoadCheck {
+  totalWeightKg: number;
+  capacity: VehicleCapacity;
+  issues: TruckLoadIssue[];
+  missingDimensions: number; // Items whose dimensions could not be checked
+}
+
+export function getVehicleCapacity(
+  vehicleType: DeliveryVehicleType | null | undefined,
+  profiles: DeliveryVehicleProfile[]
+): VehicleCapacity {
+  const type = vehicleType || DEFAULT_VEHICLE_TYPE;
+  const profile = profiles.find(p => p.vehicle_type === type);
+  if (!profile) return DEFAULT_VEHICLE_CAPACITY[type];
+  return {
+    maxPayloadKg: Number(profile.max_payload_kg),
+    deckLengthM: Number(profile.deck_length_m),
+    deckWidthM: Number(profile.deck_width_m),
+    maxHeightM: Number(profile.max_height_m)
+  };
+}
+
+/**
+ * Transport dimensions from a model bounding box (meters)
+ */
+export function getTransportDimensions(bounds: {
+  min: { x: number; y: number; z: number };
+  max: { x: number; y: number; z: number };
+}): TransportDimensions {
+  const [lengthM, widthM, heightM] = [
+    bounds.max.x - bounds.min.x,
+    bounds.max.y - bounds.min.y,
+    bounds.max.z - bounds.min.z
+  ].sort((a, b) => b - a);
+  return { lengthM, widthM, heightM };
+}
+
+/**
+ * Check a vehicle's load against its capacity: payload and per-item deck dimensions
+ */
+export function checkTruckLoad(items: TruckLoadItem[], capacity: VehicleCapacity): TruckLoadCheck {
+  const totalWeightKg = items.reduce((sum, item) => sum + item.weightKg, 0);
+  const issues: TruckLoadIssue[] = [];
+
+  if (totalWeightKg > capacity.maxPayloadKg) {
+    issues.push({ type: 'overweight', itemIds: items.map(i => i.id), value: totalWeightKg, limit: capacity.maxPayloadKg });
+  }
+
+  const dimensionChecks: { type: TruckLoadIssueType; key: keyof TransportDimensions; limit: number }[] = [
+    { type: 'over_length', key: 'lengthM', limit: capacity.deckLengthM },
+    { type: 'over_width', key: 'widthM', limit: capacity.deckWidthM },
+    { type: 'over_height', key: 'heightM', limit: capacity.maxHeightM }
+  ];
+  for (const { type, key, limit } of dimensionChecks) {
+    const tooLarge = items.filter(i => i.dimensions && i.dimensions[key] > limit);
+    if (tooLarge.length === 0) continue;
+    issues.push({
+      type,
+      itemIds: tooLarge.map(i => i.id),
+      value: Math.max(...tooLarge.map(i => i.dimensions![key])),
+      limit
+    });
+  }
+
+  return {
+    totalWeightKg,
+    capacity,
+    issues,
+    missingDimensions: items.filter(i => !i.dimensions).length
+  };
+}
+
+/**
+ * Does a single item fit the deck of a vehicle at all
+ */
+export function fitsDeck(item: TruckLoadItem, capacity: VehicleCapacity): boolean {
+  if (!item.dimensions) return true;
+  return item.dimensions.lengthM <= capacity.deckLengthM &&
+    item.dimensions.widthM <= capacity.deckWidthM &&
+    item.dimensions.heightM <= capacity.maxHeightM;
+}
+
+/**
+ * Pack items (already in installation order) onto the fewest vehicles without reordering:
+ * a load is closed when the next item would exceed the payload or not fit the deck.
+ * capacityFor(i) gives the capacity of the i-th vehicle. Items too heavy or too large for
+ * their vehicle travel alone and are also returned as unpackable.
+ */
+export function packTruckLoads(
+  items: TruckLoadItem[],
+  capacityFor: (vehicleIndex: number) => VehicleCapacity
+): { loads: TruckLoadItem[][]; unpackable: TruckLoadItem[] } {
+  const loads: TruckLoadItem[][] = [];
+  const unpackable: TruckLoadItem[] = [];
+  let current: TruckLoadItem[] = [];
+  let currentWeight = 0;
+
+  for (const item of items) {
+    const capacity = capacityFor(loads.length);
+    if (current.length > 0 && currentWeight + item.weightKg <= capacity.maxPayloadKg && fitsDeck(item, capacity)) {
+      current.push(item);
+      currentWeight += item.weightKg;
+      continue;
+    }
+
+    // Start the next vehicle
+    if (current.length > 0) loads.push(current);
+    current = [item];
+    currentWeight = item.weightKg;
+
+    const ownCapacity = capacityFor(loads.length);
+    if (item.weightKg > ownCapacity.maxPayloadKg || !fitsDeck(item, ownCapacity)) {
+      unpackable.push(item);
+      loads.push(current);
+      current = [];
+      currentWeight = 0;
+    }
+  }
+  if (current.length > 0) loads.push(current);
+
+  return { loads, unpackable };
+}
+
+export interface AutoPackLoad {
+  factoryId: string;
+  vehicleId: string | null; // null = new vehicle
+  vehicleType: DeliveryVehicleType;
+  itemIds: string[];
+  weightKg: number;
+  oversizeItemIds: string[];
+}
+
+export interface AutoPackPlan {
+  loads: AutoPackLoad[];
+  unusedVehicleIds: string[]; // Existing vehicles left empty by the plan
+}
+
+/**
+ * Auto-pack a date's planned vehicles: items in installation sequence order, packed per factory
+ * onto the fewest vehicles. Existing vehicles are reused in their order, new ones get the type
+ * of the factory's last vehicle. Items missing from the sequence keep their current order at the end.
+ */
+export function buildAutoPackPlan(
+  vehicles: DeliveryVehicle[],
+  items: DeliveryItem[],
+  sequence: Map<string, number>,
+  dimensions: Map<string, TransportDimensions>,
+  profiles: DeliveryVehicleProfile[]
+): AutoPackPlan {
+  const loads: AutoPackLoad[] = [];
+  const unusedVehicleIds: string[] = [];
+  const vehicleOrder = new Map(vehicles.map(v => [v.id, v.sort_order || 0]));
+
+  const factoryIds = [...new Set(vehicles.map(v => v.factory_id))];
+  for (const factoryId of factoryIds) {
+    const factoryVehicles = vehicles
+      .filter(v => v.factory_id === factoryId)
+      .sort((a, b) => (a.sort_order || 0) - (b.sort_order || 0));
+    const vehicleIds = new Set(factoryVehicles.map(v => v.id));
+    const lastType = factoryVehicles[factoryVehicles.length - 1]?.vehicle_type || DEFAULT_VEHICLE_TYPE;
+
+    const factoryItems = items
+      .filter(i => i.vehicle_id && vehicleIds.has(i.vehicle_id))
+      .sort((a, b) =>
+        (sequence.get(itemGuid(a)) ?? Infinity) - (sequence.get(itemGuid(b)) ?? Infinity) ||
+        (vehicleOrder.get(a.vehicle_id!) || 0) - (vehicleOrder.get(b.vehicle_id!) || 0) ||
+        a.sort_order - b.sort_order
+      );
+
+    const typeFor = (index: number) => factoryVehicles[index]?.vehicle_type || lastType;
+    const packed = packTruckLoads(
+      factoryItems.map(i => toTruckLoadItem(i, dimensions)),
+      index => getVehicleCapacity(typeFor(index), profiles)
+    );
+    const oversize = new Set(packed.unpackable.map(i => i.id));
+
+    packed.loads.forEach((load, index) => {
+      loads.push({
+        factoryId,
+        vehicleId: factoryVehicles[index]?.id || null,
+        vehicleType: typeFor(index),
+        itemIds: load.map(i => i.id),
+        weightKg: load.reduce((sum, i) => sum + i.weightKg, 0),
+        oversizeItemIds: load.filter(i => oversize.has(i.id)).map(i => i.id)
+      });
+    });
+    unusedVehicleIds.push(...factoryVehicles.slice(packed.loads.length).map(v => v.id));
+  }
+
+  return { loads, unusedVehicleIds };
+}
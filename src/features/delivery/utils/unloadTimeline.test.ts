@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTimelineLanes,
+  findCapacityConflicts,
+  findUnregisteredResources,
+  formatMinutes,
+  getUnloadCapacity,
+  getUnloadSlots,
+  parseTimeToMinutes,
+  snapMinutes
+} from './unloadTimeline';
+import type { DeliveryVehicle } from '../../../supabase';
+
+const vehicle = (id: string, time: string | undefined, duration: number | undefined, methods: DeliveryVehicle['unload_methods']) =>
+  ({ id, unload_start_time: time, unload_duration_minutes: duration, unload_methods: methods }) as DeliveryVehicle;
+
+describe('unloadTimeline', () => {
+  it('parses, formats and snaps times', () => {
+    expect(parseTimeToMinutes('08:15:00')).toBe(495);
+    expect(parseTimeToMinutes('')).toBeNull();
+    expect(formatMinutes(495)).toBe('08:15');
+    expect(snapMinutes(502)).toBe(495);
+    expect(getUnloadCapacity([
+      { resource_type: 'crane', is_active: true },
+      { resource_type: 'crane', is_active: false },
+      { resource_type: 'monteerija', is_active: true },
+      { resource_type: 'monteerija', is_active: true }
+    ])).toEqual({ crane: 1, toojoud: 2 });
+  });
+
+  it('stacks overlapping blocks and detects two trucks at 08:00 for one crane', () => {
+    const slots = getUnloadSlots([
+      vehicle('a', '08:00', 60, { crane: 1, toojoud: 2 }),
+      vehicle('b', '08:00', undefined, { crane: 1 }),
+      vehicle('c', '10:00', 60, { crane: 1 }),
+      vehicle('d', undefined, 60, { crane: 1 })
+    ]);
+    expect(slots.map(s => [s.vehicle.id, s.start, s.end])).toEqual([['a', 480, 540], ['b', 480, 570], ['c', 600, 660]]);
+
+    const capacity = { crane: 1, toojoud: 2 };
+    const lanes = buildTimelineLanes(slots, capacity);
+    expect(lanes.map(l => [l.key, l.rows, l.blocks.map(b => b.row)])).toEqual([
+      ['crane', 2, [0, 1, 0]],
+      ['toojoud', 1, [0]]
+    ]);
+
+    expect(findCapacityConflicts(slots, capacity)).toEqual([
+      { key: 'crane', start: 480, end: 540, demand: 2, capacity: 1, vehicleIds: ['a', 'b'] }
+    ]);
+    expect(findCapacityConflicts(slots, { crane: 2, toojoud: 2 })).toEqual([]);
+  });
+
+  it('checks registered capacity and reports unregistered resources separately', () => {
+    const slots = getUnloadSlots([
+      vehicle('a', '08:00', 60, { crane: 1, toojoud: 2, manual: 1 }),
+      vehicle('b', '09:00', 60, { toojoud: 1, manual: 1 })
+    ]);
+    expect(slots.map(s => s.demand)).toEqual([{ crane: 1, toojoud: 2 }, { toojoud: 1 }]);
+
+    expect(findCapacityConflicts(slots, { crane: 1, toojoud: 0 })).toEqual([
+      { key: 'toojoud', start: 480, end: 540, demand: 2, capacity: 0, vehicleIds: ['a'] },
+      { key: 'toojoud', start: 540, end: 600, demand: 1, capacity: 0, vehicleIds: ['b'] }
+    ]);
+    expect(findUnregisteredResources(slots, { crane: 1, toojoud: 0 })).toEqual([]);
+
+    expect(findCapacityConflicts(slots, { toojoud: 2 })).toEqual([]);
+    expect(findUnregisteredResources(slots, { toojoud: 2 })).toEqual([{ key: 'crane', vehicleIds: ['a'] }]);
+  });
+});
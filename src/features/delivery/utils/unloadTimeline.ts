@@ -0,0 +1,184 @@
+import type { DeliveryResources, DeliveryVehicle, UnloadMethods } from '../../../supabase';
+
+/**
+ * Unload-slot timeline - vehicles as time blocks per unload resource and detection of
+ * slots that need more cranes, machines or workers than the project has.
+ */
+
+// Manual unloading is a yes/no method, not a counted project resource
+export type UnloadResourceKey = Exclude<keyof UnloadMethods, 'manual'> | keyof DeliveryResources;
+
+// Vehicle demand key -> project resource type (project_resources.resource_type)
+export const UNLOAD_RESOURCE_TYPES: Record<UnloadResourceKey, string> = {
+  crane: 'crane',
+  telescopic: 'forklift',
+  poomtostuk: 'poomtostuk',
+  toojoud: 'monteerija',
+  taasnik: 'troppija',
+  keevitaja: 'keevitaja'
+};
+
+export const UNLOAD_RESOURCE_KEYS = Object.keys(UNLOAD_RESOURCE_TYPES) as UnloadResourceKey[];
+
+// Unload duration used when the vehicle has none set
+export const DEFAULT_UNLOAD_MINUTES = 90;
+
+// Timeline snap step for drag-to-reschedule
+export const SLOT_STEP_MINUTES = 15;
+
+export interface UnloadSlot {
+  vehicle: DeliveryVehicle;
+  start: number; // Minutes from midnight
+  end: number;
+  demand: Partial<Record<UnloadResourceKey, number>>;
+}
+
+export interface TimelineBlock {
+  slot: UnloadSlot;
+  count: number; // Units of the lane resource this vehicle needs
+  row: number;   // Stacking row inside the lane (overlapping blocks get separate rows)
+}
+
+export interface TimelineLane {
+  key: UnloadResourceKey;
+  capacity: number | null; // null = no resources of this type registered in the project
+  blocks: TimelineBlock[];
+  rows: number;
+}
+
+export interface CapacityConflict {
+  key: UnloadResourceKey;
+  start: number;
+  end: number;
+  demand: number;
+  capacity: number;
+  vehicleIds: string[];
+}
+
+// Resource needed on a date that the project has not registered
+export interface UnregisteredResource {
+  key: UnloadResourceKey;
+  vehicleIds: string[];
+}
+
+export const parseTimeToMinutes = (time: string | null | undefined): number | null => {
+  const match = time?.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+};
+
+export const formatMinutes = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const snapMinutes = (minutes: number, step: number = SLOT_STEP_MINUTES): number =>
+  Math.round(minutes / step) * step;
+
+/**
+ * Project resource counts per unload resource key (active resources only)
+ */
+export function getUnloadCapacity(
+  projectResources: { resource_type: string; is_active: boolean }[]
+): Partial<Record<UnloadResourceKey, number>> {
+  const capacity: Partial<Record<UnloadResourceKey, number>> = {};
+  for (const key of UNLOAD_RESOURCE_KEYS) {
+    const count = projectResources.filter(r => r.is_active && r.resource_type === UNLOAD_RESOURCE_TYPES[key]).length;
+    if (count > 0) capacity[key] = count;
+  }
+  return capacity;
+}
+
+/**
+ * Time slots of vehicles with an unload start time (vehicles without one are not placed)
+ */
+export function getUnloadSlots(vehicles: DeliveryVehicle[]): UnloadSlot[] {
+  const slots: UnloadSlot[] = [];
+  for (const vehicle of vehicles) {
+    const start = parseTimeToMinutes(vehicle.unload_start_time);
+    if (start === null) continue;
+
+    const demand: Partial<Record<UnloadResourceKey, number>> = {};
+    const needs = { ...vehicle.unload_methods, ...vehicle.resources } as Record<string, number | undefined>;
+    for (const key of UNLOAD_RESOURCE_KEYS) {
+      if (needs[key] && needs[key]! > 0) demand[key] = needs[key];
+    }
+
+    slots.push({ vehicle, start, end: start + (vehicle.unload_duration_minutes || DEFAULT_UNLOAD_MINUTES), demand });
+  }
+  return slots.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * One lane per resource in use or registered: blocks stacked so overlapping ones do not cover each other
+ */
+export function buildTimelineLanes(
+  slots: UnloadSlot[],
+  capacity: Partial<Record<UnloadResourceKey, number>>
+): TimelineLane[] {
+  const lanes: TimelineLane[] = [];
+  for (const key of UNLOAD_RESOURCE_KEYS) {
+    const laneSlots = slots.filter(s => s.demand[key]);
+    if (laneSlots.length === 0 && !capacity[key]) continue;
+
+    // First row whose last block has ended
+    const rowEnds: number[] = [];
+    const blocks = laneSlots.map(slot => {
+      let row = rowEnds.findIndex(end => end <= slot.start);
+      if (row === -1) row = rowEnds.length;
+      rowEnds[row] = slot.end;
+      return { slot, count: slot.demand[key]!, row };
+    });
+
+    lanes.push({ key, capacity: capacity[key] ?? null, blocks, rows: Math.max(1, rowEnds.length) });
+  }
+  return lanes;
+}
+
+/**
+ * Periods where overlapping slots need more units of a resource than the project has.
+ * Resources the project has not registered are reported by findUnregisteredResources instead.
+ * Adjacent conflicting periods with the same vehicles are merged.
+ */
+export function findCapacityConflicts(
+  slots: UnloadSlot[],
+  capacity: Partial<Record<UnloadResourceKey, number>>
+): CapacityConflict[] {
+  const conflicts: CapacityConflict[] = [];
+
+  for (const key of UNLOAD_RESOURCE_KEYS) {
+    const available = capacity[key];
+    if (available === undefined) continue;
+    const laneSlots = slots.filter(s => s.demand[key]);
+
+    const times = [...new Set(laneSlots.flatMap(s => [s.start, s.end]))].sort((a, b) => a - b);
+    for (let i = 0; i < times.length - 1; i++) {
+      const [start, end] = [times[i], times[i + 1]];
+      const active = laneSlots.filter(s => s.start < end && s.end > start);
+      const demand = active.reduce((sum, s) => sum + s.demand[key]!, 0);
+      if (demand <= available) continue;
+
+      const vehicleIds = active.map(s => s.vehicle.id);
+      const previous = conflicts[conflicts.length - 1];
+      if (previous && previous.key === key && previous.end === start && previous.vehicleIds.join() === vehicleIds.join()) {
+        previous.end = end;
+        previous.demand = Math.max(previous.demand, demand);
+      } else {
+        conflicts.push({ key, start, end, demand, capacity: available, vehicleIds });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Resources the slots need but the project has no active resources of
+ */
+export function findUnregisteredResources(
+  slots: UnloadSlot[],
+  capacity: Partial<Record<UnloadResourceKey, number>>
+): UnregisteredResource[] {
+  return UNLOAD_RESOURCE_KEYS
+    .filter(key => capacity[key] === undefined)
+    .map(key => ({ key, vehicleIds: slots.filter(s => s.demand[key]).map(s => s.vehicle.id) }))
+    .filter(r => r.vehicleIds.length > 0);
+}
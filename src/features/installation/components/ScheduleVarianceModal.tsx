@@ -0,0 +1,437 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import * as WorkspaceAPI from 'trimble-connect-workspace-api';
+import * as XLSX from 'xlsx-js-style';
+import { FiX, FiLoader, FiRefreshCw, FiDroplet, FiAlertCircle, FiDownload } from 'react-icons/fi';
+import { ScheduleVersion } from '../../../supabase';
+import { colorObjectsByGuid } from '../../../utils/navigationHelper';
+import { useScheduleVariance } from '../hooks/useScheduleVariance';
+import {
+  aggregateVariance,
+  MINOR_SLIP_MAX_DAYS,
+  SlipCategory,
+  VarianceGroupBy,
+  VarianceMeasure,
+  VarianceStats
+} from '../utils/scheduleVariance';
+
+interface ScheduleVarianceModalProps {
+  api: WorkspaceAPI.WorkspaceAPI;
+  projectId: string;
+  versions: ScheduleVersion[];
+  activeVersionId: string | null;
+  onClose: () => void;
+}
+
+type VarianceView = 'element' | VarianceGroupBy;
+
+const VIEWS: VarianceView[] = ['element', 'day', 'week', 'factory', 'resource'];
+const GROUP_VIEWS: VarianceGroupBy[] = ['day', 'week', 'factory', 'resource'];
+
+// Max element rows rendered in the modal (Excel export contains all)
+const MAX_ELEMENT_ROWS = 300;
+
+const CATEGORY_COLORS: Record<SlipCategory, { r: number; g: number; b: number; a: number }> = {
+  on_time: { r: 34, g: 197, b: 94, a: 255 },
+  minor: { r: 234, g: 179, b: 8, a: 255 },
+  major: { r: 239, g: 68, b: 68, a: 255 },
+  no_data: { r: 156, g: 163, b: 175, a: 255 }
+};
+
+const toCss = (c: { r: number; g: number; b: number }) => `rgb(${c.r}, ${c.g}, ${c.b})`;
+const toHex = (c: { r: number; g: number; b: number }) =>
+  [c.r, c.g, c.b].map(v => v.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+const formatDate = (date: string | null) => {
+  if (!date) return '';
+  const [y, m, d] = date.split('-');
+  return `${d}.${m}.${y}`;
+};
+
+const formatDays = (days: number | null) => {
+  if (days === null) return '';
+  return days > 0 ? `+${days}` : String(days);
+};
+
+export default function ScheduleVarianceModal({
+  api,
+  projectId,
+  versions,
+  activeVersionId,
+  onClose
+}: ScheduleVarianceModalProps) {
+  const { t } = useTranslation('installation');
+  const { rows, loading, error, runReport } = useScheduleVariance(projectId);
+  const [baselineId, setBaselineId] = useState<string | null>(activeVersionId || versions[0]?.id || null);
+  const [view, setView] = useState<VarianceView>('element');
+  const [coloring, setColoring] = useState(false);
+
+  useEffect(() => {
+    runReport(baselineId);
+  }, [baselineId, runReport]);
+
+  const totals = useMemo(() => {
+    const counts: Record<SlipCategory, number> = { on_time: 0, minor: 0, major: 0, no_data: 0 };
+    for (const row of rows) counts[row.category]++;
+    return counts;
+  }, [rows]);
+
+  const groups = useMemo(
+    () => (view === 'element' ? [] : aggregateVariance(rows, view)),
+    [rows, view]
+  );
+
+  // Worst slips first
+  const elementRows = useMemo(
+    () => [...rows].sort((a, b) => (b.slipDays ?? -Infinity) - (a.slipDays ?? -Infinity)).slice(0, MAX_ELEMENT_ROWS),
+    [rows]
+  );
+
+  const baselineName = versions.find(v => v.id === baselineId)?.name || t('ui.mainSchedule');
+
+  const measureCell = (measure: VarianceMeasure) => (
+    <span
+      style={{ color: measure.days !== null && measure.days > 0 ? '#dc2626' : measure.days !== null && measure.days < 0 ? '#16a34a' : '#374151' }}
+      title={measure.open ? t('variance.openHint') : undefined}
+    >
+      {formatDays(measure.days)}{measure.open ? '*' : ''}
+    </span>
+  );
+
+  const statsCell = (stats: VarianceStats) => (
+    stats.measured === 0 ? '-' : t('variance.statsValue', {
+      avg: formatDays(stats.avgDays),
+      max: formatDays(stats.maxDays),
+      late: stats.late,
+      measured: stats.measured
+    })
+  );
+
+  const colorInModel = async () => {
+    setColoring(true);
+    try {
+      await api.viewer.setObjectState(undefined, { color: 'reset' });
+      const guidsByCategory = new Map<SlipCategory, string[]>();
+      for (const row of rows) {
+        const list = guidsByCategory.get(row.category) || [];
+        list.push(row.element.guid);
+        guidsByCategory.set(row.category, list);
+      }
+      for (const [category, guids] of guidsByCategory) {
+        await colorObjectsByGuid(api, guids, CATEGORY_COLORS[category]);
+      }
+      console.log('✅ Schedule variance colored in model');
+    } catch (err) {
+      console.error('Error coloring schedule variance:', err);
+    } finally {
+      setColoring(false);
+    }
+  };
+
+  const exportToExcel = () => {
+    const wb = XLSX.utils.book_new();
+    const headerStyle = { font: { bold: true, color: { rgb: 'FFFFFF' } }, fill: { fgColor: { rgb: '0a3a67' } }, alignment: { horizontal: 'center' as const, vertical: 'center' as const } };
+    const styleHeader = (ws: XLSX.WorkSheet, count: number) => {
+      for (let i = 0; i < count; i++) {
+        const cellRef = XLSX.utils.encode_cell({ r: 0, c: i });
+        if (ws[cellRef]) ws[cellRef].s = headerStyle;
+      }
+    };
+
+    // Elements sheet
+    const elementHeaders = [
+      t('variance.excel.mark'), t('variance.excel.guid'), t('variance.excel.factory'), t('variance.excel.resource'),
+      t('variance.excel.plannedDelivery'), t('variance.excel.actualArrival'), t('variance.excel.deliveryDays'),
+      t('variance.excel.plannedInstall'), t('variance.excel.actualInstall'), t('variance.excel.installDays'),
+      t('variance.excel.slipDays'), t('variance.excel.status')
+    ];
+    const elementData = rows.map(row => [
+      row.element.assemblyMark, row.element.guid, row.element.factoryName || '', row.element.resource || '',
+      formatDate(row.delivery.plannedDate), formatDate(row.delivery.actualDate), row.delivery.days,
+      formatDate(row.installation.plannedDate), formatDate(row.installation.actualDate), row.installation.days,
+      row.slipDays, t(`variance.category.${row.category}`, { days: MINOR_SLIP_MAX_DAYS })
+    ]);
+    const elementSheet = XLSX.utils.aoa_to_sheet([elementHeaders, ...elementData]);
+    styleHeader(elementSheet, elementHeaders.length);
+    rows.forEach((row, i) => {
+      const cellRef = XLSX.utils.encode_cell({ r: i + 1, c: elementHeaders.length - 1 });
+      if (elementSheet[cellRef]) {
+        elementSheet[cellRef].s = { fill: { fgColor: { rgb: toHex(CATEGORY_COLORS[row.category]) } } };
+      }
+    });
+    elementSheet['!cols'] = [
+      { wch: 16 }, { wch: 25 }, { wch: 16 }, { wch: 16 },
+      { wch: 14 }, { wch: 14 }, { wch: 10 },
+      { wch: 14 }, { wch: 14 }, { wch: 10 },
+      { wch: 10 }, { wch: 16 }
+    ];
+    XLSX.utils.book_append_sheet(wb, elementSheet, t('variance.views.element'));
+
+    // Aggregated sheets
+    for (const groupBy of GROUP_VIEWS) {
+      const headers = [
+        t(`variance.views.${groupBy}`), t('variance.excel.count'),
+        t('variance.excel.deliveryAvg'), t('variance.excel.deliveryMax'), t('variance.excel.deliveryLate'),
+        t('variance.excel.installAvg'), t('variance.excel.installMax'), t('variance.excel.installLate'),
+        t('variance.category.on_time'), t('variance.category.minor', { days: MINOR_SLIP_MAX_DAYS }),
+        t('variance.category.major', { days: MINOR_SLIP_MAX_DAYS }), t('variance.category.no_data')
+      ];
+      const data = aggregateVariance(rows, groupBy).map(group => [
+        groupBy === 'day' ? formatDate(group.key) : group.key || t('variance.ungrouped'),
+        group.count,
+        group.delivery.avgDays, group.delivery.maxDays, group.delivery.late,
+        group.installation.avgDays, group.installation.maxDays, group.installation.late,
+        group.categories.on_time, group.categories.minor, group.categories.major, group.categories.no_data
+      ]);
+      const ws = XLSX.utils.aoa_to_sheet([headers, ...data]);
+      styleHeader(ws, headers.length);
+      ws['!cols'] = headers.map((_, i) => ({ wch: i === 0 ? 18 : 12 }));
+      XLSX.utils.book_append_sheet(wb, ws, t(`variance.views.${groupBy}`));
+    }
+
+    const dateStr = new Date().toISOString().split('T')[0];
+    XLSX.writeFile(wb, `${t('variance.excel.fileName')}_${dateStr}.xlsx`);
+  };
+
+  const cellStyle: React.CSSProperties = { padding: '6px 8px' };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 10000
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        boxShadow: '0 8px 32px rgba(0,0,0,0.2)',
+        maxWidth: '900px',
+        width: '95%',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column'
+      }}>
+        {/* Modal header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: '16px', fontWeight: 600 }}>{t('variance.title')}</h3>
+            <p style={{ margin: '4px 0 0 0', fontSize: '12px', color: '#6b7280' }}>
+              {t('variance.baseline', { name: baselineName })}
+              {' • '}{t('variance.elementCount', { count: rows.length })}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: '8px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', borderRadius: '4px' }}
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        {/* Modal content */}
+        <div style={{ padding: '16px 20px', overflow: 'auto', flex: 1 }}>
+          {/* Baseline and view selection */}
+          <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap', alignItems: 'center', marginBottom: '12px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px' }}>
+              {t('variance.baselineLabel')}
+              <select
+                value={baselineId || ''}
+                onChange={e => setBaselineId(e.target.value || null)}
+                disabled={loading}
+                style={{ padding: '4px 6px', fontSize: '12px', borderRadius: '4px', border: '1px solid #d1d5db' }}
+              >
+                {versions.length === 0 && <option value="">{t('ui.mainSchedule')}</option>}
+                {versions.map(v => (
+                  <option key={v.id} value={v.id}>{v.name}</option>
+                ))}
+              </select>
+            </label>
+            <div style={{ display: 'flex', gap: '4px' }}>
+              {VIEWS.map(v => (
+                <button
+                  key={v}
+                  onClick={() => setView(v)}
+                  style={{
+                    padding: '4px 10px',
+                    fontSize: '12px',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    border: '1px solid #d1d5db',
+                    backgroundColor: view === v ? 'var(--modus-primary)' : 'white',
+                    color: view === v ? 'white' : '#374151'
+                  }}
+                >
+                  {t(`variance.views.${v}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {loading ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#6b7280', padding: '24px 0', justifyContent: 'center' }}>
+              <FiLoader className="spin" /> {t('variance.loading')}
+            </div>
+          ) : error ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#dc2626', padding: '12px', backgroundColor: '#fef2f2', borderRadius: '8px' }}>
+              <FiAlertCircle /> {t('variance.error', { message: error })}
+            </div>
+          ) : rows.length === 0 ? (
+            <div style={{ textAlign: 'center', padding: '24px', color: '#6b7280', fontSize: '13px' }}>
+              {t('variance.noData')}
+            </div>
+          ) : (
+            <>
+              {/* Summary */}
+              <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '12px' }}>
+                {(Object.keys(totals) as SlipCategory[]).map(category => (
+                  <div key={category} style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    padding: '6px 10px',
+                    borderRadius: '6px',
+                    backgroundColor: '#f9fafb',
+                    border: '1px solid #e5e7eb',
+                    fontSize: '12px'
+                  }}>
+                    <span style={{ width: '10px', height: '10px', borderRadius: '50%', backgroundColor: toCss(CATEGORY_COLORS[category]) }} />
+                    {t(`variance.category.${category}`, { days: MINOR_SLIP_MAX_DAYS })}: <strong>{totals[category]}</strong>
+                  </div>
+                ))}
+              </div>
+
+              {view === 'element' ? (
+                <>
+                  <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                    <thead>
+                      <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+                        <th style={cellStyle}>{t('variance.excel.mark')}</th>
+                        <th style={cellStyle}>{t('variance.excel.plannedDelivery')}</th>
+                        <th style={cellStyle}>{t('variance.excel.actualArrival')}</th>
+                        <th style={cellStyle}>{t('variance.days')}</th>
+                        <th style={cellStyle}>{t('variance.excel.plannedInstall')}</th>
+                        <th style={cellStyle}>{t('variance.excel.actualInstall')}</th>
+                        <th style={cellStyle}>{t('variance.days')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {elementRows.map(row => (
+                        <tr key={row.element.guid} style={{ borderBottom: '1px solid #f3f4f6' }}>
+                          <td style={{ ...cellStyle, display: 'flex', alignItems: 'center', gap: '6px' }}>
+                            <span style={{ width: '8px', height: '8px', borderRadius: '50%', flexShrink: 0, backgroundColor: toCss(CATEGORY_COLORS[row.category]) }} />
+                            {row.element.assemblyMark}
+                          </td>
+                          <td style={cellStyle}>{formatDate(row.delivery.plannedDate)}</td>
+                          <td style={cellStyle}>{formatDate(row.delivery.actualDate)}</td>
+                          <td style={cellStyle}>{measureCell(row.delivery)}</td>
+                          <td style={cellStyle}>{formatDate(row.installation.plannedDate)}</td>
+                          <td style={cellStyle}>{formatDate(row.installation.actualDate)}</td>
+                          <td style={cellStyle}>{measureCell(row.installation)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div style={{ fontSize: '11px', color: '#6b7280', marginTop: '8px' }}>
+                    {rows.length > MAX_ELEMENT_ROWS && <>{t('variance.showingFirst', { count: MAX_ELEMENT_ROWS })} </>}
+                    {t('variance.openHint')}
+                  </div>
+                </>
+              ) : (
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                  <thead>
+                    <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+                      <th style={cellStyle}>{t(`variance.views.${view}`)}</th>
+                      <th style={cellStyle}>{t('variance.excel.count')}</th>
+                      <th style={cellStyle}>{t('variance.delivery')}</th>
+                      <th style={cellStyle}>{t('variance.installation')}</th>
+                      <th style={cellStyle}>{t('variance.slip')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {groups.map(group => (
+                      <tr key={group.key} style={{ borderBottom: '1px solid #f3f4f6' }}>
+                        <td style={{ ...cellStyle, fontWeight: 500 }}>
+                          {view === 'day' ? formatDate(group.key) : group.key || t('variance.ungrouped')}
+                        </td>
+                        <td style={cellStyle}>{group.count}</td>
+                        <td style={cellStyle}>{statsCell(group.delivery)}</td>
+                        <td style={cellStyle}>{statsCell(group.installation)}</td>
+                        <td style={cellStyle}>
+                          <div style={{ display: 'flex', height: '8px', borderRadius: '4px', overflow: 'hidden', minWidth: '80px' }}>
+                            {(Object.keys(group.categories) as SlipCategory[]).map(category => (
+                              group.categories[category] > 0 && (
+                                <span
+                                  key={category}
+                                  title={`${t(`variance.category.${category}`, { days: MINOR_SLIP_MAX_DAYS })}: ${group.categories[category]}`}
+                                  style={{ flex: group.categories[category], backgroundColor: toCss(CATEGORY_COLORS[category]) }}
+                                />
+                              )
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Modal footer */}
+        <div style={{
+          padding: '12px 20px',
+          borderTop: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '8px'
+        }}>
+          <button
+            onClick={() => runReport(baselineId)}
+            disabled={loading}
+            style={{ ...footerBtnStyle, backgroundColor: 'white', color: '#374151', border: '1px solid #e5e7eb' }}
+          >
+            <FiRefreshCw size={14} /> {t('variance.rerun')}
+          </button>
+          <button
+            onClick={exportToExcel}
+            disabled={loading || rows.length === 0}
+            style={{ ...footerBtnStyle, backgroundColor: 'white', color: '#374151', border: '1px solid #e5e7eb' }}
+          >
+            <FiDownload size={14} /> {t('variance.exportExcel')}
+          </button>
+          <button
+            onClick={colorInModel}
+            disabled={loading || coloring || rows.length === 0}
+            style={{ ...footerBtnStyle, backgroundColor: 'var(--modus-primary)', color: 'white', border: 'none' }}
+          >
+            {coloring ? <FiLoader size={14} className="spin" /> : <FiDroplet size={14} />} {t('variance.colorInModel')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const footerBtnStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  padding: '8px 16px',
+  borderRadius: '6px',
+  fontSize: '13px',
+  cursor: 'pointer'
+};
@@ -0,0 +1,332 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FiX, FiLoader, FiSave, FiUpload, FiTrash2, FiAlertCircle } from 'react-icons/fi';
+import { WindForecast } from '../../../supabase';
+import {
+  getDailyWorkingHoursMax,
+  parseWindForecastCsv,
+  toForecastPoint,
+  toLocalDateKey,
+  WindForecastPoint,
+  WORK_DAY_START_HOUR,
+  WORK_DAY_END_HOUR
+} from '../utils/windForecast';
+
+interface WindForecastModalProps {
+  forecasts: WindForecast[];
+  loading: boolean;
+  onSavePoints: (points: WindForecastPoint[], source: 'manual' | 'csv') => Promise<boolean>;
+  onDeleteDay: (date: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+type HourInput = { wind: string; gust: string };
+
+const WORK_HOURS = Array.from({ length: WORK_DAY_END_HOUR - WORK_DAY_START_HOUR }, (_, i) => WORK_DAY_START_HOUR + i);
+
+const formatDate = (date: string) => {
+  const [y, m, d] = date.split('-');
+  return `${d}.${m}.${y}`;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export default function WindForecastModal({
+  forecasts,
+  loading,
+  onSavePoints,
+  onDeleteDay,
+  onClose
+}: WindForecastModalProps) {
+  const { t } = useTranslation('installation');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [date, setDate] = useState(() => toLocalDateKey(new Date(Date.now() + 24 * 3600 * 1000)));
+  const [hours, setHours] = useState<Record<number, HourInput>>({});
+  const [csvText, setCsvText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const points = useMemo(() => forecasts.map(toForecastPoint), [forecasts]);
+  const days = useMemo(
+    () => Array.from(getDailyWorkingHoursMax(points).values()).sort((a, b) => a.date.localeCompare(b.date)),
+    [points]
+  );
+  const csvResult = useMemo(() => csvText.trim() ? parseWindForecastCsv(csvText) : null, [csvText]);
+
+  // Prefill hourly inputs with the saved forecast of the chosen day
+  useEffect(() => {
+    const byHour: Record<number, HourInput> = {};
+    for (const point of points) {
+      const time = new Date(point.time);
+      if (toLocalDateKey(time) !== date) continue;
+      byHour[time.getHours()] = {
+        wind: String(point.windSpeedMs),
+        gust: point.gustSpeedMs !== null ? String(point.gustSpeedMs) : ''
+      };
+    }
+    setHours(byHour);
+  }, [date, points]);
+
+  const updateHour = (hour: number, key: keyof HourInput, value: string) => {
+    setHours(prev => ({ ...prev, [hour]: { ...(prev[hour] || { wind: '', gust: '' }), [key]: value } }));
+  };
+
+  const handleSaveDay = async () => {
+    const [y, m, d] = date.split('-').map(Number);
+    const dayPoints: WindForecastPoint[] = [];
+    for (const hour of WORK_HOURS) {
+      const input = hours[hour];
+      const wind = input ? parseFloat(input.wind.replace(',', '.')) : NaN;
+      if (isNaN(wind)) continue;
+      const gust = parseFloat((input?.gust || '').replace(',', '.'));
+      dayPoints.push({
+        time: new Date(y, m - 1, d, hour).toISOString(),
+        windSpeedMs: wind,
+        gustSpeedMs: isNaN(gust) ? null : gust
+      });
+    }
+    if (dayPoints.length === 0) return;
+
+    setSaving(true);
+    const ok = await onSavePoints(dayPoints, 'manual');
+    setSaving(false);
+    if (!ok) alert(t('wind.saveFailed'));
+  };
+
+  const handleFile = async (file: File) => {
+    setCsvText(await file.text());
+  };
+
+  const handleImport = async () => {
+    if (!csvResult || csvResult.points.length === 0) return;
+    setSaving(true);
+    const ok = await onSavePoints(csvResult.points, 'csv');
+    setSaving(false);
+    if (ok) {
+      setCsvText('');
+    } else {
+      alert(t('wind.saveFailed'));
+    }
+  };
+
+  const handleDeleteDay = async (day: string) => {
+    if (!confirm(t('wind.deleteDayConfirm', { date: formatDate(day) }))) return;
+    await onDeleteDay(day);
+  };
+
+  const sectionTitle: React.CSSProperties = { fontSize: '13px', fontWeight: 600, margin: '0 0 6px 0' };
+  const inputStyle: React.CSSProperties = { padding: '4px 6px', fontSize: '12px', borderRadius: '4px', border: '1px solid #d1d5db', width: '56px' };
+  const cellStyle: React.CSSProperties = { padding: '4px 6px' };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 10000
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        boxShadow: '0 8px 32px rgba(0,0,0,0.2)',
+        maxWidth: '720px',
+        width: '95%',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column'
+      }}>
+        {/* Modal header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <div>
+            <h3 style={{ margin: 0, fontSize: '16px', fontWeight: 600 }}>{t('wind.title')}</h3>
+            <p style={{ margin: '4px 0 0 0', fontSize: '12px', color: '#6b7280' }}>
+              {t('wind.workingHours', { start: pad(WORK_DAY_START_HOUR), end: pad(WORK_DAY_END_HOUR) })}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            style={{ padding: '8px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', borderRadius: '4px' }}
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        {/* Modal content */}
+        <div style={{ padding: '16px 20px', overflow: 'auto', flex: 1, display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          {/* Manual entry */}
+          <div>
+            <p style={sectionTitle}>{t('wind.enterDay')}</p>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px', fontSize: '12px' }}>
+              <input type="date" value={date} onChange={e => setDate(e.target.value)} style={{ ...inputStyle, width: 'auto' }} />
+              <button
+                onClick={handleSaveDay}
+                disabled={saving || !date}
+                style={{ ...footerBtnStyle, padding: '4px 10px', fontSize: '12px', backgroundColor: 'var(--modus-primary)', color: 'white', border: 'none' }}
+              >
+                {saving ? <FiLoader size={12} className="spin" /> : <FiSave size={12} />} {t('wind.saveDay')}
+              </button>
+            </div>
+            <table style={{ borderCollapse: 'collapse', fontSize: '12px' }}>
+              <thead>
+                <tr style={{ backgroundColor: '#f3f4f6' }}>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>{t('wind.hour')}</th>
+                  {WORK_HOURS.map(hour => <th key={hour} style={cellStyle}>{pad(hour)}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {(['wind', 'gust'] as const).map(key => (
+                  <tr key={key}>
+                    <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>{t(key === 'wind' ? 'wind.windMs' : 'wind.gustMs')}</td>
+                    {WORK_HOURS.map(hour => (
+                      <td key={hour} style={cellStyle}>
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={hours[hour]?.[key] || ''}
+                          onChange={e => updateHour(hour, key, e.target.value)}
+                          style={{ ...inputStyle, width: '36px' }}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* CSV import */}
+          <div>
+            <p style={sectionTitle}>{t('wind.importCsv')}</p>
+            <div style={{ fontSize: '11px', color: '#6b7280', marginBottom: '6px' }}>{t('wind.csvFormat')}</div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt"
+              style={{ display: 'none' }}
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+            <textarea
+              value={csvText}
+              onChange={e => setCsvText(e.target.value)}
+              placeholder={'2026-03-02 07:00;5.2;9.8'}
+              rows={4}
+              style={{ width: '100%', boxSizing: 'border-box', fontFamily: 'monospace', fontSize: '11px', padding: '6px', borderRadius: '4px', border: '1px solid #d1d5db' }}
+            />
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '6px', fontSize: '12px' }}>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                style={{ ...footerBtnStyle, padding: '4px 10px', fontSize: '12px', backgroundColor: 'white', color: '#374151', border: '1px solid #e5e7eb' }}
+              >
+                <FiUpload size={12} /> {t('wind.chooseFile')}
+              </button>
+              {csvResult && (
+                <span style={{ color: csvResult.skippedLines.length > 0 ? '#d97706' : '#6b7280' }}>
+                  {t('wind.parsedHours', { count: csvResult.points.length })}
+                  {csvResult.skippedLines.length > 0 && ` • ${t('wind.skippedLines', { lines: csvResult.skippedLines.slice(0, 10).join(', ') })}`}
+                </span>
+              )}
+              <button
+                onClick={handleImport}
+                disabled={saving || !csvResult || csvResult.points.length === 0}
+                style={{ ...footerBtnStyle, padding: '4px 10px', fontSize: '12px', backgroundColor: 'var(--modus-primary)', color: 'white', border: 'none', marginLeft: 'auto' }}
+              >
+                {t('wind.import')}
+              </button>
+            </div>
+          </div>
+
+          {/* Forecast days */}
+          <div>
+            <p style={sectionTitle}>{t('wind.forecastDays')}</p>
+            {loading ? (
+              <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#6b7280', fontSize: '12px' }}>
+                <FiLoader className="spin" /> {t('wind.loading')}
+              </div>
+            ) : days.length === 0 ? (
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px', color: '#6b7280', fontSize: '12px' }}>
+                <FiAlertCircle /> {t('wind.noForecast')}
+              </div>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+                <thead>
+                  <tr style={{ backgroundColor: '#f3f4f6', textAlign: 'left' }}>
+                    <th style={cellStyle}>{t('wind.date')}</th>
+                    <th style={cellStyle}>{t('wind.maxWind')}</th>
+                    <th style={cellStyle}>{t('wind.maxGust')}</th>
+                    <th style={cellStyle}>{t('wind.hours')}</th>
+                    <th style={cellStyle} />
+                  </tr>
+                </thead>
+                <tbody>
+                  {days.map(day => (
+                    <tr
+                      key={day.date}
+                      onClick={() => setDate(day.date)}
+                      style={{ borderBottom: '1px solid #f3f4f6', cursor: 'pointer', backgroundColor: day.date === date ? '#eff6ff' : undefined }}
+                    >
+                      <td style={cellStyle}>{formatDate(day.date)}</td>
+                      <td style={cellStyle}>{day.windSpeedMs} m/s</td>
+                      <td style={cellStyle}>{day.gustSpeedMs !== null ? `${day.gustSpeedMs} m/s` : '-'}</td>
+                      <td style={cellStyle}>{day.hours}</td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>
+                        <button
+                          onClick={e => { e.stopPropagation(); handleDeleteDay(day.date); }}
+                          title={t('wind.deleteDay')}
+                          style={{ padding: '2px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', color: '#dc2626' }}
+                        >
+                          <FiTrash2 size={12} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+          <div style={{ fontSize: '11px', color: '#9ca3af' }}>{t('wind.disclaimer')}</div>
+        </div>
+
+        {/* Modal footer */}
+        <div style={{
+          padding: '12px 20px',
+          borderTop: '1px solid #e5e7eb',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '8px'
+        }}>
+          <button
+            onClick={onClose}
+            style={{ ...footerBtnStyle, backgroundColor: 'var(--modus-primary)', color: 'white', border: 'none' }}
+          >
+            {t('wind.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const footerBtnStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  padding: '8px 16px',
+  borderRadius: '6px',
+  fontSize: '13px',
+  cursor: 'pointer'
+};
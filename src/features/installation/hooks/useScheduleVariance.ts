@@ -0,0 +1,185 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '../../../supabase';
+import { fetchAllRows } from '../../../utils/supabasePaging';
+import {
+  computeElementVariance,
+  toDateKey,
+  ElementVariance,
+  VarianceElementInput
+} from '../utils/scheduleVariance';
+
+interface UseScheduleVarianceResult {
+  rows: ElementVariance[];
+  loading: boolean;
+  error: string | null;
+  runReport: (versionId: string | null) => Promise<void>;
+}
+
+// Arrival confirmation statuses that mean the item physically arrived
+const ARRIVED_STATUSES = ['confirmed', 'added', 'wrong_vehicle'];
+
+const guidKey = (row: { guid?: string | null; guid_ifc?: string | null }) =>
+  (row.guid_ifc || row.guid || '').toLowerCase();
+
+// Keep the earliest date per key
+const setEarliest = (map: Map<string, string>, key: string, value: string | null | undefined) => {
+  const date = toDateKey(value);
+  if (!key || !date) return;
+  const existing = map.get(key);
+  if (!existing || date < existing) map.set(key, date);
+};
+
+export function useScheduleVariance(projectId: string): UseScheduleVarianceResult {
+  const [rows, setRows] = useState<ElementVariance[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runReport = useCallback(async (versionId: string | null) => {
+    if (!projectId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Baseline installation schedule
+      const scheduleItems = await fetchAllRows<{
+        guid: string; guid_ifc: string | null; assembly_mark: string; scheduled_date: string; resource: string | null;
+      }>(() => {
+        const query = supabase
+          .from('installation_schedule')
+          .select('guid, guid_ifc, assembly_mark, scheduled_date, resource')
+          .eq('project_id', projectId);
+        return versionId ? query.eq('version_id', versionId) : query.is('version_id', null);
+      });
+
+      // Planned deliveries with vehicle factory
+      const deliveryItems = await fetchAllRows<{
+        id: string; guid: string; guid_ifc: string | null; assembly_mark: string; scheduled_date: string | null; vehicle_id: string | null;
+      }>(() => supabase
+        .from('trimble_delivery_items')
+        .select('id, guid, guid_ifc, assembly_mark, scheduled_date, vehicle_id')
+        .eq('trimble_project_id', projectId));
+
+      const vehicles = await fetchAllRows<{ id: string; factory_id: string }>(() => supabase
+        .from('trimble_delivery_vehicles')
+        .select('id, factory_id')
+        .eq('trimble_project_id', projectId));
+
+      const factories = await fetchAllRows<{ id: string; factory_name: string }>(() => supabase
+        .from('trimble_delivery_factories')
+        .select('id, factory_name')
+        .eq('trimble_project_id', projectId));
+
+      // Actual arrivals
+      const arrivedVehicles = await fetchAllRows<{ id: string; arrival_date: string }>(() => supabase
+        .from('trimble_arrived_vehicles')
+        .select('id, arrival_date')
+        .eq('trimble_project_id', projectId));
+
+      const confirmations = await fetchAllRows<{ arrived_vehicle_id: string; item_id: string; status: string }>(
+        () => supabase
+          .from('trimble_arrival_confirmations')
+          .select('arrived_vehicle_id, item_id, status')
+          .eq('trimble_project_id', projectId)
+          .in('status', ARRIVED_STATUSES)
+      );
+
+      // Actual installations
+      const installations = await fetchAllRows<{ guid: string; guid_ifc: string | null; installed_at: string }>(
+        () => supabase
+          .from('installations')
+          .select('guid, guid_ifc, installed_at')
+          .eq('project_id', projectId)
+      );
+
+      const lifecycle = await fetchAllRows<{
+        guid: string; guid_ifc: string | null; arrived_at: string | null; installed_at: string | null;
+      }>(() => supabase
+        .from('element_lifecycle')
+        .select('guid, guid_ifc, arrived_at, installed_at')
+        .eq('project_id', projectId));
+
+      console.log(`🔍 Variance: ${scheduleItems.length} baseline items, ${deliveryItems.length} delivery items, ${installations.length} installations`);
+
+      // Lookup maps
+      const factoryNameById = new Map(factories.map(f => [f.id, f.factory_name]));
+      const factoryByVehicle = new Map(vehicles.map(v => [v.id, factoryNameById.get(v.factory_id) || null]));
+      const arrivalDateByVehicle = new Map(arrivedVehicles.map(v => [v.id, v.arrival_date]));
+
+      const arrivalByItemId = new Map<string, string>();
+      for (const c of confirmations) {
+        setEarliest(arrivalByItemId, c.item_id, arrivalDateByVehicle.get(c.arrived_vehicle_id));
+      }
+
+      const arrivalByGuid = new Map<string, string>();
+      const installByGuid = new Map<string, string>();
+      for (const inst of installations) setEarliest(installByGuid, guidKey(inst), inst.installed_at);
+      for (const lc of lifecycle) {
+        const key = guidKey(lc);
+        if (!arrivalByGuid.has(key)) setEarliest(arrivalByGuid, key, lc.arrived_at);
+        if (!installByGuid.has(key)) setEarliest(installByGuid, key, lc.installed_at);
+      }
+
+      // Combine baseline and delivery schedule per element
+      const elements = new Map<string, VarianceElementInput>();
+      const getElement = (key: string, row: { guid: string; guid_ifc: string | null; assembly_mark: string }) => {
+        let element = elements.get(key);
+        if (!element) {
+          element = {
+            guid: row.guid_ifc || row.guid,
+            assemblyMark: row.assembly_mark,
+            factoryName: null,
+            resource: null,
+            plannedDeliveryDate: null,
+            actualArrivalDate: null,
+            plannedInstallDate: null,
+            actualInstallDate: installByGuid.get(key) || null
+          };
+          elements.set(key, element);
+        }
+        return element;
+      };
+
+      for (const item of scheduleItems) {
+        const key = guidKey(item);
+        if (!key) continue;
+        const element = getElement(key, item);
+        element.plannedInstallDate = item.scheduled_date;
+        element.resource = item.resource || null;
+      }
+
+      for (const item of deliveryItems) {
+        const key = guidKey(item);
+        if (!key) continue;
+        const element = getElement(key, item);
+        element.plannedDeliveryDate = item.scheduled_date;
+        element.factoryName = item.vehicle_id ? factoryByVehicle.get(item.vehicle_id) || null : null;
+        element.actualArrivalDate = arrivalByItemId.get(item.id) || null;
+      }
+
+      for (const [key, element] of elements) {
+        if (!element.actualArrivalDate) element.actualArrivalDate = arrivalByGuid.get(key) || null;
+      }
+
+      const today = toDateKey(new Date().toISOString())!;
+      const result = [...elements.values()]
+        .map(element => computeElementVariance(element, today))
+        .sort((a, b) => a.element.assemblyMark.localeCompare(b.element.assemblyMark));
+
+      setRows(result);
+      console.log(`✅ Variance computed for ${result.length} elements`);
+    } catch (err) {
+      console.error('Error computing schedule variance:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  return {
+    rows,
+    loading,
+    error,
+    runReport
+  };
+}
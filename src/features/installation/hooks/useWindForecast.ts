@@ -0,0 +1,143 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, WindForecast } from '../../../supabase';
+import { WindForecastPoint } from '../utils/windForecast';
+
+interface UseWindForecastResult {
+  forecasts: WindForecast[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  saveForecastPoints: (points: WindForecastPoint[], source: 'manual' | 'csv', userEmail?: string) => Promise<boolean>;
+  deleteForecastDay: (date: string) => Promise<boolean>;
+}
+
+/**
+ * Local day (YYYY-MM-DD) as an ISO time range [start, end)
+ */
+const getDayRange = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return {
+    start: new Date(y, m - 1, d).toISOString(),
+    end: new Date(y, m - 1, d + 1).toISOString()
+  };
+};
+
+/**
+ * Hourly wind forecast of the project (manual entry and CSV import)
+ */
+export function useWindForecast(projectId: string | null | undefined): UseWindForecastResult {
+  const [forecasts, setForecasts] = useState<WindForecast[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchForecasts = useCallback(async () => {
+    if (!projectId) {
+      setForecasts([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('project_wind_forecasts')
+        .select('*')
+        .eq('trimble_project_id', projectId)
+        .order('forecast_time', { ascending: true });
+
+      if (fetchError) {
+        console.error('Error fetching wind forecast:', fetchError);
+        setError(fetchError.message);
+        return;
+      }
+
+      setForecasts(data || []);
+    } catch (err) {
+      console.error('Error fetching wind forecast:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchForecasts();
+  }, [fetchForecasts]);
+
+  const saveForecastPoints = useCallback(async (
+    points: WindForecastPoint[],
+    source: 'manual' | 'csv',
+    userEmail?: string
+  ): Promise<boolean> => {
+    if (!projectId || points.length === 0) return false;
+
+    try {
+      const { error: upsertError } = await supabase
+        .from('project_wind_forecasts')
+        .upsert(points.map(p => ({
+          trimble_project_id: projectId,
+          forecast_time: p.time,
+          wind_speed_ms: p.windSpeedMs,
+          gust_speed_ms: p.gustSpeedMs,
+          source,
+          created_by_email: userEmail
+        })), { onConflict: 'trimble_project_id,forecast_time' });
+
+      if (upsertError) {
+        console.error('Error saving wind forecast:', upsertError);
+        setError(upsertError.message);
+        return false;
+      }
+
+      console.log(`✅ Wind forecast saved: ${points.length} hours (${source})`);
+      await fetchForecasts();
+      return true;
+    } catch (err) {
+      console.error('Error saving wind forecast:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, [projectId, fetchForecasts]);
+
+  const deleteForecastDay = useCallback(async (date: string): Promise<boolean> => {
+    if (!projectId) return false;
+
+    try {
+      const { start, end } = getDayRange(date);
+      const { error: deleteError } = await supabase
+        .from('project_wind_forecasts')
+        .delete()
+        .eq('trimble_project_id', projectId)
+        .gte('forecast_time', start)
+        .lt('forecast_time', end);
+
+      if (deleteError) {
+        console.error('Error deleting wind forecast:', deleteError);
+        setError(deleteError.message);
+        return false;
+      }
+
+      // Update local state
+      setForecasts(prev => prev.filter(f => {
+        const time = new Date(f.forecast_time).getTime();
+        return time < new Date(start).getTime() || time >= new Date(end).getTime();
+      }));
+
+      return true;
+    } catch (err) {
+      console.error('Error deleting wind forecast:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, [projectId]);
+
+  return {
+    forecasts,
+    loading,
+    error,
+    refetch: fetchForecasts,
+    saveForecastPoints,
+    deleteForecastDay
+  };
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { buildScheduleLockSets, isScheduleDateLocked } from './scheduleLocks';
+import { ScheduleLock } from '../../../supabase';
+
+const lock = (lock_type: ScheduleLock['lock_type'], lock_date: string): ScheduleLock => ({
+  id: lock_date,
+  trimble_project_id: 'p',
+  lock_type,
+  lock_date,
+  locked_by: 'user@example.com',
+  locked_at: ''
+});
+
+describe('scheduleLocks', () => {
+  it('should lock single days and whole months', () => {
+    const locks = buildScheduleLockSets([lock('day', '2026-03-04'), lock('month', '2026-04-01')]);
+    expect(isScheduleDateLocked(locks, '2026-03-04')).toBe(true);
+    expect(isScheduleDateLocked(locks, '2026-03-05')).toBe(false);
+    expect(isScheduleDateLocked(locks, '2026-04-20')).toBe(true);
+    expect(isScheduleDateLocked(locks, '2026-05-01')).toBe(false);
+  });
+});
@@ -0,0 +1,32 @@
+import type { ScheduleLock } from '../../../supabase';
+
+/**
+ * Locked installation schedule days (YYYY-MM-DD) and months (YYYY-MM) for fast lookup
+ */
+export type ScheduleLockSets = {
+  days: Set<string>;
+  months: Set<string>;
+};
+
+export function buildScheduleLockSets(locks: ScheduleLock[]): ScheduleLockSets {
+  const days = new Set<string>();
+  const months = new Set<string>();
+
+  for (const lock of locks) {
+    if (lock.lock_type === 'day') {
+      days.add(lock.lock_date);
+    } else if (lock.lock_type === 'month') {
+      // Extract YYYY-MM from lock_date
+      months.add(lock.lock_date.substring(0, 7));
+    }
+  }
+
+  return { days, months };
+}
+
+/**
+ * Whether a date is locked by a day or month lock
+ */
+export function isScheduleDateLocked(locks: ScheduleLockSets, dateStr: string): boolean {
+  return locks.days.has(dateStr) || locks.months.has(dateStr.substring(0, 7));
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateVariance,
+  computeElementVariance,
+  daysBetween,
+  getSlipCategory,
+  getWeekKey,
+  measureVariance,
+  VarianceElementInput
+} from './scheduleVariance';
+
+const TODAY = '2026-03-10';
+
+const element = (overrides: Partial<VarianceElementInput>): VarianceElementInput => ({
+  guid: 'g1',
+  assemblyMark: 'C-1',
+  factoryName: 'Obornik',
+  resource: 'Crane 1',
+  plannedDeliveryDate: '2026-03-02',
+  actualArrivalDate: '2026-03-02',
+  plannedInstallDate: '2026-03-03',
+  actualInstallDate: '2026-03-03T14:30:00',
+  ...overrides
+});
+
+describe('scheduleVariance', () => {
+  it('should count calendar days and ISO weeks', () => {
+    expect(daysBetween('2026-02-27', '2026-03-02')).toBe(3);
+    expect(daysBetween('2026-03-02', '2026-03-01')).toBe(-1);
+    expect(getWeekKey('2026-03-02')).toBe('2026-W10');
+    // Jan 1 2027 is a Friday - belongs to the last week of 2026
+    expect(getWeekKey('2027-01-01')).toBe('2026-W53');
+  });
+
+  it('should bucket slip days', () => {
+    expect(getSlipCategory(-2)).toBe('on_time');
+    expect(getSlipCategory(0)).toBe('on_time');
+    expect(getSlipCategory(3)).toBe('minor');
+    expect(getSlipCategory(4)).toBe('major');
+    expect(getSlipCategory(null)).toBe('no_data');
+  });
+
+  it('should count overdue open items until today', () => {
+    expect(measureVariance('2026-03-05', null, TODAY)).toEqual({ plannedDate: '2026-03-05', actualDate: null, days: 5, open: true });
+    expect(measureVariance('2026-03-12', null, TODAY).days).toBeNull();
+    expect(measureVariance(null, '2026-03-05', TODAY).days).toBeNull();
+  });
+
+  it('should use the worst of delivery and installation slip', () => {
+    const onTime = computeElementVariance(element({}), TODAY);
+    expect(onTime.delivery.days).toBe(0);
+    expect(onTime.installation.days).toBe(0);
+    expect(onTime.category).toBe('on_time');
+
+    const late = computeElementVariance(element({ actualArrivalDate: '2026-03-04', actualInstallDate: '2026-03-09' }), TODAY);
+    expect(late.slipDays).toBe(6);
+    expect(late.category).toBe('major');
+  });
+
+  it('should aggregate per factory and week', () => {
+    const rows = [
+      element({ guid: 'a' }),
+      element({ guid: 'b', actualArrivalDate: '2026-03-04', actualInstallDate: '2026-03-05' }),
+      element({ guid: 'c', factoryName: null, plannedInstallDate: '2026-03-16', actualInstallDate: null })
+    ].map(e => computeElementVariance(e, TODAY));
+
+    const factories = aggregateVariance(rows, 'factory');
+    expect(factories.map(g => g.key)).toEqual(['Obornik', '']);
+    expect(factories[0].count).toBe(2);
+    expect(factories[0].delivery).toEqual({ measured: 2, early: 0, late: 1, avgDays: 1, maxDays: 2 });
+    expect(factories[0].categories).toEqual({ on_time: 1, minor: 1, major: 0, no_data: 0 });
+
+    const weeks = aggregateVariance(rows, 'week');
+    expect(weeks.map(g => [g.key, g.count])).toEqual([['2026-W10', 2], ['2026-W12', 1]]);
+  });
+});
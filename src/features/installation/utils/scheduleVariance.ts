@@ -0,0 +1,192 @@
+import { getISOWeek } from '../../../shared/utils/deliveryHelpers';
+
+/**
+ * Schedule variance engine - compares baseline (planned) dates against actual
+ * arrival and installation dates. Positive days = late, negative = early.
+ */
+
+export type SlipCategory = 'on_time' | 'minor' | 'major' | 'no_data';
+export type VarianceGroupBy = 'day' | 'week' | 'factory' | 'resource';
+
+// Slip thresholds in days: 1-3 days late = minor, more = major
+export const MINOR_SLIP_MAX_DAYS = 3;
+
+export interface VarianceElementInput {
+  guid: string;
+  assemblyMark: string;
+  factoryName: string | null;
+  resource: string | null;
+  plannedDeliveryDate: string | null;   // DeliveryItem.scheduled_date
+  actualArrivalDate: string | null;     // ArrivedVehicle.arrival_date / ElementLifecycle.arrived_at
+  plannedInstallDate: string | null;    // Baseline ScheduleItem.scheduled_date
+  actualInstallDate: string | null;     // Installation.installed_at / ElementLifecycle.installed_at
+}
+
+export interface VarianceMeasure {
+  plannedDate: string | null;
+  actualDate: string | null;
+  days: number | null;      // actual - planned; for overdue open items today - planned
+  open: boolean;            // Planned date passed, no actual yet
+}
+
+export interface ElementVariance {
+  element: VarianceElementInput;
+  delivery: VarianceMeasure;
+  installation: VarianceMeasure;
+  slipDays: number | null;  // Worst of delivery and installation
+  category: SlipCategory;
+}
+
+export interface VarianceStats {
+  measured: number;
+  early: number;
+  late: number;
+  avgDays: number | null;
+  maxDays: number | null;
+}
+
+export interface VarianceGroup {
+  key: string;
+  count: number;
+  delivery: VarianceStats;
+  installation: VarianceStats;
+  categories: Record<SlipCategory, number>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date part (YYYY-MM-DD) of a date or timestamp string
+export const toDateKey = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Whole calendar days from one YYYY-MM-DD date to another
+export const daysBetween = (from: string, to: string): number => {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / DAY_MS);
+};
+
+// ISO week key, e.g. "2026-W05"
+export const getWeekKey = (dateKey: string): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  // ISO week year is the year of the week's Thursday
+  const thursday = new Date(year, month - 1, day + 3 - ((date.getDay() + 6) % 7));
+  return `${thursday.getFullYear()}-W${String(getISOWeek(date)).padStart(2, '0')}`;
+};
+
+export const getSlipCategory = (days: number | null): SlipCategory => {
+  if (days === null) return 'no_data';
+  if (days <= 0) return 'on_time';
+  if (days <= MINOR_SLIP_MAX_DAYS) return 'minor';
+  return 'major';
+};
+
+export const measureVariance = (
+  planned: string | null,
+  actual: string | null,
+  today: string
+): VarianceMeasure => {
+  const plannedDate = toDateKey(planned);
+  const actualDate = toDateKey(actual);
+
+  if (!plannedDate) return { plannedDate, actualDate, days: null, open: false };
+  if (actualDate) return { plannedDate, actualDate, days: daysBetween(plannedDate, actualDate), open: false };
+
+  // Not happened yet - count slip only once the planned date has passed
+  const overdue = daysBetween(plannedDate, today);
+  return { plannedDate, actualDate, days: overdue > 0 ? overdue : null, open: overdue > 0 };
+};
+
+export const computeElementVariance = (element: VarianceElementInput, today: string): ElementVariance => {
+  const delivery = measureVariance(element.plannedDeliveryDate, element.actualArrivalDate, today);
+  const installation = measureVariance(element.plannedInstallDate, element.actualInstallDate, today);
+
+  const measured = [delivery.days, installation.days].filter((d): d is number => d !== null);
+  const slipDays = measured.length > 0 ? Math.max(...measured) : null;
+
+  return { element, delivery, installation, slipDays, category: getSlipCategory(slipDays) };
+};
+
+const emptyStats = (): VarianceStats => ({ measured: 0, early: 0, late: 0, avgDays: null, maxDays: null });
+
+const addToStats = (stats: VarianceStats & { sum?: number }, days: number | null) => {
+  if (days === null) return;
+  stats.measured++;
+  if (days < 0) stats.early++;
+  if (days > 0) stats.late++;
+  stats.sum = (stats.sum || 0) + days;
+  stats.maxDays = stats.maxDays === null ? days : Math.max(stats.maxDays, days);
+};
+
+const finishStats = (stats: VarianceStats & { sum?: number }): VarianceStats => ({
+  measured: stats.measured,
+  early: stats.early,
+  late: stats.late,
+  avgDays: stats.measured > 0 ? Math.round(((stats.sum || 0) / stats.measured) * 10) / 10 : null,
+  maxDays: stats.maxDays
+});
+
+// Group key for an element; day/week use the baseline install date, falling back to planned delivery
+const getGroupKey = (row: ElementVariance, groupBy: VarianceGroupBy): string | null => {
+  const date = row.installation.plannedDate || row.delivery.plannedDate;
+  switch (groupBy) {
+    case 'day': return date;
+    case 'week': return date ? getWeekKey(date) : null;
+    case 'factory': return row.element.factoryName;
+    case 'resource': return row.element.resource;
+  }
+};
+
+/**
+ * Aggregate element variances per day, week, factory or resource.
+ * Elements without a group value are collected under an empty key.
+ */
+export const aggregateVariance = (rows: ElementVariance[], groupBy: VarianceGroupBy): VarianceGroup[] => {
+  const groups = new Map<string, {
+    count: number;
+    delivery: VarianceStats & { sum?: number };
+    installation: VarianceStats & { sum?: number };
+    categories: Record<SlipCategory, number>;
+  }>();
+
+  for (const row of rows) {
+    const key = getGroupKey(row, groupBy) || '';
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        count: 0,
+        delivery: emptyStats(),
+        installation: emptyStats(),
+        categories: { on_time: 0, minor: 0, major: 0, no_data: 0 }
+      };
+      groups.set(key, group);
+    }
+    group.count++;
+    addToStats(group.delivery, row.delivery.days);
+    addToStats(group.installation, row.installation.days);
+    group.categories[row.category]++;
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => ({
+      key,
+      count: group.count,
+      delivery: finishStats(group.delivery),
+      installation: finishStats(group.installation),
+      categories: group.categories
+    }))
+    .sort((a, b) => {
+      // Ungrouped last
+      if (!a.key) return 1;
+      if (!b.key) return -1;
+      return a.key.localeCompare(b.key);
+    });
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateWindRisk,
+  getDailyWorkingHoursMax,
+  getWindLimitForItem,
+  parseForecastTime,
+  parseWindForecastCsv,
+  toLocalDateKey
+} from './windForecast';
+import { ProjectCrane, ScheduleItem } from '../../../supabase';
+
+describe('windForecast', () => {
+  it('should parse local and dotted date-times', () => {
+    expect(parseForecastTime('2026-03-02 07:00')?.getHours()).toBe(7);
+    expect(toLocalDateKey(parseForecastTime('02.03.2026 13:30')!)).toBe('2026-03-02');
+    expect(parseForecastTime('tomorrow')).toBeNull();
+  });
+
+  it('should parse CSV with header, decimal commas and bad rows', () => {
+    const { points, skippedLines } = parseWindForecastCsv([
+      'time;wind;gust',
+      '2026-03-02 07:00;5,5;9,1',
+      '2026-03-02 08:00;6',
+      'x;y',
+      ''
+    ].join('\n'));
+    expect(points).toHaveLength(2);
+    expect(points[0].windSpeedMs).toBe(5.5);
+    expect(points[0].gustSpeedMs).toBe(9.1);
+    expect(points[1].gustSpeedMs).toBeNull();
+    expect(skippedLines).toEqual([4]);
+  });
+
+  it('should take the working hours maximum and flag exceeded limits', () => {
+    const at = (time: string, wind: number, gust: number | null = null) => ({
+      time: parseForecastTime(time)!.toISOString(), windSpeedMs: wind, gustSpeedMs: gust
+    });
+    const days = getDailyWorkingHoursMax([
+      at('2026-03-02 03:00', 20, 25), // night, ignored
+      at('2026-03-02 09:00', 6, 11),
+      at('2026-03-02 16:00', 8, 10),
+      at('2026-03-02 17:00', 15, 18)  // after working hours
+    ]);
+    const day = days.get('2026-03-02')!;
+    expect(day.windSpeedMs).toBe(8);
+    expect(day.gustSpeedMs).toBe(11);
+    expect(day.hours).toBe(2);
+
+    expect(evaluateWindRisk(day, 9, 18).exceeded).toBe(true);
+    expect(evaluateWindRisk(day, 14, 2).exceeded).toBe(false);
+  });
+
+  it('should pick the wind limit of the assigned or booked cranes', () => {
+    const crane = (id: string, limit: number | null, mobilization: string | null) => ({
+      id,
+      position_label: id,
+      mobilization_date: mobilization,
+      demobilization_date: null,
+      crane_model: { max_wind_speed_ms: limit }
+    } as ProjectCrane);
+    const cranes = [crane('K1', 14, '2026-03-01'), crane('K2', 9.8, '2026-04-01')];
+    const item = (overrides: Partial<ScheduleItem>) => ({ scheduled_date: '2026-03-02', ...overrides } as ScheduleItem);
+
+    expect(getWindLimitForItem(item({}), cranes)).toBe(14);
+    expect(getWindLimitForItem(item({ resource: 'K2' }), cranes)).toBe(9.8);
+    expect(getWindLimitForItem(item({ scheduled_date: '2026-02-01' }), cranes)).toBe(9.8);
+    expect(getWindLimitForItem(item({ install_methods: { manual: 2 } }), cranes)).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+import { ProjectCrane, ScheduleItem, WindForecast } from '../../../supabase';
+import { findAssignedCrane, getItemCraneCount, isCraneBooked } from '../../crane-planning/crane-booking/utils/craneBooking';
+
+// Working hours checked against the forecast (local time, end exclusive)
+export const WORK_DAY_START_HOUR = 7;
+export const WORK_DAY_END_HOUR = 17;
+
+export type WindForecastPoint = {
+  time: string;               // Start of the forecast hour (ISO)
+  windSpeedMs: number;
+  gustSpeedMs: number | null;
+};
+
+export type WindDayMax = {
+  date: string;               // YYYY-MM-DD (local)
+  windSpeedMs: number;
+  gustSpeedMs: number | null;
+  hours: number;              // forecast hours inside the working day
+};
+
+export type WindRisk = {
+  sailAreaM2: number;
+  allowedMs: number;
+  forecastMs: number;         // gust when given, else mean wind
+  exceeded: boolean;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Local date key (YYYY-MM-DD) of a timestamp
+ */
+export function toLocalDateKey(time: string | Date): string {
+  const d = typeof time === 'string' ? new Date(time) : time;
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * Parse a local date-time: "2026-03-02 07:00", "2026-03-02T07:00", ISO with zone or "02.03.2026 07:00"
+ */
+export function parseForecastTime(value: string): Date | null {
+  const text = value.trim().replace(/^"|"$/g, '');
+  const dotted = text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})[ T](\d{1,2}):(\d{2})/);
+  if (dotted) {
+    const [, d, m, y, h, min] = dotted.map(Number);
+    return new Date(y, m - 1, d, h, min);
+  }
+  const local = text.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (local) {
+    const [, y, m, d, h, min] = local.map(Number);
+    return new Date(y, m - 1, d, h, min);
+  }
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+const parseSpeed = (value: string | undefined): number | null => {
+  if (value === undefined || value.trim() === '') return null;
+  const speed = parseFloat(value.trim().replace(/^"|"$/g, '').replace(',', '.'));
+  return isNaN(speed) || speed < 0 ? null : speed;
+};
+
+/**
+ * Parse an hourly forecast CSV: time; wind (m/s); gust (m/s, optional).
+ * Delimiter ; , or tab; a header row and unparsable rows are skipped (1-based line numbers returned).
+ */
+export function parseWindForecastCsv(text: string): { points: WindForecastPoint[]; skippedLines: number[] } {
+  const points: WindForecastPoint[] = [];
+  const skippedLines: number[] = [];
+  const lines = text.split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    const delimiter = line.includes(';') ? ';' : line.includes('\t') ? '\t' : ',';
+    const cells = line.split(delimiter);
+    const time = parseForecastTime(cells[0] || '');
+    const wind = parseSpeed(cells[1]);
+    if (!time || wind === null) {
+      // First line is usually a header
+      if (index > 0) skippedLines.push(index + 1);
+      return;
+    }
+    points.push({ time: time.toISOString(), windSpeedMs: wind, gustSpeedMs: parseSpeed(cells[2]) });
+  });
+
+  return { points, skippedLines };
+}
+
+export function toForecastPoint(row: WindForecast): WindForecastPoint {
+  return {
+    time: row.forecast_time,
+    windSpeedMs: Number(row.wind_speed_ms),
+    gustSpeedMs: row.gust_speed_ms != null ? Number(row.gust_speed_ms) : null
+  };
+}
+
+/**
+ * Highest wind and gust per day within working hours
+ */
+export function getDailyWorkingHoursMax(points: WindForecastPoint[]): Map<string, WindDayMax> {
+  const days = new Map<string, WindDayMax>();
+  for (const point of points) {
+    const time = new Date(point.time);
+    const hour = time.getHours();
+    if (hour < WORK_DAY_START_HOUR || hour >= WORK_DAY_END_HOUR) continue;
+
+    const date = toLocalDateKey(time);
+    const day = days.get(date) || { date, windSpeedMs: 0, gustSpeedMs: null, hours: 0 };
+    day.windSpeedMs = Math.max(day.windSpeedMs, point.windSpeedMs);
+    if (point.gustSpeedMs !== null) day.gustSpeedMs = Math.max(day.gustSpeedMs ?? 0, point.gustSpeedMs);
+    day.hours++;
+    days.set(date, day);
+  }
+  return days;
+}
+
+/**
+ * Compare the day's worst wind (gust when forecast) with the permissible wind speed of the pick
+ */
+export function evaluateWindRisk(day: WindDayMax, allowedMs: number, sailAreaM2: number): WindRisk {
+  const forecastMs = Math.max(day.windSpeedMs, day.gustSpeedMs ?? 0);
+  return {
+    sailAreaM2: Math.round(sailAreaM2 * 10) / 10,
+    allowedMs,
+    forecastMs,
+    exceeded: forecastMs > allowedMs
+  };
+}
+
+/**
+ * In-service wind limit (m/s) for a schedule item: the crane named by its resource,
+ * else the strictest limit of cranes booked on the day (all placed cranes when none is booked).
+ * null = not a crane pick or no crane model has a wind limit.
+ */
+export function getWindLimitForItem(item: ScheduleItem, cranes: ProjectCrane[]): number | null {
+  const hasMethods = !!item.install_methods && Object.keys(item.install_methods).length > 0;
+  if (hasMethods && getItemCraneCount(item, cranes) === 0) return null;
+
+  const limitOf = (crane: ProjectCrane) =>
+    crane.crane_model?.max_wind_speed_ms != null ? Number(crane.crane_model.max_wind_speed_ms) : null;
+
+  const assigned = findAssignedCrane(item, cranes);
+  if (assigned) return limitOf(assigned);
+
+  const booked = cranes.filter(c => isCraneBooked(c, item.scheduled_date));
+  const limits = (booked.length > 0 ? booked : cranes)
+    .map(limitOf)
+    .filter((limit): limit is number => limit !== null);
+  return limits.length > 0 ? Math.min(...limits) : null;
+}
@@ -0,0 +1,330 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FiEdit2, FiGrid, FiLoader, FiPlus, FiSave, FiTrash2, FiX } from 'react-icons/fi';
+import { ProjectCoordinateSettings, YardZone, YardZoneCoordinateSpace } from '../../../supabase';
+import type { DetailPosition } from '../../admin/types';
+import { useYardZones } from '../hooks/useYardZones';
+import {
+  locateInYard,
+  parseZoneVertices,
+  resolveYardZones,
+  toPlanPoint,
+  YardLatLng,
+  YardLocation,
+} from '../utils/yardZones';
+
+interface YardPlanPanelProps {
+  projectId: string;
+  positions: DetailPosition[];
+  settings: ProjectCoordinateSettings | null;
+  userEmail?: string;
+  onSelectPosition?: (position: DetailPosition) => void;
+}
+
+interface ZoneDraft {
+  id?: string;
+  name: string;
+  coordinateSpace: YardZoneCoordinateSpace;
+  vertices: string;
+  rowCount: string;
+  color: string;
+}
+
+const DEFAULT_ZONE_COLOR = '#3b82f6';
+const PLAN_HEIGHT = 260;
+
+const emptyDraft = (): ZoneDraft => ({ name: '', coordinateSpace: 'gps', vertices: '', rowCount: '', color: DEFAULT_ZONE_COLOR });
+
+const toDraft = (zone: YardZone): ZoneDraft => ({
+  id: zone.id,
+  name: zone.name,
+  coordinateSpace: zone.coordinate_space,
+  vertices: zone.vertices.map(([a, b]) => `${a}, ${b}`).join('\n'),
+  rowCount: zone.row_count ? String(zone.row_count) : '',
+  color: zone.color || DEFAULT_ZONE_COLOR
+});
+
+/**
+ * Laydown yard: zone editor, plan view and what is stored where
+ */
+export function YardPlanPanel({ projectId, positions, settings, userEmail, onSelectPosition }: YardPlanPanelProps) {
+  const { t } = useTranslation('admin');
+  const { zones, loading, saveZone, deleteZone } = useYardZones(projectId);
+  const [draft, setDraft] = useState<ZoneDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const resolvedZones = useMemo(() => resolveYardZones(zones, settings), [zones, settings]);
+
+  const located = useMemo(() => positions
+    .filter(p => p.latitude !== null && p.longitude !== null)
+    .map(p => ({
+      position: p,
+      gps: { lat: p.latitude!, lng: p.longitude! } as YardLatLng,
+      location: locateInYard({ lat: p.latitude!, lng: p.longitude! }, resolvedZones) as YardLocation | null
+    })), [positions, resolvedZones]);
+
+  // Stored elements per zone, sorted by row
+  const storage = useMemo(() => zones.map(zone => ({
+    zone,
+    items: located
+      .filter(l => l.location?.zoneId === zone.id)
+      .sort((a, b) => (a.location!.row || 0) - (b.location!.row || 0) ||
+        (a.position.assembly_mark || '').localeCompare(b.position.assembly_mark || ''))
+  })), [zones, located]);
+  const outsideCount = located.filter(l => !l.location).length;
+
+  // Plan view geometry in meters (north up)
+  const plan = useMemo(() => {
+    const origin = resolvedZones[0]?.outline[0] || located[0]?.gps;
+    if (!origin) return null;
+    const zonePolygons = resolvedZones.map(({ zone, outline }) => ({ zone, points: outline.map(p => toPlanPoint(p, origin)) }));
+    const dots = located.map(l => ({ ...l, point: toPlanPoint(l.gps, origin) }));
+    const all = [...zonePolygons.flatMap(z => z.points), ...dots.map(d => d.point)];
+    const minX = Math.min(...all.map(p => p.x));
+    const maxX = Math.max(...all.map(p => p.x));
+    const minY = Math.min(...all.map(p => p.y));
+    const maxY = Math.max(...all.map(p => p.y));
+    const extent = Math.max(maxX - minX, maxY - minY, 10);
+    const pad = extent * 0.08;
+    return {
+      zonePolygons,
+      dots,
+      viewBox: `${minX - pad} ${-maxY - pad} ${maxX - minX + 2 * pad} ${maxY - minY + 2 * pad}`,
+      fontSize: extent / 30,
+      dotRadius: extent / 150
+    };
+  }, [resolvedZones, located]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const vertices = parseZoneVertices(draft.vertices);
+    if (!draft.name.trim() || !vertices) {
+      alert(t('yard.invalidZone'));
+      return;
+    }
+    const rowCount = parseInt(draft.rowCount, 10);
+
+    setSaving(true);
+    const saved = await saveZone({
+      name: draft.name.trim(),
+      coordinate_space: draft.coordinateSpace,
+      vertices,
+      row_count: rowCount > 0 ? rowCount : null,
+      color: draft.color
+    }, draft.id, userEmail);
+    setSaving(false);
+    if (saved) setDraft(null);
+    else alert(t('yard.saveFailed'));
+  };
+
+  const handleDelete = async (zone: YardZone) => {
+    if (!confirm(t('yard.deleteConfirm', { name: zone.name }))) return;
+    await deleteZone(zone.id);
+  };
+
+  const sectionTitle: React.CSSProperties = { fontSize: '13px', fontWeight: 600, margin: '0 0 6px 0', display: 'flex', alignItems: 'center', gap: '6px' };
+  const inputStyle: React.CSSProperties = { padding: '6px 8px', fontSize: '12px', borderRadius: '4px', border: '1px solid #d1d5db' };
+  const labelStyle: React.CSSProperties = { display: 'block', fontSize: '11px', color: '#6b7280', marginBottom: '2px' };
+
+  return (
+    <div style={{ marginTop: '16px', padding: '12px', background: '#fafafa', borderRadius: '8px', border: '1px solid #e5e7eb' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <p style={sectionTitle}><FiGrid size={14} /> {t('yard.title')}</p>
+        {!draft && (
+          <button className="admin-tool-btn" onClick={() => setDraft(emptyDraft())} style={{ padding: '6px 10px' }}>
+            <FiPlus size={12} />
+            <span>{t('yard.addZone')}</span>
+          </button>
+        )}
+      </div>
+
+      {/* Zone form */}
+      {draft && (
+        <div style={{ padding: '10px', background: 'white', borderRadius: '6px', border: '1px solid #e5e7eb', marginBottom: '10px' }}>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 80px 60px', gap: '8px', marginBottom: '8px' }}>
+            <div>
+              <label style={labelStyle}>{t('yard.name')}</label>
+              <input
+                value={draft.name}
+                onChange={e => setDraft({ ...draft, name: e.target.value })}
+                placeholder="B3"
+                style={{ ...inputStyle, width: '100%', boxSizing: 'border-box' }}
+              />
+            </div>
+            <div>
+              <label style={labelStyle}>{t('yard.coordinateSpace')}</label>
+              <select
+                value={draft.coordinateSpace}
+                onChange={e => setDraft({ ...draft, coordinateSpace: e.target.value as YardZoneCoordinateSpace })}
+                style={{ ...inputStyle, width: '100%' }}
+              >
+                <option value="gps">{t('yard.space.gps')}</option>
+                <option value="model">{t('yard.space.model')}</option>
+              </select>
+            </div>
+            <div>
+              <label style={labelStyle}>{t('yard.rows')}</label>
+              <input
+                type="number"
+                min={1}
+                value={draft.rowCount}
+                onChange={e => setDraft({ ...draft, rowCount: e.target.value })}
+                style={{ ...inputStyle, width: '100%', boxSizing: 'border-box' }}
+              />
+            </div>
+            <div>
+              <label style={labelStyle}>{t('yard.color')}</label>
+              <input
+                type="color"
+                value={draft.color}
+                onChange={e => setDraft({ ...draft, color: e.target.value })}
+                style={{ width: '100%', height: '30px', border: 'none', padding: 0 }}
+              />
+            </div>
+          </div>
+          <label style={labelStyle}>
+            {t(draft.coordinateSpace === 'gps' ? 'yard.verticesGps' : 'yard.verticesModel')}
+          </label>
+          <textarea
+            value={draft.vertices}
+            onChange={e => setDraft({ ...draft, vertices: e.target.value })}
+            rows={5}
+            placeholder={draft.coordinateSpace === 'gps' ? '59.437012, 24.745310' : '120.5, 48.0'}
+            style={{ ...inputStyle, width: '100%', boxSizing: 'border-box', fontFamily: 'monospace' }}
+          />
+          <div style={{ fontSize: '11px', color: '#6b7280', margin: '4px 0 8px 0' }}>{t('yard.rowsHint')}</div>
+          {draft.coordinateSpace === 'model' && !settings && (
+            <div style={{ fontSize: '11px', color: '#b45309', marginBottom: '8px' }}>{t('yard.notCalibrated')}</div>
+          )}
+          <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+            <button className="admin-tool-btn" onClick={() => setDraft(null)} style={{ padding: '6px 10px' }}>
+              <FiX size={12} />
+              <span>{t('common:buttons.cancel')}</span>
+            </button>
+            <button
+              className="admin-tool-btn"
+              onClick={handleSave}
+              disabled={saving}
+              style={{ padding: '6px 10px', background: 'var(--modus-primary)', color: 'white' }}
+            >
+              {saving ? <FiLoader size={12} className="spin" /> : <FiSave size={12} />}
+              <span>{t('common:buttons.save')}</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Plan view */}
+      {plan ? (
+        <svg
+          viewBox={plan.viewBox}
+          style={{ width: '100%', height: `${PLAN_HEIGHT}px`, background: 'white', borderRadius: '6px', border: '1px solid #e5e7eb' }}
+        >
+          <g transform="scale(1,-1)">
+            {plan.zonePolygons.map(({ zone, points }) => (
+              <polygon
+                key={zone.id}
+                points={points.map(p => `${p.x},${p.y}`).join(' ')}
+                fill={zone.color || DEFAULT_ZONE_COLOR}
+                fillOpacity={0.15}
+                stroke={zone.color || DEFAULT_ZONE_COLOR}
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            {plan.dots.map(({ position, point, location }) => (
+              <circle
+                key={position.id}
+                cx={point.x}
+                cy={point.y}
+                r={plan.dotRadius}
+                fill={location ? '#16a34a' : '#dc2626'}
+                style={{ cursor: onSelectPosition ? 'pointer' : undefined }}
+                onClick={() => onSelectPosition?.(position)}
+              >
+                <title>{position.assembly_mark || position.guid}</title>
+              </circle>
+            ))}
+          </g>
+          {plan.zonePolygons.map(({ zone, points }) => {
+            const cx = points.reduce((s, p) => s + p.x, 0) / points.length;
+            const cy = points.reduce((s, p) => s + p.y, 0) / points.length;
+            return (
+              <text
+                key={zone.id}
+                x={cx}
+                y={-cy}
+                fontSize={plan.fontSize}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fill="#1f2937"
+                fontWeight={600}
+              >
+                {zone.name}
+              </text>
+            );
+          })}
+        </svg>
+      ) : (
+        <div style={{ padding: '16px', textAlign: 'center', color: '#9ca3af', fontSize: '12px' }}>
+          {loading ? <FiLoader className="spin" size={14} /> : t('yard.empty')}
+        </div>
+      )}
+
+      {/* Stored elements per zone */}
+      {storage.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginTop: '10px' }}>
+          {storage.map(({ zone, items }) => (
+            <div key={zone.id} style={{ padding: '8px', background: 'white', borderRadius: '6px', border: '1px solid #e5e7eb' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px' }}>
+                <span style={{ width: '10px', height: '10px', borderRadius: '2px', background: zone.color || DEFAULT_ZONE_COLOR }} />
+                <strong>{zone.name}</strong>
+                <span style={{ color: '#6b7280' }}>
+                  {t('yard.storedCount', { count: items.length })}
+                  {zone.row_count ? ` • ${t('yard.rowCount', { count: zone.row_count })}` : ''}
+                </span>
+                <button
+                  onClick={() => setDraft(toDraft(zone))}
+                  title={t('common:buttons.edit')}
+                  style={{ marginLeft: 'auto', border: 'none', background: 'transparent', cursor: 'pointer', color: '#6b7280' }}
+                >
+                  <FiEdit2 size={12} />
+                </button>
+                <button
+                  onClick={() => handleDelete(zone)}
+                  title={t('common:buttons.delete')}
+                  style={{ border: 'none', background: 'transparent', cursor: 'pointer', color: '#ef4444' }}
+                >
+                  <FiTrash2 size={12} />
+                </button>
+              </div>
+              {items.length > 0 && (
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '6px' }}>
+                  {items.map(({ position, location }) => (
+                    <span
+                      key={position.id}
+                      onClick={() => onSelectPosition?.(position)}
+                      style={{
+                        padding: '2px 6px',
+                        borderRadius: '4px',
+                        background: '#f3f4f6',
+                        fontSize: '11px',
+                        cursor: onSelectPosition ? 'pointer' : undefined
+                      }}
+                    >
+                      {position.assembly_mark || position.guid.slice(0, 8)}
+                      {location?.row && <span style={{ color: '#6b7280' }}> · {t('yard.rowShort', { row: location.row })}</span>}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          {outsideCount > 0 && (
+            <div style={{ fontSize: '11px', color: '#dc2626' }}>{t('yard.outsideZones', { count: outsideCount })}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
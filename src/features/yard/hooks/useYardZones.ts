@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, YardZone } from '../../../supabase';
+
+type YardZoneInput = Pick<YardZone, 'name' | 'coordinate_space' | 'vertices'> &
+  Partial<Pick<YardZone, 'row_count' | 'color' | 'notes'>>;
+
+interface UseYardZonesResult {
+  zones: YardZone[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  saveZone: (data: YardZoneInput, id?: string, userEmail?: string) => Promise<YardZone | null>;
+  deleteZone: (id: string) => Promise<boolean>;
+}
+
+/**
+ * Laydown yard zones of the project, ordered by name
+ */
+export async function fetchYardZones(projectId: string): Promise<YardZone[]> {
+  const { data, error } = await supabase
+    .from('yard_zones')
+    .select('*')
+    .eq('trimble_project_id', projectId)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as YardZone[];
+}
+
+/**
+ * Laydown yard zones (storage areas) of the project
+ */
+export function useYardZones(projectId: string | null | undefined): UseYardZonesResult {
+  const [zones, setZones] = useState<YardZone[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchZones = useCallback(async () => {
+    if (!projectId) {
+      setZones([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setZones(await fetchYardZones(projectId));
+    } catch (err) {
+      console.error('Error fetching yard zones:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchZones();
+  }, [fetchZones]);
+
+  const saveZone = useCallback(async (
+    data: YardZoneInput,
+    id?: string,
+    userEmail?: string
+  ): Promise<YardZone | null> => {
+    if (!projectId) return null;
+
+    try {
+      const query = id
+        ? supabase
+          .from('yard_zones')
+          .update({ ...data, updated_at: new Date().toISOString() })
+          .eq('id', id)
+        : supabase
+          .from('yard_zones')
+          .insert({ ...data, trimble_project_id: projectId, created_by_email: userEmail });
+
+      const { data: saved, error: saveError } = await query.select().single();
+
+      if (saveError) {
+        console.error('Error saving yard zone:', saveError);
+        setError(saveError.message);
+        return null;
+      }
+
+      // Update local state
+      setZones(prev => [...prev.filter(z => z.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      console.log(`✅ Yard zone saved: ${saved.name}`);
+      return saved;
+    } catch (err) {
+      console.error('Error saving yard zone:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return null;
+    }
+  }, [projectId]);
+
+  const deleteZone = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await supabase
+        .from('yard_zones')
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) {
+        console.error('Error deleting yard zone:', deleteError);
+        setError(deleteError.message);
+        return false;
+      }
+
+      // Update local state
+      setZones(prev => prev.filter(z => z.id !== id));
+      return true;
+    } catch (err) {
+      console.error('Error deleting yard zone:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, []);
+
+  return {
+    zones,
+    loading,
+    error,
+    refetch: fetchZones,
+    saveZone,
+    deleteZone
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  getZoneRow,
+  isPointInPolygon,
+  locateInYard,
+  parseZoneVertices,
+  resolveYardZones,
+  toPlanPoint,
+} from './yardZones';
+import { YardZone } from '../../../supabase';
+
+// Setup mocks the supabase client module - coordinate systems are needed by coordinateTransform
+vi.mock('../../../supabase', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../supabase')>()),
+}));
+
+const zone = (overrides: Partial<YardZone>): YardZone => ({
+  id: 'z1',
+  trimble_project_id: 'p1',
+  name: 'B3',
+  coordinate_space: 'gps',
+  vertices: [],
+  created_at: '',
+  updated_at: '',
+  ...overrides,
+});
+
+// ~20 m (east) x ~11 m (north) rectangle
+const rectangle: [number, number][] = [
+  [59.4000, 24.7000],
+  [59.4000, 24.70035],
+  [59.4001, 24.70035],
+  [59.4001, 24.7000],
+];
+
+describe('yardZones', () => {
+  it('tests points against the polygon in plan meters', () => {
+    const origin = { lat: 59.4, lng: 24.7 };
+    const east = toPlanPoint({ lat: 59.4, lng: 24.70035 }, origin);
+    expect(east.x).toBeCloseTo(19.8, 0);
+    expect(east.y).toBeCloseTo(0, 6);
+
+    const square = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+    expect(isPointInPolygon({ x: 5, y: 5 }, square)).toBe(true);
+    expect(isPointInPolygon({ x: 10, y: 5 }, square)).toBe(true); // edge
+    expect(isPointInPolygon({ x: 11, y: 5 }, square)).toBe(false);
+  });
+
+  it('numbers rows from the first edge', () => {
+    const square = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+    expect(getZoneRow({ x: 5, y: 1 }, square, 4)).toBe(1);
+    expect(getZoneRow({ x: 5, y: 6 }, square, 4)).toBe(3);
+    expect(getZoneRow({ x: 5, y: 10 }, square, 4)).toBe(4);
+    // Clockwise outline: interior on the other side of the first edge
+    const clockwise = [{ x: 0, y: 10 }, { x: 10, y: 10 }, { x: 10, y: 0 }, { x: 0, y: 0 }];
+    expect(getZoneRow({ x: 5, y: 9 }, clockwise, 4)).toBe(1);
+  });
+
+  it('locates a GPS position in a zone and row', () => {
+    const zones = resolveYardZones([
+      zone({ vertices: rectangle, row_count: 2 }),
+      zone({ id: 'z2', name: 'M1', coordinate_space: 'model', vertices: [[0, 0], [1, 0], [1, 1]] }),
+    ], null);
+    // Model-space zone is skipped without coordinate settings
+    expect(zones).toHaveLength(1);
+
+    expect(locateInYard({ lat: 59.40008, lng: 24.7001 }, zones)).toEqual({ zoneId: 'z1', zoneName: 'B3', row: 2 });
+    expect(locateInYard({ lat: 59.40002, lng: 24.7001 }, zones)?.row).toBe(1);
+    expect(locateInYard({ lat: 59.4005, lng: 24.7001 }, zones)).toBeNull();
+  });
+
+  it('parses vertices with decimal commas', () => {
+    expect(parseZoneVertices('59.4, 24.7\n59,41; 24,7\n59.41 24.71')).toEqual([[59.4, 24.7], [59.41, 24.7], [59.41, 24.71]]);
+    expect(parseZoneVertices('59.4, 24.7\n59.41, 24.7')).toBeNull();
+    expect(parseZoneVertices('a, b\n1, 2\n3, 4')).toBeNull();
+  });
+});
@@ -0,0 +1,141 @@
+import { ProjectCoordinateSettings, YardZone } from '../../../supabase';
+import { modelMetersToGps } from '../../../utils/coordinateTransform';
+
+export interface YardLatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface YardPlanPoint {
+  x: number; // meters east of the plan origin
+  y: number; // meters north of the plan origin
+}
+
+// Zone with its outline resolved to GPS
+export interface ResolvedYardZone {
+  zone: YardZone;
+  outline: YardLatLng[];
+}
+
+export interface YardLocation {
+  zoneId: string;
+  zoneName: string;
+  row: number | null;
+}
+
+const EARTH_RADIUS_M = 6371000;
+
+/**
+ * Zone outline in GPS. Model-space zones need the project's coordinate settings;
+ * returns null when the outline cannot be resolved.
+ */
+export function resolveZoneOutline(zone: YardZone, settings: ProjectCoordinateSettings | null): YardLatLng[] | null {
+  if (!zone.vertices || zone.vertices.length < 3) return null;
+  if (zone.coordinate_space === 'gps') {
+    return zone.vertices.map(([lat, lng]) => ({ lat, lng }));
+  }
+  if (!settings) return null;
+  try {
+    return zone.vertices.map(([x, y]) => modelMetersToGps(x, y, 0, settings));
+  } catch (e) {
+    console.warn(`Could not convert yard zone ${zone.name} to GPS:`, e);
+    return null;
+  }
+}
+
+export function resolveYardZones(zones: YardZone[], settings: ProjectCoordinateSettings | null): ResolvedYardZone[] {
+  const resolved: ResolvedYardZone[] = [];
+  for (const zone of zones) {
+    const outline = resolveZoneOutline(zone, settings);
+    if (outline) resolved.push({ zone, outline });
+  }
+  return resolved;
+}
+
+/**
+ * Local plan coordinates in meters (equirectangular, accurate to cm over a site)
+ */
+export function toPlanPoint(point: YardLatLng, origin: YardLatLng): YardPlanPoint {
+  const toRad = Math.PI / 180;
+  return {
+    x: (point.lng - origin.lng) * toRad * EARTH_RADIUS_M * Math.cos(origin.lat * toRad),
+    y: (point.lat - origin.lat) * toRad * EARTH_RADIUS_M
+  };
+}
+
+/**
+ * Ray casting point-in-polygon test (edges count as inside)
+ */
+export function isPointInPolygon(point: YardPlanPoint, polygon: YardPlanPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    // On edge
+    const cross = (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x);
+    const within = Math.min(a.x, b.x) - 1e-9 <= point.x && point.x <= Math.max(a.x, b.x) + 1e-9 &&
+      Math.min(a.y, b.y) - 1e-9 <= point.y && point.y <= Math.max(a.y, b.y) + 1e-9;
+    if (Math.abs(cross) < 1e-9 && within) return true;
+
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Row number (1..rowCount) of a point inside the zone. Rows are equal strips parallel
+ * to the zone's first edge (vertex 1 -> 2), row 1 along that edge.
+ */
+export function getZoneRow(point: YardPlanPoint, polygon: YardPlanPoint[], rowCount: number): number {
+  const [a, b] = polygon;
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  if (length === 0 || rowCount <= 1) return 1;
+
+  // Distance from the first edge line, measured towards the zone interior
+  const distance = (p: YardPlanPoint) => ((b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x)) / length;
+  const distances = polygon.map(distance);
+  const sign = Math.max(...distances) >= -Math.min(...distances) ? 1 : -1;
+  const depth = Math.max(...distances.map(d => d * sign));
+  if (depth <= 0) return 1;
+
+  const row = Math.floor(distance(point) * sign / depth * rowCount) + 1;
+  return Math.min(Math.max(row, 1), rowCount);
+}
+
+/**
+ * Zone (and row) containing a GPS position. Overlapping zones: the first one in the list wins.
+ */
+export function locateInYard(position: YardLatLng, zones: ResolvedYardZone[]): YardLocation | null {
+  for (const { zone, outline } of zones) {
+    const origin = outline[0];
+    const polygon = outline.map(p => toPlanPoint(p, origin));
+    const point = toPlanPoint(position, origin);
+    if (!isPointInPolygon(point, polygon)) continue;
+    return {
+      zoneId: zone.id,
+      zoneName: zone.name,
+      row: zone.row_count ? getZoneRow(point, polygon, zone.row_count) : null
+    };
+  }
+  return null;
+}
+
+/**
+ * Parse zone vertices from text: one "a, b" or "a; b" pair per line
+ */
+export function parseZoneVertices(text: string): [number, number][] | null {
+  const vertices: [number, number][] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const parts = line.includes(';') ? line.split(';') : line.trim().split(/\s*,\s*|\s+/);
+    if (parts.length !== 2) return null;
+    const a = parseFloat(parts[0].replace(',', '.'));
+    const b = parseFloat(parts[1].replace(',', '.'));
+    if (isNaN(a) || isNaN(b)) return null;
+    vertices.push([a, b]);
+  }
+  return vertices.length >= 3 ? vertices : null;
+}
@@ -5,11 +5,13 @@ import {
   CalibrationPoint,
   CalibrationCaptureMethod,
   COORDINATE_SYSTEMS,
+  TransformType,
 } from '../supabase';
 import {
   performCalibration,
   getModelUnitsToMeters,
   CalibrationResult,
+  MIN_CALIBRATION_POINTS,
 } from '../utils/coordinateTransform';
 
 export interface NewCalibrationPoint {
@@ -39,7 +41,8 @@ export interface UseCalibrationPointsResult {
   togglePointActive: (id: string) => Promise<boolean>;
   recalibrate: (
     coordinateSystemId: string,
-    modelUnits: string
+    modelUnits: string,
+    transformType?: TransformType
   ) => Promise<CalibrationResult | null>;
   refresh: () => Promise<void>;
 }
@@ -194,12 +197,13 @@ export function useCalibrationPoints(projectId: string | null): UseCalibrationPo
   // Recalibrate using current active points
   const recalibrate = useCallback(async (
     coordinateSystemId: string,
-    modelUnits: string
+    modelUnits: string,
+    transformType: TransformType = 'helmert_2d'
   ): Promise<CalibrationResult | null> => {
     const activePoints = points.filter(p => p.is_active);
 
-    if (activePoints.length < 2) {
-      setError(t('calibration.minPointsRequired'));
+    if (activePoints.length < MIN_CALIBRATION_POINTS[transformType]) {
+      setError(t('calibration.minPointsRequired', { count: MIN_CALIBRATION_POINTS[transformType] }));
       return null;
     }
 
@@ -212,12 +216,13 @@ export function useCalibrationPoints(projectId: string | null): UseCalibrationPo
 
     try {
       const modelUnitsToMeters = getModelUnitsToMeters(modelUnits);
-      const result = performCalibration(activePoints, cs.epsg_code, modelUnitsToMeters);
+      // All points are passed so disabled ones also get a residual against the new fit
+      const result = performCalibration(points, cs.epsg_code, modelUnitsToMeters, transformType);
 
       // Update each point with its calculated error
-      for (let i = 0; i < activePoints.length; i++) {
-        await updatePoint(activePoints[i].id, {
-          calculated_error_m: result.quality.errors[i]
+      for (const residual of result.residuals) {
+        await updatePoint(residual.pointId, {
+          calculated_error_m: residual.error
         });
       }
 
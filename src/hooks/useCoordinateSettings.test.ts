@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { useCoordinateSettings } from './useCoordinateSettings';
+
+const mockInsert = vi.hoisted(() => vi.fn(() => Promise.resolve({ error: null })));
+const mockUpdate = vi.hoisted(() => vi.fn());
+
+// Project without a settings row
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(() => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      single: vi.fn(() => Promise.resolve({ data: null, error: { code: 'PGRST116' } })),
+      insert: mockInsert,
+      update: mockUpdate
+    }))
+  }
+}));
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({ t: (key: string) => key })
+}));
+
+describe('useCoordinateSettings', () => {
+  it('should fall back to Belgian Lambert 72 without writing, and create the row on save', async () => {
+    const { result } = renderHook(() => useCoordinateSettings('project-1'));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.settings).toMatchObject({
+      coordinate_system_id: 'belgian_lambert_72',
+      model_has_real_coordinates: true,
+      model_units: 'meters'
+    });
+    expect(mockInsert).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await result.current.updateSettings({ model_units: 'millimeters' });
+    });
+
+    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(mockInsert).toHaveBeenCalledWith(expect.objectContaining({
+      trimble_project_id: 'project-1',
+      coordinate_system_id: 'belgian_lambert_72',
+      model_units: 'millimeters'
+    }));
+    expect(mockInsert.mock.calls[0]).not.toHaveProperty('0.id');
+  });
+});
@@ -3,7 +3,7 @@ import { useTranslation } from 'react-i18next';
 import {
   supabase,
   ProjectCoordinateSettings,
-  HelmertTransformParams,
+  CalibrationTransformParams,
   CalibrationStatus,
   CalibrationQuality,
   ModelUnits,
@@ -15,7 +15,7 @@ export interface UseCoordinateSettingsResult {
   error: string | null;
   updateSettings: (updates: Partial<ProjectCoordinateSettings>) => Promise<boolean>;
   saveCalibration: (
-    params: HelmertTransformParams,
+    params: CalibrationTransformParams,
     quality: {
       rmse: number;
       maxError: number;
@@ -28,6 +28,25 @@ export interface UseCoordinateSettingsResult {
   refresh: () => Promise<void>;
 }
 
+/**
+ * Settings of a project that has not saved any: the model is in Belgian Lambert 72
+ * coordinates (meters), which GPS conversion assumed before settings existed
+ */
+function getDefaultSettings(projectId: string): ProjectCoordinateSettings {
+  return {
+    id: '',
+    trimble_project_id: projectId,
+    country_code: 'BE',
+    coordinate_system_id: 'belgian_lambert_72',
+    model_units: 'meters' as ModelUnits,
+    model_has_real_coordinates: true,
+    calibration_status: 'not_calibrated' as CalibrationStatus,
+    calibration_points_count: 0,
+    created_at: '',
+    updated_at: ''
+  };
+}
+
 /**
  * Hook for managing project coordinate settings
  */
@@ -36,6 +55,8 @@ export function useCoordinateSettings(projectId: string | null): UseCoordinateSe
   const [settings, setSettings] = useState<ProjectCoordinateSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Settings row exists in the database (false = defaults, inserted on first save)
+  const [saved, setSaved] = useState(false);
 
   // Load settings
   const loadSettings = useCallback(async () => {
@@ -59,29 +80,9 @@ export function useCoordinateSettings(projectId: string | null): UseCoordinateSe
         throw queryError;
       }
 
-      // If no settings exist, create defaults
-      if (!data) {
-        const defaults: Partial<ProjectCoordinateSettings> = {
-          trimble_project_id: projectId,
-          country_code: 'LOCAL',
-          coordinate_system_id: 'local_calibrated',
-          model_units: 'millimeters' as ModelUnits,
-          model_has_real_coordinates: false,
-          calibration_status: 'not_calibrated' as CalibrationStatus,
-          calibration_points_count: 0,
-        };
-
-        const { data: newData, error: insertError } = await supabase
-          .from('project_coordinate_settings')
-          .insert(defaults)
-          .select()
-          .single();
-
-        if (insertError) throw insertError;
-        setSettings(newData as ProjectCoordinateSettings);
-      } else {
-        setSettings(data as ProjectCoordinateSettings);
-      }
+      // No settings yet - use defaults without writing, the row is created on first save
+      setSettings(data ? data as ProjectCoordinateSettings : getDefaultSettings(projectId));
+      setSaved(!!data);
     } catch (err) {
       console.error('Error loading coordinate settings:', err);
       setError(err instanceof Error ? err.message : t('coordinates.loadSettingsError'));
@@ -90,6 +91,30 @@ export function useCoordinateSettings(projectId: string | null): UseCoordinateSe
     }
   }, [projectId]);
 
+  // Write changes to the settings row, creating it from the defaults on first save
+  const writeSettings = useCallback(async (
+    current: ProjectCoordinateSettings,
+    updates: { [K in keyof ProjectCoordinateSettings]?: ProjectCoordinateSettings[K] | null }
+  ) => {
+    if (saved) {
+      const { error: updateError } = await supabase
+        .from('project_coordinate_settings')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', current.id);
+      if (updateError) throw updateError;
+      return;
+    }
+
+    const { id: _id, created_at: _createdAt, updated_at: _updatedAt, ...defaults } = current;
+    const { error: insertError } = await supabase
+      .from('project_coordinate_settings')
+      .insert({ ...defaults, ...updates });
+    if (insertError) throw insertError;
+  }, [saved]);
+
   // Update settings
   const updateSettings = useCallback(async (
     updates: Partial<ProjectCoordinateSettings>
@@ -100,15 +125,7 @@ export function useCoordinateSettings(projectId: string | null): UseCoordinateSe
     }
 
     try {
-      const { error: updateError } = await supabase
-        .from('project_coordinate_settings')
-        .update({
-          ...updates,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', settings.id);
-
-      if (updateError) throw updateError;
+      await writeSettings(settings, updates);
 
       // Refresh settings
       await loadSettings();
@@ -118,11 +135,11 @@ export function useCoordinateSettings(projectId: string | null): UseCoordinateSe
       setError(err instanceof Error ? err.message : t('coordinates.updateSettingsError'));
       return false;
     }
-  }, [projectId, settings, loadSettings]);
+  }, [projectId, settings, loadSettings, writeSettings]);
 
   // Save calibration result
   const saveCalibration = useCallback(async (
-    params: HelmertTransformParams,
+    params: CalibrationTransformParams,
     quality: {
       rmse: number;
       maxError: number;
@@ -137,23 +154,17 @@ export function useCoordinateSettings(projectId: string | null): UseCoordinateSe
     }
 
     try {
-      const { error: updateError } = await supabase
-        .from('project_coordinate_settings')
-        .update({
-          transform_type: 'helmert_2d',
-          transform_matrix: params,
-          calibration_status: 'calibrated' as CalibrationStatus,
-          calibration_points_count: pointsCount,
-          calibration_rmse_m: quality.rmse,
-          calibration_max_error_m: quality.maxError,
-          calibration_quality: quality.quality,
-          calibrated_at: new Date().toISOString(),
-          calibrated_by_name: userName,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', settings.id);
-
-      if (updateError) throw updateError;
+      await writeSettings(settings, {
+        transform_type: params.type,
+        transform_matrix: params,
+        calibration_status: 'calibrated' as CalibrationStatus,
+        calibration_points_count: pointsCount,
+        calibration_rmse_m: quality.rmse,
+        calibration_max_error_m: quality.maxError,
+        calibration_quality: quality.quality,
+        calibrated_at: new Date().toISOString(),
+        calibrated_by_name: userName
+      });
 
       // Refresh settings
       await loadSettings();
@@ -163,7 +174,7 @@ export function useCoordinateSettings(projectId: string | null): UseCoordinateSe
       setError(err instanceof Error ? err.message : t('coordinates.saveCalibrationError'));
       return false;
     }
-  }, [projectId, settings, loadSettings]);
+  }, [projectId, settings, loadSettings, writeSettings]);
 
   // Reset calibration
   const resetCalibration = useCallback(async (): Promise<boolean> => {
@@ -173,23 +184,17 @@ export function useCoordinateSettings(projectId: string | null): UseCoordinateSe
     }
 
     try {
-      const { error: updateError } = await supabase
-        .from('project_coordinate_settings')
-        .update({
-          transform_type: null,
-          transform_matrix: null,
-          calibration_status: 'not_calibrated' as CalibrationStatus,
-          calibration_rmse_m: null,
-          calibration_max_error_m: null,
-          calibration_quality: null,
-          calibrated_at: null,
-          calibrated_by: null,
-          calibrated_by_name: null,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', settings.id);
-
-      if (updateError) throw updateError;
+      await writeSettings(settings, {
+        transform_type: null,
+        transform_matrix: null,
+        calibration_status: 'not_calibrated' as CalibrationStatus,
+        calibration_rmse_m: null,
+        calibration_max_error_m: null,
+        calibration_quality: null,
+        calibrated_at: null,
+        calibrated_by: null,
+        calibrated_by_name: null
+      });
 
       // Refresh settings
       await loadSettings();
@@ -199,7 +204,7 @@ export function useCoordinateSettings(projectId: string | null): UseCoordinateSe
       setError(err instanceof Error ? err.message : t('coordinates.resetCalibrationError'));
       return false;
     }
-  }, [projectId, settings, loadSettings]);
+  }, [projectId, settings, loadSettings, writeSettings]);
 
   // Load settings on mount
   useEffect(() => {
@@ -0,0 +1,169 @@
+import { useState, useCallback } from 'react';
+import * as WorkspaceAPI from 'trimble-connect-workspace-api';
+import {
+  supabase,
+  CalibrationPoint,
+  ProjectCoordinateSettings,
+  ProjectCrane,
+} from '../supabase';
+import { fetchActiveScheduleItems } from '../features/crane-planning/lift-plan/hooks/useLiftPlanAnalysis';
+import { getElementBoundsByGuid } from '../features/crane-planning/lift-plan/utils/elementPositions';
+import { parseCastUnitWeight } from '../features/crane-planning/lift-plan/utils/liftPlanAnalysis';
+import { fetchAllRows } from '../utils/supabasePaging';
+import {
+  buildCalibrationPointFeatures,
+  buildCraneFeatures,
+  buildElementFeatures,
+  GeoElementStatus,
+  GeoExportElement,
+  GeoExportFeature,
+  GeoExportFormat,
+  GeoExportLayer,
+  GeoExportOptions,
+  toGeoJson,
+  toKml,
+} from '../utils/geoExport';
+
+export interface GeoExportRequest extends GeoExportOptions {
+  format: GeoExportFormat;
+  includeElements: boolean;
+  includeCranes: boolean;
+  includeCalibrationPoints: boolean;
+  folderNames: Record<GeoExportLayer, string>;
+}
+
+export interface UseGeoExportResult {
+  exporting: boolean;
+  error: string | null;
+  exportGeo: (request: GeoExportRequest, calibrationPoints: CalibrationPoint[]) => Promise<number | null>;
+}
+
+interface ElementSource {
+  guidIfc: string;
+  assemblyMark: string;
+  status: GeoElementStatus;
+  castUnitWeight?: string;
+}
+
+/**
+ * Installed elements plus the active installation schedule (installed wins over planned)
+ */
+async function fetchExportElements(projectId: string): Promise<ElementSource[]> {
+  const installed = await fetchAllRows<{
+    guid: string | null; guid_ifc: string | null; assembly_mark: string; cast_unit_weight?: string;
+  }>(() => supabase
+    .from('installations')
+    .select('id, guid, guid_ifc, assembly_mark, cast_unit_weight')
+    .eq('project_id', projectId));
+
+  const byGuid = new Map<string, ElementSource>();
+  for (const row of installed) {
+    const guid = row.guid_ifc || row.guid;
+    if (!guid) continue;
+    byGuid.set(guid, { guidIfc: guid, assemblyMark: row.assembly_mark, status: 'installed', castUnitWeight: row.cast_unit_weight });
+  }
+
+  const { items } = await fetchActiveScheduleItems(projectId);
+  for (const item of items) {
+    const guid = item.guid_ifc || item.guid;
+    if (!guid || byGuid.has(guid)) continue;
+    byGuid.set(guid, { guidIfc: guid, assemblyMark: item.assembly_mark, status: item.status, castUnitWeight: item.cast_unit_weight });
+  }
+  return [...byGuid.values()];
+}
+
+/**
+ * Export of elements, cranes and calibration points as GeoJSON / KML (downloaded as a file)
+ */
+export function useGeoExport(
+  api: WorkspaceAPI.WorkspaceAPI,
+  projectId: string,
+  settings: ProjectCoordinateSettings | null
+): UseGeoExportResult {
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Returns the number of exported features, null on error
+  const exportGeo = useCallback(async (
+    request: GeoExportRequest,
+    calibrationPoints: CalibrationPoint[]
+  ): Promise<number | null> => {
+    if (!settings) return null;
+
+    setExporting(true);
+    setError(null);
+
+    try {
+      const features: GeoExportFeature[] = [];
+
+      if (request.includeElements) {
+        const sources = await fetchExportElements(projectId);
+        const bounds = await getElementBoundsByGuid(api, sources.map(s => s.guidIfc));
+        const elements: GeoExportElement[] = [];
+        for (const source of sources) {
+          const elementBounds = bounds.get(source.guidIfc);
+          if (!elementBounds) continue; // Not in the loaded models
+          elements.push({
+            guidIfc: source.guidIfc,
+            assemblyMark: source.assemblyMark,
+            status: source.status,
+            weightKg: parseCastUnitWeight(source.castUnitWeight),
+            bounds: elementBounds
+          });
+        }
+        console.log(`🔍 GIS export: ${elements.length}/${sources.length} elements found in the model`);
+        features.push(...buildElementFeatures(elements, settings, request.elementGeometry));
+      }
+
+      if (request.includeCranes) {
+        const { data: cranes, error: cranesError } = await supabase
+          .from('project_cranes')
+          .select('*, crane_model:crane_models(*)')
+          .eq('trimble_project_id', projectId)
+          .order('position_label', { ascending: true });
+        if (cranesError) throw cranesError;
+        features.push(...buildCraneFeatures((cranes || []) as ProjectCrane[], settings, request.includeRadiusRings));
+      }
+
+      if (request.includeCalibrationPoints) {
+        features.push(...buildCalibrationPointFeatures(calibrationPoints));
+      }
+
+      let projectName = projectId;
+      try {
+        const project = await api.project.getProject();
+        if (project?.name) projectName = project.name;
+      } catch (e) {
+        console.warn('Could not get project name from API:', e);
+      }
+
+      const content = request.format === 'geojson'
+        ? toGeoJson(features)
+        : toKml(features, projectName, request.folderNames);
+      const blob = new Blob([content], {
+        type: request.format === 'geojson' ? 'application/geo+json' : 'application/vnd.google-earth.kml+xml'
+      });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${projectName.replace(/[^\w.-]+/g, '_')}_${new Date().toISOString().slice(0, 10)}.${request.format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      console.log(`✅ GIS export (${request.format}): ${features.length} features`);
+      return features.length;
+    } catch (err) {
+      console.error('Error exporting GIS data:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return null;
+    } finally {
+      setExporting(false);
+    }
+  }, [api, projectId, settings]);
+
+  return {
+    exporting,
+    error,
+    exportGeo
+  };
+}
@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  preloadProjectForOffline,
+  getOfflineCacheInfo,
+  getPendingSyncGuids,
+  OfflineCacheInfo,
+  OfflinePreloadStep,
+} from '../utils/offlineInspectionCache';
+import { processPendingUploads, getQueueDiagnostics, QUEUE_PROCESSED_EVENT } from '../utils/offlineQueue';
+
+export interface UseOfflineInspectionResult {
+  isOnline: boolean;
+  cacheInfo: OfflineCacheInfo | null;
+  preloading: boolean;
+  preloadStep: OfflinePreloadStep | null;
+  pendingGuids: Set<string>;
+  queuedCount: number;
+  deadCount: number;
+  error: string | null;
+  preload: () => Promise<boolean>;
+  syncNow: () => Promise<void>;
+  refreshPending: () => Promise<void>;
+  refreshQueueStats: () => Promise<void>;
+}
+
+/**
+ * Hook for offline inspection mode - project download state,
+ * connectivity and assemblies waiting for sync
+ */
+export function useOfflineInspection(projectId: string): UseOfflineInspectionResult {
+  const { t } = useTranslation('errors');
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [cacheInfo, setCacheInfo] = useState<OfflineCacheInfo | null>(null);
+  const [preloading, setPreloading] = useState(false);
+  const [preloadStep, setPreloadStep] = useState<OfflinePreloadStep | null>(null);
+  const [pendingGuids, setPendingGuids] = useState<Set<string>>(new Set());
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [deadCount, setDeadCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload pending sync GUIDs from cache
+  const refreshPending = useCallback(async () => {
+    try {
+      setPendingGuids(await getPendingSyncGuids(projectId));
+    } catch (err) {
+      console.error('Error loading pending sync items:', err);
+    }
+  }, [projectId]);
+
+  // Reload upload queue counts (dead = failed all attempts, needs user action)
+  const refreshQueueStats = useCallback(async () => {
+    try {
+      const items = await getQueueDiagnostics();
+      setQueuedCount(items.filter(i => i.status === 'queued').length);
+      setDeadCount(items.filter(i => i.status === 'dead').length);
+    } catch (err) {
+      console.error('Error loading upload queue stats:', err);
+    }
+  }, []);
+
+  // Download project data for offline use
+  const preload = useCallback(async (): Promise<boolean> => {
+    setPreloading(true);
+    setError(null);
+
+    try {
+      const info = await preloadProjectForOffline(projectId, (step) => setPreloadStep(step));
+      setCacheInfo(info);
+      await refreshPending();
+      return true;
+    } catch (err) {
+      console.error('Error preloading offline data:', err);
+      setError(err instanceof Error ? err.message : t('offline.preloadError'));
+      return false;
+    } finally {
+      setPreloading(false);
+      setPreloadStep(null);
+    }
+  }, [projectId, refreshPending, t]);
+
+  // Push queued results immediately (ignores retry backoff)
+  const syncNow = useCallback(async () => {
+    if (!navigator.onLine) return;
+    await processPendingUploads(undefined, { force: true });
+    await refreshPending();
+    await refreshQueueStats();
+  }, [refreshPending, refreshQueueStats]);
+
+  // Load cache info on mount
+  useEffect(() => {
+    getOfflineCacheInfo(projectId)
+      .then(setCacheInfo)
+      .catch(err => console.error('Error loading offline cache info:', err));
+    refreshPending();
+    refreshQueueStats();
+  }, [projectId, refreshPending, refreshQueueStats]);
+
+  // Connectivity and queue events
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    const handleQueueProcessed = () => {
+      refreshPending();
+      refreshQueueStats();
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener(QUEUE_PROCESSED_EVENT, handleQueueProcessed);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener(QUEUE_PROCESSED_EVENT, handleQueueProcessed);
+    };
+  }, [refreshPending, refreshQueueStats]);
+
+  return {
+    isOnline,
+    cacheInfo,
+    preloading,
+    preloadStep,
+    pendingGuids,
+    queuedCount,
+    deadCount,
+    error,
+    preload,
+    syncNow,
+    refreshPending,
+    refreshQueueStats
+  };
+}
+
+export default useOfflineInspection;
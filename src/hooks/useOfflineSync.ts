@@ -1,6 +1,9 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { supabase, OfflineUploadStatus } from '../supabase';
+import { supabase, OfflineUploadStatus, InspectionResultConflict, ResultConflictResolution } from '../supabase';
+import { getResolvedValues, ResultConflictValues } from '../utils/resultConflicts';
+import { logResultAction } from '../utils/auditLogger';
+import { QUEUE_PROCESSED_EVENT } from '../utils/offlineQueue';
 
 // IndexedDB database name and version
 const DB_NAME = 'assembly-inspector-offline';
@@ -32,6 +35,15 @@ export interface UseOfflineSyncResult {
   syncNow: () => Promise<void>;
   clearQueue: () => Promise<void>;
   getPendingItems: () => Promise<OfflineQueueItem[]>;
+  // Offline results that conflicted with a newer server answer
+  conflicts: InspectionResultConflict[];
+  loadConflicts: () => Promise<void>;
+  resolveConflict: (
+    conflict: InspectionResultConflict,
+    resolution: ResultConflictResolution,
+    user: { email: string; name?: string },
+    merged?: Partial<ResultConflictValues>
+  ) => Promise<boolean>;
 }
 
 /**
@@ -45,6 +57,7 @@ export function useOfflineSync(projectId: string): UseOfflineSyncResult {
   const [syncing, setSyncing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<InspectionResultConflict[]>([]);
   const dbRef = useRef<IDBDatabase | null>(null);
   const syncingRef = useRef(false);
 
@@ -327,6 +340,99 @@ export function useOfflineSync(projectId: string): UseOfflineSyncResult {
     });
   }, [initDB]);
 
+  // Load unresolved sync conflicts of the project
+  const loadConflicts = useCallback(async () => {
+    try {
+      const { data, error: queryError } = await supabase
+        .from('inspection_result_conflicts')
+        .select('*')
+        .eq('project_id', projectId)
+        .eq('status', 'pending')
+        .order('detected_at', { ascending: true });
+
+      if (queryError) throw queryError;
+      setConflicts(data || []);
+    } catch (err) {
+      console.error('Error loading sync conflicts:', err);
+    }
+  }, [projectId]);
+
+  // Resolve a conflict - writes the chosen/merged values to the server row
+  const resolveConflict = useCallback(async (
+    conflict: InspectionResultConflict,
+    resolution: ResultConflictResolution,
+    user: { email: string; name?: string },
+    merged?: Partial<ResultConflictValues>
+  ): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const values = getResolvedValues(conflict, resolution, merged);
+      const now = new Date().toISOString();
+
+      if (resolution !== 'keep_server') {
+        const { error: updateError } = await supabase
+          .from('inspection_results')
+          .update({
+            ...values,
+            // Offline answer wins - it becomes the inspector of record
+            ...(resolution === 'keep_local' && {
+              inspector_name: conflict.local_result.inspector_name,
+              user_email: conflict.local_result.user_email,
+              inspected_at: conflict.local_result.inspected_at
+            }),
+            updated_at: now
+          })
+          .eq('id', conflict.server_result_id);
+
+        if (updateError) throw updateError;
+      }
+
+      const { error: conflictError } = await supabase
+        .from('inspection_result_conflicts')
+        .update({
+          status: 'resolved',
+          resolution,
+          resolved_result: values,
+          resolved_by: user.email,
+          resolved_by_name: user.name,
+          resolved_at: now
+        })
+        .eq('id', conflict.id);
+
+      if (conflictError) throw conflictError;
+
+      await logResultAction(
+        conflict.server_result_id,
+        resolution === 'keep_server' ? 'reviewed' : 'result_updated',
+        conflict.project_id,
+        user.email,
+        user.name,
+        {
+          sync_conflict_id: conflict.id,
+          resolution,
+          server_version: conflict.server_result,
+          offline_version: conflict.local_result,
+          resolved_values: values
+        }
+      );
+
+      setConflicts(prev => prev.filter(c => c.id !== conflict.id));
+      return true;
+    } catch (err) {
+      console.error('Error resolving sync conflict:', err);
+      setError(err instanceof Error ? err.message : t('offline.resolveConflictError'));
+      return false;
+    }
+  }, [t]);
+
+  // Offline queue may record new conflicts on each run
+  useEffect(() => {
+    loadConflicts();
+    window.addEventListener(QUEUE_PROCESSED_EVENT, loadConflicts);
+    return () => window.removeEventListener(QUEUE_PROCESSED_EVENT, loadConflicts);
+  }, [loadConflicts]);
+
   // Online/offline event listeners
   useEffect(() => {
     const handleOnline = () => {
@@ -360,7 +466,10 @@ export function useOfflineSync(projectId: string): UseOfflineSyncResult {
     addToQueue,
     syncNow,
     clearQueue,
-    getPendingItems
+    getPendingItems,
+    conflicts,
+    loadConflicts,
+    resolveConflict
   };
 }
 
@@ -767,6 +767,20 @@ export interface DeliveryVehicle {
   factory?: DeliveryFactory;
 }
 
+// Veoki tüübi kandevõime ja mõõdud (projekti põhine, ülekirjutab vaikeväärtused)
+export interface DeliveryVehicleProfile {
+  id: string;
+  trimble_project_id: string;
+  vehicle_type: DeliveryVehicleType;
+  max_payload_kg: number;
+  deck_length_m: number;
+  deck_width_m: number;
+  max_height_m: number;              // Koorma max kõrgus platvormist
+  updated_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 // Detaili staatused
 export type DeliveryItemStatus =
   | 'planned'      // Planeeritud
@@ -800,6 +814,8 @@ export interface DeliveryItem {
   unload_methods?: UnloadMethods;    // Detaili-taseme mahalaadimise meetodid
   notes?: string;
   photo_url?: string;                 // Photo URL(s), comma-separated for multiple
+  dispatch_missing_at?: string | null;   // Tehas märkis portaalis puuduvaks (ei mahtunud/pole valmis)
+  dispatch_missing_note?: string | null;
   created_at: string;
   created_by: string;
   updated_at: string;
@@ -1091,11 +1107,22 @@ export interface ArrivalDiscrepancy {
   resolved_at?: string;
   resolved_by?: string;
   resolution_notes?: string;
+  // Seotud probleem (Issues) - staatus sünkroniseeritakse mõlemas suunas
+  issue_id?: string | null;
   // Audit
   created_at: string;
   created_by: string;
 }
 
+// Millised lahknevuse tüübid loovad automaatselt probleemi (projekti põhine)
+export interface ArrivalIssueSettings {
+  id: string;
+  trimble_project_id: string;
+  auto_issue_types: DiscrepancyType[];
+  updated_by?: string;
+  updated_at: string;
+}
+
 // ============================================
 // MODEL OBJECTS (kõik mudeli objektid värvimiseks)
 // ============================================
@@ -1603,6 +1630,39 @@ export interface DeliveryShareLink {
   items?: DeliveryItem[];
 }
 
+// Tarnija (tehase) portaali link - üks aktiivne link tehase kohta
+export interface FactoryPortalLink {
+  id: string;
+  trimble_project_id: string;
+  factory_id: string;
+  share_token: string;               // 48 char hex string
+  project_name: string | null;
+  factory_name: string | null;
+  is_active: boolean;
+  expires_at?: string;
+  view_count: number;
+  last_viewed_at?: string;
+  created_at: string;
+  created_by?: string;
+}
+
+export type DispatchFileType = 'delivery_note' | 'loading_photo';
+
+// Saatelehed ja laadimisfotod, mille tehas portaalis üles laadis
+export interface VehicleDispatchFile {
+  id: string;
+  trimble_project_id: string;
+  vehicle_id: string;
+  factory_id: string;
+  file_type: DispatchFileType;
+  file_name: string;
+  file_url: string;
+  file_size?: number;
+  mime_type?: string;
+  uploaded_by: string;               // Tehase nimi
+  uploaded_at: string;
+}
+
 // ============================================
 // ISSUE STATUS & PRIORITY CONFIGS
 // ============================================
@@ -1779,6 +1839,9 @@ export interface CraneModel {
   base_width_m: number;
   base_length_m: number;
 
+  // In-service wind limit (m/s), valid up to the reference sail area (1.2 m²/t)
+  max_wind_speed_ms?: number | null;
+
   // Visual settings
   cab_position: CabPosition;
   default_boom_length_m: number;
@@ -1854,6 +1917,85 @@ export interface CraneDocument {
   sort_order: number;
 }
 
+// Rigging gear types in the project rigging library
+export type RiggingItemType = 'sling' | 'shackle' | 'spreader' | 'chain_block';
+
+// Rigging gear with working load limit (per project)
+export interface RiggingItem {
+  id: string;
+  trimble_project_id: string;
+  item_type: RiggingItemType;
+  name: string;
+  wll_kg: number;
+  weight_kg: number;
+  length_m?: number | null;  // Sling leg / spreader beam length
+  notes?: string;
+  created_by_email?: string;
+  created_at: string;
+}
+
+export type RiggingConfigType = 'two_leg' | 'four_leg' | 'spreader_beam';
+
+// Rigging chosen for an element (stored as JSON)
+export interface RiggingConfiguration {
+  type: RiggingConfigType;
+  sling_id: string | null;
+  shackle_id: string | null;
+  spreader_id: string | null;
+  chain_block_id: string | null;
+  sling_length_m: number;   // Leg length (top legs for spreader beam)
+  inset_start_m: number;    // Lift point distance from element start (long axis)
+  inset_end_m: number;      // Lift point distance from element end (long axis)
+}
+
+// Rigging configuration linked to a lifted element
+export interface ElementRigging {
+  id: string;
+  trimble_project_id: string;
+  guid_ifc: string;
+  assembly_mark?: string;
+  configuration: RiggingConfiguration;
+  rigging_weight_kg: number;
+  updated_by_email?: string;
+  updated_at: string;
+}
+
+// Hourly local wind forecast (manual entry or CSV import)
+export interface WindForecast {
+  id: string;
+  trimble_project_id: string;
+  forecast_time: string;        // Start of the forecast hour (ISO)
+  wind_speed_ms: number;
+  gust_speed_ms?: number | null;
+  source: 'manual' | 'csv';
+  created_by_email?: string;
+  created_at: string;
+}
+
+// Element lifted by two placed cranes (tandem lift)
+export interface TandemLift {
+  id: string;
+  trimble_project_id: string;
+  guid_ifc: string;
+  assembly_mark?: string;
+  crane_a_id: string;
+  crane_b_id: string;
+  derating_factor: number;  // Share of each crane's net capacity usable in tandem (e.g. 0.75)
+  inset_a_m: number;        // Hook point A distance from the element end at crane A
+  inset_b_m: number;        // Hook point B distance from the element end at crane B
+  notes?: string;
+  created_by_email?: string;
+  updated_at: string;
+}
+
+// Ground bearing settings of a placed crane (site specific)
+export interface CraneGroundBearingSettings {
+  crane_self_weight_kg: number;    // Crane operating weight without counterweight
+  counterweight_radius_m: number;  // Slew center to counterweight center of gravity
+  allowable_pressure_kpa: number;  // Allowable soil pressure
+  support_size_m: number;          // Outrigger pad side / track shoe width
+}
+
 // Project crane (placed crane in project)
 export interface ProjectCrane {
   id: string;
@@ -1896,6 +2038,14 @@ export interface ProjectCrane {
   position_label?: string;
   notes?: string;
 
+  // Ground bearing calculation settings (null = not configured)
+  ground_bearing?: CraneGroundBearingSettings | null;
+
+  // Booking: days on site (inclusive, YYYY-MM-DD) and booked crane hours per day
+  mobilization_date?: string | null;
+  demobilization_date?: string | null;
+  booked_hours_per_day?: number | null;
+
   // Trimble markup IDs (references to created markups)
   markup_ids: number[];
 
@@ -1944,6 +2094,7 @@ export interface LoadCalculationResult {
 export const DEFAULT_CRANE_COLOR: CraneRGBAColor = { r: 255, g: 165, b: 0, a: 255 };  // Orange
 export const DEFAULT_RADIUS_COLOR: CraneRGBAColor = { r: 255, g: 0, b: 0, a: 128 };   // Semi-transparent red
 export const DEFAULT_LABEL_COLOR: CraneRGBAColor = { r: 50, g: 50, b: 50, a: 255 };   // Dark gray for labels
+export const CRANE_CONFLICT_COLOR: CraneRGBAColor = { r: 217, g: 70, b: 239, a: 255 }; // Magenta for overlap warnings
 
 // Crane document type labels
 export const CRANE_DOCUMENT_TYPE_LABELS: Record<CraneDocumentType, string> = new Proxy({} as Record<CraneDocumentType, string>, {
@@ -2221,6 +2372,30 @@ export interface OfflineUploadQueue {
   device_id?: string;
 }
 
+// Offline result that met a newer server answer during sync
+export type ResultConflictStatus = 'pending' | 'resolved';
+export type ResultConflictResolution = 'keep_server' | 'keep_local' | 'merged';
+
+export interface InspectionResultConflict {
+  id: string;
+  project_id: string;
+  assembly_guid: string;
+  assembly_name?: string;
+  checkpoint_id: string;
+  server_result_id: string;
+  server_result: InspectionResult;
+  local_result: InspectionResult;
+  base_updated_at?: string | null; // Server version the offline inspector saw
+  status: ResultConflictStatus;
+  resolution?: ResultConflictResolution;
+  resolved_result?: Partial<InspectionResult>;
+  resolved_by?: string;
+  resolved_by_name?: string;
+  resolved_at?: string;
+  detected_at: string;
+  created_at: string;
+}
+
 // ============================================
 // USER PROFILE EXTENSIONS
 // ============================================
@@ -2538,6 +2713,18 @@ export interface HelmertTransformParams {
   origin_gps: { lat: number; lng: number };
 }
 
+// Affine transformation parameters (model meters -> projection meters)
+// affine_2d: 2x2 matrix, affine_3d: 3x3 matrix (z = altitude), row-major
+export interface AffineTransformParams {
+  type: 'affine_2d' | 'affine_3d';
+  matrix: number[][];
+  translation: { x: number; y: number; z?: number };
+  origin_model: { x: number; y: number };
+  origin_gps: { lat: number; lng: number };
+}
+
+export type CalibrationTransformParams = HelmertTransformParams | AffineTransformParams;
+
 // Project coordinate settings
 export interface ProjectCoordinateSettings {
   id: string;
@@ -2559,7 +2746,7 @@ export interface ProjectCoordinateSettings {
 
   // Calculated transformation (for local system)
   transform_type?: TransformType;
-  transform_matrix?: HelmertTransformParams;
+  transform_matrix?: CalibrationTransformParams;
 
   // Calibration quality
   calibration_rmse_m?: number;          // Root Mean Square Error in meters
@@ -2618,6 +2805,23 @@ export interface CalibrationPoint {
   created_by_name?: string;
 }
 
+// Laydown yard zone: storage area outline in GPS or model coordinates
+export type YardZoneCoordinateSpace = 'gps' | 'model';
+
+export interface YardZone {
+  id: string;
+  trimble_project_id: string;
+  name: string;                          // e.g. "B3"
+  coordinate_space: YardZoneCoordinateSpace;
+  vertices: [number, number][];          // gps: [lat, lng], model: [x, y] in meters
+  row_count?: number | null;             // Rows parallel to the first edge (null = no rows)
+  color?: string | null;                 // Hex color for the yard plan
+  notes?: string | null;
+  created_by_email?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 // Default coordinate systems (pre-populated reference data)
 export const COORDINATE_SYSTEMS: CoordinateSystem[] = [
   {
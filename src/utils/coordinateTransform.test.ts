@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  performCalibration,
+  projectionToGps,
+  calculateAffine2D,
+  applyTransform,
+  inverseTransform,
+  fitTransform,
+  Point3D,
+} from './coordinateTransform';
+import { CalibrationPoint } from '../supabase';
+
+// Setup mocks the supabase client module - coordinate systems and thresholds are needed here
+vi.mock('../supabase', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../supabase')>()),
+}));
+
+const EPSG = 3301; // L-EST97
+const ORIGIN = { origin_model: { x: 0, y: 0 }, origin_gps: { lat: 0, lng: 0 } };
+
+// Model (m) -> L-EST97: 30° rotation, 540000/6580000 offset
+const truth = (p: { x: number; y: number }) => {
+  const a = Math.PI / 6;
+  return {
+    x: 540000 + Math.cos(a) * p.x - Math.sin(a) * p.y,
+    y: 6580000 + Math.sin(a) * p.x + Math.cos(a) * p.y,
+  };
+};
+
+const modelPositions = [
+  { x: 0, y: 0 },
+  { x: 60, y: 0 },
+  { x: 60, y: 40 },
+  { x: 0, y: 40 },
+  { x: 30, y: 20 },
+  { x: 15, y: 35 },
+];
+
+const makePoint = (i: number, offsetY = 0): CalibrationPoint => {
+  const model = modelPositions[i];
+  const projected = truth(model);
+  const gps = projectionToGps(projected.x, projected.y + offsetY, EPSG);
+  return {
+    id: `p${i}`,
+    trimble_project_id: 'project',
+    model_x: model.x * 1000, // mm
+    model_y: model.y * 1000,
+    gps_latitude: gps.lat,
+    gps_longitude: gps.lng,
+    is_active: true,
+    capture_method: 'manual',
+    created_at: '',
+  };
+};
+
+describe('coordinateTransform', () => {
+  it('should fit exact Helmert transformation', () => {
+    const points = modelPositions.map((_, i) => makePoint(i));
+    const result = performCalibration(points, EPSG, 0.001);
+    expect(result.params.type).toBe('helmert_2d');
+    expect(result.quality.rmse).toBeLessThan(0.01);
+    expect(result.residuals.every(r => !r.isOutlier)).toBe(true);
+  });
+
+  it('should fit non-uniform scale with affine 2D', () => {
+    const model = modelPositions.map(p => ({ x: p.x, y: p.y }));
+    const projected = model.map(p => ({ x: 100 + 1.02 * p.x + 0.01 * p.y, y: 200 - 0.01 * p.x + 0.98 * p.y }));
+    const { matrix, translation } = calculateAffine2D(model, projected);
+    expect(matrix[0][0]).toBeCloseTo(1.02, 9);
+    expect(matrix[1][1]).toBeCloseTo(0.98, 9);
+    expect(translation.x).toBeCloseTo(100, 6);
+    expect(() => calculateAffine2D(
+      [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }],
+      [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }]
+    )).toThrow();
+  });
+
+  it('should invert affine 3D transformation', () => {
+    const model: Point3D[] = [
+      { x: 0, y: 0, z: 0 }, { x: 50, y: 0, z: 2 }, { x: 0, y: 50, z: 4 }, { x: 50, y: 50, z: 20 }, { x: 20, y: 10, z: 8 },
+    ];
+    const projected = model.map(p => ({ ...truth(p), z: 35 + p.z * 1.001 }));
+    const params = fitTransform('affine_3d', model, projected, ORIGIN);
+    const back = inverseTransform(applyTransform({ x: 12, y: 34, z: 5 }, params), params);
+    expect(back.x).toBeCloseTo(12, 5);
+    expect(back.y).toBeCloseTo(34, 5);
+    expect(back.z).toBeCloseTo(5, 5);
+  });
+
+  it('should flag a single 8 m GPS outlier with leave-one-out residuals', () => {
+    const points = modelPositions.map((_, i) => makePoint(i, i === 2 ? 8 : 0));
+    const result = performCalibration(points, EPSG, 0.001);
+    const flagged = result.residuals.filter(r => r.isOutlier).map(r => r.pointId);
+    expect(flagged).toEqual(['p2']);
+    expect(result.residuals[2].looError).toBeCloseTo(8, 1);
+    // Neighbour is not dragged along once the outlier is excluded
+    expect(result.residuals[1].looError).toBeLessThan(1);
+  });
+
+  it('should report residual for disabled points against the new fit', () => {
+    const points = modelPositions.map((_, i) => ({ ...makePoint(i, i === 2 ? 8 : 0), is_active: i !== 2 }));
+    const result = performCalibration(points, EPSG, 0.001, 'affine_2d');
+    expect(result.quality.rmse).toBeLessThan(0.01);
+    expect(result.residuals[2]).toMatchObject({ isActive: false, isOutlier: true });
+    expect(result.residuals[2].error).toBeCloseTo(8, 1);
+  });
+});
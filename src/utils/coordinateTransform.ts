@@ -1,18 +1,24 @@
 /**
  * Coordinate transformation utilities
- * Supports Helmert 2D transformation for calibrating local model coordinates to GPS
- * Uses proj4js for projection transformations
+ * Supports Helmert 2D and least-squares affine 2D/3D transformations for calibrating
+ * local model coordinates to GPS, with leave-one-out outlier detection
+ * Projections go through the CRS registry (proj4js)
  */
 
-import proj4 from 'proj4';
 import {
   COORDINATE_SYSTEMS,
+  CALIBRATION_QUALITY_THRESHOLDS,
+  AffineTransformParams,
   CalibrationPoint,
   CalibrationQuality,
+  CalibrationTransformParams,
   HelmertTransformParams,
   ProjectCoordinateSettings,
+  TransformType,
   getCalibrationQuality,
 } from '../supabase';
+import { getCrsByEpsg, registerCoordinateSystem } from './crsRegistry';
+import { gpsDistance } from './coordinateUtils';
 
 // ============================================
 // TYPES
@@ -34,8 +40,9 @@ export interface GPSPoint {
 }
 
 export interface CalibrationResult {
-  params: HelmertTransformParams;
+  params: CalibrationTransformParams;
   quality: CalibrationQualityResult;
+  residuals: CalibrationPointResidual[];  // One per input point (active and disabled)
 }
 
 export interface CalibrationQualityResult {
@@ -45,15 +52,34 @@ export interface CalibrationQualityResult {
   quality: CalibrationQuality;
 }
 
+export interface CalibrationPointResidual {
+  pointId: string;
+  isActive: boolean;
+  error: number;              // Residual of the full fit (m)
+  looError: number | null;    // Leave-one-out residual (m), null = too few points to refit
+  quality: CalibrationQuality;
+  isOutlier: boolean;
+}
+
+// Minimum active points per transformation type
+export const MIN_CALIBRATION_POINTS: Record<TransformType, number> = {
+  helmert_2d: 2,
+  affine_2d: 3,
+  affine_3d: 4,
+};
+
+// Leave-one-out residual must also exceed this multiple of the median to count as outlier
+export const OUTLIER_MEDIAN_FACTOR = 2;
+
 // ============================================
 // PROJ4 DEFINITIONS
 // ============================================
 
-// Register all coordinate systems with proj4
+// Register all coordinate systems with the CRS registry
 export function initializeProjections(): void {
   for (const cs of COORDINATE_SYSTEMS) {
     if (cs.epsg_code && cs.proj4_string) {
-      proj4.defs(`EPSG:${cs.epsg_code}`, cs.proj4_string);
+      registerCoordinateSystem(cs);
     }
   }
 }
@@ -73,7 +99,7 @@ export function gpsToProjection(
   lng: number,
   epsgCode: number
 ): Point2D {
-  const [x, y] = proj4('EPSG:4326', `EPSG:${epsgCode}`, [lng, lat]);
+  const { x, y } = getCrsByEpsg(epsgCode).toProjected({ latitude: lat, longitude: lng });
   return { x, y };
 }
 
@@ -85,8 +111,8 @@ export function projectionToGps(
   y: number,
   epsgCode: number
 ): GPSPoint {
-  const [lng, lat] = proj4(`EPSG:${epsgCode}`, 'EPSG:4326', [x, y]);
-  return { lat, lng };
+  const { latitude, longitude } = getCrsByEpsg(epsgCode).toWgs84(x, y);
+  return { lat: latitude, lng: longitude };
 }
 
 // ============================================
@@ -225,30 +251,230 @@ export function inverseHelmert(
   };
 }
 
+// ============================================
+// AFFINE TRANSFORMATION (LEAST SQUARES)
+// ============================================
+
+/**
+ * Solve linear system A·x = b (Gaussian elimination with partial pivoting)
+ * Returns null when the system is singular
+ */
+function solveLinearSystem(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  const tolerance = Math.max(...a.map((row, i) => Math.abs(row[i]))) * 1e-10;
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) <= tolerance) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) {
+        m[r][c] -= factor * m[col][c];
+      }
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n];
+    for (let c = r + 1; c < n; c++) {
+      sum -= m[r][c] * x[c];
+    }
+    x[r] = sum / m[r][r];
+  }
+  return x;
+}
+
+/**
+ * Least-squares affine fit for any dimension. Points are centered before
+ * building the normal equations (projection coordinates are in millions of meters).
+ */
+function calculateAffine(
+  modelPoints: number[][],
+  projectedPoints: number[][]
+): { matrix: number[][]; translation: number[] } {
+  const n = modelPoints.length;
+  const dim = modelPoints[0].length;
+
+  const centroid = (points: number[][]) =>
+    Array.from({ length: dim }, (_, k) => points.reduce((sum, p) => sum + p[k], 0) / n);
+  const modelCentroid = centroid(modelPoints);
+  const projCentroid = centroid(projectedPoints);
+
+  // Normal equations: (AᵀA)·row_k = Aᵀ·p_k for each output axis k
+  const ata = Array.from({ length: dim }, () => new Array<number>(dim).fill(0));
+  const atp = Array.from({ length: dim }, () => new Array<number>(dim).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    const dm = modelPoints[i].map((v, k) => v - modelCentroid[k]);
+    const dp = projectedPoints[i].map((v, k) => v - projCentroid[k]);
+    for (let r = 0; r < dim; r++) {
+      for (let c = 0; c < dim; c++) {
+        ata[r][c] += dm[r] * dm[c];
+        atp[r][c] += dm[c] * dp[r];
+      }
+    }
+  }
+
+  const matrix: number[][] = [];
+  for (let k = 0; k < dim; k++) {
+    const row = solveLinearSystem(ata, atp[k]);
+    if (!row) {
+      throw new Error('Calibration points are collinear or coplanar - affine transformation is undetermined');
+    }
+    matrix.push(row);
+  }
+
+  const translation = matrix.map((row, k) =>
+    projCentroid[k] - row.reduce((sum, v, c) => sum + v * modelCentroid[c], 0)
+  );
+
+  return { matrix, translation };
+}
+
+/**
+ * Calculate affine 2D transformation (independent scale per axis + shear)
+ * Needs at least 3 non-collinear points
+ */
+export function calculateAffine2D(
+  modelPoints: Point2D[],
+  projectedPoints: Point2D[]
+): Pick<AffineTransformParams, 'matrix' | 'translation'> {
+  if (modelPoints.length < MIN_CALIBRATION_POINTS.affine_2d) {
+    throw new Error('At least 3 points required for affine 2D transformation');
+  }
+
+  const { matrix, translation } = calculateAffine(
+    modelPoints.map(p => [p.x, p.y]),
+    projectedPoints.map(p => [p.x, p.y])
+  );
+
+  return { matrix, translation: { x: translation[0], y: translation[1] } };
+}
+
+/**
+ * Calculate affine 3D transformation (z = altitude)
+ * Needs at least 4 non-coplanar points
+ */
+export function calculateAffine3D(
+  modelPoints: Point3D[],
+  projectedPoints: Point3D[]
+): Pick<AffineTransformParams, 'matrix' | 'translation'> {
+  if (modelPoints.length < MIN_CALIBRATION_POINTS.affine_3d) {
+    throw new Error('At least 4 points required for affine 3D transformation');
+  }
+
+  const { matrix, translation } = calculateAffine(
+    modelPoints.map(p => [p.x, p.y, p.z]),
+    projectedPoints.map(p => [p.x, p.y, p.z])
+  );
+
+  return { matrix, translation: { x: translation[0], y: translation[1], z: translation[2] } };
+}
+
+// ============================================
+// GENERIC TRANSFORMATION
+// ============================================
+
+/**
+ * Fit transformation of the given type (origins are stored as-is)
+ */
+export function fitTransform(
+  type: TransformType,
+  modelPoints: Point3D[],
+  projectedPoints: Point3D[],
+  origin: Pick<CalibrationTransformParams, 'origin_model' | 'origin_gps'>
+): CalibrationTransformParams {
+  if (type === 'affine_2d') {
+    return { type, ...calculateAffine2D(modelPoints, projectedPoints), ...origin };
+  }
+  if (type === 'affine_3d') {
+    return { type, ...calculateAffine3D(modelPoints, projectedPoints), ...origin };
+  }
+  return { type: 'helmert_2d', ...calculateHelmert2D(modelPoints, projectedPoints), ...origin };
+}
+
+/**
+ * Apply transformation (model meters -> projection meters)
+ * 2D transformations pass z through unchanged
+ */
+export function applyTransform(point: Point3D, params: CalibrationTransformParams): Point3D {
+  if (params.type === 'helmert_2d') {
+    return { ...applyHelmert(point, params), z: point.z };
+  }
+
+  const { matrix: m, translation: t } = params;
+  if (params.type === 'affine_2d') {
+    return {
+      x: t.x + m[0][0] * point.x + m[0][1] * point.y,
+      y: t.y + m[1][0] * point.x + m[1][1] * point.y,
+      z: point.z,
+    };
+  }
+
+  return {
+    x: t.x + m[0][0] * point.x + m[0][1] * point.y + m[0][2] * point.z,
+    y: t.y + m[1][0] * point.x + m[1][1] * point.y + m[1][2] * point.z,
+    z: (t.z ?? 0) + m[2][0] * point.x + m[2][1] * point.y + m[2][2] * point.z,
+  };
+}
+
+/**
+ * Apply inverse transformation (projection meters -> model meters)
+ */
+export function inverseTransform(projPoint: Point3D, params: CalibrationTransformParams): Point3D {
+  if (params.type === 'helmert_2d') {
+    return { ...inverseHelmert(projPoint, params), z: projPoint.z };
+  }
+
+  const { matrix, translation } = params;
+  const shifted = params.type === 'affine_2d'
+    ? [projPoint.x - translation.x, projPoint.y - translation.y]
+    : [projPoint.x - translation.x, projPoint.y - translation.y, projPoint.z - (translation.z ?? 0)];
+
+  const solved = solveLinearSystem(matrix, shifted);
+  if (!solved) {
+    throw new Error('Transformation matrix is not invertible');
+  }
+
+  return { x: solved[0], y: solved[1], z: solved[2] ?? projPoint.z };
+}
+
 // ============================================
 // CALIBRATION QUALITY
 // ============================================
 
+/**
+ * Horizontal distance between predicted and measured projection point
+ * (altitude is not part of the quality - phone GPS altitude is too noisy)
+ */
+function horizontalError(predicted: Point2D, actual: Point2D): number {
+  return Math.sqrt(
+    Math.pow(predicted.x - actual.x, 2) +
+    Math.pow(predicted.y - actual.y, 2)
+  );
+}
+
 /**
  * Calculate calibration quality metrics
  */
 export function calculateCalibrationQuality(
-  modelPoints: Point2D[],
-  projectedPoints: Point2D[],
-  params: Pick<HelmertTransformParams, 'translation' | 'rotation_rad' | 'scale'>
+  modelPoints: Point3D[],
+  projectedPoints: Point3D[],
+  params: CalibrationTransformParams
 ): CalibrationQualityResult {
   const errors: number[] = [];
 
   for (let i = 0; i < modelPoints.length; i++) {
-    // Apply transformation to model point
-    const predicted = applyHelmert(modelPoints[i], params);
-
-    // Calculate distance to actual projection point
-    const error = Math.sqrt(
-      Math.pow(predicted.x - projectedPoints[i].x, 2) +
-      Math.pow(predicted.y - projectedPoints[i].y, 2)
-    );
-    errors.push(error);
+    // Apply transformation to model point and compare to actual projection point
+    const predicted = applyTransform(modelPoints[i], params);
+    errors.push(horizontalError(predicted, projectedPoints[i]));
   }
 
   const rmse = Math.sqrt(
@@ -260,6 +486,77 @@ export function calculateCalibrationQuality(
   return { rmse, maxError, errors, quality };
 }
 
+/**
+ * Leave-one-out residuals: each point is predicted by a transformation fitted
+ * without it, so a single bad point can't hide by pulling the fit towards itself.
+ * Returns null for a point when the remaining points can't be fitted.
+ */
+export function calculateLeaveOneOutErrors(
+  type: TransformType,
+  modelPoints: Point3D[],
+  projectedPoints: Point3D[],
+  origin: Pick<CalibrationTransformParams, 'origin_model' | 'origin_gps'>
+): (number | null)[] {
+  if (modelPoints.length - 1 < MIN_CALIBRATION_POINTS[type]) {
+    return modelPoints.map(() => null);
+  }
+
+  return modelPoints.map((modelPoint, i) => {
+    const others = (points: Point3D[]) => points.filter((_, j) => j !== i);
+    try {
+      const params = fitTransform(type, others(modelPoints), others(projectedPoints), origin);
+      return horizontalError(applyTransform(modelPoint, params), projectedPoints[i]);
+    } catch {
+      // Remaining points are degenerate (collinear/coplanar)
+      return null;
+    }
+  });
+}
+
+/**
+ * Iterative outlier detection: the point with the largest leave-one-out residual is
+ * flagged when it is above the "good" quality threshold and more than
+ * OUTLIER_MEDIAN_FACTOR times the median, then residuals are recalculated without it.
+ * A single bad point also inflates its neighbours' residuals, so only one point is
+ * flagged per round.
+ *
+ * looErrors: residual from the final clean set, or from the round an outlier was flagged
+ */
+export function detectOutliers(
+  type: TransformType,
+  modelPoints: Point3D[],
+  projectedPoints: Point3D[],
+  origin: Pick<CalibrationTransformParams, 'origin_model' | 'origin_gps'>
+): { looErrors: (number | null)[]; outliers: boolean[] } {
+  const looErrors: (number | null)[] = modelPoints.map(() => null);
+  const outliers: boolean[] = modelPoints.map(() => false);
+  let remaining = modelPoints.map((_, i) => i);
+
+  while (remaining.length > 0) {
+    const errors = calculateLeaveOneOutErrors(
+      type,
+      remaining.map(i => modelPoints[i]),
+      remaining.map(i => projectedPoints[i]),
+      origin
+    );
+    remaining.forEach((pointIndex, k) => { looErrors[pointIndex] = errors[k]; });
+
+    const known = errors.filter((e): e is number => e !== null).sort((a, b) => a - b);
+    if (known.length === 0) break;
+
+    const mid = Math.floor(known.length / 2);
+    const median = known.length % 2 === 1 ? known[mid] : (known[mid - 1] + known[mid]) / 2;
+    const worst = known[known.length - 1];
+    if (worst < CALIBRATION_QUALITY_THRESHOLDS.good || worst <= OUTLIER_MEDIAN_FACTOR * median) break;
+
+    const worstIndex = remaining[errors.indexOf(worst)];
+    outliers[worstIndex] = true;
+    remaining = remaining.filter(i => i !== worstIndex);
+  }
+
+  return { looErrors, outliers };
+}
+
 // ============================================
 // FULL CALIBRATION WORKFLOW
 // ============================================
@@ -267,43 +564,47 @@ export function calculateCalibrationQuality(
 /**
  * Perform full calibration from calibration points
  *
- * @param points - Calibration points with model and GPS coordinates
- * @param settings - Project coordinate settings (for EPSG code)
+ * @param points - Calibration points with model and GPS coordinates (disabled points
+ *                 are not fitted but still get a residual against the result)
+ * @param epsgCode - Projection EPSG code
  * @param modelUnitsToMeters - Conversion factor (e.g., 0.001 for mm to m)
+ * @param transformType - Transformation to fit
  */
 export function performCalibration(
   points: CalibrationPoint[],
   epsgCode: number,
-  modelUnitsToMeters: number = 0.001
+  modelUnitsToMeters: number = 0.001,
+  transformType: TransformType = 'helmert_2d'
 ): CalibrationResult {
   // Filter active points
   const activePoints = points.filter(p => p.is_active);
+  const minPoints = MIN_CALIBRATION_POINTS[transformType];
 
-  if (activePoints.length < 2) {
-    throw new Error('At least 2 active calibration points required');
+  if (activePoints.length < minPoints) {
+    throw new Error(`At least ${minPoints} active calibration points required`);
+  }
+
+  if (transformType === 'affine_3d' && activePoints.some(p => p.model_z == null || p.gps_altitude == null)) {
+    throw new Error('Affine 3D transformation requires model Z and GPS altitude for all points');
   }
 
   // Convert model coordinates to meters
-  const modelPoints: Point2D[] = activePoints.map(p => ({
+  const toModel = (p: CalibrationPoint): Point3D => ({
     x: p.model_x * modelUnitsToMeters,
     y: p.model_y * modelUnitsToMeters,
-  }));
+    z: (p.model_z ?? 0) * modelUnitsToMeters,
+  });
 
   // Convert GPS coordinates to projection
-  const projectedPoints: Point2D[] = activePoints.map(p =>
-    gpsToProjection(p.gps_latitude, p.gps_longitude, epsgCode)
-  );
-
-  // Calculate transformation
-  const baseParams = calculateHelmert2D(modelPoints, projectedPoints);
+  const toProjected = (p: CalibrationPoint): Point3D => ({
+    ...gpsToProjection(p.gps_latitude, p.gps_longitude, epsgCode),
+    z: p.gps_altitude ?? 0,
+  });
 
-  // Calculate quality
-  const quality = calculateCalibrationQuality(modelPoints, projectedPoints, baseParams);
+  const modelPoints = activePoints.map(toModel);
+  const projectedPoints = activePoints.map(toProjected);
 
-  // Build full params with origins
-  const params: HelmertTransformParams = {
-    type: 'helmert_2d',
-    ...baseParams,
+  const origin: Pick<CalibrationTransformParams, 'origin_model' | 'origin_gps'> = {
     origin_model: {
       x: activePoints[0].model_x,
       y: activePoints[0].model_y,
@@ -314,7 +615,41 @@ export function performCalibration(
     },
   };
 
-  return { params, quality };
+  // Calculate transformation and quality
+  const params = fitTransform(transformType, modelPoints, projectedPoints, origin);
+  const quality = calculateCalibrationQuality(modelPoints, projectedPoints, params);
+
+  // Outlier detection
+  const { looErrors, outliers } = detectOutliers(transformType, modelPoints, projectedPoints, origin);
+
+  const residuals: CalibrationPointResidual[] = points.map(point => {
+    const index = activePoints.indexOf(point);
+    if (index >= 0) {
+      const error = quality.errors[index];
+      const looError = looErrors[index];
+      return {
+        pointId: point.id,
+        isActive: true,
+        error,
+        looError,
+        quality: getCalibrationQuality(looError ?? error),
+        isOutlier: outliers[index],
+      };
+    }
+
+    // Disabled point: distance to a transformation it was not part of
+    const error = horizontalError(applyTransform(toModel(point), params), toProjected(point));
+    return {
+      pointId: point.id,
+      isActive: false,
+      error,
+      looError: error,
+      quality: getCalibrationQuality(error),
+      isOutlier: error >= CALIBRATION_QUALITY_THRESHOLDS.good,
+    };
+  });
+
+  return { params, quality, residuals };
 }
 
 // ============================================
@@ -327,7 +662,7 @@ export function performCalibration(
 export function modelToGps(
   modelX: number,
   modelY: number,
-  _modelZ: number | undefined, // eslint-disable-line @typescript-eslint/no-unused-vars
+  modelZ: number | undefined,
   settings: ProjectCoordinateSettings
 ): GPSPoint {
   const cs = COORDINATE_SYSTEMS.find(c => c.id === settings.coordinate_system_id);
@@ -337,16 +672,10 @@ export function modelToGps(
   }
 
   // Convert model units to meters
-  let xMeters = modelX;
-  let yMeters = modelY;
-
-  if (settings.model_units === 'millimeters') {
-    xMeters /= 1000;
-    yMeters /= 1000;
-  } else if (settings.model_units === 'feet') {
-    xMeters *= 0.3048;
-    yMeters *= 0.3048;
-  }
+  const unitsToMeters = getModelUnitsToMeters(settings.model_units);
+  const xMeters = modelX * unitsToMeters;
+  const yMeters = modelY * unitsToMeters;
+  const zMeters = (modelZ ?? 0) * unitsToMeters;
 
   // If model has real coordinates, convert directly
   if (settings.model_has_real_coordinates && cs.epsg_code) {
@@ -355,8 +684,9 @@ export function modelToGps(
 
   // If local system with calibration
   if (settings.transform_matrix && cs.epsg_code) {
-    const projected = applyHelmert({ x: xMeters, y: yMeters }, settings.transform_matrix);
-    return projectionToGps(projected.x, projected.y, cs.epsg_code);
+    const projected = applyTransform({ x: xMeters, y: yMeters, z: zMeters }, settings.transform_matrix);
+    const gps = projectionToGps(projected.x, projected.y, cs.epsg_code);
+    return settings.transform_matrix.type === 'affine_3d' ? { ...gps, altitude: projected.z } : gps;
   }
 
   // For local system without calibration, use first point as reference if available
@@ -370,11 +700,13 @@ export function modelToGps(
 
 /**
  * Convert GPS coordinates to model coordinates
+ * (altitude is only used by affine 3D calibration, z is 0 otherwise)
  */
 export function gpsToModel(
   lat: number,
   lng: number,
-  settings: ProjectCoordinateSettings
+  settings: ProjectCoordinateSettings,
+  altitude?: number
 ): Point3D {
   const cs = COORDINATE_SYSTEMS.find(c => c.id === settings.coordinate_system_id);
 
@@ -389,32 +721,55 @@ export function gpsToModel(
   // Convert GPS to projection
   const projected = gpsToProjection(lat, lng, cs.epsg_code);
 
-  let modelX: number;
-  let modelY: number;
+  let modelPoint: Point3D;
 
   // If model has real coordinates
   if (settings.model_has_real_coordinates) {
-    modelX = projected.x;
-    modelY = projected.y;
+    modelPoint = { ...projected, z: 0 };
   } else if (settings.transform_matrix) {
     // Apply inverse transformation
-    const modelPoint = inverseHelmert(projected, settings.transform_matrix);
-    modelX = modelPoint.x;
-    modelY = modelPoint.y;
+    const is3D = settings.transform_matrix.type === 'affine_3d';
+    modelPoint = inverseTransform({ ...projected, z: is3D ? altitude ?? 0 : 0 }, settings.transform_matrix);
+    if (!is3D) modelPoint.z = 0;
   } else {
     throw new Error('Project not calibrated');
   }
 
   // Convert meters to model units
-  if (settings.model_units === 'millimeters') {
-    modelX *= 1000;
-    modelY *= 1000;
-  } else if (settings.model_units === 'feet') {
-    modelX /= 0.3048;
-    modelY /= 0.3048;
-  }
+  const unitsToMeters = getModelUnitsToMeters(settings.model_units);
+  return {
+    x: modelPoint.x / unitsToMeters,
+    y: modelPoint.y / unitsToMeters,
+    z: modelPoint.z / unitsToMeters,
+  };
+}
 
-  return { x: modelX, y: modelY, z: 0 };
+/**
+ * Viewer coordinates (meters, e.g. bounding boxes) to GPS - settings.model_units
+ * only describes the coordinates stored in calibration points
+ */
+export function modelMetersToGps(
+  x: number,
+  y: number,
+  z: number | undefined,
+  settings: ProjectCoordinateSettings
+): GPSPoint {
+  const metersToUnits = 1 / getModelUnitsToMeters(settings.model_units);
+  return modelToGps(x * metersToUnits, y * metersToUnits, z !== undefined ? z * metersToUnits : undefined, settings);
+}
+
+/**
+ * GPS to viewer coordinates in meters
+ */
+export function gpsToModelMeters(
+  lat: number,
+  lng: number,
+  settings: ProjectCoordinateSettings,
+  altitude?: number
+): Point3D {
+  const unitsToMeters = getModelUnitsToMeters(settings.model_units);
+  const point = gpsToModel(lat, lng, settings, altitude);
+  return { x: point.x * unitsToMeters, y: point.y * unitsToMeters, z: point.z * unitsToMeters };
 }
 
 /**
@@ -433,22 +788,11 @@ export function getModelUnitsToMeters(modelUnits: string): number {
 }
 
 /**
- * Calculate distance between two GPS points in meters (Haversine formula)
+ * Calculate distance between two GPS points in meters (WGS84 ellipsoid)
  */
 export function gpsDistanceMeters(p1: GPSPoint, p2: GPSPoint): number {
-  const R = 6371000; // Earth's radius in meters
-
-  const lat1 = p1.lat * Math.PI / 180;
-  const lat2 = p2.lat * Math.PI / 180;
-  const deltaLat = (p2.lat - p1.lat) * Math.PI / 180;
-  const deltaLng = (p2.lng - p1.lng) * Math.PI / 180;
-
-  const a =
-    Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
-    Math.cos(lat1) * Math.cos(lat2) *
-    Math.sin(deltaLng / 2) * Math.sin(deltaLng / 2);
-
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
+  return gpsDistance(
+    { latitude: p1.lat, longitude: p1.lng },
+    { latitude: p2.lat, longitude: p2.lng }
+  );
 }
@@ -1,16 +1,15 @@
 /**
- * Coordinate conversion utilities
- * Supports Belgian Lambert 72 (EPSG:31370) to WGS84 (GPS) conversion
- * Uses proj4js for accurate transformations
+ * Coordinate utilities
+ * GPS coordinate types, ellipsoidal distance and display helpers.
+ * Projections (L-EST97, Lambert 72, ETRS-TM35FIN...) go through crsRegistry.ts
  */
 
-import proj4 from 'proj4';
-
-// Define Belgian Lambert 72 (EPSG:31370) projection
-// Official definition from https://epsg.io/31370
-proj4.defs('EPSG:31370', '+proj=lcc +lat_1=51.16666723333333 +lat_2=49.8333339 +lat_0=90 +lon_0=4.367486666666666 +x_0=150000.013 +y_0=5400088.438 +ellps=intl +towgs84=-106.8686,52.2978,-103.7239,0.3366,-0.457,1.8422,-1.2747 +units=m +no_defs');
+export interface Ellipsoid {
+  a: number; // Semi-major axis (m)
+  f: number; // Flattening
+}
 
-// WGS84 is already defined in proj4 as 'EPSG:4326' or 'WGS84'
+export const WGS84_ELLIPSOID: Ellipsoid = { a: 6378137, f: 1 / 298.257223563 };
 
 export interface GPSCoordinate {
   latitude: number;
@@ -24,38 +23,9 @@ export interface ModelCoordinate {
 }
 
 /**
- * Belgian Lambert 72 (EPSG:31370) to WGS84 conversion
- * Uses proj4js for accurate transformation including datum shift
- *
- * @param x - X coordinate in Belgian Lambert 72 (meters)
- * @param y - Y coordinate in Belgian Lambert 72 (meters)
- * @returns GPS coordinates in WGS84 (latitude, longitude in degrees)
- */
-export function belgianLambert72ToWGS84(x: number, y: number): GPSCoordinate {
-  // proj4 returns [longitude, latitude] for geographic coordinates
-  const [longitude, latitude] = proj4('EPSG:31370', 'WGS84', [x, y]);
-  return { latitude, longitude };
-}
-
-/**
- * WGS84 to Belgian Lambert 72 conversion
- * Uses proj4js for accurate transformation including datum shift
- *
- * @param latitude - Latitude in degrees (WGS84)
- * @param longitude - Longitude in degrees (WGS84)
- * @returns Model coordinates in Belgian Lambert 72 (x, y in meters)
- */
-export function wgs84ToBelgianLambert72(latitude: number, longitude: number): ModelCoordinate {
-  // proj4 expects [longitude, latitude] for geographic coordinates
-  const [x, y] = proj4('WGS84', 'EPSG:31370', [longitude, latitude]);
-  return { x, y };
-}
-
-/**
- * Calculate distance between two GPS coordinates in meters
- * Uses Haversine formula
+ * Spherical distance (Haversine) - fallback for nearly antipodal points
  */
-export function gpsDistance(coord1: GPSCoordinate, coord2: GPSCoordinate): number {
+function haversineDistance(coord1: GPSCoordinate, coord2: GPSCoordinate): number {
   const R = 6371000; // Earth's radius in meters
 
   const lat1 = coord1.latitude * Math.PI / 180;
@@ -72,6 +42,63 @@ export function gpsDistance(coord1: GPSCoordinate, coord2: GPSCoordinate): numbe
   return R * c;
 }
 
+/**
+ * Calculate distance between two geographic coordinates in meters
+ * Vincenty inverse formula (mm accuracy, the sphere is off by up to 0.5%). Coordinates must be
+ * on the datum of the given ellipsoid - WGS84 by default
+ */
+export function gpsDistance(
+  coord1: GPSCoordinate,
+  coord2: GPSCoordinate,
+  ellipsoid: Ellipsoid = WGS84_ELLIPSOID
+): number {
+  const { a: A_AXIS, f: F } = ellipsoid;
+  const B_AXIS = A_AXIS * (1 - F);
+  const toRad = Math.PI / 180;
+  const L = (coord2.longitude - coord1.longitude) * toRad;
+  const U1 = Math.atan((1 - F) * Math.tan(coord1.latitude * toRad));
+  const U2 = Math.atan((1 - F) * Math.tan(coord2.latitude * toRad));
+  const sinU1 = Math.sin(U1), cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2), cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  for (let i = 0; i < 100; i++) {
+    const sinLambda = Math.sin(lambda);
+    const cosLambda = Math.cos(lambda);
+    const sinSigma = Math.sqrt(
+      (cosU2 * sinLambda) ** 2 +
+      (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+    );
+    if (sinSigma === 0) return 0; // Coincident points
+
+    const cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    const sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    const cos2Alpha = 1 - sinAlpha * sinAlpha;
+    // Equatorial line: cos2Alpha = 0
+    const cos2SigmaM = cos2Alpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cos2Alpha : 0;
+    const C = (F / 16) * cos2Alpha * (4 + F * (4 - 3 * cos2Alpha));
+
+    const lambdaPrev = lambda;
+    lambda = L + (1 - C) * F * sinAlpha *
+      (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+
+    if (Math.abs(lambda - lambdaPrev) < 1e-12) {
+      const uSq = (cos2Alpha * (A_AXIS * A_AXIS - B_AXIS * B_AXIS)) / (B_AXIS * B_AXIS);
+      const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+      const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+      const deltaSigma = B * sinSigma * (cos2SigmaM + (B / 4) * (
+        cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+        (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)
+      ));
+      return B_AXIS * A * (sigma - deltaSigma);
+    }
+  }
+
+  // No convergence (nearly antipodal points)
+  return haversineDistance(coord1, coord2);
+}
+
 /**
  * Format GPS coordinate for display
  */
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getCrs, getCrsByEpsg, registerCoordinateSystem } from './crsRegistry';
+import { gpsDistance } from './coordinateUtils';
+
+// Setup mocks the supabase client module - coordinate systems are needed here
+vi.mock('../supabase', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../supabase')>()),
+}));
+
+const TALLINN = { latitude: 59.437, longitude: 24.7536 };
+const HELSINKI = { latitude: 60.1699, longitude: 24.9384 };
+
+describe('crsRegistry', () => {
+  it('should project into L-EST97 and ETRS-TM35FIN grids', () => {
+    const lest = getCrs('estonian_lest97').toProjected(TALLINN);
+    expect(lest.x).toBeGreaterThan(530000);
+    expect(lest.x).toBeLessThan(560000);
+    expect(lest.y).toBeGreaterThan(6580000);
+    expect(lest.y).toBeLessThan(6600000);
+
+    const fin = getCrsByEpsg(3067).toProjected(HELSINKI);
+    expect(fin.x).toBeCloseTo(385800, -3);
+    expect(fin.y).toBeCloseTo(6672000, -3);
+  });
+
+  it('should round-trip WGS84 through every national grid', () => {
+    for (const id of ['estonian_lest97', 'belgian_lambert_72', 'finnish_etrs']) {
+      const crs = getCrs(id);
+      const { x, y } = crs.toProjected(TALLINN);
+      const back = crs.toWgs84(x, y);
+      expect(back.latitude).toBeCloseTo(TALLINN.latitude, 7);
+      expect(back.longitude).toBeCloseTo(TALLINN.longitude, 7);
+    }
+  });
+
+  it('should register custom coordinate systems', () => {
+    const crs = registerCoordinateSystem({
+      id: 'custom_utm35',
+      name: 'UTM 35N',
+      country_code: 'LOCAL',
+      country_name: 'Local',
+      epsg_code: 32635,
+      proj4_string: '+proj=utm +zone=35 +datum=WGS84 +units=m +no_defs',
+      unit: 'meters',
+      is_active: true,
+    });
+    expect(getCrs('custom_utm35')).toBe(crs);
+    expect(crs.toProjected(TALLINN).x).toBeGreaterThan(300000);
+    expect(() => getCrs('local_calibrated')).toThrow();
+  });
+
+  it('should measure ellipsoidal distance', () => {
+    // One degree of longitude on the WGS84 equator
+    expect(gpsDistance({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 1 })).toBeCloseTo(111319.49, 1);
+    // Classic Vincenty test line (Flinders Peak - Buninyong)
+    expect(gpsDistance(
+      { latitude: -37.95103342, longitude: 144.42486789 },
+      { latitude: -37.65282114, longitude: 143.92649554 }
+    )).toBeCloseTo(54972.27, 0);
+    // Grid distance stays close to the ellipsoidal one near the projection centre
+    const crs = getCrs('estonian_lest97');
+    const b = { latitude: 59.44, longitude: 24.76 };
+    expect(Math.abs(crs.gridDistance(TALLINN, b) - crs.distance(TALLINN, b))).toBeLessThan(0.5);
+  });
+
+  it('should measure distance on the datum of the coordinate system', () => {
+    const brussels = { latitude: 50.85, longitude: 4.35 };
+    const antwerp = { latitude: 51.22, longitude: 4.4 };
+    const wgs84 = gpsDistance(brussels, antwerp);
+
+    // GRS80 datums match WGS84 to well below a millimetre
+    expect(getCrs('estonian_lest97').distance(brussels, antwerp)).toBeCloseTo(wgs84, 3);
+
+    // Lambert 72 is on the International 1924 ellipsoid (BD72 datum)
+    const lambert = getCrs('belgian_lambert_72');
+    expect(lambert.ellipsoid.a).toBe(6378388);
+    const bd72 = lambert.distance(brussels, antwerp);
+    expect(bd72).not.toBeCloseTo(wgs84, 1);
+    expect(Math.abs(bd72 - wgs84)).toBeLessThan(1);
+  });
+});
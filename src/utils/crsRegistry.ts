@@ -0,0 +1,111 @@
+/**
+ * CRS registry
+ * Forward/inverse transforms between WGS84 and any CoordinateSystem
+ * (EPSG code + proj4 definition) from COORDINATE_SYSTEMS or registered at runtime
+ */
+
+import proj4 from 'proj4';
+import { COORDINATE_SYSTEMS, CoordinateSystem } from '../supabase';
+import { Ellipsoid, GPSCoordinate, ModelCoordinate, gpsDistance } from './coordinateUtils';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CrsTransformer {
+  system: CoordinateSystem;
+  code: string;                                             // proj4 name, e.g. 'EPSG:3301'
+  toProjected: (gps: GPSCoordinate) => ModelCoordinate;     // WGS84 -> grid (meters)
+  toWgs84: (x: number, y: number) => GPSCoordinate;         // grid (meters) -> WGS84
+  ellipsoid: Ellipsoid;                                     // Ellipsoid of the system's datum
+  distance: (a: GPSCoordinate, b: GPSCoordinate) => number; // Ellipsoidal distance on the system's datum (m)
+  gridDistance: (a: GPSCoordinate, b: GPSCoordinate) => number; // Distance on the grid (m)
+}
+
+// Keyed by CoordinateSystem.id
+const registry = new Map<string, CrsTransformer>();
+
+// ============================================
+// REGISTRY
+// ============================================
+
+/**
+ * Register a coordinate system with proj4 and cache its transformer
+ * Re-registering the same id replaces the definition
+ */
+export function registerCoordinateSystem(cs: CoordinateSystem): CrsTransformer {
+  if (!cs.epsg_code || !cs.proj4_string) {
+    throw new Error(`Coordinate system ${cs.id} has no projection definition`);
+  }
+
+  const code = `EPSG:${cs.epsg_code}`;
+  proj4.defs(code, cs.proj4_string);
+  const converter = proj4('WGS84', code);
+
+  // Geographic coordinates on the system's own datum (same ellipsoid and WGS84 shift)
+  const projection = new proj4.Proj(code);
+  const ellipsoid: Ellipsoid = { a: projection.a, f: 1 - projection.b / projection.a };
+  const datumParams = proj4.defs(code).datum_params;
+  const towgs84 = datumParams?.length ? ` +towgs84=${datumParams.toString()}` : '';
+  const toDatum = proj4('WGS84', `+proj=longlat +a=${projection.a} +b=${projection.b}${towgs84} +no_defs`);
+  const onDatum = (gps: GPSCoordinate): GPSCoordinate => {
+    const [longitude, latitude] = toDatum.forward([gps.longitude, gps.latitude]);
+    return { latitude, longitude };
+  };
+
+  const toProjected = (gps: GPSCoordinate): ModelCoordinate => {
+    // proj4 uses [longitude, latitude] order for geographic coordinates
+    const [x, y] = converter.forward([gps.longitude, gps.latitude]);
+    return { x, y };
+  };
+
+  const transformer: CrsTransformer = {
+    system: cs,
+    code,
+    toProjected,
+    toWgs84: (x, y) => {
+      const [longitude, latitude] = converter.inverse([x, y]);
+      return { latitude, longitude };
+    },
+    ellipsoid,
+    distance: (a, b) => gpsDistance(onDatum(a), onDatum(b), ellipsoid),
+    gridDistance: (a, b) => {
+      const pa = toProjected(a);
+      const pb = toProjected(b);
+      return Math.hypot(pb.x - pa.x, pb.y - pa.y);
+    },
+  };
+
+  registry.set(cs.id, transformer);
+  return transformer;
+}
+
+/**
+ * Get transformer for a coordinate system (object or COORDINATE_SYSTEMS id)
+ */
+export function getCrs(system: CoordinateSystem | string): CrsTransformer {
+  const id = typeof system === 'string' ? system : system.id;
+  const cached = registry.get(id);
+  if (cached) return cached;
+
+  const cs = typeof system === 'string' ? COORDINATE_SYSTEMS.find(c => c.id === id) : system;
+  if (!cs) {
+    throw new Error(`Unknown coordinate system: ${id}`);
+  }
+  return registerCoordinateSystem(cs);
+}
+
+/**
+ * Get transformer by EPSG code
+ */
+export function getCrsByEpsg(epsgCode: number): CrsTransformer {
+  for (const transformer of registry.values()) {
+    if (transformer.system.epsg_code === epsgCode) return transformer;
+  }
+
+  const cs = COORDINATE_SYSTEMS.find(c => c.epsg_code === epsgCode);
+  if (!cs) {
+    throw new Error(`Unknown EPSG code: ${epsgCode}`);
+  }
+  return registerCoordinateSystem(cs);
+}
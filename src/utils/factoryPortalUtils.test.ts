@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createOrGetFactoryPortalLink,
+  getNextPortalStatuses,
+  getPortalActor,
+  isPortalLinkUsable,
+  setDispatchMissing,
+  setPortalVehicleStatus
+} from './factoryPortalUtils';
+import type { DeliveryFactory, DeliveryItem, DeliveryVehicle, FactoryPortalLink } from '../supabase';
+
+type Result = { data: unknown; error: unknown };
+type Call = { table: string; method: string; args: unknown[] };
+
+// Queued results per table; every awaited query takes the next one
+const mockDb = vi.hoisted(() => ({
+  results: {} as Record<string, Result[]>,
+  calls: [] as Call[]
+}));
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: (table: string) => {
+      const next = () => Promise.resolve(mockDb.results[table]?.shift() ?? { data: null, error: null });
+      const builder: Record<string, unknown> = {
+        then: (resolve: (r: Result) => unknown, reject: (e: unknown) => unknown) => next().then(resolve, reject)
+      };
+      for (const method of ['select', 'insert', 'update', 'eq', 'in', 'order', 'limit']) {
+        builder[method] = (...args: unknown[]) => {
+          mockDb.calls.push({ table, method, args });
+          return builder;
+        };
+      }
+      builder.maybeSingle = next;
+      builder.single = next;
+      return builder;
+    }
+  }
+}));
+
+const link = (overrides: Partial<FactoryPortalLink> = {}): FactoryPortalLink => ({
+  id: 'link-1',
+  trimble_project_id: 'project-1',
+  factory_id: 'factory-1',
+  share_token: 'token',
+  project_name: 'Project',
+  factory_name: 'Obornik',
+  is_active: true,
+  expires_at: null,
+  view_count: 0,
+  created_at: '2026-02-01T00:00:00Z',
+  ...overrides
+} as FactoryPortalLink);
+
+const vehicle = (overrides: Partial<DeliveryVehicle> = {}): DeliveryVehicle => ({
+  id: 'vehicle-1',
+  trimble_project_id: 'project-1',
+  factory_id: 'factory-1',
+  vehicle_code: 'OBO1',
+  status: 'planned',
+  ...overrides
+} as DeliveryVehicle);
+
+const items = [
+  { id: 'item-1', vehicle_id: 'vehicle-1', status: 'planned' },
+  { id: 'item-2', vehicle_id: 'vehicle-1', status: 'planned' }
+] as DeliveryItem[];
+
+const callsOf = (table: string, method: string) =>
+  mockDb.calls.filter(c => c.table === table && c.method === method);
+
+describe('factoryPortalUtils', () => {
+  beforeEach(() => {
+    mockDb.results = {};
+    mockDb.calls = [];
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('only moves vehicles forward from planned to loading to transit', () => {
+    expect(getNextPortalStatuses('planned')).toEqual(['loading', 'transit']);
+    expect(getNextPortalStatuses('loading')).toEqual(['transit']);
+    expect(getNextPortalStatuses('transit')).toEqual([]);
+    expect(getNextPortalStatuses('arrived')).toEqual([]);
+  });
+
+  it('records the factory as the actor', () => {
+    expect(getPortalActor({ factory_name: 'Obornik' } as FactoryPortalLink)).toBe('Obornik (supplier portal)');
+    expect(getPortalActor({ factory_name: null } as FactoryPortalLink)).toBe('Factory (supplier portal)');
+  });
+
+  it('accepts only active links that have not expired', () => {
+    const now = new Date('2026-02-10T12:00:00Z');
+    expect(isPortalLinkUsable(link(), now)).toBe(true);
+    expect(isPortalLinkUsable(link({ expires_at: '2026-02-11T00:00:00Z' }), now)).toBe(true);
+    expect(isPortalLinkUsable(link({ expires_at: '2026-02-10T00:00:00Z' }), now)).toBe(false);
+    expect(isPortalLinkUsable(link({ is_active: false }), now)).toBe(false);
+  });
+
+  it('refuses writes once the link has expired or was deactivated', async () => {
+    mockDb.results.trimble_factory_portal_links = [{ data: link({ expires_at: '2020-01-01T00:00:00Z' }), error: null }];
+    const expired = await setPortalVehicleStatus(link(), vehicle(), 'loading', items);
+    expect(expired.error).toBe('Portal link has expired or was deactivated');
+
+    mockDb.results.trimble_factory_portal_links = [{ data: null, error: null }];
+    const deactivated = await setDispatchMissing(link(), vehicle(), items, 'not ready');
+    expect(deactivated.error).toBe('Portal link has expired or was deactivated');
+
+    expect(callsOf('trimble_delivery_vehicles', 'update')).toHaveLength(0);
+    expect(callsOf('trimble_delivery_items', 'update')).toHaveLength(0);
+  });
+
+  it('refuses vehicles of another factory', async () => {
+    mockDb.results.trimble_factory_portal_links = [{ data: link(), error: null }];
+    const { error } = await setPortalVehicleStatus(link(), vehicle({ factory_id: 'factory-2' }), 'loading', items);
+    expect(error).toBeTruthy();
+    expect(callsOf('trimble_delivery_vehicles', 'update')).toHaveLength(0);
+  });
+
+  it('updates the vehicle scoped to the factory and records history', async () => {
+    mockDb.results.trimble_factory_portal_links = [{ data: link(), error: null }];
+    mockDb.results.trimble_delivery_vehicles = [{ data: [{ id: 'vehicle-1' }], error: null }];
+    const { error } = await setPortalVehicleStatus(link(), vehicle(), 'loading', items);
+
+    expect(error).toBeNull();
+    expect(callsOf('trimble_factory_portal_links', 'eq').map(c => c.args)).toEqual([
+      ['id', 'link-1'],
+      ['share_token', 'token']
+    ]);
+    expect(callsOf('trimble_delivery_vehicles', 'update')[0].args[0]).toMatchObject({
+      status: 'loading',
+      updated_by: 'Obornik (supplier portal)'
+    });
+    expect(callsOf('trimble_delivery_vehicles', 'eq').map(c => c.args)).toEqual([
+      ['id', 'vehicle-1'],
+      ['factory_id', 'factory-1'],
+      ['status', 'planned']
+    ]);
+    const history = callsOf('trimble_delivery_history', 'insert')[0].args[0] as Record<string, unknown>[];
+    expect(history.map(h => h.item_id)).toEqual(['item-1', 'item-2']);
+    expect(history[0]).toMatchObject({ old_status: 'planned', new_status: 'loading' });
+  });
+
+  it('refuses the change when the vehicle status changed meanwhile', async () => {
+    mockDb.results.trimble_factory_portal_links = [{ data: link(), error: null }];
+    // Site marked the vehicle arrived after the portal loaded it - no row matches the old status
+    mockDb.results.trimble_delivery_vehicles = [{ data: [], error: null }];
+    const { error } = await setPortalVehicleStatus(link(), vehicle(), 'transit', items);
+
+    expect(error).toBe('Vehicle status was changed meanwhile - reload and try again');
+    expect(callsOf('trimble_delivery_history', 'insert')).toHaveLength(0);
+  });
+
+  it('returns the existing link when another user created one at the same time', async () => {
+    const existing = link({ id: 'link-2' });
+    mockDb.results.trimble_factory_portal_links = [
+      { data: [], error: null },
+      { data: null, error: { code: '23505', message: 'duplicate key value' } },
+      { data: [existing], error: null }
+    ];
+
+    const result = await createOrGetFactoryPortalLink(
+      'project-1',
+      'Project',
+      { id: 'factory-1', factory_name: 'Obornik' } as DeliveryFactory
+    );
+
+    expect(result).toEqual({ portalLink: existing, error: null });
+    expect(callsOf('trimble_factory_portal_links', 'insert')).toHaveLength(1);
+  });
+});
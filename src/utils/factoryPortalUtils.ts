@@ -0,0 +1,434 @@
+/**
+ * Factory Portal Utilities
+ *
+ * Token-scoped supplier portal: a factory sees its upcoming vehicles, confirms
+ * loading and dispatch, uploads delivery notes and load photos and flags items
+ * that did not make it onto the vehicle. Every change is written to the delivery
+ * history with the factory as the actor.
+ */
+
+import {
+  supabase,
+  DeliveryFactory,
+  DeliveryItem,
+  DeliveryVehicle,
+  DeliveryVehicleStatus,
+  DispatchFileType,
+  FactoryPortalLink,
+  VehicleDispatchFile
+} from '../supabase';
+import { generateShareToken } from './shareUtils';
+
+// Vehicle statuses the factory can still act on
+export const PORTAL_OPEN_STATUSES: DeliveryVehicleStatus[] = ['planned', 'loading', 'transit'];
+
+// Storage bucket shared with arrival photos
+const DISPATCH_BUCKET = 'arrival-photos';
+
+// Postgres unique violation (second active link for a factory)
+const UNIQUE_VIOLATION = '23505';
+
+export interface FactoryPortalData {
+  portalLink: FactoryPortalLink | null;
+  vehicles: DeliveryVehicle[];
+  items: DeliveryItem[];
+  files: VehicleDispatchFile[];
+  error: string | null;
+}
+
+/**
+ * Generate the full portal URL for a given token
+ */
+export function getFactoryPortalUrl(token: string): string {
+  const basePath = import.meta.env.BASE_URL || '/';
+  const cleanBase = basePath.endsWith('/') ? basePath.slice(0, -1) : basePath;
+  return `${window.location.origin}${cleanBase}/factory/${token}`;
+}
+
+/**
+ * Name written to changed_by / uploaded_by for portal changes
+ */
+export function getPortalActor(portalLink: FactoryPortalLink): string {
+  return `${portalLink.factory_name || 'Factory'} (supplier portal)`;
+}
+
+/**
+ * Whether a portal link still accepts the factory (active and not past its expiry)
+ */
+export function isPortalLinkUsable(
+  portalLink: Pick<FactoryPortalLink, 'is_active' | 'expires_at'>,
+  now: Date = new Date()
+): boolean {
+  if (!portalLink.is_active) return false;
+  return !portalLink.expires_at || new Date(portalLink.expires_at) >= now;
+}
+
+/**
+ * Next statuses the factory may set: planned -> loading -> transit
+ */
+export function getNextPortalStatuses(status: DeliveryVehicleStatus): DeliveryVehicleStatus[] {
+  if (status === 'planned') return ['loading', 'transit'];
+  if (status === 'loading') return ['transit'];
+  return [];
+}
+
+/**
+ * Create or get the active portal link for a factory
+ */
+export async function createOrGetFactoryPortalLink(
+  projectId: string,
+  projectName: string,
+  factory: DeliveryFactory,
+  createdBy?: string
+): Promise<{ portalLink: FactoryPortalLink | null; error: string | null }> {
+  // Newest active link (a partial unique index allows only one)
+  const findActiveLink = async (): Promise<FactoryPortalLink | null> => {
+    const { data, error } = await supabase
+      .from('trimble_factory_portal_links')
+      .select('*')
+      .eq('factory_id', factory.id)
+      .eq('is_active', true)
+      .order('created_at', { ascending: false })
+      .limit(1);
+    if (error) throw error;
+    return data?.[0] || null;
+  };
+
+  try {
+    const existing = await findActiveLink();
+    if (existing) {
+      return { portalLink: existing, error: null };
+    }
+
+    const { data: newLink, error: insertError } = await supabase
+      .from('trimble_factory_portal_links')
+      .insert({
+        trimble_project_id: projectId,
+        factory_id: factory.id,
+        share_token: generateShareToken(),
+        project_name: projectName,
+        factory_name: factory.factory_name,
+        is_active: true,
+        view_count: 0,
+        created_by: createdBy
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      // Created at the same time by someone else - use theirs
+      if (insertError.code === UNIQUE_VIOLATION) {
+        const concurrent = await findActiveLink();
+        if (concurrent) return { portalLink: concurrent, error: null };
+      }
+      console.error('Error creating factory portal link:', insertError);
+      return { portalLink: null, error: insertError.message };
+    }
+
+    return { portalLink: newLink, error: null };
+  } catch (e: unknown) {
+    const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+    console.error('Error in createOrGetFactoryPortalLink:', e);
+    return { portalLink: null, error: errorMessage };
+  }
+}
+
+/**
+ * Active portal links of a project (for showing which factories have a link)
+ */
+export async function getFactoryPortalLinks(projectId: string): Promise<FactoryPortalLink[]> {
+  const { data, error } = await supabase
+    .from('trimble_factory_portal_links')
+    .select('*')
+    .eq('trimble_project_id', projectId)
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('Error fetching factory portal links:', error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Deactivate a portal link
+ */
+export async function deactivateFactoryPortalLink(linkId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('trimble_factory_portal_links')
+      .update({ is_active: false })
+      .eq('id', linkId);
+
+    return !error;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fetch portal link and the factory's upcoming vehicles by token (for the public portal)
+ */
+export async function getFactoryPortalByToken(token: string): Promise<FactoryPortalData> {
+  const empty = { portalLink: null, vehicles: [], items: [], files: [] };
+
+  try {
+    const { data: portalLink, error: linkError } = await supabase
+      .from('trimble_factory_portal_links')
+      .select('*')
+      .eq('share_token', token)
+      .eq('is_active', true)
+      .single();
+
+    if (linkError || !portalLink) {
+      return { ...empty, error: 'Portal link not found or expired' };
+    }
+
+    if (!isPortalLinkUsable(portalLink)) {
+      return { ...empty, error: 'Portal link has expired' };
+    }
+
+    await supabase
+      .from('trimble_factory_portal_links')
+      .update({
+        view_count: (portalLink.view_count || 0) + 1,
+        last_viewed_at: new Date().toISOString()
+      })
+      .eq('id', portalLink.id);
+
+    // Scheduled vehicles that have not arrived yet
+    const { data: vehicles, error: vehiclesError } = await supabase
+      .from('trimble_delivery_vehicles')
+      .select('*')
+      .eq('factory_id', portalLink.factory_id)
+      .in('status', PORTAL_OPEN_STATUSES)
+      .not('scheduled_date', 'is', null)
+      .order('scheduled_date', { ascending: true })
+      .order('unload_start_time', { ascending: true, nullsFirst: false });
+
+    if (vehiclesError) throw vehiclesError;
+
+    const vehicleIds = (vehicles || []).map(v => v.id);
+    let items: DeliveryItem[] = [];
+    let files: VehicleDispatchFile[] = [];
+
+    if (vehicleIds.length > 0) {
+      const { data: itemsData } = await supabase
+        .from('trimble_delivery_items')
+        .select('*')
+        .in('vehicle_id', vehicleIds)
+        .order('sort_order', { ascending: true });
+      items = itemsData || [];
+
+      const { data: filesData } = await supabase
+        .from('trimble_vehicle_dispatch_files')
+        .select('*')
+        .in('vehicle_id', vehicleIds)
+        .order('uploaded_at', { ascending: true });
+      files = filesData || [];
+    }
+
+    return { portalLink, vehicles: vehicles || [], items, files, error: null };
+  } catch (e: unknown) {
+    const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+    console.error('Error fetching factory portal:', e);
+    return { ...empty, error: errorMessage };
+  }
+}
+
+/**
+ * Re-read the link before a write: a link deactivated or expired after the page
+ * was opened must not accept changes. Returns the current link row.
+ */
+async function getValidPortalLink(portalLink: FactoryPortalLink): Promise<FactoryPortalLink> {
+  const { data, error } = await supabase
+    .from('trimble_factory_portal_links')
+    .select('*')
+    .eq('id', portalLink.id)
+    .eq('share_token', portalLink.share_token)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || !isPortalLinkUsable(data)) {
+    throw new Error('Portal link has expired or was deactivated');
+  }
+  return data;
+}
+
+/**
+ * Refuse changes to vehicles of other factories
+ */
+function assertOwnVehicle(portalLink: FactoryPortalLink, vehicle: DeliveryVehicle) {
+  if (vehicle.factory_id !== portalLink.factory_id || vehicle.trimble_project_id !== portalLink.trimble_project_id) {
+    throw new Error('Vehicle does not belong to this factory');
+  }
+}
+
+/**
+ * Mark a vehicle as loading or in transit
+ */
+export async function setPortalVehicleStatus(
+  portalLink: FactoryPortalLink,
+  vehicle: DeliveryVehicle,
+  status: DeliveryVehicleStatus,
+  items: DeliveryItem[]
+): Promise<{ error: string | null }> {
+  try {
+    const link = await getValidPortalLink(portalLink);
+    assertOwnVehicle(link, vehicle);
+    if (!getNextPortalStatuses(vehicle.status).includes(status)) {
+      throw new Error(`Cannot change status from ${vehicle.status} to ${status}`);
+    }
+
+    // Only from the status the portal showed - a site change in between (e.g. arrived) wins
+    const actor = getPortalActor(link);
+    const { data: updated, error: updateError } = await supabase
+      .from('trimble_delivery_vehicles')
+      .update({ status, updated_at: new Date().toISOString(), updated_by: actor })
+      .eq('id', vehicle.id)
+      .eq('factory_id', link.factory_id)
+      .eq('status', vehicle.status)
+      .select('id');
+
+    if (updateError) throw updateError;
+    if (!updated || updated.length === 0) {
+      throw new Error('Vehicle status was changed meanwhile - reload and try again');
+    }
+
+    const vehicleItems = items.filter(i => i.vehicle_id === vehicle.id);
+    if (vehicleItems.length > 0) {
+      const { error: historyError } = await supabase
+        .from('trimble_delivery_history')
+        .insert(vehicleItems.map(item => ({
+          trimble_project_id: link.trimble_project_id,
+          item_id: item.id,
+          vehicle_id: vehicle.id,
+          change_type: 'status_changed',
+          old_status: vehicle.status,
+          new_status: status,
+          change_reason: `Supplier portal: vehicle ${vehicle.vehicle_code} ${status}`,
+          changed_by: actor,
+          is_snapshot: false
+        })));
+
+      if (historyError) console.error('Error saving portal history:', historyError);
+    }
+
+    console.log(`✅ Portal: ${vehicle.vehicle_code} -> ${status}`);
+    return { error: null };
+  } catch (e: unknown) {
+    const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+    console.error('Error setting vehicle status from portal:', e);
+    return { error: errorMessage };
+  }
+}
+
+/**
+ * Upload a delivery note or load photo for a vehicle
+ */
+export async function uploadDispatchFile(
+  portalLink: FactoryPortalLink,
+  vehicle: DeliveryVehicle,
+  file: File,
+  fileType: DispatchFileType
+): Promise<{ file: VehicleDispatchFile | null; error: string | null }> {
+  try {
+    const link = await getValidPortalLink(portalLink);
+    assertOwnVehicle(link, vehicle);
+
+    const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+    const path = `${link.trimble_project_id}/dispatch/${vehicle.id}/${fileType}/${Date.now()}_${safeName}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(DISPATCH_BUCKET)
+      .upload(path, file);
+
+    if (uploadError) throw uploadError;
+
+    const { data: urlData } = supabase.storage
+      .from(DISPATCH_BUCKET)
+      .getPublicUrl(path);
+
+    const { data: record, error: insertError } = await supabase
+      .from('trimble_vehicle_dispatch_files')
+      .insert({
+        trimble_project_id: link.trimble_project_id,
+        vehicle_id: vehicle.id,
+        factory_id: link.factory_id,
+        file_type: fileType,
+        file_name: file.name,
+        file_url: urlData.publicUrl,
+        file_size: file.size,
+        mime_type: file.type,
+        uploaded_by: getPortalActor(link)
+      })
+      .select()
+      .single();
+
+    if (insertError) throw insertError;
+
+    return { file: record, error: null };
+  } catch (e: unknown) {
+    const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+    console.error('Error uploading dispatch file:', e);
+    return { file: null, error: errorMessage };
+  }
+}
+
+/**
+ * Flag items that will not be on the vehicle (or clear the flag with note = null)
+ */
+export async function setDispatchMissing(
+  portalLink: FactoryPortalLink,
+  vehicle: DeliveryVehicle,
+  items: DeliveryItem[],
+  note: string | null
+): Promise<{ error: string | null }> {
+  try {
+    const link = await getValidPortalLink(portalLink);
+    assertOwnVehicle(link, vehicle);
+    const targetItems = items.filter(i => i.vehicle_id === vehicle.id);
+    if (targetItems.length === 0) return { error: null };
+
+    const actor = getPortalActor(link);
+    const missing = note !== null;
+    const now = new Date().toISOString();
+
+    const { error: updateError } = await supabase
+      .from('trimble_delivery_items')
+      .update({
+        dispatch_missing_at: missing ? now : null,
+        dispatch_missing_note: missing ? note : null,
+        updated_at: now,
+        updated_by: actor
+      })
+      .in('id', targetItems.map(i => i.id))
+      .eq('vehicle_id', vehicle.id);
+
+    if (updateError) throw updateError;
+
+    const { error: historyError } = await supabase
+      .from('trimble_delivery_history')
+      .insert(targetItems.map(item => ({
+        trimble_project_id: link.trimble_project_id,
+        item_id: item.id,
+        vehicle_id: vehicle.id,
+        change_type: 'status_changed',
+        old_status: item.dispatch_missing_at ? 'missing' : item.status,
+        new_status: missing ? 'missing' : item.status,
+        change_reason: missing
+          ? `Supplier portal: not loaded on ${vehicle.vehicle_code}${note ? ` - ${note}` : ''}`
+          : `Supplier portal: loaded on ${vehicle.vehicle_code}`,
+        changed_by: actor,
+        is_snapshot: false
+      })));
+
+    if (historyError) console.error('Error saving portal history:', historyError);
+
+    return { error: null };
+  } catch (e: unknown) {
+    const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+    console.error('Error flagging missing items:', e);
+    return { error: errorMessage };
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildCraneFeatures,
+  buildElementFeatures,
+  getCraneRingRadii,
+  getFootprintRing,
+  toGeoJson,
+  toKml,
+} from './geoExport';
+import { CraneModel, ProjectCoordinateSettings, ProjectCrane } from '../supabase';
+
+// Setup mocks the supabase client module - coordinate systems are needed here
+vi.mock('../supabase', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../supabase')>()),
+}));
+
+// Model in L-EST97 coordinates (meters) - positions convert directly
+const settings = {
+  coordinate_system_id: 'estonian_lest97',
+  model_units: 'meters',
+  model_has_real_coordinates: true,
+} as ProjectCoordinateSettings;
+
+const bounds = { min: { x: 540000, y: 6580000, z: 0 }, max: { x: 540010, y: 6580002, z: 5 } };
+
+const folderNames = { element: 'Elements', crane: 'Cranes', crane_radius: 'Rings', calibration_point: 'Points' };
+
+const crane = (overrides: Partial<ProjectCrane> = {}) => ({
+  id: 'c1',
+  position_x: 540020,
+  position_y: 6580020,
+  position_z: 0,
+  boom_length_m: 40,
+  radius_step_m: 10,
+  position_label: 'K1',
+  crane_model: { manufacturer: 'Liebherr', model: 'LTM 1100', max_radius_m: 35 } as CraneModel,
+  ...overrides,
+}) as ProjectCrane;
+
+describe('geoExport', () => {
+  it('builds closed footprint polygons and centroids in lng/lat order', () => {
+    expect(getFootprintRing(bounds)).toHaveLength(5);
+
+    const element = { guidIfc: 'g1', assemblyMark: 'B-1', status: 'installed' as const, weightKg: 1200, bounds };
+    const [footprint] = buildElementFeatures([element], settings, 'footprint');
+    expect(footprint.geometry.type).toBe('Polygon');
+    const ring = footprint.geometry.type === 'Polygon' ? footprint.geometry.coordinates[0] : [];
+    expect(ring[0]).toEqual(ring[4]);
+    // Estonia: lng ~24-26, lat ~59
+    expect(ring[0][0]).toBeGreaterThan(23);
+    expect(ring[0][1]).toBeGreaterThan(58);
+
+    const [centroid] = buildElementFeatures([element], settings, 'centroid');
+    expect(centroid.geometry.type).toBe('Point');
+    expect(centroid.properties).toMatchObject({ assembly_mark: 'B-1', status: 'installed', weight_kg: 1200 });
+  });
+
+  it('steps radius rings up to the ring limit', () => {
+    expect(getCraneRingRadii(crane())).toEqual([10, 20, 30, 35]);
+    expect(getCraneRingRadii(crane({ max_radius_limit_m: 20 }))).toEqual([10, 20]);
+
+    const features = buildCraneFeatures([crane({ max_radius_limit_m: 20 })], settings, true);
+    expect(features.map(f => f.layer)).toEqual(['crane', 'crane_radius', 'crane_radius']);
+    expect(buildCraneFeatures([crane()], settings, false)).toHaveLength(1);
+  });
+
+  it('writes GeoJSON and KML with properties and escaped names', () => {
+    const features = buildElementFeatures(
+      [{ guidIfc: 'g1', assemblyMark: 'B<1>&2', status: 'planned', weightKg: null, bounds }],
+      settings,
+      'centroid'
+    );
+
+    const geojson = JSON.parse(toGeoJson(features));
+    expect(geojson.type).toBe('FeatureCollection');
+    expect(geojson.features[0].properties).toMatchObject({ layer: 'element', name: 'B<1>&2', status: 'planned' });
+
+    const kml = toKml(features, 'Project', folderNames);
+    expect(kml).toContain('<name>B&lt;1&gt;&amp;2</name>');
+    expect(kml).toContain('<styleUrl>#element_planned</styleUrl>');
+    expect(kml).toContain('<Folder><name>Elements</name>');
+    expect(kml).not.toContain('weight_kg'); // null values are left out
+  });
+});
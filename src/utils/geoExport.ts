@@ -0,0 +1,293 @@
+/**
+ * GIS export
+ * Installed/planned elements, crane positions with radius rings and calibration points
+ * as GeoJSON (QGIS) and KML (Google Earth). Model positions go through modelMetersToGps,
+ * so the project has to be calibrated (or use real coordinates).
+ */
+
+import { CalibrationPoint, ProjectCrane, ProjectCoordinateSettings, ScheduleItemStatus } from '../supabase';
+import { modelMetersToGps } from './coordinateTransform';
+
+export type GeoExportFormat = 'geojson' | 'kml';
+
+export type GeoExportLayer = 'element' | 'crane' | 'crane_radius' | 'calibration_point';
+
+export type GeoElementStatus = 'installed' | ScheduleItemStatus;
+
+type Position = [number, number] | [number, number, number]; // [lng, lat, alt?]
+
+export type GeoExportGeometry =
+  | { type: 'Point'; coordinates: Position }
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'Polygon'; coordinates: Position[][] };
+
+export interface GeoExportFeature {
+  layer: GeoExportLayer;
+  name: string;
+  geometry: GeoExportGeometry;
+  properties: Record<string, string | number | null>;
+}
+
+// Element with its bounding box in viewer coordinates (meters)
+export interface GeoExportElement {
+  guidIfc: string;
+  assemblyMark: string;
+  status: GeoElementStatus;
+  weightKg: number | null;
+  bounds: {
+    min: { x: number; y: number; z: number };
+    max: { x: number; y: number; z: number };
+  };
+}
+
+export interface GeoExportOptions {
+  elementGeometry: 'footprint' | 'centroid';
+  includeRadiusRings: boolean;
+}
+
+// Segments per radius ring (5° steps)
+const RING_SEGMENTS = 72;
+
+// KML colors are aabbggrr
+const KML_STYLES: Record<GeoExportLayer, { line: string; fill: string }> = {
+  element: { line: 'ff2563eb', fill: '662563eb' },
+  crane: { line: 'ff0000ff', fill: '660000ff' },
+  crane_radius: { line: 'ff00a5ff', fill: '00000000' },
+  calibration_point: { line: 'ff00ff00', fill: '6600ff00' }
+};
+
+const KML_STATUS_COLORS: Record<GeoElementStatus, string> = {
+  installed: '8822c55e',
+  completed: '8822c55e',
+  in_progress: '880b9ef5',
+  planned: '88eb6325',
+  cancelled: '88b8a394'
+};
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Model point (meters) to a GeoJSON position [lng, lat]
+ */
+function toPosition(x: number, y: number, z: number, settings: ProjectCoordinateSettings): Position {
+  const gps = modelMetersToGps(x, y, z, settings);
+  return [round(gps.lng, 8), round(gps.lat, 8)];
+}
+
+/**
+ * Plan-view footprint of a bounding box as a closed ring (counter-clockwise)
+ */
+export function getFootprintRing(bounds: GeoExportElement['bounds']): { x: number; y: number }[] {
+  const { min, max } = bounds;
+  return [
+    { x: min.x, y: min.y },
+    { x: max.x, y: min.y },
+    { x: max.x, y: max.y },
+    { x: min.x, y: max.y },
+    { x: min.x, y: min.y }
+  ];
+}
+
+/**
+ * Circle around a center as a closed ring
+ */
+export function getCirclePoints(
+  center: { x: number; y: number },
+  radiusM: number,
+  segments: number = RING_SEGMENTS
+): { x: number; y: number }[] {
+  const points: { x: number; y: number }[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const angle = (i % segments) / segments * 2 * Math.PI;
+    points.push({ x: center.x + radiusM * Math.cos(angle), y: center.y + radiusM * Math.sin(angle) });
+  }
+  return points;
+}
+
+/**
+ * Radii of the crane's rings: every radius_step_m up to the ring limit or the model's max radius
+ */
+export function getCraneRingRadii(crane: ProjectCrane): number[] {
+  const maxRadius = crane.crane_model?.max_radius_m || 0;
+  const limit = crane.max_radius_limit_m && crane.max_radius_limit_m > 0
+    ? Math.min(crane.max_radius_limit_m, maxRadius)
+    : maxRadius;
+  const step = crane.radius_step_m > 0 ? crane.radius_step_m : limit;
+  if (limit <= 0) return [];
+
+  const radii: number[] = [];
+  for (let r = step; r < limit - 0.001; r += step) radii.push(round(r, 3));
+  radii.push(round(limit, 3));
+  return radii;
+}
+
+export function buildElementFeatures(
+  elements: GeoExportElement[],
+  settings: ProjectCoordinateSettings,
+  geometry: GeoExportOptions['elementGeometry']
+): GeoExportFeature[] {
+  return elements.map(element => {
+    const { min, max } = element.bounds;
+    const properties = {
+      guid_ifc: element.guidIfc,
+      assembly_mark: element.assemblyMark,
+      status: element.status,
+      weight_kg: element.weightKg,
+      bottom_z_m: round(min.z, 3),
+      top_z_m: round(max.z, 3)
+    };
+
+    if (geometry === 'centroid') {
+      return {
+        layer: 'element' as const,
+        name: element.assemblyMark,
+        geometry: { type: 'Point' as const, coordinates: toPosition((min.x + max.x) / 2, (min.y + max.y) / 2, min.z, settings) },
+        properties
+      };
+    }
+    return {
+      layer: 'element' as const,
+      name: element.assemblyMark,
+      geometry: {
+        type: 'Polygon' as const,
+        coordinates: [getFootprintRing(element.bounds).map(p => toPosition(p.x, p.y, min.z, settings))]
+      },
+      properties
+    };
+  });
+}
+
+export function buildCraneFeatures(
+  cranes: ProjectCrane[],
+  settings: ProjectCoordinateSettings,
+  includeRadiusRings: boolean
+): GeoExportFeature[] {
+  const features: GeoExportFeature[] = [];
+  for (const crane of cranes) {
+    const label = crane.position_label || crane.crane_model?.model || crane.id;
+    const center = { x: crane.position_x, y: crane.position_y };
+
+    features.push({
+      layer: 'crane',
+      name: label,
+      geometry: { type: 'Point', coordinates: toPosition(center.x, center.y, crane.position_z, settings) },
+      properties: {
+        crane_id: crane.id,
+        position_label: crane.position_label || null,
+        model: crane.crane_model ? `${crane.crane_model.manufacturer} ${crane.crane_model.model}` : null,
+        boom_length_m: crane.boom_length_m,
+        max_radius_m: crane.crane_model?.max_radius_m ?? null
+      }
+    });
+
+    if (!includeRadiusRings) continue;
+    for (const radius of getCraneRingRadii(crane)) {
+      features.push({
+        layer: 'crane_radius',
+        name: `${label} R${radius} m`,
+        geometry: {
+          type: 'LineString',
+          coordinates: getCirclePoints(center, radius).map(p => toPosition(p.x, p.y, crane.position_z, settings))
+        },
+        properties: { crane_id: crane.id, position_label: crane.position_label || null, radius_m: radius }
+      });
+    }
+  }
+  return features;
+}
+
+/**
+ * Calibration points use their measured GPS position, not the transformed model position
+ */
+export function buildCalibrationPointFeatures(points: CalibrationPoint[]): GeoExportFeature[] {
+  return points.map((point, i) => ({
+    layer: 'calibration_point' as const,
+    name: point.name || `P${i + 1}`,
+    geometry: {
+      type: 'Point' as const,
+      coordinates: point.gps_altitude !== undefined && point.gps_altitude !== null
+        ? [point.gps_longitude, point.gps_latitude, point.gps_altitude]
+        : [point.gps_longitude, point.gps_latitude]
+    },
+    properties: {
+      model_x: point.model_x,
+      model_y: point.model_y,
+      model_z: point.model_z ?? null,
+      is_active: point.is_active ? 'yes' : 'no',
+      error_m: point.calculated_error_m ?? null,
+      reference: point.reference_assembly_mark || null
+    }
+  }));
+}
+
+export function toGeoJson(features: GeoExportFeature[]): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: features.map(feature => ({
+      type: 'Feature',
+      geometry: feature.geometry,
+      properties: { layer: feature.layer, name: feature.name, ...feature.properties }
+    }))
+  }, null, 2);
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const kmlCoordinates = (positions: Position[]) => positions.map(p => p.join(',')).join(' ');
+
+function kmlGeometry(geometry: GeoExportGeometry): string {
+  switch (geometry.type) {
+    case 'Point':
+      return `<Point><coordinates>${kmlCoordinates([geometry.coordinates])}</coordinates></Point>`;
+    case 'LineString':
+      return `<LineString><tessellate>1</tessellate><coordinates>${kmlCoordinates(geometry.coordinates)}</coordinates></LineString>`;
+    case 'Polygon':
+      return `<Polygon><outerBoundaryIs><LinearRing><coordinates>${kmlCoordinates(geometry.coordinates[0])}</coordinates></LinearRing></outerBoundaryIs></Polygon>`;
+  }
+}
+
+const KML_FOLDER_ORDER: GeoExportLayer[] = ['element', 'crane', 'crane_radius', 'calibration_point'];
+
+/**
+ * KML document with one folder per layer; elements are colored by status
+ */
+export function toKml(features: GeoExportFeature[], documentName: string, folderNames: Record<GeoExportLayer, string>): string {
+  const styles = [
+    ...Object.entries(KML_STYLES).map(([layer, style]) =>
+      `<Style id="${layer}"><LineStyle><color>${style.line}</color><width>2</width></LineStyle><PolyStyle><color>${style.fill}</color></PolyStyle></Style>`
+    ),
+    ...Object.entries(KML_STATUS_COLORS).map(([status, color]) =>
+      `<Style id="element_${status}"><LineStyle><color>${KML_STYLES.element.line}</color><width>1</width></LineStyle><PolyStyle><color>${color}</color></PolyStyle></Style>`
+    )
+  ];
+
+  const folders = KML_FOLDER_ORDER
+    .map(layer => {
+      const placemarks = features.filter(f => f.layer === layer).map(feature => {
+        const styleId = feature.layer === 'element' ? `element_${feature.properties.status}` : feature.layer;
+        const data = Object.entries(feature.properties)
+          .filter(([, value]) => value !== null)
+          .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`)
+          .join('');
+        return `<Placemark><name>${escapeXml(feature.name)}</name><styleUrl>#${styleId}</styleUrl><ExtendedData>${data}</ExtendedData>${kmlGeometry(feature.geometry)}</Placemark>`;
+      });
+      return placemarks.length > 0
+        ? `<Folder><name>${escapeXml(folderNames[layer])}</name>\n${placemarks.join('\n')}\n</Folder>`
+        : null;
+    })
+    .filter(Boolean);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `<Document><name>${escapeXml(documentName)}</name>`,
+    ...styles,
+    ...folders,
+    '</Document>',
+    '</kml>'
+  ].join('\n');
+}
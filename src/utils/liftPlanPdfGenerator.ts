@@ -0,0 +1,422 @@
+/**
+ * PDF Generator for Lift Plans
+ *
+ * Generates a lift plan PDF for a placed crane or a single critical pick with:
+ * - Crane model, configuration and counterweight
+ * - Plan-view sketch with radius rings and picks
+ * - Pick data (radius, boom angle, capacity, utilization)
+ * - Load chart excerpt around the pick radii
+ * - Sign-off fields for the appointed person
+ */
+
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { LoadChart, ProjectCrane } from '../supabase';
+import { getCraneChartData } from '../features/crane-planning/lift-plan/utils/liftPlanAnalysis';
+import {
+  buildLiftPlanPickRow,
+  getLoadChartExcerpt,
+  LiftPlanDocumentPick,
+  LiftPlanPickRow
+} from '../features/crane-planning/lift-plan/utils/liftPlanDocument';
+import { calculateLoadCapacities, formatWeight } from '../features/crane-planning/load-calculator/utils/liftingCalculations';
+
+// PDF Configuration
+const PAGE_WIDTH = 210; // A4 width in mm
+const PAGE_HEIGHT = 297; // A4 height in mm
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - (MARGIN * 2);
+const SKETCH_HEIGHT = 85;
+const SIGN_OFF_HEIGHT = 62;
+
+// Colors
+const COLORS = {
+  primary: [37, 99, 235] as [number, number, number],      // Blue
+  success: [34, 197, 94] as [number, number, number],      // Green
+  danger: [239, 68, 68] as [number, number, number],       // Red
+  orange: [249, 115, 22] as [number, number, number],      // Orange
+  gray: [107, 114, 128] as [number, number, number],       // Gray
+  lightGray: [243, 244, 246] as [number, number, number],  // Light gray
+  dark: [31, 41, 55] as [number, number, number],          // Dark
+  white: [255, 255, 255] as [number, number, number]
+};
+
+const SIGN_OFF_ROLES = ['Prepared by', 'Appointed person', 'Crane operator', 'Slinger / signaller'];
+
+/**
+ * Lift plan report data structure
+ */
+export interface LiftPlanReportData {
+  projectName: string;
+  crane: ProjectCrane;
+  loadCharts: LoadChart[];
+  picks: LiftPlanDocumentPick[];
+  // 'pick' = document for a single critical pick (picks[0])
+  kind: 'crane' | 'pick';
+  preparedBy?: string;
+}
+
+/**
+ * Draw page header
+ */
+function drawHeader(doc: jsPDF, title: string, projectName: string, pageNum: number, totalPages: number): number {
+  doc.setFillColor(...COLORS.primary);
+  doc.rect(0, 0, PAGE_WIDTH, 20, 'F');
+
+  doc.setTextColor(...COLORS.white);
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text(title, MARGIN, 13);
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`${projectName} | ${pageNum}/${totalPages}`, PAGE_WIDTH - MARGIN, 13, { align: 'right' });
+
+  return 28;
+}
+
+/**
+ * Draw page footer
+ */
+function drawFooter(doc: jsPDF): void {
+  const footerY = PAGE_HEIGHT - 10;
+
+  doc.setDrawColor(...COLORS.lightGray);
+  doc.setLineWidth(0.3);
+  doc.line(MARGIN, footerY - 3, PAGE_WIDTH - MARGIN, footerY - 3);
+
+  doc.setTextColor(...COLORS.gray);
+  doc.setFontSize(7);
+  const generatedDate = new Date().toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+  doc.text(`Generated: ${generatedDate}`, PAGE_WIDTH - MARGIN, footerY + 1, { align: 'right' });
+  doc.text('Assembly Inspector - Lift Plan', MARGIN, footerY + 1);
+}
+
+/**
+ * Draw section title and return Y below it
+ */
+function drawSectionTitle(doc: jsPDF, title: string, y: number): number {
+  doc.setTextColor(...COLORS.dark);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.text(title, MARGIN, y);
+  return y + 3;
+}
+
+function getLastTableY(doc: jsPDF): number {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (doc as any).lastAutoTable.finalY;
+}
+
+function getCraneLabel(crane: ProjectCrane): string {
+  return crane.position_label || crane.crane_model?.model || 'Crane';
+}
+
+function getUtilizationColor(row: LiftPlanPickRow): [number, number, number] {
+  if (!row.canLift) return COLORS.danger;
+  return row.critical ? COLORS.orange : COLORS.success;
+}
+
+/**
+ * Plan-view sketch: crane base, boom reach and radius limit rings, picks with their radius.
+ * Model X points right and Y up.
+ */
+function drawPlanSketch(doc: jsPDF, crane: ProjectCrane, rows: LiftPlanPickRow[], y: number): void {
+  doc.setDrawColor(...COLORS.lightGray);
+  doc.setFillColor(250, 250, 250);
+  doc.roundedRect(MARGIN, y, CONTENT_WIDTH, SKETCH_HEIGHT, 2, 2, 'FD');
+
+  const centerX = MARGIN + CONTENT_WIDTH / 2;
+  const centerY = y + SKETCH_HEIGHT / 2;
+  const extentM = Math.max(crane.boom_length_m, ...rows.map(r => r.radiusM), 1) * 1.1;
+  const scale = (SKETCH_HEIGHT / 2 - 4) / extentM; // mm per meter
+  const toPdf = (x: number, yM: number) => ({
+    x: centerX + (x - crane.position_x) * scale,
+    y: centerY - (yM - crane.position_y) * scale
+  });
+
+  // Boom reach ring
+  doc.setLineWidth(0.3);
+  doc.setDrawColor(...COLORS.gray);
+  doc.setLineDashPattern([1.5, 1], 0);
+  doc.circle(centerX, centerY, crane.boom_length_m * scale, 'S');
+
+  // Radius limit ring
+  if (crane.max_radius_limit_m && crane.max_radius_limit_m > 0) {
+    doc.setDrawColor(...COLORS.danger);
+    doc.circle(centerX, centerY, crane.max_radius_limit_m * scale, 'S');
+  }
+  doc.setLineDashPattern([], 0);
+
+  // Crane base (rotated footprint)
+  const model = crane.crane_model;
+  const halfW = (model?.base_width_m || 2) / 2;
+  const halfL = (model?.base_length_m || 2) / 2;
+  const rotation = (crane.rotation_deg * Math.PI) / 180;
+  const corners = [[-halfW, -halfL], [halfW, -halfL], [halfW, halfL], [-halfW, halfL]].map(([lx, ly]) => toPdf(
+    crane.position_x + lx * Math.cos(rotation) - ly * Math.sin(rotation),
+    crane.position_y + lx * Math.sin(rotation) + ly * Math.cos(rotation)
+  ));
+  doc.setDrawColor(...COLORS.dark);
+  doc.setLineWidth(0.5);
+  corners.forEach((c, i) => {
+    const next = corners[(i + 1) % corners.length];
+    doc.line(c.x, c.y, next.x, next.y);
+  });
+  doc.setFillColor(...COLORS.dark);
+  doc.circle(centerX, centerY, 0.8, 'F');
+
+  // Picks: radius line, ring and marker
+  doc.setFontSize(6);
+  doc.setFont('helvetica', 'normal');
+  for (const row of rows) {
+    const p = toPdf(row.pick.position.x, row.pick.position.y);
+    const color = getUtilizationColor(row);
+    doc.setDrawColor(...color);
+    doc.setLineWidth(0.2);
+    doc.line(centerX, centerY, p.x, p.y);
+    if (rows.length <= 3) doc.circle(centerX, centerY, row.radiusM * scale, 'S');
+    doc.setFillColor(...color);
+    doc.circle(p.x, p.y, 1, 'F');
+    doc.setTextColor(...COLORS.dark);
+    doc.text(`${row.pick.name} (${row.radiusM.toFixed(1)} m)`, p.x + 1.5, p.y - 1.5);
+  }
+
+  // Legend and scale bar
+  const scaleM = extentM > 40 ? 20 : extentM > 15 ? 10 : 5;
+  const barY = y + SKETCH_HEIGHT - 5;
+  doc.setDrawColor(...COLORS.dark);
+  doc.setLineWidth(0.4);
+  doc.line(MARGIN + 4, barY, MARGIN + 4 + scaleM * scale, barY);
+  doc.setTextColor(...COLORS.dark);
+  doc.text(`${scaleM} m`, MARGIN + 4, barY - 1.5);
+  doc.text('Model X to the right, Y up', PAGE_WIDTH - MARGIN - 4, barY, { align: 'right' });
+  doc.setTextColor(...COLORS.gray);
+  doc.text(`Dashed: boom reach ${crane.boom_length_m} m${crane.max_radius_limit_m ? `, red: radius limit ${crane.max_radius_limit_m} m` : ''}`, MARGIN + 4, y + 5);
+}
+
+/**
+ * Sign-off boxes (name, date, signature) for each role
+ */
+function drawSignOff(doc: jsPDF, y: number, preparedBy?: string): void {
+  y = drawSectionTitle(doc, 'SIGN-OFF', y);
+  doc.setFontSize(7);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...COLORS.gray);
+  doc.text('The lift must not start before the appointed person has signed this plan.', MARGIN, y + 3);
+  y += 6;
+
+  const boxWidth = (CONTENT_WIDTH - 6) / 2;
+  const boxHeight = 24;
+  SIGN_OFF_ROLES.forEach((role, i) => {
+    const x = MARGIN + (i % 2) * (boxWidth + 6);
+    const boxY = y + Math.floor(i / 2) * (boxHeight + 4);
+    doc.setDrawColor(...COLORS.gray);
+    doc.setLineWidth(0.2);
+    doc.rect(x, boxY, boxWidth, boxHeight);
+
+    doc.setTextColor(...COLORS.dark);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.text(role, x + 2, boxY + 4.5);
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(...COLORS.gray);
+    doc.text('Name:', x + 2, boxY + 11);
+    doc.text('Date:', x + 2, boxY + 17);
+    doc.text('Signature:', x + 2, boxY + 22);
+    doc.line(x + 16, boxY + 11, x + boxWidth - 2, boxY + 11);
+    doc.line(x + 16, boxY + 17, x + boxWidth - 2, boxY + 17);
+    doc.line(x + 16, boxY + 22, x + boxWidth - 2, boxY + 22);
+
+    if (i === 0 && preparedBy) {
+      doc.setTextColor(...COLORS.dark);
+      doc.text(preparedBy, x + 17, boxY + 10);
+      doc.text(new Date().toLocaleDateString('en-GB'), x + 17, boxY + 16);
+    }
+  });
+}
+
+/**
+ * Generate the lift plan PDF
+ */
+export function generateLiftPlanPDF(data: LiftPlanReportData): Blob {
+  const { projectName, crane, loadCharts, picks, kind, preparedBy } = data;
+  const chartData = getCraneChartData(crane, loadCharts);
+  const rows = picks.map(pick => buildLiftPlanPickRow(crane, chartData, pick));
+  const model = crane.crane_model;
+
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4'
+  });
+
+  const title = kind === 'pick' ? 'CRITICAL LIFT PLAN' : 'LIFT PLAN';
+  let y = drawHeader(doc, title, projectName, 1, 1);
+
+  // Title row
+  doc.setTextColor(...COLORS.dark);
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  const subject = kind === 'pick' && rows[0] ? `${rows[0].pick.name} - ` : '';
+  doc.text(`${subject}${getCraneLabel(crane)} ${model ? `(${model.manufacturer} ${model.model})` : ''}`, MARGIN, y);
+  y += 7;
+
+  // Crane and configuration
+  y = drawSectionTitle(doc, 'CRANE AND CONFIGURATION', y);
+  const counterweight = crane.counterweight_config;
+  autoTable(doc, {
+    startY: y,
+    body: [
+      ['Model', model ? `${model.manufacturer} ${model.model}` : '-', 'Crane type', model?.crane_type || '-'],
+      ['Boom length', `${crane.boom_length_m} m`, 'Radius limit', crane.max_radius_limit_m ? `${crane.max_radius_limit_m} m` : '-'],
+      ['Counterweight', counterweight ? `${counterweight.name} (${formatWeight(counterweight.weight_kg)})` : '-', 'Max capacity', model ? formatWeight(model.max_capacity_kg) : '-'],
+      ['Hook', formatWeight(crane.hook_weight_kg), 'Lifting block', formatWeight(crane.lifting_block_kg)],
+      ['Safety factor', `${crane.safety_factor}x`, 'Rotation', `${crane.rotation_deg}°`],
+      ['Position (X, Y, Z)', `${crane.position_x.toFixed(2)}, ${crane.position_y.toFixed(2)}, ${crane.position_z.toFixed(2)} m`, 'Base', model ? `${model.base_width_m} × ${model.base_length_m} m` : '-']
+    ],
+    theme: 'grid',
+    bodyStyles: { fontSize: 7, textColor: COLORS.dark, cellPadding: 1.5 },
+    columnStyles: {
+      0: { fontStyle: 'bold', fillColor: COLORS.lightGray, cellWidth: 30 },
+      2: { fontStyle: 'bold', fillColor: COLORS.lightGray, cellWidth: 30 }
+    },
+    margin: { left: MARGIN, right: MARGIN }
+  });
+  y = getLastTableY(doc) + 6;
+
+  // Plan-view sketch
+  y = drawSectionTitle(doc, 'PLAN VIEW', y);
+  drawPlanSketch(doc, crane, rows, y + 1);
+  y += SKETCH_HEIGHT + 7;
+
+  // Picks
+  y = drawSectionTitle(doc, kind === 'pick' ? 'LIFTED ELEMENT' : `PICKS (${rows.length})`, y);
+  if (kind === 'pick' && rows[0]) {
+    const row = rows[0];
+    const pick = row.pick;
+    autoTable(doc, {
+      startY: y,
+      body: [
+        ['Element', pick.name, 'GUID', pick.guid || '-'],
+        ['Weight', formatWeight(pick.weightKg), 'Rigging', pick.riggingWeightKg > 0 ? formatWeight(pick.riggingWeightKg) : '-'],
+        ['Scheduled', pick.scheduledDate || '-', 'Position (X, Y, Z)', `${pick.position.x.toFixed(2)}, ${pick.position.y.toFixed(2)}, ${pick.position.z.toFixed(2)} m`],
+        ['Radius', `${row.radiusM.toFixed(1)} m`, 'Boom angle', row.boomAngleDeg !== null ? `${row.boomAngleDeg}°` : 'Out of reach'],
+        ['Boom tip height', row.boomTipHeightM !== null ? `${row.boomTipHeightM.toFixed(1)} m` : '-', 'Hook height above element', row.hookHeightM !== null ? `${row.hookHeightM.toFixed(1)} m` : '-'],
+        ['Net capacity', row.availableCapacityKg !== null ? formatWeight(row.availableCapacityKg) : 'Outside load chart', 'Utilization', row.utilizationPct !== null ? `${row.utilizationPct}%` : '-']
+      ],
+      theme: 'grid',
+      bodyStyles: { fontSize: 7, textColor: COLORS.dark, cellPadding: 1.5 },
+      columnStyles: {
+        0: { fontStyle: 'bold', fillColor: COLORS.lightGray, cellWidth: 30 },
+        2: { fontStyle: 'bold', fillColor: COLORS.lightGray, cellWidth: 36 }
+      },
+      margin: { left: MARGIN, right: MARGIN },
+      didParseCell: (cell) => {
+        if (cell.section === 'body' && cell.row.index === 5 && cell.column.index === 3) {
+          cell.cell.styles.textColor = getUtilizationColor(row);
+          cell.cell.styles.fontStyle = 'bold';
+        }
+      }
+    });
+  } else {
+    autoTable(doc, {
+      startY: y,
+      head: [['Element', 'Date', 'Weight', 'Rigging', 'Radius', 'Boom angle', 'Net capacity', 'Util.']],
+      body: rows.length > 0
+        ? rows.map(row => [
+          row.pick.name,
+          row.pick.scheduledDate || '-',
+          formatWeight(row.pick.weightKg),
+          row.pick.riggingWeightKg > 0 ? formatWeight(row.pick.riggingWeightKg) : '-',
+          `${row.radiusM.toFixed(1)} m`,
+          row.boomAngleDeg !== null ? `${row.boomAngleDeg}°` : '-',
+          row.availableCapacityKg !== null ? formatWeight(row.availableCapacityKg) : 'Out of reach',
+          row.utilizationPct !== null ? `${row.utilizationPct}%` : '-'
+        ])
+        : [['No picks selected', '', '', '', '', '', '', '']],
+      theme: 'striped',
+      headStyles: { fillColor: COLORS.dark, textColor: COLORS.white, fontStyle: 'bold', fontSize: 7, cellPadding: 1.5 },
+      bodyStyles: { fontSize: 7, textColor: COLORS.dark, cellPadding: 1.5 },
+      margin: { left: MARGIN, right: MARGIN },
+      didParseCell: (cell) => {
+        if (cell.section === 'body' && cell.column.index === 7 && rows[cell.row.index]) {
+          cell.cell.styles.textColor = getUtilizationColor(rows[cell.row.index]);
+          cell.cell.styles.fontStyle = 'bold';
+        }
+      }
+    });
+  }
+  y = getLastTableY(doc) + 6;
+
+  // Load chart excerpt
+  const excerpt = getLoadChartExcerpt(chartData, rows.map(r => r.radiusM));
+  const netByRadius = new Map(
+    calculateLoadCapacities(excerpt, crane.hook_weight_kg, crane.lifting_block_kg, crane.safety_factor)
+      .map(r => [r.radius_m, r.available_capacity_kg])
+  );
+  if (y > PAGE_HEIGHT - 60) {
+    drawFooter(doc);
+    doc.addPage();
+    y = drawHeader(doc, title, projectName, 2, 2);
+  }
+  y = drawSectionTitle(doc, `LOAD CHART EXCERPT (boom ${crane.boom_length_m} m${counterweight ? `, ${counterweight.name}` : ''})`, y);
+  autoTable(doc, {
+    startY: y,
+    head: [['Radius', 'Gross capacity', 'Net capacity (hook, block, safety factor)']],
+    body: excerpt.length > 0
+      ? excerpt.map(p => [`${p.radius_m} m`, formatWeight(p.capacity_kg), formatWeight(netByRadius.get(p.radius_m) ?? 0)])
+      : [['No load chart for this configuration', '', '']],
+    theme: 'striped',
+    headStyles: { fillColor: COLORS.dark, textColor: COLORS.white, fontStyle: 'bold', fontSize: 7, cellPadding: 1.5 },
+    bodyStyles: { fontSize: 7, textColor: COLORS.dark, cellPadding: 1.5 },
+    margin: { left: MARGIN, right: MARGIN }
+  });
+  y = getLastTableY(doc) + 6;
+
+  // Sign-off
+  if (y > PAGE_HEIGHT - 15 - SIGN_OFF_HEIGHT) {
+    drawFooter(doc);
+    doc.addPage();
+    y = drawHeader(doc, title, projectName, doc.getNumberOfPages(), doc.getNumberOfPages());
+  }
+  drawSignOff(doc, y, preparedBy);
+  drawFooter(doc);
+
+  // Page numbers are only known at the end
+  const totalPages = doc.getNumberOfPages();
+  for (let page = 1; page <= totalPages; page++) {
+    doc.setPage(page);
+    drawHeader(doc, title, projectName, page, totalPages);
+  }
+
+  return doc.output('blob');
+}
+
+/**
+ * Download the lift plan PDF
+ */
+export function downloadLiftPlanPDF(data: LiftPlanReportData): void {
+  const blob = generateLiftPlanPDF(data);
+
+  const subject = data.kind === 'pick' && data.picks[0] ? data.picks[0].name : getCraneLabel(data.crane);
+  const date = new Date().toISOString().split('T')[0];
+  const filename = `Lift_Plan_${subject}_${date}.pdf`.replace(/[^a-zA-Z0-9_.-]/g, '_');
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  matchPlanItem,
+  mergePendingResults,
+  isCacheableAttachment,
+  withCachedAttachmentUrls,
+  CachedResult
+} from './offlineInspectionCache';
+import { CheckpointAttachment, InspectionResult } from '../supabase';
+
+const planItems = [
+  { id: 'plan-1', project_id: 'p', guid: 'ms-1', guid_ifc: 'ifc-1', inspection_type_id: 'welds' },
+  { id: 'plan-2', project_id: 'p', guid: 'ms-1', guid_ifc: 'ifc-1', inspection_type_id: 'bolts' },
+  { id: 'plan-3', project_id: 'p', guid: 'ifc-3', inspection_type_id: 'welds' },
+];
+
+const result = (id: string, pending?: boolean): CachedResult => ({
+  id,
+  checkpoint_id: 'cp-1',
+  project_id: 'p',
+  assembly_guid: 'ifc-1',
+  response_value: 'ok',
+  inspector_name: 'Inspector',
+  inspected_at: '',
+  synced_to_trimble: false,
+  created_at: '',
+  updated_at: '',
+  pending_sync: pending,
+} as CachedResult);
+
+const attachment = (id: string, type: CheckpointAttachment['type'], storagePath?: string): CheckpointAttachment => ({
+  id,
+  checkpoint_id: 'cp-1',
+  type,
+  name: id,
+  url: `https://files.example/${id}`,
+  storage_path: storagePath,
+  sort_order: 0,
+  created_at: '',
+});
+
+describe('offlineInspectionCache', () => {
+  it('should match plan item by guid or guid_ifc and inspection type', () => {
+    expect(matchPlanItem(planItems, ['ifc-1'], 'bolts')?.id).toBe('plan-2');
+    expect(matchPlanItem(planItems, [undefined, 'ifc-3'])?.id).toBe('plan-3');
+    expect(matchPlanItem(planItems, ['ifc-3'], 'bolts')).toBeNull();
+  });
+
+  it('should add only unsynced local results missing from the server', () => {
+    const server = [result('r1') as InspectionResult];
+    const local = [result('r1', true), result('r2', true), result('r3', false)];
+    expect(mergePendingResults(server, local).map(r => r.id)).toEqual(['r1', 'r2']);
+  });
+
+  it('should cache uploaded files but not external links', () => {
+    expect(isCacheableAttachment(attachment('a1', 'image'))).toBe(true);
+    expect(isCacheableAttachment(attachment('a2', 'document'))).toBe(true);
+    expect(isCacheableAttachment(attachment('a3', 'link'))).toBe(false);
+    expect(isCacheableAttachment(attachment('a4', 'video'))).toBe(false);
+    expect(isCacheableAttachment(attachment('a5', 'video', 'checkpoints/a5.mp4'))).toBe(true);
+  });
+
+  it('should serve cached attachment files and keep online URLs for the rest', () => {
+    const files = new Map([['a1', new Blob(['pdf'])]]);
+    let created = 0;
+    const createUrl = () => `blob:cached-${++created}`;
+
+    const first = withCachedAttachmentUrls([attachment('a1', 'document'), attachment('a3', 'link')], files, createUrl);
+    expect(first.map(a => a.url)).toEqual(['blob:cached-1', 'https://files.example/a3']);
+
+    // Object URL is reused for the same attachment
+    const again = withCachedAttachmentUrls([attachment('a1', 'document')], files, createUrl);
+    expect(again[0].url).toBe('blob:cached-1');
+    expect(created).toBe(1);
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Offline Inspection Cache
+ * Keeps a project's inspection plan, categories, checkpoints (with attachment files)
+ * and results in IndexedDB so checkpoint forms can be filled without network.
+ * Results saved offline are flagged pending_sync until the upload queue inserts them.
+ */
+
+import { supabase, InspectionCheckpoint, InspectionResult, CheckpointAttachment } from '../supabase';
+import { fetchAllRows } from './supabasePaging';
+
+const DB_NAME = 'InspectionOfflineCache';
+const DB_VERSION = 2;
+const PLAN_ITEMS_STORE = 'planItems';
+const CATEGORIES_STORE = 'categories';
+const CHECKPOINTS_STORE = 'checkpoints';
+const RESULTS_STORE = 'results';
+const PROJECTS_STORE = 'projects';
+const ATTACHMENT_FILES_STORE = 'attachmentFiles';
+
+// Plan item row as returned by the joined plan query in InspectorScreen
+export interface CachedPlanItem {
+  id: string;
+  project_id: string;
+  guid: string;
+  guid_ifc?: string;
+  inspection_type_id?: string;
+  category_id?: string;
+  [key: string]: any;
+}
+
+export interface CachedResult extends InspectionResult {
+  pending_sync?: boolean;
+}
+
+// Downloaded file of a checkpoint attachment, keyed by attachment id
+// (checkpoints belong to categories, which can be shared between projects)
+interface CachedAttachmentFile {
+  id: string;
+  checkpoint_id: string;
+  blob: Blob;
+}
+
+export interface OfflineCacheInfo {
+  project_id: string;
+  cached_at: number;
+  plan_item_count: number;
+  checkpoint_count: number;
+  result_count: number;
+  attachment_count?: number; // Attachment files downloaded (missing in caches made before files were stored)
+}
+
+export type OfflinePreloadStep = 'plan_items' | 'categories' | 'checkpoints' | 'attachments' | 'results';
+
+type PreloadProgressCallback = (step: OfflinePreloadStep, index: number, total: number) => void;
+
+// Open IndexedDB
+const openDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(PLAN_ITEMS_STORE)) {
+        const store = db.createObjectStore(PLAN_ITEMS_STORE, { keyPath: 'id' });
+        store.createIndex('project_id', 'project_id', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(CATEGORIES_STORE)) {
+        db.createObjectStore(CATEGORIES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CHECKPOINTS_STORE)) {
+        const store = db.createObjectStore(CHECKPOINTS_STORE, { keyPath: 'id' });
+        store.createIndex('category_id', 'category_id', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+        const store = db.createObjectStore(RESULTS_STORE, { keyPath: 'id' });
+        store.createIndex('project_id', 'project_id', { unique: false });
+        store.createIndex('project_assembly', ['project_id', 'assembly_guid'], { unique: false });
+      }
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'project_id' });
+      }
+      if (!db.objectStoreNames.contains(ATTACHMENT_FILES_STORE)) {
+        const store = db.createObjectStore(ATTACHMENT_FILES_STORE, { keyPath: 'id' });
+        store.createIndex('checkpoint_id', 'checkpoint_id', { unique: false });
+      }
+    };
+  });
+};
+
+// Read all records from a store (optionally through an index)
+const getAllFromStore = async <T>(storeName: string, indexName?: string, query?: IDBValidKey | IDBKeyRange): Promise<T[]> => {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readonly');
+    const store = transaction.objectStore(storeName);
+    const request = indexName ? store.index(indexName).getAll(query) : store.getAll(query);
+
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Write records to a store in a single transaction
+const putAll = async (storeName: string, records: any[]): Promise<void> => {
+  if (records.length === 0) return;
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readwrite');
+    const store = transaction.objectStore(storeName);
+    for (const record of records) {
+      store.put(record);
+    }
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Delete all records of a project from a store, optionally keeping some
+const deleteProjectRecords = async (
+  storeName: string,
+  projectId: string,
+  keep?: (record: any) => boolean
+): Promise<void> => {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readwrite');
+    const store = transaction.objectStore(storeName);
+    const request = store.index('project_id').openCursor(IDBKeyRange.only(projectId));
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (!keep?.(cursor.value)) cursor.delete();
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Delete the stored attachment files of checkpoints (before storing a fresh download)
+const deleteCheckpointFiles = async (checkpointIds: string[]): Promise<void> => {
+  if (checkpointIds.length === 0) return;
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ATTACHMENT_FILES_STORE], 'readwrite');
+    const index = transaction.objectStore(ATTACHMENT_FILES_STORE).index('checkpoint_id');
+    for (const checkpointId of checkpointIds) {
+      const request = index.openCursor(IDBKeyRange.only(checkpointId));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.delete();
+        cursor.continue();
+      };
+    }
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Attachments whose file can be stored offline: uploaded files, images and documents.
+ * Links (and videos without an uploaded file) point to external pages and stay online-only.
+ */
+export const isCacheableAttachment = (attachment: CheckpointAttachment): boolean => {
+  if (!attachment.url) return false;
+  if (attachment.storage_path) return true;
+  return attachment.type !== 'link' && attachment.type !== 'video';
+};
+
+// Download attachment files one by one - a file that cannot be fetched stays online-only
+const downloadAttachmentFiles = async (attachments: CheckpointAttachment[]): Promise<CachedAttachmentFile[]> => {
+  const files: CachedAttachmentFile[] = [];
+  for (const attachment of attachments) {
+    try {
+      const response = await fetch(attachment.url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      files.push({ id: attachment.id, checkpoint_id: attachment.checkpoint_id, blob: await response.blob() });
+    } catch (e) {
+      console.warn('⚠️ Attachment not cached for offline use:', attachment.name, e);
+    }
+  }
+  return files;
+};
+
+// Object URLs of cached attachment files, created once per attachment
+const attachmentObjectUrls = new Map<string, string>();
+
+/**
+ * Point attachments to their cached files (attachments without a cached file keep the online URL)
+ */
+export const withCachedAttachmentUrls = (
+  attachments: CheckpointAttachment[],
+  files: Map<string, Blob>,
+  createUrl: (blob: Blob) => string = blob => URL.createObjectURL(blob)
+): CheckpointAttachment[] => {
+  return attachments.map(attachment => {
+    const blob = files.get(attachment.id);
+    if (!blob) return attachment;
+    let url = attachmentObjectUrls.get(attachment.id);
+    if (!url) {
+      url = createUrl(blob);
+      attachmentObjectUrls.set(attachment.id, url);
+    }
+    return { ...attachment, url };
+  });
+};
+
+/**
+ * Find the plan item for an object by any of its GUIDs (guid or guid_ifc),
+ * in the same GUID order the online lookup uses
+ */
+export const matchPlanItem = <T extends CachedPlanItem>(
+  items: T[],
+  guids: (string | undefined)[],
+  inspectionTypeId?: string
+): T | null => {
+  const candidates = inspectionTypeId
+    ? items.filter(item => item.inspection_type_id === inspectionTypeId)
+    : items;
+
+  for (const guid of guids) {
+    if (!guid) continue;
+    const found = candidates.find(item => item.guid === guid || item.guid_ifc === guid);
+    if (found) return found;
+  }
+  return null;
+};
+
+/**
+ * Merge server results with locally saved results that are not yet synced
+ */
+export const mergePendingResults = (
+  serverResults: InspectionResult[],
+  localResults: CachedResult[]
+): CachedResult[] => {
+  const serverIds = new Set(serverResults.map(r => r.id));
+  const pending = localResults.filter(r => r.pending_sync && !serverIds.has(r.id));
+  return [...serverResults, ...pending];
+};
+
+/**
+ * Download plan items, categories, checkpoints, attachment files and results
+ * of a project into IndexedDB. Unsynced local results are kept.
+ */
+export const preloadProjectForOffline = async (
+  projectId: string,
+  onProgress?: PreloadProgressCallback
+): Promise<OfflineCacheInfo> => {
+  console.log('📦 Preloading project for offline inspection:', projectId);
+
+  // 1. Plan items with joined type and category (same shape as online lookup)
+  onProgress?.('plan_items', 0, 5);
+  const planItems = await fetchAllRows<CachedPlanItem>(() => supabase
+    .from('inspection_plan_items')
+    .select(`
+      *,
+      inspection_types!inspection_plan_items_inspection_type_id_fkey (
+        id,
+        code,
+        name,
+        description,
+        icon,
+        color
+      ),
+      inspection_categories!inspection_plan_items_category_id_fkey (
+        id,
+        code,
+        name,
+        description
+      )
+    `)
+    .eq('project_id', projectId));
+
+  // 2. Categories used by the plan
+  onProgress?.('categories', 1, 5);
+  const categoryIds = [...new Set(planItems.map(item => item.category_id).filter(Boolean))] as string[];
+  let categories: any[] = [];
+  let checkpoints: InspectionCheckpoint[] = [];
+
+  if (categoryIds.length > 0) {
+    const { data: categoriesData, error: categoriesError } = await supabase
+      .from('inspection_categories')
+      .select('*')
+      .in('id', categoryIds);
+    if (categoriesError) throw categoriesError;
+    categories = categoriesData || [];
+
+    // 3. Active checkpoints with attachments (response options are embedded)
+    onProgress?.('checkpoints', 2, 5);
+    const { data: checkpointsData, error: checkpointsError } = await supabase
+      .from('inspection_checkpoints')
+      .select('*, attachments:inspection_checkpoint_attachments(*)')
+      .in('category_id', categoryIds)
+      .eq('is_active', true);
+    if (checkpointsError) throw checkpointsError;
+    checkpoints = checkpointsData || [];
+  }
+
+  // 4. Attachment files, so guide materials open without network
+  onProgress?.('attachments', 3, 5);
+  const attachmentFiles = await downloadAttachmentFiles(
+    checkpoints.flatMap(cp => cp.attachments || []).filter(isCacheableAttachment)
+  );
+
+  // 5. Existing results
+  onProgress?.('results', 4, 5);
+  const results = await fetchAllRows<InspectionResult>(() => supabase
+    .from('inspection_results')
+    .select('*')
+    .eq('project_id', projectId));
+
+  // Replace previous snapshot of the project, keep unsynced local work
+  await deleteProjectRecords(PLAN_ITEMS_STORE, projectId);
+  await deleteCheckpointFiles(checkpoints.map(cp => cp.id));
+  await deleteProjectRecords(RESULTS_STORE, projectId, (r: CachedResult) => !!r.pending_sync);
+  await putAll(PLAN_ITEMS_STORE, planItems);
+  await putAll(CATEGORIES_STORE, categories);
+  await putAll(CHECKPOINTS_STORE, checkpoints);
+  await putAll(ATTACHMENT_FILES_STORE, attachmentFiles);
+  // Object URLs of replaced files would keep showing the old download
+  for (const file of attachmentFiles) {
+    const url = attachmentObjectUrls.get(file.id);
+    if (url) URL.revokeObjectURL(url);
+    attachmentObjectUrls.delete(file.id);
+  }
+  await putAll(RESULTS_STORE, results.map(r => ({ ...r, pending_sync: false })));
+
+  const info: OfflineCacheInfo = {
+    project_id: projectId,
+    cached_at: Date.now(),
+    plan_item_count: planItems.length,
+    checkpoint_count: checkpoints.length,
+    result_count: results.length,
+    attachment_count: attachmentFiles.length
+  };
+  await putAll(PROJECTS_STORE, [info]);
+  onProgress?.('results', 5, 5);
+
+  console.log('✅ Project cached for offline use:', info);
+  return info;
+};
+
+// Get cache info for a project (null = not downloaded)
+export const getOfflineCacheInfo = async (projectId: string): Promise<OfflineCacheInfo | null> => {
+  const [info] = await getAllFromStore<OfflineCacheInfo>(PROJECTS_STORE, undefined, projectId);
+  return info || null;
+};
+
+// Find cached plan item (raw joined row) by object GUIDs
+export const findCachedPlanItem = async (
+  projectId: string,
+  guids: (string | undefined)[],
+  inspectionTypeId?: string
+): Promise<CachedPlanItem | null> => {
+  const items = await getAllFromStore<CachedPlanItem>(PLAN_ITEMS_STORE, 'project_id', projectId);
+  return matchPlanItem(items, guids, inspectionTypeId);
+};
+
+// Get cached active checkpoints of a category, sorted like the online query.
+// Attachments with a downloaded file open from the cache.
+export const getCachedCheckpoints = async (categoryId: string): Promise<InspectionCheckpoint[]> => {
+  const checkpoints = await getAllFromStore<InspectionCheckpoint>(CHECKPOINTS_STORE, 'category_id', categoryId);
+  const files = new Map<string, Blob>();
+  for (const checkpoint of checkpoints) {
+    const checkpointFiles = await getAllFromStore<CachedAttachmentFile>(ATTACHMENT_FILES_STORE, 'checkpoint_id', checkpoint.id);
+    for (const file of checkpointFiles) files.set(file.id, file.blob);
+  }
+
+  return checkpoints
+    .filter(cp => cp.is_active)
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map(cp => ({
+      ...cp,
+      attachments: withCachedAttachmentUrls(
+        [...(cp.attachments || [])].sort(
+          (a: CheckpointAttachment, b: CheckpointAttachment) => a.sort_order - b.sort_order
+        ),
+        files
+      )
+    }));
+};
+
+// Get cached results (synced and pending) of an assembly
+export const getCachedResults = async (projectId: string, assemblyGuid: string): Promise<CachedResult[]> => {
+  return getAllFromStore<CachedResult>(RESULTS_STORE, 'project_assembly', [projectId, assemblyGuid]);
+};
+
+// Store results locally (pendingSync = saved offline, waiting for upload queue)
+export const saveCachedResults = async (results: InspectionResult[], pendingSync: boolean): Promise<void> => {
+  await putAll(RESULTS_STORE, results.map(r => ({ ...r, pending_sync: pendingSync })));
+};
+
+// Clear pending flag once the queued insert has reached the database
+export const markResultSynced = async (resultId: string): Promise<void> => {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([RESULTS_STORE], 'readwrite');
+    const store = transaction.objectStore(RESULTS_STORE);
+    const getRequest = store.get(resultId);
+
+    getRequest.onsuccess = () => {
+      const result = getRequest.result;
+      if (result) {
+        result.pending_sync = false;
+        store.put(result);
+      }
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Assembly GUIDs of the project that have results waiting for sync
+export const getPendingSyncGuids = async (projectId: string): Promise<Set<string>> => {
+  const results = await getAllFromStore<CachedResult>(RESULTS_STORE, 'project_id', projectId);
+  return new Set(results.filter(r => r.pending_sync).map(r => r.assembly_guid));
+};
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getRetryDelay,
+  estimateItemSize,
+  addToQueue,
+  getPendingItems,
+  getDeadLetterItems,
+  processPendingUploads,
+  MAX_UPLOAD_ATTEMPTS
+} from './offlineQueue';
+import { fetchLatestServerResult, isResultConflict, recordResultConflict } from './resultConflicts';
+import { markResultSynced } from './offlineInspectionCache';
+
+// Inserted rows per table; tables in failingTables return an error
+const mockDb = vi.hoisted(() => ({
+  inserts: {} as Record<string, unknown[]>,
+  failingTables: new Set<string>()
+}));
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: (table: string) => ({
+      insert: (row: unknown) => {
+        if (mockDb.failingTables.has(table)) {
+          return Promise.resolve({ error: { code: '500', message: `${table} unavailable` } });
+        }
+        (mockDb.inserts[table] ||= []).push(row);
+        return Promise.resolve({ error: null });
+      }
+    }),
+    storage: {
+      from: () => ({
+        upload: () => Promise.resolve({ error: null }),
+        getPublicUrl: (path: string) => ({ data: { publicUrl: `https://files.example/${path}` } })
+      })
+    }
+  }
+}));
+
+vi.mock('./resultConflicts', () => ({
+  fetchLatestServerResult: vi.fn(),
+  isResultConflict: vi.fn(),
+  recordResultConflict: vi.fn()
+}));
+
+vi.mock('./offlineInspectionCache', () => ({
+  markResultSynced: vi.fn()
+}));
+
+// Minimal IndexedDB: object stores keyed by id, callbacks fired asynchronously like the real API
+const createFakeIndexedDB = () => {
+  const stores = new Map<string, Map<string, unknown>>();
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  const request = <T>(run: () => T) => {
+    const req: { result?: T; error?: unknown; onsuccess?: () => void; onerror?: () => void } = {};
+    setTimeout(() => {
+      req.result = run();
+      req.onsuccess?.();
+    });
+    return req;
+  };
+
+  const db = {
+    objectStoreNames: { contains: (name: string) => stores.has(name) },
+    createObjectStore: (name: string) => stores.set(name, new Map()),
+    transaction: () => {
+      const transaction: { oncomplete?: () => void; onerror?: () => void; objectStore: (name: string) => unknown } = {
+        objectStore: (name: string) => {
+          const store = stores.get(name)!;
+          return {
+            add: (value: { id: string }) => request(() => store.set(value.id, clone(value))),
+            put: (value: { id: string }) => request(() => store.set(value.id, clone(value))),
+            delete: (id: string) => request(() => store.delete(id)),
+            get: (id: string) => request(() => (store.has(id) ? clone(store.get(id)) : undefined)),
+            getAll: () => request(() => [...store.values()].map(clone))
+          };
+        }
+      };
+      // Complete after the operations queued in the same tick
+      setTimeout(() => setTimeout(() => transaction.oncomplete?.()));
+      return transaction;
+    }
+  };
+
+  return {
+    open: () => {
+      const req: { result?: typeof db; onsuccess?: () => void; onupgradeneeded?: (e: unknown) => void } = {};
+      setTimeout(() => {
+        req.result = db;
+        if (stores.size === 0) req.onupgradeneeded?.({ target: req });
+        req.onsuccess?.();
+      });
+      return req;
+    }
+  };
+};
+
+describe('offlineQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('indexedDB', createFakeIndexedDB());
+    mockDb.inserts = {};
+    mockDb.failingTables.clear();
+    vi.mocked(fetchLatestServerResult).mockResolvedValue(null);
+    vi.mocked(isResultConflict).mockReturnValue(false);
+    vi.mocked(recordResultConflict).mockResolvedValue(true as never);
+    vi.mocked(markResultSynced).mockResolvedValue(undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should back off exponentially with jitter in the upper half', () => {
+    expect(getRetryDelay(1, () => 0)).toBe(15000);
+    expect(getRetryDelay(1, () => 1)).toBe(30000);
+    expect(getRetryDelay(3, () => 1)).toBe(120000);
+    expect(getRetryDelay(4, () => 0.5)).toBe(180000);
+  });
+
+  it('should cap the delay at one hour', () => {
+    expect(getRetryDelay(20, () => 1)).toBe(60 * 60 * 1000);
+    expect(getRetryDelay(20, () => 0)).toBe(30 * 60 * 1000);
+  });
+
+  it('should estimate decoded blob size plus record data', () => {
+    // 8 base64 chars = 6 bytes
+    expect(estimateItemSize({ blobData: 'data:image/png;base64,AAAAAAAA', data: undefined })).toBe(6);
+    expect(estimateItemSize({ blobData: undefined, data: { a: 1 } })).toBe(7);
+  });
+
+  it('should attach photos of a conflicted result to the server result in the same run', async () => {
+    vi.mocked(fetchLatestServerResult).mockResolvedValue({ id: 'server-result' } as never);
+    vi.mocked(isResultConflict).mockReturnValue(true);
+
+    // Queued together like CheckpointForm does when saving offline
+    await addToQueue({ type: 'result', data: { id: 'offline-result' }, priority: 10 });
+    await addToQueue({
+      type: 'photo',
+      data: { resultId: 'offline-result', sortOrder: 0 },
+      blobData: 'data:image/png;base64,AAAA',
+      fileName: 'photos/one.png',
+      contentType: 'image/png',
+      priority: 5
+    });
+
+    const result = await processPendingUploads();
+
+    expect(result).toEqual({ success: 2, failed: 0 });
+    expect(recordResultConflict).toHaveBeenCalledTimes(1);
+    expect(mockDb.inserts.inspection_results).toBeUndefined();
+    expect(mockDb.inserts.inspection_result_photos).toEqual([
+      expect.objectContaining({ result_id: 'server-result', storage_path: 'photos/one.png' })
+    ]);
+    expect(await getPendingItems()).toEqual([]);
+  });
+
+  it('should keep a failed result queued with backoff and dead-letter it after the last attempt', async () => {
+    mockDb.failingTables.add('inspection_results');
+    await addToQueue({ type: 'result', data: { id: 'offline-result' }, priority: 10 });
+
+    expect(await processPendingUploads()).toEqual({ success: 0, failed: 1 });
+    const [queued] = await getPendingItems();
+    expect(queued.retryCount).toBe(1);
+    expect(queued.lastError).toBe('inspection_results unavailable');
+    expect(queued.nextAttemptAt).toBeGreaterThan(Date.now());
+
+    // Still in backoff - a normal run skips it
+    expect(await processPendingUploads()).toEqual({ success: 0, failed: 0 });
+
+    for (let attempt = 2; attempt <= MAX_UPLOAD_ATTEMPTS; attempt++) {
+      await processPendingUploads(undefined, { force: true });
+    }
+
+    expect(await getPendingItems()).toEqual([]);
+    const dead = await getDeadLetterItems();
+    expect(dead).toHaveLength(1);
+    expect(dead[0]).toMatchObject({ id: queued.id, retryCount: MAX_UPLOAD_ATTEMPTS, lastError: 'inspection_results unavailable' });
+    expect(markResultSynced).not.toHaveBeenCalled();
+  });
+});
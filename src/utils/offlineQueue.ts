@@ -4,14 +4,24 @@
  */
 
 import { supabase } from '../supabase';
+import { markResultSynced } from './offlineInspectionCache';
+import { isResultConflict, fetchLatestServerResult, recordResultConflict } from './resultConflicts';
 
 const DB_NAME = 'InspectionOfflineDB';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = 'pendingUploads';
+const DEAD_LETTER_STORE = 'deadLetters';
 
-interface PendingUpload {
+// Retry backoff: 30s, 1min, 2min ... capped at 1h, then dead-letter
+export const MAX_UPLOAD_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+export type PendingUploadType = 'photo' | 'result' | 'result_photo' | 'signature' | 'lifecycle' | 'audit_log';
+
+export interface PendingUpload {
   id: string;
-  type: 'photo' | 'result' | 'result_photo' | 'signature' | 'lifecycle' | 'audit_log';
+  type: PendingUploadType;
   data: any;
   blobData?: string; // Base64 encoded blob for photos
   fileName?: string;
@@ -20,8 +30,35 @@ interface PendingUpload {
   createdAt: number;
   retryCount: number;
   priority?: number; // Higher priority items processed first
+  baseUpdatedAt?: string | null; // Results: server updated_at the inspector saw when answering offline
+  lastError?: string;
+  lastAttemptAt?: number;
+  nextAttemptAt?: number; // Backoff - not retried before this time
+}
+
+// Item that failed MAX_UPLOAD_ATTEMPTS times - kept with its last error until retried or discarded
+export interface DeadLetterUpload extends PendingUpload {
+  deadAt: number;
 }
 
+// Row for the queue diagnostics panel
+export interface QueueDiagnosticsItem {
+  id: string;
+  type: PendingUploadType;
+  status: 'queued' | 'dead';
+  fileName?: string;
+  sizeBytes: number;
+  retryCount: number;
+  createdAt: number;
+  lastError?: string;
+  lastAttemptAt?: number;
+  nextAttemptAt?: number;
+  deadAt?: number;
+}
+
+// Dispatched on window after each queue run (offline inspection UI refreshes pending sync state)
+export const QUEUE_PROCESSED_EVENT = 'offline-queue-processed';
+
 // Progress callback type
 type ProgressCallback = (processed: number, total: number, currentItem?: string) => void;
 
@@ -38,6 +75,9 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: 'id' });
       }
+      if (!db.objectStoreNames.contains(DEAD_LETTER_STORE)) {
+        db.createObjectStore(DEAD_LETTER_STORE, { keyPath: 'id' });
+      }
     };
   });
 };
@@ -97,24 +137,117 @@ export const removeFromQueue = async (id: string): Promise<void> => {
   });
 };
 
-// Update retry count
-export const updateRetryCount = async (id: string, retryCount: number): Promise<void> => {
+// Get a single item from the queue or dead-letter store
+const getItem = async (id: string, status: QueueDiagnosticsItem['status']): Promise<PendingUpload | null> => {
+  const db = await openDB();
+  const storeName = status === 'dead' ? DEAD_LETTER_STORE : STORE_NAME;
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readonly');
+    const request = transaction.objectStore(storeName).get(id);
+
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Delay before the next attempt - exponential with equal jitter
+ * (half fixed, half random) so devices coming online together don't retry in lockstep
+ */
+export const getRetryDelay = (retryCount: number, random: () => number = Math.random): number => {
+  const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, retryCount - 1)));
+  return Math.round(delay / 2 + random() * delay / 2);
+};
+
+/**
+ * Approximate stored size of an item (decoded blob + JSON data)
+ */
+export const estimateItemSize = (item: Pick<PendingUpload, 'blobData' | 'data'>): number => {
+  let size = 0;
+  if (item.blobData) {
+    const base64 = item.blobData.split(',')[1] ?? item.blobData;
+    size += Math.floor(base64.length * 3 / 4);
+  }
+  if (item.data) {
+    size += JSON.stringify(item.data).length;
+  }
+  return size;
+};
+
+// Get all dead-letter items
+export const getDeadLetterItems = async (): Promise<DeadLetterUpload[]> => {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([DEAD_LETTER_STORE], 'readonly');
+    const store = transaction.objectStore(DEAD_LETTER_STORE);
+    const request = store.getAll();
+
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Store failed attempt - schedule backoff retry or move to dead-letter store
+const recordFailedAttempt = async (item: PendingUpload): Promise<'retry' | 'dead'> => {
+  const db = await openDB();
+  const retryCount = item.retryCount + 1;
+  const now = Date.now();
+  const isDead = retryCount >= MAX_UPLOAD_ATTEMPTS;
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, DEAD_LETTER_STORE], 'readwrite');
+    const updated: PendingUpload = {
+      ...item,
+      retryCount,
+      lastAttemptAt: now,
+      nextAttemptAt: now + getRetryDelay(retryCount)
+    };
+
+    if (isDead) {
+      transaction.objectStore(STORE_NAME).delete(item.id);
+      transaction.objectStore(DEAD_LETTER_STORE).put({ ...updated, nextAttemptAt: undefined, deadAt: now });
+    } else {
+      transaction.objectStore(STORE_NAME).put(updated);
+    }
+
+    transaction.oncomplete = () => {
+      if (isDead) console.warn(`☠️ Moved ${item.id} to dead-letter store:`, item.lastError);
+      resolve(isDead ? 'dead' : 'retry');
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Remember failure reason on the item (stored by recordFailedAttempt)
+const fail = (item: PendingUpload, context: string, error: unknown): false => {
+  console.error(`${context}:`, error);
+  item.lastError = error instanceof Error
+    ? error.message
+    : typeof error === 'object' && error && 'message' in error
+      ? String((error as { message: unknown }).message)
+      : String(error);
+  return false;
+};
+
+// Point queued photos of one result to another (offline result lost a sync conflict)
+const retargetQueuedPhotos = async (fromResultId: string, toResultId: string): Promise<void> => {
+  const items = await getPendingItems();
   const db = await openDB();
 
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([STORE_NAME], 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    const getRequest = store.get(id);
-
-    getRequest.onsuccess = () => {
-      const item = getRequest.result;
-      if (item) {
-        item.retryCount = retryCount;
-        store.put(item);
+    for (const item of items) {
+      if (item.type === 'photo' && item.data?.resultId === fromResultId) {
+        store.put({ ...item, data: { ...item.data, resultId: toResultId } });
+      } else if (item.type === 'result_photo' && item.data?.result_id === fromResultId) {
+        store.put({ ...item, data: { ...item.data, result_id: toResultId } });
       }
-      resolve();
-    };
-    getRequest.onerror = () => reject(getRequest.error);
+    }
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 };
 
@@ -131,7 +264,7 @@ const base64ToBlob = (base64: string, contentType: string): Blob => {
 
 // Process a single photo upload
 const processPhotoUpload = async (item: PendingUpload): Promise<boolean> => {
-  if (!item.blobData || !item.fileName) return false;
+  if (!item.blobData || !item.fileName) return fail(item, 'Photo upload error', 'Missing photo data');
 
   try {
     const blob = base64ToBlob(item.blobData, item.contentType || 'image/png');
@@ -144,33 +277,73 @@ const processPhotoUpload = async (item: PendingUpload): Promise<boolean> => {
       });
 
     if (error) {
-      console.error('Photo upload error:', error);
-      return false;
+      return fail(item, 'Photo upload error', error);
+    }
+
+    // Photos queued with their result id also need the photo record
+    if (item.data?.resultId) {
+      const { data: urlData } = supabase.storage
+        .from('inspection-photos')
+        .getPublicUrl(item.fileName);
+
+      const photoRecord = {
+        result_id: item.data.resultId,
+        storage_path: item.fileName,
+        url: urlData.publicUrl,
+        sort_order: item.data.sortOrder ?? 0,
+        photo_type: item.data.photoType || 'user'
+      };
+
+      const { error: insertError } = await supabase
+        .from('inspection_result_photos')
+        .insert(photoRecord);
+
+      if (insertError) {
+        // File is uploaded - retry only the record insert
+        console.error('Photo record insert error, queuing record:', insertError);
+        await addToQueue({ type: 'result_photo', data: photoRecord });
+      }
     }
 
     return true;
   } catch (e) {
-    console.error('Photo upload exception:', e);
-    return false;
+    return fail(item, 'Photo upload exception', e);
   }
 };
 
 // Process a result record insert
 const processResultInsert = async (item: PendingUpload): Promise<boolean> => {
   try {
+    // Someone else answered the same checkpoint while we were offline -
+    // keep both versions for moderator resolution instead of overwriting
+    const serverResult = await fetchLatestServerResult(item.data);
+    if (serverResult && isResultConflict(serverResult, item.data, item.baseUpdatedAt)) {
+      const recorded = await recordResultConflict(serverResult, item.data, item.baseUpdatedAt);
+      if (!recorded) return fail(item, 'Result conflict error', 'Could not record sync conflict');
+
+      // Photos are evidence either way - attach them to the server row
+      await retargetQueuedPhotos(item.data.id, serverResult.id);
+      // Offline version is on the server now (in the conflict record)
+      await markResultSynced(item.data.id);
+      return true;
+    }
+
     const { error } = await supabase
       .from('inspection_results')
       .insert(item.data);
 
-    if (error) {
-      console.error('Result insert error:', error);
-      return false;
+    // 23505 = duplicate key - result was already inserted on an earlier attempt
+    if (error && error.code !== '23505') {
+      return fail(item, 'Result insert error', error);
+    }
+
+    if (item.data?.id) {
+      await markResultSynced(item.data.id);
     }
 
     return true;
   } catch (e) {
-    console.error('Result insert exception:', e);
-    return false;
+    return fail(item, 'Result insert exception', e);
   }
 };
 
@@ -182,20 +355,18 @@ const processResultPhotoInsert = async (item: PendingUpload): Promise<boolean> =
       .insert(item.data);
 
     if (error) {
-      console.error('Result photo insert error:', error);
-      return false;
+      return fail(item, 'Result photo insert error', error);
     }
 
     return true;
   } catch (e) {
-    console.error('Result photo insert exception:', e);
-    return false;
+    return fail(item, 'Result photo insert exception', e);
   }
 };
 
 // Process a signature upload
 const processSignatureUpload = async (item: PendingUpload): Promise<boolean> => {
-  if (!item.blobData || !item.fileName) return false;
+  if (!item.blobData || !item.fileName) return fail(item, 'Signature upload error', 'Missing signature data');
 
   try {
     const blob = base64ToBlob(item.blobData, item.contentType || 'image/png');
@@ -209,8 +380,7 @@ const processSignatureUpload = async (item: PendingUpload): Promise<boolean> =>
       });
 
     if (error) {
-      console.error('Signature upload error:', error);
-      return false;
+      return fail(item, 'Signature upload error', error);
     }
 
     // Update user profile if data contains user_id
@@ -231,8 +401,7 @@ const processSignatureUpload = async (item: PendingUpload): Promise<boolean> =>
 
     return true;
   } catch (e) {
-    console.error('Signature upload exception:', e);
-    return false;
+    return fail(item, 'Signature upload exception', e);
   }
 };
 
@@ -246,14 +415,12 @@ const processLifecycleUpdate = async (item: PendingUpload): Promise<boolean> =>
       });
 
     if (error) {
-      console.error('Lifecycle update error:', error);
-      return false;
+      return fail(item, 'Lifecycle update error', error);
     }
 
     return true;
   } catch (e) {
-    console.error('Lifecycle update exception:', e);
-    return false;
+    return fail(item, 'Lifecycle update exception', e);
   }
 };
 
@@ -265,22 +432,47 @@ const processAuditLogInsert = async (item: PendingUpload): Promise<boolean> => {
       .insert(item.data);
 
     if (error) {
-      console.error('Audit log insert error:', error);
-      return false;
+      return fail(item, 'Audit log insert error', error);
     }
 
     return true;
   } catch (e) {
-    console.error('Audit log insert exception:', e);
-    return false;
+    return fail(item, 'Audit log insert exception', e);
   }
 };
 
-// Process all pending uploads
-export const processPendingUploads = async (
-  onProgress?: ProgressCallback
-): Promise<{ success: number; failed: number }> => {
-  const items = await getPendingItems();
+// Process one item with the handler for its type
+const processItem = async (item: PendingUpload): Promise<boolean> => {
+  switch (item.type) {
+    case 'photo':
+      return processPhotoUpload(item);
+    case 'result':
+      return processResultInsert(item);
+    case 'result_photo':
+      return processResultPhotoInsert(item);
+    case 'signature':
+      return processSignatureUpload(item);
+    case 'lifecycle':
+      return processLifecycleUpdate(item);
+    case 'audit_log':
+      return processAuditLogInsert(item);
+  }
+};
+
+type QueueRunResult = { success: number; failed: number };
+
+// Run in progress - interval, 'online' event and manual sync share it
+let activeRun: { promise: Promise<QueueRunResult>; force: boolean } | null = null;
+// Forced run requested while a normal run was in progress - starts when that run ends
+let queuedForcedRun: Promise<QueueRunResult> | null = null;
+
+const runQueue = async (
+  onProgress?: ProgressCallback,
+  force = false
+): Promise<QueueRunResult> => {
+  const now = Date.now();
+  // Items still in backoff wait for their next attempt (unless forced)
+  const items = (await getPendingItems()).filter(item => force || !item.nextAttemptAt || item.nextAttemptAt <= now);
 
   // Sort by priority (higher first) and creation time
   items.sort((a, b) => {
@@ -296,45 +488,26 @@ export const processPendingUploads = async (
   console.log(`🔄 Processing ${total} pending uploads...`);
 
   for (let i = 0; i < items.length; i++) {
-    const item = items[i];
+    // Re-read the stored item: an earlier item of this run may have changed it
+    // (photos retargeted to the server result after a sync conflict) or removed it
+    const item = await getItem(items[i].id, 'queued');
+    if (!item) continue;
 
     // Report progress
     onProgress?.(i, total, item.type);
 
-    // Skip items with too many retries (max 5)
-    if (item.retryCount >= 5) {
-      console.warn(`⚠️ Skipping ${item.id} - too many retries`);
+    // Items that already used all attempts (queued before dead-lettering existed)
+    if (item.retryCount >= MAX_UPLOAD_ATTEMPTS) {
+      await recordFailedAttempt({ ...item, lastError: item.lastError || 'Too many retries' });
+      failed++;
       continue;
     }
 
-    let processed = false;
-
-    switch (item.type) {
-      case 'photo':
-        processed = await processPhotoUpload(item);
-        break;
-      case 'result':
-        processed = await processResultInsert(item);
-        break;
-      case 'result_photo':
-        processed = await processResultPhotoInsert(item);
-        break;
-      case 'signature':
-        processed = await processSignatureUpload(item);
-        break;
-      case 'lifecycle':
-        processed = await processLifecycleUpdate(item);
-        break;
-      case 'audit_log':
-        processed = await processAuditLogInsert(item);
-        break;
-    }
-
-    if (processed) {
+    if (await processItem(item)) {
       await removeFromQueue(item.id);
       success++;
     } else {
-      await updateRetryCount(item.id, item.retryCount + 1);
+      await recordFailedAttempt(item);
       failed++;
     }
   }
@@ -344,11 +517,134 @@ export const processPendingUploads = async (
 
   if (items.length > 0) {
     console.log(`📊 Queue processing complete: ${success} success, ${failed} failed`);
+    window.dispatchEvent(new CustomEvent(QUEUE_PROCESSED_EVENT, { detail: { success, failed } }));
   }
 
   return { success, failed };
 };
 
+// Process all pending uploads (force = ignore backoff, e.g. manual sync).
+// A forced request during a normal run would skip items in backoff, so it runs again after it.
+export const processPendingUploads = (
+  onProgress?: ProgressCallback,
+  options: { force?: boolean } = {}
+): Promise<QueueRunResult> => {
+  const force = !!options.force;
+
+  if (!activeRun) {
+    const promise = runQueue(onProgress, force).finally(() => {
+      activeRun = null;
+    });
+    activeRun = { promise, force };
+    return promise;
+  }
+
+  if (!force || activeRun.force) return activeRun.promise;
+
+  if (!queuedForcedRun) {
+    queuedForcedRun = activeRun.promise
+      .catch(() => undefined)
+      .then(() => {
+        queuedForcedRun = null;
+        return processPendingUploads(onProgress, { force: true });
+      });
+  }
+  return queuedForcedRun;
+};
+
+// ============================================
+// DIAGNOSTICS
+// ============================================
+
+// Queued and dead items with size and last error, newest first
+export const getQueueDiagnostics = async (): Promise<QueueDiagnosticsItem[]> => {
+  const [queued, dead] = await Promise.all([getPendingItems(), getDeadLetterItems()]);
+  const toRow = (item: PendingUpload, status: QueueDiagnosticsItem['status']): QueueDiagnosticsItem => ({
+    id: item.id,
+    type: item.type,
+    status,
+    fileName: item.fileName,
+    sizeBytes: estimateItemSize(item),
+    retryCount: item.retryCount,
+    createdAt: item.createdAt,
+    lastError: item.lastError,
+    lastAttemptAt: item.lastAttemptAt,
+    nextAttemptAt: status === 'queued' ? item.nextAttemptAt : undefined,
+    deadAt: (item as DeadLetterUpload).deadAt
+  });
+
+  return [
+    ...dead.map(item => toRow(item, 'dead')),
+    ...queued.map(item => toRow(item, 'queued'))
+  ].sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Item content for download - the photo/signature blob, or the record data as JSON
+ */
+export const getQueueItemBlob = async (
+  id: string,
+  status: QueueDiagnosticsItem['status']
+): Promise<{ blob: Blob; fileName: string } | null> => {
+  const item = await getItem(id, status);
+  if (!item) return null;
+
+  if (item.blobData) {
+    return {
+      blob: base64ToBlob(item.blobData, item.contentType || 'image/png'),
+      fileName: item.fileName?.split('/').pop() || `${item.id}.png`
+    };
+  }
+
+  return {
+    blob: new Blob([JSON.stringify(item.data, null, 2)], { type: 'application/json' }),
+    fileName: `${item.type}_${item.id}.json`
+  };
+};
+
+// Retry now - dead items go back to the queue with fresh attempts (last error kept for reference)
+export const retryQueueItem = async (id: string, status: QueueDiagnosticsItem['status']): Promise<void> => {
+  const item = await getItem(id, status);
+  if (!item) return;
+
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, DEAD_LETTER_STORE], 'readwrite');
+    const { deadAt: _deadAt, ...upload } = item as DeadLetterUpload;
+    transaction.objectStore(STORE_NAME).put({
+      ...upload,
+      retryCount: status === 'dead' ? 0 : upload.retryCount,
+      nextAttemptAt: undefined
+    });
+    if (status === 'dead') {
+      transaction.objectStore(DEAD_LETTER_STORE).delete(id);
+    }
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+  console.log('🔄 Retrying queue item:', id);
+  if (isOnline()) {
+    await processPendingUploads(undefined, { force: true });
+  }
+};
+
+// Discard item permanently
+export const discardQueueItem = async (id: string, status: QueueDiagnosticsItem['status']): Promise<void> => {
+  const db = await openDB();
+  const storeName = status === 'dead' ? DEAD_LETTER_STORE : STORE_NAME;
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readwrite');
+    transaction.objectStore(storeName).delete(id);
+    transaction.oncomplete = () => {
+      console.log('🗑️ Discarded queue item:', id);
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
 // Check if we're online
 export const isOnline = (): boolean => {
   return navigator.onLine;
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { isResultConflict, getResolvedValues, mergeConflictComments } from './resultConflicts';
+import { InspectionResult } from '../supabase';
+
+const result = (overrides: Partial<InspectionResult>): InspectionResult => ({
+  id: 'server-1',
+  checkpoint_id: 'cp-1',
+  project_id: 'p',
+  assembly_guid: 'guid-1',
+  response_value: 'ok',
+  response_label: 'OK',
+  inspector_name: 'Mari',
+  user_email: 'mari@example.com',
+  inspected_at: '2026-01-20T08:00:00Z',
+  synced_to_trimble: false,
+  created_at: '2026-01-20T08:00:00Z',
+  updated_at: '2026-01-20T08:00:00Z',
+  ...overrides,
+} as InspectionResult);
+
+const server = result({});
+const local = result({
+  id: 'local-1',
+  response_value: 'nok',
+  response_label: 'Not OK',
+  comment: 'Weld crack',
+  inspector_name: 'Jaan',
+  user_email: 'jaan@example.com',
+});
+
+describe('resultConflicts', () => {
+  it('should detect answers the offline inspector did not see', () => {
+    // Answered on server while offline (no base version)
+    expect(isResultConflict(server, local, null)).toBe(true);
+    // Server row changed after the version the inspector saw
+    expect(isResultConflict(server, local, '2026-01-19T08:00:00Z')).toBe(true);
+    // Inspector saw the current server version
+    expect(isResultConflict(server, local, '2026-01-20T08:00:00Z')).toBe(false);
+  });
+
+  it('should not report identical answers or own edits', () => {
+    expect(isResultConflict(server, { ...server, id: 'local-2', user_email: 'jaan@example.com' }, null)).toBe(false);
+    expect(isResultConflict(server, { ...local, user_email: server.user_email }, null)).toBe(false);
+    expect(isResultConflict(null, local, null)).toBe(false);
+  });
+
+  it('should build resolved values for each resolution', () => {
+    const conflict = { server_result: { ...server, comment: 'Looks fine' }, local_result: local };
+    expect(getResolvedValues(conflict, 'keep_server', undefined).response_value).toBe('ok');
+    expect(getResolvedValues(conflict, 'keep_local', undefined)).toEqual({
+      response_value: 'nok', response_label: 'Not OK', comment: 'Weld crack'
+    });
+    expect(getResolvedValues(conflict, 'merged', { response_value: 'nok', response_label: 'Not OK' })).toEqual({
+      response_value: 'nok', response_label: 'Not OK', comment: 'Mari: Looks fine\nJaan: Weld crack'
+    });
+    expect(mergeConflictComments(local, { ...local, id: 'x' })).toBe('Jaan: Weld crack');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Result Sync Conflicts
+ * Detects offline inspection results that were answered on the server in the
+ * meantime and builds the values a moderator resolution writes back
+ */
+
+import { supabase, InspectionResult, InspectionResultConflict, ResultConflictResolution } from '../supabase';
+
+// Fields a moderator decides between
+export type ResultConflictValues = Pick<InspectionResult, 'response_value' | 'response_label' | 'comment'>;
+
+/**
+ * Conflict = another inspector's server answer the offline inspector did not see
+ * (newer than the base version) that differs from the offline answer
+ */
+export const isResultConflict = (
+  server: InspectionResult | null,
+  local: Partial<InspectionResult>,
+  baseUpdatedAt: string | null | undefined
+): boolean => {
+  if (!server || server.id === local.id) return false;
+  // Own earlier answer (e.g. saved offline twice) is just an edit
+  if (server.user_email && server.user_email === local.user_email) return false;
+
+  const serverTime = new Date(server.updated_at || server.created_at).getTime();
+  if (baseUpdatedAt && serverTime <= new Date(baseUpdatedAt).getTime()) return false;
+
+  return server.response_value !== local.response_value
+    || (server.comment || '') !== (local.comment || '');
+};
+
+/**
+ * Combine both comments, labelled with the inspector, skipping duplicates
+ */
+export const mergeConflictComments = (server: Partial<InspectionResult>, local: Partial<InspectionResult>): string => {
+  const parts: string[] = [];
+  for (const version of [server, local]) {
+    const comment = version.comment?.trim();
+    if (!comment || parts.some(p => p.endsWith(comment))) continue;
+    parts.push(version.inspector_name ? `${version.inspector_name}: ${comment}` : comment);
+  }
+  return parts.join('\n');
+};
+
+/**
+ * Values written to the server row for a resolution
+ * (merged = moderator-edited values, defaulting to server answer with both comments)
+ */
+export const getResolvedValues = (
+  conflict: Pick<InspectionResultConflict, 'server_result' | 'local_result'>,
+  resolution: ResultConflictResolution,
+  merged?: Partial<ResultConflictValues>
+): ResultConflictValues => {
+  const pick = (r: InspectionResult): ResultConflictValues => ({
+    response_value: r.response_value,
+    response_label: r.response_label,
+    comment: r.comment
+  });
+
+  switch (resolution) {
+    case 'keep_server':
+      return pick(conflict.server_result);
+    case 'keep_local':
+      return pick(conflict.local_result);
+    case 'merged':
+      return {
+        ...pick(conflict.server_result),
+        comment: mergeConflictComments(conflict.server_result, conflict.local_result),
+        ...merged
+      };
+  }
+};
+
+/**
+ * Latest server answer to the same checkpoint on the same assembly
+ */
+export const fetchLatestServerResult = async (local: Partial<InspectionResult>): Promise<InspectionResult | null> => {
+  const { data, error } = await supabase
+    .from('inspection_results')
+    .select('*')
+    .eq('project_id', local.project_id)
+    .eq('assembly_guid', local.assembly_guid)
+    .eq('checkpoint_id', local.checkpoint_id)
+    .order('updated_at', { ascending: false })
+    .limit(1);
+
+  if (error) throw error;
+  return data?.[0] || null;
+};
+
+/**
+ * Keep both versions for moderator resolution
+ */
+export const recordResultConflict = async (
+  server: InspectionResult,
+  local: InspectionResult,
+  baseUpdatedAt: string | null | undefined
+): Promise<boolean> => {
+  const { error } = await supabase
+    .from('inspection_result_conflicts')
+    .insert({
+      project_id: local.project_id,
+      assembly_guid: local.assembly_guid,
+      assembly_name: local.assembly_name || server.assembly_name,
+      checkpoint_id: local.checkpoint_id,
+      server_result_id: server.id,
+      server_result: server,
+      local_result: local,
+      base_updated_at: baseUpdatedAt || null
+    });
+
+  if (error) {
+    console.error('Result conflict insert error:', error);
+    return false;
+  }
+
+  console.log('⚠️ Sync conflict recorded for checkpoint:', local.checkpoint_id);
+  return true;
+};
@@ -0,0 +1,34 @@
+/**
+ * Paged reads past the Supabase row limit
+ */
+
+// Supabase returns max 1000 rows per request
+const PAGE_SIZE = 1000;
+
+interface RangeQuery<T> {
+  range: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>;
+}
+
+interface OrderableQuery<T> {
+  order: (column: string, options?: { ascending?: boolean }) => RangeQuery<T>;
+}
+
+/**
+ * Load all rows of a query in pages. Rows are ordered by id (after any order the query
+ * already has) so pages neither skip nor repeat rows.
+ */
+export async function fetchAllRows<T>(buildQuery: () => OrderableQuery<T>): Promise<T[]> {
+  const rows: T[] = [];
+  let offset = 0;
+  while (true) {
+    const { data, error } = await buildQuery()
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+    rows.push(...data);
+    offset += data.length;
+    if (data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
@@ -0,0 +1,46 @@
+-- Inspection result sync conflicts
+-- When an offline result is synced and the server already has a newer answer
+-- to the same checkpoint on the same assembly, both versions are kept here
+-- until a moderator chooses one or merges them
+
+CREATE TABLE IF NOT EXISTS inspection_result_conflicts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id TEXT NOT NULL,
+  assembly_guid TEXT NOT NULL,
+  assembly_name TEXT,
+  checkpoint_id UUID NOT NULL REFERENCES inspection_checkpoints(id) ON DELETE CASCADE,
+
+  -- Server version (row stays in inspection_results)
+  server_result_id UUID NOT NULL REFERENCES inspection_results(id) ON DELETE CASCADE,
+  server_result JSONB NOT NULL,          -- Snapshot of the server row at detection time
+
+  -- Offline version (never inserted into inspection_results)
+  local_result JSONB NOT NULL,
+  base_updated_at TIMESTAMPTZ,           -- Server updated_at the offline inspector saw (NULL = no answer yet)
+
+  -- Resolution
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'resolved')),
+  resolution TEXT CHECK (resolution IN ('keep_server', 'keep_local', 'merged')),
+  resolved_result JSONB,
+  resolved_by TEXT,                      -- User email
+  resolved_by_name TEXT,
+  resolved_at TIMESTAMPTZ,
+
+  detected_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for fast lookups
+CREATE INDEX IF NOT EXISTS idx_result_conflicts_project_status ON inspection_result_conflicts(project_id, status);
+CREATE INDEX IF NOT EXISTS idx_result_conflicts_server_result ON inspection_result_conflicts(server_result_id);
+
+-- Enable Row Level Security
+ALTER TABLE inspection_result_conflicts ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow all operations for authenticated users (Trimble Connect handles auth)
+CREATE POLICY "Allow all for authenticated" ON inspection_result_conflicts
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE inspection_result_conflicts IS 'Offline inspection results that conflicted with a newer server answer, kept for moderator resolution';
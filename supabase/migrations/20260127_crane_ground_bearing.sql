@@ -0,0 +1,12 @@
+-- Ground bearing calculation settings per placed crane
+-- {
+--   "crane_self_weight_kg": 36000,    -- crane weight without counterweight
+--   "counterweight_radius_m": 4.2,    -- slew center to counterweight center of gravity
+--   "allowable_pressure_kpa": 200,    -- allowable soil pressure
+--   "support_size_m": 0.6             -- outrigger pad side / track shoe width
+-- }
+
+ALTER TABLE project_cranes
+ADD COLUMN IF NOT EXISTS ground_bearing JSONB;
+
+COMMENT ON COLUMN project_cranes.ground_bearing IS 'Ground bearing settings (self weight, counterweight radius, allowable pressure, pad size)';
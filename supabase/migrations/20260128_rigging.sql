@@ -0,0 +1,50 @@
+-- Rigging library (WLL tables per project) and rigging configurations per lifted element
+
+CREATE TABLE IF NOT EXISTS project_rigging_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trimble_project_id TEXT NOT NULL,
+  item_type TEXT NOT NULL CHECK (item_type IN ('sling', 'shackle', 'spreader', 'chain_block')),
+  name TEXT NOT NULL,
+  wll_kg DECIMAL(10,2) NOT NULL,         -- Working load limit (straight pull)
+  weight_kg DECIMAL(10,2) DEFAULT 0,     -- Own weight, added to the hook load
+  length_m DECIMAL(10,2),                -- Sling leg / spreader beam length
+  notes TEXT,
+  created_by_email TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rigging_items_project ON project_rigging_items(trimble_project_id);
+
+CREATE TABLE IF NOT EXISTS project_element_rigging (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trimble_project_id TEXT NOT NULL,
+  guid_ifc TEXT NOT NULL,
+  assembly_mark TEXT,
+  -- {"type": "two_leg", "sling_id": ..., "shackle_id": ..., "spreader_id": ..., "chain_block_id": ...,
+  --  "sling_length_m": 4, "inset_start_m": 1, "inset_end_m": 1}
+  configuration JSONB NOT NULL,
+  rigging_weight_kg DECIMAL(10,2) DEFAULT 0,   -- Total rigging weight (slings, shackles, spreader, chain block)
+  updated_by_email TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(trimble_project_id, guid_ifc)
+);
+
+CREATE INDEX IF NOT EXISTS idx_element_rigging_project ON project_element_rigging(trimble_project_id);
+
+-- Enable Row Level Security
+ALTER TABLE project_rigging_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_element_rigging ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow all operations for authenticated users (Trimble Connect handles auth)
+CREATE POLICY "Allow all for authenticated" ON project_rigging_items
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all for authenticated" ON project_element_rigging
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE project_rigging_items IS 'Rigging gear with WLL per project (slings, shackles, spreader beams, chain blocks)';
+COMMENT ON TABLE project_element_rigging IS 'Rigging configuration chosen for a lifted element';
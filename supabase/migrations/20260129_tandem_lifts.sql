@@ -0,0 +1,30 @@
+-- Tandem (dual-crane) lifts: an element lifted by two placed cranes
+
+CREATE TABLE IF NOT EXISTS project_tandem_lifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trimble_project_id TEXT NOT NULL,
+  guid_ifc TEXT NOT NULL,
+  assembly_mark TEXT,
+  crane_a_id UUID NOT NULL REFERENCES project_cranes(id) ON DELETE CASCADE,
+  crane_b_id UUID NOT NULL REFERENCES project_cranes(id) ON DELETE CASCADE,
+  derating_factor DECIMAL(4,2) NOT NULL DEFAULT 0.75,  -- Share of each crane's net capacity usable in tandem
+  inset_a_m DECIMAL(10,2) DEFAULT 0,                    -- Hook point A distance from the element end at crane A
+  inset_b_m DECIMAL(10,2) DEFAULT 0,                    -- Hook point B distance from the element end at crane B
+  notes TEXT,
+  created_by_email TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(trimble_project_id, guid_ifc)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tandem_lifts_project ON project_tandem_lifts(trimble_project_id);
+
+-- Enable Row Level Security
+ALTER TABLE project_tandem_lifts ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow all operations for authenticated users (Trimble Connect handles auth)
+CREATE POLICY "Allow all for authenticated" ON project_tandem_lifts
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE project_tandem_lifts IS 'Elements lifted by two cranes with the tandem derating factor and hook points';
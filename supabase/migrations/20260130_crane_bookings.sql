@@ -0,0 +1,12 @@
+-- Crane booking: when a placed crane is on site
+-- mobilization_date / demobilization_date are inclusive, null = open ended
+-- booked_hours_per_day = crane hours ordered per working day
+
+ALTER TABLE project_cranes
+ADD COLUMN IF NOT EXISTS mobilization_date DATE,
+ADD COLUMN IF NOT EXISTS demobilization_date DATE,
+ADD COLUMN IF NOT EXISTS booked_hours_per_day DECIMAL(4,1) DEFAULT 8;
+
+COMMENT ON COLUMN project_cranes.mobilization_date IS 'First day the crane is on site (booking start)';
+COMMENT ON COLUMN project_cranes.demobilization_date IS 'Last day the crane is on site (booking end)';
+COMMENT ON COLUMN project_cranes.booked_hours_per_day IS 'Booked crane hours per day while on site';
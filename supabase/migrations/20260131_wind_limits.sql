@@ -0,0 +1,33 @@
+-- Wind limits per crane model and local hourly wind forecast per project
+
+-- In-service wind limit (m/s) from the manufacturer's load chart,
+-- valid for loads up to the reference sail area (1.2 m² per tonne, EN 13000)
+ALTER TABLE crane_models
+ADD COLUMN IF NOT EXISTS max_wind_speed_ms DECIMAL(4,1);
+
+COMMENT ON COLUMN crane_models.max_wind_speed_ms IS 'In-service wind speed limit (m/s, 3 s gust at boom tip)';
+
+CREATE TABLE IF NOT EXISTS project_wind_forecasts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trimble_project_id TEXT NOT NULL,
+  forecast_time TIMESTAMPTZ NOT NULL,          -- Start of the forecast hour
+  wind_speed_ms DECIMAL(4,1) NOT NULL,         -- Mean wind speed
+  gust_speed_ms DECIMAL(4,1),                  -- Gust speed (null = not given)
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv')),
+  created_by_email TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(trimble_project_id, forecast_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wind_forecasts_project_time ON project_wind_forecasts(trimble_project_id, forecast_time);
+
+-- Enable Row Level Security
+ALTER TABLE project_wind_forecasts ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow all operations for authenticated users (Trimble Connect handles auth)
+CREATE POLICY "Allow all for authenticated" ON project_wind_forecasts
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE project_wind_forecasts IS 'Hourly local wind forecast entered or imported (CSV) for lift planning';
@@ -0,0 +1,29 @@
+-- Laydown yard zones: named storage areas used to locate GPS-positioned elements
+
+CREATE TABLE IF NOT EXISTS yard_zones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trimble_project_id TEXT NOT NULL,
+  name TEXT NOT NULL,                          -- Zone name shown to installers (e.g. B3)
+  coordinate_space TEXT NOT NULL DEFAULT 'gps' CHECK (coordinate_space IN ('gps', 'model')),
+  vertices JSONB NOT NULL,                     -- Outline: [[lat, lng], ...] or [[x, y], ...] in model meters
+  row_count INTEGER CHECK (row_count IS NULL OR row_count > 0), -- Rows parallel to the first edge
+  color TEXT,
+  notes TEXT,
+  created_by_email TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(trimble_project_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_yard_zones_project ON yard_zones(trimble_project_id);
+
+-- Enable Row Level Security
+ALTER TABLE yard_zones ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow all operations for authenticated users (Trimble Connect handles auth)
+CREATE POLICY "Allow all for authenticated" ON yard_zones
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE yard_zones IS 'Laydown yard zones; detail_positions are assigned to a zone and row by their GPS position';
@@ -0,0 +1,27 @@
+-- Capacity profiles per delivery vehicle type, used to check truck loads
+-- (project rows override the built-in defaults)
+
+CREATE TABLE IF NOT EXISTS delivery_vehicle_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trimble_project_id TEXT NOT NULL,
+  vehicle_type TEXT NOT NULL CHECK (vehicle_type IN ('kinni', 'haagis', 'lahti', 'extralong')),
+  max_payload_kg DECIMAL(8,0) NOT NULL,        -- Legal payload of the vehicle
+  deck_length_m DECIMAL(5,2) NOT NULL,         -- Usable deck length
+  deck_width_m DECIMAL(4,2) NOT NULL,          -- Usable deck width
+  max_height_m DECIMAL(4,2) NOT NULL,          -- Max load height above the deck
+  updated_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(trimble_project_id, vehicle_type)
+);
+
+-- Enable Row Level Security
+ALTER TABLE delivery_vehicle_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow all operations for authenticated users (Trimble Connect handles auth)
+CREATE POLICY "Allow all for authenticated" ON delivery_vehicle_profiles
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE delivery_vehicle_profiles IS 'Payload and deck dimensions per vehicle type for truck load checks and auto-pack';
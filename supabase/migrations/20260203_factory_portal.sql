@@ -0,0 +1,61 @@
+-- Supplier (factory) portal: token-scoped page where a factory confirms loading and dispatch
+-- of its vehicles, uploads delivery notes and load photos and flags missing items
+
+CREATE TABLE IF NOT EXISTS trimble_factory_portal_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trimble_project_id TEXT NOT NULL,
+  factory_id UUID NOT NULL REFERENCES trimble_delivery_factories(id) ON DELETE CASCADE,
+  share_token TEXT NOT NULL UNIQUE,            -- 48 char hex, see shareUtils.generateShareToken
+  project_name TEXT,                           -- Cached for the public page
+  factory_name TEXT,
+  is_active BOOLEAN DEFAULT true,
+  expires_at TIMESTAMPTZ,
+  view_count INTEGER DEFAULT 0,
+  last_viewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_factory_portal_links_factory ON trimble_factory_portal_links(factory_id);
+
+-- Delivery notes and load photos uploaded by the factory before dispatch
+CREATE TABLE IF NOT EXISTS trimble_vehicle_dispatch_files (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trimble_project_id TEXT NOT NULL,
+  vehicle_id UUID NOT NULL REFERENCES trimble_delivery_vehicles(id) ON DELETE CASCADE,
+  factory_id UUID NOT NULL,
+  file_type TEXT NOT NULL CHECK (file_type IN ('delivery_note', 'loading_photo')),
+  file_name TEXT NOT NULL,
+  file_url TEXT NOT NULL,
+  file_size INTEGER,
+  mime_type TEXT,
+  uploaded_by TEXT NOT NULL,                   -- Factory name
+  uploaded_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_dispatch_files_vehicle ON trimble_vehicle_dispatch_files(vehicle_id);
+
+-- Items the factory could not load on the vehicle
+ALTER TABLE trimble_delivery_items ADD COLUMN IF NOT EXISTS dispatch_missing_at TIMESTAMPTZ;
+ALTER TABLE trimble_delivery_items ADD COLUMN IF NOT EXISTS dispatch_missing_note TEXT;
+
+-- Enable Row Level Security
+ALTER TABLE trimble_factory_portal_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trimble_vehicle_dispatch_files ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow all operations (portal page is public, access is scoped by the token in the app)
+CREATE POLICY "Allow all for authenticated" ON trimble_factory_portal_links
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all for authenticated" ON trimble_vehicle_dispatch_files
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON trimble_factory_portal_links TO authenticated, anon;
+GRANT ALL ON trimble_vehicle_dispatch_files TO authenticated, anon;
+
+COMMENT ON TABLE trimble_factory_portal_links IS 'Share tokens of the supplier portal, one active link per factory';
+COMMENT ON TABLE trimble_vehicle_dispatch_files IS 'Delivery notes and loading photos uploaded by the factory through the supplier portal';
@@ -0,0 +1,114 @@
+-- Arrival discrepancies linked to issues: each discrepancy (optionally per type) gets a
+-- production issue, and resolving one side resolves the other
+
+CREATE TABLE IF NOT EXISTS trimble_arrival_discrepancies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trimble_project_id TEXT NOT NULL,
+  arrived_vehicle_id UUID NOT NULL REFERENCES trimble_arrived_vehicles(id) ON DELETE CASCADE,
+  item_id UUID REFERENCES trimble_delivery_items(id) ON DELETE SET NULL,
+  discrepancy_type TEXT NOT NULL CHECK (discrepancy_type IN ('missing_item', 'wrong_vehicle', 'damaged', 'wrong_quantity', 'other')),
+  description TEXT NOT NULL DEFAULT '',
+  expected_vehicle_id UUID,
+  expected_vehicle_code TEXT,
+  actual_vehicle_id UUID,
+  actual_vehicle_code TEXT,
+  is_resolved BOOLEAN DEFAULT false,
+  resolved_at TIMESTAMPTZ,
+  resolved_by TEXT,
+  resolution_notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by TEXT NOT NULL
+);
+
+-- Linked issue (null = no issue created for this discrepancy)
+ALTER TABLE trimble_arrival_discrepancies ADD COLUMN IF NOT EXISTS issue_id UUID REFERENCES issues(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_arrival_discrepancies_project ON trimble_arrival_discrepancies(trimble_project_id);
+CREATE INDEX IF NOT EXISTS idx_arrival_discrepancies_issue ON trimble_arrival_discrepancies(issue_id);
+
+-- Which discrepancy types create an issue automatically
+CREATE TABLE IF NOT EXISTS trimble_arrival_issue_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trimble_project_id TEXT NOT NULL UNIQUE,
+  auto_issue_types TEXT[] NOT NULL DEFAULT ARRAY['missing_item', 'damaged', 'wrong_quantity'],
+  updated_by TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Issue completed/closed -> discrepancy resolved, issue reopened -> discrepancy reopened
+CREATE OR REPLACE FUNCTION sync_issue_to_arrival_discrepancy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    IF NEW.status IN ('completed', 'closed') THEN
+      UPDATE trimble_arrival_discrepancies
+      SET is_resolved = true,
+          resolved_at = NOW(),
+          resolved_by = COALESCE(NEW.updated_by, NEW.reported_by),
+          resolution_notes = COALESCE(NEW.resolution_notes, resolution_notes)
+      WHERE issue_id = NEW.id AND is_resolved = false;
+    ELSIF OLD.status IN ('completed', 'closed') THEN
+      UPDATE trimble_arrival_discrepancies
+      SET is_resolved = false,
+          resolved_at = NULL,
+          resolved_by = NULL
+      WHERE issue_id = NEW.id AND is_resolved = true;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_issue_sync_arrival_discrepancy ON issues;
+CREATE TRIGGER trigger_issue_sync_arrival_discrepancy
+  AFTER UPDATE OF status ON issues
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_issue_to_arrival_discrepancy();
+
+-- Discrepancy resolved -> issue completed, discrepancy reopened -> issue back to nonconformance
+-- (the status guards stop the two triggers from updating each other in a loop)
+CREATE OR REPLACE FUNCTION sync_arrival_discrepancy_to_issue()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.issue_id IS NOT NULL AND OLD.is_resolved IS DISTINCT FROM NEW.is_resolved THEN
+    IF NEW.is_resolved THEN
+      UPDATE issues
+      SET status = 'completed',
+          resolution_notes = COALESCE(NEW.resolution_notes, resolution_notes),
+          updated_by = COALESCE(NEW.resolved_by, NEW.created_by)
+      WHERE id = NEW.issue_id AND status NOT IN ('completed', 'closed');
+    ELSE
+      UPDATE issues
+      SET status = 'nonconformance',
+          updated_by = NEW.created_by
+      WHERE id = NEW.issue_id AND status IN ('completed', 'closed');
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_arrival_discrepancy_sync_issue ON trimble_arrival_discrepancies;
+CREATE TRIGGER trigger_arrival_discrepancy_sync_issue
+  AFTER UPDATE OF is_resolved ON trimble_arrival_discrepancies
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_arrival_discrepancy_to_issue();
+
+-- Enable Row Level Security
+ALTER TABLE trimble_arrival_discrepancies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trimble_arrival_issue_settings ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow all operations for authenticated users (Trimble Connect handles auth)
+DROP POLICY IF EXISTS "Allow all for authenticated" ON trimble_arrival_discrepancies;
+CREATE POLICY "Allow all for authenticated" ON trimble_arrival_discrepancies
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all for authenticated" ON trimble_arrival_issue_settings
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE trimble_arrival_discrepancies IS 'Problems found on arrival (missing, damaged, wrong quantity ...), optionally linked to a production issue';
+COMMENT ON TABLE trimble_arrival_issue_settings IS 'Discrepancy types that automatically create an issue, per project';
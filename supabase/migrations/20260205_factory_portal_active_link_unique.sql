@@ -0,0 +1,19 @@
+-- Supplier portal: at most one active link per factory
+-- (createOrGetFactoryPortalLink falls back to the existing link on a unique violation)
+
+-- Keep the newest active link of each factory, deactivate the rest
+UPDATE trimble_factory_portal_links l
+SET is_active = false
+WHERE l.is_active
+  AND EXISTS (
+    SELECT 1 FROM trimble_factory_portal_links newer
+    WHERE newer.factory_id = l.factory_id
+      AND newer.is_active
+      AND (newer.created_at > l.created_at OR (newer.created_at = l.created_at AND newer.id > l.id))
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_factory_portal_links_active_factory
+  ON trimble_factory_portal_links(factory_id)
+  WHERE is_active;
+
+COMMENT ON INDEX idx_factory_portal_links_active_factory IS 'At most one active supplier portal link per factory';